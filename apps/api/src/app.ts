@@ -12,12 +12,20 @@ import metricsRouter from './routes/metrics';
 import authRouter from './routes/auth';
 import onboardingRouter from './routes/onboarding';
 import tasksRouter from './routes/tasks';
+import customTasksRouter from './routes/custom-tasks';
 import smsRouter from './routes/sms';
 import progressRouter from './routes/progress/photos';
+import progressWeightRouter from './routes/progress/weight';
+import progressStrengthRouter from './routes/progress/strength';
+import progressActivitiesRouter from './routes/progress/activities';
+import scienceRouter from './routes/science';
+import targetsRouter from './routes/targets';
 import streaksRouter from './routes/streaks';
 import plansRouter from './routes/plans';
 import profileMetricsRouter from './routes/profile/metrics';
 import profileEditRouter from './routes/profile/edit';
+import trainingRouter from './routes/training';
+import healthImportsRouter from './routes/health-imports';
 
 export const createApp = (): Application => {
   const app = express();
@@ -71,12 +79,20 @@ export const createApp = (): Application => {
   // API v1 routes (protected)
   app.use('/v1', onboardingRouter);
   app.use('/v1', tasksRouter);
+  app.use('/v1', customTasksRouter);
   app.use('/v1', smsRouter);
   app.use('/v1', streaksRouter);
   app.use('/v1', plansRouter);
+  app.use('/v1', targetsRouter);
   app.use('/v1/progress', progressRouter);
+  app.use('/v1/progress', progressWeightRouter);
+  app.use('/v1/progress', progressStrengthRouter);
+  app.use('/v1/progress', progressActivitiesRouter);
+  app.use('/v1/science', scienceRouter);
   app.use('/v1/profile', profileMetricsRouter);
   app.use('/v1', profileEditRouter);
+  app.use('/v1', trainingRouter);
+  app.use('/v1', healthImportsRouter);
 
   // Error handlers (must be last)
   app.use(notFoundHandler);
@@ -29,6 +29,19 @@ const envSchema = z.object({
   // JWT Authentication
   JWT_SECRET: z.string().min(32).default(isTest ? 'test-secret-key-at-least-32-characters-long-for-testing' : ''),
   JWT_REFRESH_SECRET: z.string().min(32).default(isTest ? 'test-refresh-secret-key-at-least-32-chars-long' : ''),
+  // Frontend base URL for links in emails
+  FRONTEND_URL: z.string().url().default('http://localhost:3000'),
+  // Email delivery ('smtp' sends through SMTP_*, 'log' only logs rendered messages)
+  EMAIL_PROVIDER: z.enum(['smtp', 'log']).default(isTest ? 'log' : 'smtp'),
+  EMAIL_FROM: z.string().default('GTSD <noreply@gtsd.app>'),
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.string().default('1025'),
+  SMTP_SECURE: z
+    .string()
+    .default('false')
+    .transform((value) => value === 'true'),
+  SMTP_USER: z.string().default(''),
+  SMTP_PASSWORD: z.string().default(''),
 });
 
 export type Env = z.infer<typeof envSchema>;
@@ -1,19 +1,28 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue } from 'bullmq';
 import { env } from './env';
 import { logger } from './logger';
+import { EmailTemplateData, EmailTemplateName } from '../services/email-templates';
 
 const connection = {
   host: new URL(env.REDIS_URL).hostname,
   port: parseInt(new URL(env.REDIS_URL).port || '6379', 10),
 };
 
-export const emailQueue = new Queue('email', { connection });
+/**
+ * Email queue for delivering transactional emails
+ */
+export const emailQueue = new Queue<EmailJobData>('email', { connection });
 
 /**
  * SMS queue for processing SMS notification jobs
  */
 export const smsQueue = new Queue('sms', { connection });
 
+/**
+ * Health import queue for processing uploaded Apple Health / Google Fit exports
+ */
+export const healthImportQueue = new Queue<HealthImportJobData>('health-import', { connection });
+
 /**
  * Job data structure for SMS jobs
  */
@@ -22,34 +31,30 @@ export interface SmsJobData {
   messageType: 'morning_nudge' | 'evening_reminder';
 }
 
-export const createEmailWorker = () => {
-  const worker = new Worker(
-    'email',
-    async (job: Job) => {
-      logger.info({ jobId: job.id, data: job.data }, 'Processing email job');
-
-      // Simulate email sending
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      logger.info({ jobId: job.id }, 'Email job completed');
-      return { success: true };
-    },
-    { connection }
-  );
-
-  worker.on('completed', (job: Job) => {
-    logger.info({ jobId: job.id }, 'Job completed');
-  });
-
-  worker.on('failed', (job: Job | undefined, err: Error) => {
-    logger.error({ jobId: job?.id, err }, 'Job failed');
-  });
+/**
+ * Job data structure for email jobs
+ * The template data travels with the job; only metadata is persisted in email_logs
+ */
+export type EmailJobData = {
+  [K in EmailTemplateName]: {
+    emailLogId: number;
+    template: K;
+    to: string;
+    data: EmailTemplateData[K];
+  };
+}[EmailTemplateName];
 
-  return worker;
-};
+/**
+ * Job data structure for health import jobs
+ * The file and progress live on the health_imports row
+ */
+export interface HealthImportJobData {
+  importId: number;
+}
 
 export const closeQueues = async () => {
   await emailQueue.close();
   await smsQueue.close();
+  await healthImportQueue.close();
   logger.info('Queues closed');
 };
\ No newline at end of file
@@ -0,0 +1,20 @@
+-- Create compliance_processed_days table so the daily compliance job
+-- evaluates each user's local day exactly once
+CREATE TABLE IF NOT EXISTS "compliance_processed_days" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"local_date" date NOT NULL,
+	"timezone" varchar(50) NOT NULL,
+	"is_compliant" boolean,
+	"processed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add foreign key constraint
+DO $$ BEGIN
+ ALTER TABLE "compliance_processed_days" ADD CONSTRAINT "compliance_processed_days_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Unique constraint ensures each local day is processed once per user
+CREATE UNIQUE INDEX IF NOT EXISTS "compliance_processed_days_user_date_unique" ON "compliance_processed_days" USING btree ("user_id", "local_date");
@@ -0,0 +1,49 @@
+-- Allow user-defined tasks and track their streaks alongside generated task types
+ALTER TYPE "task_type" ADD VALUE IF NOT EXISTS 'custom';
+ALTER TYPE "streak_type" ADD VALUE IF NOT EXISTS 'custom' BEFORE 'overall';
+
+DO $$ BEGIN
+ CREATE TYPE "recurrence_type" AS ENUM('once', 'daily', 'weekdays', 'every_n_days', 'specific_weekdays');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Create custom_tasks table holding user-defined tasks and their recurrence rules
+CREATE TABLE IF NOT EXISTS "custom_tasks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"task_type" "task_type" NOT NULL,
+	"due_time" varchar(8) NOT NULL,
+	"priority" integer DEFAULT 1 NOT NULL,
+	"recurrence_type" "recurrence_type" NOT NULL,
+	"interval_days" integer,
+	"weekdays" jsonb,
+	"start_date" date NOT NULL,
+	"end_date" date,
+	"expanded_through" date,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add foreign key constraint
+DO $$ BEGIN
+ ALTER TABLE "custom_tasks" ADD CONSTRAINT "custom_tasks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "custom_tasks_user_active_idx" ON "custom_tasks" USING btree ("user_id", "is_active");
+
+-- Link expanded daily task occurrences back to their custom task
+ALTER TABLE "daily_tasks" ADD COLUMN IF NOT EXISTS "custom_task_id" integer;
+
+DO $$ BEGIN
+ ALTER TABLE "daily_tasks" ADD CONSTRAINT "daily_tasks_custom_task_id_custom_tasks_id_fk" FOREIGN KEY ("custom_task_id") REFERENCES "public"."custom_tasks"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "daily_tasks_custom_task_id_idx" ON "daily_tasks" USING btree ("custom_task_id");
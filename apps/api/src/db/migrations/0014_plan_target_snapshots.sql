@@ -0,0 +1,12 @@
+-- Snapshot each plan's targets at generation time so plan history and
+-- plan-to-plan diffs survive later recomputes of user_settings
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "bmr" integer;
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "tdee" integer;
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "calorie_target" integer;
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "protein_target" integer;
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "water_target" integer;
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "weekly_rate" numeric(4, 2);
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "weight_at_generation" numeric(5, 2);
+
+-- Supports paginated plan history (newest first)
+CREATE INDEX IF NOT EXISTS "plans_user_generated_at_idx" ON "plans" USING btree ("user_id", "generated_at");
@@ -0,0 +1,3 @@
+-- Per-user BMR formula preference; 'auto' picks a lean-mass formula when
+-- body fat was logged recently and Mifflin-St Jeor otherwise
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "bmr_formula" varchar(30) DEFAULT 'auto' NOT NULL;
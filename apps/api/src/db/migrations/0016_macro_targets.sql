@@ -0,0 +1,8 @@
+-- Carbs, fat and fiber targets alongside the existing calorie/protein/water targets
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "carbs_target" integer;
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "fat_target" integer;
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "fiber_target" integer;
+
+ALTER TABLE "initial_plan_snapshots" ADD COLUMN IF NOT EXISTS "carbs_target" integer;
+ALTER TABLE "initial_plan_snapshots" ADD COLUMN IF NOT EXISTS "fat_target" integer;
+ALTER TABLE "initial_plan_snapshots" ADD COLUMN IF NOT EXISTS "fiber_target" integer;
@@ -0,0 +1,23 @@
+-- Create email_verification_tokens table for the email verification flow
+CREATE TABLE IF NOT EXISTS "email_verification_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"token" varchar(255) NOT NULL,
+	"email" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"used" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "email_verification_tokens_token_unique" UNIQUE("token")
+);
+
+-- Add foreign key constraint
+DO $$ BEGIN
+ ALTER TABLE "email_verification_tokens" ADD CONSTRAINT "email_verification_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Create indexes for email_verification_tokens
+CREATE INDEX IF NOT EXISTS "email_verification_tokens_user_id_idx" ON "email_verification_tokens" USING btree ("user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "email_verification_tokens_token_idx" ON "email_verification_tokens" USING btree ("token");
+CREATE INDEX IF NOT EXISTS "email_verification_tokens_user_created_idx" ON "email_verification_tokens" USING btree ("user_id", "created_at");
@@ -0,0 +1,42 @@
+-- Create enums for email delivery logging
+DO $$ BEGIN
+ CREATE TYPE "email_template" AS ENUM('password_reset', 'password_changed', 'email_verification', 'partner_invite', 'weekly_digest');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ CREATE TYPE "email_status" AS ENUM('queued', 'sent', 'failed', 'bounced', 'suppressed');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Create email_logs table (one row per message handed to the email queue)
+CREATE TABLE IF NOT EXISTS "email_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"to_email" text NOT NULL,
+	"template" "email_template" NOT NULL,
+	"subject" text NOT NULL,
+	"provider_message_id" varchar(255),
+	"status" "email_status" DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"sent_at" timestamp with time zone,
+	"bounced_at" timestamp with time zone,
+	"error_message" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add foreign key constraint
+DO $$ BEGIN
+ ALTER TABLE "email_logs" ADD CONSTRAINT "email_logs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Create indexes for email_logs
+CREATE INDEX IF NOT EXISTS "email_logs_user_id_idx" ON "email_logs" USING btree ("user_id");
+CREATE INDEX IF NOT EXISTS "email_logs_status_idx" ON "email_logs" USING btree ("status");
+CREATE INDEX IF NOT EXISTS "email_logs_created_at_idx" ON "email_logs" USING btree ("created_at");
+CREATE INDEX IF NOT EXISTS "email_logs_to_email_status_idx" ON "email_logs" USING btree ("to_email", "status");
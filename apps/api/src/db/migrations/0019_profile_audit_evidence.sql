@@ -0,0 +1,11 @@
+-- Link profile changes to the evidence that caused them (e.g. weigh-ins updating current weight)
+ALTER TABLE "profile_change_audit" ADD COLUMN IF NOT EXISTS "evidence_id" integer;
+
+-- Add foreign key constraint (keep the audit row if the evidence is deleted)
+DO $$ BEGIN
+ ALTER TABLE "profile_change_audit" ADD CONSTRAINT "profile_change_audit_evidence_id_evidence_id_fk" FOREIGN KEY ("evidence_id") REFERENCES "public"."evidence"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "profile_audit_evidence_idx" ON "profile_change_audit" USING btree ("evidence_id");
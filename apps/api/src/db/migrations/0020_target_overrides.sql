@@ -0,0 +1,40 @@
+-- Create target_overrides table (one pinned value per user and target)
+CREATE TABLE IF NOT EXISTS "target_overrides" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"field" varchar(30) NOT NULL,
+	"value" integer NOT NULL,
+	"reason" text,
+	"set_by" varchar(10) NOT NULL,
+	"set_by_user_id" integer,
+	"expires_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add foreign key constraints (keep the override if the coach's account is deleted)
+DO $$ BEGIN
+ ALTER TABLE "target_overrides" ADD CONSTRAINT "target_overrides_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "target_overrides" ADD CONSTRAINT "target_overrides_set_by_user_id_users_id_fk" FOREIGN KEY ("set_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "target_overrides_user_field_idx" ON "target_overrides" USING btree ("user_id", "field");
+
+-- Coach permission to manage a user's targets
+ALTER TABLE "partners" ADD COLUMN IF NOT EXISTS "can_manage_targets" boolean DEFAULT false NOT NULL;
+
+-- Record who made a profile change when it was not the user
+ALTER TABLE "profile_change_audit" ADD COLUMN IF NOT EXISTS "changed_by_user_id" integer;
+
+DO $$ BEGIN
+ ALTER TABLE "profile_change_audit" ADD CONSTRAINT "profile_change_audit_changed_by_user_id_users_id_fk" FOREIGN KEY ("changed_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
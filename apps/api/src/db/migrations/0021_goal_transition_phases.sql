@@ -0,0 +1,7 @@
+-- Goal transitions are scheduled as weekly plans that activate one after another
+ALTER TYPE "plan_status" ADD VALUE IF NOT EXISTS 'scheduled';
+
+-- Which transition a plan belongs to and where it sits in the schedule
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "transition_kind" varchar(20);
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "phase_number" integer;
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "phase_count" integer;
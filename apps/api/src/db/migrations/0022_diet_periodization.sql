@@ -0,0 +1,7 @@
+-- Optional diet breaks (a week at maintenance every N weeks) and weekly refeed days
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "diet_break_every_weeks" integer;
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "diet_break_anchor" timestamp;
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "refeed_days" jsonb DEFAULT '[]'::jsonb NOT NULL;
+
+-- Diet break and refeed targets that applied to a plan's week
+ALTER TABLE "plans" ADD COLUMN IF NOT EXISTS "periodization" jsonb;
@@ -0,0 +1,41 @@
+-- Badge for the first personal record
+ALTER TYPE "badge_type" ADD VALUE IF NOT EXISTS 'record_breaker';
+
+DO $$ BEGIN
+ CREATE TYPE "personal_record_type" AS ENUM('weight', 'estimated_1rm', 'volume');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Create personal_records table (best lifts per exercise, detected from workout evidence)
+CREATE TABLE IF NOT EXISTS "personal_records" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"evidence_id" integer NOT NULL,
+	"exercise_key" varchar(100) NOT NULL,
+	"exercise_name" varchar(255) NOT NULL,
+	"record_type" "personal_record_type" NOT NULL,
+	"value" numeric(10, 2) NOT NULL,
+	"previous_value" numeric(10, 2),
+	"sets" integer NOT NULL,
+	"reps" integer NOT NULL,
+	"weight" numeric(6, 2) NOT NULL,
+	"achieved_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Add foreign key constraints (records go with the evidence they came from)
+DO $$ BEGIN
+ ALTER TABLE "personal_records" ADD CONSTRAINT "personal_records_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "personal_records" ADD CONSTRAINT "personal_records_evidence_id_evidence_id_fk" FOREIGN KEY ("evidence_id") REFERENCES "public"."evidence"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "personal_records_user_exercise_idx" ON "personal_records" USING btree ("user_id", "exercise_key", "record_type");
+CREATE INDEX IF NOT EXISTS "personal_records_evidence_id_idx" ON "personal_records" USING btree ("evidence_id");
@@ -0,0 +1,50 @@
+DO $$ BEGIN
+ CREATE TYPE "health_import_source" AS ENUM('apple_health', 'google_fit');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ CREATE TYPE "health_import_status" AS ENUM('queued', 'processing', 'completed', 'failed');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+-- Create health_imports table (background imports of Apple Health / Google Fit exports)
+CREATE TABLE IF NOT EXISTS "health_imports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"source" "health_import_source" NOT NULL,
+	"file_key" text NOT NULL,
+	"status" "health_import_status" DEFAULT 'queued' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"records_read" integer DEFAULT 0 NOT NULL,
+	"weigh_ins_imported" integer DEFAULT 0 NOT NULL,
+	"workouts_imported" integer DEFAULT 0 NOT NULL,
+	"step_days_imported" integer DEFAULT 0 NOT NULL,
+	"duplicates_skipped" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Backfilled history is linked to its import and left out of streaks
+ALTER TABLE "daily_tasks" ADD COLUMN IF NOT EXISTS "health_import_id" integer;
+
+-- Add foreign key constraints
+DO $$ BEGIN
+ ALTER TABLE "health_imports" ADD CONSTRAINT "health_imports_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "daily_tasks" ADD CONSTRAINT "daily_tasks_health_import_id_health_imports_id_fk" FOREIGN KEY ("health_import_id") REFERENCES "public"."health_imports"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "health_imports_user_created_at_idx" ON "health_imports" USING btree ("user_id", "created_at");
+CREATE INDEX IF NOT EXISTS "daily_tasks_health_import_id_idx" ON "daily_tasks" USING btree ("health_import_id");
@@ -11,6 +11,7 @@ import {
   index,
   uniqueIndex,
   pgEnum,
+  date,
 } from 'drizzle-orm/pg-core';
 import { relations, InferSelectModel, InferInsertModel } from 'drizzle-orm';
 
@@ -59,6 +60,7 @@ export const userSettings = pgTable('user_settings', {
   targetWeight: decimal('target_weight', { precision: 5, scale: 2 }), // kg
   targetDate: timestamp('target_date'),
   activityLevel: varchar('activity_level', { length: 30 }), // sedentary, light, moderate, active, very_active
+  bmrFormula: varchar('bmr_formula', { length: 30 }).default('auto').notNull(), // auto, mifflin_st_jeor, harris_benedict, katch_mcardle, cunningham
 
   // Health metrics
   currentWeight: decimal('current_weight', { precision: 5, scale: 2 }), // kg
@@ -70,6 +72,9 @@ export const userSettings = pgTable('user_settings', {
   calorieTarget: integer('calorie_target'), // Daily calorie target
   proteinTarget: integer('protein_target'), // grams/day
   waterTarget: integer('water_target'), // ml/day
+  carbsTarget: integer('carbs_target'), // grams/day
+  fatTarget: integer('fat_target'), // grams/day
+  fiberTarget: integer('fiber_target'), // grams/day
 
   // Preferences
   dietaryPreferences: jsonb('dietary_preferences').$type<string[]>(), // vegetarian, vegan, etc.
@@ -77,6 +82,11 @@ export const userSettings = pgTable('user_settings', {
   mealsPerDay: integer('meals_per_day').default(3),
   complianceThreshold: decimal('compliance_threshold', { precision: 3, scale: 2 }).default('0.80'), // Daily compliance threshold (80% default)
 
+  // Diet periodization (applies while losing weight)
+  dietBreakEveryWeeks: integer('diet_break_every_weeks'), // a week at maintenance after every N weeks
+  dietBreakAnchor: timestamp('diet_break_anchor'), // Monday the diet-break cycle counts from
+  refeedDays: jsonb('refeed_days').$type<number[]>().default([]).notNull(), // ISO weekdays, 1 = Monday
+
   // Onboarding completion
   onboardingCompleted: boolean('onboarding_completed').default(false).notNull(),
   onboardingCompletedAt: timestamp('onboarding_completed_at'),
@@ -99,6 +109,8 @@ export const partners = pgTable(
     phone: varchar('phone', { length: 20 }),
     relationship: varchar('relationship', { length: 50 }), // friend, family, coach, etc.
     notificationPreference: varchar('notification_preference', { length: 20 }).default('email'), // email, sms, both
+    // Lets a coach whose account has this (verified) email pin the user's targets
+    canManageTargets: boolean('can_manage_targets').default(false).notNull(),
 
     // Status
     inviteSent: boolean('invite_sent').default(false).notNull(),
@@ -137,6 +149,9 @@ export const initialPlanSnapshot = pgTable('initial_plan_snapshots', {
   calorieTarget: integer('calorie_target').notNull(),
   proteinTarget: integer('protein_target').notNull(),
   waterTarget: integer('water_target').notNull(),
+  carbsTarget: integer('carbs_target'),
+  fatTarget: integer('fat_target'),
+  fiberTarget: integer('fiber_target'),
 
   // Metadata
   primaryGoal: varchar('primary_goal', { length: 50 }).notNull(),
@@ -149,7 +164,13 @@ export const initialPlanSnapshot = pgTable('initial_plan_snapshots', {
 // ENUMS FOR TODAY CHECKLIST FEATURE
 // ============================================================================
 
-export const planStatusEnum = pgEnum('plan_status', ['active', 'completed', 'archived', 'draft']);
+export const planStatusEnum = pgEnum('plan_status', [
+  'active',
+  'completed',
+  'archived',
+  'draft',
+  'scheduled',
+]);
 
 export const taskTypeEnum = pgEnum('task_type', [
   'workout',
@@ -159,6 +180,7 @@ export const taskTypeEnum = pgEnum('task_type', [
   'cardio',
   'weight_log',
   'progress_photo',
+  'custom',
 ]);
 
 export const taskStatusEnum = pgEnum('task_status', [
@@ -178,13 +200,38 @@ export const streakTypeEnum = pgEnum('streak_type', [
   'cardio',
   'weight_log',
   'progress_photo',
+  'custom',
   'overall',
 ]);
 
+export const recurrenceTypeEnum = pgEnum('recurrence_type', [
+  'once',
+  'daily',
+  'weekdays',
+  'every_n_days',
+  'specific_weekdays',
+]);
+
 export const smsMessageTypeEnum = pgEnum('sms_message_type', ['morning_nudge', 'evening_reminder']);
 
 export const smsStatusEnum = pgEnum('sms_status', ['queued', 'sent', 'delivered', 'failed']);
 
+export const emailTemplateEnum = pgEnum('email_template', [
+  'password_reset',
+  'password_changed',
+  'email_verification',
+  'partner_invite',
+  'weekly_digest',
+]);
+
+export const emailStatusEnum = pgEnum('email_status', [
+  'queued',
+  'sent',
+  'failed',
+  'bounced',
+  'suppressed',
+]);
+
 export const photoEvidenceTypeEnum = pgEnum('photo_evidence_type', ['before', 'during', 'after']);
 
 export const badgeTypeEnum = pgEnum('badge_type', [
@@ -204,6 +251,25 @@ export const badgeTypeEnum = pgEnum('badge_type', [
   'comeback_kid',
   'milestone_master',
   'photo_finisher',
+  'record_breaker',
+]);
+
+export const personalRecordTypeEnum = pgEnum('personal_record_type', [
+  'weight',
+  'estimated_1rm',
+  'volume',
+]);
+
+export const healthImportSourceEnum = pgEnum('health_import_source', [
+  'apple_health',
+  'google_fit',
+]);
+
+export const healthImportStatusEnum = pgEnum('health_import_status', [
+  'queued',
+  'processing',
+  'completed',
+  'failed',
 ]);
 
 // ============================================================================
@@ -241,6 +307,36 @@ export const dailyComplianceStreaks = pgTable(
   })
 );
 
+// ============================================================================
+// COMPLIANCE PROCESSED DAYS TABLE - Local days already evaluated by the compliance job
+// ============================================================================
+
+export const complianceProcessedDays = pgTable(
+  'compliance_processed_days',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    // Local calendar day that was evaluated (in the user's timezone at processing time)
+    localDate: date('local_date', { mode: 'string' }).notNull(),
+    timezone: varchar('timezone', { length: 50 }).notNull(),
+
+    // Result (null while the day is claimed but not yet evaluated)
+    isCompliant: boolean('is_compliant'),
+
+    processedAt: timestamp('processed_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    // CRITICAL: Unique constraint ensures each local day is processed exactly once
+    userDateUnique: uniqueIndex('compliance_processed_days_user_date_unique').on(
+      table.userId,
+      table.localDate
+    ),
+  })
+);
+
 // ============================================================================
 // USER BADGES TABLE - Achievement badges awarded to users
 // ============================================================================
@@ -296,6 +392,57 @@ export const refreshTokens = pgTable(
   })
 );
 
+// ============================================================================
+// PASSWORD RESET TOKENS TABLE - Single-use tokens for the forgot-password flow
+// ============================================================================
+
+export const passwordResetTokens = pgTable(
+  'password_reset_tokens',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    token: varchar('token', { length: 255 }).notNull().unique(), // SHA-256 hex of the emailed token
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    used: boolean('used').default(false),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('password_reset_tokens_user_id_idx').on(table.userId),
+    tokenIdx: uniqueIndex('password_reset_tokens_token_idx').on(table.token),
+    expiresAtIdx: index('password_reset_tokens_expires_at_idx').on(table.expiresAt),
+    userUsedIdx: index('password_reset_tokens_user_used_idx').on(table.userId, table.used),
+  })
+);
+
+// ============================================================================
+// EMAIL VERIFICATION TOKENS TABLE - Single-use tokens for confirming an email address
+// ============================================================================
+
+export const emailVerificationTokens = pgTable(
+  'email_verification_tokens',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    token: varchar('token', { length: 255 }).notNull().unique(), // SHA-256 hex of the emailed token
+    email: text('email').notNull(), // Address the token was sent to; stale if the user's email changes
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    used: boolean('used').default(false).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('email_verification_tokens_user_id_idx').on(table.userId),
+    tokenIdx: uniqueIndex('email_verification_tokens_token_idx').on(table.token),
+    userCreatedIdx: index('email_verification_tokens_user_created_idx').on(
+      table.userId,
+      table.createdAt
+    ),
+  })
+);
+
 // ============================================================================
 // PROFILE CHANGE AUDIT TABLE - Track profile field changes
 // ============================================================================
@@ -317,6 +464,12 @@ export const profileChangeAudit = pgTable(
     changedAt: timestamp('changed_at', { withTimezone: true }).defaultNow().notNull(),
     ipAddress: varchar('ip_address', { length: 45 }),
     userAgent: text('user_agent'),
+    // Set when the change came from logged evidence (e.g. a weigh-in) rather than a profile edit
+    evidenceId: integer('evidence_id').references(() => evidence.id, { onDelete: 'set null' }),
+    // Set when someone other than the user made the change (e.g. a coach pinning a target)
+    changedByUserId: integer('changed_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
 
     // Impact tracking
     triggeredPlanRegeneration: boolean('triggered_plan_regeneration').default(false).notNull(),
@@ -329,6 +482,39 @@ export const profileChangeAudit = pgTable(
     userIdIdx: index('profile_audit_user_idx').on(table.userId, table.changedAt),
     fieldNameIdx: index('profile_audit_field_idx').on(table.fieldName),
     changedAtIdx: index('profile_audit_changed_at_idx').on(table.changedAt),
+    evidenceIdIdx: index('profile_audit_evidence_idx').on(table.evidenceId),
+  })
+);
+
+// ============================================================================
+// TARGET OVERRIDES TABLE - Targets pinned by hand instead of computed
+// ============================================================================
+
+export const targetOverrides = pgTable(
+  'target_overrides',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    // Pinned target
+    field: varchar('field', { length: 30 }).notNull(), // calorieTarget, proteinTarget, waterTarget
+    value: integer('value').notNull(),
+    reason: text('reason'),
+
+    // Who pinned it
+    setBy: varchar('set_by', { length: 10 }).notNull(), // user, coach
+    setByUserId: integer('set_by_user_id').references(() => users.id, { onDelete: 'set null' }),
+
+    // Null = pinned until removed
+    expiresAt: timestamp('expires_at', { withTimezone: true }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userFieldIdx: uniqueIndex('target_overrides_user_field_idx').on(table.userId, table.field),
   })
 );
 
@@ -421,6 +607,30 @@ export const plans = pgTable(
     completedTasks: integer('completed_tasks').default(0).notNull(),
     completionPercentage: decimal('completion_percentage', { precision: 5, scale: 2 }).default('0'),
 
+    // Targets at generation time (null for plans created before target snapshots)
+    bmr: integer('bmr'),
+    tdee: integer('tdee'),
+    calorieTarget: integer('calorie_target'),
+    proteinTarget: integer('protein_target'),
+    waterTarget: integer('water_target'), // ml/day
+    weeklyRate: decimal('weekly_rate', { precision: 4, scale: 2 }), // kg/week
+    weightAtGeneration: decimal('weight_at_generation', { precision: 5, scale: 2 }), // kg
+
+    // Goal transition phase (null for regular weekly plans)
+    transitionKind: varchar('transition_kind', { length: 20 }), // 'reverse_diet', 'surplus_ramp_in', 'surplus_taper'
+    phaseNumber: integer('phase_number'), // 1-based
+    phaseCount: integer('phase_count'),
+
+    // Diet break and refeed days for the plan's week (null when none applied)
+    periodization: jsonb('periodization').$type<{
+      dietBreakEveryWeeks: number | null;
+      refeedDays: number[];
+      dietBreakWeek: boolean;
+      dietCalorieTarget: number;
+      refeed?: { calorieTarget: number; carbsTarget?: number };
+      averageWeeklyRate: number;
+    }>(),
+
     // Metadata
     generatedAt: timestamp('generated_at', { withTimezone: true }).defaultNow().notNull(),
     completedAt: timestamp('completed_at', { withTimezone: true }),
@@ -433,6 +643,45 @@ export const plans = pgTable(
     statusIdx: index('plans_status_idx').on(table.status),
     startDateIdx: index('plans_start_date_idx').on(table.startDate),
     userStatusIdx: index('plans_user_status_idx').on(table.userId, table.status),
+    userGeneratedAtIdx: index('plans_user_generated_at_idx').on(table.userId, table.generatedAt),
+  })
+);
+
+// ============================================================================
+// CUSTOM TASKS TABLE - User-defined tasks with recurrence rules
+// ============================================================================
+
+export const customTasks = pgTable(
+  'custom_tasks',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    // Task details (copied onto each daily_tasks occurrence)
+    title: text('title').notNull(),
+    description: text('description'),
+    taskType: taskTypeEnum('task_type').notNull(),
+    dueTime: varchar('due_time', { length: 8 }).notNull(), // HH:MM:SS in user's local time
+    priority: integer('priority').default(1).notNull(),
+
+    // Recurrence rule
+    recurrenceType: recurrenceTypeEnum('recurrence_type').notNull(),
+    intervalDays: integer('interval_days'), // every_n_days only
+    weekdays: jsonb('weekdays').$type<number[]>(), // specific_weekdays only (ISO 1-7)
+    startDate: date('start_date', { mode: 'string' }).notNull(),
+    endDate: date('end_date', { mode: 'string' }), // inclusive, null = no end
+    // Last local date already expanded into daily_tasks (null = not yet expanded)
+    expandedThrough: date('expanded_through', { mode: 'string' }),
+
+    isActive: boolean('is_active').default(true).notNull(),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userActiveIdx: index('custom_tasks_user_active_idx').on(table.userId, table.isActive),
   })
 );
 
@@ -448,6 +697,14 @@ export const dailyTasks = pgTable(
       .notNull()
       .references(() => users.id, { onDelete: 'cascade' }),
     planId: integer('plan_id').references(() => plans.id, { onDelete: 'cascade' }),
+    // Set for occurrences of a user-defined custom task (planId is null for these)
+    customTaskId: integer('custom_task_id').references(() => customTasks.id, {
+      onDelete: 'set null',
+    }),
+    // Set for history backfilled from a health data export; these never count toward streaks
+    healthImportId: integer('health_import_id').references(() => healthImports.id, {
+      onDelete: 'cascade',
+    }),
 
     // Task details
     title: text('title').notNull(),
@@ -474,6 +731,13 @@ export const dailyTasks = pgTable(
       reps?: number;
       weight?: number;
       duration?: number; // minutes
+      exerciseKey?: string; // training program exercise, e.g. 'back_squat'
+      sessionName?: string; // e.g. 'Upper A'
+      targetMuscleGroup?: string;
+      repRangeMin?: number;
+      repRangeMax?: number;
+      progression?: 'double_progression' | 'rpe';
+      deload?: boolean;
 
       // For supplement tasks
       supplementName?: string;
@@ -483,6 +747,9 @@ export const dailyTasks = pgTable(
       mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
       targetCalories?: number;
       targetProtein?: number;
+      targetCarbs?: number;
+      targetFat?: number;
+      targetFiber?: number;
 
       // For hydration tasks
       targetAmount?: number; // ml
@@ -515,6 +782,8 @@ export const dailyTasks = pgTable(
     userDueDateIdx: index('daily_tasks_user_due_date_idx').on(table.userId, table.dueDate),
     userStatusIdx: index('daily_tasks_user_status_idx').on(table.userId, table.status),
     userTaskTypeIdx: index('daily_tasks_user_task_type_idx').on(table.userId, table.taskType),
+    customTaskIdIdx: index('daily_tasks_custom_task_id_idx').on(table.customTaskId),
+    healthImportIdIdx: index('daily_tasks_health_import_id_idx').on(table.healthImportId),
   })
 );
 
@@ -546,6 +815,8 @@ export const evidence = pgTable(
       actualReps?: number;
       actualWeight?: number;
       actualDuration?: number; // minutes
+      difficulty?: string; // easy, moderate, hard, very_hard
+      personalRecord?: boolean;
 
       // Weight log metrics
       weight?: number; // kg
@@ -556,7 +827,21 @@ export const evidence = pgTable(
       distance?: number; // km
       duration?: number; // minutes
       avgHeartRate?: number;
+      maxHeartRate?: number;
       caloriesBurned?: number;
+      avgPace?: number; // min/km
+      elevationGain?: number; // meters
+      activityType?: string;
+      activityStartTime?: string; // ISO timestamp of an imported session
+      activityFileFormat?: string; // gpx, tcx, fit
+      activityFileKey?: string; // S3 key of the imported file
+
+      // Daily steps (imported from a health data export)
+      steps?: number;
+      stepsDate?: string; // YYYY-MM-DD in the user's timezone
+
+      // Set on history backfilled from a health data export
+      importSource?: string; // apple_health, google_fit
 
       // Meal metrics
       actualCalories?: number;
@@ -590,6 +875,86 @@ export const evidence = pgTable(
   })
 );
 
+// ============================================================================
+// PERSONAL RECORDS TABLE - Best lifts per exercise, detected from workout evidence
+// ============================================================================
+
+export const personalRecords = pgTable(
+  'personal_records',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    // Removing the evidence (e.g. undoing the task) removes the record with it
+    evidenceId: integer('evidence_id')
+      .notNull()
+      .references(() => evidence.id, { onDelete: 'cascade' }),
+
+    // Exercise
+    exerciseKey: varchar('exercise_key', { length: 100 }).notNull(),
+    exerciseName: varchar('exercise_name', { length: 255 }).notNull(),
+
+    // Record
+    recordType: personalRecordTypeEnum('record_type').notNull(),
+    value: decimal('value', { precision: 10, scale: 2 }).notNull(), // kg (volume: kg x reps x sets)
+    previousValue: decimal('previous_value', { precision: 10, scale: 2 }), // null = first session
+
+    // Session the record was set in
+    sets: integer('sets').notNull(),
+    reps: integer('reps').notNull(),
+    weight: decimal('weight', { precision: 6, scale: 2 }).notNull(), // kg
+
+    achievedAt: timestamp('achieved_at', { withTimezone: true }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userExerciseIdx: index('personal_records_user_exercise_idx').on(
+      table.userId,
+      table.exerciseKey,
+      table.recordType
+    ),
+    evidenceIdx: index('personal_records_evidence_id_idx').on(table.evidenceId),
+  })
+);
+
+// ============================================================================
+// HEALTH IMPORTS TABLE - Background imports of Apple Health / Google Fit exports
+// ============================================================================
+
+export const healthImports = pgTable(
+  'health_imports',
+  {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    source: healthImportSourceEnum('source').notNull(),
+    fileKey: text('file_key').notNull(), // S3 key of the uploaded export
+    status: healthImportStatusEnum('status').default('queued').notNull(),
+
+    // Progress
+    progress: integer('progress').default(0).notNull(), // percent
+    recordsRead: integer('records_read').default(0).notNull(),
+
+    // Results
+    weighInsImported: integer('weigh_ins_imported').default(0).notNull(),
+    workoutsImported: integer('workouts_imported').default(0).notNull(),
+    stepDaysImported: integer('step_days_imported').default(0).notNull(),
+    duplicatesSkipped: integer('duplicates_skipped').default(0).notNull(),
+    errorMessage: text('error_message'),
+
+    startedAt: timestamp('started_at', { withTimezone: true }),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userCreatedAtIdx: index('health_imports_user_created_at_idx').on(table.userId, table.createdAt),
+  })
+);
+
 // ============================================================================
 // STREAKS TABLE - Track consecutive completion days
 // ============================================================================
@@ -667,6 +1032,45 @@ export const smsLogs = pgTable(
   })
 );
 
+// ============================================================================
+// EMAIL LOGS TABLE - Track every email handed to the email queue
+// ============================================================================
+
+export const emailLogs = pgTable(
+  'email_logs',
+  {
+    id: serial('id').primaryKey(),
+    // Nullable: partner invites are addressed to people without an account
+    userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+
+    // Message details (bodies are not stored - they contain one-time tokens)
+    toEmail: text('to_email').notNull(),
+    template: emailTemplateEnum('template').notNull(),
+    subject: text('subject').notNull(),
+
+    // Provider tracking
+    providerMessageId: varchar('provider_message_id', { length: 255 }),
+    status: emailStatusEnum('status').default('queued').notNull(),
+    attempts: integer('attempts').default(0).notNull(),
+
+    // Timing
+    sentAt: timestamp('sent_at', { withTimezone: true }),
+    bouncedAt: timestamp('bounced_at', { withTimezone: true }),
+
+    // Error tracking
+    errorMessage: text('error_message'),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('email_logs_user_id_idx').on(table.userId),
+    statusIdx: index('email_logs_status_idx').on(table.status),
+    createdAtIdx: index('email_logs_created_at_idx').on(table.createdAt),
+    toEmailStatusIdx: index('email_logs_to_email_status_idx').on(table.toEmail, table.status),
+  })
+);
+
 // ============================================================================
 // PHOTOS TABLE - Progress photos stored in S3
 // ============================================================================
@@ -733,16 +1137,23 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   initialPlanSnapshot: one(initialPlanSnapshot),
   plans: many(plans),
   dailyTasks: many(dailyTasks),
+  customTasks: many(customTasks),
   evidence: many(evidence),
   streaks: many(streaks),
   dailyComplianceStreak: one(dailyComplianceStreaks),
+  complianceProcessedDays: many(complianceProcessedDays),
   userBadges: many(userBadges),
   smsLogs: many(smsLogs),
+  emailLogs: many(emailLogs),
   photos: many(photos),
   refreshTokens: many(refreshTokens),
+  passwordResetTokens: many(passwordResetTokens),
+  emailVerificationTokens: many(emailVerificationTokens),
   profileChangeAudit: many(profileChangeAudit),
+  targetOverrides: many(targetOverrides),
   profileMetrics: many(profileMetrics),
   metricsAcknowledgements: many(metricsAcknowledgements),
+  healthImports: many(healthImports),
 }));
 
 export const plansRelations = relations(plans, ({ one, many }) => ({
@@ -762,10 +1173,26 @@ export const dailyTasksRelations = relations(dailyTasks, ({ one, many }) => ({
     fields: [dailyTasks.planId],
     references: [plans.id],
   }),
+  customTask: one(customTasks, {
+    fields: [dailyTasks.customTaskId],
+    references: [customTasks.id],
+  }),
+  healthImport: one(healthImports, {
+    fields: [dailyTasks.healthImportId],
+    references: [healthImports.id],
+  }),
   evidence: many(evidence),
   taskEvidence: many(taskEvidence),
 }));
 
+export const customTasksRelations = relations(customTasks, ({ one, many }) => ({
+  user: one(users, {
+    fields: [customTasks.userId],
+    references: [users.id],
+  }),
+  dailyTasks: many(dailyTasks),
+}));
+
 export const evidenceRelations = relations(evidence, ({ one }) => ({
   task: one(dailyTasks, {
     fields: [evidence.taskId],
@@ -777,6 +1204,25 @@ export const evidenceRelations = relations(evidence, ({ one }) => ({
   }),
 }));
 
+export const personalRecordsRelations = relations(personalRecords, ({ one }) => ({
+  user: one(users, {
+    fields: [personalRecords.userId],
+    references: [users.id],
+  }),
+  evidence: one(evidence, {
+    fields: [personalRecords.evidenceId],
+    references: [evidence.id],
+  }),
+}));
+
+export const healthImportsRelations = relations(healthImports, ({ one, many }) => ({
+  user: one(users, {
+    fields: [healthImports.userId],
+    references: [users.id],
+  }),
+  dailyTasks: many(dailyTasks),
+}));
+
 export const streaksRelations = relations(streaks, ({ one }) => ({
   user: one(users, {
     fields: [streaks.userId],
@@ -791,6 +1237,13 @@ export const dailyComplianceStreaksRelations = relations(dailyComplianceStreaks,
   }),
 }));
 
+export const complianceProcessedDaysRelations = relations(complianceProcessedDays, ({ one }) => ({
+  user: one(users, {
+    fields: [complianceProcessedDays.userId],
+    references: [users.id],
+  }),
+}));
+
 export const userBadgesRelations = relations(userBadges, ({ one }) => ({
   user: one(users, {
     fields: [userBadges.userId],
@@ -805,6 +1258,13 @@ export const smsLogsRelations = relations(smsLogs, ({ one }) => ({
   }),
 }));
 
+export const emailLogsRelations = relations(emailLogs, ({ one }) => ({
+  user: one(users, {
+    fields: [emailLogs.userId],
+    references: [users.id],
+  }),
+}));
+
 export const photosRelations = relations(photos, ({ one, many }) => ({
   user: one(users, {
     fields: [photos.userId],
@@ -831,11 +1291,36 @@ export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
   }),
 }));
 
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const emailVerificationTokensRelations = relations(emailVerificationTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [emailVerificationTokens.userId],
+    references: [users.id],
+  }),
+}));
+
 export const profileChangeAuditRelations = relations(profileChangeAudit, ({ one }) => ({
   user: one(users, {
     fields: [profileChangeAudit.userId],
     references: [users.id],
   }),
+  evidence: one(evidence, {
+    fields: [profileChangeAudit.evidenceId],
+    references: [evidence.id],
+  }),
+}));
+
+export const targetOverridesRelations = relations(targetOverrides, ({ one }) => ({
+  user: one(users, {
+    fields: [targetOverrides.userId],
+    references: [users.id],
+  }),
 }));
 
 export const profileMetricsRelations = relations(profileMetrics, ({ one }) => ({
@@ -900,6 +1385,16 @@ export type SelectPlan = InferSelectModel<typeof plans>;
  */
 export type InsertPlan = InferInsertModel<typeof plans>;
 
+/**
+ * Inferred type for selecting a custom task
+ */
+export type SelectCustomTask = InferSelectModel<typeof customTasks>;
+
+/**
+ * Inferred type for inserting a custom task
+ */
+export type InsertCustomTask = InferInsertModel<typeof customTasks>;
+
 /**
  * Inferred type for selecting a daily task
  */
@@ -920,6 +1415,26 @@ export type SelectEvidence = InferSelectModel<typeof evidence>;
  */
 export type InsertEvidence = InferInsertModel<typeof evidence>;
 
+/**
+ * Inferred type for selecting a personal record
+ */
+export type SelectPersonalRecord = InferSelectModel<typeof personalRecords>;
+
+/**
+ * Inferred type for inserting a personal record
+ */
+export type InsertPersonalRecord = InferInsertModel<typeof personalRecords>;
+
+/**
+ * Inferred type for selecting a health import
+ */
+export type SelectHealthImport = InferSelectModel<typeof healthImports>;
+
+/**
+ * Inferred type for inserting a health import
+ */
+export type InsertHealthImport = InferInsertModel<typeof healthImports>;
+
 /**
  * Inferred type for selecting a streak
  */
@@ -950,6 +1465,16 @@ export type SelectSmsLog = InferSelectModel<typeof smsLogs>;
  */
 export type InsertSmsLog = InferInsertModel<typeof smsLogs>;
 
+/**
+ * Inferred type for selecting an email log
+ */
+export type SelectEmailLog = InferSelectModel<typeof emailLogs>;
+
+/**
+ * Inferred type for inserting an email log
+ */
+export type InsertEmailLog = InferInsertModel<typeof emailLogs>;
+
 /**
  * Inferred type for selecting a photo
  */
@@ -980,6 +1505,26 @@ export type SelectRefreshToken = InferSelectModel<typeof refreshTokens>;
  */
 export type InsertRefreshToken = InferInsertModel<typeof refreshTokens>;
 
+/**
+ * Inferred type for selecting a password reset token
+ */
+export type SelectPasswordResetToken = InferSelectModel<typeof passwordResetTokens>;
+
+/**
+ * Inferred type for inserting a password reset token
+ */
+export type InsertPasswordResetToken = InferInsertModel<typeof passwordResetTokens>;
+
+/**
+ * Inferred type for selecting an email verification token
+ */
+export type SelectEmailVerificationToken = InferSelectModel<typeof emailVerificationTokens>;
+
+/**
+ * Inferred type for inserting an email verification token
+ */
+export type InsertEmailVerificationToken = InferInsertModel<typeof emailVerificationTokens>;
+
 /**
  * Inferred type for selecting a daily compliance streak
  */
@@ -990,6 +1535,16 @@ export type SelectDailyComplianceStreak = InferSelectModel<typeof dailyComplianc
  */
 export type InsertDailyComplianceStreak = InferInsertModel<typeof dailyComplianceStreaks>;
 
+/**
+ * Inferred type for selecting a compliance processed day
+ */
+export type SelectComplianceProcessedDay = InferSelectModel<typeof complianceProcessedDays>;
+
+/**
+ * Inferred type for inserting a compliance processed day
+ */
+export type InsertComplianceProcessedDay = InferInsertModel<typeof complianceProcessedDays>;
+
 /**
  * Inferred type for selecting a user badge
  */
@@ -1010,6 +1565,16 @@ export type SelectProfileChangeAudit = InferSelectModel<typeof profileChangeAudi
  */
 export type InsertProfileChangeAudit = InferInsertModel<typeof profileChangeAudit>;
 
+/**
+ * Inferred type for selecting a target override
+ */
+export type SelectTargetOverride = InferSelectModel<typeof targetOverrides>;
+
+/**
+ * Inferred type for inserting a target override
+ */
+export type InsertTargetOverride = InferInsertModel<typeof targetOverrides>;
+
 /**
  * Inferred type for selecting profile metrics
  */
@@ -0,0 +1,83 @@
+import { db } from '../db/connection';
+import { customTasks, users } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { logger } from '../config/logger';
+import { CustomTasksService } from '../routes/custom-tasks/service';
+import { resolveTimezone } from '../utils/timezone';
+
+/**
+ * Result summary of a custom task expansion run
+ */
+export interface CustomTaskExpansionResult {
+  totalUsers: number;
+  occurrencesCreated: number;
+  errorCount: number;
+}
+
+/**
+ * Custom task expansion job
+ * Keeps each user's custom tasks expanded CUSTOM_TASK_HORIZON_DAYS ahead in daily_tasks
+ *
+ * @remarks
+ * - Only users with at least one active custom task are processed
+ * - Expansion uses each user's local calendar, so one UTC run per day is enough
+ *   while the horizon is longer than a day
+ * - Idempotent: custom_tasks.expanded_through prevents duplicate occurrences on reruns
+ * - Individual user failures don't stop the job
+ *
+ * Usage:
+ * - Manual: `await customTaskExpansionJob.run()`
+ * - Scheduled: Configured in jobs/scheduler.ts
+ */
+export class CustomTaskExpansionJob {
+  private customTasksService = new CustomTasksService();
+
+  /**
+   * Run the custom task expansion job
+   *
+   * @param now - Reference time for the run (defaults to now)
+   * @returns Result summary with counts
+   */
+  async run(now: Date = new Date()): Promise<CustomTaskExpansionResult> {
+    const startTime = Date.now();
+
+    logger.info('Starting custom task expansion job');
+
+    const usersWithCustomTasks = await db
+      .selectDistinct({ userId: users.id, timezone: users.timezone })
+      .from(customTasks)
+      .innerJoin(users, eq(users.id, customTasks.userId))
+      .where(and(eq(customTasks.isActive, true), eq(users.isActive, true)));
+
+    const result: CustomTaskExpansionResult = {
+      totalUsers: usersWithCustomTasks.length,
+      occurrencesCreated: 0,
+      errorCount: 0,
+    };
+
+    for (const { userId, timezone } of usersWithCustomTasks) {
+      try {
+        result.occurrencesCreated += await this.customTasksService.extendUserCustomTasks(
+          userId,
+          resolveTimezone(timezone),
+          now
+        );
+      } catch (error) {
+        result.errorCount++;
+        logger.error({ userId, err: error }, 'Failed to expand custom tasks for user');
+      }
+    }
+
+    logger.info(
+      { ...result, durationMs: Date.now() - startTime },
+      'Custom task expansion job completed'
+    );
+
+    return result;
+  }
+}
+
+/**
+ * Singleton instance for job scheduler
+ */
+export const customTaskExpansionJob = new CustomTaskExpansionJob();
@@ -0,0 +1,44 @@
+import { getPendingComplianceDays, MAX_CATCH_UP_DAYS } from './daily-compliance-check';
+
+describe('DailyComplianceJob', () => {
+  describe('getPendingComplianceDays', () => {
+    it('should only process the latest completed day for users with no history', () => {
+      expect(getPendingComplianceDays(null, '2025-01-06')).toEqual(['2025-01-06']);
+    });
+
+    it('should return nothing when the latest day was already processed', () => {
+      expect(getPendingComplianceDays('2025-01-06', '2025-01-06')).toEqual([]);
+    });
+
+    it('should return nothing when the processed day is ahead (e.g. after a timezone change)', () => {
+      expect(getPendingComplianceDays('2025-01-07', '2025-01-06')).toEqual([]);
+    });
+
+    it('should return the next day in normal operation', () => {
+      expect(getPendingComplianceDays('2025-01-05', '2025-01-06')).toEqual(['2025-01-06']);
+    });
+
+    it('should catch up missed days in order after downtime', () => {
+      expect(getPendingComplianceDays('2025-01-02', '2025-01-05')).toEqual([
+        '2025-01-03',
+        '2025-01-04',
+        '2025-01-05',
+      ]);
+    });
+
+    it('should cap catch-up to the most recent days', () => {
+      const days = getPendingComplianceDays('2024-12-01', '2025-01-06');
+
+      expect(days).toHaveLength(MAX_CATCH_UP_DAYS);
+      expect(days[0]).toBe('2024-12-31');
+      expect(days[days.length - 1]).toBe('2025-01-06');
+    });
+
+    it('should respect a custom catch-up limit', () => {
+      expect(getPendingComplianceDays('2025-01-01', '2025-01-06', 2)).toEqual([
+        '2025-01-05',
+        '2025-01-06',
+      ]);
+    });
+  });
+});
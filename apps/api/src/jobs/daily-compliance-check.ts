@@ -1,17 +1,72 @@
 import cron from 'node-cron';
 import { db } from '../db/connection';
-import { users } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { users, complianceProcessedDays } from '../db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
 import { StreaksService } from '../services/streaks';
 import { logger } from '../config/logger';
+import { addLocalDays, getLocalDateString, resolveTimezone } from '../utils/timezone';
+
+/**
+ * Sweep every 15 minutes (UTC) so each user is processed shortly after their local midnight
+ */
+const SWEEP_CRON_EXPRESSION = '*/15 * * * *';
+
+/**
+ * Maximum number of missed local days evaluated per user after downtime
+ */
+export const MAX_CATCH_UP_DAYS = 7;
+
+/**
+ * Outcome of processing a single local day for a user
+ */
+type DayOutcome = 'compliant' | 'non_compliant' | 'already_processed';
+
+/**
+ * Determine which local days still need a compliance check
+ *
+ * @param lastProcessedDate - Most recent processed local day (YYYY-MM-DD), or null if none
+ * @param latestCompletedDate - Most recent local day that has fully ended (the user's yesterday)
+ * @param maxDays - Cap on how many days to catch up
+ * @returns Local days to process, oldest first
+ *
+ * @remarks
+ * - Users with no history only get their latest completed day (no backfill from signup)
+ * - After downtime, missed days are returned in order so streak gaps are applied correctly
+ * - Days older than the catch-up window are skipped
+ */
+export function getPendingComplianceDays(
+  lastProcessedDate: string | null,
+  latestCompletedDate: string,
+  maxDays: number = MAX_CATCH_UP_DAYS
+): string[] {
+  if (!lastProcessedDate) {
+    return [latestCompletedDate];
+  }
+
+  const gap = differenceInCalendarDays(parseISO(latestCompletedDate), parseISO(lastProcessedDate));
+  if (gap <= 0) {
+    return [];
+  }
+
+  const count = Math.min(gap, maxDays);
+  return Array.from({ length: count }, (_, i) => addLocalDays(latestCompletedDate, i - count + 1));
+}
 
 /**
  * Daily compliance check job
- * Runs at 11:59 PM to calculate compliance for the day and update streaks
+ * Evaluates each user's local previous day once it has ended in their timezone
+ *
+ * @remarks
+ * - Runs as a sweep every 15 minutes (like sms-scheduler) instead of a single server-time run
+ * - Each (user, local day) is claimed in compliance_processed_days before evaluation,
+ *   so reruns and overlapping instances never process a day twice
+ * - Missed days after downtime are caught up (up to MAX_CATCH_UP_DAYS)
  */
 export class DailyComplianceJob {
   private streaksService: StreaksService;
   private task: cron.ScheduledTask | null = null;
+  private isSweeping = false;
 
   constructor() {
     this.streaksService = new StreaksService();
@@ -19,25 +74,32 @@ export class DailyComplianceJob {
 
   /**
    * Run daily compliance check for all active users
-   * Processes each user's compliance for the previous day
+   * Processes every local day that has ended for a user but has not been processed yet
    *
-   * This job runs at 11:59 PM, so it checks yesterday's compliance
-   * to ensure all tasks for the day have been completed
+   * @param now - Reference time for the sweep (defaults to now)
    */
-  async run(): Promise<void> {
+  async run(now: Date = new Date()): Promise<void> {
+    if (this.isSweeping) {
+      logger.warn('Daily compliance sweep already in progress, skipping');
+      return;
+    }
+
+    this.isSweeping = true;
     const jobStartTime = new Date();
     logger.info({ jobStartTime }, 'Starting daily compliance check job');
 
     try {
-      // Get all active users
+      // Get all active users with their most recently processed local day
       const activeUsers = await db
         .select({
           id: users.id,
-          email: users.email,
           timezone: users.timezone,
+          lastProcessedDate: sql<string | null>`max(${complianceProcessedDays.localDate})::text`,
         })
         .from(users)
-        .where(eq(users.isActive, true));
+        .leftJoin(complianceProcessedDays, eq(complianceProcessedDays.userId, users.id))
+        .where(eq(users.isActive, true))
+        .groupBy(users.id);
 
       logger.info(
         { userCount: activeUsers.length },
@@ -47,49 +109,43 @@ export class DailyComplianceJob {
       let processed = 0;
       let compliant = 0;
       let nonCompliant = 0;
+      let caughtUp = 0;
       let errors = 0;
 
       // Process each user sequentially to avoid database contention
       for (const user of activeUsers) {
-        try {
-          logger.debug(
-            { userId: user.id, email: user.email },
-            'Processing user compliance'
-          );
+        const timezone = resolveTimezone(user.timezone);
+        const yesterday = addLocalDays(getLocalDateString(timezone, now), -1);
+        const pendingDays = getPendingComplianceDays(user.lastProcessedDate, yesterday);
 
-          // Calculate compliance for today (job runs at end of day)
-          const today = new Date();
-          const isCompliant = await this.streaksService.calculateDailyCompliance(
-            user.id,
-            today
+        if (pendingDays.length > 1) {
+          caughtUp += pendingDays.length - 1;
+          logger.info(
+            { userId: user.id, timezone, days: pendingDays },
+            'Catching up missed compliance days'
           );
+        }
 
-          if (isCompliant) {
-            // Increment streak and check for badges
-            await this.streaksService.incrementStreak(user.id);
-            await this.streaksService.checkAndAwardBadges(user.id);
+        for (const localDate of pendingDays) {
+          try {
+            const outcome = await this.processDay(user.id, localDate, timezone);
 
-            compliant++;
-            logger.debug(
-              { userId: user.id, email: user.email },
-              'User is compliant - streak incremented'
-            );
-          } else {
-            nonCompliant++;
-            logger.debug(
-              { userId: user.id, email: user.email },
-              'User is not compliant - streak will be reset on next completion'
+            if (outcome === 'compliant') {
+              compliant++;
+              processed++;
+            } else if (outcome === 'non_compliant') {
+              nonCompliant++;
+              processed++;
+            }
+          } catch (error) {
+            errors++;
+            logger.error(
+              { userId: user.id, localDate, timezone, err: error },
+              'Error processing user compliance'
             );
+            // Stop this user's catch-up so days stay in order; retried on next sweep
+            break;
           }
-
-          processed++;
-        } catch (error) {
-          errors++;
-          logger.error(
-            { userId: user.id, email: user.email, err: error },
-            'Error processing user compliance'
-          );
-          // Continue processing other users even if one fails
         }
       }
 
@@ -101,6 +157,7 @@ export class DailyComplianceJob {
           processed,
           compliant,
           nonCompliant,
+          caughtUp,
           errors,
           durationMs,
           startTime: jobStartTime,
@@ -111,29 +168,85 @@ export class DailyComplianceJob {
     } catch (error) {
       logger.error({ err: error }, 'Daily compliance check job failed');
       throw error;
+    } finally {
+      this.isSweeping = false;
     }
   }
 
   /**
-   * Schedule the job to run daily at 11:59 PM
-   * Uses cron expression: '59 23 * * *'
-   * - Runs at minute 59 of hour 23 (11:59 PM)
-   * - Every day of the month
-   * - Every month
-   * - Every day of the week
+   * Evaluate compliance for one local day of one user
+   * Claims the day first so concurrent sweeps cannot process it twice
    *
-   * @param timezone - Timezone for the cron job (default: America/Los_Angeles)
+   * @param userId - User ID
+   * @param localDate - Local day (YYYY-MM-DD) to evaluate
+   * @param timezone - User's IANA timezone
+   * @returns Outcome of the evaluation
+   */
+  private async processDay(
+    userId: number,
+    localDate: string,
+    timezone: string
+  ): Promise<DayOutcome> {
+    const [claim] = await db
+      .insert(complianceProcessedDays)
+      .values({ userId, localDate, timezone })
+      .onConflictDoNothing()
+      .returning({ id: complianceProcessedDays.id });
+
+    if (!claim) {
+      logger.debug({ userId, localDate }, 'Compliance day already processed');
+      return 'already_processed';
+    }
+
+    try {
+      const isCompliant = await this.streaksService.calculateDailyCompliance(
+        userId,
+        localDate,
+        timezone
+      );
+
+      if (isCompliant) {
+        // Increment streak for that local day and check for badges
+        await this.streaksService.incrementStreak(userId, localDate);
+        await this.streaksService.checkAndAwardBadges(userId);
+
+        logger.debug({ userId, localDate }, 'User is compliant - streak incremented');
+      } else {
+        logger.debug(
+          { userId, localDate },
+          'User is not compliant - streak will be reset on next completion'
+        );
+      }
+
+      await db
+        .update(complianceProcessedDays)
+        .set({ isCompliant, processedAt: new Date() })
+        .where(eq(complianceProcessedDays.id, claim.id));
+
+      return isCompliant ? 'compliant' : 'non_compliant';
+    } catch (error) {
+      // Release the claim so the day is retried on the next sweep
+      await db.delete(complianceProcessedDays).where(eq(complianceProcessedDays.id, claim.id));
+      throw error;
+    }
+  }
+
+  /**
+   * Schedule the compliance sweep
+   * Uses SWEEP_CRON_EXPRESSION evaluated in UTC
+   * - Runs every 15 minutes
+   * - Each run only processes users whose local day has ended and is not yet recorded
    */
-  schedule(timezone: string = 'America/Los_Angeles'): void {
+  schedule(): void {
     // Validate the cron expression first
-    if (!cron.validate('59 23 * * *')) {
+    if (!cron.validate(SWEEP_CRON_EXPRESSION)) {
       throw new Error('Invalid cron expression for daily compliance check');
     }
 
     this.task = cron.schedule(
-      '59 23 * * *',
+      SWEEP_CRON_EXPRESSION,
       async () => {
-        logger.info('Triggering scheduled daily compliance check');
+        logger.debug('Triggering scheduled daily compliance sweep');
         try {
           await this.run();
         } catch (error) {
@@ -145,13 +258,13 @@ export class DailyComplianceJob {
       },
       {
         scheduled: true,
-        timezone,
+        timezone: 'UTC', // Run cron in UTC, we handle timezone conversion per user
       }
     );
 
     logger.info(
-      { cronExpression: '59 23 * * *', timezone },
-      'Daily compliance check job scheduled (runs at 11:59 PM daily)'
+      { cronExpression: SWEEP_CRON_EXPRESSION },
+      'Daily compliance check job scheduled (sweeps every 15 minutes)'
     );
   }
 
@@ -184,7 +297,7 @@ export class DailyComplianceJob {
   } {
     return {
       isScheduled: this.task !== null,
-      cronExpression: '59 23 * * *',
+      cronExpression: SWEEP_CRON_EXPRESSION,
     };
   }
 }
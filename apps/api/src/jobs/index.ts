@@ -10,3 +10,5 @@
 export { jobScheduler, JobScheduler } from './scheduler';
 export { DailyComplianceJob } from './daily-compliance-check';
 export { weeklyRecomputeJob, WeeklyRecomputeJob } from './weekly-recompute';
+export { customTaskExpansionJob, CustomTaskExpansionJob } from './custom-task-expansion';
+export { planLifecycleJob, PlanLifecycleJob } from './plan-lifecycle';
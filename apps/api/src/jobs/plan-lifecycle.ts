@@ -0,0 +1,48 @@
+import { logger } from '../config/logger';
+import { PlansService } from '../routes/plans/service';
+
+/**
+ * Plan lifecycle job
+ * Completes active plans whose week has ended, recording the final
+ * completionPercentage and completedAt, then activates goal transition phases
+ * scheduled for the new week
+ *
+ * @remarks
+ * - Plans are also closed out when a new plan is generated or a draft is accepted;
+ *   this job covers users who don't open the app at the start of a new week
+ * - Idempotent: only plans still marked active are touched
+ *
+ * Usage:
+ * - Manual: `await planLifecycleJob.run()`
+ * - Scheduled: Configured in jobs/scheduler.ts
+ */
+export class PlanLifecycleJob {
+  private plansService = new PlansService();
+
+  /**
+   * Run the plan lifecycle job
+   *
+   * @param now - Reference time for the run (defaults to now)
+   * @returns Number of plans completed and transition phases activated
+   */
+  async run(now: Date = new Date()): Promise<{ completedPlans: number; activatedPhases: number }> {
+    const startTime = Date.now();
+
+    logger.info('Starting plan lifecycle job');
+
+    const completedPlans = await this.plansService.completeExpiredPlans(now);
+    const activatedPhases = await this.plansService.activateDuePhases(now);
+
+    logger.info(
+      { completedPlans, activatedPhases, durationMs: Date.now() - startTime },
+      'Plan lifecycle job completed'
+    );
+
+    return { completedPlans, activatedPhases };
+  }
+}
+
+/**
+ * Singleton instance for job scheduler
+ */
+export const planLifecycleJob = new PlanLifecycleJob();
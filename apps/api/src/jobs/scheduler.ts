@@ -1,5 +1,7 @@
 import { DailyComplianceJob } from './daily-compliance-check';
 import { WeeklyRecomputeJob } from './weekly-recompute';
+import { CustomTaskExpansionJob } from './custom-task-expansion';
+import { PlanLifecycleJob } from './plan-lifecycle';
 import { logger } from '../config/logger';
 import cron from 'node-cron';
 
@@ -34,7 +36,7 @@ export class JobScheduler {
     logger.info('Starting job scheduler');
 
     try {
-      // Daily compliance check - runs at 11:59 PM every day
+      // Daily compliance check - sweeps every 15 minutes, processing each user after local midnight
       const dailyComplianceJob = new DailyComplianceJob();
       dailyComplianceJob.schedule();
       this.jobs.set('daily-compliance', dailyComplianceJob);
@@ -50,6 +52,29 @@ export class JobScheduler {
       this.jobs.set('weekly-recompute', weeklyRecomputeJob);
       this.scheduledTasks.set('weekly-recompute', weeklyTask);
 
+      // Custom task expansion - runs daily at 1:00 AM to keep recurring tasks expanded ahead
+      const customTaskExpansionJob = new CustomTaskExpansionJob();
+      const expansionTask = cron.schedule('0 1 * * *', () => {
+        logger.info('Running scheduled custom task expansion job');
+        void customTaskExpansionJob.run().catch((error: unknown) => {
+          logger.error({ err: error }, 'Custom task expansion job failed');
+        });
+      });
+      this.jobs.set('custom-task-expansion', customTaskExpansionJob);
+      this.scheduledTasks.set('custom-task-expansion', expansionTask);
+
+      // Plan lifecycle - runs hourly to complete plans whose week has ended and start the
+      // next goal transition phase
+      const planLifecycleJob = new PlanLifecycleJob();
+      const planLifecycleTask = cron.schedule('5 * * * *', () => {
+        logger.info('Running scheduled plan lifecycle job');
+        void planLifecycleJob.run().catch((error: unknown) => {
+          logger.error({ err: error }, 'Plan lifecycle job failed');
+        });
+      });
+      this.jobs.set('plan-lifecycle', planLifecycleJob);
+      this.scheduledTasks.set('plan-lifecycle', planLifecycleTask);
+
       this.isRunning = true;
 
       logger.info(
@@ -69,6 +69,8 @@ export class WeeklyRecomputeJob {
               previousProtein: recomputeResult.previousProtein!,
               newProtein: recomputeResult.newProtein!,
               reason: recomputeResult.reason!,
+              tdeeSource: recomputeResult.tdeeSource,
+              warnings: recomputeResult.warnings,
             });
 
             logger.info(
@@ -0,0 +1,25 @@
+import { Counter, Histogram } from 'prom-client';
+import { register } from '../config/metrics';
+
+/**
+ * Email counter
+ * Tracks emails processed by template and final status of each attempt
+ */
+export const emailCounter = new Counter({
+  name: 'email_sent_total',
+  help: 'Total emails processed',
+  labelNames: ['template', 'status'],
+  registers: [register],
+});
+
+/**
+ * Email processing duration
+ * Tracks time taken to process email jobs
+ */
+export const emailDuration = new Histogram({
+  name: 'email_processing_duration_seconds',
+  help: 'Email job processing duration in seconds',
+  labelNames: ['template'],
+  buckets: [0.1, 0.5, 1, 2, 5, 10],
+  registers: [register],
+});
@@ -2,6 +2,7 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
 import { logger } from '../../config/logger';
 import { AppError } from '../../middleware/error';
+import { strictLimiter } from '../../middleware/rateLimiter';
 import { forgotPasswordSchema } from './schemas';
 import { AuthService } from './service';
 import { ZodError } from 'zod';
@@ -15,10 +16,11 @@ const tracer = trace.getTracer('auth-routes');
  * Initiate password reset flow
  *
  * Security: Always returns success message to prevent email enumeration
- * Rate limit: Should use strictLimiter (5 requests/15min)
+ * Rate limit: strictLimiter (20 requests/minute)
  */
 router.post(
   '/forgot-password',
+  strictLimiter,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const span = tracer.startSpan('POST /auth/forgot-password');
 
@@ -36,10 +38,13 @@ router.post(
 
       span.addEvent('validation_completed');
 
-      // Process password reset request
-      await authService.forgotPassword(validatedInput.email);
+      // Issue and send in the background: awaiting it would make the response slower
+      // for registered emails than for unknown ones, revealing which accounts exist
+      void authService.forgotPassword(validatedInput.email).catch((error: unknown) => {
+        logger.error({ err: error }, 'Failed to process password reset request');
+      });
 
-      span.addEvent('password_reset_processed');
+      span.addEvent('password_reset_queued');
       span.setStatus({ code: SpanStatusCode.OK });
 
       logger.info('Password reset request processed');
@@ -5,6 +5,9 @@ import { AppError } from '../../middleware/error';
 import { requireAuth } from '../../middleware/auth';
 import { signupSchema, loginSchema, refreshSchema, logoutSchema } from './schemas';
 import { AuthService } from './service';
+import forgotPasswordRouter from './forgot-password';
+import resetPasswordRouter from './reset-password';
+import verifyEmailRouter from './verify-email';
 import { ZodError } from 'zod';
 
 const router = Router();
@@ -341,4 +344,11 @@ router.get(
   }
 );
 
+// Password reset flow
+router.use(forgotPasswordRouter);
+router.use(resetPasswordRouter);
+
+// Email verification
+router.use(verifyEmailRouter);
+
 export default router;
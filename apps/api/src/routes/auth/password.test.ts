@@ -4,11 +4,23 @@ import { setupTestDatabase } from '../../test/setup';
 import { db } from '../../db/connection';
 import { users, passwordResetTokens, refreshTokens, userSettings } from '../../db/schema';
 import { eq, and } from 'drizzle-orm';
-import { hashPassword } from '../../utils/auth';
+import { hashPassword, hashOneTimeToken } from '../../utils/auth';
+import { AuthService } from './service';
+import * as emailService from '../../utils/email';
 import { randomBytes } from 'crypto';
 
 const app = createApp();
 
+/**
+ * The forgot-password route responds before the reset is issued, so wait for
+ * every reset it started before checking tokens or emails
+ */
+const forgotPasswordSpy = jest.spyOn(AuthService.prototype, 'forgotPassword');
+
+async function settlePasswordResets(): Promise<void> {
+  await Promise.all(forgotPasswordSpy.mock.results.map((result) => result.value));
+}
+
 describe('Password Management Routes', () => {
   beforeAll(async () => {
     await setupTestDatabase();
@@ -20,6 +32,7 @@ describe('Password Management Routes', () => {
     await db.delete(refreshTokens);
     await db.delete(userSettings);
     await db.delete(users);
+    forgotPasswordSpy.mockClear();
   });
 
   describe('POST /auth/forgot-password', () => {
@@ -47,6 +60,7 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: testEmail })
         .expect(200);
+      await settlePasswordResets();
 
       expect(response.body.success).toBe(true);
       expect(response.body.message).toContain('If an account exists');
@@ -57,6 +71,7 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: testEmail })
         .expect(200);
+      await settlePasswordResets();
 
       // Check token was created
       const tokens = await db
@@ -75,6 +90,7 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: testEmail })
         .expect(200);
+      await settlePasswordResets();
 
       const [token] = await db
         .select()
@@ -86,6 +102,27 @@ describe('Password Management Routes', () => {
       expect(/^[0-9a-f]{64}$/.test(token.token)).toBe(true);
     });
 
+    it('should store only a hash of the emailed token', async () => {
+      const sendSpy = jest.spyOn(emailService, 'sendPasswordResetEmail');
+
+      await request(app)
+        .post('/auth/forgot-password')
+        .send({ email: testEmail })
+        .expect(200);
+      await settlePasswordResets();
+
+      const emailedToken = sendSpy.mock.calls[0][0].resetToken;
+      const [token] = await db
+        .select()
+        .from(passwordResetTokens)
+        .where(eq(passwordResetTokens.userId, testUserId));
+
+      expect(token.token).not.toBe(emailedToken);
+      expect(token.token).toBe(hashOneTimeToken(emailedToken));
+
+      sendSpy.mockRestore();
+    });
+
     it('should set token expiration to 1 hour', async () => {
       const beforeRequest = Date.now();
 
@@ -93,6 +130,7 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: testEmail })
         .expect(200);
+      await settlePasswordResets();
 
       const [token] = await db
         .select()
@@ -115,6 +153,7 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: nonExistentEmail })
         .expect(200);
+      await settlePasswordResets();
 
       expect(response.body.success).toBe(true);
       expect(response.body.message).toContain('If an account exists');
@@ -151,12 +190,14 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: testEmail })
         .expect(200);
+      await settlePasswordResets();
 
       // Send second request
       await request(app)
         .post('/auth/forgot-password')
         .send({ email: testEmail })
         .expect(200);
+      await settlePasswordResets();
 
       // Both tokens should exist
       const tokens = await db
@@ -178,6 +219,7 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: testEmail })
         .expect(200); // Still returns 200 for security
+      await settlePasswordResets();
 
       // No token should be created (though we can't verify the email wasn't sent)
       const tokens = await db
@@ -206,6 +248,7 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: oauthEmail })
         .expect(200); // Still returns 200 for security
+      await settlePasswordResets();
 
       // Verify no token was created
       const tokens = await db
@@ -243,7 +286,7 @@ describe('Password Management Routes', () => {
 
       await db.insert(passwordResetTokens).values({
         userId: testUserId,
-        token: validToken,
+        token: hashOneTimeToken(validToken),
         expiresAt,
         used: false,
       });
@@ -312,7 +355,7 @@ describe('Password Management Routes', () => {
       const [token] = await db
         .select()
         .from(passwordResetTokens)
-        .where(eq(passwordResetTokens.token, validToken));
+        .where(eq(passwordResetTokens.token, hashOneTimeToken(validToken)));
 
       expect(token.used).toBe(true);
     });
@@ -369,7 +412,7 @@ describe('Password Management Routes', () => {
 
       await db.insert(passwordResetTokens).values({
         userId: testUserId,
-        token: expiredToken,
+        token: hashOneTimeToken(expiredToken),
         expiresAt: expiredAt,
         used: false,
       });
@@ -527,7 +570,7 @@ describe('Password Management Routes', () => {
 
       await db.insert(passwordResetTokens).values({
         userId: testUserId,
-        token: edgeToken,
+        token: hashOneTimeToken(edgeToken),
         expiresAt: now,
         used: false,
       });
@@ -898,6 +941,7 @@ describe('Password Management Routes', () => {
         .post('/auth/forgot-password')
         .send({ email: testEmail })
         .expect(200);
+      await settlePasswordResets();
 
       // Get the token
       const [tokenRecord] = await db
@@ -984,6 +1028,7 @@ describe('Password Management Routes', () => {
           newPassword: 'NewPassword456!',
         })
         .expect(200);
+      await settlePasswordResets();
 
       // Try to use old refresh token
       const refreshResponse = await request(app)
@@ -83,6 +83,14 @@ export type UpdateHealthMetricsInput = z.infer<typeof updateHealthMetricsSchema>
  *     "calorieTarget": 1700,
  *     "proteinTarget": 135,
  *     "waterTarget": 2625
+ *   },
+ *   "tdee": {
+ *     "source": "formula",
+ *     "adaptive": {
+ *       "tdee": null,
+ *       "confidence": "none",
+ *       "dataSufficiency": { "sufficient": false, "weighInDays": 3, ... }
+ *     }
  *   }
  * }
  */
@@ -180,6 +188,19 @@ router.put(
         planUpdated: recomputeResult.updated,
       };
 
+      // Show which TDEE the targets rest on and how close adaptive TDEE is to kicking in
+      if (recomputeResult.tdeeSource) {
+        response.tdee = {
+          source: recomputeResult.tdeeSource,
+          adaptive: recomputeResult.adaptiveTdee,
+        };
+      }
+
+      // Safety guardrails that capped or flagged the targets
+      if (recomputeResult.warnings) {
+        response.warnings = recomputeResult.warnings;
+      }
+
       // Include new targets if plan was updated
       if (recomputeResult.updated && recomputeResult.success) {
         response.targets = {
@@ -2,6 +2,7 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
 import { logger } from '../../config/logger';
 import { AppError } from '../../middleware/error';
+import { strictLimiter } from '../../middleware/rateLimiter';
 import { resetPasswordSchema } from './schemas';
 import { AuthService } from './service';
 import { ZodError } from 'zod';
@@ -15,10 +16,11 @@ const tracer = trace.getTracer('auth-routes');
  * Reset password using token from email
  *
  * Security: Token is single-use and expires after 1 hour
- * Rate limit: Should use strictLimiter
+ * Rate limit: strictLimiter (20 requests/minute)
  */
 router.post(
   '/reset-password',
+  strictLimiter,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const span = tracer.startSpan('POST /auth/reset-password');
 
@@ -1,20 +1,25 @@
 import { z } from 'zod';
 
+/**
+ * Password strength rules shared by signup and password reset
+ */
+const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/[0-9]/, 'Password must contain at least one number')
+  .regex(
+    /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/,
+    'Password must contain at least one special character'
+  );
+
 /**
  * Signup request body schema
  */
 export const signupSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number')
-    .regex(
-      /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/,
-      'Password must contain at least one special character'
-    ),
+  password: passwordSchema,
   name: z.string().min(1, 'Name is required').max(255, 'Name is too long'),
   phone: z.string().optional(),
 });
@@ -48,3 +53,34 @@ export const logoutSchema = z.object({
 });
 
 export type LogoutInput = z.infer<typeof logoutSchema>;
+
+/**
+ * Forgot password request body schema
+ */
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+
+/**
+ * Reset password request body schema
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required').max(255, 'Reset token is too long'),
+  newPassword: passwordSchema,
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+
+/**
+ * Verify email request body schema
+ */
+export const verifyEmailSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Verification token is required')
+    .max(255, 'Verification token is too long'),
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
@@ -1,17 +1,38 @@
-import { eq, and, gt, lt, isNull } from 'drizzle-orm';
+import { eq, and, gt, lt, isNull, desc } from 'drizzle-orm';
 import { db } from '../../db/connection';
-import { users, refreshTokens, userSettings, SelectUser } from '../../db/schema';
+import {
+  users,
+  refreshTokens,
+  passwordResetTokens,
+  emailVerificationTokens,
+  userSettings,
+  SelectUser,
+} from '../../db/schema';
 import {
   hashPassword,
   comparePassword,
   generateAccessToken,
   generateRefreshToken,
   getRefreshTokenExpiry,
+  generateOneTimeToken,
+  hashOneTimeToken,
+  getPasswordResetTokenExpiry,
+  getEmailVerificationTokenExpiry,
   validatePasswordStrength,
 } from '../../utils/auth';
+import {
+  sendPasswordResetEmail,
+  sendPasswordChangedEmail,
+  sendVerificationEmail,
+} from '../../utils/email';
 import { AppError } from '../../middleware/error';
 import { logger } from '../../config/logger';
 
+/**
+ * Minimum time between verification emails for one user
+ */
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
 export interface SignupInput {
   email: string;
   password: string;
@@ -74,6 +95,8 @@ export class AuthService {
 
     logger.info({ userId: newUser.id, email: newUser.email }, 'User created successfully');
 
+    await this.issueEmailVerification(newUser);
+
     // Check for userSettings to determine onboarding status
     const [settings] = await db
       .select()
@@ -295,6 +318,256 @@ export class AuthService {
     logger.info({ userId }, 'All refresh tokens revoked for user');
   }
 
+  /**
+   * Start the password reset flow for an email address
+   *
+   * Issues a single-use reset token and emails the reset link. Only the SHA-256
+   * hash of the token is stored. Returns silently when the email is unknown, the
+   * account is deactivated or has no password, so callers cannot tell which
+   * accounts exist. The route does not await this, so response timing does not
+   * reveal it either.
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+
+    if (!user || !user.passwordHash || !user.isActive) {
+      logger.debug('Password reset skipped: no eligible account for email');
+      return;
+    }
+
+    const resetToken = generateOneTimeToken();
+    const expiresAt = getPasswordResetTokenExpiry();
+
+    await db.insert(passwordResetTokens).values({
+      userId: user.id,
+      token: hashOneTimeToken(resetToken),
+      expiresAt,
+      used: false,
+    });
+
+    logger.info({ userId: user.id, expiresAt }, 'Password reset token issued');
+
+    // Email failures must not change the response, or they would reveal the account exists
+    try {
+      await sendPasswordResetEmail({
+        email: user.email,
+        resetToken,
+        userName: user.name,
+        userId: user.id,
+      });
+    } catch (error) {
+      logger.error({ err: error, userId: user.id }, 'Failed to send password reset email');
+    }
+  }
+
+  /**
+   * Reset a password using a token from the reset email
+   *
+   * The token is claimed atomically so it can only be used once, even under
+   * concurrent requests. All of the user's refresh tokens are revoked afterwards.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const passwordValidation = validatePasswordStrength(newPassword);
+    if (!passwordValidation.isValid) {
+      throw new AppError(400, passwordValidation.message || 'Invalid password');
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+    const tokenHash = hashOneTimeToken(token);
+
+    const user = await db.transaction(async (tx) => {
+      // Claim the token: only an unused, unexpired token matches
+      const [claimed] = await tx
+        .update(passwordResetTokens)
+        .set({ used: true })
+        .where(
+          and(
+            eq(passwordResetTokens.token, tokenHash),
+            eq(passwordResetTokens.used, false),
+            gt(passwordResetTokens.expiresAt, new Date())
+          )
+        )
+        .returning();
+
+      if (!claimed) {
+        throw new AppError(400, 'Invalid or expired reset token');
+      }
+
+      const [owner] = await tx.select().from(users).where(eq(users.id, claimed.userId));
+
+      if (!owner) {
+        throw new AppError(400, 'Invalid or expired reset token');
+      }
+
+      // Throwing rolls back the claim, so the token stays usable if the account is reactivated
+      if (!owner.isActive) {
+        throw new AppError(403, 'Account is deactivated');
+      }
+
+      await tx
+        .update(users)
+        .set({ passwordHash, updatedAt: new Date() })
+        .where(eq(users.id, owner.id));
+
+      // Any other outstanding reset links for this user are now stale
+      await tx
+        .update(passwordResetTokens)
+        .set({ used: true })
+        .where(and(eq(passwordResetTokens.userId, owner.id), eq(passwordResetTokens.used, false)));
+
+      return owner;
+    });
+
+    await this.revokeAllTokens(user.id);
+
+    logger.info({ userId: user.id }, 'Password reset completed');
+
+    try {
+      await sendPasswordChangedEmail(user.email, user.name, user.id);
+    } catch (error) {
+      logger.error({ err: error, userId: user.id }, 'Failed to send password changed email');
+    }
+  }
+
+  /**
+   * Verify a user's email address using a token from the verification email
+   *
+   * Tokens are single-use and only valid for the address they were sent to, so a
+   * link sent before an email change cannot verify the new address.
+   */
+  async verifyEmail(token: string): Promise<{ userId: number; email: string }> {
+    const tokenHash = hashOneTimeToken(token);
+
+    const user = await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(emailVerificationTokens)
+        .set({ used: true })
+        .where(
+          and(
+            eq(emailVerificationTokens.token, tokenHash),
+            eq(emailVerificationTokens.used, false),
+            gt(emailVerificationTokens.expiresAt, new Date())
+          )
+        )
+        .returning();
+
+      if (!claimed) {
+        throw new AppError(400, 'Invalid or expired verification token');
+      }
+
+      const [owner] = await tx.select().from(users).where(eq(users.id, claimed.userId));
+
+      if (!owner || owner.email !== claimed.email) {
+        throw new AppError(400, 'Invalid or expired verification token');
+      }
+
+      if (!owner.emailVerified) {
+        await tx
+          .update(users)
+          .set({ emailVerified: true, emailVerifiedAt: new Date(), updatedAt: new Date() })
+          .where(eq(users.id, owner.id));
+      }
+
+      // Other outstanding links for this user are no longer needed
+      await tx
+        .update(emailVerificationTokens)
+        .set({ used: true })
+        .where(
+          and(eq(emailVerificationTokens.userId, owner.id), eq(emailVerificationTokens.used, false))
+        );
+
+      return owner;
+    });
+
+    logger.info({ userId: user.id }, 'Email verified successfully');
+
+    return { userId: user.id, email: user.email };
+  }
+
+  /**
+   * Send a fresh verification email to an unverified user
+   *
+   * @throws {AppError} 409 if already verified, 429 if a verification email was sent within the cooldown
+   */
+  async resendVerificationEmail(userId: number): Promise<void> {
+    const user = await this.getUserById(userId);
+
+    if (user.emailVerified) {
+      throw new AppError(409, 'Email address is already verified');
+    }
+
+    const [latest] = await db
+      .select({ createdAt: emailVerificationTokens.createdAt })
+      .from(emailVerificationTokens)
+      .where(eq(emailVerificationTokens.userId, userId))
+      .orderBy(desc(emailVerificationTokens.createdAt))
+      .limit(1);
+
+    if (latest && Date.now() - latest.createdAt.getTime() < VERIFICATION_RESEND_COOLDOWN_MS) {
+      throw new AppError(
+        429,
+        'A verification email was sent recently. Please wait a minute and try again.'
+      );
+    }
+
+    await this.issueEmailVerification(user);
+  }
+
+  /**
+   * Ensure a user has verified their email before using a sensitive feature
+   *
+   * @param userId - User attempting the action
+   * @param action - What the user is trying to do, e.g. "inviting partners"
+   * @throws {AppError} 403 if the email address is not verified
+   */
+  async assertEmailVerified(userId: number, action: string): Promise<void> {
+    const user = await this.getUserById(userId);
+
+    if (!user.emailVerified) {
+      throw new AppError(403, `Please verify your email address before ${action}`);
+    }
+  }
+
+  /**
+   * Issue a verification token for the user's current email and send the link
+   */
+  private async issueEmailVerification(user: SelectUser): Promise<void> {
+    const verificationToken = generateOneTimeToken();
+
+    await db.insert(emailVerificationTokens).values({
+      userId: user.id,
+      token: hashOneTimeToken(verificationToken),
+      email: user.email,
+      expiresAt: getEmailVerificationTokenExpiry(),
+    });
+
+    // A failed send should not fail signup; the user can request another email
+    try {
+      await sendVerificationEmail({
+        email: user.email,
+        verificationToken,
+        userName: user.name,
+        userId: user.id,
+      });
+    } catch (error) {
+      logger.error({ err: error, userId: user.id }, 'Failed to send verification email');
+    }
+  }
+
+  /**
+   * Clean up expired password reset tokens (should be run periodically)
+   */
+  async cleanupExpiredPasswordResetTokens(): Promise<number> {
+    const result = await db
+      .delete(passwordResetTokens)
+      .where(lt(passwordResetTokens.expiresAt, new Date()))
+      .returning();
+
+    logger.info({ count: result.length }, 'Expired password reset tokens cleaned up');
+
+    return result.length;
+  }
+
   /**
    * Clean up expired refresh tokens (should be run periodically)
    */
@@ -0,0 +1,171 @@
+import request from 'supertest';
+import { createApp } from '../../app';
+import { setupTestDatabase } from '../../test/setup';
+import { db } from '../../db/connection';
+import { users, emailVerificationTokens, refreshTokens, userSettings } from '../../db/schema';
+import { eq } from 'drizzle-orm';
+import { hashOneTimeToken } from '../../utils/auth';
+import * as emailService from '../../utils/email';
+
+const app = createApp();
+
+describe('Email Verification Routes', () => {
+  let sendSpy: jest.SpyInstance;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await db.delete(emailVerificationTokens);
+    await db.delete(refreshTokens);
+    await db.delete(userSettings);
+    await db.delete(users);
+
+    sendSpy = jest.spyOn(emailService, 'sendVerificationEmail');
+  });
+
+  afterEach(() => {
+    sendSpy.mockRestore();
+  });
+
+  /**
+   * Sign up a user and return their id, access token and emailed verification token
+   */
+  async function signup(email: string) {
+    const response = await request(app)
+      .post('/auth/signup')
+      .send({ email, password: 'Password123!', name: 'Test User' })
+      .expect(201);
+
+    return {
+      userId: response.body.data.user.id as number,
+      accessToken: response.body.data.accessToken as string,
+      verificationToken: sendSpy.mock.calls[0][0].verificationToken as string,
+    };
+  }
+
+  describe('signup', () => {
+    it('should send a verification email and store only the token hash', async () => {
+      const { userId, verificationToken } = await signup(`signup-verify-${Date.now()}@example.com`);
+
+      const [token] = await db
+        .select()
+        .from(emailVerificationTokens)
+        .where(eq(emailVerificationTokens.userId, userId));
+
+      expect(token.token).toBe(hashOneTimeToken(verificationToken));
+      expect(token.used).toBe(false);
+      expect(token.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('POST /auth/verify-email', () => {
+    it('should mark the user as verified', async () => {
+      const { userId, verificationToken } = await signup(`verify-${Date.now()}@example.com`);
+
+      const response = await request(app)
+        .post('/auth/verify-email')
+        .send({ token: verificationToken })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
+      expect(user.emailVerified).toBe(true);
+      expect(user.emailVerifiedAt).not.toBeNull();
+    });
+
+    it('should reject a token that was already used', async () => {
+      const { verificationToken } = await signup(`verify-reuse-${Date.now()}@example.com`);
+
+      await request(app).post('/auth/verify-email').send({ token: verificationToken }).expect(200);
+
+      const response = await request(app)
+        .post('/auth/verify-email')
+        .send({ token: verificationToken })
+        .expect(400);
+
+      expect(response.body.error.message).toContain('Invalid or expired');
+    });
+
+    it('should reject an expired token', async () => {
+      const { userId, verificationToken } = await signup(
+        `verify-expired-${Date.now()}@example.com`
+      );
+
+      await db
+        .update(emailVerificationTokens)
+        .set({ expiresAt: new Date(Date.now() - 1000) })
+        .where(eq(emailVerificationTokens.userId, userId));
+
+      await request(app).post('/auth/verify-email').send({ token: verificationToken }).expect(400);
+    });
+
+    it('should reject a token sent to a previous email address', async () => {
+      const { userId, verificationToken } = await signup(`verify-old-${Date.now()}@example.com`);
+
+      await db
+        .update(users)
+        .set({ email: `verify-new-${Date.now()}@example.com` })
+        .where(eq(users.id, userId));
+
+      await request(app).post('/auth/verify-email').send({ token: verificationToken }).expect(400);
+
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
+      expect(user.emailVerified).toBe(false);
+    });
+
+    it('should reject a missing token', async () => {
+      await request(app).post('/auth/verify-email').send({}).expect(400);
+    });
+  });
+
+  describe('POST /auth/resend-verification', () => {
+    it('should require authentication', async () => {
+      await request(app).post('/auth/resend-verification').expect(401);
+    });
+
+    it('should enforce a cooldown between emails', async () => {
+      const { accessToken } = await signup(`resend-cooldown-${Date.now()}@example.com`);
+
+      await request(app)
+        .post('/auth/resend-verification')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(429);
+    });
+
+    it('should send a new token once the cooldown has passed', async () => {
+      const { userId, accessToken } = await signup(`resend-${Date.now()}@example.com`);
+
+      await db
+        .update(emailVerificationTokens)
+        .set({ createdAt: new Date(Date.now() - 2 * 60 * 1000) })
+        .where(eq(emailVerificationTokens.userId, userId));
+
+      await request(app)
+        .post('/auth/resend-verification')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const tokens = await db
+        .select()
+        .from(emailVerificationTokens)
+        .where(eq(emailVerificationTokens.userId, userId));
+      expect(tokens).toHaveLength(2);
+    });
+
+    it('should reject users who are already verified', async () => {
+      const { accessToken, verificationToken } = await signup(
+        `resend-verified-${Date.now()}@example.com`
+      );
+
+      await request(app).post('/auth/verify-email').send({ token: verificationToken }).expect(200);
+
+      await request(app)
+        .post('/auth/resend-verification')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { strictLimiter } from '../../middleware/rateLimiter';
+import { verifyEmailSchema } from './schemas';
+import { AuthService } from './service';
+import { ZodError } from 'zod';
+
+const router = Router();
+const authService = new AuthService();
+const tracer = trace.getTracer('auth-routes');
+
+/**
+ * POST /auth/verify-email
+ * Verify email address using token from the verification email
+ *
+ * Security: Token is single-use, expires after 24 hours and only verifies the
+ * address it was sent to
+ * Rate limit: strictLimiter (20 requests/minute)
+ */
+router.post(
+  '/verify-email',
+  strictLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /auth/verify-email');
+
+    try {
+      span.setAttributes({
+        'http.method': 'POST',
+        'http.route': '/auth/verify-email',
+      });
+
+      logger.info('Email verification attempted');
+
+      // Validate request body
+      const validatedInput = verifyEmailSchema.parse(req.body);
+
+      span.addEvent('validation_completed');
+
+      const result = await authService.verifyEmail(validatedInput.token);
+
+      span.setAttributes({ 'user.id': result.userId });
+      span.addEvent('email_verified');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        message: 'Your email address has been verified.',
+        data: { emailVerified: true },
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn({ validationErrors: error.errors }, 'Verify email validation failed');
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error({ error, errorMessage }, 'Unexpected error during email verification');
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to verify email: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * POST /auth/resend-verification
+ * Send a new verification email to the authenticated user
+ *
+ * Rate limit: strictLimiter (20 requests/minute) plus one email per minute per user
+ */
+router.post(
+  '/resend-verification',
+  requireAuth,
+  strictLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /auth/resend-verification');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/auth/resend-verification',
+      });
+
+      await authService.resendVerificationEmail(req.userId!);
+
+      span.addEvent('verification_email_sent');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      logger.info({ userId: req.userId }, 'Verification email resent');
+
+      res.status(200).json({
+        success: true,
+        message: 'A new verification email has been sent.',
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error resending verification email'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to resend verification email: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,306 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { ZodError } from 'zod';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { createCustomTaskSchema, updateCustomTaskSchema, customTaskIdParamSchema } from './schemas';
+import { CustomTasksService } from './service';
+import { tasksCache } from '../tasks/cache';
+
+const router = Router();
+const customTasksService = new CustomTasksService();
+const tracer = trace.getTracer('custom-tasks-routes');
+
+/**
+ * POST /v1/custom-tasks
+ * Create a user-defined task with a recurrence rule
+ *
+ * Body:
+ * - title, description?, taskType? (defaults to custom), dueTime (HH:MM[:SS]), priority?
+ * - recurrenceType: once | daily | weekdays | every_n_days | specific_weekdays
+ * - intervalDays (every_n_days), weekdays (specific_weekdays, ISO 1-7)
+ * - startDate? (defaults to today in user timezone), endDate?
+ *
+ * Side effects:
+ * - Expands occurrences for the next 14 local days into the checklist
+ * - Invalidates task cache
+ */
+router.post(
+  '/custom-tasks',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/custom-tasks');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/custom-tasks',
+      });
+
+      const validatedInput = createCustomTaskSchema.parse(req.body);
+      span.setAttributes({ 'custom_task.recurrence_type': validatedInput.recurrenceType });
+
+      const customTask = await customTasksService.createCustomTask(req.userId!, validatedInput);
+
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.addEvent('custom_task_created');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(201).json({
+        success: true,
+        data: customTask,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Create custom task validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error creating custom task'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(500, `Failed to create custom task for user ${req.userId}: ${errorMessage}`)
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * GET /v1/custom-tasks
+ * List the authenticated user's custom tasks (active and paused)
+ */
+router.get(
+  '/custom-tasks',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/custom-tasks');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/custom-tasks',
+      });
+
+      const customTasks = await customTasksService.listCustomTasks(req.userId!);
+
+      span.setAttributes({ 'response.count': customTasks.length });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: customTasks,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error listing custom tasks'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(500, `Failed to list custom tasks for user ${req.userId}: ${errorMessage}`)
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * PATCH /v1/custom-tasks/:customTaskId
+ * Update a custom task (fields, recurrence rule or isActive to pause/resume)
+ *
+ * Side effects:
+ * - Replaces pending occurrences from today onwards using the new rule
+ * - Invalidates task cache
+ */
+router.patch(
+  '/custom-tasks/:customTaskId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('PATCH /v1/custom-tasks/:customTaskId');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'PATCH',
+        'http.route': '/v1/custom-tasks/:customTaskId',
+      });
+
+      const { customTaskId } = customTaskIdParamSchema.parse(req.params);
+      const validatedInput = updateCustomTaskSchema.parse(req.body);
+      span.setAttributes({ 'custom_task.id': customTaskId });
+
+      const customTask = await customTasksService.updateCustomTask(
+        req.userId!,
+        customTaskId,
+        validatedInput
+      );
+
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.addEvent('custom_task_updated');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: customTask,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Update custom task validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error updating custom task'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(500, `Failed to update custom task for user ${req.userId}: ${errorMessage}`)
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * DELETE /v1/custom-tasks/:customTaskId
+ * Delete a custom task
+ *
+ * Side effects:
+ * - Removes pending occurrences from today onwards (history is kept)
+ * - Invalidates task cache
+ */
+router.delete(
+  '/custom-tasks/:customTaskId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('DELETE /v1/custom-tasks/:customTaskId');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'DELETE',
+        'http.route': '/v1/custom-tasks/:customTaskId',
+      });
+
+      const { customTaskId } = customTaskIdParamSchema.parse(req.params);
+      span.setAttributes({ 'custom_task.id': customTaskId });
+
+      const result = await customTasksService.deleteCustomTask(req.userId!, customTaskId);
+
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.addEvent('custom_task_deleted');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Delete custom task validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error deleting custom task'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(500, `Failed to delete custom task for user ${req.userId}: ${errorMessage}`)
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { RecurrenceType, TaskType } from '@gtsd/shared-types';
+import { localDateSchema } from '../../utils/validation';
+
+/**
+ * Recurrence type enum for validation
+ */
+export const recurrenceTypeEnum = z.nativeEnum(RecurrenceType);
+
+/**
+ * Recurrence rule fields checked together (create and merged updates)
+ */
+export interface RecurrenceRuleInput {
+  recurrenceType: RecurrenceType | `${RecurrenceType}`;
+  intervalDays?: number | null;
+  weekdays?: number[] | null;
+  startDate?: string;
+  endDate?: string | null;
+}
+
+/**
+ * Validate cross-field recurrence constraints
+ *
+ * @param rule - Recurrence rule to check
+ * @returns Error message, or null when the rule is valid
+ */
+export function getRecurrenceRuleError(rule: RecurrenceRuleInput): string | null {
+  if (rule.recurrenceType === RecurrenceType.EveryNDays && !rule.intervalDays) {
+    return 'intervalDays is required for every_n_days recurrence';
+  }
+
+  if (
+    rule.recurrenceType === RecurrenceType.SpecificWeekdays &&
+    (!rule.weekdays || rule.weekdays.length === 0)
+  ) {
+    return 'weekdays is required for specific_weekdays recurrence';
+  }
+
+  if (rule.startDate && rule.endDate && rule.endDate < rule.startDate) {
+    return 'endDate must be on or after startDate';
+  }
+
+  return null;
+}
+
+/**
+ * Editable custom task fields
+ */
+const customTaskFieldsSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+
+  description: z.string().trim().max(1000).nullable().optional(),
+
+  taskType: z
+    .nativeEnum(TaskType)
+    .default(TaskType.Custom)
+    .describe('Category used for the checklist and per-type streaks'),
+
+  dueTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Time must be in HH:MM or HH:MM:SS format')
+    .transform((value) => (value.length === 5 ? `${value}:00` : value))
+    .describe('Local due time in the user timezone'),
+
+  priority: z.number().int().min(1).max(3).default(1),
+
+  recurrenceType: recurrenceTypeEnum,
+
+  intervalDays: z
+    .number()
+    .int()
+    .min(2, 'intervalDays must be at least 2 (use daily instead)')
+    .max(365)
+    .nullable()
+    .optional(),
+
+  weekdays: z
+    .array(z.number().int().min(1).max(7))
+    .min(1)
+    .max(7)
+    .transform((days) => Array.from(new Set(days)).sort((a, b) => a - b))
+    .nullable()
+    .optional()
+    .describe('ISO weekdays (1 = Monday, 7 = Sunday)'),
+
+  startDate: localDateSchema.describe('First local date (defaults to today in user timezone)'),
+
+  endDate: localDateSchema.nullable().optional().describe('Last local date (inclusive)'),
+});
+
+/**
+ * Body schema for POST /v1/custom-tasks
+ */
+export const createCustomTaskSchema = customTaskFieldsSchema
+  .extend({ startDate: customTaskFieldsSchema.shape.startDate.optional() })
+  .superRefine((data, ctx) => {
+    const message = getRecurrenceRuleError(data);
+    if (message) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+
+/**
+ * Body schema for PATCH /v1/custom-tasks/:customTaskId
+ * Recurrence constraints are re-checked by the service against the merged rule
+ */
+export const updateCustomTaskSchema = customTaskFieldsSchema
+  .partial()
+  .extend({
+    taskType: z.nativeEnum(TaskType).optional(),
+    priority: z.number().int().min(1).max(3).optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+/**
+ * Path parameters for /v1/custom-tasks/:customTaskId
+ */
+export const customTaskIdParamSchema = z.object({
+  customTaskId: z.coerce.number().int().positive('Custom task ID must be a positive integer'),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type CreateCustomTaskInput = z.infer<typeof createCustomTaskSchema>;
+export type UpdateCustomTaskInput = z.infer<typeof updateCustomTaskSchema>;
+export type CustomTaskIdParam = z.infer<typeof customTaskIdParamSchema>;
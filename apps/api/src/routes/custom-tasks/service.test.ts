@@ -0,0 +1,115 @@
+import { expandRecurrence } from './service';
+import { getRecurrenceRuleError } from './schemas';
+
+describe('CustomTasksService', () => {
+  describe('expandRecurrence', () => {
+    // 2025-01-06 is a Monday
+    const from = '2025-01-06';
+    const to = '2025-01-19';
+
+    it('should expand daily rules across the whole window', () => {
+      const dates = expandRecurrence(
+        { recurrenceType: 'daily', startDate: '2025-01-01' },
+        from,
+        to
+      );
+
+      expect(dates).toHaveLength(14);
+      expect(dates[0]).toBe('2025-01-06');
+      expect(dates[13]).toBe('2025-01-19');
+    });
+
+    it('should only return Monday-Friday for weekday rules', () => {
+      const dates = expandRecurrence(
+        { recurrenceType: 'weekdays', startDate: '2025-01-01' },
+        from,
+        to
+      );
+
+      expect(dates).toHaveLength(10);
+      expect(dates).not.toContain('2025-01-11');
+      expect(dates).not.toContain('2025-01-12');
+    });
+
+    it('should anchor every_n_days on the start date', () => {
+      const dates = expandRecurrence(
+        { recurrenceType: 'every_n_days', intervalDays: 3, startDate: '2025-01-05' },
+        from,
+        to
+      );
+
+      expect(dates).toEqual(['2025-01-08', '2025-01-11', '2025-01-14', '2025-01-17']);
+    });
+
+    it('should use ISO weekdays for specific weekday rules', () => {
+      const dates = expandRecurrence(
+        { recurrenceType: 'specific_weekdays', weekdays: [1, 7], startDate: '2025-01-01' },
+        from,
+        to
+      );
+
+      expect(dates).toEqual(['2025-01-06', '2025-01-12', '2025-01-13', '2025-01-19']);
+    });
+
+    it('should return a one-off task only on its start date', () => {
+      expect(
+        expandRecurrence({ recurrenceType: 'once', startDate: '2025-01-10' }, from, to)
+      ).toEqual(['2025-01-10']);
+      expect(
+        expandRecurrence({ recurrenceType: 'once', startDate: '2025-01-02' }, from, to)
+      ).toEqual([]);
+    });
+
+    it('should clip the window to the rule start and end dates', () => {
+      const dates = expandRecurrence(
+        { recurrenceType: 'daily', startDate: '2025-01-08', endDate: '2025-01-10' },
+        from,
+        to
+      );
+
+      expect(dates).toEqual(['2025-01-08', '2025-01-09', '2025-01-10']);
+    });
+
+    it('should return nothing when the rule ended before the window', () => {
+      expect(
+        expandRecurrence(
+          { recurrenceType: 'daily', startDate: '2024-12-01', endDate: '2024-12-31' },
+          from,
+          to
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('getRecurrenceRuleError', () => {
+    it('should require intervalDays for every_n_days rules', () => {
+      expect(getRecurrenceRuleError({ recurrenceType: 'every_n_days' })).toMatch(/intervalDays/);
+    });
+
+    it('should require weekdays for specific_weekdays rules', () => {
+      expect(getRecurrenceRuleError({ recurrenceType: 'specific_weekdays', weekdays: [] })).toMatch(
+        /weekdays/
+      );
+    });
+
+    it('should reject an end date before the start date', () => {
+      expect(
+        getRecurrenceRuleError({
+          recurrenceType: 'daily',
+          startDate: '2025-01-10',
+          endDate: '2025-01-09',
+        })
+      ).toMatch(/endDate/);
+    });
+
+    it('should accept valid rules', () => {
+      expect(
+        getRecurrenceRuleError({
+          recurrenceType: 'specific_weekdays',
+          weekdays: [1, 3, 5],
+          startDate: '2025-01-06',
+        })
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,423 @@
+import { db } from '../../db/connection';
+import { customTasks, dailyTasks, SelectCustomTask, InsertDailyTask } from '../../db/schema';
+import { and, asc, eq, gte } from 'drizzle-orm';
+import { differenceInCalendarDays, getISODay, parseISO } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { AppError } from '../../middleware/error';
+import { logger } from '../../config/logger';
+import {
+  addLocalDays,
+  getLocalDateString,
+  getLocalDayBounds,
+  getUserTimezone,
+} from '../../utils/timezone';
+import type { DbTransaction } from '../../services/task-generator';
+import {
+  getRecurrenceRuleError,
+  type CreateCustomTaskInput,
+  type RecurrenceRuleInput,
+  type UpdateCustomTaskInput,
+} from './schemas';
+
+/**
+ * Number of local days (including today) kept expanded into daily_tasks
+ */
+export const CUSTOM_TASK_HORIZON_DAYS = 14;
+
+/**
+ * ISO weekdays counted as "weekdays" (Monday-Friday)
+ */
+const WORKING_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Result of deleting a custom task
+ */
+export interface DeleteCustomTaskResult {
+  id: number;
+  occurrencesRemoved: number;
+}
+
+/**
+ * Recurrence rule with a resolved start date
+ */
+export type RecurrenceRule = RecurrenceRuleInput & { startDate: string };
+
+/**
+ * Expand a recurrence rule into the local dates it occurs on within a window
+ *
+ * @param rule - Recurrence rule (dates are local YYYY-MM-DD strings)
+ * @param fromDate - First local date of the window (inclusive)
+ * @param toDate - Last local date of the window (inclusive)
+ * @returns Matching local dates, oldest first
+ *
+ * @remarks
+ * - The window is clipped to the rule's startDate/endDate
+ * - every_n_days is anchored on startDate, so the cadence survives re-expansion
+ * - Weekdays use ISO numbering (1 = Monday, 7 = Sunday)
+ */
+export function expandRecurrence(rule: RecurrenceRule, fromDate: string, toDate: string): string[] {
+  const start = fromDate > rule.startDate ? fromDate : rule.startDate;
+  const end = rule.endDate && rule.endDate < toDate ? rule.endDate : toDate;
+  const dates: string[] = [];
+
+  for (let date = start; date <= end; date = addLocalDays(date, 1)) {
+    const isoDay = getISODay(parseISO(date));
+
+    switch (rule.recurrenceType) {
+      case 'once':
+        if (date === rule.startDate) dates.push(date);
+        break;
+      case 'daily':
+        dates.push(date);
+        break;
+      case 'weekdays':
+        if (WORKING_DAYS.includes(isoDay)) dates.push(date);
+        break;
+      case 'every_n_days': {
+        const offset = differenceInCalendarDays(parseISO(date), parseISO(rule.startDate));
+        if (rule.intervalDays && offset % rule.intervalDays === 0) dates.push(date);
+        break;
+      }
+      case 'specific_weekdays':
+        if (rule.weekdays?.includes(isoDay)) dates.push(date);
+        break;
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Custom tasks service
+ * Manages user-defined tasks and expands their recurrence rules into daily_tasks
+ *
+ * @remarks
+ * - Occurrences are regular daily_tasks rows (planId null, customTaskId set), so the
+ *   checklist, evidence, compliance and streaks treat them like generated tasks
+ * - expandedThrough records how far a rule has been expanded; extending never recreates
+ *   occurrences the user has since rescheduled or removed
+ * - Editing or deleting a rule only replaces future pending occurrences; completed,
+ *   skipped and in-progress occurrences are kept as history
+ */
+export class CustomTasksService {
+  /**
+   * Create a custom task and expand its first occurrences
+   *
+   * @param userId - Authenticated user ID
+   * @param input - Validated task fields and recurrence rule
+   * @returns The created custom task
+   */
+  async createCustomTask(userId: number, input: CreateCustomTaskInput): Promise<SelectCustomTask> {
+    const timezone = await getUserTimezone(userId);
+    const today = getLocalDateString(timezone);
+    const startDate = input.startDate ?? today;
+
+    if (input.endDate && input.endDate < startDate) {
+      throw new AppError(400, 'Validation failed: endDate must be on or after startDate');
+    }
+
+    const { customTask, occurrencesCreated } = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(customTasks)
+        .values({
+          userId,
+          title: input.title,
+          description: input.description ?? null,
+          taskType: input.taskType,
+          dueTime: input.dueTime,
+          priority: input.priority,
+          recurrenceType: input.recurrenceType,
+          intervalDays: input.recurrenceType === 'every_n_days' ? input.intervalDays : null,
+          weekdays: input.recurrenceType === 'specific_weekdays' ? input.weekdays : null,
+          startDate,
+          endDate: input.endDate ?? null,
+        })
+        .returning();
+
+      const expansion = await this.expandOccurrences(tx, created, timezone, today);
+      return { customTask: expansion.customTask, occurrencesCreated: expansion.created };
+    });
+
+    logger.info(
+      {
+        userId,
+        customTaskId: customTask.id,
+        recurrenceType: customTask.recurrenceType,
+        occurrencesCreated,
+        timezone,
+      },
+      'Custom task created'
+    );
+
+    return customTask;
+  }
+
+  /**
+   * List a user's custom tasks
+   *
+   * @param userId - Authenticated user ID
+   * @param includeInactive - Include paused tasks
+   * @returns Custom tasks ordered by creation
+   */
+  async listCustomTasks(userId: number, includeInactive = true): Promise<SelectCustomTask[]> {
+    return db
+      .select()
+      .from(customTasks)
+      .where(
+        and(
+          eq(customTasks.userId, userId),
+          includeInactive ? undefined : eq(customTasks.isActive, true)
+        )
+      )
+      .orderBy(asc(customTasks.createdAt));
+  }
+
+  /**
+   * Update a custom task and re-expand its future occurrences
+   *
+   * @param userId - Authenticated user ID
+   * @param customTaskId - Custom task to update
+   * @param input - Fields to change
+   * @returns The updated custom task
+   * @throws {AppError} 404 if not found, 400 if the merged recurrence rule is invalid
+   */
+  async updateCustomTask(
+    userId: number,
+    customTaskId: number,
+    input: UpdateCustomTaskInput
+  ): Promise<SelectCustomTask> {
+    const existing = await this.getOwnedCustomTask(userId, customTaskId);
+
+    const merged = {
+      title: input.title ?? existing.title,
+      description: input.description !== undefined ? input.description : existing.description,
+      taskType: input.taskType ?? existing.taskType,
+      dueTime: input.dueTime ?? existing.dueTime,
+      priority: input.priority ?? existing.priority,
+      recurrenceType: input.recurrenceType ?? existing.recurrenceType,
+      intervalDays: input.intervalDays !== undefined ? input.intervalDays : existing.intervalDays,
+      weekdays: input.weekdays !== undefined ? input.weekdays : existing.weekdays,
+      startDate: input.startDate ?? existing.startDate,
+      endDate: input.endDate !== undefined ? input.endDate : existing.endDate,
+      isActive: input.isActive ?? existing.isActive,
+    };
+
+    const ruleError = getRecurrenceRuleError(merged);
+    if (ruleError) {
+      throw new AppError(400, `Validation failed: ${ruleError}`);
+    }
+
+    const timezone = await getUserTimezone(userId);
+    const today = getLocalDateString(timezone);
+
+    const { customTask, removed, created } = await db.transaction(async (tx) => {
+      const removedCount = await this.removeFutureOccurrences(tx, customTaskId, timezone, today);
+
+      const [updated] = await tx
+        .update(customTasks)
+        .set({
+          ...merged,
+          intervalDays: merged.recurrenceType === 'every_n_days' ? merged.intervalDays : null,
+          weekdays: merged.recurrenceType === 'specific_weekdays' ? merged.weekdays : null,
+          // Re-expand from today with the new rule
+          expandedThrough: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(customTasks.id, customTaskId))
+        .returning();
+
+      const expansion = await this.expandOccurrences(tx, updated, timezone, today);
+      return {
+        customTask: expansion.customTask,
+        removed: removedCount,
+        created: expansion.created,
+      };
+    });
+
+    logger.info(
+      { userId, customTaskId, occurrencesRemoved: removed, occurrencesCreated: created },
+      'Custom task updated'
+    );
+
+    return customTask;
+  }
+
+  /**
+   * Delete a custom task and its future pending occurrences
+   * Past and completed occurrences are kept (customTaskId is set to null)
+   *
+   * @param userId - Authenticated user ID
+   * @param customTaskId - Custom task to delete
+   * @throws {AppError} 404 if not found
+   */
+  async deleteCustomTask(userId: number, customTaskId: number): Promise<DeleteCustomTaskResult> {
+    await this.getOwnedCustomTask(userId, customTaskId);
+
+    const timezone = await getUserTimezone(userId);
+    const today = getLocalDateString(timezone);
+
+    const occurrencesRemoved = await db.transaction(async (tx) => {
+      const removed = await this.removeFutureOccurrences(tx, customTaskId, timezone, today);
+      await tx.delete(customTasks).where(eq(customTasks.id, customTaskId));
+      return removed;
+    });
+
+    logger.info({ userId, customTaskId, occurrencesRemoved }, 'Custom task deleted');
+
+    return { id: customTaskId, occurrencesRemoved };
+  }
+
+  /**
+   * Extend every active custom task of a user up to the expansion horizon
+   * Called by the custom task expansion job
+   *
+   * @param userId - User ID
+   * @param timezone - User's IANA timezone
+   * @param now - Reference time (defaults to now)
+   * @returns Number of occurrences created
+   */
+  async extendUserCustomTasks(
+    userId: number,
+    timezone: string,
+    now: Date = new Date()
+  ): Promise<number> {
+    const today = getLocalDateString(timezone, now);
+    const horizonEnd = addLocalDays(today, CUSTOM_TASK_HORIZON_DAYS - 1);
+
+    return db.transaction(async (tx) => {
+      const activeTasks = await tx
+        .select()
+        .from(customTasks)
+        .where(and(eq(customTasks.userId, userId), eq(customTasks.isActive, true)))
+        .for('update');
+
+      let created = 0;
+      for (const customTask of activeTasks) {
+        if (customTask.expandedThrough && customTask.expandedThrough >= horizonEnd) {
+          continue;
+        }
+        const expansion = await this.expandOccurrences(tx, customTask, timezone, today);
+        created += expansion.created;
+      }
+
+      return created;
+    });
+  }
+
+  /**
+   * Insert daily_tasks occurrences for the part of the horizon not yet expanded
+   *
+   * @param tx - Database transaction instance
+   * @param customTask - Custom task to expand
+   * @param timezone - User's IANA timezone
+   * @param today - User's local date
+   * @returns Updated custom task and number of occurrences created
+   */
+  private async expandOccurrences(
+    tx: DbTransaction,
+    customTask: SelectCustomTask,
+    timezone: string,
+    today: string
+  ): Promise<{ customTask: SelectCustomTask; created: number }> {
+    if (!customTask.isActive) {
+      return { customTask, created: 0 };
+    }
+
+    const horizonEnd = addLocalDays(today, CUSTOM_TASK_HORIZON_DAYS - 1);
+    const nextUnexpanded = customTask.expandedThrough
+      ? addLocalDays(customTask.expandedThrough, 1)
+      : today;
+    const fromDate = nextUnexpanded > today ? nextUnexpanded : today;
+
+    if (fromDate > horizonEnd) {
+      return { customTask, created: 0 };
+    }
+
+    const dates = expandRecurrence(customTask, fromDate, horizonEnd);
+
+    // Days that still hold an occurrence (e.g. completed today before a rule edit) are not duplicated
+    const kept = await tx
+      .select({ dueDate: dailyTasks.dueDate })
+      .from(dailyTasks)
+      .where(
+        and(
+          eq(dailyTasks.customTaskId, customTask.id),
+          gte(dailyTasks.dueDate, getLocalDayBounds(fromDate, timezone).start)
+        )
+      );
+    const keptDates = new Set(kept.map((row) => getLocalDateString(timezone, row.dueDate)));
+
+    const rows: InsertDailyTask[] = dates
+      .filter((date) => !keptDates.has(date))
+      .map((date) => ({
+        userId: customTask.userId,
+        planId: null,
+        customTaskId: customTask.id,
+        title: customTask.title,
+        description: customTask.description,
+        taskType: customTask.taskType,
+        dueDate: fromZonedTime(`${date}T${customTask.dueTime}`, timezone),
+        dueTime: customTask.dueTime,
+        status: 'pending',
+        priority: customTask.priority,
+      }));
+
+    if (rows.length > 0) {
+      await tx.insert(dailyTasks).values(rows);
+    }
+
+    const [updated] = await tx
+      .update(customTasks)
+      .set({ expandedThrough: horizonEnd })
+      .where(eq(customTasks.id, customTask.id))
+      .returning();
+
+    return { customTask: updated, created: rows.length };
+  }
+
+  /**
+   * Delete pending occurrences from the start of today onwards
+   *
+   * @returns Number of occurrences removed
+   */
+  private async removeFutureOccurrences(
+    tx: DbTransaction,
+    customTaskId: number,
+    timezone: string,
+    today: string
+  ): Promise<number> {
+    const removed = await tx
+      .delete(dailyTasks)
+      .where(
+        and(
+          eq(dailyTasks.customTaskId, customTaskId),
+          eq(dailyTasks.status, 'pending'),
+          gte(dailyTasks.dueDate, getLocalDayBounds(today, timezone).start)
+        )
+      )
+      .returning({ id: dailyTasks.id });
+
+    return removed.length;
+  }
+
+  /**
+   * Fetch a custom task and verify ownership
+   * @throws {AppError} 404 if the custom task does not exist or belongs to another user
+   */
+  private async getOwnedCustomTask(
+    userId: number,
+    customTaskId: number
+  ): Promise<SelectCustomTask> {
+    const [customTask] = await db
+      .select()
+      .from(customTasks)
+      .where(and(eq(customTasks.id, customTaskId), eq(customTasks.userId, userId)))
+      .limit(1);
+
+    if (!customTask) {
+      throw new AppError(404, `Custom task ${customTaskId} not found for user ${userId}`);
+    }
+
+    return customTask;
+  }
+}
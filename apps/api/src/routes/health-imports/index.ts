@@ -0,0 +1,282 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { ZodError } from 'zod';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { healthImportService } from '../../services/health-import';
+import {
+  presignHealthExportSchema,
+  startHealthImportSchema,
+  healthImportIdParamSchema,
+} from './schemas';
+
+const router = Router();
+const tracer = trace.getTracer('health-imports-routes');
+
+/**
+ * POST /v1/health-imports/presign
+ * Generate a presigned URL for uploading a health data export
+ *
+ * Body:
+ * - source: apple_health | google_fit
+ * - fileName: export.xml from the unzipped Apple Health export (.xml), or a Google Takeout
+ *   Fit JSON file (.json)
+ * - fileSize: bytes, up to 2GB for Apple Health and 100MB for Google Fit
+ *
+ * Response: uploadUrl (PUT the file there within 10 minutes, with exactly fileSize bytes),
+ * fileKey, expiresIn
+ */
+router.post(
+  '/health-imports/presign',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/health-imports/presign');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/health-imports/presign',
+      });
+
+      const validatedInput = presignHealthExportSchema.parse(req.body);
+      span.setAttributes({
+        'import.source': validatedInput.source,
+        'import.file_size': validatedInput.fileSize,
+      });
+
+      const result = await healthImportService.createUploadUrl(req.userId!, {
+        source: validatedInput.source,
+        fileName: validatedInput.fileName,
+        fileSize: validatedInput.fileSize,
+      });
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Health export presign validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error generating health export upload URL'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to generate upload URL: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * POST /v1/health-imports
+ * Queue an uploaded export for import in the background
+ *
+ * Body:
+ * - source: apple_health | google_fit
+ * - fileKey: from POST /v1/health-imports/presign, after the upload finished
+ *
+ * Response (202): HealthImport with status queued; poll GET /v1/health-imports/:importId
+ *
+ * The import backfills weigh-ins, body fat, workouts and daily steps as completed history.
+ * Items already logged are skipped, and imported history does not count toward streaks
+ * or badges.
+ *
+ * Errors: 403 file key of another user, 404 file not uploaded, 409 file already imported,
+ * 413 uploaded file larger than the source allows
+ */
+router.post(
+  '/health-imports',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/health-imports');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/health-imports',
+      });
+
+      const validatedInput = startHealthImportSchema.parse(req.body);
+      span.setAttributes({ 'import.source': validatedInput.source });
+
+      const healthImport = await healthImportService.startImport(req.userId!, validatedInput);
+
+      span.setAttributes({ 'import.id': healthImport.id });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(202).json({ success: true, data: healthImport });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Start health import validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error starting health import'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to start health import: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * GET /v1/health-imports
+ * List the user's 20 most recent imports, newest first
+ */
+router.get(
+  '/health-imports',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/health-imports');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/health-imports',
+      });
+
+      const imports = await healthImportService.listImports(req.userId!);
+
+      span.setAttributes({ 'import.count': imports.length });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({ success: true, data: imports });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error listing health imports'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to list health imports: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * GET /v1/health-imports/:importId
+ * Get an import's status, progress (0-100) and counts
+ */
+router.get(
+  '/health-imports/:importId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/health-imports/:importId');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/health-imports/:importId',
+      });
+
+      const { importId } = healthImportIdParamSchema.parse(req.params);
+      span.setAttributes({ 'import.id': importId });
+
+      const healthImport = await healthImportService.getImport(req.userId!, importId);
+
+      span.setAttributes({ 'import.status': healthImport.status });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({ success: true, data: healthImport });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error fetching health import'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to fetch health import: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
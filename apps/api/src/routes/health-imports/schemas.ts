@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { HEALTH_IMPORT_SETTINGS, HEALTH_IMPORT_SOURCES } from '@gtsd/shared-types';
+
+/**
+ * Schema for requesting an export upload URL
+ * Google Fit JSON files are parsed whole, so they have a much lower size limit
+ */
+export const presignHealthExportSchema = z
+  .object({
+    source: z.enum(HEALTH_IMPORT_SOURCES),
+    fileName: z.string().trim().min(1, 'File name is required').max(255),
+    fileSize: z.number().int().positive('File size must be a positive integer'),
+  })
+  .refine(
+    (data) => data.fileSize <= HEALTH_IMPORT_SETTINGS.maxFileBytes[data.source],
+    (data) => ({
+      message: `File must be at most ${HEALTH_IMPORT_SETTINGS.maxFileBytes[data.source] / 1024 / 1024}MB`,
+      path: ['fileSize'],
+    })
+  );
+
+/**
+ * Schema for starting an import of an uploaded export
+ */
+export const startHealthImportSchema = z.object({
+  source: z.enum(HEALTH_IMPORT_SOURCES),
+  fileKey: z.string().min(1, 'File key is required').max(500),
+});
+
+/**
+ * Schema for health import ID path parameter
+ */
+export const healthImportIdParamSchema = z.object({
+  importId: z.coerce.number().int().positive('Import ID must be a positive integer'),
+});
+
+/**
+ * TypeScript types inferred from schemas
+ */
+export type PresignHealthExportInput = z.infer<typeof presignHealthExportSchema>;
+export type StartHealthImportInput = z.infer<typeof startHealthImportSchema>;
+export type HealthImportIdParam = z.infer<typeof healthImportIdParamSchema>;
@@ -77,6 +77,7 @@ router.post(
           userId: req.userId,
           calorieTarget: result.settings.calorieTarget,
           estimatedWeeks: result.projection.estimatedWeeks,
+          guardrails: result.warnings.map((w) => w.code),
         },
         'Onboarding completed successfully'
       );
@@ -6,6 +6,7 @@ export const partnerSchema = z.object({
   email: z.string().trim().email('Invalid email').optional().or(z.literal('')),
   phone: z.string().trim().max(20).optional().or(z.literal('')),
   relationship: z.string().trim().max(50).optional(),
+  canManageTargets: z.boolean().optional(),
 });
 
 export const onboardingSchema = z
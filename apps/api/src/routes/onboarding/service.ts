@@ -2,6 +2,9 @@ import { db } from '../../db/connection';
 import { users, userSettings, partners, initialPlanSnapshot } from '../../db/schema';
 import { eq } from 'drizzle-orm';
 import { AppError } from '../../middleware/error';
+import { scienceService } from '../../services/science';
+import { evaluateSafetyGuardrails } from '../../services/safety-guardrails';
+import { AuthService } from '../auth/service';
 import {
   calculateHealthTargets,
   calculateWeightProjection,
@@ -11,6 +14,7 @@ import {
   type Gender,
 } from '../../utils/health-calculations';
 import type { OnboardingInput } from './schemas';
+import type { GuardrailWarning, PrimaryGoalValue } from '@gtsd/shared-types';
 
 export interface OnboardingResult {
   userId: number;
@@ -20,19 +24,32 @@ export interface OnboardingResult {
     calorieTarget: number;
     proteinTarget: number;
     waterTarget: number;
+    carbsTarget: number;
+    fatTarget: number;
+    fiberTarget: number;
   };
   projection: {
     weeklyRate: number;
     estimatedWeeks: number;
     projectedDate: Date;
   };
+  warnings: GuardrailWarning[];
 }
 
+const authService = new AuthService();
+
 export class OnboardingService {
   /**
    * Complete onboarding process for a user
+   *
+   * @throws {AppError} 403 if partners are included and the user's email is not verified
    */
   async completeOnboarding(userId: number, input: OnboardingInput): Promise<OnboardingResult> {
+    // Partner invites contact third parties, so they require a verified sender
+    if (input.partners && input.partners.length > 0) {
+      await authService.assertEmailVerified(userId, 'inviting partners');
+    }
+
     // Calculate age from date of birth
     const dateOfBirth = new Date(input.dateOfBirth);
     const age = calculateAge(dateOfBirth);
@@ -45,7 +62,7 @@ export class OnboardingService {
         : 'other';
 
     // Calculate health targets
-    const targets = calculateHealthTargets(
+    const healthTargets = calculateHealthTargets(
       {
         weight: input.currentWeight,
         height: input.height,
@@ -57,12 +74,56 @@ export class OnboardingService {
     );
 
     // Calculate weight projection
-    const projection = calculateWeightProjection(
+    const goalProjection = calculateWeightProjection(
       input.currentWeight,
       input.targetWeight,
       input.primaryGoal as Goal
     );
 
+    // Weekly rates are signed everywhere (negative for loss), capped or not
+    const plannedWeeklyRate = scienceService.calculateWeeklyRate(
+      input.primaryGoal as PrimaryGoalValue
+    );
+
+    // Cap unsafe targets before anything is stored
+    const { calorieTarget, weeklyRate, warnings } = evaluateSafetyGuardrails(
+      { ...healthTargets, weeklyRate: plannedWeeklyRate },
+      {
+        weight: input.currentWeight,
+        height: input.height,
+        age,
+        gender: normalizedGender,
+        activityLevel: input.activityLevel as ActivityLevel,
+        primaryGoal: input.primaryGoal as PrimaryGoalValue,
+        targetWeight: input.targetWeight,
+        targetDate: new Date(input.targetDate),
+      }
+    );
+    const cappedProjection =
+      weeklyRate !== plannedWeeklyRate
+        ? scienceService.calculateProjection(input.currentWeight, input.targetWeight, weeklyRate)
+        : undefined;
+    const projection = cappedProjection
+      ? {
+          weeklyRate,
+          estimatedWeeks: cappedProjection.estimatedWeeks ?? 0,
+          projectedDate: cappedProjection.projectedDate ?? new Date(),
+        }
+      : { ...goalProjection, weeklyRate: plannedWeeklyRate };
+
+    // Split calories into macros according to dietary preferences
+    const macroProfile = scienceService.resolveMacroProfile(input.dietaryPreferences);
+    const targets = {
+      ...healthTargets,
+      calorieTarget,
+      ...scienceService.calculateMacroTargets(
+        calorieTarget,
+        healthTargets.proteinTarget,
+        input.currentWeight,
+        macroProfile
+      ),
+    };
+
     // Start transaction
     await db.transaction(async (tx) => {
       // 1. Upsert user settings
@@ -83,6 +144,9 @@ export class OnboardingService {
           calorieTarget: targets.calorieTarget,
           proteinTarget: targets.proteinTarget,
           waterTarget: targets.waterTarget,
+          carbsTarget: targets.carbsTarget,
+          fatTarget: targets.fatTarget,
+          fiberTarget: targets.fiberTarget,
           dietaryPreferences: input.dietaryPreferences,
           allergies: input.allergies,
           mealsPerDay: input.mealsPerDay,
@@ -105,6 +169,9 @@ export class OnboardingService {
             calorieTarget: targets.calorieTarget,
             proteinTarget: targets.proteinTarget,
             waterTarget: targets.waterTarget,
+            carbsTarget: targets.carbsTarget,
+            fatTarget: targets.fatTarget,
+            fiberTarget: targets.fiberTarget,
             dietaryPreferences: input.dietaryPreferences,
             allergies: input.allergies,
             mealsPerDay: input.mealsPerDay,
@@ -129,6 +196,9 @@ export class OnboardingService {
           calorieTarget: targets.calorieTarget,
           proteinTarget: targets.proteinTarget,
           waterTarget: targets.waterTarget,
+          carbsTarget: targets.carbsTarget,
+          fatTarget: targets.fatTarget,
+          fiberTarget: targets.fiberTarget,
           primaryGoal: input.primaryGoal,
           activityLevel: input.activityLevel,
         })
@@ -145,6 +215,9 @@ export class OnboardingService {
             calorieTarget: targets.calorieTarget,
             proteinTarget: targets.proteinTarget,
             waterTarget: targets.waterTarget,
+            carbsTarget: targets.carbsTarget,
+            fatTarget: targets.fatTarget,
+            fiberTarget: targets.fiberTarget,
             primaryGoal: input.primaryGoal,
             activityLevel: input.activityLevel,
           },
@@ -163,6 +236,7 @@ export class OnboardingService {
             email: partner.email || null,
             phone: partner.phone || null,
             relationship: partner.relationship || null,
+            canManageTargets: partner.canManageTargets ?? false,
           }))
         );
       }
@@ -172,6 +246,7 @@ export class OnboardingService {
       userId,
       settings: targets,
       projection,
+      warnings,
     };
   }
 
@@ -264,6 +339,21 @@ export class OnboardingService {
             unit: 'ml/day',
             explanation: `Staying hydrated supports metabolism and helps control appetite. Target is ~35ml per kg of body weight.`,
           },
+          carbs: {
+            value: settings.carbsTarget,
+            unit: 'grams/day',
+            explanation: `Carbs fuel your training and daily activity. Your target fills the calories left after protein and fat, adjusted for your dietary preferences.`,
+          },
+          fat: {
+            value: settings.fatTarget,
+            unit: 'grams/day',
+            explanation: `Dietary fat supports hormone health and vitamin absorption. Your target is a share of your calories that depends on your dietary preferences.`,
+          },
+          fiber: {
+            value: settings.fiberTarget,
+            unit: 'grams/day',
+            explanation: `Fiber supports digestion and keeps you full. Your target scales with your calorie intake.`,
+          },
         },
       },
       projection: {
@@ -4,7 +4,7 @@ import { setupTestDatabase, teardownTestDatabase } from '../../test/setup';
 import { db } from '../../db/connection';
 import { users, userSettings, plans } from '../../db/schema';
 import { generateAccessToken } from '../../utils/auth';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 
 const app = createApp();
 
@@ -523,3 +523,189 @@ describe('POST /v1/plans/generate', () => {
     });
   });
 });
+
+describe('Plan lifecycle', () => {
+  let testUserId: number;
+  let authToken: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+
+    const [user] = await db
+      .insert(users)
+      .values({
+        email: 'plan-lifecycle-test@example.com',
+        name: 'Plan Lifecycle Test',
+      })
+      .returning();
+
+    testUserId = user.id;
+    authToken = generateAccessToken({ userId: testUserId, email: user.email });
+  });
+
+  afterAll(async () => {
+    await db.delete(plans).where(eq(plans.userId, testUserId));
+    await db.delete(userSettings).where(eq(userSettings.userId, testUserId));
+    await db.delete(users).where(eq(users.id, testUserId));
+
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await db.delete(plans).where(eq(plans.userId, testUserId));
+    await db.delete(userSettings).where(eq(userSettings.userId, testUserId));
+
+    await db.insert(userSettings).values({
+      userId: testUserId,
+      dateOfBirth: new Date('1990-01-01'),
+      gender: 'female',
+      currentWeight: '70',
+      height: '165',
+      targetWeight: '65',
+      activityLevel: 'lightly_active',
+      primaryGoal: 'lose_weight',
+      onboardingCompleted: true,
+    });
+  });
+
+  it('should archive the previous active plan when a plan is regenerated', async () => {
+    const first = await request(app)
+      .post('/v1/plans/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    const second = await request(app)
+      .post('/v1/plans/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ forceRecompute: true });
+
+    expect(second.status).toBe(201);
+
+    const [previous] = await db.select().from(plans).where(eq(plans.id, first.body.data.plan.id));
+    expect(previous.status).toBe('archived');
+
+    const active = await db
+      .select()
+      .from(plans)
+      .where(and(eq(plans.userId, testUserId), eq(plans.status, 'active')));
+    expect(active).toHaveLength(1);
+    expect(active[0].id).toBe(second.body.data.plan.id);
+  });
+
+  it('should complete active plans whose week has ended', async () => {
+    const [pastPlan] = await db
+      .insert(plans)
+      .values({
+        userId: testUserId,
+        name: 'Weekly Plan - week of Jan 6, 2025',
+        planType: 'weekly',
+        startDate: new Date('2025-01-06T00:00:00Z'),
+        endDate: new Date('2025-01-12T23:59:59Z'),
+        status: 'active',
+      })
+      .returning();
+
+    await request(app)
+      .post('/v1/plans/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    const [closed] = await db.select().from(plans).where(eq(plans.id, pastPlan.id));
+    expect(closed.status).toBe('completed');
+    expect(closed.completedAt).not.toBeNull();
+    expect(closed.completionPercentage).toBe('0.00');
+  });
+
+  it('should preview a draft without changing the active plan or settings', async () => {
+    const active = await request(app)
+      .post('/v1/plans/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    await db
+      .update(userSettings)
+      .set({ activityLevel: 'very_active' })
+      .where(eq(userSettings.userId, testUserId));
+
+    const [settingsBefore] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, testUserId));
+
+    const draft = await request(app)
+      .post('/v1/plans/draft')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    expect(draft.status).toBe(201);
+    expect(draft.body.data.plan.status).toBe('draft');
+    expect(draft.body.data.whyItWorks).toBeDefined();
+    expect(draft.body.data.targets.calorieTarget).not.toBe(settingsBefore.calorieTarget);
+
+    const [settingsAfter] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, testUserId));
+    expect(settingsAfter.calorieTarget).toBe(settingsBefore.calorieTarget);
+
+    const [stillActive] = await db
+      .select()
+      .from(plans)
+      .where(eq(plans.id, active.body.data.plan.id));
+    expect(stillActive.status).toBe('active');
+  });
+
+  it('should replace the active plan when a draft is accepted', async () => {
+    const active = await request(app)
+      .post('/v1/plans/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    const draft = await request(app)
+      .post('/v1/plans/draft')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    const accepted = await request(app)
+      .post(`/v1/plans/${draft.body.data.plan.id}/accept`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.data.plan.status).toBe('active');
+
+    const [previous] = await db.select().from(plans).where(eq(plans.id, active.body.data.plan.id));
+    expect(previous.status).toBe('archived');
+  });
+
+  it('should discard a rejected draft', async () => {
+    const draft = await request(app)
+      .post('/v1/plans/draft')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    const rejected = await request(app)
+      .post(`/v1/plans/${draft.body.data.plan.id}/reject`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    expect(rejected.status).toBe(200);
+
+    const remaining = await db.select().from(plans).where(eq(plans.id, draft.body.data.plan.id));
+    expect(remaining).toHaveLength(0);
+  });
+
+  it('should return 409 when accepting a plan that is not a draft', async () => {
+    const active = await request(app)
+      .post('/v1/plans/generate')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    const response = await request(app)
+      .post(`/v1/plans/${active.body.data.plan.id}/accept`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({});
+
+    expect(response.status).toBe(409);
+  });
+});
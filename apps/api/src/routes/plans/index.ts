@@ -4,8 +4,17 @@ import { logger } from '../../config/logger';
 import { AppError } from '../../middleware/error';
 import { requireAuth } from '../../middleware/auth';
 import { strictLimiter } from '../../middleware/rateLimiter';
-import { planGenerationSchema, type PlanGenerationInput } from './schemas';
+import {
+  planGenerationSchema,
+  listPlansQuerySchema,
+  planIdParamSchema,
+  planDiffQuerySchema,
+  goalTransitionPreviewSchema,
+  type PlanGenerationInput,
+} from './schemas';
 import { PlansService } from './service';
+import { goalTransitionService } from '../../services/goal-transition';
+import { tasksCache } from '../tasks/cache';
 import { ZodError } from 'zod';
 
 const router = Router();
@@ -69,6 +78,9 @@ router.post(
         validatedInput.forceRecompute
       );
 
+      // A generated plan writes the rest of the week's tasks
+      await tasksCache.invalidateUserTasks(req.userId!);
+
       span.addEvent('plan_generated');
       span.setStatus({ code: SpanStatusCode.OK });
 
@@ -148,4 +160,617 @@ router.post(
   }
 );
 
+/**
+ * POST /v1/plans/draft
+ * Create a draft plan to preview before it replaces the active plan
+ *
+ * Response: Draft plan with targets, "Why it works" copy and current targets
+ * Rate Limit: 20 requests per minute (strict)
+ *
+ * @remarks
+ * - Does not change user_settings, tasks or the active plan
+ * - Replaces any earlier draft
+ */
+router.post(
+  '/plans/draft',
+  requireAuth,
+  strictLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/plans/draft');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/plans/draft',
+      });
+
+      const result = await plansService.createDraftPlan(req.userId!);
+
+      span.setAttributes({ 'plan.id': result.plan.id });
+      span.addEvent('draft_created');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error creating draft plan'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(
+            500,
+            `Failed to create draft plan for user ${req.userId}: ${errorMessage}`
+          )
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * POST /v1/plans/:planId/accept
+ * Accept a draft plan, making it the active plan
+ *
+ * Side effects:
+ * - Applies the draft's targets to user_settings and the plan snapshot
+ * - Generates the rest of the week's tasks
+ * - Completes or archives the previously active plan
+ * - Invalidates task cache
+ */
+router.post(
+  '/plans/:planId/accept',
+  requireAuth,
+  strictLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/plans/:planId/accept');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/plans/:planId/accept',
+      });
+
+      const { planId } = planIdParamSchema.parse(req.params);
+      span.setAttributes({ 'plan.id': planId });
+
+      const result = await plansService.acceptDraftPlan(req.userId!, planId);
+
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.addEvent('draft_accepted');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Accept draft plan validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error accepting draft plan'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(
+            500,
+            `Failed to accept draft plan for user ${req.userId}: ${errorMessage}`
+          )
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * POST /v1/plans/:planId/reject
+ * Reject (discard) a draft plan; the active plan is left unchanged
+ */
+router.post(
+  '/plans/:planId/reject',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/plans/:planId/reject');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/plans/:planId/reject',
+      });
+
+      const { planId } = planIdParamSchema.parse(req.params);
+      span.setAttributes({ 'plan.id': planId });
+
+      const result = await plansService.rejectDraftPlan(req.userId!, planId);
+
+      span.addEvent('draft_rejected');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Reject draft plan validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error rejecting draft plan'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(
+            500,
+            `Failed to reject draft plan for user ${req.userId}: ${errorMessage}`
+          )
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * POST /v1/plans/transition/preview
+ * Preview the phased schedule for switching to another primary goal
+ *
+ * Body:
+ * - primaryGoal: lose_weight | gain_muscle | maintain | improve_health
+ *
+ * Response: GoalTransition with the weekly phases (empty when the new targets apply right away)
+ *
+ * @remarks
+ * - Nothing is stored; the transition starts when the goal is changed with PUT /v1/profile
+ * - 400 when the goal is the current one
+ */
+router.post(
+  '/plans/transition/preview',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/plans/transition/preview');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/plans/transition/preview',
+      });
+
+      const { primaryGoal } = goalTransitionPreviewSchema.parse(req.body);
+      span.setAttributes({ 'transition.to_goal': primaryGoal });
+
+      const transition = await goalTransitionService.preview(req.userId!, primaryGoal);
+
+      span.setAttributes({
+        'transition.kind': transition.kind ?? 'immediate',
+        'transition.phases': transition.phases.length,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: transition,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Goal transition preview validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error previewing goal transition'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(
+            500,
+            `Failed to preview goal transition for user ${req.userId}: ${errorMessage}`
+          )
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * DELETE /v1/plans/transition
+ * End a goal transition early and switch to the new goal's targets now
+ *
+ * Side effects:
+ * - Deletes the phases that have not started
+ * - Generates a new plan with the new goal's targets, archiving the current phase
+ * - Invalidates task cache
+ *
+ * Response: Plan with targets and educational "Why it works" copy (404 if no transition is in
+ * progress)
+ */
+router.delete(
+  '/plans/transition',
+  requireAuth,
+  strictLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('DELETE /v1/plans/transition');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'DELETE',
+        'http.route': '/v1/plans/transition',
+      });
+
+      const ended = await plansService.endGoalTransition(req.userId!);
+      if (!ended) {
+        throw new AppError(404, 'No goal transition in progress');
+      }
+
+      const result = await plansService.generatePlan(req.userId!, true);
+
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.setAttributes({ 'plan.id': result.plan.id });
+      span.addEvent('transition_ended');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error ending goal transition'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(
+            500,
+            `Failed to end goal transition for user ${req.userId}: ${errorMessage}`
+          )
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * GET /v1/plans
+ * Paginated plan history for authenticated user (newest first)
+ *
+ * Query params:
+ * - limit: number (default 10, max 50)
+ * - offset: number (default 0)
+ * - status: active | completed | archived | draft | scheduled (optional)
+ *
+ * Response: Plans with status, completion percentage and target snapshots
+ */
+router.get(
+  '/plans',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/plans');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/plans',
+      });
+
+      const query = listPlansQuerySchema.parse(req.query);
+
+      span.setAttributes({
+        'query.limit': query.limit,
+        'query.offset': query.offset,
+        'query.status': query.status || 'all',
+      });
+
+      const result = await plansService.listPlans(req.userId!, query);
+
+      span.setAttributes({ 'response.count': result.plans.length });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Plan history query validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error listing plans'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(
+            500,
+            `Failed to list plans for user ${req.userId}: ${errorMessage}`
+          )
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * GET /v1/plans/:planId
+ * Get a single plan with its targets and task breakdown
+ */
+router.get(
+  '/plans/:planId',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/plans/:planId');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/plans/:planId',
+      });
+
+      const { planId } = planIdParamSchema.parse(req.params);
+      span.setAttributes({ 'plan.id': planId });
+
+      const plan = await plansService.getPlan(req.userId!, planId);
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: plan,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Plan ID validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error fetching plan'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(
+            500,
+            `Failed to fetch plan for user ${req.userId}: ${errorMessage}`
+          )
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * GET /v1/plans/:planId/diff
+ * Compare a plan's targets with another plan and explain what changed
+ *
+ * Query params:
+ * - compareTo: plan ID (optional, defaults to the previous plan)
+ *
+ * Response: Target changes (calories, protein, water, weekly rate) with the
+ * profile changes and weigh-ins logged between the two plans
+ */
+router.get(
+  '/plans/:planId/diff',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/plans/:planId/diff');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/plans/:planId/diff',
+      });
+
+      const { planId } = planIdParamSchema.parse(req.params);
+      const { compareTo } = planDiffQuerySchema.parse(req.query);
+      span.setAttributes({ 'plan.id': planId });
+
+      const diff = await plansService.diffPlans(req.userId!, planId, compareTo);
+
+      span.setAttributes({ 'plan.compare_to': diff.fromPlan.id });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: diff,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Plan diff validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error comparing plans'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(
+            500,
+            `Failed to compare plans for user ${req.userId}: ${errorMessage}`
+          )
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
 export default router;
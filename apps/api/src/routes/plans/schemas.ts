@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PlanStatus, PRIMARY_GOALS } from '@gtsd/shared-types';
 
 /**
  * Schema for plan generation request body
@@ -16,3 +17,61 @@ export const planGenerationSchema = z.object({
  * TypeScript type inferred from plan generation schema
  */
 export type PlanGenerationInput = z.infer<typeof planGenerationSchema>;
+
+/**
+ * Query parameters for GET /v1/plans
+ */
+export const listPlansQuerySchema = z.object({
+  limit: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .pipe(z.number().int().positive().max(50))
+    .default('10')
+    .describe('Maximum number of plans to return'),
+
+  offset: z
+    .string()
+    .regex(/^\d+$/)
+    .transform(Number)
+    .pipe(z.number().int().min(0))
+    .default('0')
+    .describe('Number of plans to skip for pagination'),
+
+  status: z.nativeEnum(PlanStatus).optional()
+    .describe('Filter by plan status'),
+});
+
+/**
+ * Path parameters for /v1/plans/:planId routes
+ */
+export const planIdParamSchema = z.object({
+  planId: z.coerce.number().int().positive('Plan ID must be a positive integer'),
+});
+
+/**
+ * Query parameters for GET /v1/plans/:planId/diff
+ */
+export const planDiffQuerySchema = z.object({
+  compareTo: z.coerce
+    .number()
+    .int()
+    .positive('compareTo must be a positive integer')
+    .optional()
+    .describe('Plan to compare against (defaults to the plan generated before this one)'),
+});
+
+/**
+ * Request body for POST /v1/plans/transition/preview
+ */
+export const goalTransitionPreviewSchema = z.object({
+  primaryGoal: z.enum(PRIMARY_GOALS).describe('Goal the user is considering switching to'),
+});
+
+/**
+ * TypeScript types inferred from plan history schemas
+ */
+export type ListPlansQuery = z.infer<typeof listPlansQuerySchema>;
+export type PlanIdParam = z.infer<typeof planIdParamSchema>;
+export type PlanDiffQuery = z.infer<typeof planDiffQuerySchema>;
+export type GoalTransitionPreviewInput = z.infer<typeof goalTransitionPreviewSchema>;
@@ -1,4 +1,4 @@
-import { PlansService } from './service';
+import { PlansService, buildPlanDiff } from './service';
 import { db } from '../../db/connection';
 import {
   users,
@@ -7,6 +7,7 @@ import {
   metricsAcknowledgements,
   plans,
   initialPlanSnapshot,
+  SelectPlan,
 } from '../../db/schema';
 import { eq } from 'drizzle-orm';
 import { AppError } from '../../middleware/error';
@@ -421,3 +422,132 @@ describe('PlansService - Metrics Acknowledgment Gating', () => {
     });
   });
 });
+
+describe('buildPlanDiff', () => {
+  const basePlan: SelectPlan = {
+    id: 1,
+    userId: 1,
+    name: 'Weekly Plan - week of Jan 6, 2025',
+    description: null,
+    planType: 'weekly',
+    startDate: new Date('2025-01-06T00:00:00Z'),
+    endDate: new Date('2025-01-12T23:59:59Z'),
+    status: 'completed',
+    totalTasks: 20,
+    completedTasks: 15,
+    completionPercentage: '75.00',
+    bmr: 1800,
+    tdee: 2500,
+    calorieTarget: 2000,
+    proteinTarget: 180,
+    waterTarget: 2900,
+    weeklyRate: '-0.50',
+    weightAtGeneration: '86.00',
+    transitionKind: null,
+    phaseNumber: null,
+    phaseCount: null,
+    periodization: null,
+    generatedAt: new Date('2025-01-06T08:00:00Z'),
+    completedAt: null,
+    createdAt: new Date('2025-01-06T08:00:00Z'),
+    updatedAt: new Date('2025-01-06T08:00:00Z'),
+  };
+
+  const nextPlan: SelectPlan = {
+    ...basePlan,
+    id: 2,
+    name: 'Weekly Plan - week of Jan 13, 2025',
+    calorieTarget: 1950,
+    proteinTarget: 176,
+    waterTarget: 2900,
+    weightAtGeneration: '84.20',
+    generatedAt: new Date('2025-01-13T08:00:00Z'),
+  };
+
+  it('should report only the targets that changed', () => {
+    const diff = buildPlanDiff(basePlan, nextPlan, []);
+
+    expect(diff.changes).toEqual([
+      { field: 'calorieTarget', from: 2000, to: 1950, delta: -50 },
+      { field: 'proteinTarget', from: 180, to: 176, delta: -4 },
+    ]);
+    expect(diff.fromPlan.id).toBe(1);
+    expect(diff.toPlan.id).toBe(2);
+  });
+
+  it('should explain changes with profile edits and weigh-ins', () => {
+    const diff = buildPlanDiff(basePlan, nextPlan, [
+      {
+        type: 'profile_change',
+        field: 'activityLevel',
+        oldValue: 'moderately_active',
+        newValue: 'lightly_active',
+        occurredAt: new Date('2025-01-08T10:00:00Z'),
+      },
+      {
+        type: 'weight_log',
+        field: 'weight',
+        oldValue: null,
+        newValue: '84.2',
+        occurredAt: new Date('2025-01-10T07:00:00Z'),
+      },
+    ]);
+
+    expect(diff.explanation).toContain('Calories went down by 50 kcal (2000 → 1950)');
+    expect(diff.explanation).toContain(
+      'You updated activityLevel from moderately_active to lightly_active'
+    );
+    expect(diff.explanation).toContain('You logged 1 weigh-in (latest 84.2 kg)');
+    expect(diff.explanation).toContain('Targets were computed from 84.2 kg instead of 86 kg');
+  });
+
+  it('should explain targets pinned or unpinned by hand', () => {
+    const diff = buildPlanDiff(basePlan, nextPlan, [
+      {
+        type: 'target_override',
+        field: 'calorieTarget',
+        oldValue: null,
+        newValue: '1950',
+        occurredAt: new Date('2025-01-08T10:00:00Z'),
+      },
+      {
+        type: 'target_override',
+        field: 'waterTarget',
+        oldValue: '3200',
+        newValue: null,
+        occurredAt: new Date('2025-01-09T10:00:00Z'),
+      },
+    ]);
+
+    expect(diff.explanation).toContain('Calories pinned by hand to 1950 kcal');
+    expect(diff.explanation).toContain(
+      'Water no longer pinned by hand; the calculated value applies again'
+    );
+    expect(diff.explanation[diff.explanation.length - 1]).not.toMatch(/recalculated/);
+  });
+
+  it('should attribute unexplained changes to recalculation', () => {
+    const diff = buildPlanDiff(basePlan, { ...nextPlan, weightAtGeneration: '86.00' }, []);
+
+    expect(diff.explanation[diff.explanation.length - 1]).toMatch(/recalculated/);
+  });
+
+  it('should report identical plans as unchanged', () => {
+    const diff = buildPlanDiff(basePlan, { ...basePlan, id: 3 }, []);
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.explanation).toEqual(['Targets did not change between these plans']);
+  });
+
+  it('should return a null delta when an older plan has no target snapshot', () => {
+    const legacyPlan: SelectPlan = { ...basePlan, calorieTarget: null };
+    const diff = buildPlanDiff(legacyPlan, nextPlan, []);
+
+    expect(diff.changes[0]).toEqual({
+      field: 'calorieTarget',
+      from: null,
+      to: 1950,
+      delta: null,
+    });
+  });
+});
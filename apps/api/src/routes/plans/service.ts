@@ -1,10 +1,38 @@
 import { db } from '../../db/connection';
-import { plans, userSettings, initialPlanSnapshot, SelectUserSettings } from '../../db/schema';
-import { eq, desc, sql } from 'drizzle-orm';
+import {
+  plans,
+  userSettings,
+  initialPlanSnapshot,
+  dailyTasks,
+  evidence,
+  profileChangeAudit,
+  SelectPlan,
+  SelectUserSettings,
+} from '../../db/schema';
+import { and, eq, desc, gt, inArray, isNotNull, lt, lte, ne, sql } from 'drizzle-orm';
 import { AppError } from '../../middleware/error';
 import { logger } from '../../config/logger';
 import { scienceService } from '../../services/science';
-import { startOfWeek, endOfWeek, subDays, format } from 'date-fns';
+import { adaptiveTdeeService } from '../../services/adaptive-tdee';
+import { toDietPeriodization } from '../../services/diet-periodization';
+import { evaluateSafetyGuardrails, weeklyRateForCalories } from '../../services/safety-guardrails';
+import {
+  applyTargetOverrides,
+  overrideAuditField,
+  parseOverrideAuditField,
+  targetOverrideService,
+} from '../../services/target-overrides';
+import { profileAuditService } from '../../services/profile-audit';
+import { diffTargets, PLAN_DIFF_FIELDS } from '../../services/target-diff';
+import {
+  taskGeneratorService,
+  type DbTransaction,
+  type TaskSyncResult,
+} from '../../services/task-generator';
+import { startOfWeek, endOfWeek, subDays, format, parseISO } from 'date-fns';
+import { getLocalDateString, getLocalDayBounds, getUserTimezone } from '../../utils/timezone';
+import { tasksCache } from '../tasks/cache';
+import type { ListPlansQuery } from './schemas';
 import type {
   PlanGenerationResponse,
   ComputedTargets,
@@ -13,8 +41,20 @@ import type {
   PrimaryGoalValue,
   ActivityLevelValue,
   GenderValue,
+  PlanChangeCause,
+  PlanDetail,
+  PlanDiff,
+  PlanHistoryItem,
+  PlanHistoryResponse,
+  AdaptiveTdeeEstimate,
+  GuardrailWarning,
+  TdeeSource,
+  GoalTransition,
+  GoalTransitionKind,
+  GoalTransitionPhase,
 } from '@gtsd/shared-types';
-import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { isImpactfulField } from '@gtsd/shared-types';
+import { trace, SpanStatusCode, type Span } from '@opentelemetry/api';
 
 const tracer = trace.getTracer('plans-service');
 
@@ -29,6 +69,193 @@ export interface RecomputeResult {
   previousProtein?: number;
   newProtein?: number;
   reason?: string;
+  tdeeSource?: TdeeSource;
+  adaptiveTdee?: AdaptiveTdeeEstimate;
+  warnings?: GuardrailWarning[];
+}
+
+/**
+ * Result of starting a goal transition
+ */
+export interface GoalTransitionStartResult extends RecomputeResult {
+  /** Plans created for the phases, first phase first */
+  plans: PlanHistoryItem[];
+}
+
+/**
+ * Inputs needed to activate a plan
+ */
+interface PlanActivationContext {
+  settings: SelectUserSettings;
+  targets: ComputedTargets;
+  scienceInputs: ScienceInputs;
+  timezone: string;
+}
+
+/**
+ * Plan name prefix for each kind of goal transition
+ */
+const TRANSITION_PLAN_NAMES: Record<GoalTransitionKind, string> = {
+  reverse_diet: 'Reverse Diet',
+  surplus_ramp_in: 'Surplus Ramp-In',
+  surplus_taper: 'Surplus Taper',
+};
+
+/**
+ * Plan columns that place a plan in a goal transition
+ */
+type PlanPhaseColumns = Pick<SelectPlan, 'transitionKind' | 'phaseNumber' | 'phaseCount'>;
+
+/**
+ * Parse a nullable decimal column
+ */
+function toNumber(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+/**
+ * Macro targets stored in user_settings, if any
+ */
+function toStoredMacroTargets(
+  settings: SelectUserSettings
+): Pick<ComputedTargets, 'carbsTarget' | 'fatTarget' | 'fiberTarget' | 'macroProfile'> {
+  if (settings.carbsTarget === null || settings.fatTarget === null || settings.fiberTarget === null) {
+    return {};
+  }
+
+  return {
+    carbsTarget: settings.carbsTarget,
+    fatTarget: settings.fatTarget,
+    fiberTarget: settings.fiberTarget,
+    macroProfile: scienceService.resolveMacroProfile((settings.dietaryPreferences as string[]) || []),
+  };
+}
+
+/**
+ * Map a plan row to its history representation
+ */
+function toPlanHistoryItem(plan: SelectPlan): PlanHistoryItem {
+  return {
+    id: plan.id,
+    name: plan.name,
+    planType: plan.planType,
+    startDate: plan.startDate,
+    endDate: plan.endDate,
+    status: plan.status,
+    totalTasks: plan.totalTasks,
+    completedTasks: plan.completedTasks,
+    completionPercentage: toNumber(plan.completionPercentage) ?? 0,
+    generatedAt: plan.generatedAt,
+    completedAt: plan.completedAt,
+    targets: {
+      bmr: plan.bmr,
+      tdee: plan.tdee,
+      calorieTarget: plan.calorieTarget,
+      proteinTarget: plan.proteinTarget,
+      waterTarget: plan.waterTarget,
+      weeklyRate: toNumber(plan.weeklyRate),
+      weightAtGeneration: toNumber(plan.weightAtGeneration),
+    },
+    phase:
+      plan.transitionKind && plan.phaseNumber !== null && plan.phaseCount !== null
+        ? {
+            kind: plan.transitionKind as GoalTransitionKind,
+            phaseNumber: plan.phaseNumber,
+            phaseCount: plan.phaseCount,
+          }
+        : null,
+    periodization: plan.periodization ?? null,
+  };
+}
+
+/**
+ * Whether a plan is a goal transition phase that still steps towards the new goal
+ * The last phase already holds the new goal's targets, so it is not
+ */
+function isRampPhase(plan: PlanPhaseColumns): boolean {
+  return (
+    plan.transitionKind !== null &&
+    plan.phaseNumber !== null &&
+    plan.phaseCount !== null &&
+    plan.phaseNumber < plan.phaseCount
+  );
+}
+
+/**
+ * Compare two plans' targets and explain the difference
+ *
+ * @param fromPlan - Baseline plan
+ * @param toPlan - Plan compared against the baseline
+ * @param causes - Profile changes and weigh-ins between the two generation times, oldest first
+ * @returns Target changes with human-readable explanation
+ *
+ * @remarks
+ * - Targets missing on either plan (plans generated before snapshots) produce a null delta
+ * - When targets changed but nothing was logged in between, the change is attributed
+ *   to recalculation (e.g. age or formula updates)
+ */
+export function buildPlanDiff(
+  fromPlan: SelectPlan,
+  toPlan: SelectPlan,
+  causes: PlanChangeCause[]
+): PlanDiff {
+  const from = toPlanHistoryItem(fromPlan).targets;
+  const to = toPlanHistoryItem(toPlan).targets;
+
+  const { changes, explanation } = diffTargets(from, to);
+
+  if (changes.length === 0) {
+    explanation.push('Targets did not change between these plans');
+  }
+
+  const profileChanges = causes.filter((cause) => cause.type === 'profile_change');
+  for (const cause of profileChanges) {
+    explanation.push(
+      `You updated ${cause.field} from ${cause.oldValue ?? 'unset'} to ${cause.newValue ?? 'unset'}`
+    );
+  }
+
+  const overrides = causes.filter((cause) => cause.type === 'target_override');
+  for (const cause of overrides) {
+    const { label, unit } = PLAN_DIFF_FIELDS.find((f) => f.field === cause.field)!;
+    explanation.push(
+      cause.newValue !== null
+        ? `${label} pinned by hand to ${cause.newValue}${unit}`
+        : `${label} no longer pinned by hand; the calculated value applies again`
+    );
+  }
+
+  const weighIns = causes.filter((cause) => cause.type === 'weight_log');
+  if (weighIns.length > 0) {
+    const latest = weighIns[weighIns.length - 1];
+    explanation.push(
+      `You logged ${weighIns.length} weigh-in${weighIns.length === 1 ? '' : 's'} (latest ${latest.newValue} kg)`
+    );
+  }
+
+  if (
+    from.weightAtGeneration !== null &&
+    to.weightAtGeneration !== null &&
+    from.weightAtGeneration !== to.weightAtGeneration
+  ) {
+    explanation.push(
+      `Targets were computed from ${to.weightAtGeneration} kg instead of ${from.weightAtGeneration} kg`
+    );
+  }
+
+  if (changes.length > 0 && causes.length === 0) {
+    explanation.push(
+      'No profile changes or weigh-ins were logged between these plans; targets were recalculated from your existing profile'
+    );
+  }
+
+  return {
+    fromPlan: { id: fromPlan.id, name: fromPlan.name, generatedAt: fromPlan.generatedAt },
+    toPlan: { id: toPlan.id, name: toPlan.name, generatedAt: toPlan.generatedAt },
+    changes,
+    causes,
+    explanation,
+  };
 }
 
 /**
@@ -45,11 +272,15 @@ export class PlansService {
    * @throws {AppError} If user settings not found or onboarding incomplete
    *
    * @remarks
-   * - Checks for existing plan within last 7 days
+   * - Checks for existing active plan within last 7 days
    * - Computes all health targets using ScienceService
    * - Updates user_settings with new BMR/TDEE/targets
    * - Updates initial_plan_snapshot with projection
    * - Creates new plan in plans table
+   * - Generates the remaining days' tasks for the plan (idempotent per week)
+   * - Completes past-week plans and archives superseded active plans
+   * - During a goal transition, a phase scheduled for this week is activated first, and a
+   *   forced recompute regenerates the current phase with its stepped targets
    * - Performance target: p95 < 300ms
    * - Logs without PII (userId only)
    */
@@ -66,31 +297,23 @@ export class PlansService {
       logger.info({ userId, forceRecompute }, 'Generating weekly plan');
 
       // 1. Check if user has settings and onboarding completed
-      const [settings] = await db
-        .select()
-        .from(userSettings)
-        .where(eq(userSettings.userId, userId))
-        .limit(1);
-
-      if (!settings) {
-        throw new AppError(404, 'User settings not found');
-      }
-
-      if (!settings.onboardingCompleted) {
-        throw new AppError(400, 'Please complete onboarding before generating a plan');
-      }
+      const settings = await this.getPlanningSettings(userId);
 
       span.addEvent('settings_validated');
 
       // 2. Check for recent plan (within last 7 days)
       if (!forceRecompute) {
+        // A goal transition phase due this week replaces last week's plan
+        await this.activateDuePhases(new Date(), userId);
+
         const sevenDaysAgo = subDays(new Date(), 7);
 
+        // Drafts and closed-out plans never count as the recent plan
         const [recentPlan] = await db
           .select()
           .from(plans)
           .where(
-            sql`${plans.userId} = ${userId} AND ${plans.startDate} >= ${sevenDaysAgo.toISOString()}`
+            sql`${plans.userId} = ${userId} AND ${plans.status} = 'active' AND ${plans.startDate} >= ${sevenDaysAgo.toISOString()}`
           )
           .orderBy(desc(plans.createdAt))
           .limit(1);
@@ -108,6 +331,7 @@ export class PlansService {
             calorieTarget: settings.calorieTarget || 0,
             proteinTarget: settings.proteinTarget || 0,
             waterTarget: settings.waterTarget || 0,
+            ...toStoredMacroTargets(settings),
             weeklyRate: 0, // Will be calculated from goal
           };
 
@@ -117,8 +341,36 @@ export class PlansService {
             currentTargets.weeklyRate = scienceService.calculateWeeklyRate(primaryGoal);
           }
 
-          // Get WhyItWorks explanation
+          // Stored calories are already capped, so re-run the guardrails from the goal-based
+          // target to recover the warnings and the capped weekly rate. Pinned targets need the
+          // formula values alongside and transition phases their own weekly rate, so those are
+          // recomputed in full.
           const scienceInputs = this.buildScienceInputs(settings);
+          const overrides = await targetOverrideService.getActiveOverrides(userId);
+          if (overrides.length > 0 || isRampPhase(recentPlan)) {
+            const pinnedTargets = await this.computeTargets(userId, settings);
+            currentTargets.weeklyRate = pinnedTargets.weeklyRate;
+            currentTargets.warnings = pinnedTargets.warnings;
+            currentTargets.overrides = pinnedTargets.overrides;
+          } else if (primaryGoal && currentTargets.tdee > 0) {
+            const { weeklyRate, warnings } = evaluateSafetyGuardrails(
+              {
+                ...currentTargets,
+                calorieTarget: scienceService.calculateCalorieTarget(
+                  currentTargets.tdee,
+                  primaryGoal
+                ),
+              },
+              scienceInputs
+            );
+            currentTargets.weeklyRate = weeklyRate;
+            currentTargets.warnings = warnings;
+          }
+
+          // The week's diet break and refeed days were settled when the plan was generated
+          currentTargets.periodization = recentPlan.periodization ?? undefined;
+
+          // Get WhyItWorks explanation
           const whyItWorks = scienceService.getWhyItWorksExplanation(currentTargets, scienceInputs);
 
           const duration = performance.now() - startTime;
@@ -145,18 +397,10 @@ export class PlansService {
       span.addEvent('no_recent_plan_or_force_recompute');
 
       // 3. Compute all targets using ScienceService
-      const previousTargets: ComputedTargets | undefined = settings.calorieTarget
-        ? {
-            bmr: settings.bmr || 0,
-            tdee: settings.tdee || 0,
-            calorieTarget: settings.calorieTarget || 0,
-            proteinTarget: settings.proteinTarget || 0,
-            waterTarget: settings.waterTarget || 0,
-            weeklyRate: 0,
-          }
-        : undefined;
+      const previousTargets = this.buildCurrentTargets(settings);
 
-      const newTargets = await scienceService.computeAllTargets(userId);
+      const phasePlan = await this.getCurrentPhasePlan(userId);
+      const newTargets = await this.computeTargets(userId, settings, phasePlan);
 
       span.addEvent('targets_computed');
 
@@ -164,76 +408,23 @@ export class PlansService {
       const currentWeight = settings.currentWeight
         ? parseFloat(settings.currentWeight.toString())
         : 0;
-      const snapshotTargetWeight = settings.targetWeight
-        ? parseFloat(settings.targetWeight.toString())
-        : currentWeight;
 
-      const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 }); // Monday
-      const weekEnd = endOfWeek(new Date(), { weekStartsOn: 1 }); // Sunday
-      const weekLabel = format(weekStart, 'MMM d, yyyy');
+      // Plan weeks and tasks are placed on the user's local calendar, starting today
+      const timezone = await getUserTimezone(userId);
+      const { weekStart, weekEnd, weekLabel } = this.getCurrentWeek(timezone);
 
       const scienceInputs = this.buildScienceInputs(settings);
       const whyItWorks = scienceService.getWhyItWorksExplanation(newTargets, scienceInputs);
       const description = this.buildPlanDescription(whyItWorks, newTargets);
 
-      // 4-6. Execute all database updates in a transaction for data consistency
+      // 4-8. Execute all database updates in a transaction for data consistency
       const newPlan = await db.transaction(async (tx) => {
-        // 4. Update user_settings with new targets
-        await tx
-          .update(userSettings)
-          .set({
-            bmr: newTargets.bmr,
-            tdee: newTargets.tdee,
-            calorieTarget: newTargets.calorieTarget,
-            proteinTarget: newTargets.proteinTarget,
-            waterTarget: newTargets.waterTarget,
-            updatedAt: new Date(),
-          })
-          .where(eq(userSettings.userId, userId));
-
-        span.addEvent('settings_updated');
-
-        // 5. Update or create initial_plan_snapshot
-        await tx
-          .insert(initialPlanSnapshot)
-          .values({
-            userId,
-            startWeight: currentWeight.toString(),
-            targetWeight: snapshotTargetWeight.toString(),
-            startDate: new Date(),
-            targetDate: newTargets.projectedDate || new Date(),
-            weeklyWeightChangeRate: newTargets.weeklyRate.toString(),
-            estimatedWeeks: newTargets.estimatedWeeks || null,
-            projectedCompletionDate: newTargets.projectedDate || null,
-            calorieTarget: newTargets.calorieTarget,
-            proteinTarget: newTargets.proteinTarget,
-            waterTarget: newTargets.waterTarget,
-            primaryGoal: settings.primaryGoal || 'maintain',
-            activityLevel: settings.activityLevel || 'sedentary',
-          })
-          .onConflictDoUpdate({
-            target: initialPlanSnapshot.userId,
-            set: {
-              targetWeight: snapshotTargetWeight.toString(),
-              weeklyWeightChangeRate: newTargets.weeklyRate.toString(),
-              estimatedWeeks: newTargets.estimatedWeeks || null,
-              projectedCompletionDate: newTargets.projectedDate || null,
-              calorieTarget: newTargets.calorieTarget,
-              proteinTarget: newTargets.proteinTarget,
-              waterTarget: newTargets.waterTarget,
-              primaryGoal: settings.primaryGoal || 'maintain',
-              activityLevel: settings.activityLevel || 'sedentary',
-            },
-          });
-
-        span.addEvent('snapshot_updated');
-
-        // 6. Create new plan in plans table
+        // 4. Create new plan in plans table
         const [plan] = await tx
           .insert(plans)
           .values({
             userId,
-            name: `Weekly Plan - week of ${weekLabel}`,
+            name: this.buildPlanName(weekLabel, phasePlan),
             description,
             planType: 'weekly',
             startDate: weekStart,
@@ -242,10 +433,20 @@ export class PlansService {
             totalTasks: 0,
             completedTasks: 0,
             completionPercentage: '0',
+            ...this.buildTargetSnapshot(newTargets, currentWeight),
+            ...this.buildPhaseColumns(phasePlan),
           })
           .returning();
 
-        return plan;
+        // 5-8. Apply targets, generate tasks and close out previous plans
+        const taskSync = await this.activatePlan(
+          tx,
+          plan,
+          { settings, targets: newTargets, scienceInputs, timezone },
+          span
+        );
+
+        return { ...plan, totalTasks: taskSync.totalTasks, completedTasks: taskSync.completedTasks };
       });
 
       span.addEvent('plan_created');
@@ -256,6 +457,7 @@ export class PlansService {
         'plan.id': newPlan.id,
         'plan.start_date': newPlan.startDate.toISOString(),
         'plan.end_date': newPlan.endDate.toISOString(),
+        'plan.total_tasks': newPlan.totalTasks,
         'targets.calories': newTargets.calorieTarget,
         'targets.protein': newTargets.proteinTarget,
         'response.time_ms': duration,
@@ -265,6 +467,7 @@ export class PlansService {
         {
           userId,
           planId: newPlan.id,
+          totalTasks: newPlan.totalTasks,
           calories: newTargets.calorieTarget,
           protein: newTargets.proteinTarget,
           recomputed: forceRecompute,
@@ -333,20 +536,25 @@ export class PlansService {
    * Recompute targets for a user and update if changed significantly
    *
    * @param userId - User ID to recompute for
+   * @param force - Update even if the change is not significant (e.g. a target was pinned)
    * @returns Recompute result with update status and changes
    *
    * @remarks
    * - Fetches current user_settings
    * - Computes new targets using ScienceService
+   * - Swaps in the adaptive TDEE (weight trend + logged intake) once there is enough data
+   * - Applies targets pinned by hand; expired pins are removed (and audited) first
+   * - Applies the current week's diet break (calories at maintenance) when one is scheduled
    * - Compares with current targets
-   * - Updates if changed by >50 calories OR >10g protein OR weight changed
+   * - Updates if changed by >50 calories OR >10g protein OR weight changed, or a pin expired
+   * - On update, rewrites the pending tasks left in the active plan and clears cached task lists
    * - Logs changes without PII
    */
-  async recomputeForUser(userId: number): Promise<RecomputeResult> {
+  async recomputeForUser(userId: number, force = false): Promise<RecomputeResult> {
     const span = tracer.startSpan('plans.recompute_for_user');
 
     try {
-      span.setAttributes({ 'user.id': userId });
+      span.setAttributes({ 'user.id': userId, 'recompute.force': force });
 
       logger.info({ userId }, 'Recomputing targets for user');
 
@@ -368,30 +576,55 @@ export class PlansService {
       // Store previous values
       const previousCalories = settings.calorieTarget || 0;
       const previousProtein = settings.proteinTarget || 0;
+      const previousCarbs = settings.carbsTarget || 0;
+      const previousFat = settings.fatTarget || 0;
+
+      // 2. Drop expired pins so the formula values take over again
+      const expiredOverrides = await targetOverrideService.removeExpired(userId);
 
-      // 2. Compute new targets
-      const newTargets = await scienceService.computeAllTargets(userId);
+      // 3. Compute new targets, preferring the adaptive TDEE when data allows
+      const newTargets = await this.computeTargets(userId, settings);
+      const tdeeSource = newTargets.tdeeSource!;
+      const adaptiveTdee = newTargets.adaptiveTdee!;
 
+      span.setAttributes({
+        'recompute.tdee_source': tdeeSource,
+        'recompute.tdee_confidence': adaptiveTdee.confidence,
+      });
       span.addEvent('targets_computed');
 
-      // 3. Compare with current targets
+      // 4. Compare with current targets
       const caloriesDiff = Math.abs(newTargets.calorieTarget - previousCalories);
       const proteinDiff = Math.abs(newTargets.proteinTarget - previousProtein);
+      const carbsDiff = Math.abs((newTargets.carbsTarget ?? 0) - previousCarbs);
+      const fatDiff = Math.abs((newTargets.fatTarget ?? 0) - previousFat);
 
       // Check if changes are significant
-      const shouldUpdate = caloriesDiff > 50 || proteinDiff > 10;
+      const shouldUpdate =
+        force ||
+        expiredOverrides.length > 0 ||
+        caloriesDiff > 50 ||
+        proteinDiff > 10 ||
+        carbsDiff > 15 ||
+        fatDiff > 10;
 
       if (!shouldUpdate) {
-        logger.info({ userId, caloriesDiff, proteinDiff }, 'No significant changes in targets');
+        logger.info(
+          { userId, caloriesDiff, proteinDiff, carbsDiff, fatDiff },
+          'No significant changes in targets'
+        );
 
         span.setStatus({ code: SpanStatusCode.OK });
         return {
           success: true,
           updated: false,
+          tdeeSource,
+          adaptiveTdee,
+          warnings: newTargets.warnings,
         };
       }
 
-      // 4. Update user_settings
+      // 5. Update user_settings
       await db
         .update(userSettings)
         .set({
@@ -400,13 +633,16 @@ export class PlansService {
           calorieTarget: newTargets.calorieTarget,
           proteinTarget: newTargets.proteinTarget,
           waterTarget: newTargets.waterTarget,
+          carbsTarget: newTargets.carbsTarget ?? null,
+          fatTarget: newTargets.fatTarget ?? null,
+          fiberTarget: newTargets.fiberTarget ?? null,
           updatedAt: new Date(),
         })
         .where(eq(userSettings.userId, userId));
 
       span.addEvent('settings_updated');
 
-      // 5. Update initial_plan_snapshot
+      // 6. Update initial_plan_snapshot
       await db
         .update(initialPlanSnapshot)
         .set({
@@ -416,12 +652,40 @@ export class PlansService {
           calorieTarget: newTargets.calorieTarget,
           proteinTarget: newTargets.proteinTarget,
           waterTarget: newTargets.waterTarget,
+          carbsTarget: newTargets.carbsTarget ?? null,
+          fatTarget: newTargets.fatTarget ?? null,
+          fiberTarget: newTargets.fiberTarget ?? null,
         })
         .where(eq(initialPlanSnapshot.userId, userId));
 
       span.addEvent('snapshot_updated');
 
-      // 6. Build reason string
+      // 7. Carry the new targets into the rest of the week's tasks
+      const taskSync = await this.resyncActivePlanTasks(userId, settings, newTargets);
+      if (taskSync) {
+        span.addEvent('plan_tasks_synced', { 'tasks.total': taskSync.totalTasks });
+      }
+      await tasksCache.invalidateUserTasks(userId);
+
+      if (expiredOverrides.length > 0) {
+        await profileAuditService.logChanges(
+          userId,
+          expiredOverrides.map((override) => ({
+            fieldName: overrideAuditField(override.field),
+            oldValue: override.value,
+            newValue: null,
+          })),
+          {
+            triggeredPlanRegeneration: true,
+            caloriesBefore: previousCalories,
+            caloriesAfter: newTargets.calorieTarget,
+            proteinBefore: previousProtein,
+            proteinAfter: newTargets.proteinTarget,
+          }
+        );
+      }
+
+      // 8. Build reason string
       const reasons: string[] = [];
       if (caloriesDiff > 50) {
         reasons.push(`calories changed by ${caloriesDiff}kcal`);
@@ -429,6 +693,28 @@ export class PlansService {
       if (proteinDiff > 10) {
         reasons.push(`protein changed by ${proteinDiff}g`);
       }
+      if (carbsDiff > 15) {
+        reasons.push(`carbs changed by ${carbsDiff}g`);
+      }
+      if (fatDiff > 10) {
+        reasons.push(`fat changed by ${fatDiff}g`);
+      }
+      if (tdeeSource === 'adaptive') {
+        reasons.push(`using adaptive TDEE (${adaptiveTdee.confidence} confidence)`);
+      }
+      if (expiredOverrides.length > 0) {
+        reasons.push(
+          `override expired for ${expiredOverrides.map((override) => override.field).join(', ')}`
+        );
+      }
+      if (newTargets.overrides) {
+        reasons.push(
+          `pinned by hand: ${newTargets.overrides.map((override) => override.field).join(', ')}`
+        );
+      }
+      if (newTargets.periodization?.dietBreakWeek) {
+        reasons.push('diet break week at maintenance');
+      }
 
       const reason = reasons.join(', ');
 
@@ -439,6 +725,7 @@ export class PlansService {
           newCalories: newTargets.calorieTarget,
           previousProtein,
           newProtein: newTargets.proteinTarget,
+          tdeeSource,
           reason,
         },
         'User targets updated during recompute'
@@ -447,6 +734,9 @@ export class PlansService {
       span.setAttributes({
         'recompute.calories_diff': caloriesDiff,
         'recompute.protein_diff': proteinDiff,
+        'recompute.carbs_diff': carbsDiff,
+        'recompute.fat_diff': fatDiff,
+        'recompute.overrides': newTargets.overrides?.length ?? 0,
         'recompute.updated': true,
       });
 
@@ -460,6 +750,9 @@ export class PlansService {
         previousProtein,
         newProtein: newTargets.proteinTarget,
         reason,
+        tdeeSource,
+        adaptiveTdee,
+        warnings: newTargets.warnings,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -489,6 +782,1188 @@ export class PlansService {
     }
   }
 
+  /**
+   * Create a draft plan the user can preview before it replaces the active plan
+   *
+   * @param userId - User ID to draft a plan for
+   * @returns Draft plan with freshly computed targets, WhyItWorks copy and current targets
+   * @throws {AppError} If user settings not found or onboarding incomplete
+   *
+   * @remarks
+   * - Nothing user-facing changes until the draft is accepted: user_settings,
+   *   initial_plan_snapshot and tasks are left untouched
+   * - Any earlier draft is replaced, so a user has at most one draft
+   * - During a goal transition the draft keeps the current phase's stepped targets
+   */
+  async createDraftPlan(userId: number): Promise<PlanGenerationResponse> {
+    const span = tracer.startSpan('plans.create_draft_plan');
+
+    try {
+      span.setAttributes({ 'user.id': userId });
+
+      const settings = await this.getPlanningSettings(userId);
+      const phasePlan = await this.getCurrentPhasePlan(userId);
+      const newTargets = await this.computeTargets(userId, settings, phasePlan);
+      const scienceInputs = this.buildScienceInputs(settings);
+      const whyItWorks = scienceService.getWhyItWorksExplanation(newTargets, scienceInputs);
+      const timezone = await getUserTimezone(userId);
+      const { weekStart, weekEnd, weekLabel } = this.getCurrentWeek(timezone);
+      const currentWeight = settings.currentWeight
+        ? parseFloat(settings.currentWeight.toString())
+        : 0;
+
+      const draft = await db.transaction(async (tx) => {
+        await tx.delete(plans).where(and(eq(plans.userId, userId), eq(plans.status, 'draft')));
+
+        const [plan] = await tx
+          .insert(plans)
+          .values({
+            userId,
+            name: `Draft Plan - week of ${weekLabel}`,
+            description: this.buildPlanDescription(whyItWorks, newTargets),
+            planType: 'weekly',
+            startDate: weekStart,
+            endDate: weekEnd,
+            status: 'draft',
+            ...this.buildTargetSnapshot(newTargets, currentWeight),
+            ...this.buildPhaseColumns(phasePlan),
+          })
+          .returning();
+
+        return plan;
+      });
+
+      logger.info(
+        { userId, planId: draft.id, calories: newTargets.calorieTarget },
+        'Draft plan created'
+      );
+
+      span.setAttributes({ 'plan.id': draft.id });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return {
+        plan: {
+          id: draft.id,
+          userId: draft.userId,
+          name: draft.name,
+          description: draft.description || '',
+          startDate: draft.startDate,
+          endDate: draft.endDate,
+          status: draft.status,
+        },
+        targets: newTargets,
+        whyItWorks,
+        recomputed: true,
+        previousTargets: this.buildCurrentTargets(settings),
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Accept a draft plan, making it the active plan
+   *
+   * @param userId - Authenticated user ID
+   * @param planId - Draft plan to accept
+   * @returns The activated plan with its targets and WhyItWorks copy
+   * @throws {AppError} 404 if not found, 409 if the plan is not a draft or its targets are out of date
+   *
+   * @remarks
+   * - Targets are recomputed and must still match the previewed draft; if the profile
+   *   changed since the draft was created the user must review a new draft
+   * - Applies the same updates as plan generation (settings, snapshot, tasks, close-out)
+   */
+  async acceptDraftPlan(userId: number, planId: number): Promise<PlanGenerationResponse> {
+    const span = tracer.startSpan('plans.accept_draft_plan');
+
+    try {
+      span.setAttributes({ 'user.id': userId, 'plan.id': planId });
+
+      const draft = await this.getOwnedPlan(userId, planId);
+      if (draft.status !== 'draft') {
+        throw new AppError(409, `Plan ${planId} is not a draft`);
+      }
+
+      const settings = await this.getPlanningSettings(userId);
+      const newTargets = await this.computeTargets(userId, settings);
+
+      if (
+        newTargets.calorieTarget !== draft.calorieTarget ||
+        newTargets.proteinTarget !== draft.proteinTarget ||
+        newTargets.waterTarget !== draft.waterTarget
+      ) {
+        throw new AppError(
+          409,
+          `Draft plan ${planId} is out of date because your profile changed. Please create a new draft.`
+        );
+      }
+
+      const previousTargets = this.buildCurrentTargets(settings);
+      const scienceInputs = this.buildScienceInputs(settings);
+      const whyItWorks = scienceService.getWhyItWorksExplanation(newTargets, scienceInputs);
+      const timezone = await getUserTimezone(userId);
+      // Drafts are always activated for the current week, even if previewed last week
+      const { weekStart, weekEnd, weekLabel } = this.getCurrentWeek(timezone);
+
+      const activated = await db.transaction(async (tx) => {
+        const [plan] = await tx
+          .update(plans)
+          .set({
+            status: 'active',
+            name: this.buildPlanName(weekLabel, draft),
+            startDate: weekStart,
+            endDate: weekEnd,
+            generatedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(plans.id, planId), eq(plans.status, 'draft')))
+          .returning();
+
+        if (!plan) {
+          throw new AppError(409, `Plan ${planId} is not a draft`);
+        }
+
+        const taskSync = await this.activatePlan(
+          tx,
+          plan,
+          { settings, targets: newTargets, scienceInputs, timezone },
+          span
+        );
+
+        return { ...plan, totalTasks: taskSync.totalTasks, completedTasks: taskSync.completedTasks };
+      });
+
+      logger.info(
+        { userId, planId, totalTasks: activated.totalTasks },
+        'Draft plan accepted'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return {
+        plan: {
+          id: activated.id,
+          userId: activated.userId,
+          name: activated.name,
+          description: activated.description || '',
+          startDate: activated.startDate,
+          endDate: activated.endDate,
+          status: activated.status,
+        },
+        targets: newTargets,
+        whyItWorks,
+        recomputed: true,
+        previousTargets,
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Reject (discard) a draft plan
+   *
+   * @param userId - Authenticated user ID
+   * @param planId - Draft plan to reject
+   * @throws {AppError} 404 if not found, 409 if the plan is not a draft
+   */
+  async rejectDraftPlan(userId: number, planId: number): Promise<{ id: number }> {
+    const draft = await this.getOwnedPlan(userId, planId);
+    if (draft.status !== 'draft') {
+      throw new AppError(409, `Plan ${planId} is not a draft`);
+    }
+
+    await db.delete(plans).where(and(eq(plans.id, planId), eq(plans.status, 'draft')));
+
+    logger.info({ userId, planId }, 'Draft plan rejected');
+
+    return { id: planId };
+  }
+
+  /**
+   * Complete every active plan whose week has ended
+   * Called by the plan lifecycle job
+   *
+   * @param now - Reference time (defaults to now)
+   * @returns Number of plans completed
+   */
+  async completeExpiredPlans(now: Date = new Date()): Promise<number> {
+    const expired = await db
+      .select({ id: plans.id, userId: plans.userId })
+      .from(plans)
+      .where(and(eq(plans.status, 'active'), lt(plans.endDate, now)));
+
+    let completed = 0;
+    for (const plan of expired) {
+      try {
+        await db.transaction(async (tx) => {
+          await this.closeOutPlan(tx, plan.id, 'completed', now);
+        });
+        completed++;
+      } catch (error) {
+        logger.error(
+          { err: error, userId: plan.userId, planId: plan.id },
+          'Failed to complete expired plan'
+        );
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Store a goal transition as weekly plans and start its first phase
+   *
+   * @param userId - User ID; user_settings must already hold the new goal
+   * @param transition - Schedule from GoalTransitionService
+   * @returns Previous and new targets like a recompute, with the plans created for the phases
+   * @throws {AppError} 400 if the transition has no phases
+   *
+   * @remarks
+   * - Phase 1 covers the current week and is activated right away (settings, snapshot, tasks,
+   *   close-out); later phases are stored as 'scheduled' and activated by the plan lifecycle
+   *   job or the next plan request in their week
+   * - Phases of an earlier transition that have not started yet are replaced
+   */
+  async startGoalTransition(
+    userId: number,
+    transition: GoalTransition
+  ): Promise<GoalTransitionStartResult> {
+    const span = tracer.startSpan('plans.start_goal_transition');
+
+    try {
+      const { kind, phases, finalTargets } = transition;
+
+      span.setAttributes({
+        'user.id': userId,
+        'transition.kind': kind ?? 'immediate',
+        'transition.phases': phases.length,
+      });
+
+      if (!kind || phases.length === 0) {
+        throw new AppError(400, 'This goal change has no phases; the new targets apply right away');
+      }
+
+      const settings = await this.getPlanningSettings(userId);
+      const scienceInputs = this.buildScienceInputs(settings);
+      const timezone = await getUserTimezone(userId);
+      const currentWeight = settings.currentWeight
+        ? parseFloat(settings.currentWeight.toString())
+        : 0;
+      const firstTargets = this.buildPhaseTargets(finalTargets, phases[0]);
+
+      const created = await db.transaction(async (tx) => {
+        await tx.delete(plans).where(and(eq(plans.userId, userId), eq(plans.status, 'scheduled')));
+
+        const phasePlans = await tx
+          .insert(plans)
+          .values(
+            phases.map((phase) => {
+              const targets = this.buildPhaseTargets(finalTargets, phase);
+              const phaseColumns = {
+                transitionKind: kind,
+                phaseNumber: phase.phaseNumber,
+                phaseCount: phases.length,
+              };
+
+              return {
+                userId,
+                name: this.buildPlanName(format(phase.startDate, 'MMM d, yyyy'), phaseColumns),
+                description: this.buildPlanDescription(
+                  scienceService.getWhyItWorksExplanation(targets, scienceInputs),
+                  targets
+                ),
+                planType: 'weekly',
+                startDate: phase.startDate,
+                endDate: phase.endDate,
+                status: phase.phaseNumber === 1 ? ('active' as const) : ('scheduled' as const),
+                ...this.buildTargetSnapshot(targets, currentWeight),
+                ...phaseColumns,
+              };
+            })
+          )
+          .returning();
+
+        phasePlans.sort((a, b) => (a.phaseNumber ?? 0) - (b.phaseNumber ?? 0));
+        const [first, ...scheduled] = phasePlans;
+
+        const taskSync = await this.activatePlan(
+          tx,
+          first,
+          { settings, targets: firstTargets, scienceInputs, timezone },
+          span
+        );
+
+        return [{ ...first, ...taskSync }, ...scheduled];
+      });
+
+      logger.info(
+        {
+          userId,
+          kind,
+          phases: phases.length,
+          previousCalories: settings.calorieTarget,
+          newCalories: firstTargets.calorieTarget,
+          finalCalories: finalTargets.calorieTarget,
+        },
+        'Goal transition started'
+      );
+
+      span.setAttributes({ 'plan.id': created[0].id });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return {
+        success: true,
+        updated: true,
+        previousCalories: settings.calorieTarget || 0,
+        newCalories: firstTargets.calorieTarget,
+        previousProtein: settings.proteinTarget || 0,
+        newProtein: firstTargets.proteinTarget,
+        reason: `${kind} started over ${phases.length} weeks`,
+        tdeeSource: finalTargets.tdeeSource,
+        adaptiveTdee: finalTargets.adaptiveTdee,
+        warnings: finalTargets.warnings,
+        plans: created.map(toPlanHistoryItem),
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * End a goal transition early
+   *
+   * @param userId - User ID
+   * @returns Whether a transition was in progress
+   *
+   * @remarks
+   * Deletes the phases that have not started and marks the active phase as the last, so the
+   * new goal's targets apply from the next recompute or plan generation. Targets are not
+   * recomputed here.
+   */
+  async endGoalTransition(userId: number): Promise<boolean> {
+    const { removed, ended } = await db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(plans)
+        .where(and(eq(plans.userId, userId), eq(plans.status, 'scheduled')))
+        .returning({ id: plans.id });
+
+      const ended = await tx
+        .update(plans)
+        .set({ phaseCount: sql`${plans.phaseNumber}`, updatedAt: new Date() })
+        .where(
+          and(
+            eq(plans.userId, userId),
+            eq(plans.status, 'active'),
+            isNotNull(plans.transitionKind),
+            lt(plans.phaseNumber, plans.phaseCount)
+          )
+        )
+        .returning({ id: plans.id });
+
+      return { removed: removed.length, ended: ended.length };
+    });
+
+    if (removed === 0 && ended === 0) {
+      return false;
+    }
+
+    logger.info({ userId, removedPhases: removed }, 'Goal transition ended early');
+    return true;
+  }
+
+  /**
+   * Activate goal transition phases whose week has started
+   * Called by the plan lifecycle job, and for a single user before returning their plan
+   *
+   * @param now - Reference time (defaults to now)
+   * @param userId - Only activate this user's phases
+   * @returns Number of phases activated
+   *
+   * @remarks
+   * - The phase's stepped calories and protein are applied on top of freshly computed targets,
+   *   so adaptive TDEE, water and pins stay current
+   * - When several phases are due (the user was away), the latest is activated and the
+   *   skipped ones are archived
+   */
+  async activateDuePhases(now: Date = new Date(), userId?: number): Promise<number> {
+    const due = await db
+      .select()
+      .from(plans)
+      .where(
+        and(
+          eq(plans.status, 'scheduled'),
+          lte(plans.startDate, now),
+          userId === undefined ? undefined : eq(plans.userId, userId)
+        )
+      )
+      .orderBy(plans.userId, plans.startDate);
+
+    const duePhasesByUser = new Map<number, SelectPlan[]>();
+    for (const plan of due) {
+      duePhasesByUser.set(plan.userId, [...(duePhasesByUser.get(plan.userId) ?? []), plan]);
+    }
+
+    let activated = 0;
+    for (const [phaseUserId, userPhases] of duePhasesByUser) {
+      const span = tracer.startSpan('plans.activate_phase');
+      const phasePlan = userPhases[userPhases.length - 1];
+      const skipped = userPhases.slice(0, -1).map((plan) => plan.id);
+
+      try {
+        span.setAttributes({
+          'user.id': phaseUserId,
+          'plan.id': phasePlan.id,
+          'transition.phase': phasePlan.phaseNumber ?? 0,
+        });
+
+        const settings = await this.getPlanningSettings(phaseUserId);
+        const targets = await this.computeTargets(
+          phaseUserId,
+          settings,
+          isRampPhase(phasePlan) ? phasePlan : null
+        );
+        const scienceInputs = this.buildScienceInputs(settings);
+        const timezone = await getUserTimezone(phaseUserId);
+        const currentWeight = settings.currentWeight
+          ? parseFloat(settings.currentWeight.toString())
+          : 0;
+
+        const promoted = await db.transaction(async (tx) => {
+          if (skipped.length > 0) {
+            await tx
+              .update(plans)
+              .set({ status: 'archived', updatedAt: now })
+              .where(and(inArray(plans.id, skipped), eq(plans.status, 'scheduled')));
+          }
+
+          // Calories and protein stay as scheduled so the phase keeps its place in the ramp
+          const [plan] = await tx
+            .update(plans)
+            .set({
+              status: 'active',
+              bmr: targets.bmr,
+              tdee: targets.tdee,
+              weeklyRate: targets.weeklyRate.toString(),
+              weightAtGeneration: currentWeight ? currentWeight.toString() : null,
+              generatedAt: now,
+              updatedAt: now,
+            })
+            .where(and(eq(plans.id, phasePlan.id), eq(plans.status, 'scheduled')))
+            .returning();
+
+          if (!plan) {
+            return false;
+          }
+
+          await this.activatePlan(tx, plan, { settings, targets, scienceInputs, timezone }, span);
+          return true;
+        });
+
+        if (promoted) {
+          activated++;
+          logger.info(
+            {
+              userId: phaseUserId,
+              planId: phasePlan.id,
+              phase: phasePlan.phaseNumber,
+              phaseCount: phasePlan.phaseCount,
+              skippedPhases: skipped.length,
+              calories: targets.calorieTarget,
+            },
+            'Goal transition phase activated'
+          );
+        }
+
+        span.setStatus({ code: SpanStatusCode.OK });
+      } catch (error) {
+        span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        span.recordException(error as Error);
+        logger.error(
+          { err: error, userId: phaseUserId, planId: phasePlan.id },
+          'Failed to activate goal transition phase'
+        );
+      } finally {
+        span.end();
+      }
+    }
+
+    return activated;
+  }
+
+  /**
+   * List a user's plans, newest first
+   *
+   * @param userId - Authenticated user ID
+   * @param query - Pagination and optional status filter
+   * @returns Page of plans with completion and target snapshots
+   */
+  async listPlans(userId: number, query: ListPlansQuery): Promise<PlanHistoryResponse> {
+    const span = tracer.startSpan('plans.list_plans');
+
+    try {
+      span.setAttributes({
+        'user.id': userId,
+        'query.limit': query.limit,
+        'query.offset': query.offset,
+        'query.status': query.status || 'all',
+      });
+
+      const where = and(
+        eq(plans.userId, userId),
+        query.status ? eq(plans.status, query.status) : undefined
+      );
+
+      const [rows, [{ total }]] = await Promise.all([
+        db
+          .select()
+          .from(plans)
+          .where(where)
+          .orderBy(desc(plans.generatedAt), desc(plans.id))
+          .limit(query.limit)
+          .offset(query.offset),
+        db
+          .select({ total: sql<number>`count(*)::int` })
+          .from(plans)
+          .where(where),
+      ]);
+
+      span.setAttributes({ 'response.count': rows.length, 'response.total': total });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return {
+        plans: rows.map(toPlanHistoryItem),
+        total,
+        limit: query.limit,
+        offset: query.offset,
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Get a single plan with its task breakdown
+   *
+   * @param userId - Authenticated user ID
+   * @param planId - Plan to fetch
+   * @returns Plan detail
+   * @throws {AppError} 404 if the plan does not exist or belongs to another user
+   */
+  async getPlan(userId: number, planId: number): Promise<PlanDetail> {
+    const plan = await this.getOwnedPlan(userId, planId);
+
+    const statusCounts = await db
+      .select({ status: dailyTasks.status, count: sql<number>`count(*)::int` })
+      .from(dailyTasks)
+      .where(eq(dailyTasks.planId, planId))
+      .groupBy(dailyTasks.status);
+
+    const tasksByStatus: Record<string, number> = {
+      pending: 0,
+      in_progress: 0,
+      completed: 0,
+      skipped: 0,
+    };
+    for (const row of statusCounts) {
+      tasksByStatus[row.status] = row.count;
+    }
+
+    return {
+      ...toPlanHistoryItem(plan),
+      description: plan.description || '',
+      tasksByStatus,
+    };
+  }
+
+  /**
+   * Compare a plan's targets with another plan and explain what changed
+   *
+   * @param userId - Authenticated user ID
+   * @param planId - Plan to explain
+   * @param compareTo - Baseline plan (defaults to the plan generated before planId)
+   * @returns Target changes with the profile edits and weigh-ins behind them
+   * @throws {AppError} 404 if either plan is missing or there is no earlier plan to compare with
+   *
+   * @remarks
+   * - Causes are collected between the two plans' generatedAt timestamps
+   * - Only profile fields that feed target computation are reported
+   */
+  async diffPlans(userId: number, planId: number, compareTo?: number): Promise<PlanDiff> {
+    const span = tracer.startSpan('plans.diff_plans');
+
+    try {
+      span.setAttributes({ 'user.id': userId, 'plan.id': planId });
+
+      const toPlan = await this.getOwnedPlan(userId, planId);
+
+      let fromPlan: SelectPlan | undefined;
+      if (compareTo !== undefined) {
+        fromPlan = await this.getOwnedPlan(userId, compareTo);
+      } else {
+        [fromPlan] = await db
+          .select()
+          .from(plans)
+          .where(and(eq(plans.userId, userId), lt(plans.generatedAt, toPlan.generatedAt)))
+          .orderBy(desc(plans.generatedAt))
+          .limit(1);
+
+        if (!fromPlan) {
+          throw new AppError(404, `No earlier plan to compare with plan ${planId}`);
+        }
+      }
+
+      span.setAttributes({ 'plan.compare_to': fromPlan.id });
+
+      const [windowStart, windowEnd] =
+        fromPlan.generatedAt <= toPlan.generatedAt
+          ? [fromPlan.generatedAt, toPlan.generatedAt]
+          : [toPlan.generatedAt, fromPlan.generatedAt];
+
+      const causes = await this.getPlanChangeCauses(userId, windowStart, windowEnd);
+      const diff = buildPlanDiff(fromPlan, toPlan, causes);
+
+      span.setAttributes({
+        'diff.changes': diff.changes.length,
+        'diff.causes': diff.causes.length,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return diff;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Load user settings and verify the user can have a plan
+   * @throws {AppError} 404 if settings not found, 400 if onboarding incomplete
+   */
+  private async getPlanningSettings(userId: number): Promise<SelectUserSettings> {
+    const [settings] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId))
+      .limit(1);
+
+    if (!settings) {
+      throw new AppError(404, 'User settings not found');
+    }
+
+    if (!settings.onboardingCompleted) {
+      throw new AppError(400, 'Please complete onboarding before generating a plan');
+    }
+
+    return settings;
+  }
+
+  /**
+   * Compute targets, swapping in the adaptive TDEE once there is enough logged data,
+   * then the stepped targets of a goal transition phase, the values pinned by hand and
+   * the current week's diet break or refeed days
+   * Keeps plan generation, drafts and recompute on the same TDEE source, safety guardrails,
+   * transition schedule, overrides and periodization
+   *
+   * @param phasePlan - Transition phase to apply; looked up from the active plan when omitted,
+   *   null for none
+   */
+  private async computeTargets(
+    userId: number,
+    settings: SelectUserSettings,
+    phasePlan?: SelectPlan | null
+  ): Promise<ComputedTargets> {
+    const formulaTargets = await scienceService.computeAllTargets(userId);
+    const adaptiveTdee = await adaptiveTdeeService.estimateForUser(userId);
+    const overrides = await targetOverrideService.getActiveOverrides(userId);
+    const phase = phasePlan === undefined ? await this.getCurrentPhasePlan(userId) : phasePlan;
+    const scienceInputs = this.buildScienceInputs(settings);
+
+    const targets = scienceService.applyAdaptiveTdee(formulaTargets, adaptiveTdee, scienceInputs);
+
+    const overriddenTargets = applyTargetOverrides(
+      phase ? this.applyTransitionPhase(targets, phase) : targets,
+      overrides,
+      scienceInputs
+    );
+
+    return scienceService.applyDietPeriodization(overriddenTargets, scienceInputs, new Date());
+  }
+
+  /**
+   * Rewrite the pending tasks left in the user's active plan with updated targets
+   *
+   * @returns Task totals for the plan, or null when no active plan covers today
+   *
+   * @remarks
+   * Tasks from today to the end of the plan are synced; completed and skipped tasks keep
+   * their status and evidence
+   */
+  private async resyncActivePlanTasks(
+    userId: number,
+    settings: SelectUserSettings,
+    targets: ComputedTargets
+  ): Promise<TaskSyncResult | null> {
+    const [plan] = await db
+      .select()
+      .from(plans)
+      .where(
+        and(eq(plans.userId, userId), eq(plans.status, 'active'), gt(plans.endDate, new Date()))
+      )
+      .orderBy(desc(plans.createdAt))
+      .limit(1);
+
+    if (!plan) {
+      return null;
+    }
+
+    const timezone = await getUserTimezone(userId);
+    const scienceInputs = this.buildScienceInputs(settings);
+    const currentWeight = settings.currentWeight
+      ? parseFloat(settings.currentWeight.toString())
+      : undefined;
+
+    const taskSync = await db.transaction((tx) =>
+      taskGeneratorService.syncPlanTasks(tx, {
+        userId,
+        planId: plan.id,
+        targets,
+        primaryGoal: scienceInputs.primaryGoal,
+        activityLevel: scienceInputs.activityLevel,
+        mealsPerDay: settings.mealsPerDay || 3,
+        dietaryPreferences: (settings.dietaryPreferences as string[]) || [],
+        currentWeight,
+        timezone,
+        startDate: getLocalDateString(timezone),
+        endDate: getLocalDateString(timezone, plan.endDate),
+      })
+    );
+
+    logger.info(
+      { userId, planId: plan.id, created: taskSync.created, updated: taskSync.updated },
+      'Active plan tasks synced to recomputed targets'
+    );
+
+    return taskSync;
+  }
+
+  /**
+   * The active plan if it is a goal transition phase still stepping towards the new goal
+   */
+  private async getCurrentPhasePlan(userId: number): Promise<SelectPlan | null> {
+    const [plan] = await db
+      .select()
+      .from(plans)
+      .where(
+        and(eq(plans.userId, userId), eq(plans.status, 'active'), isNotNull(plans.transitionKind))
+      )
+      .orderBy(desc(plans.createdAt))
+      .limit(1);
+
+    return plan && isRampPhase(plan) ? plan : null;
+  }
+
+  /**
+   * Replace the goal's calories and protein with a transition phase's stepped values
+   * TDEE, water and the projection still follow the current data
+   */
+  private applyTransitionPhase(targets: ComputedTargets, phasePlan: SelectPlan): ComputedTargets {
+    const calorieTarget = phasePlan.calorieTarget ?? targets.calorieTarget;
+    const proteinTarget = phasePlan.proteinTarget ?? targets.proteinTarget;
+    const result: ComputedTargets = {
+      ...targets,
+      calorieTarget,
+      proteinTarget,
+      weeklyRate: weeklyRateForCalories(calorieTarget, targets.tdee),
+    };
+
+    if (result.macroProfile) {
+      // Weight 0 skips the profile's protein floor so the phase protein is kept as is
+      const { carbsTarget, fatTarget, fiberTarget } = scienceService.calculateMacroTargets(
+        calorieTarget,
+        proteinTarget,
+        0,
+        result.macroProfile
+      );
+      Object.assign(result, { carbsTarget, fatTarget, fiberTarget });
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply a plan's targets and make it the user's only active plan
+   *
+   * @param tx - Database transaction instance
+   * @param plan - Plan being activated (already inserted or promoted from draft)
+   * @param context - Settings, computed targets and timezone for the user
+   * @param span - Parent span for events
+   * @returns Task totals for the activated plan
+   *
+   * @remarks
+   * Steps: update user_settings, upsert initial_plan_snapshot, generate the rest
+   * of the week's tasks, then complete or archive the previously active plans
+   */
+  private async activatePlan(
+    tx: DbTransaction,
+    plan: SelectPlan,
+    context: PlanActivationContext,
+    span: Span
+  ): Promise<{ totalTasks: number; completedTasks: number }> {
+    const { settings, targets, scienceInputs, timezone } = context;
+    const userId = plan.userId;
+    const currentWeight = settings.currentWeight
+      ? parseFloat(settings.currentWeight.toString())
+      : 0;
+    const snapshotTargetWeight = settings.targetWeight
+      ? parseFloat(settings.targetWeight.toString())
+      : currentWeight;
+
+    // 5. Update user_settings with new targets
+    await tx
+      .update(userSettings)
+      .set({
+        bmr: targets.bmr,
+        tdee: targets.tdee,
+        calorieTarget: targets.calorieTarget,
+        proteinTarget: targets.proteinTarget,
+        waterTarget: targets.waterTarget,
+        carbsTarget: targets.carbsTarget ?? null,
+        fatTarget: targets.fatTarget ?? null,
+        fiberTarget: targets.fiberTarget ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(userSettings.userId, userId));
+
+    span.addEvent('settings_updated');
+
+    // 6. Update or create initial_plan_snapshot
+    await tx
+      .insert(initialPlanSnapshot)
+      .values({
+        userId,
+        startWeight: currentWeight.toString(),
+        targetWeight: snapshotTargetWeight.toString(),
+        startDate: new Date(),
+        targetDate: targets.projectedDate || new Date(),
+        weeklyWeightChangeRate: targets.weeklyRate.toString(),
+        estimatedWeeks: targets.estimatedWeeks || null,
+        projectedCompletionDate: targets.projectedDate || null,
+        calorieTarget: targets.calorieTarget,
+        proteinTarget: targets.proteinTarget,
+        waterTarget: targets.waterTarget,
+        carbsTarget: targets.carbsTarget ?? null,
+        fatTarget: targets.fatTarget ?? null,
+        fiberTarget: targets.fiberTarget ?? null,
+        primaryGoal: settings.primaryGoal || 'maintain',
+        activityLevel: settings.activityLevel || 'sedentary',
+      })
+      .onConflictDoUpdate({
+        target: initialPlanSnapshot.userId,
+        set: {
+          targetWeight: snapshotTargetWeight.toString(),
+          weeklyWeightChangeRate: targets.weeklyRate.toString(),
+          estimatedWeeks: targets.estimatedWeeks || null,
+          projectedCompletionDate: targets.projectedDate || null,
+          calorieTarget: targets.calorieTarget,
+          proteinTarget: targets.proteinTarget,
+          waterTarget: targets.waterTarget,
+          carbsTarget: targets.carbsTarget ?? null,
+          fatTarget: targets.fatTarget ?? null,
+          fiberTarget: targets.fiberTarget ?? null,
+          primaryGoal: settings.primaryGoal || 'maintain',
+          activityLevel: settings.activityLevel || 'sedentary',
+        },
+      });
+
+    span.addEvent('snapshot_updated');
+
+    // 7. Generate tasks for the rest of the week and sync plan counters
+    const taskSync = await taskGeneratorService.syncPlanTasks(tx, {
+      userId,
+      planId: plan.id,
+      targets,
+      primaryGoal: scienceInputs.primaryGoal,
+      activityLevel: scienceInputs.activityLevel,
+      mealsPerDay: settings.mealsPerDay || 3,
+      dietaryPreferences: (settings.dietaryPreferences as string[]) || [],
+      currentWeight: currentWeight || undefined,
+      timezone,
+      startDate: getLocalDateString(timezone),
+      endDate: getLocalDateString(timezone, plan.endDate),
+    });
+
+    // 8. Close out the plans this one replaces
+    const now = new Date();
+    const previousPlans = await tx
+      .select({ id: plans.id, endDate: plans.endDate })
+      .from(plans)
+      .where(and(eq(plans.userId, userId), eq(plans.status, 'active'), ne(plans.id, plan.id)));
+
+    for (const previous of previousPlans) {
+      await this.closeOutPlan(tx, previous.id, previous.endDate < now ? 'completed' : 'archived', now);
+    }
+
+    span.addEvent('previous_plans_closed', { 'plans.closed': previousPlans.length });
+
+    return taskSync;
+  }
+
+  /**
+   * Finalize a plan's counters and move it out of the active state
+   *
+   * @param tx - Database transaction instance
+   * @param planId - Plan to close out
+   * @param status - 'completed' for plans whose week ended, 'archived' for superseded plans
+   * @param now - Close-out time
+   */
+  private async closeOutPlan(
+    tx: DbTransaction,
+    planId: number,
+    status: 'completed' | 'archived',
+    now: Date
+  ): Promise<void> {
+    await taskGeneratorService.refreshPlanCounters(tx, planId);
+
+    await tx
+      .update(plans)
+      .set({
+        status,
+        completedAt: status === 'completed' ? now : null,
+        updatedAt: now,
+      })
+      .where(and(eq(plans.id, planId), eq(plans.status, 'active')));
+
+    logger.info({ planId, status }, 'Plan closed out');
+  }
+
+  /**
+   * Plan column values that record the targets a plan was generated with
+   */
+  private buildTargetSnapshot(targets: ComputedTargets, currentWeight: number) {
+    return {
+      bmr: targets.bmr,
+      tdee: targets.tdee,
+      calorieTarget: targets.calorieTarget,
+      proteinTarget: targets.proteinTarget,
+      waterTarget: targets.waterTarget,
+      weeklyRate: targets.weeklyRate.toString(),
+      weightAtGeneration: currentWeight ? currentWeight.toString() : null,
+      periodization: targets.periodization ?? null,
+    };
+  }
+
+  /**
+   * Targets of a goal transition phase, on top of the new goal's targets
+   */
+  private buildPhaseTargets(
+    finalTargets: ComputedTargets,
+    phase: GoalTransitionPhase
+  ): ComputedTargets {
+    return {
+      ...finalTargets,
+      calorieTarget: phase.calorieTarget,
+      proteinTarget: phase.proteinTarget,
+      waterTarget: phase.waterTarget,
+      carbsTarget: phase.carbsTarget,
+      fatTarget: phase.fatTarget,
+      fiberTarget: phase.fiberTarget,
+      weeklyRate: phase.weeklyRate,
+    };
+  }
+
+  /**
+   * Plan columns that keep a regenerated plan in the current transition phase
+   */
+  private buildPhaseColumns(phasePlan: PlanPhaseColumns | null): Partial<PlanPhaseColumns> {
+    return phasePlan
+      ? {
+          transitionKind: phasePlan.transitionKind,
+          phaseNumber: phasePlan.phaseNumber,
+          phaseCount: phasePlan.phaseCount,
+        }
+      : {};
+  }
+
+  /**
+   * Weekly plan name, e.g. 'Weekly Plan - week of Jan 6, 2025' or
+   * 'Reverse Diet (2/4) - week of Jan 13, 2025' for a transition phase
+   */
+  private buildPlanName(weekLabel: string, phase: PlanPhaseColumns | null): string {
+    if (phase?.transitionKind && phase.phaseNumber !== null && phase.phaseCount !== null) {
+      const kind = TRANSITION_PLAN_NAMES[phase.transitionKind as GoalTransitionKind];
+      return `${kind} (${phase.phaseNumber}/${phase.phaseCount}) - week of ${weekLabel}`;
+    }
+
+    return `Weekly Plan - week of ${weekLabel}`;
+  }
+
+  /**
+   * Targets currently stored in user_settings, if any
+   */
+  private buildCurrentTargets(settings: SelectUserSettings): ComputedTargets | undefined {
+    return settings.calorieTarget
+      ? {
+          bmr: settings.bmr || 0,
+          tdee: settings.tdee || 0,
+          calorieTarget: settings.calorieTarget || 0,
+          proteinTarget: settings.proteinTarget || 0,
+          waterTarget: settings.waterTarget || 0,
+          ...toStoredMacroTargets(settings),
+          weeklyRate: 0,
+        }
+      : undefined;
+  }
+
+  /**
+   * Current Monday-Sunday plan week on the user's local calendar
+   *
+   * @param timezone - User's IANA timezone
+   */
+  private getCurrentWeek(timezone: string): { weekStart: Date; weekEnd: Date; weekLabel: string } {
+    const today = parseISO(getLocalDateString(timezone));
+    const monday = startOfWeek(today, { weekStartsOn: 1 });
+    const sunday = endOfWeek(today, { weekStartsOn: 1 });
+    return {
+      weekStart: getLocalDayBounds(format(monday, 'yyyy-MM-dd'), timezone).start,
+      weekEnd: getLocalDayBounds(format(sunday, 'yyyy-MM-dd'), timezone).end,
+      weekLabel: format(monday, 'MMM d, yyyy'),
+    };
+  }
+
+  /**
+   * Fetch a plan and verify ownership
+   * @throws {AppError} 404 if plan does not exist or belongs to another user
+   */
+  private async getOwnedPlan(userId: number, planId: number): Promise<SelectPlan> {
+    const [plan] = await db
+      .select()
+      .from(plans)
+      .where(and(eq(plans.id, planId), eq(plans.userId, userId)))
+      .limit(1);
+
+    if (!plan) {
+      throw new AppError(404, `Plan ${planId} not found for user ${userId}`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Collect target-relevant profile changes and weigh-ins in a time window
+   *
+   * @param userId - User ID
+   * @param windowStart - Exclusive start (older plan's generatedAt)
+   * @param windowEnd - Inclusive end (newer plan's generatedAt)
+   * @returns Causes ordered oldest first
+   */
+  private async getPlanChangeCauses(
+    userId: number,
+    windowStart: Date,
+    windowEnd: Date
+  ): Promise<PlanChangeCause[]> {
+    const [audits, weighIns] = await Promise.all([
+      db
+        .select()
+        .from(profileChangeAudit)
+        .where(
+          and(
+            eq(profileChangeAudit.userId, userId),
+            gt(profileChangeAudit.changedAt, windowStart),
+            lte(profileChangeAudit.changedAt, windowEnd)
+          )
+        )
+        .orderBy(profileChangeAudit.changedAt),
+      db
+        .select({ metrics: evidence.metrics, recordedAt: evidence.recordedAt })
+        .from(evidence)
+        .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+        .where(
+          and(
+            eq(evidence.userId, userId),
+            eq(dailyTasks.taskType, 'weight_log'),
+            gt(evidence.recordedAt, windowStart),
+            lte(evidence.recordedAt, windowEnd)
+          )
+        )
+        .orderBy(evidence.recordedAt),
+    ]);
+
+    const causes: PlanChangeCause[] = [];
+    for (const audit of audits) {
+      const overrideField = parseOverrideAuditField(audit.fieldName);
+      if (overrideField === null && !isImpactfulField(audit.fieldName)) {
+        continue;
+      }
+
+      causes.push({
+        type: overrideField ? 'target_override' : 'profile_change',
+        field: overrideField ?? audit.fieldName,
+        oldValue: audit.oldValue,
+        newValue: audit.newValue,
+        occurredAt: audit.changedAt,
+      });
+    }
+
+    let previousWeight: string | null = null;
+    for (const weighIn of weighIns) {
+      // Metrics evidence may carry numbers as strings
+      const weight = Number(weighIn.metrics?.weight);
+      if (!weighIn.metrics?.weight || !Number.isFinite(weight)) {
+        continue;
+      }
+
+      causes.push({
+        type: 'weight_log',
+        field: 'weight',
+        oldValue: previousWeight,
+        newValue: weight.toString(),
+        occurredAt: weighIn.recordedAt,
+      });
+      previousWeight = weight.toString();
+    }
+
+    return causes.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  }
+
   /**
    * Build science inputs from user settings
    * @private
@@ -511,6 +1986,8 @@ export class PlansService {
       activityLevel: (settings.activityLevel as ActivityLevelValue) || 'sedentary',
       primaryGoal: (settings.primaryGoal as PrimaryGoalValue) || 'maintain',
       targetWeight,
+      targetDate: settings.targetDate ?? undefined,
+      periodization: toDietPeriodization(settings),
     };
   }
 
@@ -543,6 +2020,13 @@ export class PlansService {
     // Add protein explanation
     parts.push(`You'll consume ${targets.proteinTarget}g of protein daily to support your goals.`);
 
+    // Add macro split
+    if (whyItWorks.macros) {
+      parts.push(
+        `Round out your day with ${whyItWorks.macros.carbsTarget}g of carbs, ${whyItWorks.macros.fatTarget}g of fat and ${whyItWorks.macros.fiberTarget}g of fiber.`
+      );
+    }
+
     // Add hydration target
     parts.push(`Stay hydrated with ${targets.waterTarget}ml of water throughout the day.`);
 
@@ -7,13 +7,19 @@ import { requireAuth } from '../../middleware/auth';
 import { db } from '../../db/connection';
 import { users, userSettings } from '../../db/schema';
 import { eq } from 'drizzle-orm';
-import { PlansService } from '../plans/service';
+import { PlansService, type RecomputeResult } from '../plans/service';
+import { tasksCache } from '../tasks/cache';
 import { profileAuditService } from '../../services/profile-audit';
+import { goalTransitionService } from '../../services/goal-transition';
+import { periodizationWeekStart } from '../../services/diet-periodization';
 import {
   updateProfileSchema,
   ProfileData,
   GetProfileResponse,
   UpdateProfileResponse,
+  GoalTransition,
+  PrimaryGoalValue,
+  getPlanRegenerationMode,
   shouldRegeneratePlan,
 } from '@gtsd/shared-types';
 import rateLimit from 'express-rate-limit';
@@ -121,7 +127,7 @@ const preferencesLimiter = isTestMode
  *     "user": { "id": 1, "email": "user@example.com", "name": "John Doe" },
  *     "demographics": { "dateOfBirth": "1990-01-15T00:00:00.000Z", "gender": "male", "height": 175 },
  *     "health": { "currentWeight": 82.5, "targetWeight": 75 },
- *     "goals": { "primaryGoal": "lose_weight", "targetDate": "2026-03-01T00:00:00.000Z", "activityLevel": "moderately_active" },
+ *     "goals": { "primaryGoal": "lose_weight", "targetDate": "2026-03-01T00:00:00.000Z", "activityLevel": "moderately_active", "dietBreakEveryWeeks": 8, "refeedDays": [6] },
  *     "preferences": { "dietaryPreferences": ["vegetarian"], "allergies": [], "mealsPerDay": 3 },
  *     "targets": { "bmr": 1650, "tdee": 2200, "calorieTarget": 1700, "proteinTarget": 135, "waterTarget": 2625 }
  *   }
@@ -186,6 +192,9 @@ router.get(
           primaryGoal: settings.primaryGoal || null,
           targetDate: settings.targetDate?.toISOString() || null,
           activityLevel: settings.activityLevel || null,
+          bmrFormula: settings.bmrFormula,
+          dietBreakEveryWeeks: settings.dietBreakEveryWeeks,
+          refeedDays: settings.refeedDays,
         },
         preferences: {
           dietaryPreferences: (settings.dietaryPreferences as string[]) || [],
@@ -198,6 +207,9 @@ router.get(
           calorieTarget: settings.calorieTarget || null,
           proteinTarget: settings.proteinTarget || null,
           waterTarget: settings.waterTarget || null,
+          carbsTarget: settings.carbsTarget ?? null,
+          fatTarget: settings.fatTarget ?? null,
+          fiberTarget: settings.fiberTarget ?? null,
         },
       };
 
@@ -265,6 +277,16 @@ router.get(
  *
  * @returns Updated profile data and plan regeneration status
  *
+ * @remarks
+ * Leaving lose_weight or gain_muscle, or switching to gain_muscle, starts a goal transition:
+ * calories step towards the new goal over weekly plans (see POST /v1/plans/transition/preview),
+ * the response's targets are the first week's and `transition` holds the schedule
+ *
+ * While losing weight, `dietBreakEveryWeeks` (4-16, or null to stop) schedules a week at
+ * maintenance after every N weeks of dieting, counted from the current week, and `refeedDays`
+ * (ISO weekdays, at most two) eats at maintenance with extra carbs on those days. Both apply
+ * from the next generated plan.
+ *
  * @example
  * PUT /v1/profile
  * Authorization: Bearer <JWT>
@@ -429,6 +451,36 @@ router.put(
         }
       }
 
+      if (validatedInput.bmrFormula !== undefined) {
+        const oldValue = existingSettings.bmrFormula;
+        const newValue = validatedInput.bmrFormula;
+        if (oldValue !== newValue) {
+          updateValues.bmrFormula = validatedInput.bmrFormula;
+          auditChanges.push({ fieldName: 'bmrFormula', oldValue, newValue });
+        }
+      }
+
+      if (validatedInput.dietBreakEveryWeeks !== undefined) {
+        const oldValue = existingSettings.dietBreakEveryWeeks;
+        const newValue = validatedInput.dietBreakEveryWeeks;
+        if (oldValue !== newValue) {
+          updateValues.dietBreakEveryWeeks = newValue;
+          // The cycle restarts this week, so the first break follows a full stretch of dieting
+          updateValues.dietBreakAnchor = newValue ? periodizationWeekStart(new Date()) : null;
+          auditChanges.push({ fieldName: 'dietBreakEveryWeeks', oldValue, newValue });
+        }
+      }
+
+      if (validatedInput.refeedDays !== undefined) {
+        const refeedDays = [...validatedInput.refeedDays].sort((a, b) => a - b);
+        const oldValue = JSON.stringify([...existingSettings.refeedDays].sort((a, b) => a - b));
+        const newValue = JSON.stringify(refeedDays);
+        if (oldValue !== newValue) {
+          updateValues.refeedDays = refeedDays;
+          auditChanges.push({ fieldName: 'refeedDays', oldValue, newValue });
+        }
+      }
+
       // Preferences
       if (validatedInput.dietaryPreferences !== undefined) {
         updateValues.dietaryPreferences = validatedInput.dietaryPreferences;
@@ -494,13 +546,42 @@ router.put(
         'Profile updated'
       );
 
-      // Trigger plan recomputation if needed
-      let recomputeResult = null;
+      // Trigger plan recomputation if needed. Leaving a cut or a gain phase, or starting a
+      // surplus, steps calories over weekly phases instead of jumping to the new goal's targets.
+      let recomputeResult: RecomputeResult | null = null;
+      let transition: GoalTransition | undefined;
       if (requiresPlanRegen) {
-        recomputeResult = await plansService.recomputeForUser(userId);
-        span.addEvent('plan_recomputed', {
-          'recompute.updated': recomputeResult.updated,
-        });
+        const previousGoal = existingSettings.primaryGoal as PrimaryGoalValue | null;
+        const goalChanged = updateValues.primaryGoal !== undefined;
+
+        if (goalChanged && getPlanRegenerationMode(validatedInput, previousGoal) === 'transition') {
+          const planned = await goalTransitionService.forGoalChange(userId, previousGoal!);
+          transition = planned.phases.length > 0 ? planned : undefined;
+        }
+
+        if (transition) {
+          recomputeResult = await plansService.startGoalTransition(userId, transition);
+          // The first phase replaces the rest of the week's tasks
+          await tasksCache.invalidateUserTasks(userId);
+          span.addEvent('goal_transition_started', {
+            'transition.kind': transition.kind ?? 'immediate',
+            'transition.phases': transition.phases.length,
+          });
+        } else {
+          // A new goal without phases ends any transition still stepping towards the old one
+          const transitionEnded = goalChanged && (await plansService.endGoalTransition(userId));
+          // Refeed days don't move the daily target, so a periodization change is forced through
+          // to save the longer projection
+          const periodizationChanged =
+            updateValues.dietBreakEveryWeeks !== undefined || updateValues.refeedDays !== undefined;
+          recomputeResult = await plansService.recomputeForUser(
+            userId,
+            transitionEnded || periodizationChanged
+          );
+          span.addEvent('plan_recomputed', {
+            'recompute.updated': recomputeResult.updated,
+          });
+        }
       }
 
       // Get client IP and user agent for audit
@@ -549,11 +630,19 @@ router.put(
                 }
               : undefined,
           goals:
-            validatedInput.primaryGoal || validatedInput.targetDate || validatedInput.activityLevel
+            validatedInput.primaryGoal ||
+            validatedInput.targetDate ||
+            validatedInput.activityLevel ||
+            validatedInput.bmrFormula ||
+            validatedInput.dietBreakEveryWeeks !== undefined ||
+            validatedInput.refeedDays
               ? {
                   primaryGoal: updatedSettings.primaryGoal || null,
                   targetDate: updatedSettings.targetDate?.toISOString() || null,
                   activityLevel: updatedSettings.activityLevel || null,
+                  bmrFormula: updatedSettings.bmrFormula,
+                  dietBreakEveryWeeks: updatedSettings.dietBreakEveryWeeks,
+                  refeedDays: updatedSettings.refeedDays,
                 }
               : undefined,
           preferences:
@@ -570,6 +659,24 @@ router.put(
         planUpdated: recomputeResult?.updated || false,
       };
 
+      // Show which TDEE the targets rest on and how close adaptive TDEE is to kicking in
+      if (recomputeResult?.tdeeSource) {
+        response.tdee = {
+          source: recomputeResult.tdeeSource,
+          adaptive: recomputeResult.adaptiveTdee,
+        };
+      }
+
+      // Safety guardrails that capped or flagged the targets
+      if (recomputeResult?.warnings) {
+        response.warnings = recomputeResult.warnings;
+      }
+
+      // Weekly phases towards the new goal; targets above are this week's
+      if (transition) {
+        response.transition = transition;
+      }
+
       // Include new targets if plan was updated
       if (recomputeResult?.updated) {
         response.targets = {
@@ -0,0 +1,148 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { ZodError } from 'zod';
+import { ACTIVITY_IMPORT_SETTINGS } from '@gtsd/shared-types';
+import { activityImportService } from '../../services/activity-import';
+import { tasksCache } from '../tasks/cache';
+import { importActivityQuerySchema, type ImportActivityQuery } from './schemas';
+
+const router = Router();
+const tracer = trace.getTracer('progress-activities-routes');
+
+const rawFileParser = express.raw({
+  type: () => true,
+  limit: ACTIVITY_IMPORT_SETTINGS.maxFileBytes,
+});
+
+/**
+ * Read the request body as the raw activity file
+ * Body parser errors are reported as client errors instead of falling through as 500s
+ */
+function activityFileBody(req: Request, res: Response, next: NextFunction): void {
+  rawFileParser(req, res, (error?: unknown) => {
+    if (!error) {
+      next();
+    } else if ((error as { type?: string }).type === 'entity.too.large') {
+      next(
+        new AppError(
+          413,
+          `Activity file must be at most ${ACTIVITY_IMPORT_SETTINGS.maxFileBytes / 1024 / 1024}MB`
+        )
+      );
+    } else {
+      next(new AppError(400, 'Failed to read activity file'));
+    }
+  });
+}
+
+/**
+ * POST /v1/progress/activities/import
+ * Import a recorded cardio session from a GPX, TCX or FIT file
+ *
+ * Body: the raw file (any Content-Type, e.g. application/octet-stream), up to 20MB
+ *
+ * Query:
+ * - fileName: string (required, ends in .gpx, .tcx or .fit; selects the parser)
+ * - taskId: number (optional, cardio task to attach the session to)
+ * - notes: string (optional, max 1000 characters)
+ *
+ * Without taskId the session is attached to a pending cardio task due on the day it was
+ * recorded, or to a new ad-hoc cardio task when there is none.
+ *
+ * Returns the evidence result (task, evidence, streak) plus:
+ * - summary: distance, duration, heart rate, pace and elevation gain read from the file
+ * - fileKey: S3 key of the stored file
+ * - taskCreated: whether an ad-hoc task was created
+ *
+ * Errors: 400 unreadable file, 404 unknown task, 409 activity already imported,
+ * 413 file too large
+ */
+router.post(
+  '/activities/import',
+  requireAuth,
+  activityFileBody,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/progress/activities/import');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/progress/activities/import',
+      });
+
+      // Validate query parameters
+      const query: ImportActivityQuery = importActivityQuerySchema.parse(req.query);
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new AppError(400, 'Request body must contain the activity file');
+      }
+
+      logger.info(
+        { userId: req.userId, fileName: query.fileName, size: req.body.length },
+        'Importing activity file'
+      );
+
+      const result = await activityImportService.importActivity(req.userId!, {
+        fileName: query.fileName,
+        format: query.format,
+        data: req.body,
+        taskId: query.taskId,
+        notes: query.notes,
+      });
+
+      // The import completes a task (or creates one) that today's cached list may hold
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.setAttributes({
+        'task.id': result.task.id,
+        'evidence.id': result.evidence.id,
+        'task.created': result.taskCreated,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Query validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error importing activity file'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to import activity file: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
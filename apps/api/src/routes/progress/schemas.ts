@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { PhotoConstraints, PhotoEvidenceType } from '@gtsd/shared-types';
+import { PhotoConstraints, PhotoEvidenceType, type ActivityFileFormat } from '@gtsd/shared-types';
+import { localDateSchema } from '../../utils/validation';
 
 /**
  * Maximum file size for uploads (10MB)
@@ -115,3 +116,63 @@ export const photoIdParamSchema = z.object({
 });
 
 export type PhotoIdParam = z.infer<typeof photoIdParamSchema>;
+
+/**
+ * Schema for querying weight progress
+ * Range defaults to the last 90 days in the user's timezone
+ */
+export const getWeightProgressQuerySchema = z
+  .object({
+    from: localDateSchema.optional(),
+    to: localDateSchema.optional(),
+    plateauWeeks: z.coerce
+      .number()
+      .int('Plateau weeks must be an integer')
+      .min(2, 'Plateau weeks must be at least 2')
+      .max(12, 'Plateau weeks cannot exceed 12')
+      .optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be on or before to',
+    path: ['from'],
+  });
+
+export type GetWeightProgressQuery = z.infer<typeof getWeightProgressQuerySchema>;
+
+/**
+ * Schema for querying strength progress
+ * Range defaults to the last 90 days in the user's timezone
+ */
+export const getStrengthProgressQuerySchema = z
+  .object({
+    from: localDateSchema.optional(),
+    to: localDateSchema.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be on or before to',
+    path: ['from'],
+  });
+
+export type GetStrengthProgressQuery = z.infer<typeof getStrengthProgressQuerySchema>;
+
+/**
+ * Schema for activity file import query parameters
+ * The file itself is the raw request body; its format comes from the file name extension
+ */
+export const importActivityQuerySchema = z
+  .object({
+    fileName: z
+      .string()
+      .trim()
+      .min(1, 'File name is required')
+      .max(255, 'File name must be less than 255 characters')
+      .regex(/\.(gpx|tcx|fit)$/i, 'File name must end in .gpx, .tcx or .fit'),
+    taskId: z.coerce.number().int().positive('Task ID must be positive').optional(),
+    notes: z.string().max(1000, 'Notes must be at most 1000 characters').optional(),
+  })
+  .transform((data) => ({
+    ...data,
+    format: data.fileName.slice(-3).toLowerCase() as ActivityFileFormat,
+  }));
+
+export type ImportActivityQuery = z.infer<typeof importActivityQuerySchema>;
@@ -0,0 +1,95 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { ZodError } from 'zod';
+import { strengthAnalyticsService } from '../../services/strength-analytics';
+import { getStrengthProgressQuerySchema, type GetStrengthProgressQuery } from './schemas';
+
+const router = Router();
+const tracer = trace.getTracer('progress-strength-routes');
+
+/**
+ * GET /v1/progress/strength
+ * Get per-exercise strength history, personal records and weekly training volume
+ *
+ * Query:
+ * - from: string (YYYY-MM-DD, defaults to 90 days before `to`)
+ * - to: string (YYYY-MM-DD, defaults to today in the user's timezone)
+ *
+ * Returns:
+ * - exercises: all-time bests (weight, estimated 1RM, volume) and sessions in the range
+ * - weeklyVolume: sessions, sets and kg x reps x sets for every week of the range
+ * - recentRecords: personal records beaten in the range, newest first
+ *
+ * Records are detected from workout evidence when it is logged (POST /v1/evidence)
+ */
+router.get(
+  '/strength',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/progress/strength');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/progress/strength',
+      });
+
+      // Validate query parameters
+      const queryParams: GetStrengthProgressQuery = getStrengthProgressQuerySchema.parse(req.query);
+
+      logger.info({ userId: req.userId, queryParams }, 'Fetching strength progress');
+
+      const progress = await strengthAnalyticsService.getStrengthProgress(req.userId!, queryParams);
+
+      span.setAttributes({
+        'response.exercises': progress.exercises.length,
+        'response.recent_records': progress.recentRecords.length,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: progress,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Query validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error fetching strength progress'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to fetch strength progress: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
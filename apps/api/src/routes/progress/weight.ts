@@ -0,0 +1,159 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { ZodError } from 'zod';
+import { weightTrendService } from '../../services/weight-trend';
+import { goalTrajectoryService } from '../../services/goal-trajectory';
+import { getWeightProgressQuerySchema, type GetWeightProgressQuery } from './schemas';
+
+const router = Router();
+const tracer = trace.getTracer('progress-weight-routes');
+
+/**
+ * GET /v1/progress/weight
+ * Get weight history with a smoothed trend line, weekly rate of change and plateau detection
+ *
+ * Query:
+ * - from: string (YYYY-MM-DD, defaults to 90 days before `to`)
+ * - to: string (YYYY-MM-DD, defaults to today in the user's timezone)
+ * - plateauWeeks: number (2-12, default 3)
+ *
+ * Returns:
+ * - entries: raw weigh-ins and profile edits (outliers flagged as excluded)
+ * - trend: smoothed (EMA) weight per day with entries
+ * - weeks: weekly averages and trend change
+ * - rate: actual weekly rate vs the rate the plan is built on
+ * - plateau: whether the trend has stalled for plateauWeeks
+ */
+router.get(
+  '/weight',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/progress/weight');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/progress/weight',
+      });
+
+      // Validate query parameters
+      const queryParams: GetWeightProgressQuery = getWeightProgressQuerySchema.parse(req.query);
+
+      logger.info({ userId: req.userId, queryParams }, 'Fetching weight progress');
+
+      const progress = await weightTrendService.getWeightProgress(req.userId!, queryParams);
+
+      span.setAttributes({
+        'response.entries': progress.entries.length,
+        'response.plateau_detected': progress.plateau.detected,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: progress,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Query validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error fetching weight progress'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to fetch weight progress: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * GET /v1/progress/trajectory
+ * Compare the expected weight curve from the initial plan with the actual trend
+ *
+ * Returns:
+ * - expected: weekly expected weight from the plan's start weight and weekly rate
+ * - actual: smoothed (EMA) weight since the plan started
+ * - status: on_track | ahead | behind | reached | insufficient_data
+ * - estimatedCompletionDate: re-estimated from the observed weekly rate
+ * - targetDate: whether the target date can be reached at a safe rate
+ */
+router.get(
+  '/trajectory',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/progress/trajectory');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/progress/trajectory',
+      });
+
+      logger.info({ userId: req.userId }, 'Fetching goal trajectory');
+
+      const trajectory = await goalTrajectoryService.getTrajectory(req.userId!);
+
+      span.setAttributes({
+        'response.status': trajectory.status,
+        'response.target_date_feasibility': trajectory.targetDate.feasibility,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: trajectory,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error fetching goal trajectory'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to fetch goal trajectory: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,114 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { ZodError } from 'zod';
+import { targetSimulatorService } from '../../services/target-simulator';
+import { targetOverrideService } from '../../services/target-overrides';
+import {
+  simulateTargetsQuerySchema,
+  simulateTargetsSchema,
+  type SimulateTargetsInput,
+} from './schemas';
+
+const router = Router();
+const tracer = trace.getTracer('science-routes');
+
+/**
+ * POST /v1/science/simulate
+ * Preview targets for hypothetical profile values without saving anything
+ *
+ * Query params:
+ * - userId: number (optional, for coaches; defaults to the authenticated user)
+ *
+ * Body (all optional, same rules as the profile edit):
+ * - currentWeight: number (kg)
+ * - activityLevel: ActivityLevelValue
+ * - primaryGoal: PrimaryGoalValue
+ * - targetWeight: number (kg)
+ * - targetDate: string (ISO 8601 datetime, in the future)
+ *
+ * Returns:
+ * - targets: full ComputedTargets for the simulated inputs
+ * - projection: weekly rate, estimated weeks and projected date
+ * - warnings: safety guardrails that would cap or flag the plan
+ * - whyItWorks: educational explanation of the simulated targets
+ * - current / changes / explanation: diff against the user's current targets
+ */
+router.post(
+  '/simulate',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/science/simulate');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/science/simulate',
+      });
+
+      // Validate request body
+      const { userId = req.userId! } = simulateTargetsQuerySchema.parse(req.query);
+      const validatedInput: SimulateTargetsInput = simulateTargetsSchema.parse(req.body);
+      span.setAttributes({ 'target.user_id': userId });
+
+      // Same access rule as the target overrides: the user themself or a permitted coach
+      await targetOverrideService.resolveAccess(req.userId!, userId);
+
+      logger.info(
+        { userId: req.userId, targetUserId: userId, fields: Object.keys(validatedInput) },
+        'Simulating targets'
+      );
+
+      const simulation = await targetSimulatorService.simulate(userId, validatedInput);
+
+      span.setAttributes({
+        'response.changes': simulation.changes.length,
+        'response.warnings': simulation.warnings.length,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: simulation,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Simulation validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error simulating targets'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to simulate targets: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
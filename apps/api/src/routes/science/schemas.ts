@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { updateGoalsSchema, updateHealthMetricsSchema } from '@gtsd/shared-types';
+
+/**
+ * Request body for POST /v1/science/simulate
+ * Same fields and rules as the profile edit, all optional
+ */
+export const simulateTargetsSchema = updateHealthMetricsSchema
+  .merge(updateGoalsSchema.pick({ primaryGoal: true, activityLevel: true, targetDate: true }))
+  .strict();
+
+export type SimulateTargetsInput = z.infer<typeof simulateTargetsSchema>;
+
+/**
+ * Query parameters for POST /v1/science/simulate
+ * A coach passes the user whose targets they manage; users omit it
+ */
+export const simulateTargetsQuerySchema = z.object({
+  userId: z.coerce
+    .number()
+    .int()
+    .positive('userId must be a positive integer')
+    .optional()
+    .describe('User whose targets are simulated (defaults to the authenticated user)'),
+});
+
+export type SimulateTargetsQuery = z.infer<typeof simulateTargetsQuerySchema>;
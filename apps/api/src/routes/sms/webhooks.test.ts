@@ -329,6 +329,7 @@ describe('SMS Webhooks', () => {
         name: 'Test User',
         phone: '+15551234567',
         smsOptIn: false,
+        emailVerified: true,
       };
 
       mockDb.select = jest.fn().mockReturnValue({
@@ -359,6 +360,42 @@ describe('SMS Webhooks', () => {
       expect(response.text).toContain('opted back into');
       expect(mockDb.update).toHaveBeenCalled();
     });
+    it('should not opt in users whose email is not verified', async () => {
+      mockTwilioService.validateSignature = jest.fn().mockReturnValue(true);
+      jest.spyOn(TwilioService, 'isValidPhoneNumber').mockReturnValue(true);
+
+      const mockUser = {
+        id: 1,
+        name: 'Test User',
+        phone: '+15551234567',
+        smsOptIn: false,
+        emailVerified: false,
+      };
+
+      mockDb.select = jest.fn().mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue([mockUser]),
+          }),
+        }),
+      } as unknown as MockDbSelectChain);
+
+      mockDb.update = jest.fn();
+
+      const response = await request(app)
+        .post('/v1/sms/webhook')
+        .set('X-Twilio-Signature', 'valid-signature')
+        .send({
+          MessageSid: 'SM123',
+          From: '+15551234567',
+          To: '+15559876543',
+          Body: 'START',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('verify your email');
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('POST /v1/sms/status - Status Callback', () => {
@@ -605,6 +642,7 @@ describe('SMS Webhooks', () => {
         name: 'Test User',
         phone: '+15551234567',
         smsOptIn: false,
+        emailVerified: true,
       };
 
       mockDb.select = jest.fn().mockReturnValue({
@@ -8,8 +8,11 @@ import { twilioService, TwilioService } from '../../services/twilio';
 import { env } from '../../config/env';
 import { strictLimiter } from '../../middleware/rateLimiter';
 import { optOutCounter } from '../../metrics/sms-metrics';
+import { AppError } from '../../middleware/error';
+import { AuthService } from '../auth/service';
 
 const router = Router();
+const authService = new AuthService();
 
 /**
  * Twilio webhook request body schema
@@ -65,6 +68,22 @@ async function handleOptCommand(
     const isStop = command === 'STOP';
     const newOptInStatus = !isStop;
 
+    // Opting out is always honored; opting in requires a verified account
+    if (!isStop) {
+      try {
+        await authService.assertEmailVerified(user.id, 'turning on SMS notifications');
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
+        logger.info({ userId: user.id }, 'SMS opt-in rejected: email not verified');
+        return {
+          success: false,
+          message: `${error.message} in the GTSD app.`,
+        };
+      }
+    }
+
     // Update user's SMS opt-in status
     await db
       .update(users)
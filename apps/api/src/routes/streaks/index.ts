@@ -183,7 +183,7 @@ router.get(
       }
 
       // TODO: Enrich badges with metadata
-      const totalAvailable = 16; // Total badge types defined
+      const totalAvailable = 17; // Total badge types defined
 
       span.setStatus({ code: SpanStatusCode.OK });
       res.status(200).json({
@@ -259,7 +259,8 @@ router.post(
 
       // Validate request body
       const validatedInput = checkComplianceSchema.parse(req.body);
-      const targetDate = validatedInput.date ? new Date(validatedInput.date) : new Date();
+      // Dates are interpreted on the user's local calendar
+      const targetDate = validatedInput.date ?? new Date();
 
       logger.info(
         {
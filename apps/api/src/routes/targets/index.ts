@@ -0,0 +1,245 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { ZodError } from 'zod';
+import type { OverridableTarget, TargetOverridesResponse } from '@gtsd/shared-types';
+import { PlansService, type RecomputeResult } from '../plans/service';
+import { profileAuditService } from '../../services/profile-audit';
+import {
+  overrideAuditField,
+  targetOverrideService,
+  type TargetOverrideChange,
+} from '../../services/target-overrides';
+import {
+  overrideFieldParamSchema,
+  overrideUserQuerySchema,
+  setTargetOverrideSchema,
+} from './schemas';
+
+const router = Router();
+const plansService = new PlansService();
+const tracer = trace.getTracer('targets-routes');
+
+/**
+ * Recompute the user's targets after a pin changed and record it in the profile change audit
+ */
+async function recordOverrideChange(
+  req: Request,
+  userId: number,
+  field: OverridableTarget,
+  change: TargetOverrideChange
+): Promise<RecomputeResult> {
+  // Forced so pins below the usual significance thresholds (e.g. water) still apply right away
+  const recompute = await plansService.recomputeForUser(userId, true);
+
+  await profileAuditService.logChange(
+    userId,
+    overrideAuditField(field),
+    change.previousValue,
+    change.newValue,
+    {
+      ip: req.ip || req.socket.remoteAddress || undefined,
+      userAgent: req.get('user-agent') || undefined,
+      changedByUserId: req.userId !== userId ? req.userId : undefined,
+      triggeredPlanRegeneration: recompute.updated,
+      caloriesBefore: recompute.updated ? recompute.previousCalories : undefined,
+      caloriesAfter: recompute.updated ? recompute.newCalories : undefined,
+      proteinBefore: recompute.updated ? recompute.previousProtein : undefined,
+      proteinAfter: recompute.updated ? recompute.newProtein : undefined,
+    }
+  );
+
+  return recompute;
+}
+
+/**
+ * Turn an error from an override route into the error passed to next()
+ */
+function toRouteError(error: unknown, req: Request, action: string): AppError {
+  if (error instanceof ZodError) {
+    logger.warn(
+      { userId: req.userId, validationErrors: error.errors },
+      'Target override validation failed'
+    );
+    return new AppError(
+      400,
+      `Validation failed: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+    );
+  }
+
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  logger.error({ userId: req.userId, error, errorMessage }, `Unexpected error trying to ${action}`);
+  return new AppError(500, `Failed to ${action}: ${errorMessage}`);
+}
+
+/**
+ * GET /v1/targets/overrides
+ * List the targets that are pinned by hand
+ *
+ * Query params:
+ * - userId: number (optional, for coaches; defaults to the authenticated user)
+ *
+ * Response: TargetOverridesResponse with the active (unexpired) pins
+ */
+router.get(
+  '/targets/overrides',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/targets/overrides');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/targets/overrides',
+      });
+
+      const { userId = req.userId! } = overrideUserQuerySchema.parse(req.query);
+      span.setAttributes({ 'target.user_id': userId });
+
+      await targetOverrideService.resolveAccess(req.userId!, userId);
+      const overrides = await targetOverrideService.getActiveOverrides(userId);
+
+      span.setAttributes({ 'response.count': overrides.length });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      const data: TargetOverridesResponse = { userId, overrides };
+      res.status(200).json({ success: true, data });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      next(toRouteError(error, req, 'list target overrides'));
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * PUT /v1/targets/overrides/:field
+ * Pin a target (calorieTarget, proteinTarget or waterTarget) to a value
+ *
+ * Query params:
+ * - userId: number (optional, for coaches; defaults to the authenticated user)
+ *
+ * Body:
+ * - value: integer within TARGET_OVERRIDE_SETTINGS.ranges for the target
+ * - reason: string (optional)
+ * - expiresAt: string (optional, ISO 8601 datetime within a year; omit to pin until removed)
+ *
+ * Response: TargetOverridesResponse with planUpdated
+ *
+ * @remarks
+ * - Coaches need a 'coach' partnership with permission to manage targets and a verified email
+ * - Calorie pins outside the user's safety guardrails are rejected (400)
+ * - Targets are recomputed right away and the pin is recorded in the profile change audit
+ */
+router.put(
+  '/targets/overrides/:field',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('PUT /v1/targets/overrides/:field');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'PUT',
+        'http.route': '/v1/targets/overrides/:field',
+      });
+
+      const { field } = overrideFieldParamSchema.parse(req.params);
+      const { userId = req.userId! } = overrideUserQuerySchema.parse(req.query);
+      const input = setTargetOverrideSchema(field).parse(req.body);
+      span.setAttributes({ 'target.user_id': userId, 'override.field': field });
+
+      const change = await targetOverrideService.setOverride(req.userId!, userId, field, input);
+      const recompute = await recordOverrideChange(req, userId, field, change);
+      const overrides = await targetOverrideService.getActiveOverrides(userId);
+
+      span.setAttributes({
+        'override.set_by': change.setBy,
+        'recompute.updated': recompute.updated,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      const data: TargetOverridesResponse = {
+        userId,
+        overrides,
+        planUpdated: recompute.updated,
+      };
+      res.status(200).json({ success: true, data });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      next(toRouteError(error, req, 'set target override'));
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * DELETE /v1/targets/overrides/:field
+ * Remove a pinned target so the calculated value applies again
+ *
+ * Query params:
+ * - userId: number (optional, for coaches; defaults to the authenticated user)
+ *
+ * Response: TargetOverridesResponse with the remaining pins and planUpdated
+ */
+router.delete(
+  '/targets/overrides/:field',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('DELETE /v1/targets/overrides/:field');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'DELETE',
+        'http.route': '/v1/targets/overrides/:field',
+      });
+
+      const { field } = overrideFieldParamSchema.parse(req.params);
+      const { userId = req.userId! } = overrideUserQuerySchema.parse(req.query);
+      span.setAttributes({ 'target.user_id': userId, 'override.field': field });
+
+      const change = await targetOverrideService.clearOverride(req.userId!, userId, field);
+      const recompute = await recordOverrideChange(req, userId, field, change);
+      const overrides = await targetOverrideService.getActiveOverrides(userId);
+
+      span.setAttributes({ 'recompute.updated': recompute.updated });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      const data: TargetOverridesResponse = {
+        userId,
+        overrides,
+        planUpdated: recompute.updated,
+      };
+      res.status(200).json({ success: true, data });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      next(toRouteError(error, req, 'remove target override'));
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { addDays } from 'date-fns';
+import type { OverridableTarget } from '@gtsd/shared-types';
+import { OVERRIDABLE_TARGETS, TARGET_OVERRIDE_SETTINGS } from '@gtsd/shared-types';
+
+/**
+ * Path parameters for /v1/targets/overrides/:field
+ */
+export const overrideFieldParamSchema = z.object({
+  field: z.enum(OVERRIDABLE_TARGETS, {
+    errorMap: () => ({ message: `Target must be one of: ${OVERRIDABLE_TARGETS.join(', ')}` }),
+  }),
+});
+
+/**
+ * Query parameters shared by the override routes
+ * A coach passes the user whose targets they manage; users omit it
+ */
+export const overrideUserQuerySchema = z.object({
+  userId: z.coerce
+    .number()
+    .int()
+    .positive('userId must be a positive integer')
+    .optional()
+    .describe('User whose targets are managed (defaults to the authenticated user)'),
+});
+
+/**
+ * Request body for PUT /v1/targets/overrides/:field
+ *
+ * @param field - Target being pinned; sets the allowed value range
+ */
+export function setTargetOverrideSchema(field: OverridableTarget) {
+  const { min, max } = TARGET_OVERRIDE_SETTINGS.ranges[field];
+
+  return z
+    .object({
+      value: z
+        .number()
+        .int(`${field} must be a whole number`)
+        .min(min, `${field} must be at least ${min}`)
+        .max(max, `${field} must be at most ${max}`),
+      reason: z.string().trim().min(1).max(TARGET_OVERRIDE_SETTINGS.reasonMaxLength).optional(),
+      expiresAt: z
+        .string()
+        .datetime({ message: 'Expiry must be a valid ISO 8601 datetime' })
+        .refine((date) => new Date(date) > new Date(), {
+          message: 'Expiry must be in the future',
+        })
+        .refine(
+          (date) => new Date(date) <= addDays(new Date(), TARGET_OVERRIDE_SETTINGS.maxExpiryDays),
+          { message: `Expiry must be within ${TARGET_OVERRIDE_SETTINGS.maxExpiryDays} days` }
+        )
+        .optional(),
+    })
+    .strict();
+}
+
+export type OverrideFieldParam = z.infer<typeof overrideFieldParamSchema>;
+export type OverrideUserQuery = z.infer<typeof overrideUserQuerySchema>;
+export type SetTargetOverrideInput = z.infer<ReturnType<typeof setTargetOverrideSchema>>;
@@ -62,15 +62,18 @@ export class TasksCache {
 
   /**
    * Generate cache key for today tasks query
+   * Timezone is part of the key because the same date string maps to a
+   * different UTC window per timezone (e.g. after a user changes timezone)
    */
   private getTodayTasksKey(
     userId: number,
+    timezone: string,
     date: string,
     limit: number,
     offset: number,
     type?: string
   ): string {
-    return `tasks:today:${userId}:${date}:${limit}:${offset}:${type || 'all'}`;
+    return `tasks:today:${userId}:${timezone}:${date}:${limit}:${offset}:${type || 'all'}`;
   }
 
   /**
@@ -78,12 +81,13 @@ export class TasksCache {
    */
   async getTodayTasks<T>(
     userId: number,
+    timezone: string,
     date: string,
     limit: number,
     offset: number,
     type?: string
   ): Promise<T | undefined> {
-    const key = this.getTodayTasksKey(userId, date, limit, offset, type);
+    const key = this.getTodayTasksKey(userId, timezone, date, limit, offset, type);
 
     if (this.isRedisAvailable) {
       try {
@@ -109,6 +113,7 @@ export class TasksCache {
    */
   async setTodayTasks<T>(
     userId: number,
+    timezone: string,
     date: string,
     limit: number,
     offset: number,
@@ -116,7 +121,7 @@ export class TasksCache {
     type?: string,
     ttl = 60
   ): Promise<void> {
-    const key = this.getTodayTasksKey(userId, date, limit, offset, type);
+    const key = this.getTodayTasksKey(userId, timezone, date, limit, offset, type);
 
     if (this.isRedisAvailable) {
       try {
@@ -6,12 +6,15 @@ import { requireAuth } from '../../middleware/auth';
 import {
   getTodayTasksQuerySchema,
   createEvidenceSchema,
+  taskIdParamSchema,
+  skipTaskSchema,
+  rescheduleTaskSchema,
   type CreateEvidenceInput,
 } from './schemas';
 import { TasksService } from './service';
 import { tasksCache } from './cache';
 import { ZodError } from 'zod';
-import { format } from 'date-fns';
+import { getLocalDateString, getUserTimezone } from '../../utils/timezone';
 
 const router = Router();
 const tasksService = new TasksService();
@@ -22,7 +25,7 @@ const tracer = trace.getTracer('tasks-routes');
  * Get all tasks due today for authenticated user
  *
  * Query params:
- * - date: YYYY-MM-DD (optional, defaults to today)
+ * - date: YYYY-MM-DD (optional, defaults to today in the user's timezone)
  * - limit: number (default 50, max 100)
  * - offset: number (default 0)
  * - type: task type filter (optional)
@@ -50,10 +53,12 @@ router.get(
       // Validate query parameters
       const queryParams = getTodayTasksQuerySchema.parse(req.query);
 
-      // Default date to today in UTC (in production, would use user's timezone from settings)
-      const targetDate = queryParams.date || format(new Date(), 'yyyy-MM-dd');
+      // Resolve "today" on the user's local calendar
+      const timezone = await getUserTimezone(req.userId!);
+      const targetDate = queryParams.date || getLocalDateString(timezone);
 
       span.setAttributes({
+        'user.timezone': timezone,
         'query.date': targetDate,
         'query.limit': queryParams.limit,
         'query.offset': queryParams.offset,
@@ -64,6 +69,7 @@ router.get(
         {
           userId: req.userId,
           date: targetDate,
+          timezone,
           limit: queryParams.limit,
           offset: queryParams.offset,
           type: queryParams.type,
@@ -75,6 +81,7 @@ router.get(
       // userId is guaranteed to be present due to requireAuth middleware
       const cachedResult = await tasksCache.getTodayTasks(
         req.userId!,
+        timezone,
         targetDate,
         queryParams.limit,
         queryParams.offset,
@@ -108,13 +115,14 @@ router.get(
         queryParams.limit,
         queryParams.offset,
         queryParams.type,
-        'UTC' // In production, fetch from user settings
+        timezone
       );
 
       // Cache the result
       // userId is guaranteed to be present due to requireAuth middleware
       await tasksCache.setTodayTasks(
         req.userId!,
+        timezone,
         targetDate,
         queryParams.limit,
         queryParams.offset,
@@ -210,6 +218,7 @@ router.get(
  * Side effects:
  * - Marks task as completed
  * - Updates user streak
+ * - Weight logs update the profile's current weight (outliers rejected) and may recompute targets
  * - Invalidates task cache
  */
 router.post('/evidence', requireAuth, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -255,6 +264,9 @@ router.post('/evidence', requireAuth, async (req: Request, res: Response, next:
       'streak.updated': result.streakUpdated,
       'streak.current': result.newStreak,
     });
+    if (result.weightSync) {
+      span.setAttribute('weight_sync.status', result.weightSync.status);
+    }
 
     logger.info(
       {
@@ -311,4 +323,327 @@ router.post('/evidence', requireAuth, async (req: Request, res: Response, next:
   }
 });
 
+/**
+ * POST /v1/tasks/:taskId/start
+ * Mark a task as in progress
+ *
+ * Side effects:
+ * - Clears any previous skip
+ * - Invalidates task cache
+ */
+router.post(
+  '/tasks/:taskId/start',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/tasks/:taskId/start');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/tasks/:taskId/start',
+      });
+
+      const { taskId } = taskIdParamSchema.parse(req.params);
+      span.setAttributes({ 'task.id': taskId });
+
+      const task = await tasksService.startTask(req.userId!, taskId);
+
+      // Invalidate cache for this user
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.addEvent('task_started');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: task,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Start task validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error starting task'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(500, `Failed to start task for user ${req.userId}: ${errorMessage}`)
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * POST /v1/tasks/:taskId/skip
+ * Skip a task with a reason
+ *
+ * Body:
+ * - reason: string (1-500 chars)
+ *
+ * Side effects:
+ * - Invalidates task cache
+ */
+router.post(
+  '/tasks/:taskId/skip',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/tasks/:taskId/skip');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/tasks/:taskId/skip',
+      });
+
+      const { taskId } = taskIdParamSchema.parse(req.params);
+      const validatedInput = skipTaskSchema.parse(req.body);
+      span.setAttributes({ 'task.id': taskId });
+
+      const task = await tasksService.skipTask(req.userId!, taskId, validatedInput);
+
+      // Invalidate cache for this user
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.addEvent('task_skipped');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: task,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Skip task validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error skipping task'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(500, `Failed to skip task for user ${req.userId}: ${errorMessage}`)
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * POST /v1/tasks/:taskId/undo
+ * Revert a completed task back to pending
+ *
+ * Side effects:
+ * - Deletes the task's evidence
+ * - Rolls back the streak if no other task was completed that day
+ * - Updates plan completion counters
+ * - Invalidates task cache
+ */
+router.post(
+  '/tasks/:taskId/undo',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/tasks/:taskId/undo');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/tasks/:taskId/undo',
+      });
+
+      const { taskId } = taskIdParamSchema.parse(req.params);
+      span.setAttributes({ 'task.id': taskId });
+
+      const result = await tasksService.undoCompletion(req.userId!, taskId);
+
+      // Invalidate cache for this user
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.addEvent('completion_undone');
+      span.setAttributes({
+        'evidence.removed': result.evidenceRemoved,
+        'streak.rolled_back': result.streakRolledBack,
+        'streak.current': result.newStreak,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Undo task validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error undoing task completion'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(500, `Failed to undo task completion for user ${req.userId}: ${errorMessage}`)
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+/**
+ * POST /v1/tasks/:taskId/reschedule
+ * Move a task to another day in the user's timezone
+ *
+ * Body:
+ * - date: YYYY-MM-DD
+ * - dueTime: HH:MM or HH:MM:SS (optional, keeps current time)
+ *
+ * Side effects:
+ * - Skipped tasks return to pending
+ * - Invalidates task cache
+ */
+router.post(
+  '/tasks/:taskId/reschedule',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('POST /v1/tasks/:taskId/reschedule');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'POST',
+        'http.route': '/v1/tasks/:taskId/reschedule',
+      });
+
+      const { taskId } = taskIdParamSchema.parse(req.params);
+      const validatedInput = rescheduleTaskSchema.parse(req.body);
+      span.setAttributes({ 'task.id': taskId, 'reschedule.date': validatedInput.date });
+
+      const task = await tasksService.rescheduleTask(req.userId!, taskId, validatedInput);
+
+      // Invalidate cache for this user
+      await tasksCache.invalidateUserTasks(req.userId!);
+
+      span.addEvent('task_rescheduled');
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({
+        success: true,
+        data: task,
+      });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof ZodError) {
+        logger.warn(
+          { userId: req.userId, validationErrors: error.errors },
+          'Reschedule task validation failed'
+        );
+
+        span.recordException(error);
+        next(
+          new AppError(
+            400,
+            `Validation failed: ${error.errors
+              .map((e) => `${e.path.join('.')}: ${e.message}`)
+              .join(', ')}`
+          )
+        );
+      } else if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error rescheduling task'
+        );
+        span.recordException(error as Error);
+        next(
+          new AppError(500, `Failed to reschedule task for user ${req.userId}: ${errorMessage}`)
+        );
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
 export default router;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { TaskType, EvidenceType } from '@gtsd/shared-types';
+import { localDateSchema } from '../../utils/validation';
 
 /**
  * Task type enum for validation
@@ -15,9 +16,7 @@ export const evidenceTypeEnum = z.nativeEnum(EvidenceType);
  * Query parameters for GET /v1/tasks/today
  */
 export const getTodayTasksQuerySchema = z.object({
-  date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  date: localDateSchema
     .optional()
     .describe('Target date in YYYY-MM-DD format (defaults to today in user timezone)'),
 
@@ -85,11 +84,46 @@ export const createEvidenceSchema = z
     }
   );
 
+/**
+ * Path parameters for task lifecycle routes (/v1/tasks/:taskId/...)
+ */
+export const taskIdParamSchema = z.object({
+  taskId: z.coerce.number().int().positive('Task ID must be a positive integer'),
+});
+
+/**
+ * Body schema for POST /v1/tasks/:taskId/skip
+ */
+export const skipTaskSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Skip reason is required')
+    .max(500)
+    .describe('Why the task was skipped'),
+});
+
+/**
+ * Body schema for POST /v1/tasks/:taskId/reschedule
+ */
+export const rescheduleTaskSchema = z.object({
+  date: localDateSchema.describe('New local date in YYYY-MM-DD format (user timezone)'),
+
+  dueTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Time must be in HH:MM or HH:MM:SS format')
+    .optional()
+    .describe('New local due time (defaults to the current due time)'),
+});
+
 /**
  * TypeScript types inferred from schemas
  */
 export type GetTodayTasksQuery = z.infer<typeof getTodayTasksQuerySchema>;
 export type CreateEvidenceInput = z.infer<typeof createEvidenceSchema>;
+export type TaskIdParam = z.infer<typeof taskIdParamSchema>;
+export type SkipTaskInput = z.infer<typeof skipTaskSchema>;
+export type RescheduleTaskInput = z.infer<typeof rescheduleTaskSchema>;
 
 // Re-export TaskType and EvidenceType for local use
 export { TaskType, EvidenceType };
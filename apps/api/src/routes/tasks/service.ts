@@ -3,18 +3,34 @@ import {
   dailyTasks,
   evidence,
   streaks,
+  taskEvidence,
+  SelectDailyTask,
   SelectEvidence,
   SelectStreak,
 } from '../../db/schema';
-import { eq, and, gte, lte, desc, sql, inArray } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, sql, inArray, isNull } from 'drizzle-orm';
 import type { ExtractTablesWithRelations } from 'drizzle-orm';
 import type { PgTransaction } from 'drizzle-orm/pg-core';
 import type { PostgresJsQueryResultHKT } from 'drizzle-orm/postgres-js';
 import { AppError } from '../../middleware/error';
 import { logger } from '../../config/logger';
-import { startOfDay, endOfDay, subDays } from 'date-fns';
-import { toZonedTime } from 'date-fns-tz';
-import type { CreateEvidenceInput, TaskType } from './schemas';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import {
+  addLocalDays,
+  getLocalDateString,
+  getLocalDayBounds,
+  getUserTimezone,
+} from '../../utils/timezone';
+import { taskGeneratorService } from '../../services/task-generator';
+import { weightSyncService } from '../../services/weight-sync';
+import { strengthAnalyticsService } from '../../services/strength-analytics';
+import type { PersonalRecord, WeightSyncResult } from '@gtsd/shared-types';
+import type {
+  CreateEvidenceInput,
+  RescheduleTaskInput,
+  SkipTaskInput,
+  TaskType,
+} from './schemas';
 import DOMPurify from 'isomorphic-dompurify';
 import { z } from 'zod';
 import * as schema from '../../db/schema';
@@ -47,6 +63,8 @@ export interface TaskWithEvidence {
   dueDate: Date;
   status: string;
   completedAt: Date | null;
+  skippedAt: Date | null;
+  skipReason: string | null;
   priority: number;
   estimatedDuration: number | null;
   evidence: EvidenceItem[];
@@ -96,6 +114,25 @@ export interface EvidenceResult {
   evidence: EvidenceItem;
   streakUpdated: boolean;
   newStreak: number;
+  /**
+   * Present for weight_log evidence: how the weigh-in affected the current weight
+   */
+  weightSync?: WeightSyncResult;
+  /**
+   * Present for workout evidence with a weighted lift: personal records it beat
+   */
+  personalRecords?: PersonalRecord[];
+}
+
+/**
+ * Undo result for POST /v1/tasks/:taskId/undo
+ * Contains the reverted task and the streak after rollback
+ */
+export interface UndoCompletionResult {
+  task: TaskWithEvidence;
+  evidenceRemoved: number;
+  streakRolledBack: boolean;
+  newStreak: number;
 }
 
 /**
@@ -107,6 +144,11 @@ type DbTransaction = PgTransaction<
   ExtractTablesWithRelations<typeof schema>
 >;
 
+/**
+ * Streak category ('overall' or a task type)
+ */
+type StreakType = SelectStreak['streakType'];
+
 /**
  * Schema for validating JSONB evidence metrics
  * Ensures metrics are a record of string keys to unknown values
@@ -148,7 +190,7 @@ export class TasksService {
    * @param limit - Pagination limit
    * @param offset - Pagination offset
    * @param typeFilter - Optional filter by task type
-   * @param userTimezone - User's timezone (default: UTC)
+   * @param userTimezone - User's IANA timezone used to resolve the local day (default: UTC)
    */
   async getTodayTasks(
     userId: number,
@@ -160,10 +202,8 @@ export class TasksService {
   ): Promise<GroupedTasks> {
     const startTime = Date.now();
 
-    // Parse date in user's timezone
-    const targetDate = new Date(dateString + 'T00:00:00');
-    const dayStart = startOfDay(toZonedTime(targetDate, userTimezone));
-    const dayEnd = endOfDay(toZonedTime(targetDate, userTimezone));
+    // Resolve the local calendar day to UTC boundaries
+    const { start: dayStart, end: dayEnd } = getLocalDayBounds(dateString, userTimezone);
 
     logger.info(
       { userId, dateString, dayStart, dayEnd, userTimezone },
@@ -200,6 +240,8 @@ export class TasksService {
         dueDate: dailyTasks.dueDate,
         status: dailyTasks.status,
         completedAt: dailyTasks.completedAt,
+        skippedAt: dailyTasks.skippedAt,
+        skipReason: dailyTasks.skipReason,
         priority: dailyTasks.priority,
         estimatedDuration: dailyTasks.metadata,
         createdAt: dailyTasks.createdAt,
@@ -250,6 +292,8 @@ export class TasksService {
       dueDate: task.dueDate,
       status: task.status,
       completedAt: task.completedAt,
+      skippedAt: task.skippedAt,
+      skipReason: task.skipReason,
       priority: task.priority || 0,
       estimatedDuration: null,
       evidence: evidenceByTaskId.get(task.id) || [],
@@ -314,6 +358,7 @@ export class TasksService {
 
   /**
    * Create evidence for a task and mark it complete
+   * Streak days are counted on the user's local calendar
    */
   async createEvidence(userId: number, input: CreateEvidenceInput): Promise<EvidenceResult> {
     // Verify task exists and belongs to user
@@ -336,6 +381,8 @@ export class TasksService {
       // Allow adding evidence to completed tasks, but don't update streak
     }
 
+    const userTimezone = await getUserTimezone(userId);
+
     // Create evidence and update task in transaction
     const result = await db.transaction(async (tx) => {
       // Prepare evidence values based on type
@@ -386,14 +433,70 @@ export class TasksService {
       let newStreak = 0;
 
       if (task.status !== 'completed') {
-        const streakResult = await this.updateUserStreak(tx, userId);
+        const streakResult = await this.updateUserStreak(tx, userId, userTimezone);
+        // Per-type streak (custom tasks are tracked under 'custom')
+        await this.updateUserStreak(tx, userId, userTimezone, task.taskType);
         streakUpdated = true;
         newStreak = streakResult.currentStreak;
       }
 
+      // Keep plan completion counters in sync
+      if (task.planId && task.status !== 'completed') {
+        await taskGeneratorService.refreshPlanCounters(tx, task.planId);
+      }
+
       return { newEvidence, updatedTask, streakUpdated, newStreak };
     });
 
+    // Weigh-ins keep the profile's current weight (and targets) up to date
+    let weightSync: WeightSyncResult | undefined;
+    const loggedWeight = Number(result.newEvidence.metrics?.weight);
+    if (
+      task.taskType === 'weight_log' &&
+      result.newEvidence.metrics?.weight !== undefined &&
+      Number.isFinite(loggedWeight)
+    ) {
+      try {
+        weightSync = await weightSyncService.applyWeighIn(
+          userId,
+          result.newEvidence.id,
+          loggedWeight
+        );
+      } catch (error) {
+        // The weigh-in itself is already stored; syncing can catch up on the next one
+        logger.error(
+          { err: error, userId, evidenceId: result.newEvidence.id },
+          'Failed to sync current weight from weigh-in'
+        );
+      }
+    }
+
+    // Weighted lifts are checked for personal records (which feed the badge system)
+    let personalRecords: PersonalRecord[] | undefined;
+    let evidenceMetrics = result.newEvidence.metrics;
+    if (task.taskType === 'workout' && result.newEvidence.evidenceType === 'metrics') {
+      try {
+        const recordEvent = await strengthAnalyticsService.recordWorkout(
+          userId,
+          task,
+          result.newEvidence
+        );
+        if (recordEvent) {
+          personalRecords = recordEvent.records;
+          evidenceMetrics = {
+            ...evidenceMetrics,
+            personalRecord: recordEvent.records.length > 0,
+          };
+        }
+      } catch (error) {
+        // The workout itself is already stored; records are only missed for this session
+        logger.error(
+          { err: error, userId, evidenceId: result.newEvidence.id },
+          'Failed to detect personal records from workout'
+        );
+      }
+    }
+
     // Fetch full task with evidence
     const fullTask = await this.getTaskById(userId, input.taskId);
 
@@ -403,7 +506,7 @@ export class TasksService {
         id: result.newEvidence.id,
         type: result.newEvidence.evidenceType,
         notes: result.newEvidence.notes,
-        metrics: validateMetrics(result.newEvidence.metrics),
+        metrics: validateMetrics(evidenceMetrics),
         photoUrl: result.newEvidence.photoUrl,
         photoStorageKey: result.newEvidence.photoStorageKey,
         recordedAt: result.newEvidence.recordedAt,
@@ -411,9 +514,248 @@ export class TasksService {
       },
       streakUpdated: result.streakUpdated,
       newStreak: result.newStreak,
+      weightSync,
+      personalRecords,
+    };
+  }
+
+  /**
+   * Mark a task as in progress
+   * Idempotent - starting a task that is already in progress returns it unchanged
+   *
+   * @param userId - Authenticated user ID
+   * @param taskId - Task to start
+   * @returns Updated task with evidence
+   * @throws {AppError} 404 if task not found, 409 if task is already completed
+   */
+  async startTask(userId: number, taskId: number): Promise<TaskWithEvidence> {
+    const task = await this.getOwnedTask(userId, taskId);
+
+    if (task.status === 'completed') {
+      throw new AppError(409, `Task ${taskId} is already completed`);
+    }
+
+    if (task.status !== 'in_progress') {
+      await db
+        .update(dailyTasks)
+        .set({
+          status: 'in_progress',
+          skippedAt: null,
+          skipReason: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(dailyTasks.id, taskId));
+
+      logger.info({ userId, taskId, previousStatus: task.status }, 'Task started');
+    }
+
+    return this.getTaskById(userId, taskId);
+  }
+
+  /**
+   * Skip a task with a reason
+   * Skipping an already skipped task updates the reason
+   *
+   * @param userId - Authenticated user ID
+   * @param taskId - Task to skip
+   * @param input - Skip reason
+   * @returns Updated task with evidence
+   * @throws {AppError} 404 if task not found, 409 if task is completed (undo first)
+   */
+  async skipTask(userId: number, taskId: number, input: SkipTaskInput): Promise<TaskWithEvidence> {
+    const task = await this.getOwnedTask(userId, taskId);
+
+    if (task.status === 'completed') {
+      throw new AppError(409, `Task ${taskId} is completed - undo the completion before skipping`);
+    }
+
+    const now = new Date();
+    await db
+      .update(dailyTasks)
+      .set({
+        status: 'skipped',
+        skippedAt: task.status === 'skipped' && task.skippedAt ? task.skippedAt : now,
+        skipReason: sanitizeText(input.reason, 500),
+        updatedAt: now,
+      })
+      .where(eq(dailyTasks.id, taskId));
+
+    logger.info({ userId, taskId, previousStatus: task.status }, 'Task skipped');
+
+    return this.getTaskById(userId, taskId);
+  }
+
+  /**
+   * Revert a completed task back to pending
+   * Removes its evidence and rolls back the streak effect of the completion
+   *
+   * @param userId - Authenticated user ID
+   * @param taskId - Completed task to revert
+   * @returns Reverted task, removed evidence count and streak after rollback
+   * @throws {AppError} 404 if task not found, 409 if task is not completed or was imported
+   *
+   * @remarks
+   * - Evidence rows and photo links (task_evidence) are deleted; photos themselves are kept
+   * - Personal records set by the evidence are deleted with it
+   * - The streak is only rolled back when no other task was completed on the same local day
+   * - Plan completion counters are refreshed
+   * - Undoing a weigh-in re-derives the current weight from the remaining weigh-ins
+   */
+  async undoCompletion(userId: number, taskId: number): Promise<UndoCompletionResult> {
+    const task = await this.getOwnedTask(userId, taskId);
+
+    if (task.status !== 'completed') {
+      throw new AppError(409, `Task ${taskId} is not completed`);
+    }
+
+    // Backfilled history was never counted toward streaks, so there is nothing to undo
+    if (task.healthImportId) {
+      throw new AppError(409, `Task ${taskId} was imported from a health data export`);
+    }
+
+    const userTimezone = await getUserTimezone(userId);
+    const completedAt = task.completedAt ?? task.updatedAt;
+
+    const result = await db.transaction(async (tx) => {
+      const removedEvidence = await tx
+        .delete(evidence)
+        .where(eq(evidence.taskId, taskId))
+        .returning({ id: evidence.id, metrics: evidence.metrics, recordedAt: evidence.recordedAt });
+
+      await tx.delete(taskEvidence).where(eq(taskEvidence.taskId, taskId));
+
+      await tx
+        .update(dailyTasks)
+        .set({
+          status: 'pending',
+          completedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(dailyTasks.id, taskId));
+
+      const streakResult = await this.rollbackUserStreak(tx, userId, completedAt, userTimezone);
+      await this.rollbackUserStreak(tx, userId, completedAt, userTimezone, task.taskType);
+
+      if (task.planId) {
+        await taskGeneratorService.refreshPlanCounters(tx, task.planId);
+      }
+
+      return {
+        evidenceRemoved: removedEvidence.length,
+        removedEvidence,
+        ...streakResult,
+      };
+    });
+
+    // An undone weigh-in must not keep driving the current weight (and targets)
+    if (task.taskType === 'weight_log') {
+      const removedWeighIns = result.removedEvidence
+        .map((row) => ({ weight: Number(row.metrics?.weight), recordedAt: row.recordedAt }))
+        .filter((w) => Number.isFinite(w.weight) && w.weight > 0);
+
+      if (removedWeighIns.length > 0) {
+        try {
+          await weightSyncService.revertWeighIns(userId, removedWeighIns);
+        } catch (error) {
+          // The undo itself is already committed; the next weigh-in resyncs the weight
+          logger.error(
+            { err: error, userId, taskId },
+            'Failed to resync current weight after undo'
+          );
+        }
+      }
+    }
+
+    logger.info(
+      {
+        userId,
+        taskId,
+        evidenceRemoved: result.evidenceRemoved,
+        streakRolledBack: result.streakRolledBack,
+      },
+      'Task completion undone'
+    );
+
+    const fullTask = await this.getTaskById(userId, taskId);
+
+    return {
+      task: fullTask,
+      evidenceRemoved: result.evidenceRemoved,
+      streakRolledBack: result.streakRolledBack,
+      newStreak: result.newStreak,
     };
   }
 
+  /**
+   * Move a task to another local day (and optionally another time)
+   *
+   * @param userId - Authenticated user ID
+   * @param taskId - Task to move
+   * @param input - New local date and optional due time
+   * @returns Updated task with evidence
+   * @throws {AppError} 404 if task not found, 409 if task is completed
+   *
+   * @remarks
+   * - Date and time are interpreted in the user's timezone
+   * - Skipped tasks are moved back to pending
+   */
+  async rescheduleTask(
+    userId: number,
+    taskId: number,
+    input: RescheduleTaskInput
+  ): Promise<TaskWithEvidence> {
+    const task = await this.getOwnedTask(userId, taskId);
+
+    if (task.status === 'completed') {
+      throw new AppError(409, `Task ${taskId} is completed and cannot be rescheduled`);
+    }
+
+    const userTimezone = await getUserTimezone(userId);
+    const dueTime = input.dueTime
+      ? input.dueTime.length === 5
+        ? `${input.dueTime}:00`
+        : input.dueTime
+      : task.dueTime ?? formatInTimeZone(task.dueDate, userTimezone, 'HH:mm:ss');
+    const dueDate = fromZonedTime(`${input.date}T${dueTime}`, userTimezone);
+
+    await db
+      .update(dailyTasks)
+      .set({
+        dueDate,
+        dueTime,
+        ...(task.status === 'skipped'
+          ? { status: 'pending' as const, skippedAt: null, skipReason: null }
+          : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(dailyTasks.id, taskId));
+
+    logger.info(
+      { userId, taskId, from: task.dueDate, to: dueDate, timezone: userTimezone },
+      'Task rescheduled'
+    );
+
+    return this.getTaskById(userId, taskId);
+  }
+
+  /**
+   * Fetch a task row and verify ownership
+   * @throws {AppError} 404 if task does not exist or belongs to another user
+   */
+  private async getOwnedTask(userId: number, taskId: number): Promise<SelectDailyTask> {
+    const [task] = await db
+      .select()
+      .from(dailyTasks)
+      .where(and(eq(dailyTasks.id, taskId), eq(dailyTasks.userId, userId)))
+      .limit(1);
+
+    if (!task) {
+      throw new AppError(404, `Task ${taskId} not found for user ${userId}`);
+    }
+
+    return task;
+  }
+
   /**
    * Get a single task by ID with evidence
    */
@@ -429,6 +771,8 @@ export class TasksService {
         dueDate: dailyTasks.dueDate,
         status: dailyTasks.status,
         completedAt: dailyTasks.completedAt,
+        skippedAt: dailyTasks.skippedAt,
+        skipReason: dailyTasks.skipReason,
         priority: dailyTasks.priority,
         estimatedDuration: dailyTasks.metadata,
         createdAt: dailyTasks.createdAt,
@@ -471,6 +815,8 @@ export class TasksService {
       dueDate: task.dueDate,
       status: task.status,
       completedAt: task.completedAt,
+      skippedAt: task.skippedAt,
+      skipReason: task.skipReason,
       priority: task.priority || 0,
       estimatedDuration: null,
       evidence: evidenceItems,
@@ -514,17 +860,29 @@ export class TasksService {
    * Update user streak after task completion
    * @param tx - Database transaction instance
    * @param userId - User ID to update streak for
+   * @param userTimezone - User's IANA timezone used to decide which local day the completion counts for
+   * @param streakType - Streak to update ('overall' or the completed task's type)
    * @returns Updated streak record
+   *
+   * @remarks
+   * - lastCompletedDate is stored as the UTC instant of local midnight
+   * - Day comparisons use local date strings, so DST and UTC offsets never split a day
    */
-  private async updateUserStreak(tx: DbTransaction, userId: number): Promise<SelectStreak> {
+  private async updateUserStreak(
+    tx: DbTransaction,
+    userId: number,
+    userTimezone: string,
+    streakType: StreakType = 'overall'
+  ): Promise<SelectStreak> {
     const [existingStreak] = await tx
       .select()
       .from(streaks)
-      .where(and(eq(streaks.userId, userId), eq(streaks.streakType, 'overall')))
+      .where(and(eq(streaks.userId, userId), eq(streaks.streakType, streakType)))
       .limit(1);
 
     const now = new Date();
-    const today = startOfDay(now);
+    const todayStr = getLocalDateString(userTimezone, now);
+    const today = getLocalDayBounds(todayStr, userTimezone).start;
 
     if (!existingStreak) {
       // First completion ever
@@ -532,7 +890,7 @@ export class TasksService {
         .insert(streaks)
         .values({
           userId,
-          streakType: 'overall',
+          streakType,
           currentStreak: 1,
           longestStreak: 1,
           totalCompletions: 1,
@@ -540,26 +898,23 @@ export class TasksService {
         })
         .returning();
 
-      logger.info({ userId, streak: 1 }, 'Started new streak');
+      logger.info({ userId, streakType, streak: 1 }, 'Started new streak');
       return newStreak;
     }
 
-    // Check if already completed today
-    const lastCompletion = existingStreak.lastCompletedDate
-      ? startOfDay(new Date(existingStreak.lastCompletedDate))
+    // Check if already completed today (in user's timezone)
+    const lastCompletionStr = existingStreak.lastCompletedDate
+      ? getLocalDateString(userTimezone, new Date(existingStreak.lastCompletedDate))
       : null;
 
-    if (lastCompletion && lastCompletion.getTime() === today.getTime()) {
+    if (lastCompletionStr === todayStr) {
       // Already counted today, no update needed
       return existingStreak;
     }
 
-    // Check if completing yesterday (streak continues)
-    const yesterday = startOfDay(subDays(now, 1));
-    const streakContinues =
-      lastCompletion &&
-      (lastCompletion.getTime() === yesterday.getTime() ||
-        lastCompletion.getTime() === today.getTime());
+    // Check if last completion was yesterday (streak continues)
+    const yesterdayStr = addLocalDays(todayStr, -1);
+    const streakContinues = lastCompletionStr === yesterdayStr;
 
     // Use SQL-level atomic operations to prevent race conditions during concurrent updates
     const [updatedStreak] = await tx
@@ -575,19 +930,113 @@ export class TasksService {
         lastCompletedDate: today,
         updatedAt: now,
       })
-      .where(and(eq(streaks.userId, userId), eq(streaks.streakType, 'overall')))
+      .where(and(eq(streaks.userId, userId), eq(streaks.streakType, streakType)))
       .returning();
 
     logger.info(
       {
         userId,
+        streakType,
         currentStreak: updatedStreak.currentStreak,
         longestStreak: updatedStreak.longestStreak,
         streakContinued: streakContinues,
+        timezone: userTimezone,
       },
       'Updated user streak'
     );
 
     return updatedStreak;
   }
+
+  /**
+   * Roll back the streak effect of an undone completion
+   * @param tx - Database transaction instance
+   * @param userId - User ID to roll back streak for
+   * @param completedAt - When the undone task was completed
+   * @param userTimezone - User's IANA timezone used to resolve the completion's local day
+   * @param streakType - Streak to roll back ('overall' or the undone task's type)
+   * @returns Whether the streak changed and the resulting current streak
+   *
+   * @remarks
+   * - No-op if another task (of the same type, for per-type streaks) is still completed on the same local day
+   * - Only the most recent counted day can be rolled back; older days are left as-is
+   * - longestStreak is decremented only if the undone day set it
+   */
+  private async rollbackUserStreak(
+    tx: DbTransaction,
+    userId: number,
+    completedAt: Date,
+    userTimezone: string,
+    streakType: StreakType = 'overall'
+  ): Promise<{ streakRolledBack: boolean; newStreak: number }> {
+    const [existingStreak] = await tx
+      .select()
+      .from(streaks)
+      .where(and(eq(streaks.userId, userId), eq(streaks.streakType, streakType)))
+      .for('update')
+      .limit(1);
+
+    if (!existingStreak) {
+      return { streakRolledBack: false, newStreak: 0 };
+    }
+
+    const completionDay = getLocalDateString(userTimezone, completedAt);
+    const { start: dayStart, end: dayEnd } = getLocalDayBounds(completionDay, userTimezone);
+
+    // Another completion on the same local day still counts the day
+    const [otherCompletions] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(dailyTasks)
+      .where(
+        and(
+          eq(dailyTasks.userId, userId),
+          eq(dailyTasks.status, 'completed'),
+          gte(dailyTasks.completedAt, dayStart),
+          lte(dailyTasks.completedAt, dayEnd),
+          isNull(dailyTasks.healthImportId),
+          streakType === 'overall' ? undefined : eq(dailyTasks.taskType, streakType)
+        )
+      );
+
+    const lastCompletionStr = existingStreak.lastCompletedDate
+      ? getLocalDateString(userTimezone, new Date(existingStreak.lastCompletedDate))
+      : null;
+
+    if ((otherCompletions?.count || 0) > 0 || lastCompletionStr !== completionDay) {
+      return { streakRolledBack: false, newStreak: existingStreak.currentStreak };
+    }
+
+    const newCurrent = Math.max(existingStreak.currentStreak - 1, 0);
+    const previousDay = addLocalDays(completionDay, -1);
+
+    const [updatedStreak] = await tx
+      .update(streaks)
+      .set({
+        currentStreak: newCurrent,
+        longestStreak:
+          existingStreak.longestStreak === existingStreak.currentStreak
+            ? Math.max(existingStreak.longestStreak - 1, 0)
+            : existingStreak.longestStreak,
+        totalCompletions: Math.max(existingStreak.totalCompletions - 1, 0),
+        lastCompletedDate:
+          newCurrent > 0 ? getLocalDayBounds(previousDay, userTimezone).start : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(streaks.id, existingStreak.id))
+      .returning();
+
+    logger.info(
+      {
+        userId,
+        streakType,
+        completionDay,
+        previousStreak: existingStreak.currentStreak,
+        currentStreak: updatedStreak.currentStreak,
+        timezone: userTimezone,
+      },
+      'Rolled back user streak'
+    );
+
+    return { streakRolledBack: true, newStreak: updatedStreak.currentStreak };
+  }
 }
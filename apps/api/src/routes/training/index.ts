@@ -0,0 +1,69 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../../config/logger';
+import { AppError } from '../../middleware/error';
+import { requireAuth } from '../../middleware/auth';
+import { trainingProgramService } from '../../services/training-program';
+
+const router = Router();
+const tracer = trace.getTracer('training-routes');
+
+/**
+ * GET /v1/training/program
+ * Get this week's training program with progression applied
+ *
+ * Response: TrainingProgram
+ * - split: full_body, upper_lower or push_pull_legs (from goal and workout days)
+ * - sessions: one per workout day, each exercise with sets, reps, weight and the reason for
+ *   the change since its last logged session (deloads after repeated very_hard sessions)
+ *
+ * Progression reads workout evidence (actualSets, actualReps, actualWeight, difficulty) logged
+ * on program workout tasks; the same prescriptions appear as the week's workout tasks
+ */
+router.get(
+  '/training/program',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const span = tracer.startSpan('GET /v1/training/program');
+
+    try {
+      span.setAttributes({
+        'user.id': req.userId,
+        'http.method': 'GET',
+        'http.route': '/v1/training/program',
+      });
+
+      const program = await trainingProgramService.getProgram(req.userId!);
+
+      span.setAttributes({
+        'program.split': program.split,
+        'program.days_per_week': program.daysPerWeek,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      res.status(200).json({ success: true, data: program });
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (error instanceof AppError) {
+        span.recordException(error);
+        next(error);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error(
+          { userId: req.userId, error, errorMessage },
+          'Unexpected error building training program'
+        );
+        span.recordException(error as Error);
+        next(new AppError(500, `Failed to build training program: ${errorMessage}`));
+      }
+    } finally {
+      span.end();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,267 @@
+import {
+  elevationGain,
+  parseActivityFile,
+  parseFit,
+  parseGpx,
+  parseTcx,
+  summarizeActivity,
+} from './activity-files';
+import { AppError } from '../middleware/error';
+
+describe('Activity files', () => {
+  describe('GPX', () => {
+    const trackPoint = (latitude: number, time: string, elevation: number, heartRate: number) => `
+      <trkpt lat="${latitude}" lon="-0.1">
+        <ele>${elevation}</ele>
+        <time>${time}</time>
+        <extensions>
+          <gpxtpx:TrackPointExtension><gpxtpx:hr>${heartRate}</gpxtpx:hr></gpxtpx:TrackPointExtension>
+        </extensions>
+      </trkpt>`;
+
+    const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+      <gpx version="1.1" creator="test">
+        <trk>
+          <name>Morning Run</name>
+          <type>running</type>
+          <trkseg>
+            ${trackPoint(51.5, '2025-01-06T06:30:00Z', 10, 140)}
+            ${trackPoint(51.509, '2025-01-06T06:36:00Z', 11, 150)}
+            ${trackPoint(51.518, '2025-01-06T06:42:00Z', 15, 160)}
+          </trkseg>
+        </trk>
+      </gpx>`;
+
+    it('should summarize distance, heart rate, pace and elevation from track points', () => {
+      const summary = summarizeActivity(parseGpx(gpx));
+
+      expect(summary).toMatchObject({
+        format: 'gpx',
+        activityType: 'running',
+        startTime: new Date('2025-01-06T06:30:00Z'),
+        distance: 2,
+        duration: 12,
+        avgHeartRate: 150,
+        maxHeartRate: 160,
+        avgPace: 6,
+        elevationGain: 5,
+        caloriesBurned: null,
+        trackPoints: 3,
+      });
+    });
+
+    it('should reject files that are not GPX', () => {
+      expect(() => parseGpx('<kml></kml>')).toThrow(AppError);
+    });
+
+    it('should scan malformed files with unclosed tags in linear time', () => {
+      const malformed = `<gpx><trk>${'<trkpt lat="51.5" lon="-0.1">'.repeat(100000)}</trk></gpx>`;
+
+      expect(parseGpx(malformed).points).toEqual([]);
+    });
+  });
+
+  describe('TCX', () => {
+    const trackPoint = (time: string, distance: number, heartRate: number) => `
+      <Trackpoint>
+        <Time>${time}</Time>
+        <DistanceMeters>${distance}</DistanceMeters>
+        <HeartRateBpm><Value>${heartRate}</Value></HeartRateBpm>
+      </Trackpoint>`;
+
+    const tcx = `<?xml version="1.0" encoding="UTF-8"?>
+      <TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+        <Activities>
+          <Activity Sport="Biking">
+            <Id>2025-01-06T17:00:00Z</Id>
+            <Lap StartTime="2025-01-06T17:00:00Z">
+              <TotalTimeSeconds>1500</TotalTimeSeconds>
+              <DistanceMeters>4000</DistanceMeters>
+              <MaximumHeartRateBpm><Value>165</Value></MaximumHeartRateBpm>
+              <Calories>300</Calories>
+              <Track>
+                ${trackPoint('2025-01-06T17:00:00Z', 0, 130)}
+                ${trackPoint('2025-01-06T17:24:50Z', 3990, 150)}
+              </Track>
+            </Lap>
+          </Activity>
+        </Activities>
+      </TrainingCenterDatabase>`;
+
+    it('should prefer lap totals over track points', () => {
+      const summary = summarizeActivity(parseTcx(tcx));
+
+      expect(summary).toMatchObject({
+        format: 'tcx',
+        activityType: 'cycling',
+        distance: 4,
+        duration: 25,
+        avgHeartRate: 140,
+        maxHeartRate: 165,
+        avgPace: 6.25,
+        elevationGain: null,
+        caloriesBurned: 300,
+      });
+    });
+  });
+
+  describe('FIT', () => {
+    // 2025-01-06T06:30:00Z in seconds since the FIT epoch
+    const start = 1105079400;
+
+    const definition = (
+      localMessage: number,
+      globalMessage: number,
+      fields: Array<[number, number, number]>
+    ): Buffer => {
+      const message = Buffer.alloc(6 + fields.length * 3);
+      message[0] = 0x40 | localMessage;
+      message.writeUInt16LE(globalMessage, 3);
+      message[5] = fields.length;
+      fields.forEach(([number, size, baseType], i) => {
+        message[6 + i * 3] = number;
+        message[7 + i * 3] = size;
+        message[8 + i * 3] = baseType;
+      });
+      return message;
+    };
+
+    const position = (latitude: number, elevation: number, heartRate: number, distance: number) => {
+      const fields = Buffer.alloc(15);
+      fields.writeInt32LE(Math.round((latitude * 2 ** 31) / 180), 0);
+      fields.writeInt32LE(0, 4);
+      fields.writeUInt16LE((elevation + 500) * 5, 8);
+      fields[10] = heartRate;
+      fields.writeUInt32LE(distance * 100, 11);
+      return fields;
+    };
+
+    const record = (timestamp: number, ...values: Parameters<typeof position>): Buffer => {
+      const time = Buffer.alloc(4);
+      time.writeUInt32LE(timestamp);
+      return Buffer.concat([Buffer.from([0]), time, position(...values)]);
+    };
+
+    const positionFields: Array<[number, number, number]> = [
+      [0, 4, 0x85],
+      [1, 4, 0x85],
+      [2, 2, 0x84],
+      [3, 1, 0x02],
+      [5, 4, 0x86],
+    ];
+
+    const fitFile = (...messages: Buffer[]): Buffer => {
+      const body = Buffer.concat(messages);
+      const header = Buffer.alloc(14);
+      header[0] = 14;
+      header[1] = 0x10;
+      header.writeUInt32LE(body.length, 4);
+      header.write('.FIT', 8, 'ascii');
+      return Buffer.concat([header, body, Buffer.alloc(2)]);
+    };
+
+    it('should read records, compressed timestamps and session totals', () => {
+      const session = Buffer.alloc(20);
+      session[0] = 1;
+      session.writeUInt32LE(start, 1);
+      session[5] = 1; // running
+      session.writeUInt32LE(1800 * 1000, 6);
+      session.writeUInt32LE(5000 * 100, 10);
+      session.writeUInt16LE(350, 14);
+      session[16] = 150;
+      session[17] = 170;
+      session.writeUInt16LE(40, 18);
+
+      const file = fitFile(
+        definition(0, 20, [[253, 4, 0x86], ...positionFields]),
+        definition(2, 20, positionFields),
+        record(start, 51.5, 10, 140, 0),
+        // Compressed timestamp header: local message 2, five seconds later
+        Buffer.concat([
+          Buffer.from([0x80 | (2 << 5) | ((start + 5) & 0x1f)]),
+          position(51.50005, 12, 145, 5.5),
+        ]),
+        definition(1, 18, [
+          [2, 4, 0x86],
+          [5, 1, 0x00],
+          [7, 4, 0x86],
+          [9, 4, 0x86],
+          [11, 2, 0x84],
+          [16, 1, 0x02],
+          [17, 1, 0x02],
+          [22, 2, 0x84],
+        ]),
+        session
+      );
+
+      const parsed = parseFit(file);
+
+      expect(parsed.points).toHaveLength(2);
+      expect(parsed.points[1]).toMatchObject({
+        time: new Date('2025-01-06T06:30:05Z'),
+        elevation: 12,
+        heartRate: 145,
+        distance: 5.5,
+      });
+      expect(parsed.points[1].latitude).toBeCloseTo(51.50005, 5);
+      expect(summarizeActivity(parsed)).toMatchObject({
+        format: 'fit',
+        activityType: 'running',
+        startTime: new Date('2025-01-06T06:30:00Z'),
+        endTime: new Date('2025-01-06T07:00:00Z'),
+        distance: 5,
+        duration: 30,
+        avgHeartRate: 150,
+        maxHeartRate: 170,
+        avgPace: 6,
+        elevationGain: 40,
+        caloriesBurned: 350,
+      });
+    });
+
+    it('should reject truncated and non-FIT files', () => {
+      const file = fitFile(
+        definition(0, 20, [[253, 4, 0x86], ...positionFields]),
+        record(start, 51.5, 10, 140, 0)
+      );
+
+      expect(() => parseActivityFile(file.subarray(0, file.length - 8), 'fit')).toThrow(
+        'FIT file is truncated or corrupt'
+      );
+      expect(() => parseActivityFile(Buffer.from('not a fit file'), 'fit')).toThrow(AppError);
+    });
+  });
+
+  describe('elevationGain', () => {
+    it('should ignore rises smaller than the noise threshold', () => {
+      expect(elevationGain([10, 11, 10, 11, 10, 11], 2)).toBe(0);
+      expect(elevationGain([10, 11, 12, 13, 9, 14], 2)).toBe(7);
+    });
+  });
+
+  describe('summarizeActivity', () => {
+    it('should reject recordings too short to count', () => {
+      expect(() =>
+        summarizeActivity({
+          format: 'gpx',
+          activityType: 'running',
+          points: [{ time: new Date('2025-01-06T06:30:00Z') }],
+          totals: {},
+        })
+      ).toThrow('Activity is too short to import');
+    });
+
+    it('should handle long 1 Hz recordings', () => {
+      const start = Date.parse('2025-01-06T06:00:00Z');
+      const points = Array.from({ length: 200000 }, (_, second) => ({
+        time: new Date(start + second * 1000),
+        distance: second * 3,
+        heartRate: 120 + (second % 50),
+      }));
+
+      expect(
+        summarizeActivity({ format: 'fit', activityType: 'cycling', points, totals: {} })
+      ).toMatchObject({ distance: 600, maxHeartRate: 169 });
+    });
+  });
+});
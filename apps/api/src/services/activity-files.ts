@@ -0,0 +1,641 @@
+/**
+ * Activity File Parsing
+ *
+ * Reads recorded sessions from GPX, TCX and FIT files and summarizes them as cardio metrics
+ * (distance, duration, heart rate, pace, elevation gain).
+ *
+ * GPX and TCX are read with a small tag scanner rather than a full XML parser: the files are
+ * machine-written, flat lists of track points and only a handful of elements matter. FIT files
+ * are decoded directly from the binary record stream (definition + data messages); only the
+ * `record` and `session` messages are read.
+ */
+
+import {
+  ACTIVITY_IMPORT_SETTINGS,
+  type ActivityFileFormat,
+  type ActivitySummary,
+  type ActivityType,
+} from '@gtsd/shared-types';
+import { AppError } from '../middleware/error';
+
+/**
+ * A single sample from the recording
+ */
+export interface ActivityTrackPoint {
+  time?: Date;
+  latitude?: number;
+  longitude?: number;
+  /** Meters above sea level */
+  elevation?: number;
+  heartRate?: number;
+  /** Cumulative meters as measured by the device */
+  distance?: number;
+}
+
+/**
+ * Session totals recorded by the device, when the file has them
+ */
+export interface ActivityTotals {
+  startTime?: Date;
+  elapsedSeconds?: number;
+  distanceMeters?: number;
+  calories?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  elevationGain?: number;
+}
+
+/**
+ * Activity file contents, before summarizing
+ */
+export interface ParsedActivity {
+  format: ActivityFileFormat;
+  activityType: ActivityType;
+  points: ActivityTrackPoint[];
+  totals: ActivityTotals;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+ */
+const FIT_EPOCH_OFFSET = 631065600;
+
+const FIT_MESSAGE = {
+  session: 18,
+  record: 20,
+} as const;
+
+const FIT_SPORTS: Record<number, ActivityType> = {
+  1: 'running',
+  2: 'cycling',
+  5: 'swimming',
+  11: 'walking',
+  17: 'hiking',
+};
+
+function round(value: number, decimals = 0): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function parseTime(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? undefined : time;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Map a sport name from a GPX `<type>` or TCX `Sport` attribute to an activity type
+ */
+export function normalizeActivityType(sport: string | undefined): ActivityType {
+  const name = (sport ?? '').toLowerCase();
+  if (name.includes('run')) return 'running';
+  if (name.includes('bik') || name.includes('cycl') || name.includes('ride')) return 'cycling';
+  if (name.includes('walk')) return 'walking';
+  if (name.includes('hik')) return 'hiking';
+  if (name.includes('swim')) return 'swimming';
+  return 'other';
+}
+
+// ============================================================================
+// XML (GPX / TCX)
+// ============================================================================
+
+interface XmlElement {
+  attributes: string;
+  body: string;
+}
+
+/**
+ * Find every `<tag>` element, with or without a namespace prefix (e.g. `<gpxtpx:hr>`)
+ *
+ * Tags are matched in a single pass with a stack, so unclosed or stray tags in a malformed
+ * upload cost linear time instead of a rescan of the rest of the file for each one.
+ * Unclosed elements are dropped.
+ */
+function xmlElements(xml: string, tag: string): XmlElement[] {
+  const tagPattern = /<(\/?)(?:[\w-]+:)?([\w-]+)([^<>]*)>/g;
+  const elements: Array<XmlElement & { closed: boolean }> = [];
+  const open: Array<{ element: XmlElement & { closed: boolean }; bodyStart: number }> = [];
+
+  for (const match of xml.matchAll(tagPattern)) {
+    const [source, closing, name, rest] = match;
+    if (name !== tag) {
+      continue;
+    }
+
+    if (closing) {
+      const start = open.pop();
+      if (start) {
+        start.element.body = xml.slice(start.bodyStart, match.index);
+        start.element.closed = true;
+      }
+    } else if (rest.endsWith('/')) {
+      elements.push({ attributes: rest.slice(0, -1), body: '', closed: true });
+    } else {
+      const element = { attributes: rest, body: '', closed: false };
+      elements.push(element);
+      open.push({ element, bodyStart: match.index! + source.length });
+    }
+  }
+
+  return elements
+    .filter((element) => element.closed)
+    .map(({ attributes, body }) => ({ attributes, body }));
+}
+
+function xmlText(xml: string, tag: string): string | undefined {
+  return xmlElements(xml, tag)[0]?.body.trim();
+}
+
+function xmlNumber(xml: string, tag: string): number | undefined {
+  return parseNumber(xmlText(xml, tag));
+}
+
+function xmlAttribute(attributes: string, name: string): string | undefined {
+  return new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`).exec(attributes)?.[1];
+}
+
+/**
+ * Parse a GPX track
+ * Heart rate is read from Garmin TrackPointExtension (`<gpxtpx:hr>`) or any `<hr>` extension
+ */
+export function parseGpx(xml: string): ParsedActivity {
+  if (!/<gpx\b/.test(xml)) {
+    throw new AppError(400, 'File is not a valid GPX file');
+  }
+
+  const points = xmlElements(xml, 'trkpt').map(({ attributes, body }) => ({
+    time: parseTime(xmlText(body, 'time')),
+    latitude: parseNumber(xmlAttribute(attributes, 'lat')),
+    longitude: parseNumber(xmlAttribute(attributes, 'lon')),
+    elevation: xmlNumber(body, 'ele'),
+    heartRate: xmlNumber(body, 'hr'),
+  }));
+  const track = xmlElements(xml, 'trk')[0];
+
+  return {
+    format: 'gpx',
+    activityType: normalizeActivityType(track ? xmlText(track.body, 'type') : undefined),
+    points,
+    totals: {},
+  };
+}
+
+/**
+ * Parse a TCX activity
+ * Lap totals (time, distance, calories, max heart rate) are summed across laps
+ */
+export function parseTcx(xml: string): ParsedActivity {
+  if (!/<TrainingCenterDatabase\b/.test(xml)) {
+    throw new AppError(400, 'File is not a valid TCX file');
+  }
+
+  const activity = xmlElements(xml, 'Activity')[0];
+  if (!activity) {
+    throw new AppError(400, 'TCX file has no activity');
+  }
+
+  const totals: ActivityTotals = {};
+  const add = (key: 'elapsedSeconds' | 'distanceMeters' | 'calories', value?: number): void => {
+    if (value !== undefined) {
+      totals[key] = (totals[key] ?? 0) + value;
+    }
+  };
+
+  for (const lap of xmlElements(activity.body, 'Lap')) {
+    totals.startTime ??= parseTime(xmlAttribute(lap.attributes, 'StartTime'));
+
+    // Lap totals sit next to the track, whose points repeat the same element names
+    const lapTotals = lap.body.replace(/<(?:[\w-]+:)?Track\b[\s\S]*?<\/(?:[\w-]+:)?Track>/g, '');
+    add('elapsedSeconds', xmlNumber(lapTotals, 'TotalTimeSeconds'));
+    add('distanceMeters', xmlNumber(lapTotals, 'DistanceMeters'));
+    add('calories', xmlNumber(lapTotals, 'Calories'));
+
+    const maxHeartRate = xmlNumber(xmlText(lapTotals, 'MaximumHeartRateBpm') ?? '', 'Value');
+    if (maxHeartRate !== undefined) {
+      totals.maxHeartRate = Math.max(totals.maxHeartRate ?? 0, maxHeartRate);
+    }
+  }
+
+  const points = xmlElements(activity.body, 'Trackpoint').map(({ body }) => {
+    const position = xmlText(body, 'Position') ?? '';
+    return {
+      time: parseTime(xmlText(body, 'Time')),
+      latitude: xmlNumber(position, 'LatitudeDegrees'),
+      longitude: xmlNumber(position, 'LongitudeDegrees'),
+      elevation: xmlNumber(body, 'AltitudeMeters'),
+      heartRate: xmlNumber(xmlText(body, 'HeartRateBpm') ?? '', 'Value'),
+      distance: xmlNumber(body, 'DistanceMeters'),
+    };
+  });
+
+  totals.startTime ??= parseTime(xmlText(activity.body, 'Id'));
+
+  return {
+    format: 'tcx',
+    activityType: normalizeActivityType(xmlAttribute(activity.attributes, 'Sport')),
+    points,
+    totals,
+  };
+}
+
+// ============================================================================
+// FIT
+// ============================================================================
+
+interface FitFieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitDefinition {
+  globalMessage: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  /** Bytes of developer data after the fields (skipped) */
+  developerSize: number;
+}
+
+/**
+ * Read a single numeric FIT field, or undefined for arrays, strings and invalid values
+ */
+function readFitValue(
+  view: DataView,
+  offset: number,
+  field: FitFieldDefinition,
+  littleEndian: boolean
+): number | undefined {
+  const { size, baseType } = field;
+
+  switch (baseType & 0x1f) {
+    case 0: // enum
+    case 2: // uint8
+    case 13: {
+      // byte
+      if (size !== 1) return undefined;
+      const value = view.getUint8(offset);
+      return value === 0xff ? undefined : value;
+    }
+    case 10: {
+      // uint8z
+      if (size !== 1) return undefined;
+      return view.getUint8(offset) || undefined;
+    }
+    case 1: {
+      // sint8
+      if (size !== 1) return undefined;
+      const value = view.getInt8(offset);
+      return value === 0x7f ? undefined : value;
+    }
+    case 3: {
+      // sint16
+      if (size !== 2) return undefined;
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? undefined : value;
+    }
+    case 4: {
+      // uint16
+      if (size !== 2) return undefined;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? undefined : value;
+    }
+    case 11: {
+      // uint16z
+      if (size !== 2) return undefined;
+      return view.getUint16(offset, littleEndian) || undefined;
+    }
+    case 5: {
+      // sint32
+      if (size !== 4) return undefined;
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? undefined : value;
+    }
+    case 6: {
+      // uint32
+      if (size !== 4) return undefined;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? undefined : value;
+    }
+    case 12: {
+      // uint32z
+      if (size !== 4) return undefined;
+      return view.getUint32(offset, littleEndian) || undefined;
+    }
+    case 8: {
+      // float32
+      if (size !== 4) return undefined;
+      const value = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function fitTime(timestamp: number): Date {
+  return new Date((timestamp + FIT_EPOCH_OFFSET) * 1000);
+}
+
+function semicirclesToDegrees(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : value * (180 / 2 ** 31);
+}
+
+/**
+ * Parse a FIT activity file
+ * Reads `record` messages as track points and `session` messages as device totals
+ */
+export function parseFit(data: Buffer): ParsedActivity {
+  const headerSize = data.length > 0 ? data[0] : 0;
+  if (
+    (headerSize !== 12 && headerSize !== 14) ||
+    data.length < headerSize ||
+    data.toString('ascii', 8, 12) !== '.FIT'
+  ) {
+    throw new AppError(400, 'File is not a valid FIT file');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const end = Math.min(headerSize + view.getUint32(4, true), data.length);
+  const definitions = new Map<number, FitDefinition>();
+  const points: ActivityTrackPoint[] = [];
+  const totals: ActivityTotals = {};
+  let sport: number | undefined;
+  let lastTimestamp: number | undefined;
+  let offset = headerSize;
+
+  try {
+    while (offset < end) {
+      const header = data[offset++];
+
+      if ((header & 0x40) !== 0 && (header & 0x80) === 0) {
+        // Definition message
+        const localMessage = header & 0x0f;
+        const littleEndian = data[offset + 1] === 0;
+        const globalMessage = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = data[offset + 4];
+        offset += 5;
+
+        const fields: FitFieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({ number: data[offset], size: data[offset + 1], baseType: data[offset + 2] });
+          offset += 3;
+        }
+
+        let developerSize = 0;
+        if ((header & 0x20) !== 0) {
+          const developerFieldCount = data[offset++];
+          for (let i = 0; i < developerFieldCount; i++) {
+            developerSize += data[offset + 1];
+            offset += 3;
+          }
+        }
+
+        definitions.set(localMessage, { globalMessage, littleEndian, fields, developerSize });
+        continue;
+      }
+
+      // Data message, optionally with a compressed timestamp header
+      const compressed = (header & 0x80) !== 0;
+      const localMessage = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+      const definition = definitions.get(localMessage);
+      if (!definition) {
+        throw new AppError(400, 'FIT file references an undefined message');
+      }
+
+      const values = new Map<number, number>();
+      for (const field of definition.fields) {
+        const value = readFitValue(view, offset, field, definition.littleEndian);
+        if (value !== undefined) {
+          values.set(field.number, value);
+        }
+        offset += field.size;
+      }
+      offset += definition.developerSize;
+
+      if (compressed && lastTimestamp !== undefined) {
+        const timeOffset = header & 0x1f;
+        lastTimestamp += (timeOffset - (lastTimestamp & 0x1f)) & 0x1f;
+        values.set(253, lastTimestamp);
+      } else if (values.has(253)) {
+        lastTimestamp = values.get(253);
+      }
+
+      if (definition.globalMessage === FIT_MESSAGE.record) {
+        const timestamp = values.get(253);
+        const enhancedAltitude = values.get(78);
+        const altitude = enhancedAltitude ?? values.get(2);
+        const distance = values.get(5);
+        points.push({
+          time: timestamp !== undefined ? fitTime(timestamp) : undefined,
+          latitude: semicirclesToDegrees(values.get(0)),
+          longitude: semicirclesToDegrees(values.get(1)),
+          elevation: altitude !== undefined ? altitude / 5 - 500 : undefined,
+          heartRate: values.get(3),
+          distance: distance !== undefined ? distance / 100 : undefined,
+        });
+      } else if (definition.globalMessage === FIT_MESSAGE.session) {
+        const startTime = values.get(2);
+        const elapsed = values.get(7);
+        const distance = values.get(9);
+        const calories = values.get(11);
+        const maxHeartRate = values.get(17);
+        const ascent = values.get(22);
+
+        sport ??= values.get(5);
+        if (startTime !== undefined && !totals.startTime) totals.startTime = fitTime(startTime);
+        if (elapsed !== undefined) {
+          totals.elapsedSeconds = (totals.elapsedSeconds ?? 0) + elapsed / 1000;
+        }
+        if (distance !== undefined) {
+          totals.distanceMeters = (totals.distanceMeters ?? 0) + distance / 100;
+        }
+        if (calories !== undefined) totals.calories = (totals.calories ?? 0) + calories;
+        if (ascent !== undefined) totals.elevationGain = (totals.elevationGain ?? 0) + ascent;
+        if (maxHeartRate !== undefined) {
+          totals.maxHeartRate = Math.max(totals.maxHeartRate ?? 0, maxHeartRate);
+        }
+        totals.avgHeartRate ??= values.get(16);
+      }
+    }
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    // Reading past the end of a truncated file
+    throw new AppError(400, 'FIT file is truncated or corrupt');
+  }
+
+  return {
+    format: 'fit',
+    activityType: (sport !== undefined && FIT_SPORTS[sport]) || 'other',
+    points,
+    totals,
+  };
+}
+
+/**
+ * Parse an activity file of the given format
+ */
+export function parseActivityFile(data: Buffer, format: ActivityFileFormat): ParsedActivity {
+  switch (format) {
+    case 'gpx':
+      return parseGpx(data.toString('utf8'));
+    case 'tcx':
+      return parseTcx(data.toString('utf8'));
+    case 'fit':
+      return parseFit(data);
+  }
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function haversineDistance(
+  latitudeA: number,
+  longitudeA: number,
+  latitudeB: number,
+  longitudeB: number
+): number {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLatitude = toRadians(latitudeB - latitudeA);
+  const dLongitude = toRadians(longitudeB - longitudeA);
+  const a =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(latitudeA)) * Math.cos(toRadians(latitudeB)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Sum of climbs, ignoring rises smaller than the noise threshold
+ * The reference elevation follows descents so that a climb is measured from the lowest point
+ */
+export function elevationGain(elevations: number[], noiseMeters: number): number {
+  if (elevations.length === 0) {
+    return 0;
+  }
+
+  let gain = 0;
+  let reference = elevations[0];
+  for (const elevation of elevations.slice(1)) {
+    if (elevation - reference >= noiseMeters) {
+      gain += elevation - reference;
+      reference = elevation;
+    } else if (elevation < reference) {
+      reference = elevation;
+    }
+  }
+  return gain;
+}
+
+/**
+ * Summarize a parsed activity as cardio metrics
+ * Device totals win over values computed from track points when the file has both
+ *
+ * @throws AppError if the recording has no timestamps or is too short to count
+ */
+export function summarizeActivity(
+  activity: ParsedActivity,
+  noiseMeters: number = ACTIVITY_IMPORT_SETTINGS.elevationNoiseMeters
+): ActivitySummary {
+  const { points, totals } = activity;
+  const timed = points
+    .filter((point): point is ActivityTrackPoint & { time: Date } => point.time !== undefined)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const startTime = totals.startTime ?? timed[0]?.time;
+  if (!startTime) {
+    throw new AppError(400, 'Activity file has no timestamps');
+  }
+
+  const recordedSeconds =
+    timed.length > 1
+      ? (timed[timed.length - 1].time.getTime() - timed[0].time.getTime()) / 1000
+      : 0;
+  const elapsedSeconds = totals.elapsedSeconds ?? recordedSeconds;
+  const duration = round(elapsedSeconds / 60, 1);
+  if (duration < ACTIVITY_IMPORT_SETTINGS.minDurationMinutes) {
+    throw new AppError(400, 'Activity is too short to import');
+  }
+
+  // Distance: device total, then the device's cumulative distance, then the GPS track
+  const deviceDistances = points.flatMap((point) =>
+    point.distance !== undefined ? [point.distance] : []
+  );
+  let distanceMeters = totals.distanceMeters;
+  if (distanceMeters === undefined && deviceDistances.length > 0) {
+    // Not Math.max(...): long 1 Hz recordings exceed the argument limit
+    distanceMeters = deviceDistances.reduce((max, distance) => Math.max(max, distance));
+  }
+  if (distanceMeters === undefined) {
+    const positioned = timed.filter(
+      (point) => point.latitude !== undefined && point.longitude !== undefined
+    );
+    if (positioned.length > 1) {
+      distanceMeters = 0;
+      for (let i = 1; i < positioned.length; i++) {
+        distanceMeters += haversineDistance(
+          positioned[i - 1].latitude!,
+          positioned[i - 1].longitude!,
+          positioned[i].latitude!,
+          positioned[i].longitude!
+        );
+      }
+    }
+  }
+  const distance =
+    distanceMeters !== undefined && distanceMeters >= 10 ? round(distanceMeters / 1000, 2) : null;
+
+  const heartRates = timed.flatMap((point) =>
+    point.heartRate !== undefined ? [point.heartRate] : []
+  );
+  const avgHeartRate =
+    totals.avgHeartRate ??
+    (heartRates.length > 0
+      ? round(heartRates.reduce((sum, heartRate) => sum + heartRate, 0) / heartRates.length)
+      : undefined);
+  const maxHeartRate =
+    totals.maxHeartRate ??
+    (heartRates.length > 0
+      ? heartRates.reduce((max, heartRate) => Math.max(max, heartRate))
+      : undefined);
+
+  const elevations = timed.flatMap((point) =>
+    point.elevation !== undefined ? [point.elevation] : []
+  );
+  const gain =
+    totals.elevationGain ??
+    (elevations.length > 0 ? round(elevationGain(elevations, noiseMeters)) : undefined);
+
+  return {
+    format: activity.format,
+    activityType: activity.activityType,
+    startTime,
+    endTime: new Date(startTime.getTime() + elapsedSeconds * 1000),
+    distance,
+    duration,
+    avgHeartRate: avgHeartRate ?? null,
+    maxHeartRate: maxHeartRate ?? null,
+    avgPace: distance !== null ? round(duration / distance, 2) : null,
+    elevationGain: gain ?? null,
+    caloriesBurned: totals.calories !== undefined ? round(totals.calories) : null,
+    trackPoints: points.length,
+  };
+}
@@ -0,0 +1,279 @@
+import { db } from '../db/connection';
+import { dailyTasks, evidence, type SelectDailyTask } from '../db/schema';
+import { and, asc, eq, gte, lte, sql } from 'drizzle-orm';
+import { formatInTimeZone } from 'date-fns-tz';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../config/logger';
+import { AppError } from '../middleware/error';
+import { getLocalDateString, getLocalDayBounds, getUserTimezone } from '../utils/timezone';
+import { TasksService, type EvidenceResult } from '../routes/tasks/service';
+import { s3Service } from './s3';
+import { parseActivityFile, summarizeActivity } from './activity-files';
+import {
+  EvidenceType,
+  type ActivityFileFormat,
+  type ActivitySummary,
+  type ActivityType,
+} from '@gtsd/shared-types';
+
+const tracer = trace.getTracer('activity-import-service');
+
+/**
+ * Task titles for cardio tasks created from imported activities
+ */
+export const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  running: 'Run',
+  cycling: 'Ride',
+  walking: 'Walk',
+  hiking: 'Hike',
+  swimming: 'Swim',
+  other: 'Cardio',
+};
+
+export interface ActivityImportInput {
+  fileName: string;
+  format: ActivityFileFormat;
+  data: Buffer;
+  /** Cardio task to attach the session to; matched by date when omitted */
+  taskId?: number;
+  notes?: string;
+}
+
+/**
+ * Evidence result for an imported activity file
+ */
+export interface ActivityImportResult extends EvidenceResult {
+  summary: ActivitySummary;
+  fileKey: string;
+  /** True when no cardio task matched and an ad-hoc one was created */
+  taskCreated: boolean;
+}
+
+/**
+ * Cardio evidence metrics for an activity summary
+ * Values the file did not record are left out rather than stored as zero
+ */
+export function toCardioMetrics(
+  summary: ActivitySummary,
+  fileKey: string
+): Record<string, number | string> {
+  const metrics: Record<string, number | string> = {
+    duration: summary.duration,
+    activityType: summary.activityType,
+    activityStartTime: new Date(summary.startTime).toISOString(),
+    activityFileFormat: summary.format,
+    activityFileKey: fileKey,
+  };
+
+  const optional = {
+    distance: summary.distance,
+    avgHeartRate: summary.avgHeartRate,
+    maxHeartRate: summary.maxHeartRate,
+    avgPace: summary.avgPace,
+    elevationGain: summary.elevationGain,
+    caloriesBurned: summary.caloriesBurned,
+  };
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== null) {
+      metrics[key] = value;
+    }
+  }
+
+  return metrics;
+}
+
+/**
+ * ActivityImportService turns GPX, TCX and FIT recordings into cardio evidence
+ *
+ * The session is attached to the requested cardio task, or else to a pending cardio task due
+ * on the local day the activity started (preferring one for the same activity type). When none
+ * matches, an ad-hoc cardio task is created for it. The raw file is kept in S3 and its key
+ * stored in the evidence metrics; the activity start time identifies re-uploads of the same
+ * recording.
+ */
+export class ActivityImportService {
+  private readonly tasksService = new TasksService();
+
+  /**
+   * Import an activity file as cardio evidence
+   *
+   * @throws AppError 400 if the file cannot be read, 404/400 if the task is missing or not a
+   * cardio task, 409 if the recording was already imported
+   */
+  async importActivity(userId: number, input: ActivityImportInput): Promise<ActivityImportResult> {
+    const span = tracer.startSpan('ActivityImportService.importActivity');
+
+    try {
+      span.setAttributes({
+        'user.id': userId,
+        'activity.format': input.format,
+        'activity.file_size': input.data.length,
+      });
+
+      const summary = summarizeActivity(parseActivityFile(input.data, input.format));
+      const startTime = new Date(summary.startTime);
+
+      span.setAttributes({
+        'activity.type': summary.activityType,
+        'activity.track_points': summary.trackPoints,
+        'activity.duration_minutes': summary.duration,
+      });
+
+      const [duplicate] = await db
+        .select({ id: evidence.id, taskId: evidence.taskId })
+        .from(evidence)
+        .where(
+          and(
+            eq(evidence.userId, userId),
+            sql`${evidence.metrics}->>'activityStartTime' = ${startTime.toISOString()}`
+          )
+        )
+        .limit(1);
+
+      if (duplicate) {
+        throw new AppError(
+          409,
+          `Activity starting at ${startTime.toISOString()} was already imported to task ${duplicate.taskId}`
+        );
+      }
+
+      const timezone = await getUserTimezone(userId);
+      const { task, created } = await this.resolveTask(userId, summary, timezone, input.taskId);
+
+      const fileKey = await s3Service.uploadActivityFile({
+        userId,
+        fileName: input.fileName,
+        format: input.format,
+        body: input.data,
+      });
+
+      let result: EvidenceResult;
+      try {
+        result = await this.tasksService.createEvidence(userId, {
+          taskId: task.id,
+          type: EvidenceType.Metrics,
+          data: { metrics: toCardioMetrics(summary, fileKey) },
+          notes: input.notes,
+        });
+      } catch (error) {
+        // Leave nothing behind for a failed import
+        await s3Service.deleteObject(fileKey).catch((cleanupError) => {
+          logger.warn({ err: cleanupError, fileKey }, 'Failed to remove activity file after error');
+        });
+        if (created) {
+          await db.delete(dailyTasks).where(eq(dailyTasks.id, task.id));
+        }
+        throw error;
+      }
+
+      span.setAttributes({
+        'task.id': task.id,
+        'task.created': created,
+        'evidence.id': result.evidence.id,
+      });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      logger.info(
+        {
+          userId,
+          taskId: task.id,
+          taskCreated: created,
+          evidenceId: result.evidence.id,
+          format: input.format,
+          activityType: summary.activityType,
+          distance: summary.distance,
+          duration: summary.duration,
+        },
+        'Activity file imported'
+      );
+
+      return { ...result, summary, fileKey, taskCreated: created };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Find the cardio task for an activity, creating an ad-hoc one when none matches
+   */
+  private async resolveTask(
+    userId: number,
+    summary: ActivitySummary,
+    timezone: string,
+    taskId?: number
+  ): Promise<{ task: SelectDailyTask; created: boolean }> {
+    if (taskId !== undefined) {
+      const [task] = await db
+        .select()
+        .from(dailyTasks)
+        .where(and(eq(dailyTasks.id, taskId), eq(dailyTasks.userId, userId)))
+        .limit(1);
+
+      if (!task) {
+        throw new AppError(404, `Task ${taskId} not found for user ${userId}`);
+      }
+      if (task.taskType !== 'cardio') {
+        throw new AppError(400, `Task ${taskId} is not a cardio task`);
+      }
+      return { task, created: false };
+    }
+
+    const startTime = new Date(summary.startTime);
+    const { start, end } = getLocalDayBounds(getLocalDateString(timezone, startTime), timezone);
+
+    const candidates = await db
+      .select()
+      .from(dailyTasks)
+      .where(
+        and(
+          eq(dailyTasks.userId, userId),
+          eq(dailyTasks.taskType, 'cardio'),
+          eq(dailyTasks.status, 'pending'),
+          gte(dailyTasks.dueDate, start),
+          lte(dailyTasks.dueDate, end)
+        )
+      )
+      .orderBy(asc(dailyTasks.dueDate), asc(dailyTasks.id));
+
+    const match =
+      candidates.find((task) => task.metadata?.activityType === summary.activityType) ??
+      candidates[0];
+    if (match) {
+      return { task: match, created: false };
+    }
+
+    const label = ACTIVITY_LABELS[summary.activityType];
+    const [task] = await db
+      .insert(dailyTasks)
+      .values({
+        userId,
+        planId: null,
+        title: summary.distance !== null ? `${label} - ${summary.distance} km` : label,
+        description: `Imported from ${summary.format.toUpperCase()} file`,
+        taskType: 'cardio',
+        dueDate: startTime,
+        dueTime: formatInTimeZone(startTime, timezone, 'HH:mm:ss'),
+        status: 'pending',
+        metadata: {
+          activityType: summary.activityType,
+          targetDuration: Math.round(summary.duration),
+          ...(summary.distance !== null && { targetDistance: summary.distance }),
+        },
+      })
+      .returning();
+
+    return { task, created: true };
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const activityImportService = new ActivityImportService();
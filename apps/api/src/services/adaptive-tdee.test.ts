@@ -0,0 +1,207 @@
+import { computeWeightTrend, estimateAdaptiveTdee, WeighIn, IntakeEntry } from './adaptive-tdee';
+import { scienceService } from './science';
+import { addLocalDays } from '../utils/timezone';
+import type { ComputedTargets, ScienceInputs } from '@gtsd/shared-types';
+
+describe('AdaptiveTdeeService', () => {
+  const windowStart = '2025-01-01';
+  const windowEnd = '2025-01-28';
+
+  /**
+   * Build daily weigh-ins changing linearly by kgPerWeek, plus daily intake
+   */
+  const buildLog = (days: number, startWeight: number, kgPerWeek: number, calories: number) => {
+    const weighIns: WeighIn[] = [];
+    const intake: IntakeEntry[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = addLocalDays(windowStart, i);
+      weighIns.push({ date, weight: startWeight + (kgPerWeek / 7) * i });
+      intake.push({ date, calories });
+    }
+    return { weighIns, intake };
+  };
+
+  describe('computeWeightTrend', () => {
+    it('should seed the trend with the first weigh-in', () => {
+      const trend = computeWeightTrend([{ date: '2025-01-01', weight: 80 }]);
+
+      expect(trend).toEqual([{ date: '2025-01-01', weight: 80, trend: 80 }]);
+    });
+
+    it('should average several weigh-ins on the same day', () => {
+      const trend = computeWeightTrend([
+        { date: '2025-01-01', weight: 80 },
+        { date: '2025-01-01', weight: 81 },
+      ]);
+
+      expect(trend).toHaveLength(1);
+      expect(trend[0].weight).toBe(80.5);
+    });
+
+    it('should move the trend a fraction of the way towards each weigh-in', () => {
+      const trend = computeWeightTrend(
+        [
+          { date: '2025-01-02', weight: 81 },
+          { date: '2025-01-01', weight: 80 },
+        ],
+        0.1
+      );
+
+      expect(trend.map((p) => p.date)).toEqual(['2025-01-01', '2025-01-02']);
+      expect(trend[1].trend).toBeCloseTo(80.1, 5);
+    });
+
+    it('should compound the smoothing factor across gaps', () => {
+      const trend = computeWeightTrend(
+        [
+          { date: '2025-01-01', weight: 80 },
+          { date: '2025-01-04', weight: 81 },
+        ],
+        0.1
+      );
+
+      // 1 - 0.9^3 = 0.271
+      expect(trend[1].trend).toBeCloseTo(80.271, 5);
+    });
+  });
+
+  describe('estimateAdaptiveTdee', () => {
+    it('should infer TDEE above intake while losing weight', () => {
+      const { weighIns, intake } = buildLog(28, 80, -0.5, 2000);
+
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      // 0.5 kg/week × 7700 kcal/kg / 7 days = 550 kcal/day deficit
+      expect(estimate.dataSufficiency.sufficient).toBe(true);
+      expect(estimate.tdee).not.toBeNull();
+      expect(Math.abs(estimate.tdee! - 2550)).toBeLessThan(50);
+      expect(estimate.averageIntake).toBe(2000);
+      expect(estimate.confidence).toBe('high');
+    });
+
+    it('should infer TDEE equal to intake when weight is stable', () => {
+      const { weighIns, intake } = buildLog(21, 75, 0, 2400);
+
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      expect(estimate.tdee).toBe(2400);
+    });
+
+    it('should ignore intake logged outside the weigh-in span', () => {
+      const { weighIns, intake } = buildLog(21, 75, 0, 2400);
+      intake.push({ date: '2024-12-31', calories: 9000 });
+
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      expect(estimate.averageIntake).toBe(2400);
+    });
+
+    it('should report insufficient data when there are too few weigh-ins', () => {
+      const { weighIns, intake } = buildLog(5, 80, -0.5, 2000);
+
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      expect(estimate.tdee).toBeNull();
+      expect(estimate.confidence).toBe('none');
+      expect(estimate.dataSufficiency).toMatchObject({
+        sufficient: false,
+        weighInDays: 5,
+        required: { weighInDays: 8, intakeDays: 10, spanDays: 14 },
+      });
+      expect(estimate.dataSufficiency.reason).toMatch(/weigh-ins/);
+    });
+
+    it('should report insufficient data when meals are rarely logged', () => {
+      const { weighIns } = buildLog(21, 80, -0.5, 2000);
+      const intake = [{ date: '2025-01-03', calories: 1800 }];
+
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      expect(estimate.tdee).toBeNull();
+      expect(estimate.dataSufficiency.intakeDays).toBe(1);
+      expect(estimate.dataSufficiency.reason).toMatch(/logged meals/);
+    });
+
+    it('should reject implausible estimates', () => {
+      const { weighIns, intake } = buildLog(21, 80, 0, 300);
+
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      expect(estimate.tdee).toBeNull();
+      expect(estimate.dataSufficiency.reason).toMatch(/plausible/);
+    });
+
+    it('should lower confidence when logging is sparse', () => {
+      const { weighIns, intake } = buildLog(28, 80, -0.5, 2000);
+      const everyOtherDay = <T>(entries: T[]) => entries.filter((_, i) => i % 2 === 0);
+
+      const estimate = estimateAdaptiveTdee(
+        everyOtherDay(weighIns),
+        everyOtherDay(intake),
+        windowStart,
+        windowEnd
+      );
+
+      expect(estimate.dataSufficiency.sufficient).toBe(true);
+      expect(estimate.confidence).toBe('medium');
+    });
+  });
+
+  describe('ScienceService.applyAdaptiveTdee', () => {
+    const formulaTargets: ComputedTargets = {
+      bmr: 1700,
+      tdee: 2300,
+      calorieTarget: 1800,
+      proteinTarget: 165,
+      waterTarget: 2600,
+      weeklyRate: -0.5,
+    };
+    const inputs: ScienceInputs = {
+      weight: 80,
+      height: 180,
+      age: 35,
+      gender: 'male',
+      activityLevel: 'lightly_active',
+      primaryGoal: 'lose_weight',
+    };
+
+    it('should rebuild TDEE and calories from a sufficient estimate', () => {
+      const { weighIns, intake } = buildLog(28, 80, -0.5, 2000);
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      const targets = scienceService.applyAdaptiveTdee(formulaTargets, estimate, inputs);
+
+      expect(targets.tdeeSource).toBe('adaptive');
+      expect(targets.tdee).toBe(estimate.tdee);
+      expect(targets.calorieTarget).toBe(estimate.tdee! - 500);
+      expect(targets.bmr).toBe(1700);
+      expect(targets.proteinTarget).toBe(165);
+      expect(targets.warnings).toEqual([]);
+    });
+
+    it('should re-apply the safety guardrails to the adaptive calorie target', () => {
+      const { weighIns, intake } = buildLog(28, 80, -0.5, 1300);
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      const targets = scienceService.applyAdaptiveTdee(formulaTargets, estimate, {
+        ...inputs,
+        targetWeight: 75,
+      });
+
+      expect(targets.calorieTarget).toBe(1530); // 90% of the 1700 kcal BMR
+      expect(targets.warnings?.map((w) => w.code)).toEqual(['calorie_floor']);
+      expect(targets.weeklyRate).toBeCloseTo(((1530 - estimate.tdee!) * 7) / 7700, 2);
+      expect(targets.estimatedWeeks).toBeGreaterThan(10);
+    });
+
+    it('should fall back to the formula when data is insufficient', () => {
+      const { weighIns, intake } = buildLog(5, 80, -0.5, 2000);
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      const targets = scienceService.applyAdaptiveTdee(formulaTargets, estimate, inputs);
+
+      expect(targets).toMatchObject({ ...formulaTargets, tdeeSource: 'formula' });
+      expect(targets.adaptiveTdee).toBe(estimate);
+    });
+  });
+});
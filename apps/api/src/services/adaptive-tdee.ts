@@ -0,0 +1,310 @@
+import { db } from '../db/connection';
+import { dailyTasks, evidence } from '../db/schema';
+import { and, eq, gte, inArray } from 'drizzle-orm';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type { AdaptiveTdeeConfidence, AdaptiveTdeeEstimate } from '@gtsd/shared-types';
+import { ADAPTIVE_TDEE_SETTINGS, KCAL_PER_KG_BODY_WEIGHT } from '@gtsd/shared-types';
+import { addLocalDays, getLocalDateString, getUserTimezone } from '../utils/timezone';
+
+const tracer = trace.getTracer('adaptive-tdee-service');
+
+/**
+ * A single weigh-in on a local calendar date
+ */
+export interface WeighIn {
+  date: string; // YYYY-MM-DD
+  weight: number; // kg
+}
+
+/**
+ * Logged meal calories on a local calendar date
+ */
+export interface IntakeEntry {
+  date: string; // YYYY-MM-DD
+  calories: number; // kcal
+}
+
+/**
+ * Smoothed weight for one weigh-in day
+ */
+export interface TrendPoint {
+  date: string;
+  weight: number;
+  trend: number;
+}
+
+/**
+ * Smooth daily weights with an exponential moving average
+ *
+ * @param weighIns - Weigh-ins in any order (several per day are averaged)
+ * @param smoothing - EMA factor per day
+ * @returns One trend point per weigh-in day, oldest first
+ *
+ * @remarks
+ * Gaps between weigh-ins are handled by compounding the factor per elapsed day,
+ * so a weigh-in after a 3-day gap moves the trend as far as 3 daily weigh-ins would.
+ */
+export function computeWeightTrend(
+  weighIns: WeighIn[],
+  smoothing: number = ADAPTIVE_TDEE_SETTINGS.trendSmoothing
+): TrendPoint[] {
+  const byDate = new Map<string, number[]>();
+  for (const { date, weight } of weighIns) {
+    byDate.set(date, [...(byDate.get(date) ?? []), weight]);
+  }
+
+  const points: TrendPoint[] = [];
+  for (const date of [...byDate.keys()].sort()) {
+    const weights = byDate.get(date)!;
+    const weight = weights.reduce((sum, w) => sum + w, 0) / weights.length;
+    const previous = points[points.length - 1];
+
+    if (!previous) {
+      points.push({ date, weight, trend: weight });
+      continue;
+    }
+
+    const gapDays = differenceInCalendarDays(parseISO(date), parseISO(previous.date));
+    const alpha = 1 - Math.pow(1 - smoothing, gapDays);
+    points.push({ date, weight, trend: previous.trend + alpha * (weight - previous.trend) });
+  }
+
+  return points;
+}
+
+/**
+ * Map a confidence score to a bucket
+ */
+function toConfidence(score: number): AdaptiveTdeeConfidence {
+  if (score >= 0.75) return 'high';
+  if (score >= 0.5) return 'medium';
+  return 'low';
+}
+
+/**
+ * Estimate TDEE from the weight trend and logged intake
+ *
+ * @param weighIns - Weigh-ins inside the window
+ * @param intake - Meal calories inside the window (several per day are summed)
+ * @param windowStart - First local date of the window (YYYY-MM-DD)
+ * @param windowEnd - Last local date of the window (YYYY-MM-DD)
+ * @returns Estimate with confidence and data sufficiency; tdee is null if not usable
+ *
+ * @remarks
+ * - Energy balance: TDEE = average intake - trend change (kg) × 7700 / days
+ * - Only intake logged between the first and last weigh-in is counted
+ * - Days without meal evidence are skipped rather than treated as zero intake
+ * - An EMA seeded at the first weigh-in lags a steady trend by (1 - α) / α days,
+ *   so the trend change is divided by the span minus that (partially built-up) lag
+ */
+export function estimateAdaptiveTdee(
+  weighIns: WeighIn[],
+  intake: IntakeEntry[],
+  windowStart: string,
+  windowEnd: string
+): AdaptiveTdeeEstimate {
+  const { trendSmoothing, windowDays, minWeighInDays, minIntakeDays, minSpanDays, plausible } =
+    ADAPTIVE_TDEE_SETTINGS;
+  const required = {
+    weighInDays: minWeighInDays,
+    intakeDays: minIntakeDays,
+    spanDays: minSpanDays,
+  };
+
+  const trend = computeWeightTrend(weighIns, trendSmoothing);
+  const first = trend[0];
+  const last = trend[trend.length - 1];
+  const spanDays = first ? differenceInCalendarDays(parseISO(last.date), parseISO(first.date)) : 0;
+
+  const intakeByDate = new Map<string, number>();
+  for (const { date, calories } of intake) {
+    if (first && date >= first.date && date <= last.date) {
+      intakeByDate.set(date, (intakeByDate.get(date) ?? 0) + calories);
+    }
+  }
+  const intakeDays = intakeByDate.size;
+  const averageIntake =
+    intakeDays > 0
+      ? Math.round([...intakeByDate.values()].reduce((sum, c) => sum + c, 0) / intakeDays)
+      : null;
+
+  const base = {
+    trendStartWeight: first ? Math.round(first.trend * 100) / 100 : null,
+    trendEndWeight: last ? Math.round(last.trend * 100) / 100 : null,
+    averageIntake,
+    windowStart,
+    windowEnd,
+  };
+
+  const insufficient = (reason: string): AdaptiveTdeeEstimate => ({
+    ...base,
+    tdee: null,
+    confidence: 'none',
+    confidenceScore: 0,
+    dataSufficiency: {
+      sufficient: false,
+      weighInDays: trend.length,
+      intakeDays,
+      spanDays,
+      required,
+      reason,
+    },
+  });
+
+  if (trend.length < minWeighInDays) {
+    return insufficient(`Need at least ${minWeighInDays} days of weigh-ins (have ${trend.length})`);
+  }
+  if (spanDays < minSpanDays) {
+    return insufficient(`Need weigh-ins spanning at least ${minSpanDays} days (have ${spanDays})`);
+  }
+  if (intakeDays < minIntakeDays || averageIntake === null) {
+    return insufficient(`Need at least ${minIntakeDays} days of logged meals (have ${intakeDays})`);
+  }
+
+  const lagDays =
+    ((1 - trendSmoothing) / trendSmoothing) * (1 - Math.pow(1 - trendSmoothing, spanDays));
+  const effectiveDays = Math.max(spanDays - lagDays, 1);
+  const dailyBalance = ((last.trend - first.trend) * KCAL_PER_KG_BODY_WEIGHT) / effectiveDays;
+  const tdee = Math.round(averageIntake - dailyBalance);
+
+  if (tdee < plausible.min || tdee > plausible.max) {
+    return insufficient(
+      `Estimated ${tdee} kcal/day is outside the plausible range; logging may be incomplete`
+    );
+  }
+
+  const coverage = (days: number) => Math.min(1, days / (spanDays + 1));
+  const confidenceScore =
+    Math.round(
+      (0.4 * Math.min(1, spanDays / windowDays) +
+        0.3 * coverage(trend.length) +
+        0.3 * coverage(intakeDays)) *
+        100
+    ) / 100;
+
+  return {
+    ...base,
+    tdee,
+    confidence: toConfidence(confidenceScore),
+    confidenceScore,
+    dataSufficiency: {
+      sufficient: true,
+      weighInDays: trend.length,
+      intakeDays,
+      spanDays,
+      required,
+    },
+  };
+}
+
+/**
+ * Adaptive expenditure service
+ * Loads weigh-in and meal evidence and infers the user's real TDEE
+ */
+export class AdaptiveTdeeService {
+  /**
+   * Estimate a user's TDEE from the last ADAPTIVE_TDEE_SETTINGS.windowDays of evidence
+   *
+   * @param userId - User ID
+   * @param now - Reference time (defaults to now)
+   * @returns Adaptive estimate; check dataSufficiency.sufficient before using tdee
+   *
+   * @remarks
+   * - Weigh-ins come from weight_log evidence (metrics.weight)
+   * - Intake comes from meal evidence (metrics.actualCalories)
+   * - Evidence is bucketed by the user's local calendar date
+   */
+  async estimateForUser(userId: number, now: Date = new Date()): Promise<AdaptiveTdeeEstimate> {
+    const span = tracer.startSpan('adaptive_tdee.estimate_for_user');
+
+    try {
+      span.setAttributes({ 'user.id': userId });
+
+      const timezone = await getUserTimezone(userId);
+      const windowEnd = getLocalDateString(timezone, now);
+      const windowStart = addLocalDays(windowEnd, -(ADAPTIVE_TDEE_SETTINGS.windowDays - 1));
+      const since = new Date(now.getTime() - ADAPTIVE_TDEE_SETTINGS.windowDays * 86_400_000);
+
+      const rows = await db
+        .select({
+          taskType: dailyTasks.taskType,
+          metrics: evidence.metrics,
+          recordedAt: evidence.recordedAt,
+        })
+        .from(evidence)
+        .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+        .where(
+          and(
+            eq(evidence.userId, userId),
+            inArray(dailyTasks.taskType, ['weight_log', 'meal']),
+            gte(evidence.recordedAt, since)
+          )
+        );
+
+      const weighIns: WeighIn[] = [];
+      const intake: IntakeEntry[] = [];
+
+      for (const row of rows) {
+        const date = getLocalDateString(timezone, row.recordedAt);
+        if (date < windowStart || date > windowEnd) {
+          continue;
+        }
+
+        // Metrics evidence may carry numbers as strings
+        if (row.taskType === 'weight_log') {
+          const weight = Number(row.metrics?.weight);
+          if (row.metrics?.weight && Number.isFinite(weight) && weight > 0) {
+            weighIns.push({ date, weight });
+          }
+        } else {
+          const calories = Number(row.metrics?.actualCalories);
+          if (
+            row.metrics?.actualCalories !== undefined &&
+            Number.isFinite(calories) &&
+            calories >= 0
+          ) {
+            intake.push({ date, calories });
+          }
+        }
+      }
+
+      const estimate = estimateAdaptiveTdee(weighIns, intake, windowStart, windowEnd);
+
+      span.setAttributes({
+        'adaptive_tdee.weigh_in_days': estimate.dataSufficiency.weighInDays,
+        'adaptive_tdee.intake_days': estimate.dataSufficiency.intakeDays,
+        'adaptive_tdee.sufficient': estimate.dataSufficiency.sufficient,
+        'adaptive_tdee.confidence': estimate.confidence,
+      });
+
+      logger.debug(
+        {
+          userId,
+          tdee: estimate.tdee,
+          confidence: estimate.confidence,
+          sufficient: estimate.dataSufficiency.sufficient,
+        },
+        'Adaptive TDEE estimated'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return estimate;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Singleton instance for reuse across the application
+ */
+export const adaptiveTdeeService = new AdaptiveTdeeService();
@@ -1,6 +1,6 @@
 import { db } from '../db/connection';
 import { dailyTasks, userSettings, photos } from '../db/schema';
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, isNull } from 'drizzle-orm';
 import { startOfDay, endOfDay, subDays, format, getDay } from 'date-fns';
 import { logger } from '../config/logger';
 import { AppError } from '../middleware/error';
@@ -12,6 +12,7 @@ type ValidTaskType = typeof VALID_TASK_TYPES[number];
 /**
  * Badge criteria checker service
  * Contains logic for determining if a user meets badge requirements
+ * History backfilled from a health data export (healthImportId set) never counts toward badges
  */
 export class BadgeCriteria {
   /**
@@ -44,7 +45,8 @@ export class BadgeCriteria {
           and(
             eq(dailyTasks.userId, userId),
             eq(dailyTasks.taskType, taskType),
-            eq(dailyTasks.status, 'completed')
+            eq(dailyTasks.status, 'completed'),
+            isNull(dailyTasks.healthImportId)
           )
         )
         .orderBy(desc(dailyTasks.dueDate));
@@ -216,7 +218,8 @@ export class BadgeCriteria {
               eq(dailyTasks.userId, userId),
               eq(dailyTasks.status, 'completed'),
               gte(dailyTasks.dueDate, dayStart),
-              lte(dailyTasks.dueDate, endOfDay(checkDate))
+              lte(dailyTasks.dueDate, endOfDay(checkDate)),
+              isNull(dailyTasks.healthImportId)
             )
           );
 
@@ -277,7 +280,8 @@ export class BadgeCriteria {
               eq(dailyTasks.userId, userId),
               eq(dailyTasks.status, 'completed'),
               gte(dailyTasks.dueDate, dayStart),
-              lte(dailyTasks.dueDate, endOfDay(checkDate))
+              lte(dailyTasks.dueDate, endOfDay(checkDate)),
+              isNull(dailyTasks.healthImportId)
             )
           );
 
@@ -362,7 +366,8 @@ export class BadgeCriteria {
           and(
             eq(dailyTasks.userId, userId),
             gte(dailyTasks.dueDate, dayStart),
-            lte(dailyTasks.dueDate, dayEnd)
+            lte(dailyTasks.dueDate, dayEnd),
+            isNull(dailyTasks.healthImportId)
           )
         );
 
@@ -453,7 +458,8 @@ export class BadgeCriteria {
           and(
             eq(dailyTasks.userId, userId),
             eq(dailyTasks.taskType, 'weight_log'),
-            eq(dailyTasks.status, 'completed')
+            eq(dailyTasks.status, 'completed'),
+            isNull(dailyTasks.healthImportId)
           )
         )
         .orderBy(dailyTasks.dueDate)
@@ -546,7 +552,8 @@ export class BadgeCriteria {
             and(
               eq(dailyTasks.userId, userId),
               gte(dailyTasks.dueDate, dayStart),
-              lte(dailyTasks.dueDate, dayEnd)
+              lte(dailyTasks.dueDate, dayEnd),
+              isNull(dailyTasks.healthImportId)
             )
           );
 
@@ -0,0 +1,165 @@
+import { isDietBreakWeek, isRefeedDay, toDietPeriodization } from './diet-periodization';
+import { scienceService } from './science';
+import type { DietPeriodization, ScienceInputs } from '@gtsd/shared-types';
+
+describe('Diet periodization', () => {
+  // Monday
+  const anchor = new Date('2025-01-06T00:00:00');
+
+  const periodization: DietPeriodization = {
+    dietBreakEveryWeeks: 4,
+    dietBreakAnchor: anchor,
+    refeedDays: [6],
+  };
+
+  const inputs: ScienceInputs = {
+    weight: 80,
+    height: 180,
+    age: 35,
+    gender: 'male',
+    activityLevel: 'moderately_active',
+    primaryGoal: 'lose_weight',
+    targetWeight: 75,
+    periodization,
+  };
+
+  describe('toDietPeriodization', () => {
+    it('should return undefined when neither diet breaks nor refeeds are set', () => {
+      expect(
+        toDietPeriodization({ dietBreakEveryWeeks: null, dietBreakAnchor: null, refeedDays: [] })
+      ).toBeUndefined();
+    });
+
+    it('should sort refeed days', () => {
+      expect(
+        toDietPeriodization({
+          dietBreakEveryWeeks: null,
+          dietBreakAnchor: null,
+          refeedDays: [7, 3],
+        })
+      ).toEqual({ dietBreakEveryWeeks: null, dietBreakAnchor: undefined, refeedDays: [3, 7] });
+    });
+  });
+
+  describe('isDietBreakWeek', () => {
+    it('should make every fifth week a break with a break every 4 weeks', () => {
+      expect(isDietBreakWeek(periodization, new Date('2025-01-29T12:00:00'))).toBe(false);
+      expect(isDietBreakWeek(periodization, new Date('2025-02-05T12:00:00'))).toBe(true);
+      expect(isDietBreakWeek(periodization, new Date('2025-02-12T12:00:00'))).toBe(false);
+      expect(isDietBreakWeek(periodization, new Date('2025-03-12T12:00:00'))).toBe(true);
+    });
+
+    it('should never break before the anchor or without one', () => {
+      expect(isDietBreakWeek(periodization, new Date('2024-12-04T12:00:00'))).toBe(false);
+      expect(
+        isDietBreakWeek(
+          { ...periodization, dietBreakAnchor: undefined },
+          new Date('2025-02-05T12:00:00')
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('isRefeedDay', () => {
+    it('should match ISO weekdays', () => {
+      expect(isRefeedDay(periodization, 6)).toBe(true);
+      expect(isRefeedDay(periodization, 7)).toBe(false);
+    });
+  });
+
+  describe('projection', () => {
+    it('should average refeed days and diet breaks into the weekly rate', () => {
+      // -0.5 × 6/7 diet days × 4/5 diet weeks
+      expect(scienceService.calculatePeriodizedWeeklyRate(-0.5, periodization)).toBe(-0.34);
+      expect(scienceService.calculatePeriodizedWeeklyRate(0.25, periodization)).toBe(0.25);
+    });
+
+    it('should lengthen the timeline of a deficit', () => {
+      expect(scienceService.calculateProjection(80, 75, -0.5).estimatedWeeks).toBe(10);
+      // 12 diet weeks at 6/7 of the rate, with 2 breaks in between
+      expect(scienceService.calculateProjection(80, 75, -0.5, periodization).estimatedWeeks).toBe(
+        14
+      );
+      expect(scienceService.calculateProjection(75, 80, 0.25, periodization).estimatedWeeks).toBe(
+        20
+      );
+    });
+  });
+
+  describe('applyDietPeriodization', () => {
+    const targets = scienceService.computeTargetsFromInputs(inputs, []);
+
+    it('should add refeed targets in a regular diet week', () => {
+      const result = scienceService.applyDietPeriodization(
+        targets,
+        inputs,
+        new Date('2025-01-08T12:00:00')
+      );
+
+      expect(result.calorieTarget).toBe(targets.calorieTarget);
+      expect(result.periodization).toEqual({
+        dietBreakEveryWeeks: 4,
+        refeedDays: [6],
+        dietBreakWeek: false,
+        dietCalorieTarget: targets.calorieTarget,
+        refeed: {
+          calorieTarget: targets.tdee,
+          carbsTarget:
+            targets.carbsTarget! + Math.round((targets.tdee - targets.calorieTarget) / 4),
+        },
+        averageWeeklyRate: -0.34,
+      });
+      expect(targets.estimatedWeeks).toBe(14);
+    });
+
+    it('should eat at maintenance in a diet-break week', () => {
+      const result = scienceService.applyDietPeriodization(
+        targets,
+        inputs,
+        new Date('2025-02-05T12:00:00')
+      );
+
+      expect(result.calorieTarget).toBe(targets.tdee);
+      expect(result.proteinTarget).toBe(targets.proteinTarget);
+      expect(result.carbsTarget).toBeGreaterThan(targets.carbsTarget!);
+      expect(result.periodization).toMatchObject({ dietBreakWeek: true, refeed: undefined });
+      expect(
+        scienceService.getWhyItWorksExplanation(result, inputs).calorieTarget.explanation
+      ).toContain(`you go back to ${targets.calorieTarget} calories next week`);
+    });
+
+    it('should leave other goals and pinned calories alone', () => {
+      const maintain = scienceService.computeTargetsFromInputs(
+        { ...inputs, primaryGoal: 'maintain' },
+        []
+      );
+      const pinned = {
+        ...targets,
+        overrides: [
+          {
+            field: 'calorieTarget' as const,
+            value: targets.calorieTarget,
+            reason: null,
+            setBy: 'user' as const,
+            setByUserId: 1,
+            expiresAt: null,
+            createdAt: anchor,
+            formulaValue: targets.calorieTarget,
+            capped: false,
+          },
+        ],
+      };
+
+      expect(
+        scienceService.applyDietPeriodization(
+          maintain,
+          { ...inputs, primaryGoal: 'maintain' },
+          new Date('2025-02-05T12:00:00')
+        )
+      ).toBe(maintain);
+      expect(
+        scienceService.applyDietPeriodization(pinned, inputs, new Date('2025-02-05T12:00:00'))
+      ).toBe(pinned);
+    });
+  });
+});
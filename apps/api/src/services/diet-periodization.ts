@@ -0,0 +1,69 @@
+import { differenceInCalendarWeeks, startOfWeek } from 'date-fns';
+import type { DietPeriodization } from '@gtsd/shared-types';
+import type { SelectUserSettings } from '../db/schema';
+
+/**
+ * Settings that hold a user's diet periodization
+ */
+export type PeriodizationSettings = Pick<
+  SelectUserSettings,
+  'dietBreakEveryWeeks' | 'dietBreakAnchor' | 'refeedDays'
+>;
+
+/**
+ * Monday of the week a date falls in
+ */
+export function periodizationWeekStart(date: Date): Date {
+  return startOfWeek(date, { weekStartsOn: 1 });
+}
+
+/**
+ * Diet periodization from user settings
+ *
+ * @returns The periodization, or undefined when neither diet breaks nor refeed days are set
+ */
+export function toDietPeriodization(
+  settings: PeriodizationSettings
+): DietPeriodization | undefined {
+  const refeedDays = [...(settings.refeedDays ?? [])].sort((a, b) => a - b);
+
+  if (!settings.dietBreakEveryWeeks && refeedDays.length === 0) {
+    return undefined;
+  }
+
+  return {
+    dietBreakEveryWeeks: settings.dietBreakEveryWeeks ?? null,
+    dietBreakAnchor: settings.dietBreakAnchor ?? undefined,
+    refeedDays,
+  };
+}
+
+/**
+ * Whether the week a date falls in is a diet break
+ *
+ * @remarks
+ * Weeks are counted from dietBreakAnchor (week 0); after every dietBreakEveryWeeks weeks of
+ * dieting comes one week at maintenance. Without an anchor the current week starts the cycle.
+ */
+export function isDietBreakWeek(periodization: DietPeriodization, date: Date): boolean {
+  const { dietBreakEveryWeeks, dietBreakAnchor } = periodization;
+  if (!dietBreakEveryWeeks || !dietBreakAnchor) {
+    return false;
+  }
+
+  const weekIndex = differenceInCalendarWeeks(date, dietBreakAnchor, { weekStartsOn: 1 });
+
+  return weekIndex >= 0 && (weekIndex + 1) % (dietBreakEveryWeeks + 1) === 0;
+}
+
+/**
+ * Whether a date is a refeed day
+ *
+ * @param isoWeekday - ISO weekday of the date (1 = Monday … 7 = Sunday)
+ */
+export function isRefeedDay(
+  periodization: Pick<DietPeriodization, 'refeedDays'>,
+  isoWeekday: number
+): boolean {
+  return periodization.refeedDays.includes(isoWeekday);
+}
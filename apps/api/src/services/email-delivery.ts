@@ -0,0 +1,101 @@
+import { JobsOptions } from 'bullmq';
+import { eq } from 'drizzle-orm';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { db } from '../db/connection';
+import { emailLogs, SelectEmailLog } from '../db/schema';
+import { emailQueue, EmailJobData } from '../config/queue';
+import { logger } from '../config/logger';
+import { EmailTemplateData, EmailTemplateName, renderEmailTemplate } from './email-templates';
+import { maskEmail } from './email-provider';
+
+const tracer = trace.getTracer('email-delivery');
+
+/**
+ * Queue options for email jobs
+ * Jobs carry one-time links, so completed jobs are dropped from Redis quickly;
+ * the email_logs row is the durable record
+ */
+export const EMAIL_JOB_OPTIONS: JobsOptions = {
+  attempts: 5,
+  backoff: {
+    type: 'exponential',
+    delay: 30000, // 30s, 1m, 2m, 4m
+  },
+  removeOnComplete: {
+    age: 3600, // Keep completed jobs for 1 hour
+  },
+  removeOnFail: {
+    age: 86400, // Keep failed jobs for 24 hours
+  },
+};
+
+export interface QueueEmailParams<K extends EmailTemplateName> {
+  template: K;
+  to: string;
+  data: EmailTemplateData[K];
+  userId?: number | null;
+}
+
+/**
+ * Queue an email for delivery
+ *
+ * Creates an email_logs row in 'queued' state and enqueues a job that the
+ * email worker renders and sends. The template is rendered once up front so
+ * invalid data fails here rather than in the worker.
+ *
+ * @returns The created email log row
+ */
+export async function queueEmail<K extends EmailTemplateName>(
+  params: QueueEmailParams<K>
+): Promise<SelectEmailLog> {
+  const span = tracer.startSpan('email.queue');
+  const { template, to, data, userId } = params;
+
+  try {
+    span.setAttributes({ 'email.template': template });
+
+    const { subject } = renderEmailTemplate(template, data);
+
+    const [emailLog] = await db
+      .insert(emailLogs)
+      .values({
+        userId: userId ?? null,
+        toEmail: to,
+        template,
+        subject,
+        status: 'queued',
+      })
+      .returning();
+
+    try {
+      const jobData = { emailLogId: emailLog.id, template, to, data } as EmailJobData;
+      await emailQueue.add(template, jobData, EMAIL_JOB_OPTIONS);
+    } catch (error) {
+      await db
+        .update(emailLogs)
+        .set({
+          status: 'failed',
+          errorMessage: 'Failed to enqueue email',
+          updatedAt: new Date(),
+        })
+        .where(eq(emailLogs.id, emailLog.id));
+      throw error;
+    }
+
+    logger.info({ emailLogId: emailLog.id, template, to: maskEmail(to), userId }, 'Email queued');
+
+    span.setAttributes({ 'email.log_id': emailLog.id });
+    span.setStatus({ code: SpanStatusCode.OK });
+
+    return emailLog;
+  } catch (error) {
+    span.recordException(error as Error);
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  } finally {
+    span.end();
+  }
+}
@@ -0,0 +1,91 @@
+import nodemailer from 'nodemailer';
+import { SmtpEmailProvider, isPermanentSmtpFailure, maskEmail } from './email-provider';
+
+jest.mock('nodemailer');
+
+const mockCreateTransport = nodemailer.createTransport as jest.Mock;
+
+const message = {
+  to: 'jane@example.com',
+  subject: 'Test',
+  html: '<p>Hi</p>',
+  text: 'Hi',
+};
+
+function createProvider(sendMail: jest.Mock): SmtpEmailProvider {
+  mockCreateTransport.mockReturnValue({ sendMail });
+  return new SmtpEmailProvider({
+    host: 'localhost',
+    port: 1025,
+    secure: false,
+    from: 'GTSD <noreply@gtsd.app>',
+  });
+}
+
+describe('Email Provider', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isPermanentSmtpFailure', () => {
+    it('should treat 5xx SMTP replies as permanent', () => {
+      expect(isPermanentSmtpFailure({ responseCode: 550 })).toBe(true);
+      expect(isPermanentSmtpFailure({ responseCode: 553 })).toBe(true);
+    });
+
+    it('should treat 4xx replies and connection errors as transient', () => {
+      expect(isPermanentSmtpFailure({ responseCode: 421 })).toBe(false);
+      expect(isPermanentSmtpFailure(new Error('ECONNREFUSED'))).toBe(false);
+    });
+  });
+
+  describe('maskEmail', () => {
+    it('should keep only the first character of the local part', () => {
+      expect(maskEmail('jane.doe@example.com')).toBe('j***@example.com');
+      expect(maskEmail('not-an-email')).toBe('***');
+    });
+  });
+
+  describe('SmtpEmailProvider', () => {
+    it('should send through the transport and return the message id', async () => {
+      const sendMail = jest.fn().mockResolvedValue({ messageId: '<id@host>', rejected: [] });
+      const provider = createProvider(sendMail);
+
+      const result = await provider.send(message);
+
+      expect(sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({ from: 'GTSD <noreply@gtsd.app>', to: 'jane@example.com' })
+      );
+      expect(result).toEqual({ success: true, messageId: '<id@host>' });
+    });
+
+    it('should report a rejected recipient as a permanent failure', async () => {
+      const sendMail = jest.fn().mockRejectedValue(
+        Object.assign(new Error("Can't send mail - all recipients were rejected"), {
+          code: 'EENVELOPE',
+          responseCode: 550,
+        })
+      );
+      const provider = createProvider(sendMail);
+
+      const result = await provider.send(message);
+
+      expect(result).toEqual(
+        expect.objectContaining({ success: false, errorCode: 'EENVELOPE', permanent: true })
+      );
+    });
+
+    it('should report connection errors as transient failures', async () => {
+      const sendMail = jest
+        .fn()
+        .mockRejectedValue(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ESOCKET' }));
+      const provider = createProvider(sendMail);
+
+      const result = await provider.send(message);
+
+      expect(result).toEqual(
+        expect.objectContaining({ success: false, errorCode: 'ESOCKET', permanent: false })
+      );
+    });
+  });
+});
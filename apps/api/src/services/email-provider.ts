@@ -0,0 +1,202 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { randomUUID } from 'crypto';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+
+const tracer = trace.getTracer('email-provider');
+
+/**
+ * Fully rendered email message
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Result of sending an email
+ */
+export interface SendEmailResult {
+  success: boolean;
+  messageId?: string;
+  errorMessage?: string;
+  errorCode?: string;
+  /**
+   * True when the receiving server rejected the message outright (hard bounce).
+   * Permanent failures must not be retried.
+   */
+  permanent?: boolean;
+}
+
+/**
+ * Email delivery backend
+ * Implementations never throw - failures are reported through SendEmailResult
+ */
+export interface EmailProvider {
+  readonly name: string;
+  send(message: EmailMessage): Promise<SendEmailResult>;
+}
+
+/**
+ * SMTP connection options
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Mask email address for logging (PII protection)
+ * Example: jane.doe@example.com -> j***@example.com
+ */
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  if (!local || !domain) return '***';
+  return `${local[0]}***@${domain}`;
+}
+
+/**
+ * Decide whether an SMTP error is a permanent rejection (hard bounce)
+ * SMTP 5xx reply codes are permanent; 4xx codes and connection errors are transient
+ */
+export function isPermanentSmtpFailure(error: unknown): boolean {
+  const responseCode = (error as { responseCode?: number }).responseCode;
+  return typeof responseCode === 'number' && responseCode >= 500 && responseCode < 600;
+}
+
+/**
+ * SMTP email provider
+ * Works against any SMTP server, including MailHog for local development
+ */
+export class SmtpEmailProvider implements EmailProvider {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: SmtpOptions) {
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<SendEmailResult> {
+    const span = tracer.startSpan('email.smtp.send');
+
+    try {
+      logger.info(
+        { to: maskEmail(message.to), subject: message.subject },
+        'Sending email via SMTP'
+      );
+
+      const info = await this.transporter.sendMail({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+
+      // With a single recipient a rejection normally throws, but some servers
+      // accept the envelope and report the recipient as rejected instead
+      if (info.rejected.length > 0) {
+        const errorMessage = `Recipient rejected: ${info.response}`;
+        span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+
+        return {
+          success: false,
+          errorMessage,
+          errorCode: 'EENVELOPE',
+          permanent: true,
+        };
+      }
+
+      span.setAttribute('email.message_id', info.messageId);
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return {
+        success: true,
+        messageId: info.messageId,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorCode = (error as { code?: string }).code || 'UNKNOWN';
+      const permanent = isPermanentSmtpFailure(error);
+
+      logger.error(
+        {
+          err: error,
+          to: maskEmail(message.to),
+          errorCode,
+          permanent,
+        },
+        'Failed to send email via SMTP'
+      );
+
+      span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+      span.recordException(error as Error);
+
+      return {
+        success: false,
+        errorMessage,
+        errorCode,
+        permanent,
+      };
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Log-only email provider
+ * Used in tests and anywhere no SMTP server is available
+ */
+export class LogEmailProvider implements EmailProvider {
+  readonly name = 'log';
+
+  async send(message: EmailMessage): Promise<SendEmailResult> {
+    logger.info(
+      { to: maskEmail(message.to), subject: message.subject },
+      'Email delivered to log provider (not sent)'
+    );
+
+    return {
+      success: true,
+      messageId: `log-${randomUUID()}`,
+    };
+  }
+}
+
+/**
+ * Create the email provider selected by EMAIL_PROVIDER
+ */
+export function createEmailProvider(): EmailProvider {
+  if (env.EMAIL_PROVIDER === 'smtp') {
+    return new SmtpEmailProvider({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT, 10),
+      secure: env.SMTP_SECURE,
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined,
+      from: env.EMAIL_FROM,
+    });
+  }
+
+  return new LogEmailProvider();
+}
+
+/**
+ * Singleton email provider
+ */
+export const emailProvider = createEmailProvider();
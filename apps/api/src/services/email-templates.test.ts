@@ -0,0 +1,121 @@
+import { renderEmailTemplate, escapeHtml, EMAIL_TEMPLATES } from './email-templates';
+
+describe('Email templates', () => {
+  describe('renderEmailTemplate', () => {
+    it('should render subject, html and text for password_reset', () => {
+      const email = renderEmailTemplate('password_reset', {
+        userName: 'Jane Doe',
+        resetUrl: 'https://app.example.com/reset-password?token=abc123',
+        expiresInMinutes: 60,
+      });
+
+      expect(email.subject).toBe('Password Reset Request - GTSD');
+      expect(email.text).toContain('Hi Jane,');
+      expect(email.text).toContain('https://app.example.com/reset-password?token=abc123');
+      expect(email.text).toContain('60 minutes');
+      expect(email.html).toContain('href="https://app.example.com/reset-password?token=abc123"');
+      expect(email.html).toContain('<!DOCTYPE html>');
+    });
+
+    it('should fall back to a generic greeting without a name', () => {
+      const email = renderEmailTemplate('password_changed', {});
+
+      expect(email.subject).toBe('Password Changed Successfully - GTSD');
+      expect(email.text.startsWith('Hi there,')).toBe(true);
+      expect(email.html).not.toContain('href=');
+    });
+
+    it('should render the verification link and expiry', () => {
+      const email = renderEmailTemplate('email_verification', {
+        verifyUrl: 'https://app.example.com/verify-email?token=xyz',
+        expiresInHours: 24,
+      });
+
+      expect(email.subject).toBe('Verify Your Email - GTSD');
+      expect(email.text).toContain(
+        'Verify your email: https://app.example.com/verify-email?token=xyz'
+      );
+      expect(email.text).toContain('24 hours');
+    });
+
+    it('should name the inviter and relationship in partner invites', () => {
+      const email = renderEmailTemplate('partner_invite', {
+        partnerName: 'Sam',
+        inviterName: 'Jane',
+        relationship: 'sister',
+        appUrl: 'https://app.example.com',
+      });
+
+      expect(email.subject).toContain('Jane invited you');
+      expect(email.text).toContain('Hi Sam,');
+      expect(email.text).toContain('Jane (your sister)');
+    });
+
+    it('should summarise the week in the weekly digest', () => {
+      const email = renderEmailTemplate('weekly_digest', {
+        userName: 'Jane',
+        weekStart: '2025-10-06',
+        weekEnd: '2025-10-12',
+        tasksCompleted: 18,
+        tasksTotal: 21,
+        currentStreak: 1,
+        weightChangeKg: -0.6,
+        appUrl: 'https://app.example.com',
+      });
+
+      expect(email.subject).toBe('Your Weekly Progress - GTSD');
+      expect(email.text).toContain('18 of 21 (86%)');
+      expect(email.text).toContain('Current streak: 1 day.');
+      expect(email.text).toContain('-0.6 kg');
+    });
+
+    it('should omit weight change and avoid dividing by zero in an empty week', () => {
+      const email = renderEmailTemplate('weekly_digest', {
+        weekStart: '2025-10-06',
+        weekEnd: '2025-10-12',
+        tasksCompleted: 0,
+        tasksTotal: 0,
+        currentStreak: 0,
+        weightChangeKg: null,
+        appUrl: 'https://app.example.com',
+      });
+
+      expect(email.text).toContain('0 of 0 (0%)');
+      expect(email.text).toContain('0 days');
+      expect(email.text).not.toContain('Weight change');
+    });
+
+    it('should escape user-controlled values in the HTML body', () => {
+      const email = renderEmailTemplate('partner_invite', {
+        partnerName: '<script>alert(1)</script>',
+        inviterName: 'Jane "J" <b>',
+        appUrl: 'https://app.example.com/?a=1&b=2',
+      });
+
+      expect(email.html).not.toContain('<script>');
+      expect(email.html).toContain('&lt;script&gt;');
+      expect(email.html).toContain('Jane &quot;J&quot; &lt;b&gt;');
+      expect(email.html).toContain('href="https://app.example.com/?a=1&amp;b=2"');
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('should escape all HTML special characters', () => {
+      expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;'
+      );
+    });
+  });
+
+  describe('EMAIL_TEMPLATES', () => {
+    it('should register every template', () => {
+      expect(Object.keys(EMAIL_TEMPLATES).sort()).toEqual([
+        'email_verification',
+        'partner_invite',
+        'password_changed',
+        'password_reset',
+        'weekly_digest',
+      ]);
+    });
+  });
+});
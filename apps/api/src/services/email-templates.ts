@@ -0,0 +1,223 @@
+/**
+ * Email template registry
+ *
+ * Every transactional email is described once as structured content (greeting,
+ * paragraphs, optional call-to-action) and rendered into both an HTML and a
+ * plain-text variant, so the two can never drift apart.
+ */
+
+/**
+ * Template data, keyed by template name
+ * Keep the keys in sync with `emailTemplateEnum` in the database schema
+ */
+export interface EmailTemplateData {
+  password_reset: {
+    userName?: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  password_changed: {
+    userName?: string;
+  };
+  email_verification: {
+    userName?: string;
+    verifyUrl: string;
+    expiresInHours: number;
+  };
+  partner_invite: {
+    partnerName: string;
+    inviterName: string;
+    relationship?: string;
+    appUrl: string;
+  };
+  weekly_digest: {
+    userName?: string;
+    weekStart: string; // YYYY-MM-DD
+    weekEnd: string; // YYYY-MM-DD
+    tasksCompleted: number;
+    tasksTotal: number;
+    currentStreak: number;
+    weightChangeKg?: number | null;
+    appUrl: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+/**
+ * Rendered email ready to hand to an email provider
+ */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Structured content shared by the HTML and text renderers
+ */
+interface EmailContent {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  action?: {
+    label: string;
+    url: string;
+  };
+  footer?: string;
+}
+
+const BRAND_NAME = 'GTSD';
+
+function greet(name?: string): string {
+  const firstName = name?.trim().split(/\s+/)[0];
+  return firstName ? `Hi ${firstName},` : 'Hi there,';
+}
+
+function formatKg(value: number): string {
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${value.toFixed(1)} kg`;
+}
+
+/**
+ * Template registry
+ */
+export const EMAIL_TEMPLATES: {
+  [K in EmailTemplateName]: (data: EmailTemplateData[K]) => EmailContent;
+} = {
+  password_reset: (data) => ({
+    subject: `Password Reset Request - ${BRAND_NAME}`,
+    greeting: greet(data.userName),
+    paragraphs: [
+      `We received a request to reset the password for your ${BRAND_NAME} account.`,
+      `This link expires in ${data.expiresInMinutes} minutes and can only be used once.`,
+    ],
+    action: { label: 'Reset your password', url: data.resetUrl },
+    footer: "If you didn't request a password reset, you can safely ignore this email.",
+  }),
+
+  password_changed: (data) => ({
+    subject: `Password Changed Successfully - ${BRAND_NAME}`,
+    greeting: greet(data.userName),
+    paragraphs: [
+      `The password for your ${BRAND_NAME} account was just changed and all other sessions were signed out.`,
+    ],
+    footer: "If you didn't make this change, reset your password immediately and contact support.",
+  }),
+
+  email_verification: (data) => ({
+    subject: `Verify Your Email - ${BRAND_NAME}`,
+    greeting: greet(data.userName),
+    paragraphs: [
+      `Please confirm your email address to finish setting up your ${BRAND_NAME} account.`,
+      `This link expires in ${data.expiresInHours} hours.`,
+    ],
+    action: { label: 'Verify your email', url: data.verifyUrl },
+    footer: "If you didn't create an account, you can safely ignore this email.",
+  }),
+
+  partner_invite: (data) => ({
+    subject: `${data.inviterName} invited you to be their accountability partner - ${BRAND_NAME}`,
+    greeting: greet(data.partnerName),
+    paragraphs: [
+      data.relationship
+        ? `${data.inviterName} (your ${data.relationship}) is working towards their health goals with ${BRAND_NAME} and would like you as their accountability partner.`
+        : `${data.inviterName} is working towards their health goals with ${BRAND_NAME} and would like you as their accountability partner.`,
+      "As a partner you'll get occasional updates on their progress and can cheer them on along the way.",
+    ],
+    action: { label: 'Learn more', url: data.appUrl },
+    footer: `You received this email because ${data.inviterName} added your address in ${BRAND_NAME}.`,
+  }),
+
+  weekly_digest: (data) => {
+    const completionRate =
+      data.tasksTotal > 0 ? Math.round((data.tasksCompleted / data.tasksTotal) * 100) : 0;
+    const paragraphs = [
+      `Here's your summary for ${data.weekStart} to ${data.weekEnd}.`,
+      `Tasks completed: ${data.tasksCompleted} of ${data.tasksTotal} (${completionRate}%).`,
+      `Current streak: ${data.currentStreak} day${data.currentStreak === 1 ? '' : 's'}.`,
+    ];
+    if (data.weightChangeKg !== undefined && data.weightChangeKg !== null) {
+      paragraphs.push(`Weight change this week: ${formatKg(data.weightChangeKg)}.`);
+    }
+
+    return {
+      subject: `Your Weekly Progress - ${BRAND_NAME}`,
+      greeting: greet(data.userName),
+      paragraphs,
+      action: { label: 'Open your plan', url: data.appUrl },
+    };
+  },
+};
+
+/**
+ * Escape user-controlled values before interpolating them into HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderHtml(content: EmailContent): string {
+  const paragraphs = content.paragraphs
+    .map((paragraph) => `<p style="margin:0 0 16px">${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+  const action = content.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(content.action.label)}</a></p>
+<p style="margin:0 0 16px;font-size:12px;color:#6b7280">Or copy this link into your browser: ${escapeHtml(content.action.url)}</p>`
+    : '';
+  const footer = content.footer
+    ? `<p style="margin:24px 0 0;font-size:12px;color:#6b7280">${escapeHtml(content.footer)}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(content.subject)}</title>
+</head>
+<body style="font-family:Arial,Helvetica,sans-serif;color:#111827;line-height:1.5;max-width:560px;margin:0 auto;padding:24px">
+<p style="margin:0 0 16px">${escapeHtml(content.greeting)}</p>
+${paragraphs}
+${action}
+${footer}
+<p style="margin:24px 0 0;font-size:12px;color:#6b7280">- The ${BRAND_NAME} Team</p>
+</body>
+</html>`;
+}
+
+function renderText(content: EmailContent): string {
+  const lines = [content.greeting, '', ...content.paragraphs.flatMap((p) => [p, ''])];
+  if (content.action) {
+    lines.push(`${content.action.label}: ${content.action.url}`, '');
+  }
+  if (content.footer) {
+    lines.push(content.footer, '');
+  }
+  lines.push(`- The ${BRAND_NAME} Team`);
+  return lines.join('\n');
+}
+
+/**
+ * Render a template into subject, HTML and plain-text bodies
+ *
+ * @param name - Template name
+ * @param data - Template data for that template
+ * @returns Rendered email
+ */
+export function renderEmailTemplate<K extends EmailTemplateName>(
+  name: K,
+  data: EmailTemplateData[K]
+): RenderedEmail {
+  const content = EMAIL_TEMPLATES[name](data);
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content),
+    text: renderText(content),
+  };
+}
@@ -0,0 +1,184 @@
+import {
+  assessTargetDate,
+  buildExpectedCurve,
+  classifyTrajectory,
+  estimateCompletion,
+  expectedWeightOn,
+  PlannedCurve,
+} from './goal-trajectory';
+
+describe('GoalTrajectoryService', () => {
+  const curve: PlannedCurve = {
+    startDate: '2025-01-06',
+    startWeight: 90,
+    targetWeight: 85,
+    weeklyRate: -0.5,
+  };
+
+  describe('expectedWeightOn', () => {
+    it('should follow the weekly rate from the start weight', () => {
+      expect(expectedWeightOn(curve, '2025-01-06')).toBe(90);
+      expect(expectedWeightOn(curve, '2025-01-20')).toBe(89);
+      expect(expectedWeightOn(curve, '2025-01-23')).toBe(88.79);
+    });
+
+    it('should stay flat before the start and after the target is reached', () => {
+      expect(expectedWeightOn(curve, '2024-12-30')).toBe(90);
+      expect(expectedWeightOn(curve, '2025-06-01')).toBe(85);
+    });
+
+    it('should take the direction from start to target regardless of the rate sign', () => {
+      const gain = { ...curve, startWeight: 70, targetWeight: 72, weeklyRate: 0.4 };
+
+      expect(expectedWeightOn(gain, '2025-01-20')).toBe(70.8);
+      expect(expectedWeightOn({ ...gain, weeklyRate: -0.4 }, '2025-01-20')).toBe(70.8);
+    });
+  });
+
+  describe('buildExpectedCurve', () => {
+    it('should produce weekly points until the target is reached', () => {
+      const points = buildExpectedCurve(curve, '2025-01-06');
+
+      expect(points).toHaveLength(11);
+      expect(points[1]).toEqual({ date: '2025-01-13', expectedWeight: 89.5 });
+      expect(points[10]).toEqual({ date: '2025-03-17', expectedWeight: 85 });
+    });
+
+    it('should extend to the end date when the plan finished earlier', () => {
+      const points = buildExpectedCurve(curve, '2025-04-01');
+
+      expect(points[points.length - 1].date).toBe('2025-04-07');
+      expect(points[points.length - 1].expectedWeight).toBe(85);
+    });
+
+    it('should cover elapsed weeks for maintenance plans', () => {
+      const maintain = { ...curve, targetWeight: 90, weeklyRate: 0 };
+
+      expect(buildExpectedCurve(maintain, '2025-01-27').map((p) => p.expectedWeight)).toEqual([
+        90, 90, 90, 90,
+      ]);
+    });
+  });
+
+  describe('classifyTrajectory', () => {
+    it('should need a trend weight', () => {
+      expect(classifyTrajectory(curve, null, 89, 85)).toEqual({
+        status: 'insufficient_data',
+        deviation: null,
+      });
+    });
+
+    it('should be on track within the tolerance', () => {
+      expect(classifyTrajectory(curve, 89.6, 89, 85)).toEqual({
+        status: 'on_track',
+        deviation: -0.6,
+      });
+    });
+
+    it('should be ahead or behind beyond the tolerance', () => {
+      expect(classifyTrajectory(curve, 87.5, 89, 85)).toEqual({ status: 'ahead', deviation: 1.5 });
+      expect(classifyTrajectory(curve, 90.2, 89, 85)).toEqual({
+        status: 'behind',
+        deviation: -1.2,
+      });
+    });
+
+    it('should use the current target to decide the goal is reached', () => {
+      expect(classifyTrajectory(curve, 86.3, 88, 86).status).toBe('reached');
+    });
+
+    it('should treat any drift as behind for maintenance', () => {
+      const maintain = { ...curve, targetWeight: 90, weeklyRate: 0 };
+
+      expect(classifyTrajectory(maintain, 90.5, 90, 90).status).toBe('on_track');
+      expect(classifyTrajectory(maintain, 88.5, 90, 90)).toEqual({
+        status: 'behind',
+        deviation: -1.5,
+      });
+    });
+  });
+
+  describe('estimateCompletion', () => {
+    it('should project the remaining distance at the observed rate', () => {
+      expect(estimateCompletion(88, 85, -0.75, '2025-02-03')).toEqual({
+        estimatedWeeksRemaining: 4,
+        estimatedCompletionDate: '2025-03-03',
+      });
+    });
+
+    it('should not estimate when the trend moves away from the target or stalls', () => {
+      const none = { estimatedWeeksRemaining: null, estimatedCompletionDate: null };
+
+      expect(estimateCompletion(88, 85, 0.2, '2025-02-03')).toEqual(none);
+      expect(estimateCompletion(88, 85, -0.02, '2025-02-03')).toEqual(none);
+      expect(estimateCompletion(88, 85, null, '2025-02-03')).toEqual(none);
+      expect(estimateCompletion(null, 85, -0.5, '2025-02-03')).toEqual(none);
+    });
+
+    it('should not report estimates years away', () => {
+      expect(estimateCompletion(120, 70, -0.1, '2025-02-03').estimatedCompletionDate).toBeNull();
+    });
+
+    it('should report today once the target is reached', () => {
+      expect(estimateCompletion(85.2, 85, 0, '2025-02-03')).toEqual({
+        estimatedWeeksRemaining: 0,
+        estimatedCompletionDate: '2025-02-03',
+      });
+    });
+  });
+
+  describe('assessTargetDate', () => {
+    const today = '2025-01-06';
+
+    it('should be achievable when the planned rate gets there in time', () => {
+      const assessment = assessTargetDate(90, 85, '2025-04-14', -0.5, today);
+
+      expect(assessment.feasibility).toBe('achievable');
+      expect(assessment.requiredWeeklyRate).toBe(-0.36);
+    });
+
+    it('should be aggressive when it needs more than the plan but within the safe maximum', () => {
+      const assessment = assessTargetDate(90, 85, '2025-02-17', -0.5, today);
+
+      expect(assessment.feasibility).toBe('aggressive');
+      expect(assessment.requiredWeeklyRate).toBe(-0.83);
+    });
+
+    it('should be unrealistic beyond the safe weekly loss', () => {
+      const assessment = assessTargetDate(90, 80, '2025-02-17', -0.5, today);
+
+      expect(assessment).toEqual({
+        targetDate: '2025-02-17',
+        feasibility: 'unrealistic',
+        requiredWeeklyRate: -1.67,
+        maxSafeWeeklyRate: -0.9,
+        message:
+          'Reaching 80 kg by 2025-02-17 needs 1.67 kg/week, above the safe maximum of 0.9 kg/week',
+      });
+    });
+
+    it('should use the safety limits it is given', () => {
+      const adolescent = { loss: 0.45, gain: 0.25 };
+
+      expect(assessTargetDate(90, 85, '2025-02-17', -0.5, today, adolescent).feasibility).toBe(
+        'unrealistic'
+      );
+    });
+
+    it('should use the lower safe maximum for weight gain', () => {
+      expect(assessTargetDate(70, 73.5, '2025-02-17', 0.4, today).feasibility).toBe('unrealistic');
+    });
+
+    it('should read the planned rate as a magnitude in the direction of the target', () => {
+      // Onboarding stores the loss rate as a positive number
+      expect(assessTargetDate(90, 85, '2025-03-31', 0.5, today).feasibility).toBe('achievable');
+      expect(assessTargetDate(70, 72, '2025-06-30', -0.5, today).feasibility).toBe('achievable');
+    });
+
+    it('should report passed, reached and missing target dates', () => {
+      expect(assessTargetDate(90, 85, '2025-01-06', -0.5, today).feasibility).toBe('passed');
+      expect(assessTargetDate(85.3, 85, '2025-01-01', -0.5, today).feasibility).toBe('reached');
+      expect(assessTargetDate(90, 85, null, -0.5, today).feasibility).toBe('not_set');
+    });
+  });
+});
@@ -0,0 +1,427 @@
+import { db } from '../db/connection';
+import { initialPlanSnapshot, userSettings } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { differenceInCalendarDays, differenceInYears, parseISO } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  ExpectedWeightPoint,
+  GoalTrajectoryResponse,
+  PrimaryGoalValue,
+  TargetDateAssessment,
+  TrajectoryStatus,
+} from '@gtsd/shared-types';
+import { GOAL_TRAJECTORY_SETTINGS, WEIGHT_TREND_SETTINGS } from '@gtsd/shared-types';
+import { AppError } from '../middleware/error';
+import { scienceService } from './science';
+import { weightTrendService } from './weight-trend';
+import { safeWeeklyRateLimits, type SafeWeeklyRateLimits } from './safety-guardrails';
+import { addLocalDays, getLocalDateString, getUserTimezone } from '../utils/timezone';
+
+const tracer = trace.getTracer('goal-trajectory-service');
+
+/**
+ * The plan the expected curve is drawn from
+ */
+export interface PlannedCurve {
+  startDate: string; // YYYY-MM-DD
+  startWeight: number; // kg
+  targetWeight: number; // kg
+  weeklyRate: number; // kg/week, sign is ignored - the direction comes from start → target
+}
+
+/**
+ * Re-estimated completion from the observed rate
+ */
+export interface CompletionEstimate {
+  estimatedWeeksRemaining: number | null;
+  estimatedCompletionDate: string | null;
+}
+
+function roundKg(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Weight the plan expects on a date
+ *
+ * @param curve - Planned curve
+ * @param date - Local date (YYYY-MM-DD)
+ * @returns Expected weight in kg; flat before the start and once the target is reached
+ */
+export function expectedWeightOn(curve: PlannedCurve, date: string): number {
+  const weeks = Math.max(
+    0,
+    differenceInCalendarDays(parseISO(date), parseISO(curve.startDate)) / 7
+  );
+  const distance = curve.targetWeight - curve.startWeight;
+  const progress = Math.min(Math.abs(distance), Math.abs(curve.weeklyRate) * weeks);
+
+  return roundKg(curve.startWeight + Math.sign(distance) * progress);
+}
+
+/**
+ * Build the expected weight curve, one point per week
+ *
+ * @param curve - Planned curve
+ * @param endDate - Last date the curve must cover (YYYY-MM-DD)
+ * @returns Points from the start date until the target is reached or endDate, whichever is later
+ *
+ * @remarks
+ * Capped at GOAL_TRAJECTORY_SETTINGS.maxEstimateWeeks so a tiny weekly rate can't produce an
+ * endless curve
+ */
+export function buildExpectedCurve(curve: PlannedCurve, endDate: string): ExpectedWeightPoint[] {
+  const distance = Math.abs(curve.targetWeight - curve.startWeight);
+  const planWeeks =
+    Math.abs(curve.weeklyRate) > 0 ? Math.ceil(distance / Math.abs(curve.weeklyRate)) : 0;
+  const elapsedWeeks = Math.ceil(
+    differenceInCalendarDays(parseISO(endDate), parseISO(curve.startDate)) / 7
+  );
+  const weeks = Math.min(
+    Math.max(planWeeks, elapsedWeeks, 0),
+    GOAL_TRAJECTORY_SETTINGS.maxEstimateWeeks
+  );
+
+  return Array.from({ length: weeks + 1 }, (_, week) => {
+    const date = addLocalDays(curve.startDate, week * 7);
+    return { date, expectedWeight: expectedWeightOn(curve, date) };
+  });
+}
+
+/**
+ * Classify progress against the expected weight
+ *
+ * @param curve - Planned curve
+ * @param currentWeight - Current trend weight in kg, or null without weigh-ins
+ * @param expectedWeight - Weight the plan expects today in kg
+ * @param targetWeight - Current target weight in kg
+ * @returns Status and how far along the curve the user is (positive = ahead)
+ *
+ * @remarks
+ * Without a direction (start equals target, e.g. maintenance) any drift counts as behind
+ */
+export function classifyTrajectory(
+  curve: PlannedCurve,
+  currentWeight: number | null,
+  expectedWeight: number,
+  targetWeight: number
+): { status: TrajectoryStatus; deviation: number | null } {
+  if (currentWeight === null) {
+    return { status: 'insufficient_data', deviation: null };
+  }
+
+  const { onTrackToleranceKg, reachedToleranceKg } = GOAL_TRAJECTORY_SETTINGS;
+  const direction = Math.sign(curve.targetWeight - curve.startWeight);
+  const deviation = roundKg(
+    direction === 0
+      ? -Math.abs(currentWeight - expectedWeight)
+      : (currentWeight - expectedWeight) * direction
+  );
+
+  if (direction !== 0 && Math.abs(targetWeight - currentWeight) <= reachedToleranceKg) {
+    return { status: 'reached', deviation };
+  }
+  if (deviation >= onTrackToleranceKg) {
+    return { status: 'ahead', deviation };
+  }
+  if (deviation <= -onTrackToleranceKg) {
+    return { status: 'behind', deviation };
+  }
+  return { status: 'on_track', deviation };
+}
+
+/**
+ * Re-estimate when the target will be reached at the observed rate
+ *
+ * @param currentWeight - Current trend weight in kg
+ * @param targetWeight - Target weight in kg
+ * @param observedWeeklyRate - Trend change per week in kg, or null
+ * @param today - Local date (YYYY-MM-DD)
+ * @returns Weeks and date, or nulls when the trend is not moving towards the target
+ */
+export function estimateCompletion(
+  currentWeight: number | null,
+  targetWeight: number,
+  observedWeeklyRate: number | null,
+  today: string
+): CompletionEstimate {
+  const none: CompletionEstimate = { estimatedWeeksRemaining: null, estimatedCompletionDate: null };
+
+  if (currentWeight === null || observedWeeklyRate === null) {
+    return none;
+  }
+
+  const remaining = targetWeight - currentWeight;
+  if (Math.abs(remaining) <= GOAL_TRAJECTORY_SETTINGS.reachedToleranceKg) {
+    return { estimatedWeeksRemaining: 0, estimatedCompletionDate: today };
+  }
+
+  if (
+    Math.abs(observedWeeklyRate) < GOAL_TRAJECTORY_SETTINGS.minObservedWeeklyRateKg ||
+    Math.sign(observedWeeklyRate) !== Math.sign(remaining)
+  ) {
+    return none;
+  }
+
+  const weeks = remaining / observedWeeklyRate;
+  if (weeks > GOAL_TRAJECTORY_SETTINGS.maxEstimateWeeks) {
+    return none;
+  }
+
+  return {
+    estimatedWeeksRemaining: Math.round(weeks * 10) / 10,
+    estimatedCompletionDate: addLocalDays(today, Math.ceil(weeks * 7)),
+  };
+}
+
+/**
+ * Check whether the target date can be reached at a safe rate
+ *
+ * @param currentWeight - Current weight in kg
+ * @param targetWeight - Target weight in kg
+ * @param targetDate - Local date (YYYY-MM-DD), or null when not set
+ * @param plannedWeeklyRate - Weekly change the plan is built on, in kg (sign is ignored)
+ * @param today - Local date (YYYY-MM-DD)
+ * @param limits - Safe weekly rates (defaults to the adult guardrails for currentWeight)
+ * @returns Feasibility with the required weekly rate
+ */
+export function assessTargetDate(
+  currentWeight: number,
+  targetWeight: number,
+  targetDate: string | null,
+  plannedWeeklyRate: number,
+  today: string,
+  limits: SafeWeeklyRateLimits = safeWeeklyRateLimits(currentWeight)
+): TargetDateAssessment {
+  const remaining = targetWeight - currentWeight;
+  const maxSafeWeeklyRate = remaining < 0 ? -limits.loss : limits.gain;
+
+  if (Math.abs(remaining) <= GOAL_TRAJECTORY_SETTINGS.reachedToleranceKg) {
+    return {
+      targetDate,
+      feasibility: 'reached',
+      requiredWeeklyRate: null,
+      maxSafeWeeklyRate: null,
+      message: `You are within ${GOAL_TRAJECTORY_SETTINGS.reachedToleranceKg} kg of your ${targetWeight} kg target`,
+    };
+  }
+
+  if (!targetDate) {
+    return {
+      targetDate,
+      feasibility: 'not_set',
+      requiredWeeklyRate: null,
+      maxSafeWeeklyRate,
+      message: 'No target date set',
+    };
+  }
+
+  const daysLeft = differenceInCalendarDays(parseISO(targetDate), parseISO(today));
+  if (daysLeft <= 0) {
+    return {
+      targetDate,
+      feasibility: 'passed',
+      requiredWeeklyRate: null,
+      maxSafeWeeklyRate,
+      message: `The target date ${targetDate} has passed`,
+    };
+  }
+
+  const requiredWeeklyRate = roundKg((remaining / daysLeft) * 7);
+  const required = Math.abs(requiredWeeklyRate);
+  const describe = `Reaching ${targetWeight} kg by ${targetDate} needs ${required} kg/week`;
+
+  // Snapshots may hold the rate with either sign; the direction always runs toward the target
+  if (required <= Math.abs(plannedWeeklyRate)) {
+    return {
+      targetDate,
+      feasibility: 'achievable',
+      requiredWeeklyRate,
+      maxSafeWeeklyRate,
+      message: `${describe}, within your planned ${Math.abs(plannedWeeklyRate)} kg/week`,
+    };
+  }
+
+  if (required <= Math.abs(maxSafeWeeklyRate)) {
+    return {
+      targetDate,
+      feasibility: 'aggressive',
+      requiredWeeklyRate,
+      maxSafeWeeklyRate,
+      message: `${describe}, faster than your planned ${Math.abs(plannedWeeklyRate)} kg/week`,
+    };
+  }
+
+  return {
+    targetDate,
+    feasibility: 'unrealistic',
+    requiredWeeklyRate,
+    maxSafeWeeklyRate,
+    message: `${describe}, above the safe maximum of ${Math.abs(maxSafeWeeklyRate)} kg/week`,
+  };
+}
+
+/**
+ * Goal trajectory service
+ * Compares the initial plan's projection with the actual weight trend
+ */
+export class GoalTrajectoryService {
+  /**
+   * Get the expected weight curve next to the actual trend
+   *
+   * @param userId - User ID
+   * @param now - Reference time (defaults to now)
+   * @returns Trajectory with status, re-estimated completion and target date feasibility
+   * @throws {AppError} 404 if the user has no initial plan snapshot
+   *
+   * @remarks
+   * - The actual trend and observed rate come from WeightTrendService
+   * - The target weight and date are read from user settings, so goal edits are reflected
+   *   even though the expected curve stays anchored to the initial plan
+   */
+  async getTrajectory(userId: number, now: Date = new Date()): Promise<GoalTrajectoryResponse> {
+    const span = tracer.startSpan('goal_trajectory.get_trajectory');
+
+    try {
+      span.setAttributes({ 'user.id': userId });
+
+      const [[snapshot], [settings]] = await Promise.all([
+        db
+          .select()
+          .from(initialPlanSnapshot)
+          .where(eq(initialPlanSnapshot.userId, userId))
+          .limit(1),
+        db
+          .select({
+            currentWeight: userSettings.currentWeight,
+            targetWeight: userSettings.targetWeight,
+            targetDate: userSettings.targetDate,
+            primaryGoal: userSettings.primaryGoal,
+            dateOfBirth: userSettings.dateOfBirth,
+          })
+          .from(userSettings)
+          .where(eq(userSettings.userId, userId))
+          .limit(1),
+      ]);
+
+      if (!snapshot) {
+        throw new AppError(404, 'No plan found. Complete onboarding to start tracking your goal.');
+      }
+
+      const timezone = await getUserTimezone(userId);
+      const today = getLocalDateString(timezone, now);
+      const startDate = getLocalDateString(timezone, snapshot.startDate);
+
+      const goal =
+        (settings?.primaryGoal as PrimaryGoalValue | null) ||
+        (snapshot.primaryGoal as PrimaryGoalValue);
+      const plannedWeeklyRate =
+        snapshot.weeklyWeightChangeRate !== null
+          ? parseFloat(snapshot.weeklyWeightChangeRate.toString())
+          : scienceService.calculateWeeklyRate(goal);
+
+      const curve: PlannedCurve = {
+        startDate,
+        startWeight: parseFloat(snapshot.startWeight.toString()),
+        targetWeight: parseFloat(snapshot.targetWeight.toString()),
+        weeklyRate: plannedWeeklyRate,
+      };
+      const targetWeight = settings?.targetWeight
+        ? parseFloat(settings.targetWeight.toString())
+        : curve.targetWeight;
+      const targetDate = settings?.targetDate ?? snapshot.targetDate;
+
+      // The weight trend endpoint caps its range, so very old plans only show the recent trend
+      const earliest = addLocalDays(today, -(WEIGHT_TREND_SETTINGS.maxRangeDays - 1));
+      const progress = await weightTrendService.getWeightProgress(
+        userId,
+        { from: startDate > earliest ? startDate : earliest, to: today },
+        now
+      );
+
+      const currentTrendWeight = progress.latestTrendWeight;
+      const expectedWeightToday = expectedWeightOn(curve, today);
+      const { status, deviation } = classifyTrajectory(
+        curve,
+        currentTrendWeight,
+        expectedWeightToday,
+        targetWeight
+      );
+      const observedWeeklyRate = progress.rate.actualWeeklyRate;
+      const completion = estimateCompletion(
+        currentTrendWeight,
+        targetWeight,
+        observedWeeklyRate,
+        today
+      );
+
+      const currentWeight =
+        currentTrendWeight ??
+        (settings?.currentWeight
+          ? parseFloat(settings.currentWeight.toString())
+          : curve.startWeight);
+      const targetDateAssessment = assessTargetDate(
+        currentWeight,
+        targetWeight,
+        targetDate ? getLocalDateString(timezone, targetDate) : null,
+        plannedWeeklyRate,
+        today,
+        safeWeeklyRateLimits(
+          currentWeight,
+          settings?.dateOfBirth ? differenceInYears(now, settings.dateOfBirth) : undefined
+        )
+      );
+
+      span.setAttributes({
+        'goal_trajectory.status': status,
+        'goal_trajectory.target_date_feasibility': targetDateAssessment.feasibility,
+      });
+
+      logger.debug(
+        {
+          userId,
+          status,
+          deviation,
+          observedWeeklyRate,
+          feasibility: targetDateAssessment.feasibility,
+        },
+        'Goal trajectory computed'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return {
+        startDate,
+        startWeight: curve.startWeight,
+        targetWeight,
+        plannedWeeklyRate,
+        projectedCompletionDate: snapshot.projectedCompletionDate
+          ? getLocalDateString(timezone, snapshot.projectedCompletionDate)
+          : null,
+        expected: buildExpectedCurve(curve, today),
+        actual: progress.trend,
+        currentTrendWeight,
+        expectedWeightToday,
+        deviation,
+        status,
+        observedWeeklyRate,
+        ...completion,
+        targetDate: targetDateAssessment,
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Singleton instance for reuse across the application
+ */
+export const goalTrajectoryService = new GoalTrajectoryService();
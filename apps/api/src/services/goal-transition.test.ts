@@ -0,0 +1,168 @@
+import { buildGoalTransition } from './goal-transition';
+import { scienceService } from './science';
+import type { ScienceInputs } from '@gtsd/shared-types';
+
+describe('GoalTransitionService', () => {
+  // Wednesday; phases start on the Monday of this week
+  const now = new Date('2025-01-08T12:00:00Z');
+
+  const inputs: ScienceInputs = {
+    weight: 80,
+    height: 180,
+    age: 35,
+    gender: 'male',
+    activityLevel: 'moderately_active',
+    primaryGoal: 'lose_weight',
+    targetWeight: 75,
+  };
+
+  // 2220 kcal, 176 g protein, 2800 ml water
+  const cutTargets = scienceService.computeTargetsFromInputs(inputs, []);
+  const maintenanceTargets = scienceService.computeTargetsFromInputs(
+    { ...inputs, primaryGoal: 'maintain' },
+    []
+  );
+  const currentTargets = {
+    calorieTarget: cutTargets.calorieTarget,
+    proteinTarget: cutTargets.proteinTarget,
+    waterTarget: cutTargets.waterTarget,
+  };
+
+  describe('buildGoalTransition', () => {
+    it('should step calories weekly from a cut to maintenance', () => {
+      const transition = buildGoalTransition({
+        fromGoal: 'lose_weight',
+        toGoal: 'maintain',
+        currentTargets,
+        finalTargets: maintenanceTargets,
+        startDate: now,
+      });
+
+      expect(transition.kind).toBe('reverse_diet');
+      // 500 kcal in steps of at most 150 kcal
+      expect(transition.phases.map((p) => p.calorieTarget)).toEqual([2350, 2470, 2600, 2720]);
+      expect(transition.phases.map((p) => p.startDate.getDay())).toEqual([1, 1, 1, 1]);
+      expect(transition.phases[0].startDate.getDate()).toBe(6);
+      expect(transition.phases[3].endDate.getDate()).toBe(2);
+      expect(transition.phases[1]).toMatchObject({
+        phaseNumber: 2,
+        proteinTarget: 176,
+        waterTarget: maintenanceTargets.waterTarget,
+        carbsTarget: scienceService.calculateMacroTargets(2470, 176, 0, 'balanced').carbsTarget,
+        // 250 kcal below maintenance × 7 / 7700 kcal per kg
+        weeklyRate: -0.23,
+      });
+      expect(transition.phases[3]).toMatchObject({
+        proteinTarget: maintenanceTargets.proteinTarget,
+        carbsTarget: maintenanceTargets.carbsTarget,
+        weeklyRate: 0,
+      });
+      expect(transition.explanation[0]).toBe(
+        'Calories rise from 2220 to 2720 kcal over 4 weeks, about 130 kcal a week'
+      );
+    });
+
+    it('should cap long transitions at the maximum number of phases', () => {
+      const transition = buildGoalTransition({
+        fromGoal: 'lose_weight',
+        toGoal: 'gain_muscle',
+        currentTargets: { ...currentTargets, calorieTarget: 1700 },
+        finalTargets: { ...maintenanceTargets, calorieTarget: 3120 },
+        startDate: now,
+      });
+
+      expect(transition.kind).toBe('reverse_diet');
+      expect(transition.phases).toHaveLength(8);
+      expect(transition.phases[7].calorieTarget).toBe(3120);
+    });
+
+    it('should ramp into a surplus and taper out of one', () => {
+      const gainTargets = scienceService.computeTargetsFromInputs(
+        { ...inputs, primaryGoal: 'gain_muscle' },
+        []
+      );
+      const maintenance = {
+        calorieTarget: maintenanceTargets.calorieTarget,
+        proteinTarget: maintenanceTargets.proteinTarget,
+        waterTarget: maintenanceTargets.waterTarget,
+      };
+
+      const rampIn = buildGoalTransition({
+        fromGoal: 'maintain',
+        toGoal: 'gain_muscle',
+        currentTargets: maintenance,
+        finalTargets: gainTargets,
+        startDate: now,
+      });
+      const taper = buildGoalTransition({
+        fromGoal: 'gain_muscle',
+        toGoal: 'maintain',
+        currentTargets: {
+          calorieTarget: gainTargets.calorieTarget,
+          proteinTarget: gainTargets.proteinTarget,
+          waterTarget: gainTargets.waterTarget,
+        },
+        finalTargets: maintenanceTargets,
+        startDate: now,
+      });
+
+      expect(rampIn.kind).toBe('surplus_ramp_in');
+      expect(rampIn.phases.map((p) => p.calorieTarget)).toEqual([2850, 2990, 3120]);
+      expect(taper.kind).toBe('surplus_taper');
+      expect(taper.phases.map((p) => p.calorieTarget)).toEqual([2990, 2850, 2720]);
+      expect(taper.explanation[0]).toContain('Calories drop from 3120 to 2720 kcal');
+    });
+
+    it('should apply the new targets right away when no phases are needed', () => {
+      const startCut = buildGoalTransition({
+        fromGoal: 'maintain',
+        toGoal: 'lose_weight',
+        currentTargets: { ...currentTargets, calorieTarget: 2720 },
+        finalTargets: cutTargets,
+        startDate: now,
+      });
+      const smallChange = buildGoalTransition({
+        fromGoal: 'lose_weight',
+        toGoal: 'maintain',
+        currentTargets: { ...currentTargets, calorieTarget: 2600 },
+        finalTargets: maintenanceTargets,
+        startDate: now,
+      });
+
+      expect(startCut).toMatchObject({ kind: null, phases: [] });
+      expect(smallChange).toMatchObject({ kind: null, phases: [] });
+      expect(smallChange.explanation).toEqual([
+        'Calories change by only 120 kcal, so your new targets apply right away',
+      ]);
+    });
+
+    it('should keep pinned protein through the transition', () => {
+      const transition = buildGoalTransition({
+        fromGoal: 'lose_weight',
+        toGoal: 'maintain',
+        currentTargets,
+        finalTargets: {
+          ...maintenanceTargets,
+          proteinTarget: 150,
+          overrides: [
+            {
+              field: 'proteinTarget',
+              value: 150,
+              reason: null,
+              setBy: 'user',
+              setByUserId: 1,
+              expiresAt: null,
+              createdAt: now,
+              formulaValue: maintenanceTargets.proteinTarget,
+              capped: false,
+            },
+          ],
+        },
+        startDate: now,
+      });
+
+      expect(transition.phases.every((p) => p.proteinTarget === 150)).toBe(true);
+      expect(transition.explanation).toHaveLength(2);
+    });
+  });
+});
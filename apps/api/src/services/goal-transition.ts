@@ -0,0 +1,322 @@
+import { db } from '../db/connection';
+import { userSettings, SelectUserSettings } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { addWeeks, endOfWeek, startOfWeek } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  ComputedTargets,
+  GoalTransition,
+  GoalTransitionKind,
+  GoalTransitionPhase,
+  PrimaryGoalValue,
+} from '@gtsd/shared-types';
+import { GOAL_TRANSITION_SETTINGS, getGoalTransitionKind } from '@gtsd/shared-types';
+import { AppError } from '../middleware/error';
+import { scienceService } from './science';
+import { weeklyRateForCalories } from './safety-guardrails';
+import { targetSimulatorService } from './target-simulator';
+
+const tracer = trace.getTracer('goal-transition-service');
+
+/**
+ * Settings a transition starts from
+ */
+type TransitionSettings = Pick<
+  SelectUserSettings,
+  'primaryGoal' | 'calorieTarget' | 'proteinTarget' | 'waterTarget'
+>;
+
+/**
+ * Why each kind of transition is phased
+ */
+const TRANSITION_RATIONALE: Record<GoalTransitionKind, string> = {
+  reverse_diet:
+    'Raising calories slowly after a cut gives appetite and metabolism time to adjust, which helps keep the lost weight off',
+  surplus_ramp_in: 'Easing into the surplus limits fat gain while training catches up',
+  surplus_taper: 'Stepping down from the surplus gradually keeps training performance steady',
+};
+
+/**
+ * Inputs for building a goal transition
+ */
+export interface GoalTransitionInput {
+  fromGoal: PrimaryGoalValue;
+  toGoal: PrimaryGoalValue;
+  currentTargets: GoalTransition['currentTargets'];
+  /** Targets for the new goal, with adaptive TDEE and pins already applied */
+  finalTargets: ComputedTargets;
+  /** Any time in the week the first phase covers */
+  startDate: Date;
+}
+
+function roundCalories(calories: number): number {
+  const step = GOAL_TRANSITION_SETTINGS.roundToKcal;
+  return Math.round(calories / step) * step;
+}
+
+/**
+ * Build the weekly phases that step calories from the current targets to the new goal's
+ *
+ * @returns The transition, with no phases when the new targets can apply right away
+ *
+ * @remarks
+ * - Calories move in equal steps of at most GOAL_TRANSITION_SETTINGS.maxWeeklyStepKcal
+ *   (longer transitions are capped at maxPhases weeks), and the last phase uses the final targets
+ * - Protein stays at the higher of the current and final values until the last phase, unless
+ *   it is pinned by hand
+ * - Intermediate calories lie between two targets that already passed the safety guardrails,
+ *   so they are not checked again
+ */
+export function buildGoalTransition(input: GoalTransitionInput): GoalTransition {
+  const { fromGoal, toGoal, currentTargets, finalTargets, startDate } = input;
+  const kind = getGoalTransitionKind(fromGoal, toGoal);
+  const calorieChange = finalTargets.calorieTarget - currentTargets.calorieTarget;
+
+  const immediate: GoalTransition = {
+    fromGoal,
+    toGoal,
+    kind: null,
+    currentTargets,
+    finalTargets,
+    phases: [],
+    explanation: [],
+  };
+
+  if (!kind) {
+    return { ...immediate, explanation: ['Your new targets apply right away'] };
+  }
+
+  if (currentTargets.calorieTarget <= 0) {
+    return {
+      ...immediate,
+      explanation: ['You have no calorie target yet, so your new targets apply right away'],
+    };
+  }
+
+  if (Math.abs(calorieChange) <= GOAL_TRANSITION_SETTINGS.maxWeeklyStepKcal) {
+    return {
+      ...immediate,
+      explanation: [
+        `Calories change by only ${Math.abs(calorieChange)} kcal, so your new targets apply right away`,
+      ],
+    };
+  }
+
+  const phaseCount = Math.min(
+    Math.ceil(Math.abs(calorieChange) / GOAL_TRANSITION_SETTINGS.maxWeeklyStepKcal),
+    GOAL_TRANSITION_SETTINGS.maxPhases
+  );
+  const proteinPinned = finalTargets.overrides?.some((o) => o.field === 'proteinTarget') ?? false;
+  const transitionProtein = proteinPinned
+    ? finalTargets.proteinTarget
+    : Math.max(currentTargets.proteinTarget, finalTargets.proteinTarget);
+  const firstWeek = startOfWeek(startDate, { weekStartsOn: 1 }); // Monday
+
+  const phases: GoalTransitionPhase[] = [];
+  for (let phaseNumber = 1; phaseNumber <= phaseCount; phaseNumber++) {
+    const phaseStart = addWeeks(firstWeek, phaseNumber - 1);
+    const dates = {
+      phaseNumber,
+      startDate: phaseStart,
+      endDate: endOfWeek(phaseStart, { weekStartsOn: 1 }), // Sunday
+    };
+
+    if (phaseNumber === phaseCount) {
+      phases.push({
+        ...dates,
+        calorieTarget: finalTargets.calorieTarget,
+        proteinTarget: finalTargets.proteinTarget,
+        waterTarget: finalTargets.waterTarget,
+        carbsTarget: finalTargets.carbsTarget,
+        fatTarget: finalTargets.fatTarget,
+        fiberTarget: finalTargets.fiberTarget,
+        weeklyRate: finalTargets.weeklyRate,
+      });
+      continue;
+    }
+
+    const calorieTarget = roundCalories(
+      currentTargets.calorieTarget + (calorieChange * phaseNumber) / phaseCount
+    );
+    // Weight 0 skips the profile's protein floor so the transition protein is kept as is
+    const macros = finalTargets.macroProfile
+      ? scienceService.calculateMacroTargets(
+          calorieTarget,
+          transitionProtein,
+          0,
+          finalTargets.macroProfile
+        )
+      : undefined;
+
+    phases.push({
+      ...dates,
+      calorieTarget,
+      proteinTarget: transitionProtein,
+      waterTarget: finalTargets.waterTarget,
+      carbsTarget: macros?.carbsTarget,
+      fatTarget: macros?.fatTarget,
+      fiberTarget: macros?.fiberTarget,
+      weeklyRate: weeklyRateForCalories(calorieTarget, finalTargets.tdee),
+    });
+  }
+
+  const explanation = [
+    `Calories ${calorieChange > 0 ? 'rise' : 'drop'} from ${currentTargets.calorieTarget} to ` +
+      `${finalTargets.calorieTarget} kcal over ${phaseCount} weeks, about ` +
+      `${roundCalories(Math.abs(calorieChange) / phaseCount)} kcal a week`,
+    TRANSITION_RATIONALE[kind],
+  ];
+  if (transitionProtein !== finalTargets.proteinTarget) {
+    explanation.push(
+      `Protein stays at ${transitionProtein}g until the last week, then moves to ${finalTargets.proteinTarget}g`
+    );
+  }
+
+  return { ...immediate, kind, phases, explanation };
+}
+
+/**
+ * Goal transition service
+ * Plans how targets move to a new primary goal; PlansService stores and runs the phases
+ */
+export class GoalTransitionService {
+  /**
+   * Preview the transition to a new primary goal
+   *
+   * @param userId - User ID
+   * @param toGoal - Goal the user is considering
+   * @param now - Reference time; the first phase is the current week (defaults to now)
+   * @returns The phased schedule; nothing is stored
+   * @throws {AppError} 404 if the user has no settings, 400 before onboarding is complete or
+   *   when the goal is unchanged
+   */
+  async preview(
+    userId: number,
+    toGoal: PrimaryGoalValue,
+    now: Date = new Date()
+  ): Promise<GoalTransition> {
+    const settings = await this.getSettings(userId);
+    const fromGoal = settings.primaryGoal as PrimaryGoalValue | null;
+
+    if (fromGoal === toGoal) {
+      throw new AppError(400, `Your primary goal is already ${toGoal}`);
+    }
+
+    return this.build(userId, settings, fromGoal ?? 'maintain', toGoal, now);
+  }
+
+  /**
+   * Plan the transition after the primary goal was changed in the profile
+   *
+   * @param userId - User ID
+   * @param fromGoal - Goal before the change; user_settings already holds the new goal while
+   *   the targets are still the old goal's
+   * @param now - Reference time; the first phase is the current week (defaults to now)
+   */
+  async forGoalChange(
+    userId: number,
+    fromGoal: PrimaryGoalValue,
+    now: Date = new Date()
+  ): Promise<GoalTransition> {
+    const settings = await this.getSettings(userId);
+
+    return this.build(
+      userId,
+      settings,
+      fromGoal,
+      (settings.primaryGoal as PrimaryGoalValue | null) ?? 'maintain',
+      now
+    );
+  }
+
+  private async getSettings(userId: number): Promise<TransitionSettings> {
+    const [settings] = await db
+      .select({
+        primaryGoal: userSettings.primaryGoal,
+        calorieTarget: userSettings.calorieTarget,
+        proteinTarget: userSettings.proteinTarget,
+        waterTarget: userSettings.waterTarget,
+      })
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId))
+      .limit(1);
+
+    if (!settings) {
+      throw new AppError(404, 'User settings not found');
+    }
+
+    return settings;
+  }
+
+  private async build(
+    userId: number,
+    settings: TransitionSettings,
+    fromGoal: PrimaryGoalValue,
+    toGoal: PrimaryGoalValue,
+    now: Date
+  ): Promise<GoalTransition> {
+    const span = tracer.startSpan('goal_transition.build');
+
+    try {
+      span.setAttributes({
+        'user.id': userId,
+        'transition.from_goal': fromGoal,
+        'transition.to_goal': toGoal,
+      });
+
+      // Same calculation as plan generation, on the new goal
+      const simulation = await targetSimulatorService.simulate(
+        userId,
+        { primaryGoal: toGoal },
+        now
+      );
+
+      const transition = buildGoalTransition({
+        fromGoal,
+        toGoal,
+        currentTargets: {
+          calorieTarget: settings.calorieTarget ?? 0,
+          proteinTarget: settings.proteinTarget ?? 0,
+          waterTarget: settings.waterTarget ?? 0,
+        },
+        finalTargets: simulation.targets,
+        startDate: now,
+      });
+
+      span.setAttributes({
+        'transition.kind': transition.kind ?? 'immediate',
+        'transition.phases': transition.phases.length,
+      });
+
+      logger.debug(
+        {
+          userId,
+          fromGoal,
+          toGoal,
+          kind: transition.kind,
+          phases: transition.phases.length,
+          calorieTarget: transition.finalTargets.calorieTarget,
+        },
+        'Goal transition planned'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return transition;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const goalTransitionService = new GoalTransitionService();
@@ -0,0 +1,266 @@
+import {
+  AppleHealthParser,
+  HealthImportAccumulator,
+  parseAppleHealthDate,
+  parseGoogleFitExport,
+  workoutActivityType,
+  type ExistingHealthHistory,
+  type HealthSample,
+} from './health-export';
+import { AppError } from '../middleware/error';
+
+describe('Health export', () => {
+  const noHistory = (): ExistingHealthHistory => ({
+    weighInDates: new Set(),
+    stepDates: new Set(),
+    activityStartTimes: [],
+  });
+
+  describe('AppleHealthParser', () => {
+    const exportXml = `<?xml version="1.0" encoding="UTF-8"?>
+<HealthData locale="en_GB">
+ <Me HKCharacteristicTypeIdentifierBiologicalSex="HKBiologicalSexFemale"/>
+ <Record type="HKQuantityTypeIdentifierBodyMass" sourceName="Scale" unit="lb" creationDate="2025-01-06 07:01:00 +0100" startDate="2025-01-06 07:00:00 +0100" endDate="2025-01-06 07:00:00 +0100" value="176.4"/>
+ <Record type="HKQuantityTypeIdentifierBodyFatPercentage" sourceName="Scale" unit="%" startDate="2025-01-06 07:00:00 +0100" endDate="2025-01-06 07:00:00 +0100" value="0.215">
+  <MetadataEntry key="HKWasUserEntered" value="1"/>
+ </Record>
+ <Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Watch" unit="count/min" startDate="2025-01-06 07:05:00 +0100" endDate="2025-01-06 07:05:00 +0100" value="62"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="2025-01-06 08:00:00 +0100" endDate="2025-01-06 08:10:00 +0100" value="1200"/>
+ <Workout workoutActivityType="HKWorkoutActivityTypeRunning" duration="32.5" durationUnit="min" sourceName="Watch" startDate="2025-01-06 18:00:00 +0100" endDate="2025-01-06 18:32:30 +0100">
+  <MetadataEntry key="HKIndoorWorkout" value="0"/>
+  <WorkoutStatistics type="HKQuantityTypeIdentifierActiveEnergyBurned" startDate="2025-01-06 18:00:00 +0100" endDate="2025-01-06 18:32:30 +0100" sum="1464" unit="kJ"/>
+  <WorkoutStatistics type="HKQuantityTypeIdentifierDistanceWalkingRunning" startDate="2025-01-06 18:00:00 +0100" endDate="2025-01-06 18:32:30 +0100" sum="3.1" unit="mi"/>
+ </Workout>
+ <Workout workoutActivityType="HKWorkoutActivityTypeTraditionalStrengthTraining" duration="45" durationUnit="min" totalEnergyBurned="210" totalEnergyBurnedUnit="kcal" startDate="2025-01-07 07:00:00 +0100" endDate="2025-01-07 07:45:00 +0100"/>
+</HealthData>`;
+
+    const parse = (): { samples: HealthSample[]; parser: AppleHealthParser } => {
+      const parser = new AppleHealthParser();
+      const samples = exportXml.split('\n').flatMap((line) => parser.pushLine(line));
+      return { samples, parser };
+    };
+
+    it('should read weight, body fat and steps with unit conversion', () => {
+      const { samples, parser } = parse();
+
+      expect(parser.recordsRead).toBe(6);
+      expect(samples.slice(0, 3)).toEqual([
+        {
+          kind: 'weight',
+          recordedAt: new Date('2025-01-06T06:00:00Z'),
+          weight: expect.closeTo(80.01, 2),
+        },
+        { kind: 'body_fat', recordedAt: new Date('2025-01-06T06:00:00Z'), bodyFat: 21.5 },
+        {
+          kind: 'steps',
+          recordedAt: new Date('2025-01-06T07:00:00Z'),
+          steps: 1200,
+          source: 'iPhone',
+        },
+      ]);
+    });
+
+    it('should read workout totals from attributes and workout statistics', () => {
+      const workouts = parse().samples.flatMap((s) => (s.kind === 'workout' ? [s.workout] : []));
+
+      expect(workouts).toEqual([
+        {
+          startTime: new Date('2025-01-06T17:00:00Z'),
+          endTime: new Date('2025-01-06T17:32:30Z'),
+          activityType: 'running',
+          duration: 32.5,
+          distance: 4.99,
+          caloriesBurned: 350,
+        },
+        {
+          startTime: new Date('2025-01-07T06:00:00Z'),
+          endTime: new Date('2025-01-07T06:45:00Z'),
+          activityType: 'strength',
+          duration: 45,
+          distance: null,
+          caloriesBurned: 210,
+        },
+      ]);
+    });
+
+    it('should parse Apple Health dates with their UTC offset', () => {
+      expect(parseAppleHealthDate('2025-07-01 23:30:00 -0700')).toEqual(
+        new Date('2025-07-02T06:30:00Z')
+      );
+      expect(parseAppleHealthDate('2025-07-01')).toBeUndefined();
+    });
+  });
+
+  describe('parseGoogleFitExport', () => {
+    it('should read data points and sessions', () => {
+      const { samples, recordsRead } = parseGoogleFitExport([
+        {
+          'Data Source': 'derived:com.google.weight:com.google.android.gms:merge_weight',
+          'Data Points': [
+            {
+              dataTypeName: 'com.google.weight',
+              startTimeNanos: '1736146800000000000',
+              endTimeNanos: '1736146800000000000',
+              fitValue: [{ value: { fpVal: 80.2 } }],
+            },
+            {
+              dataTypeName: 'com.google.step_count.delta',
+              startTimeNanos: '1736150400000000000',
+              endTimeNanos: '1736154000000000000',
+              originDataSourceId: 'raw:com.google.step_count.delta:phone',
+              fitValue: [{ value: { intVal: 3400 } }],
+            },
+          ],
+        },
+        {
+          fitnessActivity: 'biking',
+          startTime: '2025-01-06T17:00:00.000Z',
+          endTime: '2025-01-06T18:00:00.000Z',
+          duration: '3600.000s',
+          aggregate: [
+            { metricName: 'com.google.distance.delta', floatValue: 20500.4 },
+            { metricName: 'com.google.calories.expended', floatValue: 612.3 },
+          ],
+        },
+      ]);
+
+      expect(recordsRead).toBe(3);
+      expect(samples).toEqual([
+        { kind: 'weight', recordedAt: new Date('2025-01-06T07:00:00Z'), weight: 80.2 },
+        {
+          kind: 'steps',
+          recordedAt: new Date('2025-01-06T08:00:00Z'),
+          steps: 3400,
+          source: 'raw:com.google.step_count.delta:phone',
+        },
+        {
+          kind: 'workout',
+          workout: {
+            startTime: new Date('2025-01-06T17:00:00Z'),
+            endTime: new Date('2025-01-06T18:00:00Z'),
+            activityType: 'cycling',
+            duration: 60,
+            distance: 20.5,
+            caloriesBurned: 612,
+          },
+        },
+      ]);
+    });
+
+    it('should read multi-year data point files', () => {
+      const start = 1736150400000;
+      const points = Array.from({ length: 200000 }, (_, i) => ({
+        dataTypeName: 'com.google.step_count.delta',
+        startTimeNanos: `${(start + i * 600000) * 1e6}`,
+        endTimeNanos: `${(start + i * 600000 + 60000) * 1e6}`,
+        fitValue: [{ value: { intVal: 100 } }],
+      }));
+
+      const { samples, recordsRead } = parseGoogleFitExport({ 'Data Points': points });
+
+      expect(recordsRead).toBe(200000);
+      expect(samples).toHaveLength(200000);
+    });
+
+    it('should reject files that are not Google Fit exports', () => {
+      expect(() => parseGoogleFitExport({ foo: 'bar' })).toThrow(AppError);
+    });
+  });
+
+  describe('workoutActivityType', () => {
+    it('should separate strength sessions from cardio', () => {
+      expect(workoutActivityType('HKWorkoutActivityTypeFunctionalStrengthTraining')).toBe(
+        'strength'
+      );
+      expect(workoutActivityType('weightlifting')).toBe('strength');
+      expect(workoutActivityType('HKWorkoutActivityTypeHiking')).toBe('hiking');
+      expect(workoutActivityType('HKWorkoutActivityTypeYoga')).toBe('other');
+    });
+  });
+
+  describe('HealthImportAccumulator', () => {
+    const at = (iso: string): Date => new Date(iso);
+
+    it('should keep the first weigh-in of each local day with its body fat', () => {
+      const accumulator = new HealthImportAccumulator('America/New_York');
+      accumulator.add({ kind: 'weight', recordedAt: at('2025-01-06T20:00:00Z'), weight: 81 });
+      accumulator.add({ kind: 'weight', recordedAt: at('2025-01-06T12:00:00Z'), weight: 80.4 });
+      accumulator.add({ kind: 'body_fat', recordedAt: at('2025-01-06T12:00:00Z'), bodyFat: 22 });
+      // 01:00 UTC is still the 6th in New York
+      accumulator.add({ kind: 'weight', recordedAt: at('2025-01-07T01:00:00Z'), weight: 82 });
+      // Entry errors are skipped
+      accumulator.add({ kind: 'weight', recordedAt: at('2025-01-08T12:00:00Z'), weight: 8 });
+
+      expect(accumulator.buildPlan(noHistory()).weighIns).toEqual([
+        { date: '2025-01-06', recordedAt: at('2025-01-06T12:00:00Z'), weight: 80.4, bodyFat: 22 },
+      ]);
+    });
+
+    it('should keep the largest source total for steps', () => {
+      const accumulator = new HealthImportAccumulator('UTC');
+      accumulator.add({
+        kind: 'steps',
+        recordedAt: at('2025-01-06T08:00:00Z'),
+        steps: 3000,
+        source: 'iPhone',
+      });
+      accumulator.add({
+        kind: 'steps',
+        recordedAt: at('2025-01-06T18:00:00Z'),
+        steps: 4000,
+        source: 'iPhone',
+      });
+      accumulator.add({
+        kind: 'steps',
+        recordedAt: at('2025-01-06T08:00:00Z'),
+        steps: 6500,
+        source: 'Watch',
+      });
+
+      expect(accumulator.buildPlan(noHistory()).stepDays).toEqual([
+        { date: '2025-01-06', steps: 7000 },
+      ]);
+    });
+
+    it('should skip history that is already logged', () => {
+      const accumulator = new HealthImportAccumulator('UTC');
+      const run = {
+        startTime: at('2025-01-06T17:00:00Z'),
+        endTime: at('2025-01-06T17:30:00Z'),
+        activityType: 'running' as const,
+        duration: 30,
+        distance: 5,
+        caloriesBurned: null,
+      };
+      accumulator.add({ kind: 'weight', recordedAt: at('2025-01-06T07:00:00Z'), weight: 80 });
+      accumulator.add({ kind: 'weight', recordedAt: at('2025-01-07T07:00:00Z'), weight: 79.8 });
+      accumulator.add({
+        kind: 'steps',
+        recordedAt: at('2025-01-06T08:00:00Z'),
+        steps: 5000,
+        source: 'iPhone',
+      });
+      accumulator.add({ kind: 'workout', workout: run });
+      // The same run recorded by a second app, 40 seconds apart
+      accumulator.add({
+        kind: 'workout',
+        workout: { ...run, startTime: at('2025-01-06T17:00:40Z') },
+      });
+      accumulator.add({
+        kind: 'workout',
+        workout: { ...run, startTime: at('2025-01-07T17:00:00Z') },
+      });
+
+      const plan = accumulator.buildPlan({
+        weighInDates: new Set(['2025-01-06']),
+        stepDates: new Set(['2025-01-06']),
+        activityStartTimes: [at('2025-01-07T17:01:00Z').getTime()],
+      });
+
+      expect(plan.weighIns.map((w) => w.date)).toEqual(['2025-01-07']);
+      expect(plan.stepDays).toEqual([]);
+      expect(plan.workouts.map((w) => w.startTime)).toEqual([at('2025-01-06T17:00:00Z')]);
+      expect(plan.counts).toEqual({ weighIns: 1, workouts: 1, stepDays: 0, duplicatesSkipped: 4 });
+    });
+  });
+});
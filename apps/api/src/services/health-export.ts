@@ -0,0 +1,534 @@
+/**
+ * Health Data Export Parsing
+ *
+ * Reads weigh-ins, body fat, workouts and steps from Apple Health `export.xml` and Google
+ * Takeout Fit JSON files, and turns them into the history an import writes.
+ *
+ * Apple Health exports are routinely hundreds of megabytes, so they are read line by line:
+ * every `<Record>` starts on its own line with all of its attributes, and `<Workout>` elements
+ * are collected until their closing tag. Everything else in the file is skipped.
+ */
+
+import {
+  HEALTH_IMPORT_SETTINGS,
+  type ActivityType,
+  type HealthImportCounts,
+} from '@gtsd/shared-types';
+import { formatInTimeZone } from 'date-fns-tz';
+import { AppError } from '../middleware/error';
+import { normalizeActivityType } from './activity-files';
+
+/**
+ * A session read from a health export
+ * Strength sessions become workout evidence; everything else becomes cardio evidence
+ */
+export interface ImportedWorkout {
+  startTime: Date;
+  endTime: Date;
+  activityType: ActivityType | 'strength';
+  /** Minutes */
+  duration: number;
+  /** km */
+  distance: number | null;
+  caloriesBurned: number | null;
+}
+
+export type HealthSample =
+  | { kind: 'weight'; recordedAt: Date; weight: number }
+  | { kind: 'body_fat'; recordedAt: Date; bodyFat: number }
+  | { kind: 'steps'; recordedAt: Date; steps: number; source: string }
+  | { kind: 'workout'; workout: ImportedWorkout };
+
+/**
+ * One day's weigh-in: the first weight and/or body fat reading of the local day
+ */
+export interface ImportedWeighIn {
+  date: string;
+  recordedAt: Date;
+  weight?: number;
+  bodyFat?: number;
+}
+
+export interface ImportedStepDay {
+  date: string;
+  steps: number;
+}
+
+/**
+ * History already in GTSD, used to skip duplicates
+ */
+export interface ExistingHealthHistory {
+  /** Local days (YYYY-MM-DD) with a weigh-in */
+  weighInDates: Set<string>;
+  /** Local days (YYYY-MM-DD) with a step total */
+  stepDates: Set<string>;
+  /** Start times (ms) of imported activities */
+  activityStartTimes: number[];
+}
+
+export interface HealthImportPlan {
+  weighIns: ImportedWeighIn[];
+  workouts: ImportedWorkout[];
+  stepDays: ImportedStepDay[];
+  counts: HealthImportCounts;
+}
+
+/**
+ * Readings outside these ranges are treated as entry errors and skipped
+ */
+const PLAUSIBLE_RANGES = {
+  weight: { min: 20, max: 400 }, // kg
+  bodyFat: { min: 2, max: 75 }, // percent
+} as const;
+
+const POUNDS_TO_KG = 0.45359237;
+const MILES_TO_KM = 1.609344;
+const KILOJOULES_PER_KCAL = 4.184;
+
+function round(value: number, decimals = 0): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function finite(value: number | undefined): number | undefined {
+  return value !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+function inRange(value: number, range: { min: number; max: number }): boolean {
+  return Number.isFinite(value) && value >= range.min && value <= range.max;
+}
+
+/**
+ * Map an Apple `HKWorkoutActivityType...` or Google Fit `fitnessActivity` name to an activity
+ */
+export function workoutActivityType(name: string | undefined): ImportedWorkout['activityType'] {
+  const lower = (name ?? '').toLowerCase();
+  if (lower.includes('strength') || lower.includes('weight')) {
+    return 'strength';
+  }
+  return normalizeActivityType(lower);
+}
+
+// ============================================================================
+// Apple Health
+// ============================================================================
+
+/**
+ * Parse an Apple Health date ("2025-01-06 07:30:00 +0100")
+ */
+export function parseAppleHealthDate(value: string | undefined): Date | undefined {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (!match) {
+    return undefined;
+  }
+  const date = new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseAttributes(element: string): Map<string, string> {
+  return new Map(Array.from(element.matchAll(/([\w:]+)="([^"]*)"/g), (m) => [m[1], m[2]]));
+}
+
+function toKilograms(value: number, unit: string | undefined): number | undefined {
+  switch (unit) {
+    case 'kg':
+      return value;
+    case 'lb':
+      return value * POUNDS_TO_KG;
+    case 'g':
+      return value / 1000;
+    default:
+      return undefined;
+  }
+}
+
+function toKilometers(value: number, unit: string | undefined): number | undefined {
+  switch (unit) {
+    case 'km':
+      return value;
+    case 'mi':
+      return value * MILES_TO_KM;
+    case 'm':
+      return value / 1000;
+    default:
+      return undefined;
+  }
+}
+
+function toKilocalories(value: number, unit: string | undefined): number | undefined {
+  switch (unit) {
+    case 'kcal':
+    case 'Cal':
+      return value;
+    case 'kJ':
+      return value / KILOJOULES_PER_KCAL;
+    default:
+      return undefined;
+  }
+}
+
+function toMinutes(value: number, unit: string | undefined): number | undefined {
+  switch (unit) {
+    case 'min':
+      return value;
+    case 's':
+      return value / 60;
+    case 'hr':
+      return value * 60;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Line-by-line reader for Apple Health `export.xml`
+ */
+export class AppleHealthParser {
+  /** `<Record>` and `<Workout>` elements seen, including types that are not imported */
+  recordsRead = 0;
+
+  private workoutLines: string[] | null = null;
+
+  /**
+   * Read the next line of the export
+   * @returns Samples completed by this line
+   */
+  pushLine(line: string): HealthSample[] {
+    const trimmed = line.trim();
+
+    if (this.workoutLines) {
+      this.workoutLines.push(trimmed);
+      if (trimmed.startsWith('</Workout>')) {
+        const lines = this.workoutLines;
+        this.workoutLines = null;
+        return this.parseWorkout(lines);
+      }
+      return [];
+    }
+
+    if (trimmed.startsWith('<Record ')) {
+      this.recordsRead++;
+      return this.parseRecord(parseAttributes(trimmed));
+    }
+
+    if (trimmed.startsWith('<Workout ')) {
+      this.recordsRead++;
+      if (trimmed.endsWith('/>')) {
+        return this.parseWorkout([trimmed]);
+      }
+      this.workoutLines = [trimmed];
+    }
+
+    return [];
+  }
+
+  private parseRecord(attributes: Map<string, string>): HealthSample[] {
+    const recordedAt = parseAppleHealthDate(attributes.get('startDate'));
+    const value = Number(attributes.get('value'));
+    if (!recordedAt || !Number.isFinite(value)) {
+      return [];
+    }
+
+    switch (attributes.get('type')) {
+      case 'HKQuantityTypeIdentifierBodyMass': {
+        const weight = toKilograms(value, attributes.get('unit'));
+        return weight !== undefined ? [{ kind: 'weight', recordedAt, weight }] : [];
+      }
+      case 'HKQuantityTypeIdentifierBodyFatPercentage':
+        // Stored as a fraction (0.215) with unit "%"
+        return [{ kind: 'body_fat', recordedAt, bodyFat: value <= 1 ? value * 100 : value }];
+      case 'HKQuantityTypeIdentifierStepCount':
+        return [
+          {
+            kind: 'steps',
+            recordedAt,
+            steps: value,
+            source: attributes.get('sourceName') ?? 'unknown',
+          },
+        ];
+      default:
+        return [];
+    }
+  }
+
+  private parseWorkout(lines: string[]): HealthSample[] {
+    const attributes = parseAttributes(lines[0]);
+    const startTime = parseAppleHealthDate(attributes.get('startDate'));
+    const endTime = parseAppleHealthDate(attributes.get('endDate'));
+    if (!startTime || !endTime) {
+      return [];
+    }
+
+    const duration =
+      finite(toMinutes(Number(attributes.get('duration')), attributes.get('durationUnit'))) ??
+      (endTime.getTime() - startTime.getTime()) / 60000;
+    let distance = finite(
+      toKilometers(Number(attributes.get('totalDistance')), attributes.get('totalDistanceUnit'))
+    );
+    let calories = finite(
+      toKilocalories(
+        Number(attributes.get('totalEnergyBurned')),
+        attributes.get('totalEnergyBurnedUnit')
+      )
+    );
+
+    // Newer exports move the totals into <WorkoutStatistics> children
+    for (const line of lines.slice(1)) {
+      if (!line.startsWith('<WorkoutStatistics ')) {
+        continue;
+      }
+      const statistic = parseAttributes(line);
+      const type = statistic.get('type') ?? '';
+      const sum = Number(statistic.get('sum'));
+      if (type.startsWith('HKQuantityTypeIdentifierDistance')) {
+        distance ??= finite(toKilometers(sum, statistic.get('unit')));
+      } else if (type === 'HKQuantityTypeIdentifierActiveEnergyBurned') {
+        calories ??= finite(toKilocalories(sum, statistic.get('unit')));
+      }
+    }
+
+    return [
+      {
+        kind: 'workout',
+        workout: {
+          startTime,
+          endTime,
+          activityType: workoutActivityType(attributes.get('workoutActivityType')),
+          duration: round(duration, 1),
+          distance: distance !== undefined ? round(distance, 2) : null,
+          caloriesBurned: calories !== undefined ? round(calories) : null,
+        },
+      },
+    ];
+  }
+}
+
+// ============================================================================
+// Google Fit (Takeout)
+// ============================================================================
+
+interface GoogleFitDataPoint {
+  dataTypeName?: string;
+  startTimeNanos?: string | number;
+  originDataSourceId?: string;
+  fitValue?: Array<{ value?: { fpVal?: number; intVal?: number } }>;
+}
+
+interface GoogleFitSession {
+  fitnessActivity?: string;
+  startTime?: string;
+  endTime?: string;
+  duration?: string;
+  aggregate?: Array<{ metricName?: string; floatValue?: number; intValue?: number }>;
+}
+
+function parseGoogleFitDataPoint(point: GoogleFitDataPoint): HealthSample[] {
+  const recordedAt = new Date(Number(point.startTimeNanos) / 1e6);
+  const value = point.fitValue?.[0]?.value;
+  const number = value?.fpVal ?? value?.intVal;
+  if (Number.isNaN(recordedAt.getTime()) || number === undefined) {
+    return [];
+  }
+
+  switch (point.dataTypeName) {
+    case 'com.google.weight':
+      return [{ kind: 'weight', recordedAt, weight: number }];
+    case 'com.google.body.fat.percentage':
+      return [{ kind: 'body_fat', recordedAt, bodyFat: number }];
+    case 'com.google.step_count.delta':
+      return [
+        {
+          kind: 'steps',
+          recordedAt,
+          steps: number,
+          source: point.originDataSourceId ?? 'google_fit',
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+function parseGoogleFitSession(session: GoogleFitSession): HealthSample[] {
+  const startTime = new Date(session.startTime ?? '');
+  const endTime = new Date(session.endTime ?? '');
+  if (Number.isNaN(startTime.getTime()) || Number.isNaN(endTime.getTime())) {
+    return [];
+  }
+
+  const aggregate = (metricName: string): number | undefined => {
+    const metric = session.aggregate?.find((a) => a.metricName === metricName);
+    return metric?.floatValue ?? metric?.intValue;
+  };
+  const seconds = parseFloat(session.duration ?? '');
+  const duration = Number.isFinite(seconds)
+    ? seconds / 60
+    : (endTime.getTime() - startTime.getTime()) / 60000;
+  const meters = aggregate('com.google.distance.delta');
+  const calories = aggregate('com.google.calories.expended');
+
+  return [
+    {
+      kind: 'workout',
+      workout: {
+        startTime,
+        endTime,
+        activityType: workoutActivityType(session.fitnessActivity),
+        duration: round(duration, 1),
+        distance: meters !== undefined ? round(meters / 1000, 2) : null,
+        caloriesBurned: calories !== undefined ? round(calories) : null,
+      },
+    },
+  ];
+}
+
+/**
+ * Parse a Google Takeout Fit JSON file
+ * Accepts a data type's "All data" file (`{ "Data Points": [...] }`), an "All sessions" file
+ * (`{ "fitnessActivity": ... }`), or an array of either
+ *
+ * @throws AppError if the file is neither
+ */
+export function parseGoogleFitExport(json: unknown): {
+  samples: HealthSample[];
+  recordsRead: number;
+} {
+  const items: unknown[] = Array.isArray(json) ? json : [json];
+  const samples: HealthSample[] = [];
+  let recordsRead = 0;
+
+  for (const item of items) {
+    const record =
+      item !== null && typeof item === 'object' ? (item as Record<string, unknown>) : {};
+
+    if (Array.isArray(record['Data Points'])) {
+      const points = record['Data Points'] as GoogleFitDataPoint[];
+      recordsRead += points.length;
+      // One push per point: spreading a multi-year file overflows the argument limit
+      for (const point of points) {
+        for (const sample of parseGoogleFitDataPoint(point)) {
+          samples.push(sample);
+        }
+      }
+    } else if ('fitnessActivity' in record) {
+      recordsRead++;
+      for (const sample of parseGoogleFitSession(item as GoogleFitSession)) {
+        samples.push(sample);
+      }
+    } else {
+      throw new AppError(400, 'File is not a Google Fit data or session export');
+    }
+  }
+
+  return { samples, recordsRead };
+}
+
+// ============================================================================
+// Import plan
+// ============================================================================
+
+/**
+ * Collects samples into per-day history as they are read
+ * Steps are summed per source and the largest source total is kept for each day, since phones
+ * and watches record the same steps side by side.
+ */
+export class HealthImportAccumulator {
+  private readonly weighIns = new Map<string, ImportedWeighIn>();
+  private readonly steps = new Map<string, Map<string, number>>();
+  private readonly workouts: ImportedWorkout[] = [];
+
+  constructor(private readonly timezone: string) {}
+
+  add(sample: HealthSample): void {
+    if (sample.kind === 'workout') {
+      if (sample.workout.duration > 0) {
+        this.workouts.push(sample.workout);
+      }
+      return;
+    }
+
+    const date = formatInTimeZone(sample.recordedAt, this.timezone, 'yyyy-MM-dd');
+
+    if (sample.kind === 'steps') {
+      const bySource = this.steps.get(date) ?? new Map<string, number>();
+      bySource.set(sample.source, (bySource.get(sample.source) ?? 0) + sample.steps);
+      this.steps.set(date, bySource);
+      return;
+    }
+
+    if (sample.kind === 'weight' && !inRange(sample.weight, PLAUSIBLE_RANGES.weight)) return;
+    if (sample.kind === 'body_fat' && !inRange(sample.bodyFat, PLAUSIBLE_RANGES.bodyFat)) return;
+
+    // The first reading of the day wins, matching the morning weigh-in the plan asks for
+    const day = this.weighIns.get(date) ?? { date, recordedAt: sample.recordedAt };
+    if (sample.kind === 'weight') {
+      if (day.weight === undefined || sample.recordedAt < day.recordedAt) {
+        day.weight = round(sample.weight, 2);
+        day.recordedAt = sample.recordedAt;
+      }
+    } else if (day.bodyFat === undefined) {
+      day.bodyFat = round(sample.bodyFat, 1);
+      if (day.weight === undefined && sample.recordedAt < day.recordedAt) {
+        day.recordedAt = sample.recordedAt;
+      }
+    }
+    this.weighIns.set(date, day);
+  }
+
+  /**
+   * History to write, without anything already logged
+   */
+  buildPlan(existing: ExistingHealthHistory): HealthImportPlan {
+    let duplicatesSkipped = 0;
+
+    const weighIns: ImportedWeighIn[] = [];
+    for (const day of this.weighIns.values()) {
+      if (existing.weighInDates.has(day.date)) {
+        duplicatesSkipped++;
+      } else {
+        weighIns.push(day);
+      }
+    }
+
+    const stepDays: ImportedStepDay[] = [];
+    for (const [date, bySource] of this.steps) {
+      const steps = Math.round(Math.max(...bySource.values()));
+      if (steps <= 0) {
+        continue;
+      }
+      if (existing.stepDates.has(date)) {
+        duplicatesSkipped++;
+      } else {
+        stepDays.push({ date, steps });
+      }
+    }
+
+    // Sessions starting within the tolerance of a known one are the same session
+    const toleranceMs = HEALTH_IMPORT_SETTINGS.workoutDuplicateToleranceSeconds * 1000;
+    const knownStarts = [...existing.activityStartTimes];
+    const workouts: ImportedWorkout[] = [];
+    for (const workout of [...this.workouts].sort(
+      (a, b) => a.startTime.getTime() - b.startTime.getTime()
+    )) {
+      const start = workout.startTime.getTime();
+      if (knownStarts.some((known) => Math.abs(known - start) <= toleranceMs)) {
+        duplicatesSkipped++;
+      } else {
+        workouts.push(workout);
+        knownStarts.push(start);
+      }
+    }
+
+    return {
+      weighIns: weighIns.sort((a, b) => a.date.localeCompare(b.date)),
+      workouts,
+      stepDays: stepDays.sort((a, b) => a.date.localeCompare(b.date)),
+      counts: {
+        weighIns: weighIns.length,
+        workouts: workouts.length,
+        stepDays: stepDays.length,
+        duplicatesSkipped,
+      },
+    };
+  }
+}
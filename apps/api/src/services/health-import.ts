@@ -0,0 +1,651 @@
+import { createInterface } from 'readline';
+import type { Readable } from 'stream';
+import type { JobsOptions } from 'bullmq';
+import { db } from '../db/connection';
+import {
+  dailyTasks,
+  evidence,
+  healthImports,
+  type InsertDailyTask,
+  type InsertEvidence,
+  type SelectHealthImport,
+} from '../db/schema';
+import { and, desc, eq, isNotNull, or, sql } from 'drizzle-orm';
+import { formatInTimeZone } from 'date-fns-tz';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { logger } from '../config/logger';
+import { healthImportQueue } from '../config/queue';
+import { AppError } from '../middleware/error';
+import { getLocalDateString, getLocalDayBounds, getUserTimezone } from '../utils/timezone';
+import type { DbTransaction } from './task-generator';
+import { s3Service } from './s3';
+import { ACTIVITY_LABELS } from './activity-import';
+import {
+  AppleHealthParser,
+  HealthImportAccumulator,
+  parseGoogleFitExport,
+  type ExistingHealthHistory,
+  type HealthImportPlan,
+} from './health-export';
+import {
+  HEALTH_IMPORT_SETTINGS,
+  type HealthImport,
+  type HealthImportCounts,
+  type HealthImportSource,
+} from '@gtsd/shared-types';
+
+const tracer = trace.getTracer('health-import-service');
+
+/**
+ * Imports are not retried: a file that failed to parse fails the same way again
+ */
+export const HEALTH_IMPORT_JOB_OPTIONS: JobsOptions = {
+  attempts: 1,
+  removeOnComplete: {
+    age: 86400, // Keep completed jobs for 24 hours
+  },
+  removeOnFail: {
+    age: 7 * 86400, // Keep failed jobs for 7 days
+  },
+};
+
+/**
+ * Share of progress spent reading the file; the rest is writing history
+ */
+const READ_PROGRESS_SHARE = 80;
+
+const SOURCE_LABELS: Record<HealthImportSource, string> = {
+  apple_health: 'Apple Health',
+  google_fit: 'Google Fit',
+};
+
+/**
+ * A task and its evidence, ready to insert
+ */
+interface HistoryEntry {
+  task: InsertDailyTask;
+  metrics: NonNullable<InsertEvidence['metrics']>;
+  recordedAt: Date;
+}
+
+/**
+ * Reject an export larger than its source allows
+ * @throws AppError 413
+ */
+function assertExportSize(source: HealthImportSource, bytes: number): void {
+  const maxBytes = HEALTH_IMPORT_SETTINGS.maxFileBytes[source];
+  if (bytes > maxBytes) {
+    throw new AppError(
+      413,
+      `${SOURCE_LABELS[source]} exports must be at most ${maxBytes / 1024 / 1024}MB`
+    );
+  }
+}
+
+/**
+ * Map a health_imports row to the API response shape
+ */
+export function toHealthImport(row: SelectHealthImport): HealthImport {
+  return {
+    id: row.id,
+    source: row.source,
+    status: row.status,
+    progress: row.progress,
+    recordsRead: row.recordsRead,
+    counts: {
+      weighIns: row.weighInsImported,
+      workouts: row.workoutsImported,
+      stepDays: row.stepDaysImported,
+      duplicatesSkipped: row.duplicatesSkipped,
+    },
+    errorMessage: row.errorMessage,
+    createdAt: row.createdAt,
+    startedAt: row.startedAt,
+    completedAt: row.completedAt,
+  };
+}
+
+/**
+ * Build the tasks and evidence for an import plan
+ * Everything is written as completed history linked to the import, so streaks never see it
+ */
+export function buildHistoryEntries(
+  plan: HealthImportPlan,
+  userId: number,
+  importId: number,
+  source: HealthImportSource,
+  timezone: string
+): HistoryEntry[] {
+  const description = `Imported from ${SOURCE_LABELS[source]}`;
+  const task = (
+    values: Pick<InsertDailyTask, 'title' | 'taskType' | 'metadata'>,
+    dueDate: Date,
+    completedAt: Date,
+    withTime = true
+  ): InsertDailyTask => ({
+    ...values,
+    userId,
+    planId: null,
+    healthImportId: importId,
+    description,
+    dueDate,
+    dueTime: withTime ? formatInTimeZone(dueDate, timezone, 'HH:mm:ss') : null,
+    status: 'completed',
+    completedAt,
+  });
+
+  const weighIns = plan.weighIns.map(
+    (weighIn): HistoryEntry => ({
+      task: task(
+        { title: 'Log Your Weight', taskType: 'weight_log', metadata: null },
+        weighIn.recordedAt,
+        weighIn.recordedAt
+      ),
+      metrics: {
+        ...(weighIn.weight !== undefined && { weight: weighIn.weight }),
+        ...(weighIn.bodyFat !== undefined && { bodyFat: weighIn.bodyFat }),
+        importSource: source,
+      },
+      recordedAt: weighIn.recordedAt,
+    })
+  );
+
+  const workouts = plan.workouts.map((workout): HistoryEntry => {
+    const activityStartTime = workout.startTime.toISOString();
+    const calories = workout.caloriesBurned !== null && { caloriesBurned: workout.caloriesBurned };
+
+    if (workout.activityType === 'strength') {
+      return {
+        task: task(
+          {
+            title: 'Strength Training',
+            taskType: 'workout',
+            metadata: { duration: Math.round(workout.duration) },
+          },
+          workout.startTime,
+          workout.endTime
+        ),
+        metrics: {
+          actualDuration: workout.duration,
+          ...calories,
+          activityStartTime,
+          importSource: source,
+        },
+        recordedAt: workout.endTime,
+      };
+    }
+
+    const label = ACTIVITY_LABELS[workout.activityType];
+    return {
+      task: task(
+        {
+          title: workout.distance !== null ? `${label} - ${workout.distance} km` : label,
+          taskType: 'cardio',
+          metadata: { activityType: workout.activityType },
+        },
+        workout.startTime,
+        workout.endTime
+      ),
+      metrics: {
+        duration: workout.duration,
+        ...(workout.distance !== null && { distance: workout.distance }),
+        ...calories,
+        activityType: workout.activityType,
+        activityStartTime,
+        importSource: source,
+      },
+      recordedAt: workout.endTime,
+    };
+  });
+
+  const stepDays = plan.stepDays.map((day): HistoryEntry => {
+    const endOfDay = getLocalDayBounds(day.date, timezone).end;
+    return {
+      task: task(
+        {
+          title: `Steps - ${day.steps.toLocaleString('en-US')}`,
+          taskType: 'cardio',
+          metadata: { activityType: 'walking' },
+        },
+        endOfDay,
+        endOfDay,
+        false
+      ),
+      metrics: {
+        steps: day.steps,
+        stepsDate: day.date,
+        activityType: 'walking',
+        importSource: source,
+      },
+      recordedAt: endOfDay,
+    };
+  });
+
+  return [...weighIns, ...workouts, ...stepDays];
+}
+
+/**
+ * HealthImportService backfills history from Apple Health and Google Fit exports
+ *
+ * Exports are uploaded straight to S3 with a presigned URL, then processed by the
+ * `health-import` worker, which records its progress on the health_imports row:
+ * - Weigh-ins and body fat: the first reading of each local day, as weight_log evidence
+ * - Workouts: cardio evidence (strength sessions as workout evidence), keyed by start time
+ * - Steps: one cardio evidence per day with the day's step total
+ *
+ * Anything already logged is skipped: days that have a weigh-in or step total, and sessions
+ * starting within a couple of minutes of a known one (including GPX/TCX/FIT imports). The
+ * history is written as completed tasks linked to the import; streak and badge checks leave
+ * those out, and the current weight in the profile is not changed.
+ */
+export class HealthImportService {
+  /**
+   * Generate a presigned URL for uploading an export
+   */
+  async createUploadUrl(
+    userId: number,
+    input: { source: HealthImportSource; fileName: string; fileSize: number }
+  ): Promise<{ uploadUrl: string; fileKey: string; expiresIn: number }> {
+    return s3Service.generateHealthExportUploadUrl({ userId, ...input });
+  }
+
+  /**
+   * Queue an uploaded export for processing
+   *
+   * @throws AppError 403 if the file key belongs to another user, 404 if nothing was uploaded,
+   * 409 if the file was already imported, 413 if the uploaded file is larger than the source allows
+   */
+  async startImport(
+    userId: number,
+    input: { source: HealthImportSource; fileKey: string }
+  ): Promise<HealthImport> {
+    const span = tracer.startSpan('HealthImportService.startImport');
+
+    try {
+      span.setAttributes({ 'user.id': userId, 'import.source': input.source });
+
+      // SECURITY: Validate file key belongs to authenticated user
+      // Expected format: health-exports/{userId}/{uuid}-{filename}
+      const fileKeyPattern = new RegExp(`^health-exports/${userId}/[a-f0-9-]+-.+$`);
+      if (!fileKeyPattern.test(input.fileKey)) {
+        logger.warn({ userId, fileKey: input.fileKey }, 'File key ownership validation failed');
+        throw new AppError(403, 'Invalid file key: does not belong to authenticated user');
+      }
+
+      const [existing] = await db
+        .select({ id: healthImports.id })
+        .from(healthImports)
+        .where(and(eq(healthImports.userId, userId), eq(healthImports.fileKey, input.fileKey)))
+        .limit(1);
+
+      if (existing) {
+        throw new AppError(409, `File was already imported (import ${existing.id})`);
+      }
+
+      // The presigned URL binds the declared size, but never trust it for what the worker reads
+      const { contentLength } = await s3Service.verifyObjectExists(input.fileKey);
+      try {
+        assertExportSize(input.source, contentLength);
+      } catch (error) {
+        await s3Service.deleteObject(input.fileKey);
+        throw error;
+      }
+
+      const [row] = await db
+        .insert(healthImports)
+        .values({ userId, source: input.source, fileKey: input.fileKey })
+        .returning();
+
+      try {
+        await healthImportQueue.add(
+          input.source,
+          { importId: row.id },
+          { ...HEALTH_IMPORT_JOB_OPTIONS, jobId: `health-import-${row.id}` }
+        );
+      } catch (error) {
+        await db
+          .update(healthImports)
+          .set({
+            status: 'failed',
+            errorMessage: 'Failed to queue import',
+            updatedAt: new Date(),
+          })
+          .where(eq(healthImports.id, row.id));
+        throw error;
+      }
+
+      span.setAttributes({ 'import.id': row.id });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      logger.info({ userId, importId: row.id, source: input.source }, 'Health import queued');
+
+      return toHealthImport(row);
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Get an import with its progress
+   * @throws AppError 404 if the import does not exist for the user
+   */
+  async getImport(userId: number, importId: number): Promise<HealthImport> {
+    const [row] = await db
+      .select()
+      .from(healthImports)
+      .where(and(eq(healthImports.id, importId), eq(healthImports.userId, userId)))
+      .limit(1);
+
+    if (!row) {
+      throw new AppError(404, `Health import ${importId} not found`);
+    }
+
+    return toHealthImport(row);
+  }
+
+  /**
+   * List the user's most recent imports, newest first
+   */
+  async listImports(userId: number, limit = 20): Promise<HealthImport[]> {
+    const rows = await db
+      .select()
+      .from(healthImports)
+      .where(eq(healthImports.userId, userId))
+      .orderBy(desc(healthImports.createdAt))
+      .limit(limit);
+
+    return rows.map(toHealthImport);
+  }
+
+  /**
+   * Read an uploaded export and write its history (called by the health-import worker)
+   *
+   * @param importId - health_imports row to process
+   * @param onProgress - Called with the percentage whenever the row's progress changes
+   * @returns What the import wrote
+   * @throws Re-throws after marking the import failed; nothing is written for a failed import
+   */
+  async processImport(
+    importId: number,
+    onProgress: (progress: number) => Promise<void> = async () => {}
+  ): Promise<HealthImportCounts> {
+    const span = tracer.startSpan('HealthImportService.processImport');
+
+    const [row] = await db
+      .select()
+      .from(healthImports)
+      .where(eq(healthImports.id, importId))
+      .limit(1);
+
+    if (!row) {
+      span.end();
+      throw new AppError(404, `Health import ${importId} not found`);
+    }
+
+    if (row.status === 'completed') {
+      span.end();
+      return toHealthImport(row).counts;
+    }
+
+    let lastProgress = 0;
+    const reportProgress = async (progress: number, recordsRead: number): Promise<void> => {
+      if (progress - lastProgress < HEALTH_IMPORT_SETTINGS.progressStepPercent) {
+        return;
+      }
+      lastProgress = progress;
+      await db
+        .update(healthImports)
+        .set({ progress, recordsRead, updatedAt: new Date() })
+        .where(eq(healthImports.id, importId));
+      await onProgress(progress);
+    };
+
+    try {
+      span.setAttributes({
+        'user.id': row.userId,
+        'import.id': importId,
+        'import.source': row.source,
+      });
+
+      await db
+        .update(healthImports)
+        .set({ status: 'processing', startedAt: new Date(), updatedAt: new Date() })
+        .where(eq(healthImports.id, importId));
+
+      const timezone = await getUserTimezone(row.userId);
+      const accumulator = new HealthImportAccumulator(timezone);
+      const { body, contentLength } = await s3Service.getObjectStream(row.fileKey);
+      try {
+        assertExportSize(row.source, contentLength);
+      } catch (error) {
+        body.destroy();
+        throw error;
+      }
+
+      const recordsRead =
+        row.source === 'apple_health'
+          ? await this.readAppleHealth(body, contentLength, accumulator, reportProgress)
+          : await this.readGoogleFit(body, accumulator);
+
+      const plan = accumulator.buildPlan(await this.getExistingHistory(row.userId, timezone));
+      const entries = buildHistoryEntries(plan, row.userId, importId, row.source, timezone);
+
+      span.setAttributes({
+        'import.records_read': recordsRead,
+        'import.entries': entries.length,
+        'import.duplicates_skipped': plan.counts.duplicatesSkipped,
+      });
+
+      await db.transaction(async (tx) => {
+        const batchSize = HEALTH_IMPORT_SETTINGS.insertBatchSize;
+        for (let offset = 0; offset < entries.length; offset += batchSize) {
+          await this.insertHistory(tx, row.userId, entries.slice(offset, offset + batchSize));
+          const written = Math.min(offset + batchSize, entries.length) / entries.length;
+          await reportProgress(
+            Math.floor(READ_PROGRESS_SHARE + written * (100 - READ_PROGRESS_SHARE)),
+            recordsRead
+          );
+        }
+
+        await tx
+          .update(healthImports)
+          .set({
+            status: 'completed',
+            progress: 100,
+            recordsRead,
+            weighInsImported: plan.counts.weighIns,
+            workoutsImported: plan.counts.workouts,
+            stepDaysImported: plan.counts.stepDays,
+            duplicatesSkipped: plan.counts.duplicatesSkipped,
+            errorMessage: null,
+            completedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(healthImports.id, importId));
+      });
+      await onProgress(100);
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      logger.info(
+        { userId: row.userId, importId, source: row.source, recordsRead, ...plan.counts },
+        'Health import completed'
+      );
+
+      return plan.counts;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+
+      await db
+        .update(healthImports)
+        .set({
+          status: 'failed',
+          // Only file problems are worth showing to the user
+          errorMessage: error instanceof AppError ? error.message : 'Import failed',
+          updatedAt: new Date(),
+        })
+        .where(eq(healthImports.id, importId));
+
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Stream an Apple Health export.xml line by line
+   * @returns Records read
+   */
+  private async readAppleHealth(
+    body: Readable,
+    contentLength: number,
+    accumulator: HealthImportAccumulator,
+    reportProgress: (progress: number, recordsRead: number) => Promise<void>
+  ): Promise<number> {
+    const parser = new AppleHealthParser();
+    let bytesRead = 0;
+    body.on('data', (chunk: Buffer) => {
+      bytesRead += chunk.length;
+    });
+
+    let sawHealthData = false;
+    for await (const line of createInterface({ input: body, crlfDelay: Infinity })) {
+      sawHealthData ||= line.includes('<HealthData');
+      for (const sample of parser.pushLine(line)) {
+        accumulator.add(sample);
+      }
+
+      if (contentLength > 0 && parser.recordsRead % 10000 === 0) {
+        await reportProgress(
+          Math.floor((Math.min(bytesRead, contentLength) / contentLength) * READ_PROGRESS_SHARE),
+          parser.recordsRead
+        );
+      }
+    }
+
+    if (!sawHealthData) {
+      throw new AppError(400, 'File is not an Apple Health export (export.xml)');
+    }
+
+    return parser.recordsRead;
+  }
+
+  /**
+   * Read a Google Takeout Fit JSON file
+   * @returns Records read
+   */
+  private async readGoogleFit(
+    body: Readable,
+    accumulator: HealthImportAccumulator
+  ): Promise<number> {
+    const chunks: Buffer[] = [];
+    let bytesRead = 0;
+    for await (const chunk of body) {
+      bytesRead += chunk.length;
+      // Stop early if storage reported no length or the object changed since it was checked
+      if (bytesRead > HEALTH_IMPORT_SETTINGS.maxFileBytes.google_fit) {
+        body.destroy();
+        assertExportSize('google_fit', bytesRead);
+      }
+      chunks.push(Buffer.from(chunk));
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new AppError(400, 'File is not valid JSON');
+    }
+
+    const { samples, recordsRead } = parseGoogleFitExport(json);
+    for (const sample of samples) {
+      accumulator.add(sample);
+    }
+    return recordsRead;
+  }
+
+  /**
+   * Weigh-in days, step days and session start times already logged
+   */
+  private async getExistingHistory(
+    userId: number,
+    timezone: string
+  ): Promise<ExistingHealthHistory> {
+    const [weighIns, keyed] = await Promise.all([
+      db
+        .select({ recordedAt: evidence.recordedAt })
+        .from(evidence)
+        .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+        .where(and(eq(evidence.userId, userId), eq(dailyTasks.taskType, 'weight_log'))),
+      db
+        .select({
+          stepsDate: sql<string | null>`${evidence.metrics}->>'stepsDate'`,
+          activityStartTime: sql<string | null>`${evidence.metrics}->>'activityStartTime'`,
+        })
+        .from(evidence)
+        .where(
+          and(
+            eq(evidence.userId, userId),
+            isNotNull(evidence.metrics),
+            or(
+              sql`${evidence.metrics} ? 'stepsDate'`,
+              sql`${evidence.metrics} ? 'activityStartTime'`
+            )
+          )
+        ),
+    ]);
+
+    return {
+      weighInDates: new Set(weighIns.map((row) => getLocalDateString(timezone, row.recordedAt))),
+      stepDates: new Set(keyed.flatMap((row) => (row.stepsDate ? [row.stepsDate] : []))),
+      activityStartTimes: keyed.flatMap((row) => {
+        const time = row.activityStartTime ? new Date(row.activityStartTime).getTime() : NaN;
+        return Number.isFinite(time) ? [time] : [];
+      }),
+    };
+  }
+
+  /**
+   * Insert a batch of tasks and their evidence
+   */
+  private async insertHistory(
+    tx: DbTransaction,
+    userId: number,
+    entries: HistoryEntry[]
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const tasks = await tx
+      .insert(dailyTasks)
+      .values(entries.map((entry) => entry.task))
+      .returning({ id: dailyTasks.id });
+
+    await tx.insert(evidence).values(
+      entries.map((entry, index) => ({
+        taskId: tasks[index].id,
+        userId,
+        evidenceType: 'metrics' as const,
+        metrics: entry.metrics,
+        recordedAt: entry.recordedAt,
+      }))
+    );
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const healthImportService = new HealthImportService();
@@ -12,6 +12,8 @@ const tracer = trace.getTracer('profile-audit-service');
 export interface AuditMetadata {
   ip?: string;
   userAgent?: string;
+  evidenceId?: number;
+  changedByUserId?: number;
   triggeredPlanRegeneration?: boolean;
   caloriesBefore?: number;
   caloriesAfter?: number;
@@ -29,11 +31,12 @@ export const profileAuditService = {
   /**
    * Log a single field change to the audit trail
    *
-   * @param userId - User ID who made the change
+   * @param userId - User whose profile changed
    * @param fieldName - Name of the field that changed
    * @param oldValue - Previous value (converted to string)
    * @param newValue - New value (converted to string)
-   * @param metadata - Additional context (IP, user agent, plan impact)
+   * @param metadata - Additional context (IP, user agent, source evidence, who made the change,
+   *   plan impact)
    *
    * @example
    * await profileAuditService.logChange(
@@ -72,6 +75,8 @@ export const profileAuditService = {
         newValue: newValueStr,
         ipAddress: metadata.ip || null,
         userAgent: metadata.userAgent || null,
+        evidenceId: metadata.evidenceId ?? null,
+        changedByUserId: metadata.changedByUserId ?? null,
         triggeredPlanRegeneration: metadata.triggeredPlanRegeneration || false,
         caloriesBefore: metadata.caloriesBefore || null,
         caloriesAfter: metadata.caloriesAfter || null,
@@ -118,7 +123,7 @@ export const profileAuditService = {
   /**
    * Log multiple field changes in batch (more efficient)
    *
-   * @param userId - User ID who made the changes
+   * @param userId - User whose profile changed
    * @param changes - Array of field changes to log
    * @param metadata - Common metadata applied to all changes
    *
@@ -162,6 +167,8 @@ export const profileAuditService = {
             : null,
         ipAddress: metadata.ip || null,
         userAgent: metadata.userAgent || null,
+        evidenceId: metadata.evidenceId ?? null,
+        changedByUserId: metadata.changedByUserId ?? null,
         triggeredPlanRegeneration: metadata.triggeredPlanRegeneration || false,
         caloriesBefore: metadata.caloriesBefore || null,
         caloriesAfter: metadata.caloriesAfter || null,
@@ -227,6 +227,67 @@ describe('S3Service', () => {
     });
   });
 
+  describe('uploadActivityFile', () => {
+    it('should store the file under activity-files/{userId}', async () => {
+      const fileKey = await s3Service.uploadActivityFile({
+        userId: 1,
+        fileName: 'Morning Run.gpx',
+        format: 'gpx',
+        body: Buffer.from('<gpx></gpx>'),
+      });
+
+      expect(fileKey).toMatch(/^activity-files\/1\/.+-Morning_Run\.gpx$/);
+    });
+
+    it('should reject a file name that does not match the format', async () => {
+      await expect(
+        s3Service.uploadActivityFile({
+          userId: 1,
+          fileName: 'run.jpg',
+          format: 'gpx',
+          body: Buffer.from('<gpx></gpx>'),
+        })
+      ).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('generateHealthExportUploadUrl', () => {
+    it('should generate presigned URL under health-exports/{userId}', async () => {
+      const result = await s3Service.generateHealthExportUploadUrl({
+        userId: 1,
+        fileName: 'export.xml',
+        source: 'apple_health',
+        fileSize: 350 * 1024 * 1024,
+      });
+
+      expect(result.uploadUrl).toContain('http');
+      expect(result.fileKey).toMatch(/^health-exports\/1\/.+-export\.xml$/);
+      expect(result.expiresIn).toBe(600);
+    });
+
+    it('should reject a file that does not match the source', async () => {
+      await expect(
+        s3Service.generateHealthExportUploadUrl({
+          userId: 1,
+          fileName: 'export.xml',
+          source: 'google_fit',
+          fileSize: 1024,
+        })
+      ).rejects.toThrow(AppError);
+    });
+
+    it('should reject a file larger than the source allows', async () => {
+      await expect(
+        s3Service.generateHealthExportUploadUrl({
+          userId: 1,
+          fileName: 'steps.json',
+          source: 'google_fit',
+          fileSize: 500 * 1024 * 1024,
+        })
+      ).rejects.toThrow('File size must be between');
+    });
+  });
+
   describe('file key format', () => {
     it('should follow the pattern progress-photos/{userId}/{uuid}-{fileName}', async () => {
       const result = await s3Service.generatePresignedUploadUrl({
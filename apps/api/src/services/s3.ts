@@ -5,6 +5,9 @@ import { logger } from '../config/logger';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
 import { v4 as uuidv4 } from 'uuid';
 import { AppError } from '../middleware/error';
+import type { Readable } from 'stream';
+import { HEALTH_IMPORT_SETTINGS } from '@gtsd/shared-types';
+import type { ActivityFileFormat, HealthImportSource } from '@gtsd/shared-types';
 
 const tracer = trace.getTracer('s3-service');
 
@@ -35,12 +38,57 @@ interface VerifyFileResult {
   contentLength: number;
 }
 
+/**
+ * Configuration for server-side activity file uploads
+ */
+interface ActivityFileUploadConfig {
+  userId: number;
+  fileName: string;
+  format: ActivityFileFormat;
+  body: Buffer;
+}
+
+/**
+ * Configuration for health data export upload URLs
+ */
+interface HealthExportUploadConfig {
+  userId: number;
+  fileName: string;
+  source: HealthImportSource;
+  fileSize: number;
+}
+
 /**
  * Allowed MIME types for photo uploads
  */
 const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/heic'] as const;
 type AllowedMimeType = (typeof ALLOWED_MIME_TYPES)[number];
 
+/**
+ * Allowed file extensions for photo uploads
+ */
+const PHOTO_EXTENSIONS = ['jpg', 'jpeg', 'png', 'heic'];
+
+/**
+ * Content types stored for activity files, by format
+ */
+const ACTIVITY_FILE_CONTENT_TYPES: Record<ActivityFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  tcx: 'application/vnd.garmin.tcx+xml',
+  fit: 'application/vnd.ant.fit',
+};
+
+/**
+ * File extension and content type of each health data export
+ */
+export const HEALTH_EXPORT_FILES: Record<
+  HealthImportSource,
+  { extension: string; contentType: string }
+> = {
+  apple_health: { extension: 'xml', contentType: 'application/xml' },
+  google_fit: { extension: 'json', contentType: 'application/json' },
+};
+
 /**
  * Default expiration time for presigned URLs (10 minutes)
  */
@@ -101,10 +149,14 @@ export class S3Service {
    * Sanitizes a file name by removing/replacing special characters
    * Prevents path traversal, null bytes, and malicious patterns
    * @param fileName - Original file name
+   * @param allowedExtensions - Extensions accepted for this kind of upload
    * @returns Sanitized file name
    * @throws AppError if filename is invalid
    */
-  private sanitizeFileName(fileName: string): string {
+  private sanitizeFileName(
+    fileName: string,
+    allowedExtensions: readonly string[] = PHOTO_EXTENSIONS
+  ): string {
     // Check for null bytes
     if (fileName.includes('\0')) {
       throw new AppError(400, 'Invalid filename: contains null bytes');
@@ -120,7 +172,6 @@ export class S3Service {
 
     // Validate file extension is safe
     const extension = baseName.toLowerCase().split('.').pop() || '';
-    const allowedExtensions = ['jpg', 'jpeg', 'png', 'heic'];
 
     if (!allowedExtensions.includes(extension)) {
       throw new AppError(400, `Invalid file extension: .${extension}. Allowed: ${allowedExtensions.join(', ')}`);
@@ -157,6 +208,86 @@ export class S3Service {
     return `progress-photos/${userId}/${uniqueId}-${sanitizedName}`;
   }
 
+  /**
+   * Uploads an activity file (GPX, TCX, FIT) received by the API
+   * Format: activity-files/{userId}/{uuid}-{sanitizedFileName}
+   * @param config - Upload configuration
+   * @returns S3 object key of the stored file
+   * @throws AppError if the file name is invalid or the upload fails
+   */
+  async uploadActivityFile(config: ActivityFileUploadConfig): Promise<string> {
+    const span = tracer.startSpan('s3.uploadActivityFile');
+
+    try {
+      const { userId, fileName, format, body } = config;
+
+      span.setAttributes({
+        'user.id': userId,
+        'file.name': fileName,
+        'file.format': format,
+        'file.size': body.length,
+      });
+
+      const sanitizedName = this.sanitizeFileName(fileName, [format]);
+      const fileKey = `activity-files/${userId}/${uuidv4()}-${sanitizedName}`;
+
+      span.setAttributes({
+        'file.key': fileKey,
+        'file.bucket': this.bucket,
+      });
+
+      // Create PutObject command
+      const command = new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: fileKey,
+        Body: body,
+        ContentType: ACTIVITY_FILE_CONTENT_TYPES[format],
+        Metadata: {
+          userId: userId.toString(),
+          uploadedBy: 'gtsd-api',
+        },
+      });
+
+      await this.client.send(command);
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      logger.info(
+        {
+          userId,
+          fileKey,
+          size: body.length,
+        },
+        'Activity file uploaded successfully'
+      );
+
+      return fileKey;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+
+      // Re-throw AppErrors as-is
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      logger.error(
+        {
+          error,
+          userId: config.userId,
+        },
+        'Failed to upload activity file to S3'
+      );
+
+      throw new AppError(500, 'Failed to store activity file');
+    } finally {
+      span.end();
+    }
+  }
+
   /**
    * Generates a presigned URL for uploading a photo to S3
    * @param config - Upload configuration
@@ -257,6 +388,167 @@ export class S3Service {
     }
   }
 
+  /**
+   * Generates a presigned URL for uploading a health data export
+   * Format: health-exports/{userId}/{uuid}-{sanitizedFileName}
+   * Exports are uploaded straight to storage; they are too large to pass through the API.
+   * The size is signed into the URL, so storage rejects an upload of any other size.
+   * @param config - Upload configuration
+   * @returns Presigned upload URL, file key, and expiration time
+   * @throws AppError if the file name does not match the source, the file is larger than the
+   * source allows, or URL generation fails
+   */
+  async generateHealthExportUploadUrl(
+    config: HealthExportUploadConfig
+  ): Promise<PresignedUploadResult> {
+    const span = tracer.startSpan('s3.generateHealthExportUploadUrl');
+
+    try {
+      const { userId, fileName, source, fileSize } = config;
+      const { extension, contentType } = HEALTH_EXPORT_FILES[source];
+
+      span.setAttributes({
+        'user.id': userId,
+        'file.name': fileName,
+        'file.size': fileSize,
+        'import.source': source,
+      });
+
+      const maxBytes = HEALTH_IMPORT_SETTINGS.maxFileBytes[source];
+      if (!Number.isInteger(fileSize) || fileSize <= 0 || fileSize > maxBytes) {
+        throw new AppError(400, `File size must be between 1 and ${maxBytes} bytes`);
+      }
+
+      const sanitizedName = this.sanitizeFileName(fileName, [extension]);
+      const fileKey = `health-exports/${userId}/${uuidv4()}-${sanitizedName}`;
+
+      span.setAttributes({
+        'file.key': fileKey,
+        'file.bucket': this.bucket,
+      });
+
+      // Create PutObject command
+      const command = new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: fileKey,
+        ContentType: contentType,
+        ContentLength: fileSize,
+        Metadata: {
+          userId: userId.toString(),
+          uploadedBy: 'gtsd-api',
+        },
+      });
+
+      // Generate presigned URL
+      const uploadUrl = await getSignedUrl(this.client, command, {
+        expiresIn: DEFAULT_UPLOAD_EXPIRY,
+      });
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      logger.info(
+        {
+          userId,
+          fileKey,
+          source,
+          fileSize,
+        },
+        'Health export upload URL generated successfully'
+      );
+
+      return {
+        uploadUrl,
+        fileKey,
+        expiresIn: DEFAULT_UPLOAD_EXPIRY,
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+
+      // Re-throw AppErrors as-is
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      logger.error(
+        {
+          error,
+          userId: config.userId,
+        },
+        'Failed to generate health export upload URL'
+      );
+
+      throw new AppError(500, 'Failed to generate upload URL');
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Opens an object for streaming reads (e.g. large exports processed by workers)
+   * @param fileKey - S3 object key
+   * @returns Object body stream and its size in bytes
+   * @throws AppError 404 if the object does not exist, 500 if it cannot be read
+   */
+  async getObjectStream(fileKey: string): Promise<{ body: Readable; contentLength: number }> {
+    const span = tracer.startSpan('s3.getObjectStream');
+
+    try {
+      span.setAttributes({
+        'file.key': fileKey,
+        'file.bucket': this.bucket,
+      });
+
+      // Create GetObject command
+      const command = new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: fileKey,
+      });
+
+      const response = await this.client.send(command);
+
+      if (!response.Body) {
+        throw new AppError(404, `File not found in storage: ${fileKey}`);
+      }
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return {
+        body: response.Body as Readable,
+        contentLength: response.ContentLength || 0,
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw new AppError(404, `File not found in storage: ${fileKey}`);
+      }
+
+      logger.error(
+        {
+          error,
+          fileKey,
+        },
+        'Failed to read object from S3'
+      );
+
+      throw new AppError(500, 'Failed to read file from storage');
+    } finally {
+      span.end();
+    }
+  }
+
   /**
    * Generates a presigned URL for downloading a photo from S3
    * @param fileKey - S3 object key
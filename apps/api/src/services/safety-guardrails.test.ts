@@ -0,0 +1,221 @@
+import {
+  calculateBmi,
+  evaluateSafetyGuardrails,
+  minimumCalories,
+  safeWeeklyRateLimits,
+  weeklyRateForCalories,
+} from './safety-guardrails';
+import type { ScienceInputs } from '@gtsd/shared-types';
+
+describe('SafetyGuardrails', () => {
+  const now = new Date('2025-01-06T12:00:00Z');
+
+  const adult: ScienceInputs = {
+    weight: 80,
+    height: 180,
+    age: 35,
+    gender: 'male',
+    activityLevel: 'moderately_active',
+    primaryGoal: 'lose_weight',
+  };
+
+  describe('calculateBmi', () => {
+    it('should divide weight by height in meters squared', () => {
+      expect(calculateBmi(80, 180)).toBe(24.7);
+      expect(calculateBmi(50, 155)).toBe(20.8);
+    });
+  });
+
+  describe('safeWeeklyRateLimits', () => {
+    it('should cap weekly loss at the lower of 1% of body weight and 1 kg', () => {
+      expect(safeWeeklyRateLimits(80, 35)).toEqual({ loss: 0.8, gain: 0.5 });
+      expect(safeWeeklyRateLimits(130, 35)).toEqual({ loss: 1, gain: 0.5 });
+    });
+
+    it('should halve the limits for adolescents', () => {
+      expect(safeWeeklyRateLimits(60, 15)).toEqual({ loss: 0.3, gain: 0.25 });
+    });
+
+    it('should treat an unknown age as adult', () => {
+      expect(safeWeeklyRateLimits(60)).toEqual({ loss: 0.6, gain: 0.5 });
+    });
+  });
+
+  describe('minimumCalories', () => {
+    it('should use the minimum for sex unless 90% of BMR is higher', () => {
+      expect(minimumCalories(1150, 'female', 30)).toBe(1200);
+      expect(minimumCalories(2400, 'male', 40)).toBe(2160);
+    });
+
+    it('should use the adolescent minimum and the full BMR for teenagers', () => {
+      expect(minimumCalories(1400, 'female', 15)).toBe(1600);
+      expect(minimumCalories(1900, 'male', 16)).toBe(1900);
+    });
+  });
+
+  describe('weeklyRateForCalories', () => {
+    it('should convert the daily deficit or surplus into kg per week', () => {
+      expect(weeklyRateForCalories(1720, 2220)).toBe(-0.45);
+      expect(weeklyRateForCalories(2620, 2220)).toBe(0.36);
+      expect(weeklyRateForCalories(2220, 2220)).toBe(0);
+    });
+  });
+
+  describe('evaluateSafetyGuardrails', () => {
+    it('should leave safe targets unchanged', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1780, tdee: 2759, calorieTarget: 2259, weeklyRate: -0.5 },
+        { ...adult, targetWeight: 75 },
+        now
+      );
+
+      expect(result).toEqual({ calorieTarget: 2259, weeklyRate: -0.5, warnings: [] });
+    });
+
+    it('should raise calories to the floor and recalculate the weekly rate', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1153, tdee: 1585, calorieTarget: 1085, weeklyRate: -0.5 },
+        { ...adult, weight: 50, height: 155, gender: 'female' },
+        now
+      );
+
+      expect(result.calorieTarget).toBe(1200);
+      expect(result.weeklyRate).toBe(-0.35);
+      expect(result.warnings).toEqual([
+        {
+          code: 'calorie_floor',
+          severity: 'warning',
+          message: 'Your calories were raised to 1200, the safe minimum for you.',
+          capped: true,
+          originalValue: 1085,
+          adjustedValue: 1200,
+        },
+      ]);
+    });
+
+    it('should not raise calories above maintenance', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1000, tdee: 1150, calorieTarget: 700, weeklyRate: -0.4 },
+        { ...adult, weight: 45, height: 150, gender: 'female', activityLevel: 'sedentary' },
+        now
+      );
+
+      expect(result.calorieTarget).toBe(1150);
+      expect(result.weeklyRate).toBe(0);
+      expect(result.warnings.map((w) => w.code)).toEqual(['calorie_floor']);
+    });
+
+    it('should reduce a deficit beyond the safe weekly loss', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1500, tdee: 2200, calorieTarget: 1200, weeklyRate: -0.9 },
+        { ...adult, weight: 60, height: 170 },
+        now
+      );
+
+      // 0.6 kg/week × 7700 kcal / 7 days = 660 kcal
+      expect(result.calorieTarget).toBe(1540);
+      expect(result.weeklyRate).toBe(-0.6);
+      expect(result.warnings[0]).toMatchObject({
+        code: 'weekly_loss_limit',
+        originalValue: 1200,
+        adjustedValue: 1540,
+      });
+    });
+
+    it('should reduce a surplus beyond the safe weekly gain', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1700, tdee: 2600, calorieTarget: 3400, weeklyRate: 0.7 },
+        { ...adult, primaryGoal: 'gain_muscle' },
+        now
+      );
+
+      expect(result.calorieTarget).toBe(3150);
+      expect(result.weeklyRate).toBe(0.5);
+      expect(result.warnings.map((w) => w.code)).toEqual(['weekly_gain_limit']);
+    });
+
+    it('should remove the deficit when BMI is already below the healthy minimum', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1550, tdee: 2400, calorieTarget: 1900, weeklyRate: -0.5 },
+        { ...adult, weight: 58, targetWeight: 55 },
+        now
+      );
+
+      expect(result.calorieTarget).toBe(2400);
+      expect(result.weeklyRate).toBe(0);
+      expect(result.warnings.map((w) => [w.code, w.capped])).toEqual([
+        ['low_bmi', true],
+        ['target_bmi', false],
+      ]);
+    });
+
+    it('should flag a target weight below a healthy BMI without capping', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1300, tdee: 1800, calorieTarget: 1300, weeklyRate: -0.5 },
+        { ...adult, weight: 60, height: 170, gender: 'female', targetWeight: 52 },
+        now
+      );
+
+      expect(result.calorieTarget).toBe(1300);
+      expect(result.warnings).toEqual([
+        {
+          code: 'target_bmi',
+          severity: 'warning',
+          message:
+            'A target of 52 kg puts your BMI at 18, below the healthy minimum of 18.5. Consider a target of at least 53.5 kg.',
+          capped: false,
+        },
+      ]);
+    });
+
+    it('should flag a target date that needs more than the safe rate', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1780, tdee: 2759, calorieTarget: 2259, weeklyRate: -0.5 },
+        { ...adult, targetWeight: 70, targetDate: new Date('2025-02-17T12:00:00Z') },
+        now
+      );
+
+      expect(result.calorieTarget).toBe(2259);
+      expect(result.warnings).toEqual([
+        {
+          code: 'target_date',
+          severity: 'warning',
+          message:
+            'Reaching 70 kg by 2025-02-17 needs 1.67 kg per week, above the safe maximum of 0.8 kg per week. Your plan keeps a safe pace instead.',
+          capped: false,
+        },
+      ]);
+    });
+
+    it('should not flag a reachable or passed target date', () => {
+      const check = (targetDate: Date) =>
+        evaluateSafetyGuardrails(
+          { bmr: 1780, tdee: 2759, calorieTarget: 2259, weeklyRate: -0.5 },
+          { ...adult, targetWeight: 75, targetDate },
+          now
+        ).warnings;
+
+      expect(check(new Date('2025-06-30T12:00:00Z'))).toEqual([]);
+      expect(check(new Date('2025-01-01T12:00:00Z'))).toEqual([]);
+    });
+
+    it('should apply the conservative adolescent rules', () => {
+      const result = evaluateSafetyGuardrails(
+        { bmr: 1400, tdee: 2170, calorieTarget: 1670, weeklyRate: -0.5 },
+        { ...adult, age: 15, weight: 60, height: 165, gender: 'female' },
+        now
+      );
+
+      // 0.3 kg/week (0.5% of 60 kg) allows a 330 kcal deficit, still above the 1600 kcal floor
+      expect(result.calorieTarget).toBe(1840);
+      expect(result.weeklyRate).toBe(-0.3);
+      expect(result.warnings.map((w) => [w.code, w.severity])).toEqual([
+        ['adolescent', 'info'],
+        ['weekly_loss_limit', 'warning'],
+      ]);
+      expect(result.warnings[0].message).toBe(
+        'Because you are under 18, your plan uses more conservative limits: at least 1600 calories a day and no more than 0.3 kg lost or 0.25 kg gained per week.'
+      );
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import type {
+  ComputedTargets,
+  GenderValue,
+  GuardrailCode,
+  GuardrailWarning,
+  ScienceInputs,
+} from '@gtsd/shared-types';
+import { KCAL_PER_KG_BODY_WEIGHT, SAFETY_GUARDRAILS } from '@gtsd/shared-types';
+
+/**
+ * Guardrail rules for one age group
+ */
+export type GuardrailRules = (typeof SAFETY_GUARDRAILS)['adult' | 'adolescent'];
+
+/**
+ * Fastest safe weekly change in kg (both positive)
+ */
+export interface SafeWeeklyRateLimits {
+  loss: number;
+  gain: number;
+}
+
+/**
+ * Targets after the guardrails were applied
+ */
+export interface GuardrailResult {
+  calorieTarget: number;
+  weeklyRate: number;
+  warnings: GuardrailWarning[];
+}
+
+function roundKg(value: number): number {
+  // `|| 0` avoids returning -0 for tiny negative rates
+  return Math.round(value * 100) / 100 || 0;
+}
+
+/**
+ * Whether the adolescent rules apply
+ *
+ * @param age - Age in years, or undefined when unknown (treated as adult)
+ */
+export function isAdolescent(age: number | undefined): boolean {
+  return age !== undefined && age <= SAFETY_GUARDRAILS.adolescentMaxAge;
+}
+
+/**
+ * Guardrail rules for an age
+ *
+ * @param age - Age in years, or undefined when unknown (treated as adult)
+ */
+export function guardrailRules(age: number | undefined): GuardrailRules {
+  return isAdolescent(age) ? SAFETY_GUARDRAILS.adolescent : SAFETY_GUARDRAILS.adult;
+}
+
+/**
+ * Body Mass Index rounded to one decimal
+ *
+ * @param weight - Weight in kg
+ * @param height - Height in cm
+ */
+export function calculateBmi(weight: number, height: number): number {
+  const meters = height / 100;
+  return Math.round((weight / (meters * meters)) * 10) / 10;
+}
+
+/**
+ * Fastest weekly loss and gain that is safe for a body weight
+ *
+ * @param weight - Current weight in kg
+ * @param age - Age in years, or undefined when unknown (treated as adult)
+ * @returns Limits in kg/week; loss is the lower of the percentage and absolute caps
+ */
+export function safeWeeklyRateLimits(weight: number, age?: number): SafeWeeklyRateLimits {
+  const rules = guardrailRules(age);
+  return {
+    loss: roundKg(Math.min(rules.maxWeeklyLossKg, weight * rules.maxWeeklyLossPct)),
+    gain: rules.maxWeeklyGainKg,
+  };
+}
+
+/**
+ * Lowest daily calorie target allowed while in a deficit
+ *
+ * @param bmr - Basal Metabolic Rate in kcal/day
+ * @param gender - Biological gender
+ * @param age - Age in years
+ * @returns The higher of the minimum for the user's sex and the BMR share
+ */
+export function minimumCalories(bmr: number, gender: GenderValue, age: number): number {
+  const rules = guardrailRules(age);
+  return Math.max(rules.minCalories[gender], Math.round(bmr * rules.bmrFloorRatio));
+}
+
+/**
+ * Weekly weight change a calorie target leads to
+ *
+ * @param calorieTarget - Daily calorie target in kcal
+ * @param tdee - Total Daily Energy Expenditure in kcal/day
+ * @returns Change in kg/week (negative = loss), rounded to 10 g
+ */
+export function weeklyRateForCalories(calorieTarget: number, tdee: number): number {
+  return roundKg(((calorieTarget - tdee) * 7) / KCAL_PER_KG_BODY_WEIGHT);
+}
+
+/**
+ * Cap unsafe calorie targets and flag unsafe goals
+ *
+ * @param targets - BMR, TDEE, goal-based calorie target and weekly rate
+ * @param inputs - Science inputs the targets were built from
+ * @param now - Reference time for the target date check (defaults to now)
+ * @returns Calorie target and weekly rate after capping, with a warning per guardrail
+ *
+ * @remarks
+ * Checked in order, each on the result of the previous one:
+ * - Adolescents (13–17) get an info warning and the stricter SAFETY_GUARDRAILS.adolescent rules
+ * - BMI below minBmi: no deficit at all
+ * - Deficit or surplus beyond the safe weekly rate: reduced to it
+ * - Calories below the floor for sex and BMR: raised to it (never above TDEE)
+ * - Target BMI and target date are only flagged; they never make the plan more aggressive
+ * When the calorie target was capped, the weekly rate is recalculated from the remaining deficit
+ * or surplus so the projection matches what the user will actually eat.
+ */
+export function evaluateSafetyGuardrails(
+  targets: Pick<ComputedTargets, 'bmr' | 'tdee' | 'calorieTarget' | 'weeklyRate'>,
+  inputs: ScienceInputs,
+  now: Date = new Date()
+): GuardrailResult {
+  const { bmr, tdee } = targets;
+  const { weight, height, age, gender } = inputs;
+  const rules = guardrailRules(age);
+  const limits = safeWeeklyRateLimits(weight, age);
+  const warnings: GuardrailWarning[] = [];
+  let calorieTarget = targets.calorieTarget;
+
+  const cap = (code: GuardrailCode, adjustedValue: number, message: string): void => {
+    warnings.push({
+      code,
+      severity: 'warning',
+      message,
+      capped: true,
+      originalValue: calorieTarget,
+      adjustedValue,
+    });
+    calorieTarget = adjustedValue;
+  };
+
+  if (isAdolescent(age)) {
+    warnings.push({
+      code: 'adolescent',
+      severity: 'info',
+      message: `Because you are under ${SAFETY_GUARDRAILS.adolescentMaxAge + 1}, your plan uses more conservative limits: at least ${rules.minCalories[gender]} calories a day and no more than ${limits.loss} kg lost or ${limits.gain} kg gained per week.`,
+      capped: false,
+    });
+  }
+
+  const bmi = calculateBmi(weight, height);
+  if (calorieTarget < tdee && bmi < SAFETY_GUARDRAILS.minBmi) {
+    cap(
+      'low_bmi',
+      tdee,
+      `Your BMI of ${bmi} is below ${SAFETY_GUARDRAILS.minBmi}, so your plan keeps you at maintenance (${tdee} calories) instead of a deficit.`
+    );
+  }
+
+  const maxDeficit = Math.round((limits.loss * KCAL_PER_KG_BODY_WEIGHT) / 7);
+  const maxSurplus = Math.round((limits.gain * KCAL_PER_KG_BODY_WEIGHT) / 7);
+  if (tdee - calorieTarget > maxDeficit) {
+    cap(
+      'weekly_loss_limit',
+      tdee - maxDeficit,
+      `Your deficit was reduced to ${maxDeficit} calories so you lose no more than ${limits.loss} kg per week.`
+    );
+  } else if (calorieTarget - tdee > maxSurplus) {
+    cap(
+      'weekly_gain_limit',
+      tdee + maxSurplus,
+      `Your surplus was reduced to ${maxSurplus} calories so you gain no more than ${limits.gain} kg per week.`
+    );
+  }
+
+  const floor = minimumCalories(bmr, gender, age);
+  if (calorieTarget < tdee && calorieTarget < floor) {
+    const adjusted = Math.min(floor, tdee);
+    cap(
+      'calorie_floor',
+      adjusted,
+      adjusted === floor
+        ? `Your calories were raised to ${floor}, the safe minimum for you.`
+        : `Your calories were raised to your maintenance of ${tdee}, because the safe minimum of ${floor} is above it.`
+    );
+  }
+
+  if (inputs.targetWeight !== undefined && inputs.targetWeight < weight) {
+    const targetBmi = calculateBmi(inputs.targetWeight, height);
+    if (targetBmi < SAFETY_GUARDRAILS.minBmi) {
+      const minHealthyWeight = Math.ceil(SAFETY_GUARDRAILS.minBmi * (height / 100) ** 2 * 10) / 10;
+      warnings.push({
+        code: 'target_bmi',
+        severity: 'warning',
+        message: `A target of ${inputs.targetWeight} kg puts your BMI at ${targetBmi}, below the healthy minimum of ${SAFETY_GUARDRAILS.minBmi}. Consider a target of at least ${minHealthyWeight} kg.`,
+        capped: false,
+      });
+    }
+  }
+
+  if (inputs.targetDate && inputs.targetWeight !== undefined) {
+    const remaining = inputs.targetWeight - weight;
+    const daysLeft = differenceInCalendarDays(inputs.targetDate, now);
+    const maxRate = remaining < 0 ? limits.loss : limits.gain;
+    const required = daysLeft > 0 ? roundKg((Math.abs(remaining) / daysLeft) * 7) : 0;
+
+    if (required > maxRate) {
+      warnings.push({
+        code: 'target_date',
+        severity: 'warning',
+        message: `Reaching ${inputs.targetWeight} kg by ${format(inputs.targetDate, 'yyyy-MM-dd')} needs ${required} kg per week, above the safe maximum of ${maxRate} kg per week. Your plan keeps a safe pace instead.`,
+        capped: false,
+      });
+    }
+  }
+
+  const weeklyRate =
+    calorieTarget === targets.calorieTarget
+      ? targets.weeklyRate
+      : weeklyRateForCalories(calorieTarget, tdee);
+
+  return { calorieTarget, weeklyRate, warnings };
+}
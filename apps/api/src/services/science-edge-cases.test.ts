@@ -398,11 +398,13 @@ describe('ScienceService - Edge Cases and Comprehensive Coverage', () => {
       expect(result.bmr).toBeGreaterThan(1100);
       expect(result.bmr).toBeLessThan(1400);
       expect(result.tdee).toBeGreaterThan(1500);
-      expect(result.calorieTarget).toBe(result.tdee - 500);
+      // TDEE - 500 would fall below the 1200 kcal female floor
+      expect(result.calorieTarget).toBe(1200);
+      expect(result.warnings?.map((w) => w.code)).toEqual(['calorie_floor']);
       expect(result.proteinTarget).toBe(110);
       expect(result.waterTarget).toBe(1800);
-      expect(result.weeklyRate).toBe(-0.5);
-      expect(result.estimatedWeeks).toBe(4);
+      expect(result.weeklyRate).toBeCloseTo(((1200 - result.tdee) * 7) / 7700, 2);
+      expect(result.estimatedWeeks).toBe(6);
     });
 
     it('should compute targets for tall active male', async () => {
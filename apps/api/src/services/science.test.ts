@@ -76,6 +76,64 @@ describe('ScienceService', () => {
     });
   });
 
+  describe('calculateBMRWithFormula', () => {
+    const inputs = { weight: 80, height: 180, age: 30, gender: 'male' as const };
+
+    it('should match calculateBMR for Mifflin-St Jeor', () => {
+      expect(scienceService.calculateBMRWithFormula('mifflin_st_jeor', inputs)).toBe(
+        scienceService.calculateBMR(80, 180, 30, 'male')
+      );
+    });
+
+    it('should calculate revised Harris-Benedict', () => {
+      // 88.362 + (13.397 * 80) + (4.799 * 180) - (5.677 * 30) = 1853.63
+      expect(scienceService.calculateBMRWithFormula('harris_benedict', inputs)).toBe(1854);
+    });
+
+    it('should calculate lean-mass formulas from body fat', () => {
+      // Lean body mass: 80 * (1 - 0.2) = 64kg
+      const withBodyFat = { ...inputs, bodyFatPercentage: 20 };
+
+      // 370 + 21.6 * 64 = 1752.4
+      expect(scienceService.calculateBMRWithFormula('katch_mcardle', withBodyFat)).toBe(1752);
+      // 500 + 22 * 64 = 1908
+      expect(scienceService.calculateBMRWithFormula('cunningham', withBodyFat)).toBe(1908);
+    });
+
+    it('should reject lean-mass formulas without body fat', () => {
+      expect(() => scienceService.calculateBMRWithFormula('katch_mcardle', inputs)).toThrow(
+        /body fat/
+      );
+    });
+  });
+
+  describe('selectBmrFormula', () => {
+    it('should use Mifflin-St Jeor on auto without body fat', () => {
+      const result = scienceService.selectBmrFormula('auto', 'moderately_active');
+      expect(result.formula).toBe('mifflin_st_jeor');
+      expect(result.reason).toContain('No body fat');
+    });
+
+    it('should pick a lean-mass formula on auto with recent body fat', () => {
+      expect(scienceService.selectBmrFormula('auto', 'moderately_active', 18).formula).toBe(
+        'katch_mcardle'
+      );
+      expect(scienceService.selectBmrFormula('auto', 'very_active', 12).formula).toBe('cunningham');
+    });
+
+    it('should honour an explicit preference', () => {
+      const result = scienceService.selectBmrFormula('harris_benedict', 'sedentary', 25);
+      expect(result.formula).toBe('harris_benedict');
+      expect(result.reason).toContain('You chose');
+    });
+
+    it('should fall back when a lean-mass preference has no recent body fat', () => {
+      const result = scienceService.selectBmrFormula('cunningham', 'very_active');
+      expect(result.formula).toBe('mifflin_st_jeor');
+      expect(result.reason).toContain('Cunningham');
+    });
+  });
+
   describe('calculateTDEE', () => {
     it('should apply correct activity multipliers', () => {
       const bmr = 1500;
@@ -179,6 +237,70 @@ describe('ScienceService', () => {
     });
   });
 
+  describe('resolveMacroProfile', () => {
+    it('should default to balanced', () => {
+      expect(scienceService.resolveMacroProfile([])).toBe('balanced');
+      expect(scienceService.resolveMacroProfile(['gluten_free'])).toBe('balanced');
+    });
+
+    it('should pick the most restrictive matching profile', () => {
+      expect(scienceService.resolveMacroProfile(['vegan'])).toBe('vegan');
+      expect(scienceService.resolveMacroProfile(['vegan', 'keto'])).toBe('keto');
+      expect(scienceService.resolveMacroProfile(['paleo', 'high_protein'])).toBe('high_protein');
+    });
+  });
+
+  describe('calculateMacroTargets', () => {
+    it('should split a balanced diet with 30% fat and carbs as the remainder', () => {
+      // 2200 kcal - 176g protein (704 kcal) = 1496 kcal; fat 660 kcal = 73g; carbs 836 kcal = 209g
+      expect(scienceService.calculateMacroTargets(2200, 176, 80, 'balanced')).toEqual({
+        proteinTarget: 176,
+        carbsTarget: 209,
+        fatTarget: 73,
+        fiberTarget: 31,
+      });
+    });
+
+    it('should cap carbs and fiber on keto and fill the rest with fat', () => {
+      // 2000 kcal - 144g protein (576 kcal) = 1424 kcal; carbs 50g (200 kcal); fat 1224 kcal = 136g
+      expect(scienceService.calculateMacroTargets(2000, 144, 80, 'keto')).toEqual({
+        proteinTarget: 144,
+        carbsTarget: 50,
+        fatTarget: 136,
+        fiberTarget: 20,
+      });
+    });
+
+    it('should raise protein to the vegan floor and increase fiber', () => {
+      // Floor 2.0 g/kg x 80kg = 160g; 2000 - 640 = 1360 kcal; fat 500 kcal = 56g; carbs 860 kcal = 215g
+      expect(scienceService.calculateMacroTargets(2000, 144, 80, 'vegan')).toEqual({
+        proteinTarget: 160,
+        carbsTarget: 215,
+        fatTarget: 56,
+        fiberTarget: 36,
+      });
+    });
+
+    it('should never return negative carbs or fat', () => {
+      const macros = scienceService.calculateMacroTargets(1000, 300, 80, 'balanced');
+
+      expect(macros.carbsTarget).toBe(0);
+      expect(macros.fatTarget).toBe(0);
+    });
+
+    it('should be stable when the returned protein is fed back in', () => {
+      const first = scienceService.calculateMacroTargets(2400, 150, 90, 'high_protein');
+      const second = scienceService.calculateMacroTargets(
+        2400,
+        first.proteinTarget,
+        90,
+        'high_protein'
+      );
+
+      expect(second).toEqual(first);
+    });
+  });
+
   describe('calculateWeeklyRate', () => {
     it('should return correct weekly rates', () => {
       expect(scienceService.calculateWeeklyRate('lose_weight')).toBe(-0.5);
@@ -231,6 +353,36 @@ describe('ScienceService', () => {
     });
   });
 
+  describe('computeTargetsFromInputs', () => {
+    const inputs = {
+      weight: 80,
+      height: 180,
+      age: 35,
+      gender: 'male' as const,
+      activityLevel: 'moderately_active' as const,
+      primaryGoal: 'lose_weight' as const,
+      targetWeight: 75,
+    };
+
+    it('should compute targets without reading user settings', () => {
+      const result = scienceService.computeTargetsFromInputs(inputs, []);
+
+      expect(result.bmr).toBe(1755);
+      expect(result.tdee).toBe(2720);
+      expect(result.calorieTarget).toBe(2220);
+      expect(result.macroProfile).toBe('balanced');
+      expect(result.weeklyRate).toBe(-0.5);
+      expect(result.estimatedWeeks).toBe(10);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should reject inputs outside the validation ranges', () => {
+      expect(() => scienceService.computeTargetsFromInputs({ ...inputs, weight: 20 }, [])).toThrow(
+        'Invalid input parameters'
+      );
+    });
+  });
+
   describe('computeAllTargets', () => {
     beforeEach(async () => {
       // Create user settings for each test
@@ -471,6 +623,70 @@ describe('ScienceService', () => {
       expect(result.timeline.estimatedWeeks).toBe(10);
     });
 
+    it('should explain the macro split when targets include one', () => {
+      const targets = {
+        bmr: 1800,
+        tdee: 2700,
+        calorieTarget: 2000,
+        proteinTarget: 144,
+        waterTarget: 2800,
+        carbsTarget: 50,
+        fatTarget: 136,
+        fiberTarget: 20,
+        macroProfile: 'keto' as const,
+        weeklyRate: -0.5,
+      };
+
+      const inputs = {
+        weight: 80,
+        height: 180,
+        age: 30,
+        gender: 'male' as const,
+        activityLevel: 'very_active' as const,
+        primaryGoal: 'lose_weight' as const,
+      };
+
+      const result = scienceService.getWhyItWorksExplanation(targets, inputs);
+
+      expect(result.macros).toBeDefined();
+      expect(result.macros!.title).toBe('Your Daily Macros');
+      expect(result.macros!.macroProfile).toBe('keto');
+      expect(result.macros!.explanation).toContain('50g carbs');
+      expect(result.macros!.explanation).toContain('ketosis');
+      expect(result.macros!.fiberTarget).toBe(20);
+    });
+
+    it('should explain which BMR formula was used and why', () => {
+      const reason = 'You logged 15% body fat recently.';
+      const targets = {
+        bmr: 1840,
+        bmrFormula: 'cunningham' as const,
+        bmrFormulaReason: reason,
+        tdee: 3174,
+        calorieTarget: 3174,
+        proteinTarget: 144,
+        waterTarget: 2800,
+        weeklyRate: 0,
+      };
+
+      const inputs = {
+        weight: 80,
+        height: 180,
+        age: 30,
+        gender: 'male' as const,
+        activityLevel: 'very_active' as const,
+        primaryGoal: 'maintain' as const,
+      };
+
+      const result = scienceService.getWhyItWorksExplanation(targets, inputs);
+
+      expect(result.bmr.formulaUsed).toBe('cunningham');
+      expect(result.bmr.selectionReason).toBe(reason);
+      expect(result.bmr.explanation).toContain('Cunningham');
+      expect(result.bmr.explanation).toContain(reason);
+      expect(result.bmr.formula).toContain('lean body mass');
+    });
+
     it('should generate educational explanations for muscle gain', () => {
       const targets = {
         bmr: 1600,
@@ -1,17 +1,26 @@
 import { z } from 'zod';
 import { db } from '../db/connection';
-import { userSettings } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { userSettings, evidence, dailyTasks } from '../db/schema';
+import { and, desc, eq, gte } from 'drizzle-orm';
 import { logger } from '../config/logger';
 import { AppError } from '../middleware/error';
 import { trace, SpanStatusCode } from '@opentelemetry/api';
 import type {
+  AdaptiveTdeeEstimate,
+  AppliedPeriodization,
   ScienceInputs,
   ComputedTargets,
   WhyItWorks,
   ActivityLevelValue,
   PrimaryGoalValue,
   GenderValue,
+  BmrFormula,
+  BmrFormulaPreference,
+  DietPeriodization,
+  MacroProfile,
+  MacrosExplanation,
+  OverridableTarget,
+  SafetyExplanation,
 } from '@gtsd/shared-types';
 import {
   ACTIVITY_MULTIPLIERS,
@@ -24,10 +33,30 @@ import {
   ACTIVITY_LEVELS,
   PRIMARY_GOALS,
   GENDERS,
+  BMR_FORMULA_PREFERENCES,
+  BODY_COMPOSITION_MAX_AGE_DAYS,
+  KCAL_PER_GRAM,
+  MACRO_PROFILES,
+  MACRO_PROFILE_PRIORITY,
 } from '@gtsd/shared-types';
+import { evaluateSafetyGuardrails } from './safety-guardrails';
+import { isDietBreakWeek, toDietPeriodization } from './diet-periodization';
 
 const tracer = trace.getTracer('science-service');
 
+/**
+ * Weekday names by ISO weekday (index 0 = Monday)
+ */
+const ISO_WEEKDAY_NAMES = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+] as const;
+
 /**
  * Validation schema for science inputs
  * Uses validation ranges from shared-types for consistency
@@ -44,8 +73,94 @@ const scienceInputsSchema = z.object({
     .min(VALIDATION_RANGES.targetWeight.min)
     .max(VALIDATION_RANGES.targetWeight.max)
     .optional(),
+  bodyFatPercentage: z
+    .number()
+    .min(VALIDATION_RANGES.bodyFat.min)
+    .max(VALIDATION_RANGES.bodyFat.max)
+    .optional(),
+  bmrFormula: z.enum(BMR_FORMULA_PREFERENCES).optional(),
+  targetDate: z.date().optional(),
 });
 
+/**
+ * Inputs a BMR formula may use
+ */
+export interface BmrFormulaInputs {
+  weight: number; // kg
+  height: number; // cm
+  age: number; // years
+  gender: GenderValue;
+  bodyFatPercentage?: number;
+}
+
+/**
+ * A pluggable BMR equation
+ */
+export interface BmrFormulaStrategy {
+  name: string;
+  equation: string;
+  requiresBodyFat: boolean;
+  calculate(inputs: BmrFormulaInputs): number;
+}
+
+/**
+ * Lean body mass in kg from weight and body fat percentage
+ */
+function leanBodyMass({ weight, bodyFatPercentage }: BmrFormulaInputs): number {
+  return weight * (1 - (bodyFatPercentage ?? 0) / 100);
+}
+
+/**
+ * Available BMR equations (unrounded kcal/day)
+ *
+ * @remarks
+ * Gender-based equations use the average of the male and female results for 'other'.
+ * Lean-mass equations don't depend on gender at all.
+ */
+export const BMR_FORMULA_STRATEGIES: Readonly<Record<BmrFormula, BmrFormulaStrategy>> = {
+  mifflin_st_jeor: {
+    name: 'Mifflin-St Jeor',
+    equation: 'BMR = (10 × weight in kg) + (6.25 × height in cm) - (5 × age) + gender offset',
+    requiresBodyFat: false,
+    calculate: ({ weight, height, age, gender }) => {
+      const offsets: Record<GenderValue, number> = { male: 5, female: -161, other: (5 + -161) / 2 };
+      return 10 * weight + 6.25 * height - 5 * age + offsets[gender];
+    },
+  },
+  harris_benedict: {
+    name: 'Harris-Benedict (revised)',
+    equation:
+      'Men: 88.362 + (13.397 × weight) + (4.799 × height) - (5.677 × age); Women: 447.593 + (9.247 × weight) + (3.098 × height) - (4.330 × age)',
+    requiresBodyFat: false,
+    calculate: ({ weight, height, age, gender }) => {
+      const male = 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age;
+      const female = 447.593 + 9.247 * weight + 3.098 * height - 4.33 * age;
+      return gender === 'male' ? male : gender === 'female' ? female : (male + female) / 2;
+    },
+  },
+  katch_mcardle: {
+    name: 'Katch-McArdle',
+    equation: 'BMR = 370 + (21.6 × lean body mass in kg)',
+    requiresBodyFat: true,
+    calculate: (inputs) => 370 + 21.6 * leanBodyMass(inputs),
+  },
+  cunningham: {
+    name: 'Cunningham',
+    equation: 'BMR = 500 + (22 × lean body mass in kg)',
+    requiresBodyFat: true,
+    calculate: (inputs) => 500 + 22 * leanBodyMass(inputs),
+  },
+};
+
+/**
+ * Activity levels where Cunningham suits better than Katch-McArdle
+ * (Cunningham was derived from athletes and runs higher)
+ */
+const ATHLETIC_ACTIVITY_LEVELS: ReadonlySet<ActivityLevelValue> = new Set([
+  'very_active',
+  'extremely_active',
+]);
+
 /**
  * Comprehensive science service for BMR/TDEE calculations and plan generation
  * Implements Mifflin-St Jeor equation and evidence-based nutrition science
@@ -109,6 +224,90 @@ export class ScienceService {
     }
   }
 
+  /**
+   * Choose the BMR formula for a user
+   *
+   * @param preference - User's formula preference
+   * @param activityLevel - User's activity level
+   * @param bodyFatPercentage - Body fat logged within BODY_COMPOSITION_MAX_AGE_DAYS, if any
+   * @returns Formula to use and a user-facing reason
+   *
+   * @remarks
+   * - auto + recent body fat: Cunningham for very/extremely active users, else Katch-McArdle
+   * - auto without body fat: Mifflin-St Jeor
+   * - Explicit lean-mass preference without recent body fat falls back to Mifflin-St Jeor
+   */
+  selectBmrFormula(
+    preference: BmrFormulaPreference,
+    activityLevel: ActivityLevelValue,
+    bodyFatPercentage?: number
+  ): { formula: BmrFormula; reason: string } {
+    const hasBodyFat = bodyFatPercentage !== undefined;
+
+    if (preference === 'auto') {
+      if (!hasBodyFat) {
+        return {
+          formula: 'mifflin_st_jeor',
+          reason: `No body fat logged in the last ${BODY_COMPOSITION_MAX_AGE_DAYS} days, so we use Mifflin-St Jeor, the most accurate general-population formula.`,
+        };
+      }
+
+      const formula = ATHLETIC_ACTIVITY_LEVELS.has(activityLevel) ? 'cunningham' : 'katch_mcardle';
+      return {
+        formula,
+        reason: `You logged ${bodyFatPercentage}% body fat recently, so we use ${BMR_FORMULA_STRATEGIES[formula].name}, which works from your lean body mass${
+          formula === 'cunningham' ? ' and suits very active people' : ''
+        }.`,
+      };
+    }
+
+    const strategy = BMR_FORMULA_STRATEGIES[preference];
+    if (strategy.requiresBodyFat && !hasBodyFat) {
+      return {
+        formula: 'mifflin_st_jeor',
+        reason: `You chose ${strategy.name}, but it needs a body fat reading from the last ${BODY_COMPOSITION_MAX_AGE_DAYS} days, so we used Mifflin-St Jeor for now.`,
+      };
+    }
+
+    return { formula: preference, reason: `You chose the ${strategy.name} formula.` };
+  }
+
+  /**
+   * Calculate BMR with a specific formula
+   *
+   * @param formula - BMR formula to use
+   * @param inputs - Weight, height, age, gender and (for lean-mass formulas) body fat
+   * @returns BMR in kcal/day (rounded to integer)
+   * @throws {Error} If a lean-mass formula is used without body fat
+   */
+  calculateBMRWithFormula(formula: BmrFormula, inputs: BmrFormulaInputs): number {
+    const span = tracer.startSpan('science.calculate_bmr_with_formula');
+
+    try {
+      const strategy = BMR_FORMULA_STRATEGIES[formula];
+      if (strategy.requiresBodyFat && inputs.bodyFatPercentage === undefined) {
+        throw new Error(`${strategy.name} requires a body fat percentage`);
+      }
+
+      const bmr = Math.round(strategy.calculate(inputs));
+
+      span.setAttributes({
+        'bmr.formula': formula,
+        'bmr.uses_body_fat': strategy.requiresBodyFat,
+        'bmr.result': bmr,
+      });
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return bmr;
+    } catch (error) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
   /**
    * Calculate Total Daily Energy Expenditure
    * Multiplies BMR by activity level factor
@@ -266,6 +465,85 @@ export class ScienceService {
     }
   }
 
+  /**
+   * Pick the macro profile for a user's dietary preferences
+   *
+   * @param dietaryPreferences - User's dietary preferences (e.g. ['vegan', 'gluten_free'])
+   * @returns First match in MACRO_PROFILE_PRIORITY, or balanced
+   */
+  resolveMacroProfile(dietaryPreferences: readonly string[]): MacroProfile {
+    return (
+      MACRO_PROFILE_PRIORITY.find((profile) => dietaryPreferences.includes(profile)) ?? 'balanced'
+    );
+  }
+
+  /**
+   * Calculate protein, carbs, fat and fiber targets for a calorie target
+   *
+   * @param calorieTarget - Daily calorie target in kcal
+   * @param proteinTarget - Goal-based protein target in grams
+   * @param weight - Body weight in kg (for profile protein floors)
+   * @param profile - Macro profile to split by
+   * @returns Macro targets in grams (protein may be raised by the profile)
+   *
+   * @remarks
+   * - Protein is fixed first, then fat (or carbs on keto), then the remainder
+   * - If protein leaves too few calories, fat and carbs shrink rather than go negative
+   * - Idempotent: feeding the returned protein back in gives the same result
+   */
+  calculateMacroTargets(
+    calorieTarget: number,
+    proteinTarget: number,
+    weight: number,
+    profile: MacroProfile
+  ): { proteinTarget: number; carbsTarget: number; fatTarget: number; fiberTarget: number } {
+    const span = tracer.startSpan('science.calculate_macro_targets');
+
+    try {
+      const settings = MACRO_PROFILES[profile];
+      const protein = settings.proteinMinPerKg
+        ? Math.max(proteinTarget, Math.round(weight * settings.proteinMinPerKg))
+        : proteinTarget;
+      const remaining = Math.max(calorieTarget - protein * KCAL_PER_GRAM.protein, 0);
+
+      let carbsKcal: number;
+      let fatKcal: number;
+      if (settings.carbsGrams !== undefined) {
+        carbsKcal = Math.min(settings.carbsGrams * KCAL_PER_GRAM.carbs, remaining);
+        fatKcal = remaining - carbsKcal;
+      } else {
+        fatKcal = Math.min(calorieTarget * settings.fatShare, remaining);
+        carbsKcal = remaining - fatKcal;
+      }
+
+      const fiber = Math.round((calorieTarget / 1000) * settings.fiberPer1000Kcal);
+      const macros = {
+        proteinTarget: protein,
+        carbsTarget: Math.round(carbsKcal / KCAL_PER_GRAM.carbs),
+        fatTarget: Math.round(fatKcal / KCAL_PER_GRAM.fat),
+        fiberTarget: settings.fiberMaxGrams ? Math.min(fiber, settings.fiberMaxGrams) : fiber,
+      };
+
+      span.setAttributes({
+        'macros.profile': profile,
+        'macros.calorie_target': calorieTarget,
+        'macros.protein': macros.proteinTarget,
+        'macros.carbs': macros.carbsTarget,
+        'macros.fat': macros.fatTarget,
+        'macros.fiber': macros.fiberTarget,
+      });
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return macros;
+    } catch (error) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
   /**
    * Calculate expected weekly weight change rate
    *
@@ -282,21 +560,55 @@ export class ScienceService {
     return WEEKLY_RATES[goal];
   }
 
+  /**
+   * Calculate average weekly rate over a diet periodization cycle
+   *
+   * @param weeklyRate - Expected change in kg for a regular diet week
+   * @param periodization - Diet breaks and refeed days
+   * @returns Average kg/week with refeed days and diet-break weeks at maintenance
+   *
+   * @remarks
+   * Only a deficit is slowed down; other rates are returned unchanged
+   */
+  calculatePeriodizedWeeklyRate(weeklyRate: number, periodization: DietPeriodization): number {
+    if (weeklyRate >= 0) {
+      return weeklyRate;
+    }
+
+    const { dietBreakEveryWeeks } = periodization;
+    const cycleShare = dietBreakEveryWeeks ? dietBreakEveryWeeks / (dietBreakEveryWeeks + 1) : 1;
+
+    return (
+      Math.round(this.calculateRefeedWeekRate(weeklyRate, periodization) * cycleShare * 100) / 100
+    );
+  }
+
+  /**
+   * Weekly rate of a diet week with its refeed days eaten at maintenance
+   */
+  private calculateRefeedWeekRate(weeklyRate: number, periodization: DietPeriodization): number {
+    return (weeklyRate * (7 - periodization.refeedDays.length)) / 7;
+  }
+
   /**
    * Calculate timeline projection for reaching target weight
    *
    * @param currentWeight - Current weight in kg
    * @param targetWeight - Target weight in kg
    * @param weeklyRate - Expected weekly change in kg
+   * @param periodization - Diet breaks and refeed days (optional)
    * @returns Projection with estimated weeks and completion date
    *
    * @remarks
-   * Returns undefined values if weekly rate is 0 (maintenance goals)
+   * - Returns undefined values if weekly rate is 0 (maintenance goals)
+   * - In a deficit, refeed days lose nothing and a diet-break week follows every
+   *   dietBreakEveryWeeks weeks of dieting, so the timeline gets longer
    */
   calculateProjection(
     currentWeight: number,
     targetWeight: number,
-    weeklyRate: number
+    weeklyRate: number,
+    periodization?: DietPeriodization
   ):
     | { estimatedWeeks: number; projectedDate: Date }
     | { estimatedWeeks: undefined; projectedDate: undefined } {
@@ -310,7 +622,18 @@ export class ScienceService {
       }
 
       const weightDifference = Math.abs(targetWeight - currentWeight);
-      const estimatedWeeks = Math.ceil(weightDifference / Math.abs(weeklyRate));
+      let estimatedWeeks = Math.ceil(weightDifference / Math.abs(weeklyRate));
+
+      if (periodization && weeklyRate < 0) {
+        const dietWeeks = Math.ceil(
+          weightDifference / Math.abs(this.calculateRefeedWeekRate(weeklyRate, periodization))
+        );
+        const dietBreaks = periodization.dietBreakEveryWeeks
+          ? Math.floor((dietWeeks - 1) / periodization.dietBreakEveryWeeks)
+          : 0;
+        estimatedWeeks = dietWeeks + dietBreaks;
+        span.setAttributes({ 'projection.diet_breaks': dietBreaks });
+      }
 
       const projectedDate = new Date();
       projectedDate.setDate(projectedDate.getDate() + estimatedWeeks * 7);
@@ -334,6 +657,210 @@ export class ScienceService {
     }
   }
 
+  /**
+   * Replace the formula TDEE with an adaptive estimate when it is usable
+   *
+   * @param targets - Formula-based targets from computeAllTargets
+   * @param estimate - Adaptive estimate from the weight trend and logged intake
+   * @param inputs - Science inputs the targets were built from
+   * @returns Targets with tdeeSource and adaptiveTdee set
+   *
+   * @remarks
+   * - Sufficient data: TDEE and calorie target are rebuilt from the estimate
+   * - Otherwise: formula targets are returned unchanged (tdeeSource = formula)
+   * - Safety guardrails are re-applied to the new calorie target, so warnings and the weekly
+   *   rate (and with it the projection) can change
+   * - Carbs and fat are re-split for the new calorie target
+   * - BMR, protein and water don't depend on TDEE and are kept
+   */
+  applyAdaptiveTdee(
+    targets: ComputedTargets,
+    estimate: AdaptiveTdeeEstimate,
+    inputs: ScienceInputs
+  ): ComputedTargets {
+    if (!estimate.dataSufficiency.sufficient || estimate.tdee === null) {
+      return { ...targets, tdeeSource: 'formula', adaptiveTdee: estimate };
+    }
+
+    const { calorieTarget, weeklyRate, warnings } = evaluateSafetyGuardrails(
+      {
+        bmr: targets.bmr,
+        tdee: estimate.tdee,
+        calorieTarget: this.calculateCalorieTarget(estimate.tdee, inputs.primaryGoal),
+        weeklyRate: this.calculateWeeklyRate(inputs.primaryGoal),
+      },
+      inputs
+    );
+
+    // Re-split carbs/fat for the new calories; protein already includes any profile floor
+    const macros = targets.macroProfile
+      ? this.calculateMacroTargets(calorieTarget, targets.proteinTarget, 0, targets.macroProfile)
+      : {};
+
+    const projection =
+      inputs.targetWeight && weeklyRate !== targets.weeklyRate
+        ? this.calculateProjection(
+            inputs.weight,
+            inputs.targetWeight,
+            weeklyRate,
+            inputs.periodization
+          )
+        : { estimatedWeeks: targets.estimatedWeeks, projectedDate: targets.projectedDate };
+
+    return {
+      ...targets,
+      ...macros,
+      tdee: estimate.tdee,
+      calorieTarget,
+      weeklyRate,
+      ...projection,
+      tdeeSource: 'adaptive',
+      adaptiveTdee: estimate,
+      warnings,
+    };
+  }
+
+  /**
+   * Apply diet breaks and refeed days to a week's targets
+   *
+   * @param targets - Targets after adaptive TDEE, transition phase and overrides
+   * @param inputs - Science inputs with the user's periodization
+   * @param date - Any time in the week the targets are for
+   * @returns Targets with periodization set, or unchanged when it doesn't apply
+   *
+   * @remarks
+   * - Only applies while losing weight with calories below TDEE, and not to calories
+   *   pinned by hand
+   * - Diet-break week: calories go up to TDEE and carbs/fat are re-split; no refeeds that week
+   * - Refeed days: TDEE calories, with the extra calories added as carbs
+   * - weeklyRate stays the rate of a regular diet week; averageWeeklyRate covers the cycle
+   */
+  applyDietPeriodization(
+    targets: ComputedTargets,
+    inputs: ScienceInputs,
+    date: Date
+  ): ComputedTargets {
+    const { periodization } = inputs;
+    if (
+      !periodization ||
+      inputs.primaryGoal !== 'lose_weight' ||
+      targets.calorieTarget >= targets.tdee ||
+      targets.overrides?.some((o) => o.field === 'calorieTarget')
+    ) {
+      return targets;
+    }
+
+    const dietBreakWeek = isDietBreakWeek(periodization, date);
+    const extraCalories = targets.tdee - targets.calorieTarget;
+    const applied: AppliedPeriodization = {
+      dietBreakEveryWeeks: periodization.dietBreakEveryWeeks,
+      refeedDays: periodization.refeedDays,
+      dietBreakWeek,
+      dietCalorieTarget: targets.calorieTarget,
+      refeed:
+        !dietBreakWeek && periodization.refeedDays.length > 0
+          ? {
+              calorieTarget: targets.tdee,
+              carbsTarget:
+                targets.carbsTarget !== undefined
+                  ? targets.carbsTarget + Math.round(extraCalories / KCAL_PER_GRAM.carbs)
+                  : undefined,
+            }
+          : undefined,
+      averageWeeklyRate: this.calculatePeriodizedWeeklyRate(targets.weeklyRate, periodization),
+    };
+
+    if (!dietBreakWeek) {
+      return { ...targets, periodization: applied };
+    }
+
+    // Weight 0 skips the profile's protein floor so protein is kept as is
+    const macros = targets.macroProfile
+      ? this.calculateMacroTargets(targets.tdee, targets.proteinTarget, 0, targets.macroProfile)
+      : {};
+
+    return { ...targets, ...macros, calorieTarget: targets.tdee, periodization: applied };
+  }
+
+  /**
+   * Compute all health targets from science inputs
+   * Pure calculation shared by computeAllTargets and the what-if simulator
+   *
+   * @param inputs - Science inputs (validated here)
+   * @param dietaryPreferences - Dietary preferences that pick the macro profile
+   * @returns Formula-based targets with guardrail warnings and projection
+   * @throws {AppError} 400 if inputs are outside the validation ranges
+   */
+  computeTargetsFromInputs(
+    inputs: ScienceInputs,
+    dietaryPreferences: readonly string[]
+  ): ComputedTargets {
+    const validationResult = scienceInputsSchema.safeParse(inputs);
+    if (!validationResult.success) {
+      const errors = validationResult.error.issues.map(
+        (issue) => `${issue.path.join('.')}: ${issue.message}`
+      );
+      throw new AppError(400, `Invalid input parameters: ${errors.join(', ')}`);
+    }
+
+    const { weight, height, age, gender, activityLevel, primaryGoal, targetWeight } = inputs;
+    const { bodyFatPercentage } = inputs;
+
+    const { formula: bmrFormula, reason: bmrFormulaReason } = this.selectBmrFormula(
+      inputs.bmrFormula ?? 'auto',
+      activityLevel,
+      bodyFatPercentage
+    );
+    const bmr = this.calculateBMRWithFormula(bmrFormula, {
+      weight,
+      height,
+      age,
+      gender,
+      bodyFatPercentage,
+    });
+    const tdee = this.calculateTDEE(bmr, activityLevel);
+    const { calorieTarget, weeklyRate, warnings } = evaluateSafetyGuardrails(
+      {
+        bmr,
+        tdee,
+        calorieTarget: this.calculateCalorieTarget(tdee, primaryGoal),
+        weeklyRate: this.calculateWeeklyRate(primaryGoal),
+      },
+      inputs
+    );
+    const macroProfile = this.resolveMacroProfile(dietaryPreferences);
+    const { proteinTarget, carbsTarget, fatTarget, fiberTarget } = this.calculateMacroTargets(
+      calorieTarget,
+      this.calculateProteinTarget(weight, primaryGoal),
+      weight,
+      macroProfile
+    );
+    const waterTarget = this.calculateWaterTarget(weight);
+
+    // Calculate projection if target weight is set
+    const projection = targetWeight
+      ? this.calculateProjection(weight, targetWeight, weeklyRate, inputs.periodization)
+      : { estimatedWeeks: undefined, projectedDate: undefined };
+
+    return {
+      bmr,
+      bmrFormula,
+      bmrFormulaReason,
+      tdee,
+      calorieTarget,
+      proteinTarget,
+      waterTarget,
+      carbsTarget,
+      fatTarget,
+      fiberTarget,
+      macroProfile,
+      weeklyRate,
+      estimatedWeeks: projection.estimatedWeeks,
+      projectedDate: projection.projectedDate,
+      warnings,
+    };
+  }
+
   /**
    * Compute all health targets for a user
    * Main method that orchestrates all calculations
@@ -346,6 +873,8 @@ export class ScienceService {
    * - Fetches user settings from database
    * - Validates all inputs
    * - Calculates BMR, TDEE, calories, protein, water
+   * - Caps unsafe calorie targets with the safety guardrails and returns their warnings
+   * - Splits calories into carbs, fat and fiber by the dietary-preference macro profile
    * - Calculates weight change projection
    * - Target performance: p95 < 300ms
    * - Logs calculations without PII (userId only)
@@ -369,6 +898,12 @@ export class ScienceService {
           activityLevel: userSettings.activityLevel,
           primaryGoal: userSettings.primaryGoal,
           targetWeight: userSettings.targetWeight,
+          bmrFormula: userSettings.bmrFormula,
+          dietaryPreferences: userSettings.dietaryPreferences,
+          targetDate: userSettings.targetDate,
+          dietBreakEveryWeeks: userSettings.dietBreakEveryWeeks,
+          dietBreakAnchor: userSettings.dietBreakAnchor,
+          refeedDays: userSettings.refeedDays,
         })
         .from(userSettings)
         .where(eq(userSettings.userId, userId));
@@ -396,6 +931,9 @@ export class ScienceService {
       // Calculate age from date of birth
       const age = this.calculateAge(dateOfBirth);
 
+      // Recent body composition enables lean-mass BMR formulas
+      const bodyFatPercentage = await this.getRecentBodyFat(userId);
+
       // Prepare inputs for validation
       const inputs: ScienceInputs = {
         weight,
@@ -405,50 +943,31 @@ export class ScienceService {
         activityLevel,
         primaryGoal,
         targetWeight,
+        bodyFatPercentage,
+        bmrFormula: settings.bmrFormula as BmrFormulaPreference,
+        targetDate: settings.targetDate ?? undefined,
+        periodization: toDietPeriodization(settings),
       };
 
-      // Validate all inputs
-      const validationResult = scienceInputsSchema.safeParse(inputs);
-      if (!validationResult.success) {
-        const errors = validationResult.error.issues.map(
-          (issue) => `${issue.path.join('.')}: ${issue.message}`
-        );
-        throw new AppError(400, `Invalid input parameters: ${errors.join(', ')}`);
-      }
-
-      // Calculate all targets in single pass
-      const bmr = this.calculateBMR(weight, height, age, gender);
-      const tdee = this.calculateTDEE(bmr, activityLevel);
-      const calorieTarget = this.calculateCalorieTarget(tdee, primaryGoal);
-      const proteinTarget = this.calculateProteinTarget(weight, primaryGoal);
-      const waterTarget = this.calculateWaterTarget(weight);
-      const weeklyRate = this.calculateWeeklyRate(primaryGoal);
-
-      // Calculate projection if target weight is set
-      const projection = targetWeight
-        ? this.calculateProjection(weight, targetWeight, weeklyRate)
-        : { estimatedWeeks: undefined, projectedDate: undefined };
-
-      const targets: ComputedTargets = {
-        bmr,
-        tdee,
-        calorieTarget,
-        proteinTarget,
-        waterTarget,
-        weeklyRate,
-        estimatedWeeks: projection.estimatedWeeks,
-        projectedDate: projection.projectedDate,
-      };
+      const targets = this.computeTargetsFromInputs(inputs, settings.dietaryPreferences ?? []);
+      const { bmr, bmrFormula, tdee, calorieTarget, proteinTarget, waterTarget, weeklyRate } =
+        targets;
+      const warnings = targets.warnings ?? [];
 
       const duration = performance.now() - startTime;
 
       span.setAttributes({
         'targets.bmr': bmr,
+        'targets.bmr_formula': bmrFormula,
         'targets.tdee': tdee,
         'targets.calorie_target': calorieTarget,
         'targets.protein_target': proteinTarget,
         'targets.water_target': waterTarget,
+        'targets.carbs_target': targets.carbsTarget,
+        'targets.fat_target': targets.fatTarget,
+        'targets.macro_profile': targets.macroProfile,
         'targets.weekly_rate': weeklyRate,
+        'targets.guardrails': warnings.map((w) => w.code).join(','),
         'performance.duration_ms': duration,
       });
 
@@ -456,12 +975,14 @@ export class ScienceService {
         {
           userId,
           bmr,
+          bmrFormula,
           tdee,
           calorieTarget,
           proteinTarget,
           waterTarget,
           weeklyRate,
-          estimatedWeeks: projection.estimatedWeeks,
+          estimatedWeeks: targets.estimatedWeeks,
+          guardrails: warnings.map((w) => w.code),
           durationMs: Math.round(duration),
         },
         'Health targets computed successfully'
@@ -525,11 +1046,23 @@ export class ScienceService {
       const mlPerKg = WATER_ML_PER_KG;
       const deficit = targets.tdee - targets.calorieTarget;
 
+      const bmrFormula = targets.bmrFormula ?? 'mifflin_st_jeor';
+      const bmrStrategy = BMR_FORMULA_STRATEGIES[bmrFormula];
+      const cappedNote = targets.warnings?.some((w) => w.capped)
+        ? ' Your target was adjusted by our safety guardrails - see the safety section for why.'
+        : '';
+
       const whyItWorks: WhyItWorks = {
         bmr: {
           title: 'Your Basal Metabolic Rate (BMR)',
-          explanation: `Your BMR is ${targets.bmr} calories - the energy your body burns at complete rest just to keep you alive. This includes breathing, circulation, cell production, and nutrient processing. We calculate this using the Mifflin-St Jeor equation, the most accurate formula validated by modern research.`,
-          formula: 'BMR = (10 × weight in kg) + (6.25 × height in cm) - (5 × age) + gender offset',
+          explanation: `Your BMR is ${targets.bmr} calories - the energy your body burns at complete rest just to keep you alive. This includes breathing, circulation, cell production, and nutrient processing. ${
+            bmrFormula === 'mifflin_st_jeor'
+              ? 'We calculate this using the Mifflin-St Jeor equation, the most accurate formula validated by modern research.'
+              : `We calculate this using the ${bmrStrategy.name} equation.`
+          }${targets.bmrFormulaReason ? ` ${targets.bmrFormulaReason}` : ''}`,
+          formula: bmrStrategy.equation,
+          formulaUsed: bmrFormula,
+          selectionReason: targets.bmrFormulaReason,
         },
         tdee: {
           title: 'Your Total Daily Energy Expenditure (TDEE)',
@@ -540,11 +1073,14 @@ export class ScienceService {
         calorieTarget: {
           title: 'Your Daily Calorie Target',
           explanation:
-            deficit > 0
+            (deficit > 0
               ? `To ${inputs.primaryGoal.replace('_', ' ')}, you need a ${Math.abs(deficit)} calorie deficit. This creates a safe energy gap that forces your body to tap into fat stores. At this rate, you'll lose approximately ${Math.abs(targets.weeklyRate)} kg per week - sustainable and muscle-preserving.`
               : deficit < 0
                 ? `To ${inputs.primaryGoal.replace('_', ' ')}, you need a ${Math.abs(deficit)} calorie surplus. This provides extra energy for muscle protein synthesis and recovery. At this rate, you'll gain approximately ${targets.weeklyRate} kg per week - mostly lean mass when paired with strength training.`
-                : `To ${inputs.primaryGoal.replace('_', ' ')}, you'll eat at maintenance (${targets.calorieTarget} calories). This keeps your weight stable while you focus on body recomposition, performance, or general health improvements.`,
+                : `To ${inputs.primaryGoal.replace('_', ' ')}, you'll eat at maintenance (${targets.calorieTarget} calories). This keeps your weight stable while you focus on body recomposition, performance, or general health improvements.`) +
+            cappedNote +
+            this.getOverrideNote(targets, 'calorieTarget', ' calories') +
+            this.getPeriodizationNote(targets),
           deficit,
           metric: deficit,
         },
@@ -556,25 +1092,31 @@ export class ScienceService {
               : inputs.primaryGoal === 'gain_muscle'
                 ? 'For muscle building, protein provides amino acids needed for muscle protein synthesis. This higher intake supports recovery and new muscle growth.'
                 : 'Adequate protein supports muscle maintenance, satiety, and overall health. It helps preserve lean mass and supports metabolic function.'
-          }`,
+          }${this.getOverrideNote(targets, 'proteinTarget', 'g')}`,
           gramsPerKg,
           metric: gramsPerKg,
         },
         waterTarget: {
           title: 'Your Daily Hydration Target',
-          explanation: `Aim for ${targets.waterTarget}ml of water daily (${mlPerKg}ml per kg). Proper hydration supports performance, recovery, appetite regulation, and metabolic function. Water helps transport nutrients, regulate temperature, and maintain energy levels throughout the day.`,
+          explanation: `Aim for ${targets.waterTarget}ml of water daily (${mlPerKg}ml per kg). Proper hydration supports performance, recovery, appetite regulation, and metabolic function. Water helps transport nutrients, regulate temperature, and maintain energy levels throughout the day.${this.getOverrideNote(targets, 'waterTarget', 'ml')}`,
           mlPerKg,
           metric: mlPerKg,
         },
         timeline: {
           title: 'Your Projected Timeline',
           explanation: targets.estimatedWeeks
-            ? `Based on a ${Math.abs(targets.weeklyRate)} kg per week rate, you'll reach your goal in approximately ${targets.estimatedWeeks} weeks. This timeline assumes consistent adherence to your calorie and protein targets. Progress isn't perfectly linear - expect some fluctuation week to week.`
+            ? `Based on a ${Math.abs(targets.weeklyRate)} kg per week rate, you'll reach your goal in approximately ${targets.estimatedWeeks} weeks.${
+                targets.periodization
+                  ? ` Refeed days and diet breaks bring the average down to about ${Math.abs(targets.periodization.averageWeeklyRate)} kg per week, which this timeline allows for.`
+                  : ''
+              } This timeline assumes consistent adherence to your calorie and protein targets. Progress isn't perfectly linear - expect some fluctuation week to week.`
             : `Since you're focused on ${inputs.primaryGoal.replace('_', ' ')}, there's no specific weight timeline. Focus on consistency with your daily habits and let your body adapt over time.`,
           weeklyRate: targets.weeklyRate,
           estimatedWeeks: targets.estimatedWeeks || 0,
           metric: targets.weeklyRate,
         },
+        macros: this.getMacrosExplanation(targets),
+        safety: this.getSafetyExplanation(targets),
       };
 
       span.setStatus({ code: SpanStatusCode.OK });
@@ -588,6 +1130,149 @@ export class ScienceService {
     }
   }
 
+  /**
+   * Explain the carbs/fat/fiber split
+   *
+   * @param targets - Computed targets
+   * @returns Macro explanation, or undefined when targets carry no macro split
+   */
+  private getMacrosExplanation(targets: ComputedTargets): MacrosExplanation | undefined {
+    const { carbsTarget, fatTarget, fiberTarget, macroProfile } = targets;
+    if (
+      carbsTarget === undefined ||
+      fatTarget === undefined ||
+      fiberTarget === undefined ||
+      !macroProfile
+    ) {
+      return undefined;
+    }
+
+    const settings = MACRO_PROFILES[macroProfile];
+    const split = `${targets.proteinTarget}g protein, ${carbsTarget}g carbs and ${fatTarget}g fat`;
+    const profileNotes: Record<MacroProfile, string> = {
+      balanced: `Fat provides about ${Math.round(settings.fatShare * 100)}% of your calories for hormone health, and carbs fuel the rest of your day and your training.`,
+      keto: `Because you follow a keto diet, carbs are held to about ${settings.carbsGrams}g so your body stays in ketosis, and fat supplies most of your energy.`,
+      high_protein: `Because you prefer a high-protein diet, protein is at least ${settings.proteinMinPerKg}g per kg, with fat at about ${Math.round(settings.fatShare * 100)}% of calories and carbs filling the rest.`,
+      vegan: `Because plant protein is digested a little less completely, your vegan protein target is at least ${settings.proteinMinPerKg}g per kg. Fat is about ${Math.round(settings.fatShare * 100)}% of calories and carbs fill the rest.`,
+      paleo: `Your paleo split leans on fat for about ${Math.round(settings.fatShare * 100)}% of calories, with carbs from fruit and starchy vegetables filling the rest.`,
+    };
+
+    return {
+      title: 'Your Daily Macros',
+      explanation: `Your ${targets.calorieTarget} calories break down into ${split}. ${profileNotes[macroProfile]} Aim for ${fiberTarget}g of fiber to support digestion and keep you full.`,
+      macroProfile,
+      carbsTarget,
+      fatTarget,
+      fiberTarget,
+    };
+  }
+
+  /**
+   * Note for a target that was pinned by hand
+   *
+   * @param targets - Computed targets
+   * @param field - Target being explained
+   * @param unit - Unit appended to the formula value
+   * @returns Sentence with the formula value (leading space), or '' when the target is computed
+   */
+  private getOverrideNote(
+    targets: ComputedTargets,
+    field: OverridableTarget,
+    unit: string
+  ): string {
+    const override = targets.overrides?.find((o) => o.field === field);
+    if (!override) {
+      return '';
+    }
+
+    return ` This target was set by ${override.setBy === 'coach' ? 'your coach' : 'you'} instead of calculated; our formulas suggest ${override.formulaValue}${unit}.`;
+  }
+
+  /**
+   * Note on diet breaks and refeed days for the calorie explanation
+   */
+  private getPeriodizationNote(targets: ComputedTargets): string {
+    const periodization = targets.periodization;
+    if (!periodization) {
+      return '';
+    }
+
+    if (periodization.dietBreakWeek) {
+      return ` This week is a planned diet break at maintenance to ease diet fatigue; you go back to ${periodization.dietCalorieTarget} calories next week.`;
+    }
+
+    if (!periodization.refeed) {
+      return '';
+    }
+
+    const days = periodization.refeedDays.map((day) => ISO_WEEKDAY_NAMES[day - 1]).join(' and ');
+    return ` On refeed days (${days}) you eat at maintenance, ${periodization.refeed.calorieTarget} calories, with the extra from carbs to refill glycogen.`;
+  }
+
+  /**
+   * Explain the safety guardrails that applied
+   *
+   * @param targets - Computed targets
+   * @returns Safety explanation, or undefined when no guardrail applied
+   */
+  private getSafetyExplanation(targets: ComputedTargets): SafetyExplanation | undefined {
+    if (!targets.warnings || targets.warnings.length === 0) {
+      return undefined;
+    }
+
+    const capped = targets.warnings.some((w) => w.capped);
+
+    return {
+      title: 'Keeping Your Plan Safe',
+      explanation: `${
+        capped
+          ? 'We adjusted your plan to stay within evidence-based safety limits.'
+          : 'Your plan is within our safety limits, but a few things are worth knowing.'
+      } ${targets.warnings.map((w) => w.message).join(' ')}`,
+      warnings: targets.warnings,
+    };
+  }
+
+  /**
+   * Get the user's latest body fat reading if it is recent enough
+   *
+   * @param userId - User ID
+   * @returns Body fat percentage logged within BODY_COMPOSITION_MAX_AGE_DAYS, or undefined
+   *
+   * @remarks
+   * Reads weight_log evidence (metrics.bodyFat); out-of-range values are ignored
+   */
+  async getRecentBodyFat(userId: number): Promise<number | undefined> {
+    const since = new Date(Date.now() - BODY_COMPOSITION_MAX_AGE_DAYS * 24 * 60 * 60 * 1000);
+
+    const weighIns = await db
+      .select({ metrics: evidence.metrics })
+      .from(evidence)
+      .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+      .where(
+        and(
+          eq(evidence.userId, userId),
+          eq(dailyTasks.taskType, 'weight_log'),
+          gte(evidence.recordedAt, since)
+        )
+      )
+      .orderBy(desc(evidence.recordedAt));
+
+    for (const { metrics } of weighIns) {
+      // Metrics evidence may carry numbers as strings
+      const bodyFat = Number(metrics?.bodyFat);
+      if (
+        metrics?.bodyFat !== undefined &&
+        bodyFat >= VALIDATION_RANGES.bodyFat.min &&
+        bodyFat <= VALIDATION_RANGES.bodyFat.max
+      ) {
+        return bodyFat;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Calculate age from date of birth
    *
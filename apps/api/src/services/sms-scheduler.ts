@@ -134,7 +134,7 @@ async function scheduleMorningNudges(): Promise<void> {
   try {
     logger.debug('Checking for morning nudges to send...');
 
-    // Get all users with SMS enabled and valid phone numbers
+    // Get all verified users with SMS enabled and valid phone numbers
     const eligibleUsers = await db
       .select({
         id: users.id,
@@ -146,6 +146,7 @@ async function scheduleMorningNudges(): Promise<void> {
       .where(
         and(
           eq(users.smsOptIn, true),
+          eq(users.emailVerified, true),
           isNotNull(users.phone),
           eq(users.isActive, true)
         )
@@ -246,7 +247,7 @@ async function scheduleEveningReminders(): Promise<void> {
   try {
     logger.debug('Checking for evening reminders to send...');
 
-    // Get all users with SMS enabled and valid phone numbers
+    // Get all verified users with SMS enabled and valid phone numbers
     const eligibleUsers = await db
       .select({
         id: users.id,
@@ -258,6 +259,7 @@ async function scheduleEveningReminders(): Promise<void> {
       .where(
         and(
           eq(users.smsOptIn, true),
+          eq(users.emailVerified, true),
           isNotNull(users.phone),
           eq(users.isActive, true)
         )
@@ -7,13 +7,19 @@ import {
   userSettings,
   SelectUserBadge,
 } from '../db/schema';
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { eq, and, gte, lte, desc, isNull } from 'drizzle-orm';
 import { logger } from '../config/logger';
 import { trace, SpanStatusCode, metrics } from '@opentelemetry/api';
 import { AppError } from '../middleware/error';
-import { startOfDay, endOfDay, differenceInDays, format } from 'date-fns';
-import { toZonedTime } from 'date-fns-tz';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
 import { redisCache } from '../utils/cache';
+import type { PersonalRecordEvent } from '@gtsd/shared-types';
+import {
+  getLocalDateString,
+  getLocalDayBounds,
+  getUserTimezone,
+  resolveTimezone,
+} from '../utils/timezone';
 
 const tracer = trace.getTracer('streaks-service');
 
@@ -58,6 +64,11 @@ export const BADGE_DEFINITIONS = {
     name: 'Hundred Club',
     description: 'Reached a 100-day compliance streak',
   },
+  record_breaker: {
+    type: 'record_breaker' as const,
+    name: 'Record Breaker',
+    description: 'Set your first personal record',
+  },
 } as const;
 
 /**
@@ -88,23 +99,36 @@ export class StreaksService {
    * Threshold is configurable per user (defaults to 80%)
    *
    * @param userId - User ID
-   * @param date - Date to check (defaults to today)
+   * @param date - Instant within the day to check, or a local date string (YYYY-MM-DD). Defaults to now
+   * @param timezone - User's IANA timezone (looked up from the users table when omitted)
    * @returns True if user met compliance threshold
+   *
+   * @remarks
+   * - The day is resolved on the user's local calendar, not the server's
+   * - Tasks are included when their dueDate falls within the local day's UTC boundaries
    */
-  async calculateDailyCompliance(userId: number, date: Date = new Date()): Promise<boolean> {
+  async calculateDailyCompliance(
+    userId: number,
+    date: Date | string = new Date(),
+    timezone?: string
+  ): Promise<boolean> {
     const span = tracer.startSpan('streaks.calculate_daily_compliance');
+    let localDate = typeof date === 'string' ? date : undefined;
 
     try {
+      const userTimezone = timezone ? resolveTimezone(timezone) : await getUserTimezone(userId);
+      localDate = localDate ?? getLocalDateString(userTimezone, date as Date);
+
       span.setAttributes({
         'user.id': userId,
-        'date': format(date, 'yyyy-MM-dd'),
+        'user.timezone': userTimezone,
+        'date': localDate,
       });
 
-      const dayStart = startOfDay(date);
-      const dayEnd = endOfDay(date);
+      const { start: dayStart, end: dayEnd } = getLocalDayBounds(localDate, userTimezone);
 
       logger.info(
-        { userId, date: format(date, 'yyyy-MM-dd') },
+        { userId, date: localDate, timezone: userTimezone },
         'Calculating daily compliance'
       );
 
@@ -132,13 +156,15 @@ export class StreaksService {
           and(
             eq(dailyTasks.userId, userId),
             gte(dailyTasks.dueDate, dayStart),
-            lte(dailyTasks.dueDate, dayEnd)
+            lte(dailyTasks.dueDate, dayEnd),
+            // History backfilled from a health export never changes past compliance
+            isNull(dailyTasks.healthImportId)
           )
         );
 
       if (tasksForDay.length === 0) {
         logger.info(
-          { userId, date: format(date, 'yyyy-MM-dd') },
+          { userId, date: localDate },
           'No tasks found for day - treating as non-compliant'
         );
         complianceCheckCounter.add(1, { is_compliant: 'false' });
@@ -168,7 +194,7 @@ export class StreaksService {
       logger.info(
         {
           userId,
-          date: format(date, 'yyyy-MM-dd'),
+          date: localDate,
           totalTasks: tasksForDay.length,
           completedTasks: completedTasks.length,
           compliancePercentage: (compliancePercentage * 100).toFixed(2),
@@ -189,7 +215,7 @@ export class StreaksService {
       span.recordException(error as Error);
 
       logger.error(
-        { err: error, userId, date: format(date, 'yyyy-MM-dd'), errorMessage },
+        { err: error, userId, date: localDate, errorMessage },
         'Error calculating daily compliance'
       );
 
@@ -205,15 +231,21 @@ export class StreaksService {
    * Uses user's timezone to prevent streak breaks due to timezone differences
    *
    * @param userId - User ID
+   * @param localDate - Local day (YYYY-MM-DD) the compliance is for (defaults to the user's today)
    * @returns Updated streak data
+   *
+   * @remarks
+   * - Days are compared as calendar dates in the user's timezone
+   * - Days on or before the last counted day are ignored (idempotent for reruns and catch-up)
+   * - A gap of more than one calendar day resets the streak to 1
    */
-  async incrementStreak(userId: number): Promise<StreakData> {
+  async incrementStreak(userId: number, localDate?: string): Promise<StreakData> {
     const span = tracer.startSpan('streaks.increment_streak');
 
     try {
       span.setAttributes({ 'user.id': userId });
 
-      logger.info({ userId }, 'Incrementing user streak');
+      logger.info({ userId, localDate }, 'Incrementing user streak');
 
       // Use database transaction for atomicity
       const result = await db.transaction(async (tx) => {
@@ -226,18 +258,22 @@ export class StreaksService {
         if (!user?.timezone) {
           logger.warn({ userId }, 'User timezone not set, using UTC fallback');
         }
-        const userTimezone = user?.timezone || 'UTC';
+        const userTimezone = resolveTimezone(user?.timezone);
 
         // Get or create streak record (one row per user)
-        let [streakRecord] = await tx
+        const [streakRecord] = await tx
           .select()
           .from(dailyComplianceStreaks)
           .where(eq(dailyComplianceStreaks.userId, userId))
           .for('update'); // Lock row for update
 
+        // Resolve the compliance day on the user's local calendar
         const now = new Date();
-        // Convert current server time to user's local time
-        const userNow = toZonedTime(now, userTimezone);
+        const complianceDay = localDate ?? getLocalDateString(userTimezone, now);
+        // Past days (catch-up) are stamped at their local start so later days compare correctly
+        const complianceInstant = localDate
+          ? getLocalDayBounds(localDate, userTimezone).start
+          : now;
 
         if (!streakRecord) {
           // Create new streak record
@@ -248,13 +284,13 @@ export class StreaksService {
               currentStreak: 1,
               longestStreak: 1,
               totalCompliantDays: 1,
-              lastComplianceDate: now,
-              streakStartDate: now,
+              lastComplianceDate: complianceInstant,
+              streakStartDate: complianceInstant,
             })
             .returning();
 
           logger.info(
-            { userId, streak: 1, timezone: userTimezone },
+            { userId, streak: 1, timezone: userTimezone, complianceDay },
             'Created new streak record'
           );
 
@@ -268,34 +304,35 @@ export class StreaksService {
           };
         }
 
-        // Check if already completed today (in user's timezone)
-        if (streakRecord.lastComplianceDate) {
-          const userLastDate = toZonedTime(streakRecord.lastComplianceDate, userTimezone);
-          const userTodayStr = format(userNow, 'yyyy-MM-dd');
-          const userLastDateStr = format(userLastDate, 'yyyy-MM-dd');
-
-          if (userTodayStr === userLastDateStr) {
-            logger.info(
-              { userId, currentStreak: streakRecord.currentStreak, timezone: userTimezone },
-              'Streak already incremented today in user timezone'
-            );
-            return {
+        const lastDay = streakRecord.lastComplianceDate
+          ? getLocalDateString(userTimezone, streakRecord.lastComplianceDate)
+          : null;
+
+        // Check if this day (or a later one) was already counted (in user's timezone)
+        if (lastDay && lastDay >= complianceDay) {
+          logger.info(
+            {
               userId,
               currentStreak: streakRecord.currentStreak,
-              longestStreak: streakRecord.longestStreak,
-              totalCompliantDays: streakRecord.totalCompliantDays,
-              lastComplianceDate: streakRecord.lastComplianceDate,
-              streakStartDate: streakRecord.streakStartDate,
-            };
-          }
+              timezone: userTimezone,
+              complianceDay,
+              lastDay,
+            },
+            'Streak already incremented for this day in user timezone'
+          );
+          return {
+            userId,
+            currentStreak: streakRecord.currentStreak,
+            longestStreak: streakRecord.longestStreak,
+            totalCompliantDays: streakRecord.totalCompliantDays,
+            lastComplianceDate: streakRecord.lastComplianceDate,
+            streakStartDate: streakRecord.streakStartDate,
+          };
         }
 
-        // Check if a day was missed (gap > 1 day in user's timezone)
-        const daysSinceLastCompletion = streakRecord.lastComplianceDate
-          ? differenceInDays(
-              toZonedTime(now, userTimezone),
-              toZonedTime(streakRecord.lastComplianceDate, userTimezone)
-            )
+        // Check if a day was missed (gap > 1 calendar day in user's timezone)
+        const daysSinceLastCompletion = lastDay
+          ? differenceInCalendarDays(parseISO(complianceDay), parseISO(lastDay))
           : 999; // Large number if never completed
 
         let newCurrentStreak: number;
@@ -304,7 +341,7 @@ export class StreaksService {
         if (daysSinceLastCompletion > 1) {
           // Streak was broken - reset to 1
           newCurrentStreak = 1;
-          newStreakStartDate = now;
+          newStreakStartDate = complianceInstant;
           logger.warn(
             {
               userId,
@@ -317,7 +354,7 @@ export class StreaksService {
         } else {
           // Continue streak
           newCurrentStreak = streakRecord.currentStreak + 1;
-          newStreakStartDate = streakRecord.streakStartDate || now;
+          newStreakStartDate = streakRecord.streakStartDate || complianceInstant;
           logger.info(
             { userId, newStreak: newCurrentStreak, timezone: userTimezone },
             'Streak incremented'
@@ -331,7 +368,7 @@ export class StreaksService {
             currentStreak: newCurrentStreak,
             longestStreak: Math.max(newCurrentStreak, streakRecord.longestStreak),
             totalCompliantDays: streakRecord.totalCompliantDays + 1,
-            lastComplianceDate: now,
+            lastComplianceDate: complianceInstant,
             streakStartDate: newStreakStartDate,
             updatedAt: new Date(),
           })
@@ -493,6 +530,58 @@ export class StreaksService {
     }
   }
 
+  /**
+   * Award badges for a personal record event
+   * Raised by strength analytics when workout evidence beats an earlier best
+   *
+   * @param event - Records set by one piece of workout evidence
+   * @returns Array of newly awarded badges
+   */
+  async awardPersonalRecordBadges(event: PersonalRecordEvent): Promise<SelectUserBadge[]> {
+    const span = tracer.startSpan('streaks.award_personal_record_badges');
+
+    try {
+      span.setAttributes({
+        'user.id': event.userId,
+        'evidence.id': event.evidenceId,
+        'records.count': event.records.length,
+      });
+
+      if (event.records.length === 0) {
+        span.setStatus({ code: SpanStatusCode.OK });
+        return [];
+      }
+
+      const awardedBadges = await db.transaction(async (tx) => {
+        const badge = await this.awardBadgeIfNotExistsInTx(tx, event.userId, 'record_breaker');
+        return badge ? [badge] : [];
+      });
+
+      if (awardedBadges.length > 0) {
+        await redisCache.invalidate(`badges:${event.userId}`);
+      }
+
+      span.setAttributes({ 'badges.awarded_count': awardedBadges.length });
+      span.setStatus({ code: SpanStatusCode.OK });
+      return awardedBadges;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: errorMessage,
+      });
+      span.recordException(error as Error);
+
+      logger.error(
+        { err: error, userId: event.userId, errorMessage },
+        'Error awarding personal record badges'
+      );
+      throw new AppError(500, 'Failed to award personal record badges. Please try again.');
+    } finally {
+      span.end();
+    }
+  }
+
   /**
    * Award a badge to a user if they don't already have it (within transaction)
    * Idempotent - uses unique constraint to prevent duplicates
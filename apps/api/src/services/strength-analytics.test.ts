@@ -0,0 +1,156 @@
+import {
+  buildStrengthProgress,
+  detectPersonalRecords,
+  estimateOneRepMax,
+  toLoggedLift,
+  type LoggedLift,
+  type StrengthLogEntry,
+} from './strength-analytics';
+import type { PersonalRecord } from '@gtsd/shared-types';
+
+describe('Strength analytics', () => {
+  const bench: LoggedLift = {
+    exerciseKey: 'bench_press',
+    exerciseName: 'Barbell Bench Press',
+    sets: 3,
+    reps: 8,
+    weight: 60,
+  };
+
+  describe('estimateOneRepMax', () => {
+    it('should use the Epley formula', () => {
+      expect(estimateOneRepMax(60, 8)).toBe(76);
+      expect(estimateOneRepMax(100, 1)).toBe(100);
+    });
+
+    it('should not estimate from high-rep sets', () => {
+      expect(estimateOneRepMax(40, 15)).toBeNull();
+    });
+  });
+
+  describe('toLoggedLift', () => {
+    it('should prefer logged values over the prescription', () => {
+      expect(
+        toLoggedLift(
+          {
+            exerciseKey: 'bench_press',
+            exerciseName: 'Barbell Bench Press',
+            sets: 3,
+            reps: 8,
+            weight: 60,
+          },
+          { actualReps: 9, actualWeight: 62.5 }
+        )
+      ).toEqual({ ...bench, reps: 9, weight: 62.5 });
+    });
+
+    it('should key exercises without an exercise key by name', () => {
+      expect(
+        toLoggedLift({ exerciseName: 'Goblet Squat', sets: 3, reps: 10 }, { actualWeight: 20 })
+      ).toMatchObject({ exerciseKey: 'goblet_squat', weight: 20 });
+    });
+
+    it('should skip lifts without a weight', () => {
+      expect(
+        toLoggedLift(
+          {
+            exerciseKey: 'hanging_knee_raise',
+            exerciseName: 'Hanging Knee Raise',
+            sets: 3,
+            reps: 10,
+          },
+          {}
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('detectPersonalRecords', () => {
+    it('should store every record type as a baseline on the first session', () => {
+      expect(detectPersonalRecords(bench, {})).toEqual([
+        { recordType: 'weight', value: 60, previousValue: null },
+        { recordType: 'estimated_1rm', value: 76, previousValue: null },
+        { recordType: 'volume', value: 1440, previousValue: null },
+      ]);
+    });
+
+    it('should only report records that beat the earlier best', () => {
+      // More reps at the same weight: better 1RM and volume, same top weight
+      expect(
+        detectPersonalRecords(
+          { ...bench, reps: 10 },
+          { weight: 60, estimated_1rm: 76, volume: 1440 }
+        )
+      ).toEqual([
+        { recordType: 'estimated_1rm', value: 80, previousValue: 76 },
+        { recordType: 'volume', value: 1800, previousValue: 1440 },
+      ]);
+      expect(detectPersonalRecords(bench, { weight: 60, estimated_1rm: 76, volume: 1440 })).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('buildStrengthProgress', () => {
+    const entry = (
+      evidenceId: number,
+      date: string,
+      lift: Partial<LoggedLift> = {}
+    ): StrengthLogEntry => ({
+      ...bench,
+      ...lift,
+      evidenceId,
+      date,
+      recordedAt: new Date(`${date}T12:00:00Z`),
+    });
+    const record = (
+      evidenceId: number,
+      recordType: PersonalRecord['recordType'],
+      value: number,
+      previousValue: number | null
+    ): PersonalRecord => ({
+      exerciseKey: 'bench_press',
+      exerciseName: 'Barbell Bench Press',
+      recordType,
+      value,
+      previousValue,
+      sets: 3,
+      reps: 8,
+      weight: value,
+      evidenceId,
+      achievedAt: new Date('2025-01-06T12:00:00Z'),
+    });
+
+    it('should list sessions with the records they beat and all-time bests', () => {
+      const progress = buildStrengthProgress(
+        [entry(2, '2025-01-09', { weight: 62.5 }), entry(1, '2025-01-06')],
+        [record(1, 'weight', 60, null), record(2, 'weight', 62.5, 60)],
+        '2025-01-06',
+        '2025-01-19'
+      );
+
+      expect(progress.exercises).toHaveLength(1);
+      expect(progress.exercises[0].bests.weight?.value).toBe(62.5);
+      expect(progress.exercises[0].bests.volume).toBeNull();
+      expect(progress.exercises[0].sessions.map((s) => [s.date, s.personalRecords])).toEqual([
+        ['2025-01-06', []],
+        ['2025-01-09', ['weight']],
+      ]);
+      expect(progress.recentRecords.map((r) => r.evidenceId)).toEqual([2]);
+    });
+
+    it('should total training volume for every week of the range', () => {
+      const progress = buildStrengthProgress(
+        [entry(1, '2025-01-06'), entry(2, '2025-01-09')],
+        [],
+        '2025-01-06',
+        '2025-01-19'
+      );
+
+      expect(progress.weeklyVolume).toEqual([
+        { weekStart: '2025-01-06', sessions: 2, sets: 6, volume: 2880 },
+        { weekStart: '2025-01-13', sessions: 0, sets: 0, volume: 0 },
+      ]);
+    });
+  });
+});
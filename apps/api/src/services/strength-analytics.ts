@@ -0,0 +1,549 @@
+import { db } from '../db/connection';
+import {
+  dailyTasks,
+  evidence,
+  personalRecords,
+  SelectDailyTask,
+  SelectEvidence,
+  SelectPersonalRecord,
+} from '../db/schema';
+import { and, eq, gte, lte, sql } from 'drizzle-orm';
+import { differenceInCalendarDays, endOfWeek, format, parseISO, startOfWeek } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  ExerciseStrengthHistory,
+  PersonalRecord,
+  PersonalRecordEvent,
+  PersonalRecordType,
+  StrengthProgressResponse,
+  WeeklyTrainingVolume,
+} from '@gtsd/shared-types';
+import { PERSONAL_RECORD_TYPES, STRENGTH_ANALYTICS_SETTINGS } from '@gtsd/shared-types';
+import { AppError } from '../middleware/error';
+import {
+  addLocalDays,
+  getLocalDateString,
+  getLocalDayBounds,
+  getUserTimezone,
+} from '../utils/timezone';
+import { StreaksService } from './streaks';
+
+const tracer = trace.getTracer('strength-analytics-service');
+
+const streaksService = new StreaksService();
+
+/**
+ * Optional range for strength progress
+ */
+export interface StrengthProgressQuery {
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+}
+
+/**
+ * Sets, reps and weight of one logged workout
+ */
+export interface LoggedLift {
+  exerciseKey: string;
+  exerciseName: string;
+  sets: number;
+  reps: number;
+  weight: number; // kg
+}
+
+/**
+ * A logged lift placed on the user's local calendar
+ */
+export interface StrengthLogEntry extends LoggedLift {
+  evidenceId: number;
+  recordedAt: Date;
+  date: string; // YYYY-MM-DD, local
+}
+
+/**
+ * Best value so far of each record type for one exercise
+ */
+export type PersonalRecordBests = Partial<Record<PersonalRecordType, number>>;
+
+/**
+ * Record found in a logged lift, before it is stored
+ */
+export interface DetectedRecord {
+  recordType: PersonalRecordType;
+  value: number;
+  previousValue: number | null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Read a positive logged number; metrics evidence may carry numbers as strings
+ */
+function positiveNumber(value: unknown): number | undefined {
+  const parsed = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(parsed) && parsed > 0
+    ? parsed
+    : undefined;
+}
+
+/**
+ * Stable exercise key for workout tasks created before exercise keys existed (e.g. custom tasks)
+ */
+function exerciseKeyFromName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Estimate a one-rep max from a set (Epley formula)
+ *
+ * @returns kg, or null above STRENGTH_ANALYTICS_SETTINGS.maxEstimateReps reps
+ */
+export function estimateOneRepMax(weight: number, reps: number): number | null {
+  if (reps > STRENGTH_ANALYTICS_SETTINGS.maxEstimateReps) {
+    return null;
+  }
+
+  return round2(reps === 1 ? weight : weight * (1 + reps / 30));
+}
+
+/**
+ * Value of each record type for a lift
+ */
+export function liftRecordValues(lift: LoggedLift): {
+  weight: number;
+  estimated_1rm: number | null;
+  volume: number;
+} {
+  return {
+    weight: lift.weight,
+    estimated_1rm: estimateOneRepMax(lift.weight, lift.reps),
+    volume: round2(lift.weight * lift.reps * lift.sets),
+  };
+}
+
+/**
+ * The lift a workout task's evidence logged
+ *
+ * @param metadata - Workout task metadata (exercise, prescribed sets/reps/weight)
+ * @param metrics - Evidence metrics; logged values win over the prescription
+ * @returns The lift, or null when the exercise or a positive weight, sets and reps are missing
+ *   (e.g. bodyweight exercises)
+ */
+export function toLoggedLift(
+  metadata: SelectDailyTask['metadata'],
+  metrics: SelectEvidence['metrics']
+): LoggedLift | null {
+  const exerciseName = metadata?.exerciseName?.trim();
+  const exerciseKey = metadata?.exerciseKey ?? (exerciseName && exerciseKeyFromName(exerciseName));
+  const sets = positiveNumber(metrics?.actualSets) ?? positiveNumber(metadata?.sets);
+  const reps = positiveNumber(metrics?.actualReps) ?? positiveNumber(metadata?.reps);
+  const weight = positiveNumber(metrics?.actualWeight) ?? positiveNumber(metadata?.weight);
+
+  if (!exerciseKey || !exerciseName || !sets || !reps || !weight) {
+    return null;
+  }
+
+  return {
+    exerciseKey,
+    exerciseName,
+    sets: Math.round(sets),
+    reps: Math.round(reps),
+    weight: round2(weight),
+  };
+}
+
+/**
+ * Find the records a lift sets against the exercise's earlier bests
+ *
+ * @returns One entry per record type that is new (previousValue null, the first session of the
+ *   exercise) or beats the earlier best; ties are not records
+ */
+export function detectPersonalRecords(
+  lift: LoggedLift,
+  bests: PersonalRecordBests
+): DetectedRecord[] {
+  const values = liftRecordValues(lift);
+
+  return PERSONAL_RECORD_TYPES.flatMap((recordType) => {
+    const value = values[recordType];
+    const previousValue = bests[recordType];
+
+    if (value === null || (previousValue !== undefined && value <= previousValue)) {
+      return [];
+    }
+
+    return [{ recordType, value, previousValue: previousValue ?? null }];
+  });
+}
+
+function toPersonalRecord(row: SelectPersonalRecord): PersonalRecord {
+  return {
+    exerciseKey: row.exerciseKey,
+    exerciseName: row.exerciseName,
+    recordType: row.recordType,
+    value: parseFloat(row.value),
+    previousValue: row.previousValue !== null ? parseFloat(row.previousValue) : null,
+    sets: row.sets,
+    reps: row.reps,
+    weight: parseFloat(row.weight),
+    evidenceId: row.evidenceId,
+    achievedAt: row.achievedAt,
+  };
+}
+
+/**
+ * Build strength progress for a range
+ * Pure function - does not touch the database
+ *
+ * @param entries - Lifts logged in the range (any order)
+ * @param records - All of the user's stored records (any order)
+ * @param from - First local date of the range (YYYY-MM-DD)
+ * @param to - Last local date of the range (YYYY-MM-DD)
+ *
+ * @remarks
+ * - Bests are all-time, including first-session baselines
+ * - Recent records are the ones set by evidence in the range that beat an earlier best
+ * - Exercises with a record but no session in the range are listed with no sessions
+ */
+export function buildStrengthProgress(
+  entries: StrengthLogEntry[],
+  records: PersonalRecord[],
+  from: string,
+  to: string
+): StrengthProgressResponse {
+  const sorted = [...entries].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const evidenceIds = new Set(sorted.map((entry) => entry.evidenceId));
+  const beaten = records.filter((record) => record.previousValue !== null);
+
+  const names = new Map<string, string>();
+  for (const item of [...records, ...sorted]) {
+    names.set(item.exerciseKey, item.exerciseName);
+  }
+
+  const exercises: ExerciseStrengthHistory[] = Array.from(names.entries())
+    .map(([exerciseKey, exerciseName]) => {
+      const bests = Object.fromEntries(
+        PERSONAL_RECORD_TYPES.map((recordType) => [
+          recordType,
+          records
+            .filter((r) => r.exerciseKey === exerciseKey && r.recordType === recordType)
+            .reduce<PersonalRecord | null>(
+              (best, r) => (best === null || r.value > best.value ? r : best),
+              null
+            ),
+        ])
+      ) as Record<PersonalRecordType, PersonalRecord | null>;
+
+      const sessions = sorted
+        .filter((entry) => entry.exerciseKey === exerciseKey)
+        .map((entry) => {
+          const values = liftRecordValues(entry);
+          return {
+            date: entry.date,
+            recordedAt: entry.recordedAt,
+            sets: entry.sets,
+            reps: entry.reps,
+            weight: entry.weight,
+            estimatedOneRepMax: values.estimated_1rm,
+            volume: values.volume,
+            personalRecords: beaten
+              .filter((r) => r.evidenceId === entry.evidenceId && r.exerciseKey === exerciseKey)
+              .map((r) => r.recordType),
+          };
+        });
+
+      return { exerciseKey, exerciseName, bests, sessions };
+    })
+    .sort((a, b) => a.exerciseName.localeCompare(b.exerciseName));
+
+  const weeklyVolume: WeeklyTrainingVolume[] = [];
+  let weekStart = format(startOfWeek(parseISO(from), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  while (weekStart <= to) {
+    const weekEnd = format(endOfWeek(parseISO(weekStart), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const inWeek = sorted.filter((entry) => entry.date >= weekStart && entry.date <= weekEnd);
+
+    weeklyVolume.push({
+      weekStart,
+      sessions: new Set(inWeek.map((entry) => entry.evidenceId)).size,
+      sets: inWeek.reduce((sum, entry) => sum + entry.sets, 0),
+      volume: round2(inWeek.reduce((sum, entry) => sum + liftRecordValues(entry).volume, 0)),
+    });
+    weekStart = addLocalDays(weekStart, 7);
+  }
+
+  const recentRecords = beaten
+    .filter((record) => evidenceIds.has(record.evidenceId))
+    .sort((a, b) => new Date(b.achievedAt).getTime() - new Date(a.achievedAt).getTime());
+
+  return { from, to, exercises, weeklyVolume, recentRecords };
+}
+
+/**
+ * Strength analytics service
+ * Detects personal records from workout evidence and builds strength history
+ */
+export class StrengthAnalyticsService {
+  /**
+   * Detect and store the personal records set by new workout evidence
+   *
+   * @param userId - User ID
+   * @param task - Workout task the evidence was logged on
+   * @param evidenceRow - The new evidence
+   * @returns The personal record event (records that beat an earlier best), or null when the
+   *   evidence is not a weighted lift
+   *
+   * @remarks
+   * - The first session of an exercise is stored as its baseline (previousValue null) but is
+   *   not a record to celebrate
+   * - metrics.personalRecord on the evidence is set from the detection, whatever the client sent
+   * - The event is passed to the badge system; a failed badge award does not undo the records
+   * - Records are removed with their evidence (e.g. when the task completion is undone)
+   */
+  async recordWorkout(
+    userId: number,
+    task: Pick<SelectDailyTask, 'taskType' | 'metadata'>,
+    evidenceRow: Pick<SelectEvidence, 'id' | 'metrics' | 'recordedAt'>
+  ): Promise<PersonalRecordEvent | null> {
+    const span = tracer.startSpan('strength_analytics.record_workout');
+
+    try {
+      span.setAttributes({ 'user.id': userId, 'evidence.id': evidenceRow.id });
+
+      const lift =
+        task.taskType === 'workout' ? toLoggedLift(task.metadata, evidenceRow.metrics) : null;
+      if (!lift) {
+        span.setAttributes({ 'strength.weighted_lift': false });
+        span.setStatus({ code: SpanStatusCode.OK });
+        return null;
+      }
+
+      const stored = await db.transaction(async (tx) => {
+        const bestRows = await tx
+          .select({
+            recordType: personalRecords.recordType,
+            best: sql<string>`max(${personalRecords.value})`,
+          })
+          .from(personalRecords)
+          .where(
+            and(
+              eq(personalRecords.userId, userId),
+              eq(personalRecords.exerciseKey, lift.exerciseKey)
+            )
+          )
+          .groupBy(personalRecords.recordType);
+
+        const bests: PersonalRecordBests = Object.fromEntries(
+          bestRows.map((row) => [row.recordType, parseFloat(row.best)])
+        );
+        const detected = detectPersonalRecords(lift, bests);
+
+        const rows =
+          detected.length > 0
+            ? await tx
+                .insert(personalRecords)
+                .values(
+                  detected.map((record) => ({
+                    userId,
+                    evidenceId: evidenceRow.id,
+                    exerciseKey: lift.exerciseKey,
+                    exerciseName: lift.exerciseName,
+                    recordType: record.recordType,
+                    value: record.value.toString(),
+                    previousValue: record.previousValue?.toString() ?? null,
+                    sets: lift.sets,
+                    reps: lift.reps,
+                    weight: lift.weight.toString(),
+                    achievedAt: evidenceRow.recordedAt,
+                  }))
+                )
+                .returning()
+            : [];
+
+        await tx
+          .update(evidence)
+          .set({
+            metrics: {
+              ...evidenceRow.metrics,
+              personalRecord: rows.some((row) => row.previousValue !== null),
+            },
+            updatedAt: new Date(),
+          })
+          .where(eq(evidence.id, evidenceRow.id));
+
+        return rows.map(toPersonalRecord);
+      });
+
+      const event: PersonalRecordEvent = {
+        userId,
+        evidenceId: evidenceRow.id,
+        records: stored.filter((record) => record.previousValue !== null),
+      };
+
+      span.setAttributes({
+        'strength.weighted_lift': true,
+        'strength.exercise_key': lift.exerciseKey,
+        'strength.records': event.records.length,
+        'strength.baselines': stored.length - event.records.length,
+      });
+
+      if (event.records.length > 0) {
+        logger.info(
+          {
+            userId,
+            evidenceId: evidenceRow.id,
+            exerciseKey: lift.exerciseKey,
+            records: event.records.map((r) => r.recordType),
+          },
+          'Personal records set'
+        );
+
+        try {
+          await streaksService.awardPersonalRecordBadges(event);
+        } catch (error) {
+          logger.error(
+            { err: error, userId, evidenceId: evidenceRow.id },
+            'Failed to award personal record badges'
+          );
+        }
+      }
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return event;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Get per-exercise strength history, personal records and weekly training volume
+   *
+   * @param userId - User ID
+   * @param query - Optional range (defaults to the last STRENGTH_ANALYTICS_SETTINGS.defaultRangeDays)
+   * @param now - Reference time (defaults to now)
+   * @returns Strength progress for the range
+   * @throws {AppError} 400 if the range is reversed or longer than
+   *   STRENGTH_ANALYTICS_SETTINGS.maxRangeDays
+   *
+   * @remarks
+   * Sessions come from metrics evidence on workout tasks with a weighted lift; bests come from
+   * the personal_records table and are all-time
+   */
+  async getStrengthProgress(
+    userId: number,
+    query: StrengthProgressQuery = {},
+    now: Date = new Date()
+  ): Promise<StrengthProgressResponse> {
+    const span = tracer.startSpan('strength_analytics.get_strength_progress');
+
+    try {
+      span.setAttributes({ 'user.id': userId });
+
+      const timezone = await getUserTimezone(userId);
+      const to = query.to ?? getLocalDateString(timezone, now);
+      const from =
+        query.from ?? addLocalDays(to, -(STRENGTH_ANALYTICS_SETTINGS.defaultRangeDays - 1));
+      const rangeDays = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+
+      if (Number.isNaN(rangeDays)) {
+        throw new AppError(400, 'from and to must be valid dates');
+      }
+      if (rangeDays < 1) {
+        throw new AppError(400, 'from must be on or before to');
+      }
+      if (rangeDays > STRENGTH_ANALYTICS_SETTINGS.maxRangeDays) {
+        throw new AppError(
+          400,
+          `Date range cannot exceed ${STRENGTH_ANALYTICS_SETTINGS.maxRangeDays} days`
+        );
+      }
+
+      span.setAttributes({ 'strength.from': from, 'strength.to': to });
+
+      const [workoutRows, recordRows] = await Promise.all([
+        db
+          .select({
+            evidenceId: evidence.id,
+            recordedAt: evidence.recordedAt,
+            metrics: evidence.metrics,
+            metadata: dailyTasks.metadata,
+          })
+          .from(evidence)
+          .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+          .where(
+            and(
+              eq(evidence.userId, userId),
+              eq(evidence.evidenceType, 'metrics'),
+              eq(dailyTasks.taskType, 'workout'),
+              gte(evidence.recordedAt, getLocalDayBounds(from, timezone).start),
+              lte(evidence.recordedAt, getLocalDayBounds(to, timezone).end)
+            )
+          ),
+        db.select().from(personalRecords).where(eq(personalRecords.userId, userId)),
+      ]);
+
+      const entries: StrengthLogEntry[] = workoutRows.flatMap((row) => {
+        const lift = toLoggedLift(row.metadata, row.metrics);
+        return lift
+          ? [
+              {
+                ...lift,
+                evidenceId: row.evidenceId,
+                recordedAt: row.recordedAt,
+                date: getLocalDateString(timezone, row.recordedAt),
+              },
+            ]
+          : [];
+      });
+
+      const progress = buildStrengthProgress(entries, recordRows.map(toPersonalRecord), from, to);
+
+      span.setAttributes({
+        'strength.sessions': entries.length,
+        'strength.exercises': progress.exercises.length,
+        'strength.recent_records': progress.recentRecords.length,
+      });
+
+      logger.debug(
+        {
+          userId,
+          from,
+          to,
+          sessions: entries.length,
+          recentRecords: progress.recentRecords.length,
+        },
+        'Strength progress computed'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return progress;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const strengthAnalyticsService = new StrengthAnalyticsService();
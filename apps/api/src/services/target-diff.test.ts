@@ -0,0 +1,26 @@
+import { diffTargets } from './target-diff';
+
+describe('diffTargets', () => {
+  const current = { calorieTarget: 2000, proteinTarget: 176, waterTarget: 2800, weeklyRate: -0.5 };
+
+  it('should list changed fields with their delta', () => {
+    const { changes, explanation } = diffTargets(current, {
+      ...current,
+      calorieTarget: 2250,
+      weeklyRate: -0.25,
+    });
+
+    expect(changes).toEqual([
+      { field: 'calorieTarget', from: 2000, to: 2250, delta: 250 },
+      { field: 'weeklyRate', from: -0.5, to: -0.25, delta: 0.25 },
+    ]);
+    expect(explanation).toEqual([
+      'Calories went up by 250 kcal (2000 → 2250)',
+      'Weekly rate went up by 0.25 kg/week (-0.5 → -0.25)',
+    ]);
+  });
+
+  it('should return nothing when no field changed', () => {
+    expect(diffTargets(current, { ...current })).toEqual({ changes: [], explanation: [] });
+  });
+});
@@ -0,0 +1,48 @@
+import type { PlanDiffField, PlanTargetChange } from '@gtsd/shared-types';
+
+/**
+ * Target fields compared between plans, with display label and unit
+ */
+export const PLAN_DIFF_FIELDS: Array<{ field: PlanDiffField; label: string; unit: string }> = [
+  { field: 'calorieTarget', label: 'Calories', unit: ' kcal' },
+  { field: 'proteinTarget', label: 'Protein', unit: 'g' },
+  { field: 'waterTarget', label: 'Water', unit: 'ml' },
+  { field: 'weeklyRate', label: 'Weekly rate', unit: ' kg/week' },
+];
+
+/**
+ * Compare diffable targets field by field
+ *
+ * @param from - Baseline targets (null = not recorded)
+ * @param to - Targets compared against the baseline
+ * @returns Changed fields and one sentence per change; unchanged fields are skipped
+ */
+export function diffTargets(
+  from: Record<PlanDiffField, number | null>,
+  to: Record<PlanDiffField, number | null>
+): { changes: PlanTargetChange[]; explanation: string[] } {
+  const changes: PlanTargetChange[] = [];
+  const explanation: string[] = [];
+
+  for (const { field, label, unit } of PLAN_DIFF_FIELDS) {
+    const before = from[field];
+    const after = to[field];
+
+    if (before === after) {
+      continue;
+    }
+
+    const delta =
+      before !== null && after !== null ? Math.round((after - before) * 100) / 100 : null;
+    changes.push({ field, from: before, to: after, delta });
+
+    if (delta === null) {
+      explanation.push(`${label} target was not recorded on one of these plans`);
+    } else {
+      const direction = delta > 0 ? 'went up' : 'went down';
+      explanation.push(`${label} ${direction} by ${Math.abs(delta)}${unit} (${before} → ${after})`);
+    }
+  }
+
+  return { changes, explanation };
+}
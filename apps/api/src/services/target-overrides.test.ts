@@ -0,0 +1,139 @@
+import {
+  applyTargetOverrides,
+  isOverrideActive,
+  overrideAuditField,
+  parseOverrideAuditField,
+} from './target-overrides';
+import { scienceService } from './science';
+import type { ScienceInputs, TargetOverride } from '@gtsd/shared-types';
+
+describe('TargetOverrideService', () => {
+  const now = new Date('2025-01-06T12:00:00Z');
+
+  const inputs: ScienceInputs = {
+    weight: 80,
+    height: 180,
+    age: 35,
+    gender: 'male',
+    activityLevel: 'moderately_active',
+    primaryGoal: 'lose_weight',
+    targetWeight: 75,
+  };
+
+  // bmr 1755, tdee 2720, 2220 kcal, 176 g protein, 2800 ml water, -0.5 kg/week, 10 weeks
+  const targets = scienceService.computeTargetsFromInputs(inputs, []);
+
+  const pin = (override: Partial<TargetOverride>): TargetOverride => ({
+    field: 'calorieTarget',
+    value: 2400,
+    reason: null,
+    setBy: 'user',
+    setByUserId: 1,
+    expiresAt: null,
+    createdAt: new Date('2025-01-01T12:00:00Z'),
+    ...override,
+  });
+
+  describe('isOverrideActive', () => {
+    it('should keep pins without an expiry and drop expired ones', () => {
+      expect(isOverrideActive(pin({}), now)).toBe(true);
+      expect(isOverrideActive(pin({ expiresAt: new Date('2025-01-07T00:00:00Z') }), now)).toBe(
+        true
+      );
+      expect(isOverrideActive(pin({ expiresAt: now }), now)).toBe(false);
+    });
+  });
+
+  describe('override audit fields', () => {
+    it('should round-trip the target through the audit field name', () => {
+      expect(overrideAuditField('calorieTarget')).toBe('calorieTargetOverride');
+      expect(parseOverrideAuditField('waterTargetOverride')).toBe('waterTarget');
+    });
+
+    it('should ignore other audit fields', () => {
+      expect(parseOverrideAuditField('currentWeight')).toBeNull();
+      expect(parseOverrideAuditField('bmrOverride')).toBeNull();
+    });
+  });
+
+  describe('applyTargetOverrides', () => {
+    it('should return the computed targets when nothing is pinned', () => {
+      expect(applyTargetOverrides(targets, [], inputs, now)).toBe(targets);
+      expect(
+        applyTargetOverrides(
+          targets,
+          [pin({ expiresAt: new Date('2025-01-05T00:00:00Z') })],
+          inputs,
+          now
+        )
+      ).toBe(targets);
+    });
+
+    it('should pin calories and follow them with the weekly rate, projection and macros', () => {
+      const result = applyTargetOverrides(targets, [pin({})], inputs, now);
+      const macros = scienceService.calculateMacroTargets(2400, 176, 0, 'balanced');
+
+      expect(result).toMatchObject({
+        bmr: targets.bmr,
+        tdee: targets.tdee,
+        calorieTarget: 2400,
+        proteinTarget: 176,
+        carbsTarget: macros.carbsTarget,
+        fatTarget: macros.fatTarget,
+        fiberTarget: macros.fiberTarget,
+        // 320 kcal deficit × 7 / 7700 kcal per kg
+        weeklyRate: -0.29,
+        estimatedWeeks: 18,
+        warnings: [],
+      });
+      expect(result.overrides).toEqual([{ ...pin({}), formulaValue: 2220, capped: false }]);
+    });
+
+    it('should pin protein and water without touching calories or the timeline', () => {
+      const result = applyTargetOverrides(
+        targets,
+        [
+          pin({ field: 'proteinTarget', value: 200, setBy: 'coach', setByUserId: 42 }),
+          pin({ field: 'waterTarget', value: 3000 }),
+        ],
+        inputs,
+        now
+      );
+
+      expect(result).toMatchObject({
+        calorieTarget: 2220,
+        proteinTarget: 200,
+        waterTarget: 3000,
+        carbsTarget: scienceService.calculateMacroTargets(2220, 200, 0, 'balanced').carbsTarget,
+        weeklyRate: -0.5,
+        estimatedWeeks: 10,
+      });
+      expect(result.overrides?.map((o) => [o.field, o.value, o.formulaValue])).toEqual([
+        ['proteinTarget', 200, 176],
+        ['waterTarget', 3000, 2800],
+      ]);
+    });
+
+    it('should cap a calorie pin that is no longer safe', () => {
+      const result = applyTargetOverrides(targets, [pin({ value: 1300 })], inputs, now);
+
+      // 0.8 kg/week (1% of 80 kg) allows at most an 880 kcal deficit
+      expect(result.calorieTarget).toBe(1840);
+      expect(result.weeklyRate).toBe(-0.8);
+      expect(result.warnings?.map((w) => w.code)).toEqual(['weekly_loss_limit']);
+      expect(result.overrides?.[0]).toMatchObject({
+        value: 1300,
+        formulaValue: 2220,
+        capped: true,
+      });
+    });
+
+    it('should drop the projection when pinned calories move away from the target weight', () => {
+      const result = applyTargetOverrides(targets, [pin({ value: 2900 })], inputs, now);
+
+      expect(result.weeklyRate).toBe(0.16);
+      expect(result.estimatedWeeks).toBeUndefined();
+      expect(result.projectedDate).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,445 @@
+import { db } from '../db/connection';
+import {
+  partners,
+  targetOverrides,
+  users,
+  userSettings,
+  SelectTargetOverride,
+  SelectUserSettings,
+} from '../db/schema';
+import { and, eq, gt, isNull, lte, or, sql } from 'drizzle-orm';
+import { differenceInYears } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  AppliedTargetOverride,
+  ComputedTargets,
+  GenderValue,
+  OverridableTarget,
+  ScienceInputs,
+  TargetOverride,
+  TargetOverrideSource,
+} from '@gtsd/shared-types';
+import { GENDERS, OVERRIDABLE_TARGETS } from '@gtsd/shared-types';
+import { AppError } from '../middleware/error';
+import { scienceService } from './science';
+import { evaluateSafetyGuardrails, weeklyRateForCalories } from './safety-guardrails';
+
+const tracer = trace.getTracer('target-override-service');
+
+/**
+ * Value to pin a target to
+ */
+export interface TargetOverrideInput {
+  value: number;
+  reason?: string;
+  expiresAt?: string; // ISO 8601
+}
+
+/**
+ * Result of pinning or removing a target
+ */
+export interface TargetOverrideChange {
+  setBy: TargetOverrideSource;
+  previousValue: number | null;
+  newValue: number | null;
+}
+
+/**
+ * Suffix that marks target overrides in the profile change audit
+ */
+const OVERRIDE_AUDIT_SUFFIX = 'Override';
+
+/**
+ * Profile change audit field name for an override (e.g. 'calorieTargetOverride')
+ */
+export function overrideAuditField(field: OverridableTarget): string {
+  return `${field}${OVERRIDE_AUDIT_SUFFIX}`;
+}
+
+/**
+ * Target an override audit field refers to, or null for any other audit field
+ */
+export function parseOverrideAuditField(fieldName: string): OverridableTarget | null {
+  if (!fieldName.endsWith(OVERRIDE_AUDIT_SUFFIX)) {
+    return null;
+  }
+
+  const field = fieldName.slice(0, -OVERRIDE_AUDIT_SUFFIX.length);
+  return (OVERRIDABLE_TARGETS as readonly string[]).includes(field)
+    ? (field as OverridableTarget)
+    : null;
+}
+
+/**
+ * Whether an override still applies
+ */
+export function isOverrideActive(override: TargetOverride, now: Date = new Date()): boolean {
+  return override.expiresAt === null || override.expiresAt > now;
+}
+
+/**
+ * Map a target_overrides row to its API representation
+ */
+export function toTargetOverride(row: SelectTargetOverride): TargetOverride {
+  return {
+    field: row.field as OverridableTarget,
+    value: row.value,
+    reason: row.reason,
+    setBy: row.setBy as TargetOverrideSource,
+    setByUserId: row.setByUserId,
+    expiresAt: row.expiresAt,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * Replace computed targets with the values pinned by hand
+ *
+ * @param targets - Computed targets (formula or adaptive TDEE, after guardrails)
+ * @param overrides - The user's overrides; expired ones are ignored
+ * @param inputs - Science inputs the targets were built from
+ * @param now - Reference time for expiry and the target date check (defaults to now)
+ * @returns Targets with pinned values and `overrides` listing each one next to its formula value
+ *
+ * @remarks
+ * - A calorie pin goes through the safety guardrails again, so a pin that has become unsafe
+ *   since it was set is capped like a formula target; the weekly rate, warnings and projection
+ *   follow the pinned calories
+ * - Carbs, fat and fiber are re-split around pinned calories or protein
+ * - BMR and TDEE are never pinned
+ */
+export function applyTargetOverrides(
+  targets: ComputedTargets,
+  overrides: readonly TargetOverride[],
+  inputs: ScienceInputs,
+  now: Date = new Date()
+): ComputedTargets {
+  const active = overrides.filter((override) => isOverrideActive(override, now));
+  if (active.length === 0) {
+    return targets;
+  }
+
+  const result: ComputedTargets = { ...targets };
+  const applied: AppliedTargetOverride[] = [];
+
+  for (const override of active) {
+    let capped = false;
+
+    if (override.field === 'calorieTarget') {
+      const guardrails = evaluateSafetyGuardrails(
+        {
+          bmr: targets.bmr,
+          tdee: targets.tdee,
+          calorieTarget: override.value,
+          weeklyRate: weeklyRateForCalories(override.value, targets.tdee),
+        },
+        inputs,
+        now
+      );
+      capped = guardrails.calorieTarget !== override.value;
+      result.calorieTarget = guardrails.calorieTarget;
+      result.weeklyRate = guardrails.weeklyRate;
+      result.warnings = guardrails.warnings;
+    } else {
+      result[override.field] = override.value;
+    }
+
+    applied.push({ ...override, formulaValue: targets[override.field], capped });
+  }
+
+  if (result.macroProfile) {
+    // Weight 0 skips the profile's protein floor so a pinned protein target is kept as is
+    const { carbsTarget, fatTarget, fiberTarget } = scienceService.calculateMacroTargets(
+      result.calorieTarget,
+      result.proteinTarget,
+      0,
+      result.macroProfile
+    );
+    Object.assign(result, { carbsTarget, fatTarget, fiberTarget });
+  }
+
+  if (result.weeklyRate !== targets.weeklyRate) {
+    // Only project when the pinned calories move the weight towards the target
+    const towardsTarget =
+      inputs.targetWeight !== undefined &&
+      (inputs.targetWeight - inputs.weight) * result.weeklyRate > 0;
+    const projection = towardsTarget
+      ? scienceService.calculateProjection(inputs.weight, inputs.targetWeight!, result.weeklyRate)
+      : { estimatedWeeks: undefined, projectedDate: undefined };
+    Object.assign(result, projection);
+  }
+
+  result.overrides = applied;
+  return result;
+}
+
+/**
+ * Targets pinned by hand by the user or their coach
+ *
+ * @remarks
+ * Overrides are stored one per user and target. Pinning and removal only touch
+ * target_overrides; callers recompute targets and write the profile change audit.
+ */
+export class TargetOverrideService {
+  /**
+   * Get a user's overrides that have not expired
+   *
+   * @param userId - User ID
+   * @param now - Reference time (defaults to now)
+   */
+  async getActiveOverrides(userId: number, now: Date = new Date()): Promise<TargetOverride[]> {
+    const rows = await db
+      .select()
+      .from(targetOverrides)
+      .where(
+        and(
+          eq(targetOverrides.userId, userId),
+          or(isNull(targetOverrides.expiresAt), gt(targetOverrides.expiresAt, now))
+        )
+      )
+      .orderBy(targetOverrides.field);
+
+    return rows.map(toTargetOverride);
+  }
+
+  /**
+   * Check that an account may manage a user's targets
+   *
+   * @param actorUserId - Authenticated account
+   * @param userId - User whose targets are managed
+   * @returns 'user' for the user themself, 'coach' for a permitted coach
+   * @throws {AppError} 403 if the account is neither
+   *
+   * @remarks
+   * A coach is a partner with relationship 'coach' and can_manage_targets set, whose email
+   * matches the authenticated account's verified email
+   */
+  async resolveAccess(actorUserId: number, userId: number): Promise<TargetOverrideSource> {
+    if (actorUserId === userId) {
+      return 'user';
+    }
+
+    const [coach] = await db
+      .select({ id: partners.id })
+      .from(partners)
+      .innerJoin(users, sql`lower(${users.email}) = lower(${partners.email})`)
+      .where(
+        and(
+          eq(partners.userId, userId),
+          eq(users.id, actorUserId),
+          eq(partners.relationship, 'coach'),
+          eq(users.emailVerified, true),
+          eq(partners.canManageTargets, true)
+        )
+      )
+      .limit(1);
+
+    if (!coach) {
+      throw new AppError(403, "You don't have permission to manage this user's targets");
+    }
+
+    return 'coach';
+  }
+
+  /**
+   * Pin a target to a value
+   *
+   * @param actorUserId - Authenticated account (the user or their coach)
+   * @param userId - User whose target is pinned
+   * @param field - Target to pin
+   * @param input - Value, optional reason and expiry
+   * @param now - Reference time (defaults to now)
+   * @returns Who pinned it and the previously pinned value
+   * @throws {AppError} 403 without permission, 404 without settings, 400 before onboarding is
+   *   complete or when a calorie pin is outside the user's safety limits
+   *
+   * @remarks
+   * Replaces any existing pin for the same target
+   */
+  async setOverride(
+    actorUserId: number,
+    userId: number,
+    field: OverridableTarget,
+    input: TargetOverrideInput,
+    now: Date = new Date()
+  ): Promise<TargetOverrideChange> {
+    const span = tracer.startSpan('target_overrides.set_override');
+
+    try {
+      span.setAttributes({ 'user.id': userId, 'override.field': field });
+
+      const setBy = await this.resolveAccess(actorUserId, userId);
+
+      const [settings] = await db
+        .select()
+        .from(userSettings)
+        .where(eq(userSettings.userId, userId))
+        .limit(1);
+
+      if (!settings) {
+        throw new AppError(404, 'User settings not found');
+      }
+
+      if (!settings.onboardingCompleted) {
+        throw new AppError(400, 'Please complete onboarding before overriding targets');
+      }
+
+      if (field === 'calorieTarget') {
+        this.assertSafeCalories(settings, input.value, now);
+      }
+
+      const [previous] = await db
+        .select({ value: targetOverrides.value, expiresAt: targetOverrides.expiresAt })
+        .from(targetOverrides)
+        .where(and(eq(targetOverrides.userId, userId), eq(targetOverrides.field, field)))
+        .limit(1);
+
+      const values = {
+        value: input.value,
+        reason: input.reason ?? null,
+        setBy,
+        setByUserId: actorUserId,
+        expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+        updatedAt: now,
+      };
+
+      await db
+        .insert(targetOverrides)
+        .values({ userId, field, ...values, createdAt: now })
+        .onConflictDoUpdate({
+          target: [targetOverrides.userId, targetOverrides.field],
+          set: { ...values, createdAt: now },
+        });
+
+      // An expired pin no longer applied, so it doesn't count as the previous value
+      const previousValue =
+        previous && (previous.expiresAt === null || previous.expiresAt > now)
+          ? previous.value
+          : null;
+
+      logger.info(
+        { userId, actorUserId, field, setBy, expiresAt: values.expiresAt },
+        'Target override set'
+      );
+
+      span.setAttributes({ 'override.set_by': setBy });
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return { setBy, previousValue, newValue: input.value };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Remove a pinned target so the formula value applies again
+   *
+   * @param actorUserId - Authenticated account (the user or their coach)
+   * @param userId - User whose target is unpinned
+   * @param field - Target to unpin
+   * @param now - Reference time (defaults to now)
+   * @returns Who removed it and the value that was pinned
+   * @throws {AppError} 403 without permission, 404 if the target is not pinned
+   */
+  async clearOverride(
+    actorUserId: number,
+    userId: number,
+    field: OverridableTarget,
+    now: Date = new Date()
+  ): Promise<TargetOverrideChange> {
+    const setBy = await this.resolveAccess(actorUserId, userId);
+
+    const [removed] = await db
+      .delete(targetOverrides)
+      .where(and(eq(targetOverrides.userId, userId), eq(targetOverrides.field, field)))
+      .returning();
+
+    if (!removed || !isOverrideActive(toTargetOverride(removed), now)) {
+      throw new AppError(404, `${field} is not overridden`);
+    }
+
+    logger.info({ userId, actorUserId, field, setBy }, 'Target override removed');
+
+    return { setBy, previousValue: removed.value, newValue: null };
+  }
+
+  /**
+   * Delete a user's expired overrides
+   * Called by recompute so the formula values take over again
+   *
+   * @param userId - User ID
+   * @param now - Reference time (defaults to now)
+   * @returns The overrides that were removed
+   */
+  async removeExpired(userId: number, now: Date = new Date()): Promise<TargetOverride[]> {
+    const removed = await db
+      .delete(targetOverrides)
+      .where(and(eq(targetOverrides.userId, userId), lte(targetOverrides.expiresAt, now)))
+      .returning();
+
+    if (removed.length > 0) {
+      logger.info(
+        { userId, fields: removed.map((row) => row.field) },
+        'Expired target overrides removed'
+      );
+    }
+
+    return removed.map(toTargetOverride);
+  }
+
+  /**
+   * Reject calorie pins the safety guardrails would change
+   * @throws {AppError} 400 with the closest safe value
+   */
+  private assertSafeCalories(settings: SelectUserSettings, calorieTarget: number, now: Date): void {
+    const weight = settings.currentWeight ? parseFloat(settings.currentWeight) : 0;
+    const height = settings.height ? parseFloat(settings.height) : 0;
+    if (!settings.bmr || !settings.tdee || !weight || !height || !settings.dateOfBirth) {
+      return;
+    }
+
+    // Goal and activity don't affect the capping guardrails
+    const inputs: ScienceInputs = {
+      weight,
+      height,
+      age: differenceInYears(now, settings.dateOfBirth),
+      gender: (GENDERS as readonly string[]).includes(settings.gender ?? '')
+        ? (settings.gender as GenderValue)
+        : 'other',
+      activityLevel: 'sedentary',
+      primaryGoal: 'maintain',
+    };
+
+    const result = evaluateSafetyGuardrails(
+      {
+        bmr: settings.bmr,
+        tdee: settings.tdee,
+        calorieTarget,
+        weeklyRate: weeklyRateForCalories(calorieTarget, settings.tdee),
+      },
+      inputs,
+      now
+    );
+
+    if (result.calorieTarget !== calorieTarget) {
+      const capped = result.warnings.find((warning) => warning.capped);
+      throw new AppError(
+        400,
+        `A calorie target of ${calorieTarget} is outside the safe range for this user; the closest safe value is ${result.calorieTarget}${capped ? ` (${capped.code})` : ''}`
+      );
+    }
+  }
+}
+
+/**
+ * Singleton instance for reuse across the application
+ */
+export const targetOverrideService = new TargetOverrideService();
@@ -0,0 +1,231 @@
+import { db } from '../db/connection';
+import { initialPlanSnapshot, userSettings } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { differenceInYears } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  ActivityLevelValue,
+  BmrFormulaPreference,
+  GenderValue,
+  PlanDiffField,
+  PrimaryGoalValue,
+  ScienceInputs,
+  TargetSimulationResponse,
+} from '@gtsd/shared-types';
+import { GENDERS } from '@gtsd/shared-types';
+import { AppError } from '../middleware/error';
+import { scienceService } from './science';
+import { adaptiveTdeeService } from './adaptive-tdee';
+import { applyTargetOverrides, targetOverrideService } from './target-overrides';
+import { toDietPeriodization } from './diet-periodization';
+import { diffTargets } from './target-diff';
+
+const tracer = trace.getTracer('target-simulator-service');
+
+/**
+ * Hypothetical profile values to simulate (anything omitted keeps the profile value)
+ */
+export interface TargetSimulationRequest {
+  currentWeight?: number;
+  activityLevel?: ActivityLevelValue;
+  primaryGoal?: PrimaryGoalValue;
+  targetWeight?: number;
+  targetDate?: string; // ISO 8601
+}
+
+function toNumber(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+/**
+ * What-if simulator for health targets
+ * Runs the same calculation as plan generation on hypothetical inputs
+ */
+export class TargetSimulatorService {
+  /**
+   * Simulate targets for hypothetical profile values
+   *
+   * @param userId - User ID
+   * @param request - Values to change; the rest comes from the user's profile
+   * @param now - Reference time for age and the target date check (defaults to now)
+   * @returns Simulated targets, projection, guardrail warnings, WhyItWorks and a diff against
+   *   the current targets
+   * @throws {AppError} 404 if the user has no settings, 400 before onboarding is complete or
+   *   when the simulated inputs are out of range
+   *
+   * @remarks
+   * - Read-only: nothing is written, no plan is generated
+   * - Height, age, gender, BMR formula, recent body fat and dietary preferences come from the
+   *   profile so the diff only reflects the simulated changes
+   * - The adaptive TDEE describes the user's current lifestyle, so it is only applied when the
+   *   activity level is unchanged
+   * - Targets pinned by hand stay pinned, as they would on the next recompute
+   * - Diet breaks and refeed days apply to the week of `now` while losing weight
+   */
+  async simulate(
+    userId: number,
+    request: TargetSimulationRequest,
+    now: Date = new Date()
+  ): Promise<TargetSimulationResponse> {
+    const span = tracer.startSpan('target_simulator.simulate');
+
+    try {
+      span.setAttributes({
+        'user.id': userId,
+        'simulation.fields': Object.keys(request).join(','),
+      });
+
+      const [[settings], [snapshot]] = await Promise.all([
+        db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1),
+        db
+          .select({ weeklyRate: initialPlanSnapshot.weeklyWeightChangeRate })
+          .from(initialPlanSnapshot)
+          .where(eq(initialPlanSnapshot.userId, userId))
+          .limit(1),
+      ]);
+
+      if (!settings) {
+        throw new AppError(404, 'User settings not found');
+      }
+
+      const currentActivityLevel = settings.activityLevel as ActivityLevelValue | null;
+      const currentGoal = settings.primaryGoal as PrimaryGoalValue | null;
+      const currentWeight = toNumber(settings.currentWeight);
+      const height = toNumber(settings.height);
+
+      if (
+        !settings.onboardingCompleted ||
+        !settings.dateOfBirth ||
+        !height ||
+        !currentWeight ||
+        !currentActivityLevel ||
+        !currentGoal
+      ) {
+        throw new AppError(400, 'Please complete onboarding before simulating targets');
+      }
+
+      // Custom genders use the 'other' formulas, as in onboarding
+      const gender = (GENDERS as readonly string[]).includes(settings.gender ?? '')
+        ? (settings.gender as GenderValue)
+        : 'other';
+      const targetWeight = request.targetWeight ?? toNumber(settings.targetWeight) ?? undefined;
+      const targetDate = request.targetDate
+        ? new Date(request.targetDate)
+        : (settings.targetDate ?? undefined);
+
+      const inputs: ScienceInputs = {
+        weight: request.currentWeight ?? currentWeight,
+        height,
+        age: differenceInYears(now, settings.dateOfBirth),
+        gender,
+        activityLevel: request.activityLevel ?? currentActivityLevel,
+        primaryGoal: request.primaryGoal ?? currentGoal,
+        targetWeight,
+        targetDate,
+        bodyFatPercentage: await scienceService.getRecentBodyFat(userId),
+        bmrFormula: settings.bmrFormula as BmrFormulaPreference,
+        periodization: toDietPeriodization(settings),
+      };
+
+      const formulaTargets = scienceService.computeTargetsFromInputs(
+        inputs,
+        (settings.dietaryPreferences as string[]) || []
+      );
+      const computedTargets =
+        inputs.activityLevel === currentActivityLevel
+          ? scienceService.applyAdaptiveTdee(
+              formulaTargets,
+              await adaptiveTdeeService.estimateForUser(userId),
+              inputs
+            )
+          : formulaTargets;
+      const targets = scienceService.applyDietPeriodization(
+        applyTargetOverrides(
+          computedTargets,
+          await targetOverrideService.getActiveOverrides(userId, now),
+          inputs,
+          now
+        ),
+        inputs,
+        now
+      );
+
+      // Older snapshots store loss rates as positive numbers; diff against the signed rate
+      const snapshotRate = snapshot ? toNumber(snapshot.weeklyRate) : null;
+      const current: Record<PlanDiffField, number | null> = {
+        calorieTarget: settings.calorieTarget,
+        proteinTarget: settings.proteinTarget,
+        waterTarget: settings.waterTarget,
+        weeklyRate:
+          snapshotRate === null
+            ? null
+            : Math.abs(snapshotRate) * Math.sign(scienceService.calculateWeeklyRate(currentGoal)),
+      };
+      const { changes, explanation } = diffTargets(current, {
+        calorieTarget: targets.calorieTarget,
+        proteinTarget: targets.proteinTarget,
+        waterTarget: targets.waterTarget,
+        weeklyRate: targets.weeklyRate,
+      });
+      if (changes.length === 0) {
+        explanation.push('These changes would not change your targets');
+      }
+
+      const warnings = targets.warnings ?? [];
+
+      span.setAttributes({
+        'simulation.changes': changes.length,
+        'simulation.guardrails': warnings.map((w) => w.code).join(','),
+        'simulation.tdee_source': targets.tdeeSource ?? 'formula',
+      });
+
+      logger.debug(
+        {
+          userId,
+          fields: Object.keys(request),
+          calorieTarget: targets.calorieTarget,
+          changes: changes.length,
+          guardrails: warnings.map((w) => w.code),
+        },
+        'Targets simulated'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return {
+        inputs: {
+          weight: inputs.weight,
+          activityLevel: inputs.activityLevel,
+          primaryGoal: inputs.primaryGoal,
+          targetWeight: targetWeight ?? null,
+          targetDate: targetDate ?? null,
+        },
+        targets,
+        projection: {
+          weeklyRate: targets.weeklyRate,
+          estimatedWeeks: targets.estimatedWeeks ?? null,
+          projectedDate: targets.projectedDate ?? null,
+        },
+        warnings,
+        whyItWorks: scienceService.getWhyItWorksExplanation(targets, inputs),
+        current,
+        changes,
+        explanation,
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Singleton instance for reuse across the application
+ */
+export const targetSimulatorService = new TargetSimulatorService();
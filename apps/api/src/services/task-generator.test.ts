@@ -0,0 +1,253 @@
+import { buildWeeklyTasks, TaskGenerationInput } from './task-generator';
+import { formatInTimeZone } from 'date-fns-tz';
+
+describe('buildWeeklyTasks', () => {
+  // 2025-01-06 is a Monday
+  const baseInput: TaskGenerationInput = {
+    userId: 1,
+    planId: 10,
+    targets: {
+      bmr: 1780,
+      tdee: 2759,
+      calorieTarget: 2259,
+      proteinTarget: 176,
+      waterTarget: 2800,
+      weeklyRate: -0.5,
+    },
+    primaryGoal: 'lose_weight',
+    activityLevel: 'moderately_active',
+    mealsPerDay: 3,
+    dietaryPreferences: [],
+    currentWeight: 80,
+    timezone: 'America/New_York',
+    startDate: '2025-01-06',
+    endDate: '2025-01-12',
+  };
+
+  it('should generate meal, hydration, workout, weight log and photo tasks for the week', () => {
+    const tasks = buildWeeklyTasks(baseInput);
+    const countByType = tasks.reduce<Record<string, number>>((acc, task) => {
+      acc[task.taskType] = (acc[task.taskType] || 0) + 1;
+      return acc;
+    }, {});
+
+    expect(countByType.meal).toBe(21); // 3 meals x 7 days
+    expect(countByType.hydration).toBe(21); // 3 checkpoints x 7 days
+    expect(countByType.workout).toBe(16); // 4 exercises x 4 days, moderately active
+    expect(countByType.weight_log).toBe(2); // Mon + Thu for weight goals
+    expect(countByType.progress_photo).toBe(1); // Sunday
+  });
+
+  it('should link every task to the user and plan', () => {
+    const tasks = buildWeeklyTasks(baseInput);
+
+    for (const task of tasks) {
+      expect(task.userId).toBe(1);
+      expect(task.planId).toBe(10);
+    }
+  });
+
+  it('should split daily calorie and protein targets across meals', () => {
+    const tasks = buildWeeklyTasks({ ...baseInput, startDate: '2025-01-07', endDate: '2025-01-07' });
+    const meals = tasks.filter((t) => t.taskType === 'meal');
+
+    const calories = meals.reduce((sum, t) => sum + (t.metadata?.targetCalories || 0), 0);
+    const protein = meals.reduce((sum, t) => sum + (t.metadata?.targetProtein || 0), 0);
+
+    expect(meals.map((t) => t.metadata?.mealType)).toEqual(['breakfast', 'lunch', 'dinner']);
+    expect(Math.abs(calories - 2259)).toBeLessThanOrEqual(15);
+    expect(Math.abs(protein - 176)).toBeLessThanOrEqual(2);
+  });
+
+  it('should split carbs, fat and fiber targets across meals when present', () => {
+    const tasks = buildWeeklyTasks({
+      ...baseInput,
+      targets: { ...baseInput.targets, carbsTarget: 215, fatTarget: 68, fiberTarget: 32 },
+      startDate: '2025-01-07',
+      endDate: '2025-01-07',
+    });
+    const meals = tasks.filter((t) => t.taskType === 'meal');
+
+    const carbs = meals.reduce((sum, t) => sum + (t.metadata?.targetCarbs || 0), 0);
+    const fat = meals.reduce((sum, t) => sum + (t.metadata?.targetFat || 0), 0);
+    const fiber = meals.reduce((sum, t) => sum + (t.metadata?.targetFiber || 0), 0);
+
+    expect(Math.abs(carbs - 215)).toBeLessThanOrEqual(2);
+    expect(Math.abs(fat - 68)).toBeLessThanOrEqual(2);
+    expect(Math.abs(fiber - 32)).toBeLessThanOrEqual(2);
+    expect(meals[0].description).toContain('g of carbs');
+  });
+
+  it('should omit macro metadata when targets have no macro split', () => {
+    const tasks = buildWeeklyTasks({ ...baseInput, startDate: '2025-01-07', endDate: '2025-01-07' });
+    const meal = tasks.find((t) => t.taskType === 'meal')!;
+
+    expect(meal.metadata).not.toHaveProperty('targetCarbs');
+  });
+
+  it('should give snacks half the share of a main meal', () => {
+    const tasks = buildWeeklyTasks({
+      ...baseInput,
+      mealsPerDay: 4,
+      startDate: '2025-01-07',
+      endDate: '2025-01-07',
+    });
+    const meals = tasks.filter((t) => t.taskType === 'meal');
+    const snack = meals.find((t) => t.metadata?.mealType === 'snack')!;
+    const lunch = meals.find((t) => t.metadata?.mealType === 'lunch')!;
+
+    expect(meals).toHaveLength(4);
+    expect(Math.abs(snack.metadata!.targetCalories! * 2 - lunch.metadata!.targetCalories!)).toBeLessThanOrEqual(10);
+  });
+
+  it('should use refeed calories and carbs on refeed days', () => {
+    const tasks = buildWeeklyTasks({
+      ...baseInput,
+      targets: {
+        ...baseInput.targets,
+        carbsTarget: 215,
+        fatTarget: 68,
+        fiberTarget: 32,
+        periodization: {
+          dietBreakEveryWeeks: null,
+          refeedDays: [6],
+          dietBreakWeek: false,
+          dietCalorieTarget: 2259,
+          refeed: { calorieTarget: 2759, carbsTarget: 340 },
+          averageWeeklyRate: -0.43,
+        },
+      },
+    });
+    const mealsOn = (date: string) =>
+      tasks.filter(
+        (t) =>
+          t.taskType === 'meal' &&
+          formatInTimeZone(t.dueDate, baseInput.timezone, 'yyyy-MM-dd') === date
+      );
+    const sum = (meals: typeof tasks, key: 'targetCalories' | 'targetCarbs') =>
+      meals.reduce((total, t) => total + (t.metadata?.[key] || 0), 0);
+
+    // Friday is a regular day, Saturday the refeed
+    expect(Math.abs(sum(mealsOn('2025-01-10'), 'targetCalories') - 2259)).toBeLessThanOrEqual(15);
+    expect(Math.abs(sum(mealsOn('2025-01-11'), 'targetCalories') - 2759)).toBeLessThanOrEqual(15);
+    expect(Math.abs(sum(mealsOn('2025-01-11'), 'targetCarbs') - 340)).toBeLessThanOrEqual(2);
+    expect(mealsOn('2025-01-11')[0].description).toContain('Refeed day');
+    expect(mealsOn('2025-01-10')[0].description).not.toContain('Refeed day');
+  });
+
+  it('should mention dietary preferences in meal descriptions', () => {
+    const tasks = buildWeeklyTasks({
+      ...baseInput,
+      dietaryPreferences: ['vegetarian', 'gluten_free'],
+      startDate: '2025-01-07',
+      endDate: '2025-01-07',
+    });
+    const meal = tasks.find((t) => t.taskType === 'meal')!;
+
+    expect(meal.description).toContain('vegetarian, gluten-free');
+  });
+
+  it('should split the water target across hydration checkpoints', () => {
+    const tasks = buildWeeklyTasks({ ...baseInput, startDate: '2025-01-07', endDate: '2025-01-07' });
+    const hydration = tasks.filter((t) => t.taskType === 'hydration');
+
+    expect(hydration).toHaveLength(3);
+    for (const task of hydration) {
+      expect(task.metadata?.targetAmount).toBe(950);
+    }
+  });
+
+  it('should schedule more workouts for more active users', () => {
+    const sedentary = buildWeeklyTasks({ ...baseInput, activityLevel: 'sedentary' });
+    const extreme = buildWeeklyTasks({ ...baseInput, activityLevel: 'extremely_active' });
+
+    const workoutDays = (tasks: typeof sedentary) =>
+      new Set(tasks.filter((t) => t.taskType === 'workout').map((t) => t.dueDate.toDateString()))
+        .size;
+
+    expect(workoutDays(sedentary)).toBe(2);
+    expect(workoutDays(extreme)).toBe(6);
+  });
+
+  it('should turn each program exercise into a workout task', () => {
+    const tasks = buildWeeklyTasks({ ...baseInput, startDate: '2025-01-06', endDate: '2025-01-06' });
+    const workouts = tasks.filter((t) => t.taskType === 'workout');
+
+    expect(workouts.map((t) => t.dueTime)).toEqual(['07:00:00', '07:10:00', '07:20:00', '07:30:00']);
+    expect(workouts[0].title).toBe('Barbell Bench Press - 3 × 6 @ 32.5 kg');
+    expect(workouts[0].metadata).toMatchObject({
+      exerciseKey: 'bench_press',
+      sessionName: 'Upper A',
+      sets: 3,
+      reps: 6,
+      weight: 32.5,
+      repRangeMin: 6,
+      repRangeMax: 10,
+      progression: 'rpe',
+      deload: false,
+    });
+  });
+
+  it('should progress workouts from the exercise history', () => {
+    const tasks = buildWeeklyTasks({
+      ...baseInput,
+      startDate: '2025-01-06',
+      endDate: '2025-01-06',
+      exerciseHistory: {
+        bench_press: [
+          {
+            recordedAt: new Date('2025-01-02T07:00:00Z'),
+            prescribed: { sets: 3, reps: 8, weight: 60, deload: false },
+            actual: {},
+            difficulty: 'easy',
+          },
+        ],
+      },
+    });
+    const bench = tasks.find((t) => t.metadata?.exerciseKey === 'bench_press')!;
+
+    expect(bench.metadata).toMatchObject({ sets: 3, reps: 6, weight: 62.5 });
+  });
+
+  it('should only generate days inside the requested window', () => {
+    // Thursday to Sunday
+    const tasks = buildWeeklyTasks({ ...baseInput, startDate: '2025-01-09', endDate: '2025-01-12' });
+    const days = new Set(
+      tasks.map((t) => formatInTimeZone(t.dueDate, baseInput.timezone, 'yyyy-MM-dd'))
+    );
+
+    expect(Array.from(days).sort()).toEqual([
+      '2025-01-09',
+      '2025-01-10',
+      '2025-01-11',
+      '2025-01-12',
+    ]);
+  });
+
+  it('should place due dates on the user local calendar', () => {
+    const tasks = buildWeeklyTasks({
+      ...baseInput,
+      timezone: 'Australia/Sydney',
+      startDate: '2025-01-07',
+      endDate: '2025-01-07',
+    });
+    const breakfast = tasks.find((t) => t.metadata?.mealType === 'breakfast')!;
+
+    expect(breakfast.dueTime).toBe('08:00:00');
+    expect(formatInTimeZone(breakfast.dueDate, 'Australia/Sydney', 'yyyy-MM-dd HH:mm')).toBe(
+      '2025-01-07 08:00'
+    );
+  });
+
+  it('should order tasks within a day by due time', () => {
+    const tasks = buildWeeklyTasks({ ...baseInput, startDate: '2025-01-06', endDate: '2025-01-06' });
+
+    expect(tasks.map((t) => t.order)).toEqual(tasks.map((_, i) => i + 1));
+    const times = tasks.map((t) => t.dueTime!);
+    expect(times).toEqual([...times].sort());
+  });
+
+  it('should be deterministic for the same input', () => {
+    expect(buildWeeklyTasks(baseInput)).toEqual(buildWeeklyTasks(baseInput));
+  });
+});
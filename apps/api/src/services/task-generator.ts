@@ -0,0 +1,550 @@
+import { dailyTasks, plans, InsertDailyTask, SelectDailyTask } from '../db/schema';
+import { eq, and, gte, lte, isNotNull, inArray, sql } from 'drizzle-orm';
+import type { ExtractTablesWithRelations } from 'drizzle-orm';
+import type { PgTransaction } from 'drizzle-orm/pg-core';
+import type { PostgresJsQueryResultHKT } from 'drizzle-orm/postgres-js';
+import { addDays, format, getISODay, parseISO } from 'date-fns';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  ComputedTargets,
+  ActivityLevelValue,
+  ExerciseHistory,
+  PrimaryGoalValue,
+} from '@gtsd/shared-types';
+import * as schema from '../db/schema';
+import { isRefeedDay } from './diet-periodization';
+import { buildTrainingProgram, trainingProgramService } from './training-program';
+
+const tracer = trace.getTracer('task-generator');
+
+/**
+ * Transaction type for database operations
+ */
+export type DbTransaction = PgTransaction<
+  PostgresJsQueryResultHKT,
+  typeof schema,
+  ExtractTablesWithRelations<typeof schema>
+>;
+
+type TaskMetadata = NonNullable<InsertDailyTask['metadata']>;
+type MealType = NonNullable<TaskMetadata['mealType']>;
+
+/**
+ * Inputs needed to build a week of tasks for a plan
+ */
+export interface TaskGenerationInput {
+  userId: number;
+  planId: number;
+  targets: ComputedTargets;
+  primaryGoal: PrimaryGoalValue;
+  activityLevel: ActivityLevelValue;
+  mealsPerDay: number;
+  dietaryPreferences: string[];
+  currentWeight?: number;
+  /** IANA timezone used to place tasks on the user's local calendar */
+  timezone: string;
+  /** First local day to generate (YYYY-MM-DD, inclusive) */
+  startDate: string;
+  /** Last local day to generate (YYYY-MM-DD, inclusive) */
+  endDate: string;
+  /** Logged workout sessions by exercise key, newest first; loaded from evidence when omitted */
+  exerciseHistory?: ExerciseHistory;
+}
+
+/**
+ * Outcome of syncing generated tasks for a plan
+ */
+export interface TaskSyncResult {
+  created: number;
+  updated: number;
+  removed: number;
+  totalTasks: number;
+  completedTasks: number;
+}
+
+/**
+ * Meal slots by meals per day
+ * Main meals carry full weight, snacks half weight when splitting targets
+ */
+const MEAL_SLOTS: Record<number, Array<{ mealType: MealType; dueTime: string; weight: number }>> = {
+  1: [{ mealType: 'dinner', dueTime: '18:30:00', weight: 1 }],
+  2: [
+    { mealType: 'lunch', dueTime: '12:30:00', weight: 1 },
+    { mealType: 'dinner', dueTime: '18:30:00', weight: 1 },
+  ],
+  3: [
+    { mealType: 'breakfast', dueTime: '08:00:00', weight: 1 },
+    { mealType: 'lunch', dueTime: '12:30:00', weight: 1 },
+    { mealType: 'dinner', dueTime: '18:30:00', weight: 1 },
+  ],
+  4: [
+    { mealType: 'breakfast', dueTime: '08:00:00', weight: 1 },
+    { mealType: 'lunch', dueTime: '12:30:00', weight: 1 },
+    { mealType: 'snack', dueTime: '15:30:00', weight: 0.5 },
+    { mealType: 'dinner', dueTime: '18:30:00', weight: 1 },
+  ],
+  5: [
+    { mealType: 'breakfast', dueTime: '08:00:00', weight: 1 },
+    { mealType: 'snack', dueTime: '10:30:00', weight: 0.5 },
+    { mealType: 'lunch', dueTime: '12:30:00', weight: 1 },
+    { mealType: 'snack', dueTime: '15:30:00', weight: 0.5 },
+    { mealType: 'dinner', dueTime: '18:30:00', weight: 1 },
+  ],
+  6: [
+    { mealType: 'breakfast', dueTime: '08:00:00', weight: 1 },
+    { mealType: 'snack', dueTime: '10:30:00', weight: 0.5 },
+    { mealType: 'lunch', dueTime: '12:30:00', weight: 1 },
+    { mealType: 'snack', dueTime: '15:30:00', weight: 0.5 },
+    { mealType: 'dinner', dueTime: '18:30:00', weight: 1 },
+    { mealType: 'snack', dueTime: '20:30:00', weight: 0.5 },
+  ],
+};
+
+/**
+ * Hydration checkpoints spread across the day
+ */
+const HYDRATION_SLOTS = [
+  { label: 'Morning', dueTime: '09:00:00' },
+  { label: 'Afternoon', dueTime: '14:00:00' },
+  { label: 'Evening', dueTime: '19:00:00' },
+] as const;
+
+/**
+ * Weight log days by goal (ISO weekday)
+ */
+const WEIGHT_LOG_DAYS: Record<PrimaryGoalValue, number[]> = {
+  lose_weight: [1, 4],
+  gain_muscle: [1, 4],
+  maintain: [1],
+  improve_health: [1],
+};
+
+/**
+ * Progress photo day (ISO weekday)
+ */
+const PROGRESS_PHOTO_DAY = 7;
+
+/**
+ * Task priorities (higher = more important)
+ */
+const PRIORITY = {
+  meal: 3,
+  workout: 3,
+  hydration: 2,
+  weight_log: 2,
+  progress_photo: 1,
+} as const;
+
+/**
+ * Human-readable labels for dietary preferences used in meal descriptions
+ */
+const DIET_LABELS: Record<string, string> = {
+  vegetarian: 'vegetarian',
+  vegan: 'vegan',
+  pescatarian: 'pescatarian',
+  keto: 'keto (low-carb)',
+  paleo: 'paleo',
+  gluten_free: 'gluten-free',
+  dairy_free: 'dairy-free',
+  halal: 'halal',
+  kosher: 'kosher',
+};
+
+const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+/**
+ * Stable identity of a generated task within a plan window
+ * Used to match regenerated tasks against existing rows
+ */
+function taskKey(localDate: string, taskType: string, dueTime: string | null): string {
+  return `${localDate}:${taskType}:${dueTime ?? ''}`;
+}
+
+/**
+ * Round to the nearest step (e.g. 50ml, 5kcal)
+ */
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/**
+ * Build the list of generated tasks for a plan window
+ * Pure function - does not touch the database
+ *
+ * @param input - Targets, preferences and local date window
+ * @returns Insertable daily task rows ordered by day and due time
+ *
+ * @remarks
+ * - Meals: one task per meal slot with calorie/protein split (snacks weigh half); refeed days
+ *   use the refeed calorie and carb targets
+ * - Hydration: three checkpoints splitting the daily water target
+ * - Workouts: one task per exercise of the training program session, on the weekdays set by
+ *   activity level, with sets, reps and weight progressed from the exercise history
+ * - Weight logs: Mon/Thu for weight goals, Mon otherwise
+ * - Progress photo: Sundays
+ */
+export function buildWeeklyTasks(input: TaskGenerationInput): InsertDailyTask[] {
+  const { targets, primaryGoal, activityLevel, timezone } = input;
+  const periodization = targets.periodization;
+
+  const mealsPerDay = Math.min(Math.max(input.mealsPerDay || 3, 1), 6);
+  const mealSlots = MEAL_SLOTS[mealsPerDay];
+  const totalWeight = mealSlots.reduce((sum, slot) => sum + slot.weight, 0);
+
+  const dietLabels = input.dietaryPreferences
+    .map((pref) => DIET_LABELS[pref])
+    .filter((label): label is string => Boolean(label));
+  const dietNote = dietLabels.length > 0 ? ` Keep it ${dietLabels.join(', ')}.` : '';
+
+  const hydrationAmount = roundTo(targets.waterTarget / HYDRATION_SLOTS.length, 50);
+  const program = buildTrainingProgram({
+    primaryGoal,
+    activityLevel,
+    history: input.exerciseHistory ?? {},
+    bodyWeight: input.currentWeight,
+  });
+
+  const result: InsertDailyTask[] = [];
+  const lastDay = parseISO(input.endDate);
+
+  for (let day = parseISO(input.startDate); day <= lastDay; day = addDays(day, 1)) {
+    const localDate = format(day, 'yyyy-MM-dd');
+    const isoDay = getISODay(day);
+    const dayTasks: Array<Omit<InsertDailyTask, 'order' | 'dueDate'> & { dueTime: string }> = [];
+
+    // Refeed days swap in maintenance calories and extra carbs
+    const refeed =
+      periodization?.refeed && isRefeedDay(periodization, isoDay) ? periodization.refeed : undefined;
+    const dayCalories = refeed?.calorieTarget ?? targets.calorieTarget;
+    const dayCarbs = refeed ? refeed.carbsTarget : targets.carbsTarget;
+    const periodizationNote = refeed
+      ? ' Refeed day: eat at maintenance, with the extra calories from carbs.'
+      : periodization?.dietBreakWeek
+        ? ' Diet break week: eat at maintenance.'
+        : '';
+
+    for (const slot of mealSlots) {
+      const share = slot.weight / totalWeight;
+      const targetCalories = roundTo(dayCalories * share, 5);
+      const targetProtein = Math.round(targets.proteinTarget * share);
+      const macros =
+        dayCarbs !== undefined &&
+        targets.fatTarget !== undefined &&
+        targets.fiberTarget !== undefined
+          ? {
+              targetCarbs: Math.round(dayCarbs * share),
+              targetFat: Math.round(targets.fatTarget * share),
+              targetFiber: Math.round(targets.fiberTarget * share),
+            }
+          : undefined;
+      const macroNote = macros
+        ? ` Round it out with ${macros.targetCarbs}g of carbs and ${macros.targetFat}g of fat.`
+        : '';
+
+      dayTasks.push({
+        userId: input.userId,
+        planId: input.planId,
+        title: `${MEAL_LABELS[slot.mealType]} - ${targetCalories} kcal`,
+        description: `Aim for about ${targetCalories} calories and ${targetProtein}g of protein.${macroNote}${dietNote}${periodizationNote}`,
+        taskType: 'meal',
+        dueTime: slot.dueTime,
+        metadata: { mealType: slot.mealType, targetCalories, targetProtein, ...macros },
+        priority: PRIORITY.meal,
+      });
+    }
+
+    for (const slot of HYDRATION_SLOTS) {
+      dayTasks.push({
+        userId: input.userId,
+        planId: input.planId,
+        title: `${slot.label} Hydration - ${hydrationAmount}ml Water`,
+        description: `Part of your ${targets.waterTarget}ml daily hydration target.`,
+        taskType: 'hydration',
+        dueTime: slot.dueTime,
+        metadata: { targetAmount: hydrationAmount },
+        priority: PRIORITY.hydration,
+      });
+    }
+
+    const session = program.sessions.find((planned) => planned.isoWeekday === isoDay);
+    // Exercises are 10 minutes apart from 07:00 so each keeps its own task key
+    session?.exercises.forEach((exercise, index) => {
+      const load = exercise.weight !== null ? ` @ ${exercise.weight} kg` : '';
+      const deloadNote = exercise.deload ? ' Deload week for this lift.' : '';
+
+      dayTasks.push({
+        userId: input.userId,
+        planId: input.planId,
+        title: `${exercise.exerciseName} - ${exercise.sets} × ${exercise.reps}${load}`,
+        description:
+          `${session.name} (about ${session.duration} minutes). ${exercise.sets} sets of ` +
+          `${exercise.reps} reps, working in the ${exercise.repRange.min}-${exercise.repRange.max} rep range. ` +
+          `${exercise.reason}.${deloadNote}`,
+        taskType: 'workout',
+        dueTime: `07:${String(index * 10).padStart(2, '0')}:00`,
+        metadata: {
+          exerciseKey: exercise.exerciseKey,
+          exerciseName: exercise.exerciseName,
+          sets: exercise.sets,
+          reps: exercise.reps,
+          ...(exercise.weight !== null ? { weight: exercise.weight } : {}),
+          duration: session.duration,
+          sessionName: session.name,
+          targetMuscleGroup: exercise.muscleGroup,
+          repRangeMin: exercise.repRange.min,
+          repRangeMax: exercise.repRange.max,
+          progression: exercise.progression,
+          deload: exercise.deload,
+        },
+        priority: PRIORITY.workout,
+      });
+    });
+
+    if (WEIGHT_LOG_DAYS[primaryGoal].includes(isoDay)) {
+      dayTasks.push({
+        userId: input.userId,
+        planId: input.planId,
+        title: 'Log Your Weight',
+        description: 'Weigh in first thing in the morning, after using the bathroom.',
+        taskType: 'weight_log',
+        dueTime: '07:30:00',
+        metadata: input.currentWeight ? { previousWeight: input.currentWeight } : {},
+        priority: PRIORITY.weight_log,
+      });
+    }
+
+    if (isoDay === PROGRESS_PHOTO_DAY) {
+      dayTasks.push({
+        userId: input.userId,
+        planId: input.planId,
+        title: 'Weekly Progress Photo',
+        description: 'Take a front-facing photo in consistent lighting to track your progress.',
+        taskType: 'progress_photo',
+        dueTime: '08:30:00',
+        metadata: { photoType: 'front' },
+        priority: PRIORITY.progress_photo,
+      });
+    }
+
+    dayTasks.sort((a, b) => a.dueTime.localeCompare(b.dueTime));
+
+    dayTasks.forEach((task, index) => {
+      result.push({
+        ...task,
+        dueDate: fromZonedTime(`${localDate}T${task.dueTime}`, timezone),
+        order: index + 1,
+      });
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Task generation service
+ * Persists generated tasks for a plan and keeps plan counters in sync
+ */
+export class TaskGeneratorService {
+  /**
+   * Create or refresh the generated tasks for a plan window
+   * Idempotent - re-running for the same window never duplicates tasks
+   *
+   * @param tx - Database transaction instance
+   * @param input - Generation inputs (targets, preferences, window)
+   * @returns Counts of created/updated/removed tasks and new plan totals
+   *
+   * @remarks
+   * - Existing generated tasks in the window are matched by local date, type and due time
+   * - Matched pending tasks are refreshed with the new targets and moved to the new plan
+   * - Matched tasks the user already acted on keep their status and evidence
+   * - Unmatched pending tasks are removed (e.g. after lowering mealsPerDay)
+   * - Counters are refreshed for the new plan and any plan that lost tasks
+   * - Workout progression reads the user's exercise history in the same transaction unless the
+   *   input already carries it
+   */
+  async syncPlanTasks(tx: DbTransaction, input: TaskGenerationInput): Promise<TaskSyncResult> {
+    const span = tracer.startSpan('task_generator.sync_plan_tasks');
+
+    try {
+      span.setAttributes({
+        'user.id': input.userId,
+        'plan.id': input.planId,
+        'window.start': input.startDate,
+        'window.end': input.endDate,
+      });
+
+      const exerciseHistory =
+        input.exerciseHistory ??
+        (await trainingProgramService.getExerciseHistory(input.userId, new Date(), tx));
+      const desired = buildWeeklyTasks({ ...input, exerciseHistory });
+
+      const windowStart = fromZonedTime(`${input.startDate}T00:00:00`, input.timezone);
+      const windowEnd = fromZonedTime(`${input.endDate}T23:59:59.999`, input.timezone);
+
+      const existing = await tx
+        .select()
+        .from(dailyTasks)
+        .where(
+          and(
+            eq(dailyTasks.userId, input.userId),
+            isNotNull(dailyTasks.planId),
+            gte(dailyTasks.dueDate, windowStart),
+            lte(dailyTasks.dueDate, windowEnd)
+          )
+        );
+
+      const existingByKey = new Map<string, SelectDailyTask>();
+      for (const task of existing) {
+        const localDate = formatInTimeZone(task.dueDate, input.timezone, 'yyyy-MM-dd');
+        existingByKey.set(taskKey(localDate, task.taskType, task.dueTime), task);
+      }
+
+      const affectedPlanIds = new Set<number>([input.planId]);
+      const toInsert: InsertDailyTask[] = [];
+      let updated = 0;
+      const now = new Date();
+
+      for (const task of desired) {
+        const localDate = formatInTimeZone(task.dueDate, input.timezone, 'yyyy-MM-dd');
+        const key = taskKey(localDate, task.taskType, task.dueTime ?? null);
+        const match = existingByKey.get(key);
+
+        if (!match) {
+          toInsert.push(task);
+          continue;
+        }
+
+        existingByKey.delete(key);
+        if (match.planId) {
+          affectedPlanIds.add(match.planId);
+        }
+
+        // Only refresh content for tasks the user hasn't acted on yet
+        const refresh =
+          match.status === 'pending'
+            ? {
+                title: task.title,
+                description: task.description,
+                metadata: task.metadata,
+                priority: task.priority,
+              }
+            : {};
+
+        await tx
+          .update(dailyTasks)
+          .set({ ...refresh, planId: input.planId, order: task.order, updatedAt: now })
+          .where(eq(dailyTasks.id, match.id));
+        updated++;
+      }
+
+      // Leftovers no longer belong to the schedule
+      const leftoverPending: number[] = [];
+      const leftoverActedOn: number[] = [];
+      for (const task of existingByKey.values()) {
+        if (task.planId) {
+          affectedPlanIds.add(task.planId);
+        }
+        if (task.status === 'pending') {
+          leftoverPending.push(task.id);
+        } else {
+          leftoverActedOn.push(task.id);
+        }
+      }
+
+      if (leftoverPending.length > 0) {
+        await tx.delete(dailyTasks).where(inArray(dailyTasks.id, leftoverPending));
+      }
+
+      if (leftoverActedOn.length > 0) {
+        await tx
+          .update(dailyTasks)
+          .set({ planId: input.planId, updatedAt: now })
+          .where(inArray(dailyTasks.id, leftoverActedOn));
+      }
+
+      if (toInsert.length > 0) {
+        await tx.insert(dailyTasks).values(toInsert);
+      }
+
+      let totals = { totalTasks: 0, completedTasks: 0 };
+      for (const planId of affectedPlanIds) {
+        const planTotals = await this.refreshPlanCounters(tx, planId);
+        if (planId === input.planId) {
+          totals = planTotals;
+        }
+      }
+
+      const result: TaskSyncResult = {
+        created: toInsert.length,
+        updated,
+        removed: leftoverPending.length,
+        ...totals,
+      };
+
+      span.setAttributes({
+        'tasks.created': result.created,
+        'tasks.updated': result.updated,
+        'tasks.removed': result.removed,
+        'plan.total_tasks': result.totalTasks,
+      });
+
+      logger.info(
+        { userId: input.userId, planId: input.planId, ...result },
+        'Plan tasks synced'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return result;
+    } catch (error) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Recalculate total/completed task counts and completion percentage for a plan
+   *
+   * @param tx - Database transaction instance
+   * @param planId - Plan to refresh
+   * @returns Updated totals
+   */
+  async refreshPlanCounters(
+    tx: DbTransaction,
+    planId: number
+  ): Promise<{ totalTasks: number; completedTasks: number }> {
+    const [counts] = await tx
+      .select({
+        total: sql<number>`count(*)::int`,
+        completed: sql<number>`count(*) filter (where ${dailyTasks.status} = 'completed')::int`,
+      })
+      .from(dailyTasks)
+      .where(eq(dailyTasks.planId, planId));
+
+    const totalTasks = counts?.total || 0;
+    const completedTasks = counts?.completed || 0;
+    const completionPercentage =
+      totalTasks > 0 ? ((completedTasks / totalTasks) * 100).toFixed(2) : '0';
+
+    await tx
+      .update(plans)
+      .set({ totalTasks, completedTasks, completionPercentage, updatedAt: new Date() })
+      .where(eq(plans.id, planId));
+
+    return { totalTasks, completedTasks };
+  }
+}
+
+/**
+ * Singleton instance for reuse across the application
+ */
+export const taskGeneratorService = new TaskGeneratorService();
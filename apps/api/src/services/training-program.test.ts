@@ -0,0 +1,177 @@
+import {
+  EXERCISE_TEMPLATES,
+  buildTrainingProgram,
+  prescribeExercise,
+  selectSplit,
+  type ExerciseVolume,
+} from './training-program';
+import type { ExerciseSessionLog, WorkoutDifficulty } from '@gtsd/shared-types';
+
+describe('Training program', () => {
+  const volume: ExerciseVolume = { sets: 3, repRange: { min: 6, max: 10 } };
+
+  const session = (
+    reps: number,
+    weight: number | null,
+    difficulty?: WorkoutDifficulty,
+    overrides: Partial<ExerciseSessionLog> = {}
+  ): ExerciseSessionLog => ({
+    recordedAt: new Date('2025-01-06T07:00:00Z'),
+    prescribed: { sets: 3, reps, weight, deload: false },
+    actual: {},
+    difficulty,
+    ...overrides,
+  });
+
+  describe('selectSplit', () => {
+    it('should pick the split from the goal and workout days', () => {
+      expect(selectSplit('lose_weight', 3)).toBe('full_body');
+      expect(selectSplit('lose_weight', 4)).toBe('upper_lower');
+      expect(selectSplit('maintain', 6)).toBe('upper_lower');
+      expect(selectSplit('gain_muscle', 5)).toBe('push_pull_legs');
+    });
+  });
+
+  describe('prescribeExercise', () => {
+    it('should start at the bottom of the range with a share of body weight', () => {
+      const result = prescribeExercise(EXERCISE_TEMPLATES.back_squat, volume, [], 80);
+
+      expect(result).toMatchObject({ sets: 3, reps: 6, weight: 40, adjustment: 'start' });
+      expect(
+        prescribeExercise(EXERCISE_TEMPLATES.hanging_knee_raise, volume, [], 80).weight
+      ).toBeNull();
+    });
+
+    it('should add reps, then weight at the top of the range with double progression', () => {
+      const template = EXERCISE_TEMPLATES.lat_pulldown;
+
+      expect(prescribeExercise(template, volume, [session(8, 40)])).toMatchObject({
+        reps: 9,
+        weight: 40,
+        adjustment: 'increase_reps',
+      });
+      expect(prescribeExercise(template, volume, [session(10, 40)])).toMatchObject({
+        reps: 6,
+        weight: 42.5,
+        adjustment: 'increase_weight',
+      });
+    });
+
+    it('should use what was logged over what was prescribed', () => {
+      const logged = session(8, 40, undefined, { actual: { reps: 10, weight: 45 } });
+
+      expect(prescribeExercise(EXERCISE_TEMPLATES.lat_pulldown, volume, [logged])).toMatchObject({
+        reps: 6,
+        weight: 47.5,
+      });
+    });
+
+    it('should repeat the session when sets were missed', () => {
+      const missed = session(8, 40, undefined, { actual: { sets: 2 } });
+
+      expect(prescribeExercise(EXERCISE_TEMPLATES.lat_pulldown, volume, [missed])).toMatchObject({
+        reps: 8,
+        weight: 40,
+        adjustment: 'hold',
+      });
+    });
+
+    it('should hold bodyweight exercises at the top of the range', () => {
+      expect(
+        prescribeExercise(EXERCISE_TEMPLATES.hanging_knee_raise, volume, [session(10, null)])
+      ).toMatchObject({ reps: 10, weight: null, adjustment: 'hold' });
+    });
+
+    it('should adjust by logged difficulty with RPE progression', () => {
+      const template = EXERCISE_TEMPLATES.bench_press;
+
+      expect(prescribeExercise(template, volume, [session(8, 60, 'easy')])).toMatchObject({
+        reps: 6,
+        weight: 62.5,
+        adjustment: 'increase_weight',
+      });
+      expect(prescribeExercise(template, volume, [session(8, 60, 'moderate')])).toMatchObject({
+        reps: 9,
+        weight: 60,
+        adjustment: 'increase_reps',
+      });
+      expect(prescribeExercise(template, volume, [session(8, 60, 'hard')])).toMatchObject({
+        reps: 8,
+        weight: 60,
+        adjustment: 'hold',
+      });
+      expect(prescribeExercise(template, volume, [session(8, 60, 'very_hard')])).toMatchObject({
+        reps: 8,
+        weight: 57.5,
+        adjustment: 'decrease_weight',
+      });
+    });
+
+    it('should deload after two very hard sessions in a row', () => {
+      const result = prescribeExercise(EXERCISE_TEMPLATES.back_squat, volume, [
+        session(8, 100, 'very_hard'),
+        session(8, 100, 'very_hard'),
+        session(7, 100, 'hard'),
+      ]);
+
+      expect(result).toMatchObject({
+        sets: 2,
+        reps: 6,
+        weight: 90,
+        adjustment: 'deload',
+        deload: true,
+      });
+    });
+
+    it('should go back to the working weight after a deload', () => {
+      const deload = session(6, 90, 'very_hard', {
+        prescribed: { sets: 2, reps: 6, weight: 90, deload: true },
+      });
+
+      expect(
+        prescribeExercise(EXERCISE_TEMPLATES.back_squat, volume, [
+          deload,
+          session(8, 100, 'very_hard'),
+          session(8, 100, 'very_hard'),
+        ])
+      ).toMatchObject({ sets: 3, reps: 8, weight: 100, adjustment: 'resume', deload: false });
+    });
+  });
+
+  describe('buildTrainingProgram', () => {
+    it('should schedule a session on every workout day', () => {
+      const program = buildTrainingProgram({
+        primaryGoal: 'lose_weight',
+        activityLevel: 'moderately_active',
+        history: {},
+        bodyWeight: 80,
+      });
+
+      expect(program.split).toBe('upper_lower');
+      expect(program.sessions.map((s) => [s.isoWeekday, s.name])).toEqual([
+        [1, 'Upper A'],
+        [2, 'Lower A'],
+        [4, 'Upper B'],
+        [5, 'Lower B'],
+      ]);
+      // 10 minute warm-up + 12 sets x 2.5 minutes
+      expect(program.sessions[0].duration).toBe(40);
+    });
+
+    it('should use more sets for muscle gain', () => {
+      const program = buildTrainingProgram({
+        primaryGoal: 'gain_muscle',
+        activityLevel: 'very_active',
+        history: {},
+      });
+
+      expect(program.split).toBe('push_pull_legs');
+      expect(program.sessions.map((s) => s.name)).toEqual(['Push', 'Pull', 'Legs', 'Push', 'Pull']);
+      expect(program.sessions[0].exercises[0]).toMatchObject({
+        exerciseKey: 'bench_press',
+        sets: 4,
+        weight: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,685 @@
+import { db } from '../db/connection';
+import { dailyTasks, evidence, userSettings } from '../db/schema';
+import { and, desc, eq, gte, isNotNull, sql } from 'drizzle-orm';
+import { subDays } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  ActivityLevelValue,
+  ExerciseHistory,
+  ExercisePrescription,
+  ExerciseSessionLog,
+  ExerciseTemplate,
+  PrimaryGoalValue,
+  RepRange,
+  SplitRoutine,
+  TrainingProgram,
+  WorkoutDifficulty,
+} from '@gtsd/shared-types';
+import { TRAINING_PROGRAM_SETTINGS, WORKOUT_DIFFICULTIES } from '@gtsd/shared-types';
+import { AppError } from '../middleware/error';
+import type { DbTransaction } from './task-generator';
+
+const tracer = trace.getTracer('training-program');
+
+/**
+ * Workout days by activity level (ISO weekday: 1 = Monday, 7 = Sunday)
+ */
+export const WORKOUT_DAYS: Record<ActivityLevelValue, number[]> = {
+  sedentary: [2, 5],
+  lightly_active: [1, 3, 5],
+  moderately_active: [1, 2, 4, 5],
+  very_active: [1, 2, 3, 5, 6],
+  extremely_active: [1, 2, 3, 4, 5, 6],
+};
+
+/**
+ * Exercise template catalog
+ * Barbell compounds progress by logged difficulty, everything else by double progression
+ */
+export const EXERCISE_TEMPLATES: Readonly<Record<string, ExerciseTemplate>> = {
+  back_squat: {
+    key: 'back_squat',
+    name: 'Barbell Back Squat',
+    muscleGroup: 'legs',
+    equipment: 'barbell',
+    compound: true,
+    progression: 'rpe',
+    incrementKg: 5,
+    startingLoadPerKg: 0.5,
+  },
+  romanian_deadlift: {
+    key: 'romanian_deadlift',
+    name: 'Romanian Deadlift',
+    muscleGroup: 'hamstrings',
+    equipment: 'barbell',
+    compound: true,
+    progression: 'rpe',
+    incrementKg: 5,
+    startingLoadPerKg: 0.5,
+  },
+  bench_press: {
+    key: 'bench_press',
+    name: 'Barbell Bench Press',
+    muscleGroup: 'chest',
+    equipment: 'barbell',
+    compound: true,
+    progression: 'rpe',
+    incrementKg: 2.5,
+    startingLoadPerKg: 0.4,
+  },
+  overhead_press: {
+    key: 'overhead_press',
+    name: 'Overhead Press',
+    muscleGroup: 'shoulders',
+    equipment: 'barbell',
+    compound: true,
+    progression: 'rpe',
+    incrementKg: 2.5,
+    startingLoadPerKg: 0.25,
+  },
+  barbell_row: {
+    key: 'barbell_row',
+    name: 'Barbell Row',
+    muscleGroup: 'back',
+    equipment: 'barbell',
+    compound: true,
+    progression: 'rpe',
+    incrementKg: 2.5,
+    startingLoadPerKg: 0.35,
+  },
+  lat_pulldown: {
+    key: 'lat_pulldown',
+    name: 'Lat Pulldown',
+    muscleGroup: 'back',
+    equipment: 'cable',
+    compound: true,
+    progression: 'double_progression',
+    incrementKg: 2.5,
+    startingLoadPerKg: 0.4,
+  },
+  seated_cable_row: {
+    key: 'seated_cable_row',
+    name: 'Seated Cable Row',
+    muscleGroup: 'back',
+    equipment: 'cable',
+    compound: true,
+    progression: 'double_progression',
+    incrementKg: 2.5,
+    startingLoadPerKg: 0.35,
+  },
+  leg_press: {
+    key: 'leg_press',
+    name: 'Leg Press',
+    muscleGroup: 'legs',
+    equipment: 'machine',
+    compound: true,
+    progression: 'double_progression',
+    incrementKg: 5,
+    startingLoadPerKg: 0.9,
+  },
+  dumbbell_lunge: {
+    key: 'dumbbell_lunge',
+    name: 'Dumbbell Lunge',
+    muscleGroup: 'legs',
+    equipment: 'dumbbell',
+    compound: true,
+    progression: 'double_progression',
+    incrementKg: 2,
+    startingLoadPerKg: 0.1,
+  },
+  incline_dumbbell_press: {
+    key: 'incline_dumbbell_press',
+    name: 'Incline Dumbbell Press',
+    muscleGroup: 'chest',
+    equipment: 'dumbbell',
+    compound: true,
+    progression: 'double_progression',
+    incrementKg: 2,
+    startingLoadPerKg: 0.12,
+  },
+  lateral_raise: {
+    key: 'lateral_raise',
+    name: 'Dumbbell Lateral Raise',
+    muscleGroup: 'shoulders',
+    equipment: 'dumbbell',
+    compound: false,
+    progression: 'double_progression',
+    incrementKg: 1,
+    startingLoadPerKg: 0.05,
+  },
+  bicep_curl: {
+    key: 'bicep_curl',
+    name: 'Dumbbell Biceps Curl',
+    muscleGroup: 'biceps',
+    equipment: 'dumbbell',
+    compound: false,
+    progression: 'double_progression',
+    incrementKg: 1,
+    startingLoadPerKg: 0.08,
+  },
+  triceps_pushdown: {
+    key: 'triceps_pushdown',
+    name: 'Cable Triceps Pushdown',
+    muscleGroup: 'triceps',
+    equipment: 'cable',
+    compound: false,
+    progression: 'double_progression',
+    incrementKg: 2.5,
+    startingLoadPerKg: 0.15,
+  },
+  leg_curl: {
+    key: 'leg_curl',
+    name: 'Lying Leg Curl',
+    muscleGroup: 'hamstrings',
+    equipment: 'machine',
+    compound: false,
+    progression: 'double_progression',
+    incrementKg: 2.5,
+    startingLoadPerKg: 0.25,
+  },
+  calf_raise: {
+    key: 'calf_raise',
+    name: 'Standing Calf Raise',
+    muscleGroup: 'calves',
+    equipment: 'machine',
+    compound: false,
+    progression: 'double_progression',
+    incrementKg: 5,
+    startingLoadPerKg: 0.5,
+  },
+  hanging_knee_raise: {
+    key: 'hanging_knee_raise',
+    name: 'Hanging Knee Raise',
+    muscleGroup: 'core',
+    equipment: 'bodyweight',
+    compound: false,
+    progression: 'double_progression',
+    incrementKg: 0,
+    startingLoadPerKg: 0,
+  },
+};
+
+/**
+ * Sessions of each split, rotated over the week's workout days
+ */
+const SPLIT_SESSIONS: Record<SplitRoutine, Array<{ name: string; exercises: string[] }>> = {
+  full_body: [
+    {
+      name: 'Full Body A',
+      exercises: ['back_squat', 'bench_press', 'barbell_row', 'lateral_raise'],
+    },
+    {
+      name: 'Full Body B',
+      exercises: ['romanian_deadlift', 'overhead_press', 'lat_pulldown', 'dumbbell_lunge'],
+    },
+  ],
+  upper_lower: [
+    { name: 'Upper A', exercises: ['bench_press', 'barbell_row', 'overhead_press', 'bicep_curl'] },
+    {
+      name: 'Lower A',
+      exercises: ['back_squat', 'romanian_deadlift', 'leg_curl', 'hanging_knee_raise'],
+    },
+    {
+      name: 'Upper B',
+      exercises: ['incline_dumbbell_press', 'lat_pulldown', 'lateral_raise', 'triceps_pushdown'],
+    },
+    {
+      name: 'Lower B',
+      exercises: ['leg_press', 'dumbbell_lunge', 'calf_raise', 'hanging_knee_raise'],
+    },
+  ],
+  push_pull_legs: [
+    {
+      name: 'Push',
+      exercises: ['bench_press', 'overhead_press', 'incline_dumbbell_press', 'triceps_pushdown'],
+    },
+    { name: 'Pull', exercises: ['barbell_row', 'lat_pulldown', 'seated_cable_row', 'bicep_curl'] },
+    { name: 'Legs', exercises: ['back_squat', 'romanian_deadlift', 'leg_press', 'calf_raise'] },
+  ],
+};
+
+/**
+ * Sets and rep range for one kind of exercise
+ */
+export interface ExerciseVolume {
+  sets: number;
+  repRange: RepRange;
+}
+
+/**
+ * Sets and rep ranges by goal, for compound and accessory exercises
+ * Cuts keep heavier compounds to hold on to strength; health goals stay light
+ */
+const GOAL_VOLUME: Record<
+  PrimaryGoalValue,
+  { compound: ExerciseVolume; accessory: ExerciseVolume }
+> = {
+  lose_weight: {
+    compound: { sets: 3, repRange: { min: 6, max: 10 } },
+    accessory: { sets: 3, repRange: { min: 10, max: 15 } },
+  },
+  gain_muscle: {
+    compound: { sets: 4, repRange: { min: 6, max: 10 } },
+    accessory: { sets: 3, repRange: { min: 8, max: 12 } },
+  },
+  maintain: {
+    compound: { sets: 3, repRange: { min: 8, max: 12 } },
+    accessory: { sets: 2, repRange: { min: 10, max: 15 } },
+  },
+  improve_health: {
+    compound: { sets: 2, repRange: { min: 10, max: 15 } },
+    accessory: { sets: 2, repRange: { min: 12, max: 15 } },
+  },
+};
+
+/**
+ * Round a load to the exercise's increment, never below one increment
+ */
+function roundLoad(weight: number, incrementKg: number): number {
+  const rounded = Math.round(weight / incrementKg) * incrementKg;
+  return Math.max(incrementKg, Math.round(rounded * 100) / 100);
+}
+
+function clampReps(reps: number, repRange: RepRange): number {
+  return Math.min(Math.max(reps, repRange.min), repRange.max);
+}
+
+function formatKg(weight: number): string {
+  return `${Math.round(weight * 100) / 100} kg`;
+}
+
+/**
+ * Pick the split for the number of workout days
+ */
+export function selectSplit(primaryGoal: PrimaryGoalValue, daysPerWeek: number): SplitRoutine {
+  if (daysPerWeek >= 5 && primaryGoal === 'gain_muscle') {
+    return 'push_pull_legs';
+  }
+
+  return daysPerWeek >= 4 ? 'upper_lower' : 'full_body';
+}
+
+/**
+ * Prescribe the next session of an exercise from its logged history
+ *
+ * @param template - Exercise from the catalog
+ * @param volume - Sets and rep range for the user's goal
+ * @param history - Logged sessions of this exercise, newest first
+ * @param bodyWeight - Body weight in kg, for the first session's load
+ * @returns Sets, reps and weight with the reason for the change
+ *
+ * @remarks
+ * - First session: the bottom of the rep range at a share of body weight
+ * - Deload: after TRAINING_PROGRAM_SETTINGS.deloadAfterVeryHardSessions very_hard sessions in
+ *   a row, weight and sets are cut; the session after a deload goes back to the weight before it
+ * - double_progression: one more rep each session until every set reaches the top of the
+ *   range, then add one increment and start again at the bottom
+ * - rpe: easy adds an increment, moderate adds a rep, hard repeats, very_hard drops an increment
+ *   (double progression is used when no difficulty was logged)
+ * - Missing any prescribed set repeats the same weight
+ */
+export function prescribeExercise(
+  template: ExerciseTemplate,
+  volume: ExerciseVolume,
+  history: readonly ExerciseSessionLog[],
+  bodyWeight?: number
+): ExercisePrescription {
+  const { sets, repRange } = volume;
+  const base = {
+    exerciseKey: template.key,
+    exerciseName: template.name,
+    muscleGroup: template.muscleGroup,
+    repRange,
+    progression: template.progression,
+    deload: false,
+  };
+  const loaded = template.incrementKg > 0;
+  const [last, beforeLast] = history;
+
+  if (!last) {
+    return {
+      ...base,
+      sets,
+      reps: repRange.min,
+      weight:
+        loaded && bodyWeight
+          ? roundLoad(bodyWeight * template.startingLoadPerKg, template.incrementKg)
+          : null,
+      adjustment: 'start',
+      reason: 'First session: pick a weight you could lift for 2-3 more reps than prescribed',
+    };
+  }
+
+  const done = {
+    sets: last.actual.sets ?? last.prescribed.sets,
+    reps: last.actual.reps ?? last.prescribed.reps,
+    weight: loaded ? (last.actual.weight ?? last.prescribed.weight) : null,
+  };
+  const hold = (reason: string): ExercisePrescription => ({
+    ...base,
+    sets,
+    reps: clampReps(done.reps, repRange),
+    weight: done.weight,
+    adjustment: 'hold',
+    reason,
+  });
+  const addWeight = (reason: string): ExercisePrescription =>
+    done.weight === null
+      ? hold('Top of the rep range with body weight: slow the tempo or pause at the hardest point')
+      : {
+          ...base,
+          sets,
+          reps: repRange.min,
+          weight: roundLoad(done.weight + template.incrementKg, template.incrementKg),
+          adjustment: 'increase_weight',
+          reason,
+        };
+  const addRep = (reason: string): ExercisePrescription =>
+    done.reps >= repRange.max
+      ? addWeight(`Add ${template.incrementKg} kg: you reached ${repRange.max} reps last time`)
+      : {
+          ...base,
+          sets,
+          reps: clampReps(done.reps + 1, repRange),
+          weight: done.weight,
+          adjustment: 'increase_reps',
+          reason,
+        };
+
+  // The session after a deload picks up where training was before it
+  if (last.prescribed.deload && beforeLast) {
+    const weight = loaded ? (beforeLast.actual.weight ?? beforeLast.prescribed.weight) : null;
+    return {
+      ...base,
+      sets,
+      reps: clampReps(beforeLast.actual.reps ?? beforeLast.prescribed.reps, repRange),
+      weight,
+      adjustment: 'resume',
+      reason: 'Back to your working weight after the deload',
+    };
+  }
+
+  const veryHardStreak = history.findIndex(
+    (session) => session.difficulty !== 'very_hard' || session.prescribed.deload
+  );
+  const veryHardSessions = veryHardStreak === -1 ? history.length : veryHardStreak;
+  if (veryHardSessions >= TRAINING_PROGRAM_SETTINGS.deloadAfterVeryHardSessions) {
+    return {
+      ...base,
+      sets: Math.max(1, Math.round(sets * TRAINING_PROGRAM_SETTINGS.deloadSetFactor)),
+      reps: repRange.min,
+      weight:
+        done.weight === null
+          ? null
+          : roundLoad(
+              done.weight * TRAINING_PROGRAM_SETTINGS.deloadLoadFactor,
+              template.incrementKg
+            ),
+      adjustment: 'deload',
+      deload: true,
+      reason: `Deload: your last ${veryHardSessions} sessions felt very hard, so this one is lighter with fewer sets to recover`,
+    };
+  }
+
+  if (done.sets < last.prescribed.sets) {
+    return hold(
+      `You logged ${done.sets} of ${last.prescribed.sets} sets last time: repeat it before moving on`
+    );
+  }
+
+  if (template.progression === 'rpe' && last.difficulty) {
+    switch (last.difficulty) {
+      case 'easy':
+        return addWeight(`Last session felt easy: add ${template.incrementKg} kg`);
+      case 'moderate':
+        return addRep('Last session felt moderate: add a rep');
+      case 'hard':
+        return hold('Last session felt hard: repeat it');
+      case 'very_hard':
+        return done.weight === null
+          ? {
+              ...hold('Last session felt very hard: one rep fewer'),
+              reps: clampReps(done.reps - 1, repRange),
+            }
+          : {
+              ...base,
+              sets,
+              reps: clampReps(done.reps, repRange),
+              weight: roundLoad(done.weight - template.incrementKg, template.incrementKg),
+              adjustment: 'decrease_weight',
+              reason: `Last session felt very hard: drop ${template.incrementKg} kg`,
+            };
+    }
+  }
+
+  if (last.difficulty === 'very_hard') {
+    return hold('Last session felt very hard: repeat it');
+  }
+
+  if (done.reps >= repRange.max) {
+    return addWeight(
+      `Add ${template.incrementKg} kg: you reached ${repRange.max} reps on every set last time`
+    );
+  }
+
+  return addRep(
+    `One more rep than last time; add weight once you reach ${repRange.max} reps` +
+      (done.weight !== null ? ` at ${formatKg(done.weight)}` : '')
+  );
+}
+
+/**
+ * Inputs for building a week of training
+ */
+export interface TrainingProgramInput {
+  primaryGoal: PrimaryGoalValue;
+  activityLevel: ActivityLevelValue;
+  /** Logged sessions by exercise key, newest first */
+  history: ExerciseHistory;
+  /** Body weight in kg, for first-session loads */
+  bodyWeight?: number;
+}
+
+/**
+ * Build a week of training: the split for the goal and activity level, with every exercise
+ * progressed from its logged history
+ * Pure function - does not touch the database
+ */
+export function buildTrainingProgram(input: TrainingProgramInput): TrainingProgram {
+  const { primaryGoal, activityLevel, history, bodyWeight } = input;
+  const workoutDays = WORKOUT_DAYS[activityLevel];
+  const split = selectSplit(primaryGoal, workoutDays.length);
+  const splitSessions = SPLIT_SESSIONS[split];
+  const volume = GOAL_VOLUME[primaryGoal];
+
+  const sessions = workoutDays.map((isoWeekday, index) => {
+    const session = splitSessions[index % splitSessions.length];
+    const exercises = session.exercises.map((key) => {
+      const template = EXERCISE_TEMPLATES[key];
+      return prescribeExercise(
+        template,
+        template.compound ? volume.compound : volume.accessory,
+        history[key] ?? [],
+        bodyWeight
+      );
+    });
+    const totalSets = exercises.reduce((sum, exercise) => sum + exercise.sets, 0);
+    const duration =
+      Math.round(
+        (TRAINING_PROGRAM_SETTINGS.warmupMinutes +
+          totalSets * TRAINING_PROGRAM_SETTINGS.minutesPerSet) /
+          5
+      ) * 5;
+
+    return { isoWeekday, name: session.name, exercises, duration };
+  });
+
+  return {
+    split,
+    primaryGoal,
+    activityLevel,
+    daysPerWeek: workoutDays.length,
+    sessions,
+  };
+}
+
+/**
+ * Read a logged number from workout evidence
+ */
+function metricNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Training program service
+ * Loads workout evidence and builds the progressed program for a user
+ */
+export class TrainingProgramService {
+  /**
+   * Logged sessions of each program exercise, newest first
+   *
+   * @param userId - User ID
+   * @param now - End of the history window (defaults to now)
+   * @param executor - Database or open transaction to read with (defaults to db)
+   * @returns Sessions by exercise key from the last TRAINING_PROGRAM_SETTINGS.historyDays days
+   *
+   * @remarks
+   * Only metrics evidence on workout tasks generated by the program (with an exerciseKey)
+   * counts; unknown difficulty values are ignored
+   */
+  async getExerciseHistory(
+    userId: number,
+    now: Date = new Date(),
+    executor: DbTransaction | typeof db = db
+  ): Promise<ExerciseHistory> {
+    const rows = await executor
+      .select({
+        recordedAt: evidence.recordedAt,
+        metrics: evidence.metrics,
+        metadata: dailyTasks.metadata,
+      })
+      .from(evidence)
+      .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+      .where(
+        and(
+          eq(evidence.userId, userId),
+          eq(evidence.evidenceType, 'metrics'),
+          eq(dailyTasks.taskType, 'workout'),
+          isNotNull(sql`${dailyTasks.metadata}->>'exerciseKey'`),
+          gte(evidence.recordedAt, subDays(now, TRAINING_PROGRAM_SETTINGS.historyDays))
+        )
+      )
+      .orderBy(desc(evidence.recordedAt));
+
+    const history: Record<string, ExerciseSessionLog[]> = {};
+    for (const row of rows) {
+      const metadata = row.metadata ?? {};
+      const metrics = row.metrics ?? {};
+      if (!metadata.exerciseKey) {
+        continue;
+      }
+
+      const difficulty = (WORKOUT_DIFFICULTIES as readonly string[]).includes(
+        metrics.difficulty ?? ''
+      )
+        ? (metrics.difficulty as WorkoutDifficulty)
+        : undefined;
+
+      (history[metadata.exerciseKey] ??= []).push({
+        recordedAt: row.recordedAt,
+        prescribed: {
+          sets: metadata.sets ?? 0,
+          reps: metadata.reps ?? 0,
+          weight: metadata.weight ?? null,
+          deload: metadata.deload ?? false,
+        },
+        actual: {
+          sets: metricNumber(metrics.actualSets),
+          reps: metricNumber(metrics.actualReps),
+          weight: metricNumber(metrics.actualWeight),
+        },
+        difficulty,
+      });
+    }
+
+    return history;
+  }
+
+  /**
+   * Build this week's training program for a user
+   *
+   * @param userId - User ID
+   * @param now - Reference time for the evidence window (defaults to now)
+   * @returns Split, sessions and progressed prescriptions; nothing is stored
+   * @throws {AppError} 404 if the user has no settings, 400 before onboarding is complete
+   */
+  async getProgram(userId: number, now: Date = new Date()): Promise<TrainingProgram> {
+    const span = tracer.startSpan('training_program.get_program');
+
+    try {
+      span.setAttributes({ 'user.id': userId });
+
+      const [settings] = await db
+        .select({
+          primaryGoal: userSettings.primaryGoal,
+          activityLevel: userSettings.activityLevel,
+          currentWeight: userSettings.currentWeight,
+          onboardingCompleted: userSettings.onboardingCompleted,
+        })
+        .from(userSettings)
+        .where(eq(userSettings.userId, userId))
+        .limit(1);
+
+      if (!settings) {
+        throw new AppError(404, 'User settings not found');
+      }
+
+      if (!settings.onboardingCompleted) {
+        throw new AppError(400, 'Please complete onboarding before viewing your training program');
+      }
+
+      const history = await this.getExerciseHistory(userId, now);
+      const program = buildTrainingProgram({
+        primaryGoal: (settings.primaryGoal as PrimaryGoalValue) || 'maintain',
+        activityLevel: (settings.activityLevel as ActivityLevelValue) || 'sedentary',
+        history,
+        bodyWeight: settings.currentWeight ? parseFloat(settings.currentWeight) : undefined,
+      });
+
+      const deloads = program.sessions
+        .flatMap((session) => session.exercises)
+        .filter((exercise) => exercise.deload).length;
+
+      span.setAttributes({
+        'program.split': program.split,
+        'program.days_per_week': program.daysPerWeek,
+        'program.logged_exercises': Object.keys(history).length,
+        'program.deloads': deloads,
+      });
+
+      logger.debug(
+        { userId, split: program.split, loggedExercises: Object.keys(history).length, deloads },
+        'Training program built'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return program;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const trainingProgramService = new TrainingProgramService();
@@ -0,0 +1,124 @@
+import {
+  buildWeightReference,
+  evaluateWeighIn,
+  isSignificantWeightChange,
+  LoggedWeighIn,
+  selectCurrentWeighIn,
+} from './weight-sync';
+
+describe('WeightSyncService', () => {
+  const now = new Date('2025-03-15T08:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 86_400_000);
+
+  describe('buildWeightReference', () => {
+    it('should use the median of recent weigh-ins so one typo cannot skew it', () => {
+      const recent: LoggedWeighIn[] = [
+        { weight: 80.2, recordedAt: daysAgo(1) },
+        { weight: 8.02, recordedAt: daysAgo(2) }, // stored typo
+        { weight: 80.6, recordedAt: daysAgo(3) },
+      ];
+
+      const reference = buildWeightReference(recent, 82, daysAgo(60), now);
+
+      expect(reference).toEqual({ weight: 80.2, daysElapsed: 1 });
+    });
+
+    it('should only consider the most recent sample of weigh-ins', () => {
+      const recent: LoggedWeighIn[] = [
+        ...Array.from({ length: 5 }, (_, i) => ({ weight: 78, recordedAt: daysAgo(i + 1) })),
+        ...Array.from({ length: 5 }, (_, i) => ({ weight: 85, recordedAt: daysAgo(i + 10) })),
+      ];
+
+      expect(buildWeightReference(recent, null, null, now)?.weight).toBe(78);
+    });
+
+    it('should fall back to the stored weight and its age', () => {
+      expect(buildWeightReference([], 82.5, daysAgo(10), now)).toEqual({
+        weight: 82.5,
+        daysElapsed: 10,
+      });
+    });
+
+    it('should return null without weigh-ins or a stored weight', () => {
+      expect(buildWeightReference([], null, null, now)).toBeNull();
+    });
+  });
+
+  describe('evaluateWeighIn', () => {
+    it('should accept any valid weight without a reference', () => {
+      expect(evaluateWeighIn(95, null)).toEqual({ accepted: true, toleranceKg: null });
+    });
+
+    it('should reject weights outside the valid range', () => {
+      const check = evaluateWeighIn(8.25, null);
+
+      expect(check.accepted).toBe(false);
+      expect(check.reason).toBe('Weight must be between 30 and 300 kg');
+    });
+
+    it('should accept normal day-to-day fluctuation', () => {
+      expect(evaluateWeighIn(81.8, { weight: 80, daysElapsed: 1 }).accepted).toBe(true);
+    });
+
+    it('should reject a slipped digit against recent weigh-ins', () => {
+      const check = evaluateWeighIn(92.5, { weight: 82.5, daysElapsed: 1 });
+
+      expect(check.accepted).toBe(false);
+      // max(3, 5% of 82.5) + 0.2 × 1 day
+      expect(check.toleranceKg).toBe(4.33);
+      expect(check.reason).toBe(
+        '92.5 kg is 10.0 kg away from your recent weigh-ins (expected within 4.3 kg)'
+      );
+    });
+
+    it('should widen the tolerance with time since the reference', () => {
+      const reference = { weight: 80, daysElapsed: 30 };
+
+      // 4 + 0.2 × 30 = 10 kg
+      expect(evaluateWeighIn(89, reference).accepted).toBe(true);
+      expect(evaluateWeighIn(91, reference).accepted).toBe(false);
+    });
+
+    it('should cap the tolerance at 20% of the reference', () => {
+      const check = evaluateWeighIn(64, { weight: 80, daysElapsed: 365 });
+
+      expect(check.toleranceKg).toBe(16);
+      expect(check.accepted).toBe(true);
+      expect(evaluateWeighIn(63, { weight: 80, daysElapsed: 365 }).accepted).toBe(false);
+    });
+  });
+
+  describe('selectCurrentWeighIn', () => {
+    it('should pick the newest weigh-in', () => {
+      const weighIns: LoggedWeighIn[] = [
+        { weight: 80.6, recordedAt: daysAgo(3) },
+        { weight: 80.2, recordedAt: daysAgo(1) },
+        { weight: 80.4, recordedAt: daysAgo(2) },
+      ];
+
+      expect(selectCurrentWeighIn(weighIns)?.weight).toBe(80.2);
+    });
+
+    it('should skip a newest weigh-in that is an outlier', () => {
+      const weighIns: LoggedWeighIn[] = [
+        { weight: 8.02, recordedAt: daysAgo(1) }, // stored typo
+        { weight: 80.4, recordedAt: daysAgo(2) },
+        { weight: 80.6, recordedAt: daysAgo(3) },
+      ];
+
+      expect(selectCurrentWeighIn(weighIns)?.weight).toBe(80.4);
+    });
+
+    it('should return null without weigh-ins', () => {
+      expect(selectCurrentWeighIn([])).toBeNull();
+    });
+  });
+
+  describe('isSignificantWeightChange', () => {
+    it('should require at least 1 kg of drift in either direction', () => {
+      expect(isSignificantWeightChange(80.9, 80)).toBe(false);
+      expect(isSignificantWeightChange(81, 80)).toBe(true);
+      expect(isSignificantWeightChange(78.5, 80)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,541 @@
+import { db } from '../db/connection';
+import {
+  dailyTasks,
+  evidence,
+  initialPlanSnapshot,
+  profileChangeAudit,
+  userSettings,
+} from '../db/schema';
+import { and, desc, eq, gte, ne } from 'drizzle-orm';
+import { differenceInCalendarDays } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type { WeightSyncResult } from '@gtsd/shared-types';
+import { VALIDATION_RANGES, WEIGHT_SYNC_SETTINGS } from '@gtsd/shared-types';
+import { PlansService } from '../routes/plans/service';
+import { profileAuditService } from './profile-audit';
+
+const tracer = trace.getTracer('weight-sync-service');
+
+const plansService = new PlansService();
+
+/**
+ * Weight an incoming weigh-in is checked against
+ */
+export interface WeightReference {
+  weight: number; // kg
+  daysElapsed: number; // days since the reference was measured
+}
+
+/**
+ * Outcome of the outlier check for a single weigh-in
+ */
+export interface WeighInCheck {
+  accepted: boolean;
+  toleranceKg: number | null;
+  reason?: string;
+}
+
+/**
+ * A previously logged weigh-in
+ */
+export interface LoggedWeighIn {
+  weight: number; // kg
+  recordedAt: Date;
+}
+
+function roundKg(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Build the outlier reference from recent weigh-ins, falling back to the stored weight
+ *
+ * @param recent - Recent weigh-ins (any order), excluding the one being checked
+ * @param storedWeight - user_settings.currentWeight
+ * @param storedSince - When the stored weight was last set
+ * @param now - Reference time
+ * @returns Reference weight, or null when there is nothing to compare against
+ *
+ * @remarks
+ * The median of the most recent WEIGHT_SYNC_SETTINGS.referenceSampleSize weigh-ins is used
+ * so that a single earlier typo cannot drag the reference away.
+ */
+export function buildWeightReference(
+  recent: LoggedWeighIn[],
+  storedWeight: number | null,
+  storedSince: Date | null,
+  now: Date = new Date()
+): WeightReference | null {
+  if (recent.length > 0) {
+    const latest = [...recent]
+      .sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime())
+      .slice(0, WEIGHT_SYNC_SETTINGS.referenceSampleSize);
+
+    return {
+      weight: median(latest.map((w) => w.weight)),
+      daysElapsed: Math.max(0, differenceInCalendarDays(now, latest[0].recordedAt)),
+    };
+  }
+
+  if (storedWeight === null) {
+    return null;
+  }
+
+  return {
+    weight: storedWeight,
+    daysElapsed: storedSince ? Math.max(0, differenceInCalendarDays(now, storedSince)) : 0,
+  };
+}
+
+/**
+ * Check a weigh-in for obvious typos
+ *
+ * @param weight - Logged weight in kg
+ * @param reference - Reference weight (null accepts anything in the valid range)
+ * @returns Whether the weigh-in may update the current weight
+ *
+ * @remarks
+ * - Weights outside VALIDATION_RANGES.weight are always rejected
+ * - Otherwise the allowed distance is max(minKg, basePct × ref) + perDayKg × days elapsed,
+ *   capped at maxPct × ref, which absorbs day-to-day water swings but catches slipped
+ *   decimals and unit mix-ups
+ */
+export function evaluateWeighIn(weight: number, reference: WeightReference | null): WeighInCheck {
+  const { min, max } = VALIDATION_RANGES.weight;
+
+  if (!Number.isFinite(weight) || weight < min || weight > max) {
+    return {
+      accepted: false,
+      toleranceKg: null,
+      reason: `Weight must be between ${min} and ${max} kg`,
+    };
+  }
+
+  if (!reference) {
+    return { accepted: true, toleranceKg: null };
+  }
+
+  const { minKg, basePct, perDayKg, maxPct } = WEIGHT_SYNC_SETTINGS.tolerance;
+  const toleranceKg = roundKg(
+    Math.min(
+      reference.weight * maxPct,
+      Math.max(minKg, reference.weight * basePct) + perDayKg * reference.daysElapsed
+    )
+  );
+  const distance = Math.abs(weight - reference.weight);
+
+  if (distance > toleranceKg) {
+    return {
+      accepted: false,
+      toleranceKg,
+      reason: `${weight} kg is ${distance.toFixed(1)} kg away from your recent weigh-ins (expected within ${toleranceKg.toFixed(1)} kg)`,
+    };
+  }
+
+  return { accepted: true, toleranceKg };
+}
+
+/**
+ * Pick the weigh-in the current weight should reflect
+ *
+ * @param weighIns - Logged weigh-ins (any order)
+ * @returns The newest weigh-in that passes the outlier check against the ones before it,
+ * or null when there is none
+ */
+export function selectCurrentWeighIn<T extends LoggedWeighIn>(weighIns: T[]): T | null {
+  const newestFirst = [...weighIns].sort((a, b) => b.recordedAt.getTime() - a.recordedAt.getTime());
+
+  for (let i = 0; i < newestFirst.length; i++) {
+    const candidate = newestFirst[i];
+    const reference = buildWeightReference(
+      newestFirst.slice(i + 1),
+      null,
+      null,
+      candidate.recordedAt
+    );
+
+    if (evaluateWeighIn(candidate.weight, reference).accepted) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether weight drift since the last plan update is large enough to recompute targets
+ *
+ * @param newWeight - Current weight after the weigh-in (kg)
+ * @param weightAtLastUpdate - Weight the current targets were computed from (kg)
+ */
+export function isSignificantWeightChange(newWeight: number, weightAtLastUpdate: number): boolean {
+  return Math.abs(newWeight - weightAtLastUpdate) >= WEIGHT_SYNC_SETTINGS.recomputeThresholdKg;
+}
+
+/**
+ * Weigh-in sync service
+ * Makes weight_log evidence the source of truth for user_settings.currentWeight
+ */
+export class WeightSyncService {
+  /**
+   * Apply a weigh-in to the user's current weight
+   *
+   * @param userId - User ID
+   * @param evidenceId - The weight_log evidence carrying the weigh-in
+   * @param weight - Logged weight in kg
+   * @param now - Reference time (defaults to now)
+   * @returns What happened to the current weight and whether targets were recomputed
+   *
+   * @remarks
+   * - Outliers are left in evidence but do not touch currentWeight
+   * - Accepted changes are written to profile_change_audit with the evidence id
+   * - PlansService.recomputeForUser only runs once the weight has drifted at least
+   *   WEIGHT_SYNC_SETTINGS.recomputeThresholdKg from the weight behind the last plan update
+   */
+  async applyWeighIn(
+    userId: number,
+    evidenceId: number,
+    weight: number,
+    now: Date = new Date()
+  ): Promise<WeightSyncResult> {
+    const span = tracer.startSpan('weight_sync.apply_weigh_in');
+
+    try {
+      span.setAttributes({ 'user.id': userId, 'evidence.id': evidenceId });
+
+      const [settings] = await db
+        .select()
+        .from(userSettings)
+        .where(eq(userSettings.userId, userId))
+        .limit(1);
+
+      const previousWeight = settings?.currentWeight
+        ? parseFloat(settings.currentWeight.toString())
+        : null;
+
+      const since = new Date(now.getTime() - WEIGHT_SYNC_SETTINGS.referenceWindowDays * 86_400_000);
+      const rows = await db
+        .select({ metrics: evidence.metrics, recordedAt: evidence.recordedAt })
+        .from(evidence)
+        .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+        .where(
+          and(
+            eq(evidence.userId, userId),
+            eq(dailyTasks.taskType, 'weight_log'),
+            ne(evidence.id, evidenceId),
+            gte(evidence.recordedAt, since)
+          )
+        )
+        .orderBy(desc(evidence.recordedAt))
+        .limit(WEIGHT_SYNC_SETTINGS.referenceSampleSize);
+
+      // Metrics evidence may carry numbers as strings
+      const recent: LoggedWeighIn[] = rows
+        .map((row) => ({ weight: Number(row.metrics?.weight), recordedAt: row.recordedAt }))
+        .filter((w) => Number.isFinite(w.weight) && w.weight > 0);
+
+      // The stored weight is as old as its last change, not the last settings edit
+      const storedSince =
+        (await this.getCurrentWeightChangedAt(userId)) ??
+        settings?.onboardingCompletedAt ??
+        settings?.createdAt ??
+        null;
+      const reference = buildWeightReference(recent, previousWeight, storedSince, now);
+      const check = evaluateWeighIn(weight, reference);
+
+      span.setAttributes({
+        'weight_sync.reference_samples': recent.length,
+        'weight_sync.accepted': check.accepted,
+      });
+
+      if (!check.accepted) {
+        logger.warn(
+          { userId, evidenceId, toleranceKg: check.toleranceKg },
+          'Weigh-in rejected as outlier; current weight unchanged'
+        );
+        span.setStatus({ code: SpanStatusCode.OK });
+        return {
+          status: 'rejected',
+          loggedWeight: weight,
+          previousWeight,
+          currentWeight: previousWeight,
+          planRecomputed: false,
+          rejectionReason: check.reason,
+        };
+      }
+
+      const newWeight = roundKg(weight);
+
+      if (!settings || previousWeight === newWeight) {
+        span.setStatus({ code: SpanStatusCode.OK });
+        return {
+          status: 'unchanged',
+          loggedWeight: weight,
+          previousWeight,
+          currentWeight: previousWeight,
+          planRecomputed: false,
+        };
+      }
+
+      const { recomputeAttempted, planRecomputed } = await this.updateCurrentWeight(
+        userId,
+        previousWeight,
+        newWeight,
+        evidenceId
+      );
+
+      span.addEvent('current_weight_updated');
+      span.setAttributes({
+        'weight_sync.recompute_attempted': recomputeAttempted,
+        'weight_sync.plan_recomputed': planRecomputed,
+      });
+
+      logger.info(
+        { userId, evidenceId, recomputeAttempted, planRecomputed },
+        'Current weight updated from weigh-in'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return {
+        status: 'updated',
+        loggedWeight: weight,
+        previousWeight,
+        currentWeight: newWeight,
+        planRecomputed,
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Re-derive the current weight after weigh-ins were removed (e.g. a completion was undone)
+   *
+   * @param userId - User ID
+   * @param removed - The removed weigh-ins
+   * @param now - Reference time (defaults to now)
+   * @returns The restored current weight in kg, or null when it was left alone
+   *
+   * @remarks
+   * - Only acts when the current weight still matches a removed weigh-in
+   * - The newest remaining weigh-in that passes the outlier check wins; without one, the
+   *   weight before the latest change is restored
+   * - The same guarded recompute as applyWeighIn runs on the restored weight
+   */
+  async revertWeighIns(
+    userId: number,
+    removed: LoggedWeighIn[],
+    now: Date = new Date()
+  ): Promise<number | null> {
+    const span = tracer.startSpan('weight_sync.revert_weigh_ins');
+
+    try {
+      span.setAttributes({ 'user.id': userId, 'weight_sync.removed': removed.length });
+
+      const [settings] = await db
+        .select()
+        .from(userSettings)
+        .where(eq(userSettings.userId, userId))
+        .limit(1);
+
+      const previousWeight = settings?.currentWeight
+        ? parseFloat(settings.currentWeight.toString())
+        : null;
+
+      if (previousWeight === null || !removed.some((w) => roundKg(w.weight) === previousWeight)) {
+        span.setStatus({ code: SpanStatusCode.OK });
+        return null;
+      }
+
+      const since = new Date(now.getTime() - WEIGHT_SYNC_SETTINGS.referenceWindowDays * 86_400_000);
+      const rows = await db
+        .select({ id: evidence.id, metrics: evidence.metrics, recordedAt: evidence.recordedAt })
+        .from(evidence)
+        .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+        .where(
+          and(
+            eq(evidence.userId, userId),
+            eq(dailyTasks.taskType, 'weight_log'),
+            gte(evidence.recordedAt, since)
+          )
+        )
+        .orderBy(desc(evidence.recordedAt));
+
+      // Metrics evidence may carry numbers as strings
+      const remaining = rows
+        .map((row) => ({
+          evidenceId: row.id,
+          weight: Number(row.metrics?.weight),
+          recordedAt: row.recordedAt,
+        }))
+        .filter((w) => Number.isFinite(w.weight) && w.weight > 0);
+
+      const weighIn = selectCurrentWeighIn(remaining);
+      const restoredWeight = weighIn
+        ? roundKg(weighIn.weight)
+        : await this.getWeightBeforeLatestChange(userId);
+
+      if (restoredWeight === null || restoredWeight === previousWeight) {
+        span.setStatus({ code: SpanStatusCode.OK });
+        return null;
+      }
+
+      const { recomputeAttempted, planRecomputed } = await this.updateCurrentWeight(
+        userId,
+        previousWeight,
+        restoredWeight,
+        weighIn?.evidenceId
+      );
+
+      span.setAttributes({
+        'weight_sync.recompute_attempted': recomputeAttempted,
+        'weight_sync.plan_recomputed': planRecomputed,
+      });
+
+      logger.info(
+        { userId, restoredFromEvidenceId: weighIn?.evidenceId, recomputeAttempted, planRecomputed },
+        'Current weight restored after weigh-in removal'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return restoredWeight;
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Store a new current weight, recompute targets if it drifted enough, and audit the change
+   *
+   * @remarks
+   * PlansService.recomputeForUser only runs once the weight has drifted at least
+   * WEIGHT_SYNC_SETTINGS.recomputeThresholdKg from the weight behind the last plan update
+   */
+  private async updateCurrentWeight(
+    userId: number,
+    previousWeight: number | null,
+    newWeight: number,
+    evidenceId: number | undefined
+  ): Promise<{ recomputeAttempted: boolean; planRecomputed: boolean }> {
+    await db
+      .update(userSettings)
+      .set({ currentWeight: newWeight.toString(), updatedAt: new Date() })
+      .where(eq(userSettings.userId, userId));
+
+    // Only recompute once the weight has drifted from what the targets are based on
+    const weightAtLastUpdate = (await this.getWeightAtLastPlanUpdate(userId)) ?? previousWeight;
+    const recomputeAttempted =
+      weightAtLastUpdate === null || isSignificantWeightChange(newWeight, weightAtLastUpdate);
+
+    const recompute = recomputeAttempted ? await plansService.recomputeForUser(userId) : null;
+    const planRecomputed = recompute?.updated ?? false;
+
+    await profileAuditService.logChange(userId, 'currentWeight', previousWeight, newWeight, {
+      evidenceId,
+      triggeredPlanRegeneration: planRecomputed,
+      caloriesBefore: planRecomputed ? recompute?.previousCalories : undefined,
+      caloriesAfter: planRecomputed ? recompute?.newCalories : undefined,
+      proteinBefore: planRecomputed ? recompute?.previousProtein : undefined,
+      proteinAfter: planRecomputed ? recompute?.newProtein : undefined,
+    });
+
+    return { recomputeAttempted, planRecomputed };
+  }
+
+  /**
+   * When the current weight last changed, from the audit trail
+   */
+  private async getCurrentWeightChangedAt(userId: number): Promise<Date | null> {
+    const [lastChange] = await db
+      .select({ changedAt: profileChangeAudit.changedAt })
+      .from(profileChangeAudit)
+      .where(
+        and(
+          eq(profileChangeAudit.userId, userId),
+          eq(profileChangeAudit.fieldName, 'currentWeight')
+        )
+      )
+      .orderBy(desc(profileChangeAudit.changedAt))
+      .limit(1);
+
+    return lastChange?.changedAt ?? null;
+  }
+
+  /**
+   * Current weight before its latest change, from the audit trail
+   */
+  private async getWeightBeforeLatestChange(userId: number): Promise<number | null> {
+    const [lastChange] = await db
+      .select({ oldValue: profileChangeAudit.oldValue })
+      .from(profileChangeAudit)
+      .where(
+        and(
+          eq(profileChangeAudit.userId, userId),
+          eq(profileChangeAudit.fieldName, 'currentWeight')
+        )
+      )
+      .orderBy(desc(profileChangeAudit.changedAt))
+      .limit(1);
+
+    return lastChange?.oldValue ? roundKg(parseFloat(lastChange.oldValue)) : null;
+  }
+
+  /**
+   * Weight the current targets were computed from
+   *
+   * @remarks
+   * The latest currentWeight change that regenerated the plan, or the plan's start weight
+   */
+  private async getWeightAtLastPlanUpdate(userId: number): Promise<number | null> {
+    const [lastRegeneration] = await db
+      .select({ newValue: profileChangeAudit.newValue })
+      .from(profileChangeAudit)
+      .where(
+        and(
+          eq(profileChangeAudit.userId, userId),
+          eq(profileChangeAudit.fieldName, 'currentWeight'),
+          eq(profileChangeAudit.triggeredPlanRegeneration, true)
+        )
+      )
+      .orderBy(desc(profileChangeAudit.changedAt))
+      .limit(1);
+
+    if (lastRegeneration?.newValue) {
+      return parseFloat(lastRegeneration.newValue);
+    }
+
+    const [snapshot] = await db
+      .select({ startWeight: initialPlanSnapshot.startWeight })
+      .from(initialPlanSnapshot)
+      .where(eq(initialPlanSnapshot.userId, userId))
+      .limit(1);
+
+    return snapshot ? parseFloat(snapshot.startWeight.toString()) : null;
+  }
+}
+
+/**
+ * Singleton instance for reuse across the application
+ */
+export const weightSyncService = new WeightSyncService();
@@ -0,0 +1,170 @@
+import {
+  calculateTrendWeeklyRate,
+  detectPlateau,
+  flagOutliers,
+  RawWeightEntry,
+  summarizeWeeks,
+  trendAt,
+} from './weight-trend';
+import { computeWeightTrend, TrendPoint } from './adaptive-tdee';
+import { addLocalDays } from '../utils/timezone';
+
+describe('WeightTrendService', () => {
+  const start = '2025-03-03'; // Monday
+
+  const entry = (
+    day: number,
+    weight: number,
+    source: RawWeightEntry['source'] = 'weigh_in'
+  ): RawWeightEntry => {
+    const date = addLocalDays(start, day);
+    return { date, recordedAt: new Date(`${date}T07:00:00Z`), weight, source };
+  };
+
+  /** Trend points with the trend equal to the weight, one per day */
+  const linearPoints = (days: number, startWeight: number, perDay: number): TrendPoint[] =>
+    Array.from({ length: days }, (_, i) => {
+      const weight = startWeight + perDay * i;
+      return { date: addLocalDays(start, i), weight, trend: weight };
+    });
+
+  describe('flagOutliers', () => {
+    it('should exclude a slipped digit and keep the rest in order', () => {
+      const screened = flagOutliers([
+        entry(2, 80.1),
+        entry(0, 80.4),
+        entry(1, 8.02),
+        entry(3, 79.9),
+      ]);
+
+      expect(screened.map((e) => [e.weight, e.excluded])).toEqual([
+        [80.4, false],
+        [8.02, true],
+        [80.1, false],
+        [79.9, false],
+      ]);
+    });
+
+    it('should not let an excluded weigh-in become the reference', () => {
+      const screened = flagOutliers([entry(0, 80), entry(1, 95), entry(2, 80.5)]);
+
+      expect(screened.map((e) => e.excluded)).toEqual([false, true, false]);
+    });
+
+    it('should never exclude manual profile edits and restart the reference at them', () => {
+      const screened = flagOutliers([entry(0, 80), entry(1, 95, 'profile'), entry(2, 95.2)]);
+
+      expect(screened.map((e) => e.excluded)).toEqual([false, false, false]);
+    });
+  });
+
+  describe('trendAt', () => {
+    it('should return the latest point on or before the date', () => {
+      const points = computeWeightTrend([
+        { date: '2025-03-03', weight: 80 },
+        { date: '2025-03-06', weight: 79 },
+      ]);
+
+      expect(trendAt(points, '2025-03-02')).toBeUndefined();
+      expect(trendAt(points, '2025-03-05')?.date).toBe('2025-03-03');
+      expect(trendAt(points, '2025-03-06')?.date).toBe('2025-03-06');
+    });
+  });
+
+  describe('calculateTrendWeeklyRate', () => {
+    it('should measure the trend change per week over the rate window', () => {
+      const points = linearPoints(60, 90, -0.1);
+
+      expect(calculateTrendWeeklyRate(points, addLocalDays(start, 59))).toBeCloseTo(-0.7, 5);
+    });
+
+    it('should ignore points after the end date', () => {
+      const points = [...linearPoints(14, 80, 0), { date: '2025-04-30', weight: 70, trend: 70 }];
+
+      expect(calculateTrendWeeklyRate(points, addLocalDays(start, 13))).toBe(0);
+    });
+
+    it('should return null when the history spans less than a week', () => {
+      expect(
+        calculateTrendWeeklyRate(linearPoints(5, 80, -0.1), addLocalDays(start, 4))
+      ).toBeNull();
+      expect(calculateTrendWeeklyRate([], start)).toBeNull();
+    });
+  });
+
+  describe('detectPlateau', () => {
+    it('should flag a flat trend when the plan expects weight loss', () => {
+      const points = [...linearPoints(14, 85, -0.1), ...linearPoints(42, 83.7, 0).slice(14)];
+      const plateau = detectPlateau(points, addLocalDays(start, 41), 3, -0.5);
+
+      expect(plateau).toEqual({
+        detected: true,
+        weeks: 3,
+        trendChange: 0,
+        since: addLocalDays(start, 20),
+      });
+    });
+
+    it('should not flag a trend that is still moving', () => {
+      const plateau = detectPlateau(linearPoints(42, 85, -0.05), addLocalDays(start, 41), 3, -0.5);
+
+      expect(plateau.detected).toBe(false);
+      expect(plateau.trendChange).toBe(-1.05);
+    });
+
+    it('should not flag maintenance goals', () => {
+      const plateau = detectPlateau(linearPoints(42, 80, 0), addLocalDays(start, 41), 3, 0);
+
+      expect(plateau.detected).toBe(false);
+      expect(plateau.trendChange).toBe(0);
+    });
+
+    it('should need history before the window and an entry inside it', () => {
+      const endDate = addLocalDays(start, 41);
+
+      expect(detectPlateau(linearPoints(10, 80, 0), endDate, 3, -0.5)).toEqual({
+        detected: false,
+        weeks: 3,
+        trendChange: null,
+        since: null,
+      });
+      expect(
+        detectPlateau(linearPoints(42, 80, 0).slice(30), endDate, 3, -0.5).trendChange
+      ).toBeNull();
+    });
+  });
+
+  describe('summarizeWeeks', () => {
+    it('should cover every Monday-to-Sunday week overlapping the range', () => {
+      const entries = [
+        { date: '2025-03-04', weight: 80 },
+        { date: '2025-03-06', weight: 81 },
+        { date: '2025-03-18', weight: 79 },
+      ];
+      const points = computeWeightTrend(entries);
+
+      const weeks = summarizeWeeks(entries, points, '2025-03-05', '2025-03-19');
+
+      expect(weeks.map((w) => [w.weekStart, w.weekEnd, w.entryCount])).toEqual([
+        ['2025-03-03', '2025-03-09', 2],
+        ['2025-03-10', '2025-03-16', 0],
+        ['2025-03-17', '2025-03-23', 1],
+      ]);
+      expect(weeks[0].averageWeight).toBe(80.5);
+      expect(weeks[1]).toMatchObject({ averageWeight: null, trendWeight: null, change: null });
+      expect(weeks[2].change).toBeNull();
+    });
+
+    it('should report the trend change against the previous week', () => {
+      const points = linearPoints(14, 80, -0.1);
+      const entries = points.map(({ date, weight }) => ({ date, weight }));
+
+      const weeks = summarizeWeeks(entries, points, start, addLocalDays(start, 13));
+
+      expect(weeks).toHaveLength(2);
+      expect(weeks[0].trendWeight).toBe(79.4);
+      expect(weeks[1].trendWeight).toBe(78.7);
+      expect(weeks[1].change).toBe(-0.7);
+    });
+  });
+});
@@ -0,0 +1,408 @@
+import { db } from '../db/connection';
+import { dailyTasks, evidence, profileChangeAudit, userSettings } from '../db/schema';
+import { and, eq, gte, isNull, lte } from 'drizzle-orm';
+import { differenceInCalendarDays, endOfWeek, format, parseISO, startOfWeek } from 'date-fns';
+import { logger } from '../config/logger';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import type {
+  PrimaryGoalValue,
+  WeeklyWeightSummary,
+  WeightEntry,
+  WeightEntrySource,
+  WeightPlateau,
+  WeightProgressResponse,
+} from '@gtsd/shared-types';
+import { WEIGHT_SYNC_SETTINGS, WEIGHT_TREND_SETTINGS } from '@gtsd/shared-types';
+import { AppError } from '../middleware/error';
+import { computeWeightTrend, TrendPoint } from './adaptive-tdee';
+import { buildWeightReference, evaluateWeighIn, LoggedWeighIn } from './weight-sync';
+import { scienceService } from './science';
+import {
+  addLocalDays,
+  getLocalDateString,
+  getLocalDayBounds,
+  getUserTimezone,
+} from '../utils/timezone';
+
+const tracer = trace.getTracer('weight-trend-service');
+
+/**
+ * A weight entry before outlier screening
+ */
+export interface RawWeightEntry {
+  date: string; // YYYY-MM-DD, user's local date
+  recordedAt: Date;
+  weight: number; // kg
+  source: WeightEntrySource;
+}
+
+/**
+ * Optional range and plateau window for a weight progress query
+ */
+export interface WeightProgressQuery {
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  plateauWeeks?: number;
+}
+
+function roundKg(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Flag weigh-ins that would have been rejected as outliers
+ *
+ * @param entries - Entries in any order
+ * @returns Entries oldest first, each with an excluded flag
+ *
+ * @remarks
+ * Each weigh-in is checked the same way WeightSyncService checks it at logging time: against
+ * the median of the accepted entries from the preceding WEIGHT_SYNC_SETTINGS.referenceWindowDays.
+ * Manual profile edits are deliberate: they are never excluded and restart the reference.
+ */
+export function flagOutliers(
+  entries: RawWeightEntry[]
+): Array<RawWeightEntry & { excluded: boolean }> {
+  const sorted = [...entries].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const accepted: LoggedWeighIn[] = [];
+
+  return sorted.map((entry) => {
+    if (entry.source === 'weigh_in') {
+      const windowStart =
+        entry.recordedAt.getTime() - WEIGHT_SYNC_SETTINGS.referenceWindowDays * 86_400_000;
+      const recent = accepted.filter((w) => w.recordedAt.getTime() >= windowStart);
+      const reference = buildWeightReference(recent, null, null, entry.recordedAt);
+
+      if (!evaluateWeighIn(entry.weight, reference).accepted) {
+        return { ...entry, excluded: true };
+      }
+    } else {
+      accepted.length = 0;
+    }
+
+    accepted.push({ weight: entry.weight, recordedAt: entry.recordedAt });
+    return { ...entry, excluded: false };
+  });
+}
+
+/**
+ * Latest trend point on or before a date
+ *
+ * @param points - Trend points, oldest first
+ * @param date - Local date (YYYY-MM-DD)
+ */
+export function trendAt(points: TrendPoint[], date: string): TrendPoint | undefined {
+  let match: TrendPoint | undefined;
+  for (const point of points) {
+    if (point.date > date) {
+      break;
+    }
+    match = point;
+  }
+  return match;
+}
+
+/**
+ * Trend change per week over the days leading up to a date
+ *
+ * @param points - Trend points, oldest first
+ * @param endDate - Last local date considered (YYYY-MM-DD)
+ * @param windowDays - How far back to measure from the latest point
+ * @returns kg per week, or null when the points span less than WEIGHT_TREND_SETTINGS.minRateSpanDays
+ *
+ * @remarks
+ * Measured from the trend at the start of the window (or the first point, if the history
+ * is shorter) to the latest point on or before endDate
+ */
+export function calculateTrendWeeklyRate(
+  points: TrendPoint[],
+  endDate: string,
+  windowDays: number = WEIGHT_TREND_SETTINGS.rateWindowDays
+): number | null {
+  const end = trendAt(points, endDate);
+  if (!end) {
+    return null;
+  }
+
+  const start = trendAt(points, addLocalDays(end.date, -windowDays)) ?? points[0];
+  const spanDays = differenceInCalendarDays(parseISO(end.date), parseISO(start.date));
+
+  if (spanDays < WEIGHT_TREND_SETTINGS.minRateSpanDays) {
+    return null;
+  }
+
+  return roundKg(((end.trend - start.trend) / spanDays) * 7);
+}
+
+/**
+ * Detect a plateau: no meaningful trend movement over the last few weeks
+ *
+ * @param points - Trend points, oldest first
+ * @param endDate - Last local date considered (YYYY-MM-DD)
+ * @param weeks - Weeks to inspect
+ * @param targetWeeklyRate - Planned weekly change in kg
+ * @returns Plateau result; trendChange is null when there is not enough history
+ *
+ * @remarks
+ * - Needs a trend point on or before the window start and at least one entry inside the window
+ * - The trend is flat when it moved less than WEIGHT_TREND_SETTINGS.plateauMaxWeeklyChangeKg per week
+ * - Only flagged when the plan expects the weight to move (targetWeeklyRate !== 0)
+ */
+export function detectPlateau(
+  points: TrendPoint[],
+  endDate: string,
+  weeks: number,
+  targetWeeklyRate: number
+): WeightPlateau {
+  const since = addLocalDays(endDate, -weeks * 7);
+  const start = trendAt(points, since);
+  const end = trendAt(points, endDate);
+
+  if (!start || !end || end.date <= since) {
+    return { detected: false, weeks, trendChange: null, since: null };
+  }
+
+  const trendChange = roundKg(end.trend - start.trend);
+  const flat = Math.abs(trendChange) < WEIGHT_TREND_SETTINGS.plateauMaxWeeklyChangeKg * weeks;
+
+  return { detected: flat && targetWeeklyRate !== 0, weeks, trendChange, since };
+}
+
+/**
+ * Summarise every Monday-to-Sunday week overlapping a range
+ *
+ * @param entries - Included entries (outliers removed)
+ * @param points - Trend points, oldest first
+ * @param from - First local date of the range (YYYY-MM-DD)
+ * @param to - Last local date of the range (YYYY-MM-DD)
+ * @returns One summary per week, oldest first
+ */
+export function summarizeWeeks(
+  entries: Array<{ date: string; weight: number }>,
+  points: TrendPoint[],
+  from: string,
+  to: string
+): WeeklyWeightSummary[] {
+  const weeks: WeeklyWeightSummary[] = [];
+  let weekStart = format(startOfWeek(parseISO(from), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  let previousTrend: number | null = null;
+
+  while (weekStart <= to) {
+    const weekEnd = format(endOfWeek(parseISO(weekStart), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const inWeek = entries.filter((e) => e.date >= weekStart && e.date <= weekEnd);
+    const lastPoint = trendAt(points, weekEnd);
+    const trendWeight = inWeek.length > 0 && lastPoint ? roundKg(lastPoint.trend) : null;
+
+    weeks.push({
+      weekStart,
+      weekEnd,
+      entryCount: inWeek.length,
+      averageWeight:
+        inWeek.length > 0
+          ? roundKg(inWeek.reduce((sum, e) => sum + e.weight, 0) / inWeek.length)
+          : null,
+      trendWeight,
+      change:
+        trendWeight !== null && previousTrend !== null
+          ? roundKg(trendWeight - previousTrend)
+          : null,
+    });
+
+    previousTrend = trendWeight;
+    weekStart = addLocalDays(weekStart, 7);
+  }
+
+  return weeks;
+}
+
+/**
+ * Weight trend service
+ * Builds the weight history from weigh-ins and profile edits and derives trend analytics
+ */
+export class WeightTrendService {
+  /**
+   * Get weight history with a smoothed trend, weekly rate and plateau detection
+   *
+   * @param userId - User ID
+   * @param query - Optional range (defaults to the last WEIGHT_TREND_SETTINGS.defaultRangeDays)
+   * @param now - Reference time (defaults to now)
+   * @returns Weight progress for the range
+   * @throws {AppError} 400 if the range is reversed or longer than WEIGHT_TREND_SETTINGS.maxRangeDays
+   *
+   * @remarks
+   * - Weigh-ins come from weight_log evidence (metrics.weight)
+   * - Manual edits come from currentWeight rows in profile_change_audit without an evidence id
+   *   (rows with one mirror a weigh-in that is already counted)
+   * - WEIGHT_TREND_SETTINGS.leadInDays of earlier history seed the trend and outlier check
+   */
+  async getWeightProgress(
+    userId: number,
+    query: WeightProgressQuery = {},
+    now: Date = new Date()
+  ): Promise<WeightProgressResponse> {
+    const span = tracer.startSpan('weight_trend.get_weight_progress');
+
+    try {
+      span.setAttributes({ 'user.id': userId });
+
+      const timezone = await getUserTimezone(userId);
+      const to = query.to ?? getLocalDateString(timezone, now);
+      const from = query.from ?? addLocalDays(to, -(WEIGHT_TREND_SETTINGS.defaultRangeDays - 1));
+      const rangeDays = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+
+      if (Number.isNaN(rangeDays)) {
+        throw new AppError(400, 'from and to must be valid dates');
+      }
+      if (rangeDays < 1) {
+        throw new AppError(400, 'from must be on or before to');
+      }
+      if (rangeDays > WEIGHT_TREND_SETTINGS.maxRangeDays) {
+        throw new AppError(
+          400,
+          `Date range cannot exceed ${WEIGHT_TREND_SETTINGS.maxRangeDays} days`
+        );
+      }
+
+      const plateauWeeks = query.plateauWeeks ?? WEIGHT_TREND_SETTINGS.plateauWeeks;
+      const since = getLocalDayBounds(
+        addLocalDays(from, -WEIGHT_TREND_SETTINGS.leadInDays),
+        timezone
+      ).start;
+      const until = getLocalDayBounds(to, timezone).end;
+
+      span.setAttributes({
+        'weight_trend.from': from,
+        'weight_trend.to': to,
+        'weight_trend.plateau_weeks': plateauWeeks,
+      });
+
+      const [weighInRows, editRows, [settings]] = await Promise.all([
+        db
+          .select({ metrics: evidence.metrics, recordedAt: evidence.recordedAt })
+          .from(evidence)
+          .innerJoin(dailyTasks, eq(evidence.taskId, dailyTasks.id))
+          .where(
+            and(
+              eq(evidence.userId, userId),
+              eq(dailyTasks.taskType, 'weight_log'),
+              gte(evidence.recordedAt, since),
+              lte(evidence.recordedAt, until)
+            )
+          ),
+        db
+          .select({
+            newValue: profileChangeAudit.newValue,
+            changedAt: profileChangeAudit.changedAt,
+          })
+          .from(profileChangeAudit)
+          .where(
+            and(
+              eq(profileChangeAudit.userId, userId),
+              eq(profileChangeAudit.fieldName, 'currentWeight'),
+              isNull(profileChangeAudit.evidenceId),
+              gte(profileChangeAudit.changedAt, since),
+              lte(profileChangeAudit.changedAt, until)
+            )
+          ),
+        db
+          .select({ primaryGoal: userSettings.primaryGoal })
+          .from(userSettings)
+          .where(eq(userSettings.userId, userId))
+          .limit(1),
+      ]);
+
+      // Metrics evidence may carry numbers as strings
+      const raw: RawWeightEntry[] = [
+        ...weighInRows.map((row) => ({
+          recordedAt: row.recordedAt,
+          weight: Number(row.metrics?.weight),
+          source: 'weigh_in' as const,
+        })),
+        ...editRows.map((row) => ({
+          recordedAt: row.changedAt,
+          weight: Number(row.newValue),
+          source: 'profile' as const,
+        })),
+      ]
+        .filter((e) => Number.isFinite(e.weight) && e.weight > 0)
+        .map((e) => ({ ...e, date: getLocalDateString(timezone, e.recordedAt) }));
+
+      const screened = flagOutliers(raw);
+      const included = screened.filter((e) => !e.excluded);
+      const points = computeWeightTrend(included);
+
+      const goal = (settings?.primaryGoal as PrimaryGoalValue | null) || 'maintain';
+      const targetWeeklyRate = scienceService.calculateWeeklyRate(goal);
+      const actualWeeklyRate = calculateTrendWeeklyRate(points, to);
+      const difference =
+        actualWeeklyRate !== null ? roundKg(actualWeeklyRate - targetWeeklyRate) : null;
+
+      const inRange = <T extends { date: string }>(item: T) => item.date >= from && item.date <= to;
+      const entries: WeightEntry[] = screened.filter(inRange).map((e) => ({
+        date: e.date,
+        recordedAt: e.recordedAt.toISOString(),
+        weight: roundKg(e.weight),
+        source: e.source,
+        excluded: e.excluded,
+      }));
+      const trend = points.filter(inRange).map((p) => ({
+        date: p.date,
+        weight: roundKg(p.weight),
+        trend: roundKg(p.trend),
+      }));
+      const plateau = detectPlateau(points, to, plateauWeeks, targetWeeklyRate);
+
+      span.setAttributes({
+        'weight_trend.entries': entries.length,
+        'weight_trend.excluded': entries.filter((e) => e.excluded).length,
+        'weight_trend.plateau_detected': plateau.detected,
+      });
+
+      logger.debug(
+        {
+          userId,
+          from,
+          to,
+          entries: entries.length,
+          actualWeeklyRate,
+          plateauDetected: plateau.detected,
+        },
+        'Weight progress computed'
+      );
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      return {
+        from,
+        to,
+        entries,
+        trend,
+        weeks: summarizeWeeks(included, points, from, to),
+        rate: {
+          actualWeeklyRate,
+          targetWeeklyRate,
+          difference,
+          onTrack:
+            difference !== null
+              ? Math.abs(difference) <= WEIGHT_TREND_SETTINGS.onTrackToleranceKg
+              : null,
+        },
+        plateau,
+        latestTrendWeight: trend.length > 0 ? trend[trend.length - 1].trend : null,
+      };
+    } catch (error) {
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      span.recordException(error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Singleton instance for reuse across the application
+ */
+export const weightTrendService = new WeightTrendService();
@@ -5,6 +5,10 @@ import {
   generateRefreshToken,
   verifyAccessToken,
   getRefreshTokenExpiry,
+  generateOneTimeToken,
+  hashOneTimeToken,
+  getPasswordResetTokenExpiry,
+  getEmailVerificationTokenExpiry,
   validatePasswordStrength,
   extractTokenFromHeader,
 } from './auth';
@@ -146,6 +150,38 @@ describe('Auth Utilities', () => {
     });
   });
 
+  describe('One-Time Tokens', () => {
+    it('should generate 64 hex character tokens', () => {
+      const token = generateOneTimeToken();
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(generateOneTimeToken()).not.toBe(token);
+    });
+
+    it('should hash tokens deterministically without returning the original', () => {
+      const token = generateOneTimeToken();
+      const hash = hashOneTimeToken(token);
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(hash).not.toBe(token);
+      expect(hashOneTimeToken(token)).toBe(hash);
+    });
+
+    it('should expire password reset tokens approximately 1 hour in the future', () => {
+      const expiry = getPasswordResetTokenExpiry();
+      const minutesDiff = (expiry.getTime() - Date.now()) / (1000 * 60);
+
+      expect(minutesDiff).toBeCloseTo(60, 0);
+    });
+
+    it('should expire email verification tokens approximately 24 hours in the future', () => {
+      const expiry = getEmailVerificationTokenExpiry();
+      const hoursDiff = (expiry.getTime() - Date.now()) / (1000 * 60 * 60);
+
+      expect(hoursDiff).toBeCloseTo(24, 0);
+    });
+  });
+
   describe('Password Validation', () => {
     it('should accept strong password', () => {
       const result = validatePasswordStrength('SecurePass123!');
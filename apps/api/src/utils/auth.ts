@@ -1,10 +1,12 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
-import { randomBytes } from 'crypto';
+import { randomBytes, createHash } from 'crypto';
 import { env } from '../config/env';
 
 const SALT_ROUNDS = 12;
 const ACCESS_TOKEN_EXPIRY = '15m'; // 15 minutes
+export const PASSWORD_RESET_TOKEN_EXPIRY_MINUTES = 60;
+export const EMAIL_VERIFICATION_TOKEN_EXPIRY_HOURS = 24;
 
 // JWT payload interface
 export interface JWTPayload {
@@ -103,6 +105,43 @@ export function getRefreshTokenExpiry(): Date {
   return expiry;
 }
 
+/**
+ * Generate a secure random one-time token (password reset, email verification)
+ * @returns Random token string (sent to the user, never stored)
+ */
+export function generateOneTimeToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Hash a one-time token for storage and lookup
+ * @param token Plain token from the emailed link
+ * @returns SHA-256 hex digest
+ */
+export function hashOneTimeToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Calculate password reset token expiry date
+ * @returns Date object for token expiration
+ */
+export function getPasswordResetTokenExpiry(): Date {
+  const expiry = new Date();
+  expiry.setMinutes(expiry.getMinutes() + PASSWORD_RESET_TOKEN_EXPIRY_MINUTES);
+  return expiry;
+}
+
+/**
+ * Calculate email verification token expiry date
+ * @returns Date object for token expiration
+ */
+export function getEmailVerificationTokenExpiry(): Date {
+  const expiry = new Date();
+  expiry.setHours(expiry.getHours() + EMAIL_VERIFICATION_TOKEN_EXPIRY_HOURS);
+  return expiry;
+}
+
 /**
  * Validate password strength
  * @param password Password to validate
@@ -1,5 +1,6 @@
-import { sendPasswordResetEmail, sendPasswordChangedEmail } from './email';
+import { sendPasswordResetEmail, sendPasswordChangedEmail, sendVerificationEmail } from './email';
 import { logger } from '../config/logger';
+import { queueEmail } from '../services/email-delivery';
 
 // Mock logger to capture log calls
 jest.mock('../config/logger', () => ({
@@ -11,6 +12,20 @@ jest.mock('../config/logger', () => ({
   },
 }));
 
+// Mock the email queue; the log row echoes back the rendered subject
+jest.mock('../services/email-delivery', () => ({
+  queueEmail: jest.fn(
+    async ({ template, data }: { template: 'password_reset'; data: never }) => ({
+      id: 1,
+      subject: jest
+        .requireActual('../services/email-templates')
+        .renderEmailTemplate(template, data).subject,
+    })
+  ),
+}));
+
+const mockQueueEmail = queueEmail as jest.MockedFunction<typeof queueEmail>;
+
 // Mock console.log to verify output
 const originalConsoleLog = console.log;
 let consoleOutput: string[] = [];
@@ -62,7 +77,7 @@ describe('Email Service', () => {
           subject: 'Password Reset Request - GTSD',
           resetTokenLength: testToken.length,
         }),
-        'Password reset email would be sent (development mode)'
+        'Password reset email queued'
       );
     });
 
@@ -81,6 +96,34 @@ describe('Email Service', () => {
       );
     });
 
+    it('should queue the password_reset template with the reset link', async () => {
+      await sendPasswordResetEmail({
+        email: testEmail,
+        resetToken: testToken,
+        userName: testUserName,
+        userId: 7,
+      });
+
+      expect(mockQueueEmail).toHaveBeenCalledWith({
+        template: 'password_reset',
+        to: testEmail,
+        userId: 7,
+        data: {
+          userName: testUserName,
+          resetUrl: expect.stringContaining(`/reset-password?token=${testToken}`),
+          expiresInMinutes: 60,
+        },
+      });
+    });
+
+    it('should propagate queue failures to the caller', async () => {
+      mockQueueEmail.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+      await expect(
+        sendPasswordResetEmail({ email: testEmail, resetToken: testToken })
+      ).rejects.toThrow('Redis unavailable');
+    });
+
     it('should use FRONTEND_URL from environment', async () => {
       // Note: env.FRONTEND_URL is loaded at module import time,
       // so we can't easily change it in tests. This test verifies the function
@@ -143,7 +186,7 @@ describe('Email Service', () => {
         expect.objectContaining({
           to: testEmail,
         }),
-        'Password reset email would be sent (development mode)'
+        'Password reset email queued'
       );
     });
 
@@ -253,10 +296,65 @@ describe('Email Service', () => {
     });
   });
 
+  describe('sendVerificationEmail', () => {
+    const testEmail = 'test@example.com';
+    const testToken = 'b'.repeat(64);
+
+    it('should log email details without the token', async () => {
+      await sendVerificationEmail({ email: testEmail, verificationToken: testToken });
+
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: testEmail,
+          subject: 'Verify Your Email - GTSD',
+          verificationTokenLength: 64,
+        }),
+        'Verification email queued'
+      );
+    });
+
+    it('should include the token in the verification link', async () => {
+      await sendVerificationEmail({ email: testEmail, verificationToken: testToken });
+
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({
+          verifyUrl: expect.stringContaining(`/verify-email?token=${testToken}`),
+        }),
+        'Email verification link (development only)'
+      );
+    });
+
+    it('should queue the email_verification template', async () => {
+      await sendVerificationEmail({ email: testEmail, verificationToken: testToken, userId: 3 });
+
+      expect(mockQueueEmail).toHaveBeenCalledWith({
+        template: 'email_verification',
+        to: testEmail,
+        userId: 3,
+        data: {
+          userName: undefined,
+          verifyUrl: expect.stringContaining(`/verify-email?token=${testToken}`),
+          expiresInHours: 24,
+        },
+      });
+    });
+  });
+
   describe('sendPasswordChangedEmail', () => {
     const testEmail = 'test@example.com';
     const testUserName = 'Test User';
 
+    it('should queue the password_changed template', async () => {
+      await sendPasswordChangedEmail(testEmail, testUserName, 5);
+
+      expect(mockQueueEmail).toHaveBeenCalledWith({
+        template: 'password_changed',
+        to: testEmail,
+        userId: 5,
+        data: { userName: testUserName },
+      });
+    });
+
     it('should successfully send password changed email', async () => {
       await expect(
         sendPasswordChangedEmail(testEmail, testUserName)
@@ -271,7 +369,7 @@ describe('Email Service', () => {
           to: testEmail,
           subject: 'Password Changed Successfully - GTSD',
         }),
-        'Password changed confirmation email would be sent (development mode)'
+        'Password changed confirmation email queued'
       );
     });
 
@@ -1,22 +1,25 @@
 import { logger } from '../config/logger';
 import { env } from '../config/env';
+import { queueEmail } from '../services/email-delivery';
+import {
+  PASSWORD_RESET_TOKEN_EXPIRY_MINUTES,
+  EMAIL_VERIFICATION_TOKEN_EXPIRY_HOURS,
+} from './auth';
 
 /**
- * Email service for sending password reset emails
+ * Email helpers for account emails (password reset, password changed, verification)
  *
- * TODO: In production, integrate with an email service provider:
- * - SendGrid (recommended)
- * - AWS SES
- * - Mailgun
- * - Postmark
- *
- * For now, this logs the reset link to console for development/testing
+ * Each helper builds the template data and hands it to the email queue; the
+ * email worker renders and delivers it through the configured EMAIL_PROVIDER
+ * and records the outcome in email_logs. Outside production the links are
+ * also logged so flows can be exercised without a mail server.
  */
 
 export interface SendPasswordResetEmailParams {
   email: string;
   resetToken: string;
   userName?: string;
+  userId?: number;
 }
 
 /**
@@ -24,41 +27,29 @@ export interface SendPasswordResetEmailParams {
  * @param params Email parameters
  */
 export async function sendPasswordResetEmail(params: SendPasswordResetEmailParams): Promise<void> {
-  const { email, resetToken, userName: _userName } = params;
+  const { email, resetToken, userName, userId } = params;
 
-  // Construct reset link
-  // TODO: Update this URL based on your frontend configuration
   const resetUrl = `${env.FRONTEND_URL}/reset-password?token=${resetToken}`;
 
-  // Email content
-  const subject = 'Password Reset Request - GTSD';
-
-  // TODO: In production, replace this with actual email content templates
-  // For now, these are available as examples for email service integration:
-  // - Text body for plain text email clients
-  // - HTML body for rich email clients
-  // When integrating with SendGrid/SES/Mailgun, pass these as email content
-
-  // TODO: Replace this with actual email sending logic in production
-  // Example with SendGrid:
-  // const sgMail = require('@sendgrid/mail');
-  // sgMail.setApiKey(process.env.SENDGRID_API_KEY);
-  // await sgMail.send({
-  //   to: email,
-  //   from: 'noreply@gtsd.app',
-  //   subject,
-  //   text: textBody,
-  //   html: htmlBody,
-  // });
+  const emailLog = await queueEmail({
+    template: 'password_reset',
+    to: email,
+    userId,
+    data: {
+      userName,
+      resetUrl,
+      expiresInMinutes: PASSWORD_RESET_TOKEN_EXPIRY_MINUTES,
+    },
+  });
 
-  // For now, log to console for development
   logger.info(
     {
       to: email,
-      subject,
+      subject: emailLog.subject,
+      emailLogId: emailLog.id,
       resetTokenLength: resetToken.length,
     },
-    'Password reset email would be sent (development mode)'
+    'Password reset email queued'
   );
 
   // Log the reset link for easy testing in development
@@ -74,33 +65,80 @@ export async function sendPasswordResetEmail(params: SendPasswordResetEmailParam
     console.log(resetUrl);
     console.log('==============================================\n');
   }
-
-  // In production, you would throw an error if email sending fails
-  // For now, we always succeed
-  return Promise.resolve();
 }
 
 /**
  * Send password changed confirmation email
  * @param email User's email address
  * @param userName User's name
+ * @param userId User's id, for the delivery log
  */
 export async function sendPasswordChangedEmail(
   email: string,
-  _userName?: string
+  userName?: string,
+  userId?: number
 ): Promise<void> {
-  const subject = 'Password Changed Successfully - GTSD';
+  const emailLog = await queueEmail({
+    template: 'password_changed',
+    to: email,
+    userId,
+    data: { userName },
+  });
+
+  logger.info(
+    {
+      to: email,
+      subject: emailLog.subject,
+      emailLogId: emailLog.id,
+    },
+    'Password changed confirmation email queued'
+  );
+}
+
+export interface SendVerificationEmailParams {
+  email: string;
+  verificationToken: string;
+  userName?: string;
+  userId?: number;
+}
+
+/**
+ * Send email verification email with verification link
+ * @param params Email parameters
+ */
+export async function sendVerificationEmail(params: SendVerificationEmailParams): Promise<void> {
+  const { email, verificationToken, userName, userId } = params;
+
+  const verifyUrl = `${env.FRONTEND_URL}/verify-email?token=${verificationToken}`;
 
-  // TODO: In production, use actual email templates with text and HTML body
-  // When integrating with email service, include confirmation that password was changed
+  const emailLog = await queueEmail({
+    template: 'email_verification',
+    to: email,
+    userId,
+    data: {
+      userName,
+      verifyUrl,
+      expiresInHours: EMAIL_VERIFICATION_TOKEN_EXPIRY_HOURS,
+    },
+  });
 
   logger.info(
     {
       to: email,
-      subject,
+      subject: emailLog.subject,
+      emailLogId: emailLog.id,
+      verificationTokenLength: verificationToken.length,
     },
-    'Password changed confirmation email would be sent (development mode)'
+    'Verification email queued'
   );
 
-  return Promise.resolve();
+  // Log the verification link for easy testing in development
+  if (process.env.NODE_ENV !== 'production') {
+    logger.info(
+      {
+        verifyUrl,
+      },
+      'Email verification link (development only)'
+    );
+  }
 }
@@ -0,0 +1,92 @@
+import {
+  FALLBACK_TIMEZONE,
+  addLocalDays,
+  getLocalDateString,
+  getLocalDayBounds,
+  isValidTimezone,
+  resolveTimezone,
+} from './timezone';
+
+describe('Timezone Utilities', () => {
+  describe('isValidTimezone', () => {
+    it('should accept IANA timezone names', () => {
+      expect(isValidTimezone('America/Los_Angeles')).toBe(true);
+      expect(isValidTimezone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimezone('UTC')).toBe(true);
+    });
+
+    it('should reject unknown timezone names', () => {
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimezone('not a timezone')).toBe(false);
+    });
+  });
+
+  describe('resolveTimezone', () => {
+    it('should return a valid timezone unchanged', () => {
+      expect(resolveTimezone('Australia/Sydney')).toBe('Australia/Sydney');
+    });
+
+    it('should fall back to UTC for missing or invalid values', () => {
+      expect(resolveTimezone(null)).toBe(FALLBACK_TIMEZONE);
+      expect(resolveTimezone(undefined)).toBe(FALLBACK_TIMEZONE);
+      expect(resolveTimezone('')).toBe(FALLBACK_TIMEZONE);
+      expect(resolveTimezone('Invalid/Zone')).toBe(FALLBACK_TIMEZONE);
+    });
+  });
+
+  describe('getLocalDateString', () => {
+    const instant = new Date('2025-01-06T20:00:00Z');
+
+    it('should return the next day for timezones ahead of UTC', () => {
+      expect(getLocalDateString('Australia/Sydney', instant)).toBe('2025-01-07');
+      expect(getLocalDateString('Asia/Tokyo', instant)).toBe('2025-01-07');
+    });
+
+    it('should return the same day for timezones behind UTC', () => {
+      expect(getLocalDateString('America/Los_Angeles', instant)).toBe('2025-01-06');
+      expect(getLocalDateString('UTC', instant)).toBe('2025-01-06');
+    });
+  });
+
+  describe('getLocalDayBounds', () => {
+    it('should convert local midnight to UTC for timezones ahead of UTC', () => {
+      const { start, end } = getLocalDayBounds('2025-01-07', 'Asia/Tokyo');
+
+      expect(start.toISOString()).toBe('2025-01-06T15:00:00.000Z');
+      expect(end.toISOString()).toBe('2025-01-07T14:59:59.999Z');
+    });
+
+    it('should convert local midnight to UTC for timezones behind UTC', () => {
+      const { start, end } = getLocalDayBounds('2025-01-06', 'America/Los_Angeles');
+
+      expect(start.toISOString()).toBe('2025-01-06T08:00:00.000Z');
+      expect(end.toISOString()).toBe('2025-01-07T07:59:59.999Z');
+    });
+
+    it('should handle 23-hour days at the start of daylight saving time', () => {
+      const { start, end } = getLocalDayBounds('2025-03-09', 'America/New_York');
+      const hours = (end.getTime() + 1 - start.getTime()) / (60 * 60 * 1000);
+
+      expect(hours).toBe(23);
+    });
+
+    it('should contain instants that map back to the same local date', () => {
+      const { start, end } = getLocalDayBounds('2025-01-07', 'Australia/Sydney');
+
+      expect(getLocalDateString('Australia/Sydney', start)).toBe('2025-01-07');
+      expect(getLocalDateString('Australia/Sydney', end)).toBe('2025-01-07');
+    });
+  });
+
+  describe('addLocalDays', () => {
+    it('should shift dates across month and year boundaries', () => {
+      expect(addLocalDays('2025-01-31', 1)).toBe('2025-02-01');
+      expect(addLocalDays('2025-01-01', -1)).toBe('2024-12-31');
+    });
+
+    it('should not be affected by daylight saving transitions', () => {
+      expect(addLocalDays('2025-03-09', 1)).toBe('2025-03-10');
+      expect(addLocalDays('2025-11-02', -1)).toBe('2025-11-01');
+    });
+  });
+});
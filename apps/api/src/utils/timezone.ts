@@ -0,0 +1,118 @@
+import { eq } from 'drizzle-orm';
+import { addDays, format, parseISO } from 'date-fns';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { db } from '../db/connection';
+import { users } from '../db/schema';
+import { logger } from '../config/logger';
+
+/**
+ * Timezone helpers for resolving a user's local calendar day
+ * All "today" logic (tasks, evidence, compliance) should go through these helpers
+ * so that users outside the server's timezone see the correct day
+ */
+
+/**
+ * Fallback timezone when a user has none stored or the stored value is invalid
+ */
+export const FALLBACK_TIMEZONE = 'UTC';
+
+/**
+ * Local day boundaries expressed as UTC instants
+ */
+export interface LocalDayBounds {
+  /** First instant of the local day (00:00:00.000 local) */
+  start: Date;
+  /** Last instant of the local day (23:59:59.999 local) */
+  end: Date;
+}
+
+/**
+ * Check whether a string is a valid IANA timezone name
+ *
+ * @param timezone - Candidate timezone (e.g. 'Asia/Tokyo')
+ * @returns True if the runtime recognizes the timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize a stored timezone value, falling back to UTC when missing or invalid
+ *
+ * @param timezone - Timezone from the users table (may be null)
+ * @returns A timezone that is safe to pass to date-fns-tz
+ */
+export function resolveTimezone(timezone: string | null | undefined): string {
+  if (!timezone) {
+    return FALLBACK_TIMEZONE;
+  }
+
+  if (!isValidTimezone(timezone)) {
+    logger.warn({ timezone }, 'Invalid user timezone, using UTC fallback');
+    return FALLBACK_TIMEZONE;
+  }
+
+  return timezone;
+}
+
+/**
+ * Get the local calendar date for an instant in a timezone
+ *
+ * @param timezone - IANA timezone
+ * @param instant - Point in time (defaults to now)
+ * @returns Date string in YYYY-MM-DD format
+ *
+ * @example
+ * getLocalDateString('Australia/Sydney', new Date('2025-01-06T20:00:00Z')); // '2025-01-07'
+ */
+export function getLocalDateString(timezone: string, instant: Date = new Date()): string {
+  return formatInTimeZone(instant, timezone, 'yyyy-MM-dd');
+}
+
+/**
+ * Shift a local calendar date by a number of days
+ * Pure calendar arithmetic - unaffected by DST or the server's timezone
+ *
+ * @param dateString - Local date in YYYY-MM-DD format
+ * @param days - Days to add (negative to go back)
+ * @returns Shifted date in YYYY-MM-DD format
+ */
+export function addLocalDays(dateString: string, days: number): string {
+  return format(addDays(parseISO(dateString), days), 'yyyy-MM-dd');
+}
+
+/**
+ * Get the UTC boundaries of a local calendar day
+ * Handles DST transitions (days may be 23 or 25 hours long)
+ *
+ * @param dateString - Local date in YYYY-MM-DD format
+ * @param timezone - IANA timezone
+ * @returns Start and end instants of the local day
+ */
+export function getLocalDayBounds(dateString: string, timezone: string): LocalDayBounds {
+  return {
+    start: fromZonedTime(`${dateString}T00:00:00.000`, timezone),
+    end: fromZonedTime(`${dateString}T23:59:59.999`, timezone),
+  };
+}
+
+/**
+ * Look up a user's stored timezone
+ *
+ * @param userId - User ID
+ * @returns The user's IANA timezone, or UTC if not set
+ */
+export async function getUserTimezone(userId: number): Promise<string> {
+  const [user] = await db
+    .select({ timezone: users.timezone })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return resolveTimezone(user?.timezone);
+}
@@ -0,0 +1,27 @@
+import { isValidLocalDate, localDateSchema } from './validation';
+
+describe('Validation Utilities', () => {
+  describe('isValidLocalDate', () => {
+    it('should accept real calendar dates', () => {
+      expect(isValidLocalDate('2025-01-06')).toBe(true);
+      expect(isValidLocalDate('2024-02-29')).toBe(true);
+    });
+
+    it('should reject impossible and malformed dates', () => {
+      expect(isValidLocalDate('2025-02-29')).toBe(false);
+      expect(isValidLocalDate('2025-02-31')).toBe(false);
+      expect(isValidLocalDate('2026-10-32')).toBe(false);
+      expect(isValidLocalDate('2025-1-6')).toBe(false);
+    });
+  });
+
+  describe('localDateSchema', () => {
+    it('should report impossible dates as validation errors', () => {
+      expect(localDateSchema.safeParse('2025-03-01').success).toBe(true);
+
+      const result = localDateSchema.safeParse('2025-02-30');
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].message).toBe('Invalid date provided');
+    });
+  });
+});
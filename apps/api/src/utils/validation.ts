@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * Shared request validation helpers
+ */
+
+/**
+ * Check whether a YYYY-MM-DD string is a date that exists on the calendar
+ *
+ * @param dateString - Candidate local date
+ * @returns False for malformed strings and impossible dates such as 2025-02-31
+ */
+export function isValidLocalDate(dateString: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) {
+    return false;
+  }
+  const date = new Date(`${dateString}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(dateString);
+}
+
+/**
+ * Local calendar date in YYYY-MM-DD format that exists on the calendar
+ * Impossible dates fail validation (400) instead of reaching date arithmetic (500)
+ */
+export const localDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine(isValidLocalDate, { message: 'Invalid date provided' });
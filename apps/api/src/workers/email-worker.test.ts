@@ -0,0 +1,171 @@
+import { Job } from 'bullmq';
+import { processEmailJob } from './email-worker';
+import { db } from '../db/connection';
+import { EmailJobData } from '../config/queue';
+import { EmailProvider, SendEmailResult } from '../services/email-provider';
+
+/**
+ * Mock setup
+ */
+jest.mock('../db/connection');
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+/**
+ * Mock `db.select().from().where().limit()` to resolve each call with the next result set
+ */
+function mockSelectResults(...results: unknown[][]) {
+  const limit = jest.fn();
+  results.forEach((rows) => limit.mockResolvedValueOnce(rows));
+
+  mockDb.select = jest.fn().mockReturnValue({
+    from: jest.fn().mockReturnValue({
+      where: jest.fn().mockReturnValue({ limit }),
+    }),
+  }) as unknown as typeof mockDb.select;
+}
+
+/**
+ * Mock `db.update().set().where()` and return the `set` mock for assertions
+ */
+function mockUpdate(): jest.Mock {
+  const set = jest.fn().mockReturnValue({
+    where: jest.fn().mockResolvedValue(undefined),
+  });
+  mockDb.update = jest.fn().mockReturnValue({ set }) as unknown as typeof mockDb.update;
+  return set;
+}
+
+function createProvider(result: SendEmailResult): EmailProvider & { send: jest.Mock } {
+  return {
+    name: 'test',
+    send: jest.fn().mockResolvedValue(result),
+  };
+}
+
+function createJob(attemptsMade = 0): Job<EmailJobData> {
+  return {
+    id: 'job-1',
+    attemptsMade,
+    data: {
+      emailLogId: 42,
+      template: 'password_reset',
+      to: 'jane@example.com',
+      data: {
+        userName: 'Jane',
+        resetUrl: 'https://app.example.com/reset-password?token=abc',
+        expiresInMinutes: 60,
+      },
+    },
+  } as unknown as Job<EmailJobData>;
+}
+
+const queuedLog = { id: 42, status: 'queued', toEmail: 'jane@example.com' };
+
+describe('Email Worker', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render the template, send it and mark the log as sent', async () => {
+    mockSelectResults([queuedLog], []);
+    const set = mockUpdate();
+    const provider = createProvider({ success: true, messageId: '<abc@mailhog>' });
+
+    await processEmailJob(createJob(), provider);
+
+    expect(provider.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'jane@example.com',
+        subject: 'Password Reset Request - GTSD',
+        text: expect.stringContaining('https://app.example.com/reset-password?token=abc'),
+        html: expect.stringContaining('https://app.example.com/reset-password?token=abc'),
+      })
+    );
+    expect(set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'sent',
+        providerMessageId: '<abc@mailhog>',
+        attempts: 1,
+        sentAt: expect.any(Date),
+      })
+    );
+  });
+
+  it('should mark the log as failed and throw on a transient failure so BullMQ retries', async () => {
+    mockSelectResults([queuedLog], []);
+    const set = mockUpdate();
+    const provider = createProvider({
+      success: false,
+      errorMessage: 'Connection refused',
+      errorCode: 'ECONNECTION',
+      permanent: false,
+    });
+
+    await expect(processEmailJob(createJob(1), provider)).rejects.toThrow(
+      'Email send failed: Connection refused'
+    );
+
+    expect(set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'failed',
+        attempts: 2,
+        errorMessage: 'Connection refused',
+      })
+    );
+  });
+
+  it('should record a hard bounce without retrying', async () => {
+    mockSelectResults([queuedLog], []);
+    const set = mockUpdate();
+    const provider = createProvider({
+      success: false,
+      errorMessage: '550 5.1.1 User unknown',
+      errorCode: 'EENVELOPE',
+      permanent: true,
+    });
+
+    await expect(processEmailJob(createJob(), provider)).resolves.toBeUndefined();
+
+    expect(set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'bounced',
+        bouncedAt: expect.any(Date),
+        errorMessage: '550 5.1.1 User unknown',
+      })
+    );
+  });
+
+  it('should suppress sends to an address that recently bounced', async () => {
+    mockSelectResults([queuedLog], [{ id: 7 }]);
+    const set = mockUpdate();
+    const provider = createProvider({ success: true, messageId: 'unused' });
+
+    await processEmailJob(createJob(), provider);
+
+    expect(provider.send).not.toHaveBeenCalled();
+    expect(set).toHaveBeenCalledWith(expect.objectContaining({ status: 'suppressed' }));
+  });
+
+  it('should skip messages that were already sent', async () => {
+    mockSelectResults([{ ...queuedLog, status: 'sent' }]);
+    mockUpdate();
+    const provider = createProvider({ success: true, messageId: 'unused' });
+
+    await processEmailJob(createJob(1), provider);
+
+    expect(provider.send).not.toHaveBeenCalled();
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+
+  it('should skip jobs whose log row no longer exists', async () => {
+    mockSelectResults([]);
+    mockUpdate();
+    const provider = createProvider({ success: true, messageId: 'unused' });
+
+    await processEmailJob(createJob(), provider);
+
+    expect(provider.send).not.toHaveBeenCalled();
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+});
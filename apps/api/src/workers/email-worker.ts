@@ -0,0 +1,258 @@
+import { Worker, Job } from 'bullmq';
+import { EmailJobData } from '../config/queue';
+import { logger } from '../config/logger';
+import { db } from '../db/connection';
+import { emailLogs } from '../db/schema';
+import { eq, and, gte, ne } from 'drizzle-orm';
+import { emailProvider, EmailProvider, maskEmail } from '../services/email-provider';
+import { renderEmailTemplate } from '../services/email-templates';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { emailCounter, emailDuration } from '../metrics/email-metrics';
+
+const tracer = trace.getTracer('email-worker');
+
+/**
+ * How long a hard bounce suppresses further sends to the same address
+ */
+export const BOUNCE_SUPPRESSION_DAYS = 30;
+
+/**
+ * Process email job
+ *
+ * Renders the template, sends it through the provider and records the outcome
+ * on the email_logs row. Transient failures throw so BullMQ retries the job;
+ * hard bounces are recorded and not retried.
+ *
+ * @param job - Email job
+ * @param provider - Email provider (defaults to the configured singleton)
+ */
+export async function processEmailJob(
+  job: Job<EmailJobData>,
+  provider: EmailProvider = emailProvider
+): Promise<void> {
+  const span = tracer.startSpan('email_worker.process_job');
+  const { emailLogId, template, to } = job.data;
+  const timer = emailDuration.startTimer({ template });
+
+  try {
+    span.setAttributes({
+      'email.log_id': emailLogId,
+      'email.template': template,
+      'email.provider': provider.name,
+      'job.attempt': job.attemptsMade + 1,
+    });
+
+    logger.info(
+      { jobId: job.id, emailLogId, template, attempt: job.attemptsMade + 1 },
+      'Processing email job'
+    );
+
+    const [emailLog] = await db
+      .select()
+      .from(emailLogs)
+      .where(eq(emailLogs.id, emailLogId))
+      .limit(1);
+
+    if (!emailLog) {
+      logger.warn({ emailLogId, jobId: job.id }, 'Email log not found, skipping email');
+      span.setAttribute('skip_reason', 'log_not_found');
+      span.setStatus({ code: SpanStatusCode.ERROR, message: 'Email log not found' });
+      return;
+    }
+
+    // A retried job may find its message already delivered or bounced
+    if (emailLog.status !== 'queued' && emailLog.status !== 'failed') {
+      logger.info(
+        { emailLogId, status: emailLog.status, jobId: job.id },
+        'Email already processed, skipping'
+      );
+      span.setAttribute('skip_reason', 'already_processed');
+      span.setStatus({ code: SpanStatusCode.OK });
+      return;
+    }
+
+    // Suppress sends to addresses that recently hard-bounced
+    const suppressionCutoff = new Date(Date.now() - BOUNCE_SUPPRESSION_DAYS * 24 * 60 * 60 * 1000);
+    const [recentBounce] = await db
+      .select({ id: emailLogs.id })
+      .from(emailLogs)
+      .where(
+        and(
+          eq(emailLogs.toEmail, to),
+          eq(emailLogs.status, 'bounced'),
+          gte(emailLogs.bouncedAt, suppressionCutoff),
+          ne(emailLogs.id, emailLogId)
+        )
+      )
+      .limit(1);
+
+    if (recentBounce) {
+      await db
+        .update(emailLogs)
+        .set({
+          status: 'suppressed',
+          errorMessage: `Address hard-bounced within the last ${BOUNCE_SUPPRESSION_DAYS} days`,
+          updatedAt: new Date(),
+        })
+        .where(eq(emailLogs.id, emailLogId));
+
+      emailCounter.inc({ template, status: 'suppressed' });
+
+      logger.info(
+        { emailLogId, to: maskEmail(to), bouncedLogId: recentBounce.id },
+        'Recipient recently bounced, suppressing email'
+      );
+      span.setAttribute('skip_reason', 'recent_bounce');
+      span.setStatus({ code: SpanStatusCode.OK });
+      return;
+    }
+
+    const rendered = renderEmailTemplate(job.data.template, job.data.data);
+    const result = await provider.send({ to, ...rendered });
+    const attempts = job.attemptsMade + 1;
+
+    if (result.success) {
+      await db
+        .update(emailLogs)
+        .set({
+          status: 'sent',
+          providerMessageId: result.messageId,
+          attempts,
+          sentAt: new Date(),
+          errorMessage: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(emailLogs.id, emailLogId));
+
+      emailCounter.inc({ template, status: 'sent' });
+
+      logger.info({ emailLogId, template, messageId: result.messageId }, 'Email sent successfully');
+
+      span.setAttribute('email.message_id', result.messageId || '');
+      span.setStatus({ code: SpanStatusCode.OK });
+      return;
+    }
+
+    if (result.permanent) {
+      // Hard bounce: record it and stop - retrying a rejected address never helps
+      await db
+        .update(emailLogs)
+        .set({
+          status: 'bounced',
+          attempts,
+          bouncedAt: new Date(),
+          errorMessage: result.errorMessage,
+          updatedAt: new Date(),
+        })
+        .where(eq(emailLogs.id, emailLogId));
+
+      emailCounter.inc({ template, status: 'bounced' });
+
+      logger.warn(
+        {
+          emailLogId,
+          to: maskEmail(to),
+          errorCode: result.errorCode,
+          errorMessage: result.errorMessage,
+        },
+        'Email bounced'
+      );
+
+      span.setAttribute('email.bounced', true);
+      span.setStatus({ code: SpanStatusCode.OK });
+      return;
+    }
+
+    await db
+      .update(emailLogs)
+      .set({
+        status: 'failed',
+        attempts,
+        errorMessage: result.errorMessage,
+        updatedAt: new Date(),
+      })
+      .where(eq(emailLogs.id, emailLogId));
+
+    emailCounter.inc({ template, status: 'failed' });
+
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: result.errorMessage || 'Failed to send email',
+    });
+
+    // Throw error to trigger retry
+    throw new Error(`Email send failed: ${result.errorMessage}`);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    logger.error(
+      {
+        err: error,
+        jobId: job.id,
+        emailLogId,
+        template,
+      },
+      'Error processing email job'
+    );
+
+    if (error instanceof Error) {
+      span.recordException(error);
+    }
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: errorMessage,
+    });
+
+    throw error; // Re-throw to trigger BullMQ retry
+  } finally {
+    timer();
+    span.end();
+  }
+}
+
+/**
+ * Create email worker
+ */
+export const createEmailWorker = (connection: { host: string; port: number }) => {
+  const worker = new Worker<EmailJobData>(
+    'email',
+    async (job) => {
+      await processEmailJob(job);
+    },
+    {
+      connection,
+      autorun: true,
+      concurrency: 5, // Process up to 5 email jobs concurrently
+    }
+  );
+
+  worker.on('completed', (job) => {
+    logger.info(
+      {
+        jobId: job.id,
+        emailLogId: job.data.emailLogId,
+        template: job.data.template,
+      },
+      'Email job completed'
+    );
+  });
+
+  worker.on('failed', (job, err) => {
+    logger.error(
+      {
+        jobId: job?.id,
+        emailLogId: job?.data?.emailLogId,
+        template: job?.data?.template,
+        err,
+        attemptsMade: job?.attemptsMade,
+      },
+      'Email job failed'
+    );
+  });
+
+  worker.on('stalled', (jobId) => {
+    logger.warn({ jobId }, 'Email job stalled');
+  });
+
+  return worker;
+};
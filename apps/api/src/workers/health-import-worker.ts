@@ -0,0 +1,84 @@
+import { Worker, Job } from 'bullmq';
+import { HealthImportJobData } from '../config/queue';
+import { logger } from '../config/logger';
+import { healthImportService } from '../services/health-import';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+
+const tracer = trace.getTracer('health-import-worker');
+
+/**
+ * Process health import job
+ */
+async function processHealthImportJob(job: Job<HealthImportJobData>): Promise<void> {
+  const span = tracer.startSpan('health_import_worker.process_job');
+  const { importId } = job.data;
+
+  try {
+    span.setAttribute('import.id', importId);
+    logger.info({ jobId: job.id, importId }, 'Processing health import job');
+
+    const counts = await healthImportService.processImport(importId, (progress) =>
+      job.updateProgress(progress)
+    );
+
+    span.setAttributes({
+      'import.weigh_ins': counts.weighIns,
+      'import.workouts': counts.workouts,
+      'import.step_days': counts.stepDays,
+      'import.duplicates_skipped': counts.duplicatesSkipped,
+    });
+    span.setStatus({ code: SpanStatusCode.OK });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    logger.error({ err: error, jobId: job.id, importId }, 'Error processing health import job');
+
+    if (error instanceof Error) {
+      span.recordException(error);
+    }
+    span.setStatus({ code: SpanStatusCode.ERROR, message: errorMessage });
+
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Create health import worker
+ */
+export const createHealthImportWorker = (connection: { host: string; port: number }) => {
+  const worker = new Worker<HealthImportJobData>(
+    'health-import',
+    async (job) => {
+      await processHealthImportJob(job);
+    },
+    {
+      connection,
+      autorun: true,
+      concurrency: 1, // Exports can be large; read one at a time
+    }
+  );
+
+  worker.on('completed', (job) => {
+    logger.info({ jobId: job.id, importId: job.data.importId }, 'Health import job completed');
+  });
+
+  worker.on('failed', (job, err) => {
+    logger.error(
+      {
+        jobId: job?.id,
+        importId: job?.data?.importId,
+        err,
+        attemptsMade: job?.attemptsMade,
+      },
+      'Health import job failed'
+    );
+  });
+
+  worker.on('stalled', (jobId) => {
+    logger.warn({ jobId }, 'Health import job stalled');
+  });
+
+  return worker;
+};
@@ -1,5 +1,6 @@
-import { createEmailWorker } from '../config/queue';
+import { createEmailWorker } from './email-worker';
 import { createSmsWorker } from './sms-worker';
+import { createHealthImportWorker } from './health-import-worker';
 import { logger } from '../config/logger';
 import { env } from '../config/env';
 
@@ -11,10 +12,11 @@ const connection = {
 const startWorkers = () => {
   logger.info('Starting background workers...');
 
-  const emailWorker = createEmailWorker();
+  const emailWorker = createEmailWorker(connection);
   const smsWorker = createSmsWorker(connection);
+  const healthImportWorker = createHealthImportWorker(connection);
 
-  logger.info('Workers started: email, sms');
+  logger.info('Workers started: email, sms, health-import');
 
   // Graceful shutdown
   const shutdown = async (signal: string) => {
@@ -24,6 +26,7 @@ const startWorkers = () => {
       await Promise.all([
         emailWorker.close(),
         smsWorker.close(),
+        healthImportWorker.close(),
       ]);
       logger.info('Workers shut down successfully');
       process.exit(0);
@@ -130,6 +130,15 @@ async function processSmsJob(job: Job<SmsJobData>): Promise<void> {
       return;
     }
 
+    // SMS opt-in defaults on, so only send once the account's email is verified
+    if (!user.emailVerified) {
+      logger.info({ userId, jobId: job.id }, 'User email not verified, skipping SMS');
+      span.setAttribute('skip_reason', 'email_unverified');
+      span.setStatus({ code: SpanStatusCode.OK });
+      span.end();
+      return;
+    }
+
     // Validate phone number
     if (!TwilioService.isValidPhoneNumber(user.phone)) {
       logger.warn(
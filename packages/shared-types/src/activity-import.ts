@@ -0,0 +1,101 @@
+/**
+ * Activity File Import Types
+ *
+ * Types for importing recorded runs, rides and other cardio sessions from GPX, TCX and FIT
+ * files as cardio evidence.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Supported activity file formats
+ * @remarks
+ * - gpx: GPS Exchange Format (XML track points, heart rate in Garmin extensions)
+ * - tcx: Garmin Training Center XML (laps with device totals and track points)
+ * - fit: Garmin/ANT Flexible and Interoperable Data Transfer (binary)
+ * @public
+ */
+export const ACTIVITY_FILE_FORMATS = ['gpx', 'tcx', 'fit'] as const;
+export type ActivityFileFormat = (typeof ACTIVITY_FILE_FORMATS)[number];
+
+/**
+ * Activity types a file is normalized to
+ * @public
+ */
+export const ACTIVITY_TYPES = [
+  'running',
+  'cycling',
+  'walking',
+  'hiking',
+  'swimming',
+  'other',
+] as const;
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+// ============================================================================
+// Import Types
+// ============================================================================
+
+/**
+ * Session summary computed from an activity file
+ *
+ * @public
+ * @example
+ * ```typescript
+ * const summary: ActivitySummary = {
+ *   format: 'gpx',
+ *   activityType: 'running',
+ *   startTime: '2025-01-06T06:30:00.000Z',
+ *   endTime: '2025-01-06T07:02:10.000Z',
+ *   distance: 5.21,
+ *   duration: 32.2,
+ *   avgHeartRate: 152,
+ *   maxHeartRate: 171,
+ *   avgPace: 6.18,
+ *   elevationGain: 38,
+ *   caloriesBurned: null,
+ *   trackPoints: 1931,
+ * };
+ * ```
+ */
+export interface ActivitySummary {
+  readonly format: ActivityFileFormat;
+  readonly activityType: ActivityType;
+  readonly startTime: Date | string;
+  readonly endTime: Date | string;
+  /** km; null when the file has no positions or distance */
+  readonly distance: number | null;
+  /** Elapsed minutes */
+  readonly duration: number;
+  readonly avgHeartRate: number | null;
+  readonly maxHeartRate: number | null;
+  /** min/km; null without distance */
+  readonly avgPace: number | null;
+  /** Meters climbed; null when the file has no elevation */
+  readonly elevationGain: number | null;
+  /** Only when the device recorded it */
+  readonly caloriesBurned: number | null;
+  readonly trackPoints: number;
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * Activity import settings
+ * @remarks
+ * - maxFileBytes: largest file accepted by the upload endpoint
+ * - elevationNoiseMeters: climbs smaller than this between readings are treated as GPS or
+ *   barometer noise when summing elevation gain
+ * - minDurationMinutes: shorter recordings are rejected as empty
+ *
+ * @public
+ */
+export const ACTIVITY_IMPORT_SETTINGS = {
+  maxFileBytes: 20 * 1024 * 1024,
+  elevationNoiseMeters: 2,
+  minDurationMinutes: 1,
+} as const;
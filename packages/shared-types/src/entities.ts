@@ -12,6 +12,7 @@ import {
   PrimaryGoal,
   ActivityLevel,
   Gender,
+  RecurrenceType,
 } from './enums';
 import { TaskMetadata } from './task-metadata';
 import { EvidenceMetrics } from './evidence-metrics';
@@ -55,6 +56,9 @@ export interface UserSettings {
   calorieTarget?: number | null;
   proteinTarget?: number | null; // grams/day
   waterTarget?: number | null; // ml/day
+  carbsTarget?: number | null; // grams/day
+  fatTarget?: number | null; // grams/day
+  fiberTarget?: number | null; // grams/day
 
   // Preferences
   dietaryPreferences?: string[] | null;
@@ -119,6 +123,7 @@ export interface DailyTask {
   title: string;
   description?: string | null;
   taskType: TaskType;
+  customTaskId?: number | null;
   dueDate: Date | string;
   dueTime?: string | null; // HH:MM:SS format
   status: TaskStatus;
@@ -132,6 +137,28 @@ export interface DailyTask {
   updatedAt: Date | string;
 }
 
+/**
+ * Custom task entity - user-defined task with a recurrence rule
+ * Occurrences are expanded into DailyTask rows in the user's timezone
+ */
+export interface CustomTask {
+  id: number;
+  userId: number;
+  title: string;
+  description?: string | null;
+  taskType: TaskType;
+  dueTime: string; // HH:MM:SS format (user local time)
+  recurrenceType: RecurrenceType;
+  intervalDays?: number | null; // every_n_days only
+  weekdays?: number[] | null; // specific_weekdays only (ISO: 1 = Monday, 7 = Sunday)
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD, inclusive
+  priority: number;
+  isActive: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
 /**
  * Evidence entity - proof of task completion
  */
@@ -181,6 +208,9 @@ export interface InitialPlanSnapshot {
   calorieTarget: number;
   proteinTarget: number;
   waterTarget: number;
+  carbsTarget?: number | null; // grams/day
+  fatTarget?: number | null; // grams/day
+  fiberTarget?: number | null; // grams/day
   primaryGoal: PrimaryGoal;
   activityLevel: ActivityLevel;
   createdAt: Date | string;
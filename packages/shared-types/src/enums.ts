@@ -11,6 +11,7 @@ export enum PlanStatus {
   Completed = 'completed',
   Archived = 'archived',
   Draft = 'draft',
+  Scheduled = 'scheduled',
 }
 
 /**
@@ -24,6 +25,7 @@ export enum TaskType {
   Cardio = 'cardio',
   WeightLog = 'weight_log',
   ProgressPhoto = 'progress_photo',
+  Custom = 'custom',
 }
 
 /**
@@ -56,6 +58,7 @@ export enum StreakType {
   Cardio = 'cardio',
   WeightLog = 'weight_log',
   ProgressPhoto = 'progress_photo',
+  Custom = 'custom',
   Overall = 'overall',
 }
 
@@ -108,6 +111,17 @@ export enum PhotoType {
   Back = 'back',
 }
 
+/**
+ * Recurrence type enum - How a user-defined custom task repeats
+ */
+export enum RecurrenceType {
+  Once = 'once',
+  Daily = 'daily',
+  Weekdays = 'weekdays',
+  EveryNDays = 'every_n_days',
+  SpecificWeekdays = 'specific_weekdays',
+}
+
 /**
  * Type guard to check if a value is a valid TaskType
  */
@@ -158,6 +172,9 @@ export enum BadgeType {
   ComebackKid = 'comeback_kid',
   MilestoneMaster = 'milestone_master',
   PhotoFinisher = 'photo_finisher',
+
+  // Strength badges
+  RecordBreaker = 'record_breaker',
 }
 
 /**
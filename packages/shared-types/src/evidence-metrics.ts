@@ -3,12 +3,17 @@
  * Provides strict typing for the flexible JSON metrics field
  */
 
+import type { WorkoutDifficulty } from './training';
+import type { ActivityFileFormat } from './activity-import';
+import type { HealthImportSource } from './health-import';
+
 /**
  * Base metrics interface
  */
 export interface BaseMetrics {
   notes?: string;
   timestamp?: string; // ISO 8601
+  importSource?: HealthImportSource; // set on history backfilled from a health data export
 }
 
 /**
@@ -19,9 +24,10 @@ export interface WorkoutMetrics extends BaseMetrics {
   actualReps?: number;
   actualWeight?: number; // kg
   actualDuration?: number; // minutes
-  difficulty?: 'easy' | 'moderate' | 'hard' | 'very_hard';
+  difficulty?: WorkoutDifficulty;
   formRating?: 1 | 2 | 3 | 4 | 5;
   personalRecord?: boolean;
+  activityStartTime?: string; // ISO timestamp, set for sessions imported from a health export
 }
 
 /**
@@ -48,6 +54,18 @@ export interface CardioMetrics extends BaseMetrics {
   caloriesBurned?: number;
   avgPace?: number; // min/km
   elevationGain?: number; // meters
+  activityType?: string; // running, cycling, walking, hiking, swimming, other
+  activityStartTime?: string; // ISO timestamp, set when imported from an activity file
+  activityFileFormat?: ActivityFileFormat;
+  activityFileKey?: string; // S3 key of the imported file
+}
+
+/**
+ * Daily step total (imported from a health data export)
+ */
+export interface StepsMetrics extends BaseMetrics {
+  steps: number; // required
+  stepsDate: string; // YYYY-MM-DD in the user's timezone (required)
 }
 
 /**
@@ -99,6 +117,7 @@ export type EvidenceMetrics =
   | WorkoutMetrics
   | WeightLogMetrics
   | CardioMetrics
+  | StepsMetrics
   | MealMetrics
   | HydrationMetrics
   | SupplementMetrics
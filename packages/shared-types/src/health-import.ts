@@ -0,0 +1,111 @@
+/**
+ * Health Data Import Types
+ *
+ * Types for bulk importing history from Apple Health (`export.xml`) and Google Takeout Fit
+ * (JSON) exports: weigh-ins, body fat, workouts and daily steps.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Supported health data export sources
+ * @remarks
+ * - apple_health: `export.xml` from the Apple Health export archive
+ * - google_fit: a Google Takeout Fit JSON file (a data type's "Data Points" or a session)
+ * @public
+ */
+export const HEALTH_IMPORT_SOURCES = ['apple_health', 'google_fit'] as const;
+export type HealthImportSource = (typeof HEALTH_IMPORT_SOURCES)[number];
+
+/**
+ * Health import lifecycle
+ * @remarks
+ * - queued: file uploaded, waiting for the background worker
+ * - processing: the worker is reading the file (see `progress`)
+ * - completed: history written
+ * - failed: see `errorMessage`; nothing is written for a failed import
+ * @public
+ */
+export const HEALTH_IMPORT_STATUSES = ['queued', 'processing', 'completed', 'failed'] as const;
+export type HealthImportStatus = (typeof HEALTH_IMPORT_STATUSES)[number];
+
+// ============================================================================
+// Import Types
+// ============================================================================
+
+/**
+ * What an import wrote, and what it left out
+ * @public
+ */
+export interface HealthImportCounts {
+  /** Days with a weigh-in and/or body fat reading */
+  readonly weighIns: number;
+  readonly workouts: number;
+  /** Days with a step total */
+  readonly stepDays: number;
+  /** Items already logged in GTSD (or in an earlier import) and skipped */
+  readonly duplicatesSkipped: number;
+}
+
+/**
+ * Health import job, as returned by the import endpoints
+ *
+ * @public
+ * @example
+ * ```typescript
+ * const healthImport: HealthImport = {
+ *   id: 12,
+ *   source: 'apple_health',
+ *   status: 'processing',
+ *   progress: 45,
+ *   recordsRead: 182340,
+ *   counts: { weighIns: 0, workouts: 0, stepDays: 0, duplicatesSkipped: 0 },
+ *   errorMessage: null,
+ *   createdAt: '2025-01-06T08:00:00.000Z',
+ *   startedAt: '2025-01-06T08:00:02.000Z',
+ *   completedAt: null,
+ * };
+ * ```
+ */
+export interface HealthImport {
+  readonly id: number;
+  readonly source: HealthImportSource;
+  readonly status: HealthImportStatus;
+  /** 0-100 */
+  readonly progress: number;
+  /** Records read from the file so far (all types, including ones that are not imported) */
+  readonly recordsRead: number;
+  readonly counts: HealthImportCounts;
+  readonly errorMessage: string | null;
+  readonly createdAt: Date | string;
+  readonly startedAt: Date | string | null;
+  readonly completedAt: Date | string | null;
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * Health import settings
+ * @remarks
+ * - maxFileBytes: largest export accepted per source. Apple Health exports are streamed; Google
+ *   Fit JSON files are parsed whole, so they get a much smaller limit
+ * - workoutDuplicateToleranceSeconds: workouts starting this close to an already logged
+ *   activity are treated as the same session (devices round start times differently)
+ * - insertBatchSize: tasks and evidence written per statement
+ * - progressStepPercent: minimum progress change before the import row is updated
+ *
+ * @public
+ */
+export const HEALTH_IMPORT_SETTINGS = {
+  maxFileBytes: {
+    apple_health: 2 * 1024 * 1024 * 1024,
+    google_fit: 100 * 1024 * 1024,
+  },
+  workoutDuplicateToleranceSeconds: 120,
+  insertBatchSize: 500,
+  progressStepPercent: 5,
+} as const;
@@ -47,3 +47,12 @@ export * from './type-guards';
 
 // Profile types
 export * from './profile';
+
+// Training program types
+export * from './training';
+
+// Activity file import types
+export * from './activity-import';
+
+// Health data import types
+export * from './health-import';
@@ -43,6 +43,8 @@ export interface PartnerInput {
   email?: string;
   phone?: string;
   relationship?: string;
+  /** Let a coach partner pin targets (needs an account with this email, verified) */
+  canManageTargets?: boolean;
 }
 
 /**
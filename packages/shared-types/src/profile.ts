@@ -1,5 +1,18 @@
 import { z } from 'zod';
-import { PRIMARY_GOALS, ACTIVITY_LEVELS } from './science';
+import {
+  PRIMARY_GOALS,
+  ACTIVITY_LEVELS,
+  BMR_FORMULA_PREFERENCES,
+  PERIODIZATION_SETTINGS,
+} from './science';
+import type {
+  AdaptiveTdeeEstimate,
+  GoalTransition,
+  GoalTransitionKind,
+  GuardrailWarning,
+  PrimaryGoalValue,
+  TdeeSource,
+} from './science';
 
 /**
  * Validation ranges for profile fields
@@ -104,6 +117,34 @@ export const updateGoalsSchema = z.object({
       errorMap: () => ({ message: 'Invalid activity level' }),
     })
     .optional(),
+  bmrFormula: z
+    .enum(BMR_FORMULA_PREFERENCES, {
+      errorMap: () => ({ message: 'Invalid BMR formula' }),
+    })
+    .optional(),
+  dietBreakEveryWeeks: z
+    .number()
+    .int()
+    .min(
+      PERIODIZATION_SETTINGS.dietBreakEveryWeeks.min,
+      `Diet breaks must be at least ${PERIODIZATION_SETTINGS.dietBreakEveryWeeks.min} weeks apart`
+    )
+    .max(
+      PERIODIZATION_SETTINGS.dietBreakEveryWeeks.max,
+      `Diet breaks must be at most ${PERIODIZATION_SETTINGS.dietBreakEveryWeeks.max} weeks apart`
+    )
+    .nullable()
+    .optional(),
+  refeedDays: z
+    .array(z.number().int().min(1).max(7))
+    .max(
+      PERIODIZATION_SETTINGS.maxRefeedDays,
+      `Cannot have more than ${PERIODIZATION_SETTINGS.maxRefeedDays} refeed days a week`
+    )
+    .refine((days) => new Set(days).size === days.length, {
+      message: 'Refeed days must not repeat',
+    })
+    .optional(),
 });
 
 /**
@@ -156,6 +197,9 @@ export const updateProfileSchema = z
     primaryGoal: updateGoalsSchema.shape.primaryGoal,
     targetDate: updateGoalsSchema.shape.targetDate,
     activityLevel: updateGoalsSchema.shape.activityLevel,
+    bmrFormula: updateGoalsSchema.shape.bmrFormula,
+    dietBreakEveryWeeks: updateGoalsSchema.shape.dietBreakEveryWeeks,
+    refeedDays: updateGoalsSchema.shape.refeedDays,
 
     // Preferences
     dietaryPreferences: updatePreferencesSchema.shape.dietaryPreferences,
@@ -198,6 +242,11 @@ export interface ProfileData {
     primaryGoal: string | null;
     targetDate: string | null;
     activityLevel: string | null;
+    bmrFormula: string;
+    /** Weeks of dieting before each diet break, or null for none */
+    dietBreakEveryWeeks: number | null;
+    /** ISO weekdays eaten at maintenance (1 = Monday … 7 = Sunday) */
+    refeedDays: number[];
   };
   preferences: {
     dietaryPreferences: string[];
@@ -210,6 +259,9 @@ export interface ProfileData {
     calorieTarget: number | null;
     proteinTarget: number | null;
     waterTarget: number | null;
+    carbsTarget: number | null;
+    fatTarget: number | null;
+    fiberTarget: number | null;
   };
 }
 
@@ -239,6 +291,13 @@ export interface UpdateProfileResponse {
     previousProtein?: number;
     newProtein?: number;
   };
+  tdee?: {
+    source: TdeeSource;
+    adaptive?: AdaptiveTdeeEstimate;
+  };
+  warnings?: readonly GuardrailWarning[];
+  /** Phased schedule started because the primary goal changed */
+  transition?: GoalTransition;
 }
 
 /**
@@ -253,6 +312,9 @@ export const IMPACTFUL_FIELDS = [
   'height',
   'dateOfBirth',
   'gender',
+  'bmrFormula',
+  'dietBreakEveryWeeks',
+  'refeedDays',
 ] as const;
 
 export type ImpactfulField = (typeof IMPACTFUL_FIELDS)[number];
@@ -270,3 +332,45 @@ export function isImpactfulField(fieldName: string): boolean {
 export function shouldRegeneratePlan(changes: Record<string, any>): boolean {
   return Object.keys(changes).some((key) => isImpactfulField(key));
 }
+
+/**
+ * How calories should step from one primary goal to another
+ *
+ * @returns The transition kind, or null when the new goal's targets can apply right away
+ *
+ * @remarks
+ * Leaving a cut or a gain phase, or starting a surplus, is phased; starting a cut and
+ * switching between the maintenance goals are not
+ */
+export function getGoalTransitionKind(
+  fromGoal: PrimaryGoalValue,
+  toGoal: PrimaryGoalValue
+): GoalTransitionKind | null {
+  if (fromGoal === toGoal) return null;
+  if (fromGoal === 'lose_weight') return 'reverse_diet';
+  if (fromGoal === 'gain_muscle') return 'surplus_taper';
+  if (toGoal === 'gain_muscle') return 'surplus_ramp_in';
+  return null;
+}
+
+/**
+ * How a profile update should change the plan
+ *
+ * @param changes - Submitted profile fields
+ * @param currentGoal - Primary goal before the update
+ * @returns 'none' if no impactful field changed, 'transition' when the primary goal changes
+ *   to one that is reached in phases, otherwise 'recompute'
+ */
+export function getPlanRegenerationMode(
+  changes: Record<string, unknown>,
+  currentGoal: PrimaryGoalValue | null
+): 'none' | 'recompute' | 'transition' {
+  if (!shouldRegeneratePlan(changes)) return 'none';
+
+  const newGoal = changes.primaryGoal as PrimaryGoalValue | undefined;
+  if (newGoal && currentGoal && getGoalTransitionKind(currentGoal, newGoal)) {
+    return 'transition';
+  }
+
+  return 'recompute';
+}
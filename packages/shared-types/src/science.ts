@@ -170,6 +170,52 @@ export const PRIMARY_GOALS = ['lose_weight', 'gain_muscle', 'maintain', 'improve
  */
 export const GENDERS = ['male', 'female', 'other'] as const;
 
+/**
+ * Equation used to calculate BMR
+ *
+ * @public
+ * @remarks
+ * - mifflin_st_jeor: weight, height, age and gender (default)
+ * - harris_benedict: revised Harris-Benedict (Roza & Shizgal, 1984)
+ * - katch_mcardle: lean body mass, needs a body fat reading
+ * - cunningham: lean body mass, suited to very active users, needs a body fat reading
+ */
+export type BmrFormula = 'mifflin_st_jeor' | 'harris_benedict' | 'katch_mcardle' | 'cunningham';
+
+/**
+ * User's BMR formula preference
+ * @public
+ * @remarks
+ * 'auto' picks a lean-mass formula when body fat was logged recently, otherwise Mifflin-St Jeor
+ */
+export type BmrFormulaPreference = 'auto' | BmrFormula;
+
+/**
+ * Readonly tuple of all BMR formulas
+ * @public
+ */
+export const BMR_FORMULAS = [
+  'mifflin_st_jeor',
+  'harris_benedict',
+  'katch_mcardle',
+  'cunningham',
+] as const;
+
+/**
+ * Readonly tuple of all valid BMR formula preferences
+ * @public
+ */
+export const BMR_FORMULA_PREFERENCES = ['auto', ...BMR_FORMULAS] as const;
+
+/**
+ * Macro split applied to the calorie target
+ *
+ * @public
+ * @remarks
+ * Picked from dietaryPreferences (keto > high_protein > vegan > paleo), otherwise balanced
+ */
+export type MacroProfile = 'balanced' | 'keto' | 'high_protein' | 'vegan' | 'paleo';
+
 // ============================================================================
 // Input and Output Types
 // ============================================================================
@@ -233,6 +279,31 @@ export interface ScienceInputs {
    * Valid range: 30-300 kg
    */
   readonly targetWeight?: number;
+
+  /**
+   * Most recent body fat percentage (optional)
+   * @remarks
+   * Only set when logged within BODY_COMPOSITION_MAX_AGE_DAYS
+   * Enables lean-mass formulas (Katch-McArdle, Cunningham)
+   */
+  readonly bodyFatPercentage?: number;
+
+  /**
+   * BMR formula preference (defaults to 'auto')
+   */
+  readonly bmrFormula?: BmrFormulaPreference;
+
+  /**
+   * Date the user wants to reach targetWeight by (optional)
+   * @remarks Checked against the safe weekly rate; never used to speed up the plan
+   */
+  readonly targetDate?: Date;
+
+  /**
+   * Diet breaks and refeed days (optional)
+   * @remarks Only applies while losing weight; slows the projection down accordingly
+   */
+  readonly periodization?: DietPeriodization;
 }
 
 /**
@@ -263,6 +334,19 @@ export interface ComputedTargets {
    */
   bmr: number;
 
+  /**
+   * Equation the BMR was calculated with
+   * @remarks
+   * Absent on targets computed before formula selection existed (Mifflin-St Jeor)
+   */
+  bmrFormula?: BmrFormula;
+
+  /**
+   * Why bmrFormula was chosen
+   * @example "Body fat logged in the last 30 days allows a lean-mass formula"
+   */
+  bmrFormulaReason?: string;
+
   /**
    * Total Daily Energy Expenditure in kcal/day
    * @remarks
@@ -299,6 +383,32 @@ export interface ComputedTargets {
    */
   waterTarget: number;
 
+  /**
+   * Daily carbohydrate target in grams
+   * @remarks
+   * Calories left after protein and fat (fixed low value on keto)
+   */
+  carbsTarget?: number;
+
+  /**
+   * Daily fat target in grams
+   * @remarks
+   * Share of calories set by the macro profile (remainder on keto)
+   */
+  fatTarget?: number;
+
+  /**
+   * Daily fiber target in grams
+   * @remarks
+   * 14 g per 1000 kcal (18 g on vegan)
+   */
+  fiberTarget?: number;
+
+  /**
+   * Macro split the carbs/fat/fiber targets were built with
+   */
+  macroProfile?: MacroProfile;
+
   /**
    * Expected weekly weight change rate in kg/week
    * @remarks
@@ -323,6 +433,695 @@ export interface ComputedTargets {
    * Assumes consistent adherence to targets
    */
   projectedDate?: Date;
+
+  /**
+   * Where the TDEE value came from
+   * @remarks
+   * - formula: Mifflin-St Jeor BMR × activity multiplier
+   * - adaptive: inferred from logged weight trend and intake
+   * Absent when only the formula was considered
+   */
+  tdeeSource?: TdeeSource;
+
+  /**
+   * Adaptive expenditure estimate with confidence and data sufficiency
+   * @remarks
+   * Present whenever the adaptive estimator was run, even if the formula was used
+   */
+  adaptiveTdee?: AdaptiveTdeeEstimate;
+
+  /**
+   * Safety guardrails that applied to these targets
+   * @remarks
+   * Empty when no guardrail applied; absent on targets computed before guardrails existed
+   */
+  warnings?: GuardrailWarning[];
+
+  /**
+   * Targets pinned by hand instead of computed, with the formula value alongside
+   * @remarks Absent when no override is active
+   */
+  overrides?: AppliedTargetOverride[];
+
+  /**
+   * Diet breaks and refeed days for the week the targets were computed for
+   * @remarks Absent without periodization settings or outside a calorie deficit
+   */
+  periodization?: AppliedPeriodization;
+}
+
+// ============================================================================
+// Safety Guardrail Types
+// ============================================================================
+
+/**
+ * Which safety guardrail produced a warning
+ * @remarks
+ * - calorie_floor: calories raised to the minimum for sex and BMR
+ * - weekly_loss_limit / weekly_gain_limit: deficit or surplus reduced to the safe weekly rate
+ * - low_bmi: no deficit because BMI is already below the healthy minimum
+ * - target_bmi: target weight would put BMI below the healthy minimum
+ * - target_date: target date needs a faster rate than is safe
+ * - adolescent: conservative limits for users under 18
+ *
+ * @public
+ */
+export type GuardrailCode =
+  | 'calorie_floor'
+  | 'weekly_loss_limit'
+  | 'weekly_gain_limit'
+  | 'low_bmi'
+  | 'target_bmi'
+  | 'target_date'
+  | 'adolescent';
+
+/**
+ * How prominently a guardrail warning should be shown
+ * @public
+ */
+export type GuardrailSeverity = 'info' | 'warning';
+
+/**
+ * A safety guardrail that applied to computed targets
+ *
+ * @public
+ * @example
+ * ```typescript
+ * const warning: GuardrailWarning = {
+ *   code: 'calorie_floor',
+ *   severity: 'warning',
+ *   message: 'Calories were raised from 1092 to 1200, the safe minimum for you',
+ *   capped: true,
+ *   originalValue: 1092,
+ *   adjustedValue: 1200
+ * };
+ * ```
+ */
+export interface GuardrailWarning {
+  readonly code: GuardrailCode;
+  readonly severity: GuardrailSeverity;
+
+  /**
+   * User-facing explanation
+   */
+  readonly message: string;
+
+  /**
+   * Whether the guardrail changed the calorie target
+   */
+  readonly capped: boolean;
+
+  /**
+   * Calorie target before the guardrail (kcal/day, only when capped)
+   */
+  readonly originalValue?: number;
+
+  /**
+   * Calorie target after the guardrail (kcal/day, only when capped)
+   */
+  readonly adjustedValue?: number;
+}
+
+// ============================================================================
+// Target Override Types
+// ============================================================================
+
+/**
+ * Targets that can be pinned by hand
+ * @public
+ */
+export const OVERRIDABLE_TARGETS = ['calorieTarget', 'proteinTarget', 'waterTarget'] as const;
+
+/**
+ * Target that can be pinned by hand
+ * @public
+ */
+export type OverridableTarget = (typeof OVERRIDABLE_TARGETS)[number];
+
+/**
+ * Who pinned a target
+ * @remarks A coach is a 'coach' partner granted permission to manage targets, whose account
+ * email matches and is verified
+ * @public
+ */
+export type TargetOverrideSource = 'user' | 'coach';
+
+/**
+ * Target value pinned by hand
+ *
+ * @public
+ * @example
+ * ```typescript
+ * const override: TargetOverride = {
+ *   field: 'proteinTarget',
+ *   value: 160,
+ *   reason: 'Competition prep',
+ *   setBy: 'coach',
+ *   setByUserId: 42,
+ *   expiresAt: new Date('2025-03-01'),
+ *   createdAt: new Date('2025-01-06'),
+ * };
+ * ```
+ */
+export interface TargetOverride {
+  readonly field: OverridableTarget;
+  /** Pinned value (kcal/day, g/day or ml/day) */
+  readonly value: number;
+  readonly reason: string | null;
+  readonly setBy: TargetOverrideSource;
+  /** Account that pinned the target (null if that account was deleted) */
+  readonly setByUserId: number | null;
+  /** When the pin stops applying (null = until removed) */
+  readonly expiresAt: Date | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Override as applied to computed targets
+ * @public
+ */
+export interface AppliedTargetOverride extends TargetOverride {
+  /** What the formulas give without the override */
+  readonly formulaValue: number;
+
+  /**
+   * Whether the safety guardrails changed the pinned value
+   * @remarks Only a calorie pin that has since become unsafe (e.g. after weight loss) is capped
+   */
+  readonly capped: boolean;
+}
+
+/**
+ * Response from the target override endpoints
+ * @public
+ */
+export interface TargetOverridesResponse {
+  /** User whose targets are pinned */
+  readonly userId: number;
+  /** Active overrides (expired pins are left out) */
+  readonly overrides: TargetOverride[];
+  /** Whether the stored targets were recomputed (only after pinning or removing a target) */
+  readonly planUpdated?: boolean;
+}
+
+// ============================================================================
+// Adaptive TDEE Types
+// ============================================================================
+
+/**
+ * Source of a TDEE value
+ * @public
+ */
+export type TdeeSource = 'formula' | 'adaptive';
+
+/**
+ * Confidence bucket for an adaptive TDEE estimate
+ * @public
+ */
+export type AdaptiveTdeeConfidence = 'none' | 'low' | 'medium' | 'high';
+
+/**
+ * How much logged data backs an adaptive TDEE estimate
+ * @public
+ */
+export interface AdaptiveTdeeDataSufficiency {
+  /**
+   * True when all minimums are met and the estimate is plausible
+   */
+  readonly sufficient: boolean;
+
+  /**
+   * Distinct local days with a weigh-in inside the window
+   */
+  readonly weighInDays: number;
+
+  /**
+   * Distinct local days with logged meal calories inside the weigh-in span
+   */
+  readonly intakeDays: number;
+
+  /**
+   * Days between the first and last weigh-in
+   */
+  readonly spanDays: number;
+
+  /**
+   * Minimums required before the estimate is used
+   */
+  readonly required: {
+    readonly weighInDays: number;
+    readonly intakeDays: number;
+    readonly spanDays: number;
+  };
+
+  /**
+   * Why the estimate was not used
+   * @example "Need at least 10 days of logged meals (have 4)"
+   */
+  readonly reason?: string;
+}
+
+/**
+ * Expenditure inferred from the smoothed weight trend and logged intake
+ *
+ * @public
+ * @remarks
+ * TDEE = average daily intake - (trend weight change × 7700 kcal/kg / span days)
+ */
+export interface AdaptiveTdeeEstimate {
+  /**
+   * Estimated TDEE in kcal/day, or null when there is too little data
+   */
+  readonly tdee: number | null;
+
+  /**
+   * Confidence bucket derived from confidenceScore
+   */
+  readonly confidence: AdaptiveTdeeConfidence;
+
+  /**
+   * Confidence between 0 and 1 based on window length and logging coverage
+   */
+  readonly confidenceScore: number;
+
+  /**
+   * Data counts behind the estimate
+   */
+  readonly dataSufficiency: AdaptiveTdeeDataSufficiency;
+
+  /**
+   * Smoothed (EMA) weight at the first weigh-in, in kg
+   */
+  readonly trendStartWeight: number | null;
+
+  /**
+   * Smoothed (EMA) weight at the last weigh-in, in kg
+   */
+  readonly trendEndWeight: number | null;
+
+  /**
+   * Average logged intake on days with meal evidence, in kcal/day
+   */
+  readonly averageIntake: number | null;
+
+  /**
+   * First local date of the analysis window (YYYY-MM-DD)
+   */
+  readonly windowStart: string;
+
+  /**
+   * Last local date of the analysis window (YYYY-MM-DD)
+   */
+  readonly windowEnd: string;
+}
+
+// ============================================================================
+// Weigh-in Sync Types
+// ============================================================================
+
+/**
+ * Outcome of applying a weight_log weigh-in to the user's current weight
+ * @public
+ */
+export type WeightSyncStatus = 'updated' | 'unchanged' | 'rejected';
+
+/**
+ * Result of syncing a weigh-in into user_settings.currentWeight
+ *
+ * @public
+ * @remarks
+ * Rejected weigh-ins are still stored as evidence; only the current weight is left alone
+ */
+export interface WeightSyncResult {
+  readonly status: WeightSyncStatus;
+
+  /**
+   * Logged weight in kg
+   */
+  readonly loggedWeight: number;
+
+  /**
+   * Current weight before the weigh-in, in kg
+   */
+  readonly previousWeight: number | null;
+
+  /**
+   * Current weight after the weigh-in, in kg
+   */
+  readonly currentWeight: number | null;
+
+  /**
+   * True when the change passed the significance threshold and targets were updated
+   */
+  readonly planRecomputed: boolean;
+
+  /**
+   * Why the weigh-in was rejected as an outlier
+   * @example "92.5 kg is 10.0 kg away from your recent weigh-ins (expected within 4.3 kg)"
+   */
+  readonly rejectionReason?: string;
+}
+
+// ============================================================================
+// Weight Trend Types
+// ============================================================================
+
+/**
+ * Where a weight entry was recorded
+ * - weigh_in: weight_log task evidence
+ * - profile: manual edit of the current weight in the profile
+ * @public
+ */
+export type WeightEntrySource = 'weigh_in' | 'profile';
+
+/**
+ * A single raw weight entry
+ * @public
+ */
+export interface WeightEntry {
+  /**
+   * Local calendar date in the user's timezone (YYYY-MM-DD)
+   */
+  readonly date: string;
+
+  /**
+   * When the entry was recorded (ISO 8601)
+   */
+  readonly recordedAt: string;
+
+  /**
+   * Weight in kg
+   */
+  readonly weight: number;
+
+  readonly source: WeightEntrySource;
+
+  /**
+   * True when the weigh-in was treated as an outlier and left out of the trend
+   */
+  readonly excluded: boolean;
+}
+
+/**
+ * Smoothed weight for one day with entries
+ * @public
+ */
+export interface WeightTrendPoint {
+  /**
+   * Local calendar date (YYYY-MM-DD)
+   */
+  readonly date: string;
+
+  /**
+   * Average of the day's included entries, in kg
+   */
+  readonly weight: number;
+
+  /**
+   * Exponential moving average trend, in kg
+   */
+  readonly trend: number;
+}
+
+/**
+ * Weight summary for one Monday-to-Sunday week
+ * @public
+ */
+export interface WeeklyWeightSummary {
+  /**
+   * Monday of the week (YYYY-MM-DD)
+   */
+  readonly weekStart: string;
+
+  /**
+   * Sunday of the week (YYYY-MM-DD)
+   */
+  readonly weekEnd: string;
+
+  /**
+   * Included entries in the week
+   */
+  readonly entryCount: number;
+
+  /**
+   * Average of the week's included entries in kg, or null without entries
+   */
+  readonly averageWeight: number | null;
+
+  /**
+   * Trend at the week's last entry in kg, or null without entries
+   */
+  readonly trendWeight: number | null;
+
+  /**
+   * Trend change since the previous week in kg, or null if either week has no entries
+   */
+  readonly change: number | null;
+}
+
+/**
+ * Actual rate of change compared with the rate the plan is built on
+ * @public
+ */
+export interface WeightRateComparison {
+  /**
+   * Trend change per week over the last WEIGHT_TREND_SETTINGS.rateWindowDays, in kg,
+   * or null when the entries span less than WEIGHT_TREND_SETTINGS.minRateSpanDays
+   */
+  readonly actualWeeklyRate: number | null;
+
+  /**
+   * Planned weekly change for the user's goal (ScienceService.calculateWeeklyRate), in kg
+   */
+  readonly targetWeeklyRate: number;
+
+  /**
+   * actualWeeklyRate - targetWeeklyRate, in kg per week
+   */
+  readonly difference: number | null;
+
+  /**
+   * True when the actual rate is within WEIGHT_TREND_SETTINGS.onTrackToleranceKg of the target
+   */
+  readonly onTrack: boolean | null;
+}
+
+/**
+ * Plateau detection result
+ *
+ * @public
+ * @remarks
+ * Only goals with a non-zero planned rate can plateau - a flat trend is the point of maintenance
+ */
+export interface WeightPlateau {
+  readonly detected: boolean;
+
+  /**
+   * Number of weeks inspected
+   */
+  readonly weeks: number;
+
+  /**
+   * Trend change across the inspected weeks in kg, or null without enough history
+   */
+  readonly trendChange: number | null;
+
+  /**
+   * First local date of the inspected window (YYYY-MM-DD), or null without enough history
+   */
+  readonly since: string | null;
+}
+
+/**
+ * Weight history with trend analytics
+ *
+ * @public
+ * @remarks
+ * Weights come from weight_log evidence and manual profile edits. Outlier weigh-ins are
+ * returned (flagged as excluded) but do not move the trend.
+ */
+export interface WeightProgressResponse {
+  /**
+   * First local date of the range (YYYY-MM-DD)
+   */
+  readonly from: string;
+
+  /**
+   * Last local date of the range (YYYY-MM-DD)
+   */
+  readonly to: string;
+
+  /**
+   * Raw entries inside the range, oldest first
+   */
+  readonly entries: WeightEntry[];
+
+  /**
+   * Smoothed trend line inside the range, oldest first
+   */
+  readonly trend: WeightTrendPoint[];
+
+  /**
+   * Weekly summaries for every week overlapping the range, oldest first
+   */
+  readonly weeks: WeeklyWeightSummary[];
+
+  readonly rate: WeightRateComparison;
+
+  readonly plateau: WeightPlateau;
+
+  /**
+   * Latest trend weight in the range in kg, or null without entries
+   */
+  readonly latestTrendWeight: number | null;
+}
+
+// ============================================================================
+// Goal Trajectory Types
+// ============================================================================
+
+/**
+ * Progress against the expected weight curve
+ * - on_track: within GOAL_TRAJECTORY_SETTINGS.onTrackToleranceKg of the expected weight
+ * - ahead / behind: further along / behind the expected weight by more than the tolerance
+ * - reached: the trend is within GOAL_TRAJECTORY_SETTINGS.reachedToleranceKg of the target
+ * - insufficient_data: no weigh-ins since the plan started
+ * @public
+ */
+export type TrajectoryStatus = 'on_track' | 'ahead' | 'behind' | 'reached' | 'insufficient_data';
+
+/**
+ * How realistic the user's target date is
+ * - achievable: the planned weekly rate gets there in time
+ * - aggressive: needs a faster rate than planned, but within the safe maximum
+ * - unrealistic: needs more than the safe maximum weekly rate
+ * - passed: the target date is today or already behind us
+ * - reached: the target weight has been reached
+ * - not_set: no target date
+ * @public
+ */
+export type TargetDateFeasibility =
+  | 'achievable'
+  | 'aggressive'
+  | 'unrealistic'
+  | 'passed'
+  | 'reached'
+  | 'not_set';
+
+/**
+ * One point on the expected weight curve
+ * @public
+ */
+export interface ExpectedWeightPoint {
+  /**
+   * Local calendar date (YYYY-MM-DD)
+   */
+  readonly date: string;
+
+  /**
+   * Weight the plan expects on that date, in kg
+   */
+  readonly expectedWeight: number;
+}
+
+/**
+ * Feasibility of the user's target date
+ * @public
+ */
+export interface TargetDateAssessment {
+  /**
+   * Local calendar date (YYYY-MM-DD), or null when not set
+   */
+  readonly targetDate: string | null;
+
+  readonly feasibility: TargetDateFeasibility;
+
+  /**
+   * Weekly change needed to hit the target weight on the target date, in kg
+   */
+  readonly requiredWeeklyRate: number | null;
+
+  /**
+   * Largest weekly change considered safe in the required direction, in kg
+   */
+  readonly maxSafeWeeklyRate: number | null;
+
+  /**
+   * Human-readable explanation
+   * @example "Reaching 75 kg by 2025-06-01 needs 1.4 kg/week, above the safe maximum of 1 kg/week"
+   */
+  readonly message: string;
+}
+
+/**
+ * Expected weight curve from the initial plan next to the actual trend
+ *
+ * @public
+ * @remarks
+ * The expected curve comes from initial_plan_snapshots (start weight, start date, weekly rate);
+ * the completion estimate and target-date check use the current goal from user settings.
+ */
+export interface GoalTrajectoryResponse {
+  /**
+   * Local date the plan started (YYYY-MM-DD)
+   */
+  readonly startDate: string;
+
+  readonly startWeight: number;
+
+  readonly targetWeight: number;
+
+  /**
+   * Weekly change the plan was built on, in kg (negative for weight loss)
+   */
+  readonly plannedWeeklyRate: number;
+
+  /**
+   * Completion date projected when the plan started (YYYY-MM-DD), or null
+   */
+  readonly projectedCompletionDate: string | null;
+
+  /**
+   * Expected weight per week from the start date, oldest first
+   */
+  readonly expected: ExpectedWeightPoint[];
+
+  /**
+   * Actual smoothed weight since the start date, oldest first
+   */
+  readonly actual: WeightTrendPoint[];
+
+  /**
+   * Latest trend weight in kg, or null without weigh-ins
+   */
+  readonly currentTrendWeight: number | null;
+
+  /**
+   * Weight the plan expects today, in kg
+   */
+  readonly expectedWeightToday: number;
+
+  /**
+   * How far along the curve the user is compared to the plan, in kg (positive = ahead)
+   */
+  readonly deviation: number | null;
+
+  readonly status: TrajectoryStatus;
+
+  /**
+   * Trend change per week over the last WEIGHT_TREND_SETTINGS.rateWindowDays, in kg
+   */
+  readonly observedWeeklyRate: number | null;
+
+  /**
+   * Completion date re-estimated from the observed rate (YYYY-MM-DD), or null when the
+   * trend is not moving towards the target
+   */
+  readonly estimatedCompletionDate: string | null;
+
+  readonly estimatedWeeksRemaining: number | null;
+
+  readonly targetDate: TargetDateAssessment;
 }
 
 // ============================================================================
@@ -356,9 +1155,45 @@ interface ExplanationComponent<T = number> {
  */
 export interface BMRExplanation extends Omit<ExplanationComponent<never>, 'metric'> {
   /**
-   * The Mifflin-St Jeor equation formula
+   * The equation used, written out
+   */
+  readonly formula: string;
+
+  /**
+   * Which BMR formula was used
+   */
+  readonly formulaUsed?: BmrFormula;
+
+  /**
+   * Why that formula was chosen
+   */
+  readonly selectionReason?: string;
+}
+
+/**
+ * Macro explanation with carbs, fat and fiber targets
+ * @public
+ */
+export interface MacrosExplanation extends Omit<ExplanationComponent<never>, 'metric'> {
+  /**
+   * Macro split used
+   */
+  readonly macroProfile: MacroProfile;
+
+  /**
+   * Daily carbohydrate target in grams
+   */
+  readonly carbsTarget: number;
+
+  /**
+   * Daily fat target in grams
+   */
+  readonly fatTarget: number;
+
+  /**
+   * Daily fiber target in grams
    */
-  readonly formula: string;
+  readonly fiberTarget: number;
 }
 
 /**
@@ -426,6 +1261,17 @@ export interface TimelineExplanation extends ExplanationComponent<number> {
   readonly metric: number;
 }
 
+/**
+ * Safety explanation listing the guardrails that shaped the plan
+ * @public
+ */
+export interface SafetyExplanation extends Omit<ExplanationComponent<never>, 'metric'> {
+  /**
+   * Guardrails that applied, in the order they were checked
+   */
+  readonly warnings: readonly GuardrailWarning[];
+}
+
 /**
  * Educational explanation of why calculations work
  * Provides user-friendly science education for each computed metric
@@ -461,10 +1307,20 @@ export interface WhyItWorks {
    */
   readonly waterTarget: WaterTargetExplanation;
 
+  /**
+   * Carbs, fat and fiber explanation (absent when targets have no macro split)
+   */
+  readonly macros?: MacrosExplanation;
+
   /**
    * Timeline projection explanation (if applicable)
    */
   readonly timeline: TimelineExplanation;
+
+  /**
+   * Safety guardrails that capped or flagged the plan (absent when none applied)
+   */
+  readonly safety?: SafetyExplanation;
 }
 
 // ============================================================================
@@ -598,6 +1454,327 @@ export interface PlanGenerationResponse {
   readonly previousTargets?: ComputedTargets;
 }
 
+// ============================================================================
+// Plan History Types
+// ============================================================================
+
+/**
+ * Targets recorded on a plan when it was generated
+ * @remarks Values are null for plans generated before target snapshots existed
+ * @public
+ */
+export interface PlanTargetsSnapshot {
+  readonly bmr: number | null;
+  readonly tdee: number | null;
+  readonly calorieTarget: number | null;
+  readonly proteinTarget: number | null;
+  readonly waterTarget: number | null;
+  /** Planned weight change in kg/week (negative = loss) */
+  readonly weeklyRate: number | null;
+  /** Body weight (kg) the targets were computed from */
+  readonly weightAtGeneration: number | null;
+}
+
+/**
+ * Plan entry in the paginated plan history
+ * @public
+ */
+export interface PlanHistoryItem {
+  readonly id: number;
+  readonly name: string;
+  readonly planType: string;
+  readonly startDate: Date;
+  readonly endDate: Date;
+  readonly status: string;
+  readonly totalTasks: number;
+  readonly completedTasks: number;
+  /** Completion percentage (0-100) */
+  readonly completionPercentage: number;
+  readonly generatedAt: Date;
+  readonly completedAt: Date | null;
+  readonly targets: PlanTargetsSnapshot;
+  /** Goal transition phase, or null for a regular weekly plan */
+  readonly phase: PlanPhase | null;
+  /** Diet break and refeed days for the plan's week, or null when none applied */
+  readonly periodization: AppliedPeriodization | null;
+}
+
+/**
+ * Paginated plan history response
+ * @public
+ */
+export interface PlanHistoryResponse {
+  /** Plans ordered newest first */
+  readonly plans: PlanHistoryItem[];
+  readonly total: number;
+  readonly limit: number;
+  readonly offset: number;
+}
+
+/**
+ * Single plan with description and task breakdown
+ * @public
+ */
+export interface PlanDetail extends PlanHistoryItem {
+  readonly description: string;
+  /** Task counts keyed by task status */
+  readonly tasksByStatus: Record<string, number>;
+}
+
+/**
+ * Target fields compared by the plan diff
+ * @public
+ */
+export type PlanDiffField = 'calorieTarget' | 'proteinTarget' | 'waterTarget' | 'weeklyRate';
+
+/**
+ * Change of a single target between two plans
+ * @public
+ */
+export interface PlanTargetChange {
+  readonly field: PlanDiffField;
+  readonly from: number | null;
+  readonly to: number | null;
+  /** to - from, or null if either side is unknown */
+  readonly delta: number | null;
+}
+
+/**
+ * Event between two plans that explains a target change
+ * @public
+ */
+export interface PlanChangeCause {
+  /** Profile edit or target pinned by hand (from the profile change audit), or a logged weigh-in */
+  readonly type: 'profile_change' | 'target_override' | 'weight_log';
+  /** Profile field or pinned target that changed (e.g. 'currentWeight', 'calorieTarget') */
+  readonly field: string;
+  readonly oldValue: string | null;
+  readonly newValue: string | null;
+  readonly occurredAt: Date;
+}
+
+/**
+ * Comparison of two plans' targets with the changes that caused them
+ *
+ * @public
+ * @example
+ * ```typescript
+ * const diff: PlanDiff = {
+ *   fromPlan: { id: 1, name: 'Weekly Plan - week of Jan 6, 2025', generatedAt },
+ *   toPlan: { id: 2, name: 'Weekly Plan - week of Jan 13, 2025', generatedAt },
+ *   changes: [{ field: 'calorieTarget', from: 2100, to: 2000, delta: -100 }],
+ *   causes: [{ type: 'weight_log', field: 'weight', oldValue: null, newValue: '84.2', occurredAt }],
+ *   explanation: ['Calories went down by 100 kcal after your weight changed from 86 kg to 84.2 kg'],
+ * };
+ * ```
+ */
+export interface PlanDiff {
+  readonly fromPlan: { readonly id: number; readonly name: string; readonly generatedAt: Date };
+  readonly toPlan: { readonly id: number; readonly name: string; readonly generatedAt: Date };
+  /** Only targets whose values differ */
+  readonly changes: PlanTargetChange[];
+  /** Profile changes and weigh-ins between the two generation times, oldest first */
+  readonly causes: PlanChangeCause[];
+  /** Human-readable sentences summarizing the changes */
+  readonly explanation: string[];
+}
+
+// ============================================================================
+// Target Simulation Types
+// ============================================================================
+
+/**
+ * Inputs a what-if simulation was run with
+ * @remarks Values not supplied in the request are filled from the user's profile
+ * @public
+ */
+export interface SimulationInputs {
+  readonly weight: number;
+  readonly activityLevel: ActivityLevelValue;
+  readonly primaryGoal: PrimaryGoalValue;
+  readonly targetWeight: number | null;
+  readonly targetDate: Date | null;
+}
+
+/**
+ * Timeline a simulation projects
+ * @public
+ */
+export interface SimulationProjection {
+  /** Weekly change in kg after guardrails (negative = loss) */
+  readonly weeklyRate: number;
+  /** Weeks to reach the target weight, or null without a target or for maintenance */
+  readonly estimatedWeeks: number | null;
+  readonly projectedDate: Date | null;
+}
+
+/**
+ * Response from POST /v1/science/simulate
+ * @remarks Nothing is stored; the user's profile and plan are unchanged
+ * @public
+ */
+export interface TargetSimulationResponse {
+  readonly inputs: SimulationInputs;
+  readonly targets: ComputedTargets;
+  readonly projection: SimulationProjection;
+  /** Safety guardrails that would cap or flag the simulated plan */
+  readonly warnings: readonly GuardrailWarning[];
+  readonly whyItWorks: WhyItWorks;
+  /** Targets the user has now (null when not recorded) */
+  readonly current: Pick<PlanTargetsSnapshot, PlanDiffField>;
+  /** Fields that would change, current → simulated */
+  readonly changes: PlanTargetChange[];
+  /** Human-readable sentences summarizing the changes */
+  readonly explanation: string[];
+}
+
+// ============================================================================
+// Goal Transition Types
+// ============================================================================
+
+/**
+ * How calories are stepped from one goal to the next
+ * @remarks
+ * - reverse_diet: raise calories gradually after a cut
+ * - surplus_ramp_in: build up to the surplus for gain_muscle
+ * - surplus_taper: bring calories down gradually after a gain phase
+ * @public
+ */
+export const GOAL_TRANSITION_KINDS = ['reverse_diet', 'surplus_ramp_in', 'surplus_taper'] as const;
+export type GoalTransitionKind = (typeof GOAL_TRANSITION_KINDS)[number];
+
+/**
+ * Where a plan sits in a goal transition
+ * @public
+ */
+export interface PlanPhase {
+  readonly kind: GoalTransitionKind;
+  /** 1-based */
+  readonly phaseNumber: number;
+  readonly phaseCount: number;
+}
+
+/**
+ * One week of a goal transition with the targets for that week
+ * @public
+ */
+export interface GoalTransitionPhase {
+  /** 1-based */
+  readonly phaseNumber: number;
+  readonly startDate: Date;
+  readonly endDate: Date;
+  readonly calorieTarget: number;
+  readonly proteinTarget: number;
+  readonly waterTarget: number;
+  readonly carbsTarget?: number;
+  readonly fatTarget?: number;
+  readonly fiberTarget?: number;
+  /** Expected weight change in kg/week at this week's calories (negative = loss) */
+  readonly weeklyRate: number;
+}
+
+/**
+ * Phased schedule for moving from one primary goal to another
+ *
+ * @public
+ * @example
+ * ```typescript
+ * const transition: GoalTransition = {
+ *   fromGoal: 'lose_weight',
+ *   toGoal: 'maintain',
+ *   kind: 'reverse_diet',
+ *   currentTargets: { calorieTarget: 2220, proteinTarget: 176, waterTarget: 2800 },
+ *   finalTargets: { ... },
+ *   phases: [
+ *     { phaseNumber: 1, calorieTarget: 2350, ... },
+ *     // ...
+ *     { phaseNumber: 4, calorieTarget: 2720, ... },
+ *   ],
+ *   explanation: ['Calories rise from 2220 to 2720 kcal over 4 weeks, about 130 kcal a week'],
+ * };
+ * ```
+ */
+export interface GoalTransition {
+  readonly fromGoal: PrimaryGoalValue;
+  readonly toGoal: PrimaryGoalValue;
+  /** null when the new targets apply right away */
+  readonly kind: GoalTransitionKind | null;
+  /** Targets the user has now */
+  readonly currentTargets: Pick<ComputedTargets, 'calorieTarget' | 'proteinTarget' | 'waterTarget'>;
+  /** Targets for the new goal, reached in the last phase */
+  readonly finalTargets: ComputedTargets;
+  /** Weekly phases starting this week; empty when the new targets apply right away */
+  readonly phases: GoalTransitionPhase[];
+  /** Human-readable sentences summarizing the schedule */
+  readonly explanation: string[];
+}
+
+/**
+ * Response from POST /v1/plans/transition
+ * @public
+ */
+export interface StartGoalTransitionResponse extends GoalTransition {
+  /** Plans created for the phases: the first is active, the rest are scheduled */
+  readonly plans: PlanHistoryItem[];
+  /** Whether the user's targets changed */
+  readonly planUpdated: boolean;
+}
+
+// ============================================================================
+// Diet Periodization Types
+// ============================================================================
+
+/**
+ * Diet breaks and refeed days a user has set up
+ *
+ * @public
+ * @example
+ * ```typescript
+ * // A week at maintenance after every 8 weeks of dieting, with refeeds on Saturday
+ * const periodization: DietPeriodization = {
+ *   dietBreakEveryWeeks: 8,
+ *   dietBreakAnchor: new Date('2025-01-06'),
+ *   refeedDays: [6],
+ * };
+ * ```
+ */
+export interface DietPeriodization {
+  /** Weeks of dieting before each week at maintenance, or null for no diet breaks */
+  readonly dietBreakEveryWeeks: number | null;
+  /** Monday of the week the diet-break cycle counts from */
+  readonly dietBreakAnchor?: Date;
+  /** ISO weekdays eaten at maintenance (1 = Monday … 7 = Sunday) */
+  readonly refeedDays: number[];
+}
+
+/**
+ * Targets for a refeed day
+ * @public
+ */
+export interface RefeedDayTargets {
+  /** Maintenance calories (kcal) */
+  readonly calorieTarget: number;
+  /** Regular carbs plus the extra calories as carbs (g) */
+  readonly carbsTarget?: number;
+}
+
+/**
+ * Periodization applied to a week's targets
+ * @public
+ */
+export interface AppliedPeriodization {
+  readonly dietBreakEveryWeeks: number | null;
+  readonly refeedDays: number[];
+  /** Whether the week is a diet break; calorieTarget is then at maintenance */
+  readonly dietBreakWeek: boolean;
+  /** Calories on regular diet days */
+  readonly dietCalorieTarget: number;
+  /** Targets on refeed days; absent in a diet-break week or without refeed days */
+  readonly refeed?: RefeedDayTargets;
+  /** Average weight change in kg/week over the cycle, counting refeeds and breaks */
+  readonly averageWeeklyRate: number;
+}
+
 // ============================================================================
 // Batch Processing Types
 // ============================================================================
@@ -637,6 +1814,16 @@ export interface UserRecomputeUpdate {
    * @example "calories changed by 150kcal, protein changed by 15g"
    */
   readonly reason: string;
+
+  /**
+   * Whether the new targets were built on the formula or adaptive TDEE
+   */
+  readonly tdeeSource?: TdeeSource;
+
+  /**
+   * Safety guardrails that applied to the new targets
+   */
+  readonly warnings?: readonly GuardrailWarning[];
 }
 
 /**
@@ -749,6 +1936,108 @@ export const WEIGHT_LOSS_DEFICIT = 500;
  */
 export const MUSCLE_GAIN_SURPLUS = 400;
 
+/**
+ * Energy per gram of each macronutrient (kcal)
+ * @public
+ */
+export const KCAL_PER_GRAM = {
+  protein: 4,
+  carbs: 4,
+  fat: 9,
+} as const;
+
+/**
+ * Settings for one macro profile
+ * @public
+ */
+export interface MacroProfileSettings {
+  /**
+   * Share of calories from fat (ignored when carbsGrams is set)
+   */
+  readonly fatShare: number;
+
+  /**
+   * Fixed daily carbs in grams; fat fills the remaining calories
+   */
+  readonly carbsGrams?: number;
+
+  /**
+   * Protein floor in g/kg body weight, raising the goal-based target if needed
+   */
+  readonly proteinMinPerKg?: number;
+
+  /**
+   * Fiber per 1000 kcal of calorie target (g)
+   */
+  readonly fiberPer1000Kcal: number;
+
+  /**
+   * Upper bound on the fiber target (g)
+   */
+  readonly fiberMaxGrams?: number;
+}
+
+/**
+ * Macro splits by profile
+ * @remarks
+ * - balanced: 30% fat, carbs fill the rest
+ * - keto: 50g carbs, fat fills the rest
+ * - high_protein: protein at least 2.4 g/kg, 25% fat
+ * - vegan: protein at least 2.0 g/kg (lower plant protein digestibility), 25% fat, more fiber
+ * - paleo: 35% fat
+ *
+ * @public
+ */
+export const MACRO_PROFILES: Readonly<Record<MacroProfile, MacroProfileSettings>> = {
+  balanced: { fatShare: 0.3, fiberPer1000Kcal: 14 },
+  keto: { fatShare: 0.7, carbsGrams: 50, fiberPer1000Kcal: 14, fiberMaxGrams: 20 },
+  high_protein: { fatShare: 0.25, proteinMinPerKg: 2.4, fiberPer1000Kcal: 14 },
+  vegan: { fatShare: 0.25, proteinMinPerKg: 2.0, fiberPer1000Kcal: 18 },
+  paleo: { fatShare: 0.35, fiberPer1000Kcal: 14 },
+};
+
+/**
+ * Order in which dietary preferences pick the macro profile
+ * @public
+ */
+export const MACRO_PROFILE_PRIORITY: readonly Exclude<MacroProfile, 'balanced'>[] = [
+  'keto',
+  'high_protein',
+  'vegan',
+  'paleo',
+];
+
+/**
+ * How recent a body fat reading must be to drive BMR formula selection (days)
+ * @public
+ */
+export const BODY_COMPOSITION_MAX_AGE_DAYS = 30;
+
+/**
+ * Approximate energy content of one kg of body weight change (kcal)
+ * @public
+ */
+export const KCAL_PER_KG_BODY_WEIGHT = 7700;
+
+/**
+ * Adaptive TDEE estimator settings
+ * @remarks
+ * - windowDays: how far back weigh-ins and meals are read
+ * - trendSmoothing: EMA factor per day (0.1 = Hacker's Diet style trend)
+ * - min*: data required before the estimate replaces the formula
+ * - plausible: estimates outside this range fall back to the formula
+ *
+ * @public
+ */
+export const ADAPTIVE_TDEE_SETTINGS = {
+  windowDays: 28,
+  trendSmoothing: 0.1,
+  minWeighInDays: 8,
+  minIntakeDays: 10,
+  minSpanDays: 14,
+  plausible: { min: 1000, max: 6000 },
+} as const;
+
 // ============================================================================
 // Validation Ranges
 // ============================================================================
@@ -764,6 +2053,144 @@ export const VALIDATION_RANGES = {
   height: { min: 100, max: 250 },
   age: { min: 13, max: 120 },
   targetWeight: { min: 30, max: 300 },
+  bodyFat: { min: 3, max: 60 },
+} as const;
+
+/**
+ * Weigh-in sync settings
+ * @remarks
+ * - referenceWindowDays / referenceSampleSize: recent weigh-ins whose median is the outlier reference
+ * - tolerance: allowed distance from the reference, max(minKg, basePct × ref) + perDayKg × days since
+ *   the reference, capped at maxPct × ref
+ * - recomputeThresholdKg: drift from the weight behind the last plan update that triggers a recompute
+ *
+ * @public
+ */
+export const WEIGHT_SYNC_SETTINGS = {
+  referenceWindowDays: 30,
+  referenceSampleSize: 5,
+  tolerance: { minKg: 3, basePct: 0.05, perDayKg: 0.2, maxPct: 0.2 },
+  recomputeThresholdKg: 1,
+} as const;
+
+/**
+ * Weight trend analytics settings
+ * @remarks
+ * - defaultRangeDays / maxRangeDays: date range returned by GET /v1/progress/weight
+ * - leadInDays: history read before the range to seed the trend and the outlier reference
+ * - rateWindowDays / minRateSpanDays: window for the actual weekly rate and the minimum span needed
+ * - onTrackToleranceKg: allowed weekly distance between the actual and planned rate
+ * - plateauWeeks: default weeks without trend movement before a plateau is flagged
+ * - plateauMaxWeeklyChangeKg: average weekly trend change below which the trend counts as flat
+ *
+ * @public
+ */
+export const WEIGHT_TREND_SETTINGS = {
+  defaultRangeDays: 90,
+  maxRangeDays: 730,
+  leadInDays: 30,
+  rateWindowDays: 28,
+  minRateSpanDays: 7,
+  onTrackToleranceKg: 0.25,
+  plateauWeeks: 3,
+  plateauMaxWeeklyChangeKg: 0.1,
+} as const;
+
+/**
+ * Goal trajectory settings
+ * @remarks
+ * - onTrackToleranceKg: distance from the expected weight that still counts as on track
+ * - reachedToleranceKg: distance from the target weight that counts as reached
+ * - minObservedWeeklyRateKg: slower trends are treated as not moving (no completion estimate)
+ * - maxEstimateWeeks: completion estimates further out than this are not reported
+ * The fastest rate a target date may require comes from SAFETY_GUARDRAILS.
+ *
+ * @public
+ */
+export const GOAL_TRAJECTORY_SETTINGS = {
+  onTrackToleranceKg: 1,
+  reachedToleranceKg: 0.5,
+  minObservedWeeklyRateKg: 0.05,
+  maxEstimateWeeks: 260,
+} as const;
+
+/**
+ * Safety guardrails applied to every computed plan
+ * @remarks
+ * - minBmi: no deficit below this BMI; target weights below it are flagged
+ * - adolescentMaxAge: users up to this age get the adolescent rules
+ * - minCalories: calorie floor by sex (kcal/day)
+ * - bmrFloorRatio: calories never go below this share of BMR either
+ * - maxWeeklyLossPct / maxWeeklyLossKg: weekly loss is capped at the lower of the two
+ * - maxWeeklyGainKg: weekly gain cap
+ *
+ * @public
+ */
+export const SAFETY_GUARDRAILS = {
+  minBmi: 18.5,
+  adolescentMaxAge: 17,
+  adult: {
+    minCalories: { male: 1500, female: 1200, other: 1350 },
+    bmrFloorRatio: 0.9,
+    maxWeeklyLossPct: 0.01,
+    maxWeeklyLossKg: 1,
+    maxWeeklyGainKg: 0.5,
+  },
+  adolescent: {
+    minCalories: { male: 1800, female: 1600, other: 1700 },
+    bmrFloorRatio: 1,
+    maxWeeklyLossPct: 0.005,
+    maxWeeklyLossKg: 0.5,
+    maxWeeklyGainKg: 0.25,
+  },
+} as const;
+
+/**
+ * Target override settings
+ * @remarks
+ * - ranges: values a target may be pinned to; calorie pins must also pass SAFETY_GUARDRAILS
+ * - maxExpiryDays: how far ahead an expiry may be set
+ * - reasonMaxLength: longest note that can be kept with a pin
+ *
+ * @public
+ */
+export const TARGET_OVERRIDE_SETTINGS = {
+  ranges: {
+    calorieTarget: { min: 1000, max: 6000 },
+    proteinTarget: { min: 20, max: 400 },
+    waterTarget: { min: 500, max: 8000 },
+  },
+  maxExpiryDays: 365,
+  reasonMaxLength: 500,
+} as const;
+
+/**
+ * Goal transition settings
+ * @remarks
+ * - maxWeeklyStepKcal: largest calorie change between two weeks of a transition; smaller
+ *   goal changes apply right away
+ * - maxPhases: longest transition in weeks (steps grow beyond maxWeeklyStepKcal to fit)
+ * - roundToKcal: intermediate calorie targets are rounded to this step
+ *
+ * @public
+ */
+export const GOAL_TRANSITION_SETTINGS = {
+  maxWeeklyStepKcal: 150,
+  maxPhases: 8,
+  roundToKcal: 10,
+} as const;
+
+/**
+ * Diet periodization settings
+ * @remarks
+ * - dietBreakEveryWeeks: allowed weeks of dieting between two diet breaks
+ * - maxRefeedDays: most refeed days in a week
+ *
+ * @public
+ */
+export const PERIODIZATION_SETTINGS = {
+  dietBreakEveryWeeks: { min: 4, max: 16 },
+  maxRefeedDays: 2,
 } as const;
 
 /**
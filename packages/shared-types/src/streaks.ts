@@ -30,6 +30,7 @@ import { BadgeType } from './enums';
  * - WEEKEND_WARRIOR: Stay compliant on weekends for 4 weeks
  * - COMEBACK_KID: Resume streak after a break
  * - MILESTONE_MASTER: Reach specific weight/measurement milestones
+ * - RECORD_BREAKER: Set a personal record on a lift
  */
 
 /**
@@ -193,6 +194,15 @@ export const BADGE_CATALOG: Record<BadgeType, BadgeMetadata> = {
     unlockCriteria: 'Upload progress photos for 4 consecutive weeks',
     isImplemented: false,
   },
+  [BadgeType.RecordBreaker]: {
+    type: BadgeType.RecordBreaker,
+    name: 'Record Breaker',
+    description: 'Set your first personal record',
+    emoji: '🏋️',
+    category: 'milestone',
+    unlockCriteria: 'Beat your best weight, estimated 1RM or volume on any exercise',
+    isImplemented: true,
+  },
 };
 
 // ============================================================================
@@ -4,6 +4,7 @@
  */
 
 import { MealType, PhotoType } from './enums';
+import type { ProgressionRule } from './training';
 
 /**
  * Base metadata interface that all task metadata types extend
@@ -24,6 +25,12 @@ export interface WorkoutMetadata extends BaseTaskMetadata {
   duration?: number; // minutes
   restBetweenSets?: number; // seconds
   targetMuscleGroup?: string;
+  exerciseKey?: string; // training program exercise (e.g. 'back_squat')
+  sessionName?: string; // e.g. 'Upper A'
+  repRangeMin?: number;
+  repRangeMax?: number;
+  progression?: ProgressionRule;
+  deload?: boolean;
 }
 
 /**
@@ -45,6 +52,7 @@ export interface MealMetadata extends BaseTaskMetadata {
   targetProtein?: number; // grams
   targetCarbs?: number; // grams
   targetFat?: number; // grams
+  targetFiber?: number; // grams
   recipeName?: string;
   mealPlanUrl?: string;
 }
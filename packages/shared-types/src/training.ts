@@ -0,0 +1,326 @@
+/**
+ * Training Program Types
+ *
+ * Types for the workout programming engine: exercise templates, split routines chosen by
+ * goal and activity level, and the per-exercise prescriptions that progress from logged
+ * workout evidence.
+ */
+
+import type { ActivityLevelValue, PrimaryGoalValue } from './science';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * How hard a workout felt, as logged in workout evidence (WorkoutMetrics.difficulty)
+ * @public
+ */
+export const WORKOUT_DIFFICULTIES = ['easy', 'moderate', 'hard', 'very_hard'] as const;
+export type WorkoutDifficulty = (typeof WORKOUT_DIFFICULTIES)[number];
+
+/**
+ * How an exercise moves forward from one session to the next
+ * @remarks
+ * - double_progression: add reps within the rep range, then add weight once every set
+ *   reaches the top of the range
+ * - rpe: adjust the weight from the logged difficulty (easy → heavier, very_hard → lighter)
+ * @public
+ */
+export const PROGRESSION_RULES = ['double_progression', 'rpe'] as const;
+export type ProgressionRule = (typeof PROGRESSION_RULES)[number];
+
+/**
+ * Weekly split routines
+ * @remarks
+ * - full_body: every session trains the whole body (2-3 days a week)
+ * - upper_lower: upper and lower body sessions alternate (4+ days a week)
+ * - push_pull_legs: pushing, pulling and leg sessions rotate (5+ days a week, muscle gain)
+ * @public
+ */
+export const SPLIT_ROUTINES = ['full_body', 'upper_lower', 'push_pull_legs'] as const;
+export type SplitRoutine = (typeof SPLIT_ROUTINES)[number];
+
+/**
+ * Equipment an exercise uses
+ * @public
+ */
+export type ExerciseEquipment = 'barbell' | 'dumbbell' | 'cable' | 'machine' | 'bodyweight';
+
+/**
+ * What changed in a prescription compared with the last logged session
+ * @public
+ */
+export type ProgressionAdjustment =
+  | 'start'
+  | 'increase_weight'
+  | 'increase_reps'
+  | 'hold'
+  | 'decrease_weight'
+  | 'deload'
+  | 'resume';
+
+// ============================================================================
+// Exercise Types
+// ============================================================================
+
+/**
+ * Exercise in the template catalog
+ * @public
+ */
+export interface ExerciseTemplate {
+  /** Stable identifier stored on workout tasks (e.g. 'back_squat') */
+  readonly key: string;
+  readonly name: string;
+  readonly muscleGroup: string;
+  readonly equipment: ExerciseEquipment;
+  /** Multi-joint lift; compounds get the goal's compound sets and rep range */
+  readonly compound: boolean;
+  readonly progression: ProgressionRule;
+  /** Smallest weight jump in kg (0 for bodyweight exercises) */
+  readonly incrementKg: number;
+  /** First-session load as a share of body weight (0 for bodyweight exercises) */
+  readonly startingLoadPerKg: number;
+}
+
+/**
+ * Inclusive rep range
+ * @public
+ */
+export interface RepRange {
+  readonly min: number;
+  readonly max: number;
+}
+
+/**
+ * One logged session of an exercise, from a completed workout task and its evidence
+ * @public
+ */
+export interface ExerciseSessionLog {
+  readonly recordedAt: Date;
+  /** What the task asked for */
+  readonly prescribed: {
+    readonly sets: number;
+    readonly reps: number;
+    readonly weight: number | null;
+    readonly deload: boolean;
+  };
+  /** What was logged; missing values mean the prescription was followed */
+  readonly actual: {
+    readonly sets?: number;
+    readonly reps?: number;
+    readonly weight?: number;
+  };
+  readonly difficulty?: WorkoutDifficulty;
+}
+
+/**
+ * Logged sessions by exercise key, newest first
+ * @public
+ */
+export type ExerciseHistory = Readonly<Record<string, readonly ExerciseSessionLog[]>>;
+
+/**
+ * Sets, reps and weight for one exercise in a session
+ * @public
+ */
+export interface ExercisePrescription {
+  readonly exerciseKey: string;
+  readonly exerciseName: string;
+  readonly muscleGroup: string;
+  readonly sets: number;
+  readonly reps: number;
+  readonly repRange: RepRange;
+  /** Load in kg, or null for bodyweight exercises */
+  readonly weight: number | null;
+  readonly progression: ProgressionRule;
+  readonly adjustment: ProgressionAdjustment;
+  readonly deload: boolean;
+  /** Why the prescription changed (or didn't) since the last session */
+  readonly reason: string;
+}
+
+// ============================================================================
+// Program Types
+// ============================================================================
+
+/**
+ * Workout on one day of the week
+ * @public
+ */
+export interface TrainingSession {
+  /** ISO weekday (1 = Monday … 7 = Sunday) */
+  readonly isoWeekday: number;
+  /** Session label (e.g. 'Upper A') */
+  readonly name: string;
+  readonly exercises: ExercisePrescription[];
+  /** Estimated length in minutes, warm-up included */
+  readonly duration: number;
+}
+
+/**
+ * A week of training with progression applied
+ *
+ * @public
+ * @example
+ * ```typescript
+ * const program: TrainingProgram = {
+ *   split: 'upper_lower',
+ *   primaryGoal: 'lose_weight',
+ *   activityLevel: 'moderately_active',
+ *   daysPerWeek: 4,
+ *   sessions: [
+ *     { isoWeekday: 1, name: 'Upper A', exercises: [...], duration: 50 },
+ *     // ...
+ *   ],
+ * };
+ * ```
+ */
+export interface TrainingProgram {
+  readonly split: SplitRoutine;
+  readonly primaryGoal: PrimaryGoalValue;
+  readonly activityLevel: ActivityLevelValue;
+  readonly daysPerWeek: number;
+  readonly sessions: TrainingSession[];
+}
+
+// ============================================================================
+// Strength Analytics Types
+// ============================================================================
+
+/**
+ * Kinds of personal record tracked per exercise
+ * @remarks
+ * - weight: heaviest weight lifted for the prescribed sets
+ * - estimated_1rm: best one-rep max estimated from weight and reps (Epley)
+ * - volume: most weight moved in one session (weight × reps × sets)
+ * @public
+ */
+export const PERSONAL_RECORD_TYPES = ['weight', 'estimated_1rm', 'volume'] as const;
+export type PersonalRecordType = (typeof PERSONAL_RECORD_TYPES)[number];
+
+/**
+ * A personal record set in one logged workout
+ * @public
+ */
+export interface PersonalRecord {
+  readonly exerciseKey: string;
+  readonly exerciseName: string;
+  readonly recordType: PersonalRecordType;
+  /** kg (volume: kg × reps × sets) */
+  readonly value: number;
+  /** Best before this session; null when it was the first session of the exercise */
+  readonly previousValue: number | null;
+  readonly sets: number;
+  readonly reps: number;
+  readonly weight: number;
+  readonly evidenceId: number;
+  readonly achievedAt: Date | string;
+}
+
+/**
+ * Raised when workout evidence beats an earlier best; the badge system awards from it
+ * @public
+ */
+export interface PersonalRecordEvent {
+  readonly userId: number;
+  readonly evidenceId: number;
+  /** Records that beat a previous best (first-session baselines are not included) */
+  readonly records: PersonalRecord[];
+}
+
+/**
+ * One logged session of an exercise in strength history
+ * @public
+ */
+export interface StrengthSessionSummary {
+  /** Local date (YYYY-MM-DD) */
+  readonly date: string;
+  readonly recordedAt: Date | string;
+  readonly sets: number;
+  readonly reps: number;
+  readonly weight: number;
+  /** null above STRENGTH_ANALYTICS_SETTINGS.maxEstimateReps reps */
+  readonly estimatedOneRepMax: number | null;
+  readonly volume: number;
+  /** Records this session beat */
+  readonly personalRecords: PersonalRecordType[];
+}
+
+/**
+ * Strength history and all-time bests of one exercise
+ * @public
+ */
+export interface ExerciseStrengthHistory {
+  readonly exerciseKey: string;
+  readonly exerciseName: string;
+  readonly bests: Readonly<Record<PersonalRecordType, PersonalRecord | null>>;
+  /** Sessions in the requested range, oldest first */
+  readonly sessions: StrengthSessionSummary[];
+}
+
+/**
+ * Weighted training volume for one week (Monday to Sunday)
+ * @public
+ */
+export interface WeeklyTrainingVolume {
+  /** Monday of the week (YYYY-MM-DD) */
+  readonly weekStart: string;
+  readonly sessions: number;
+  readonly sets: number;
+  /** kg × reps × sets across all exercises */
+  readonly volume: number;
+}
+
+/**
+ * Response for GET /v1/progress/strength
+ * @public
+ */
+export interface StrengthProgressResponse {
+  readonly from: string;
+  readonly to: string;
+  readonly exercises: ExerciseStrengthHistory[];
+  /** Every week of the range, oldest first (weeks without workouts have zero volume) */
+  readonly weeklyVolume: WeeklyTrainingVolume[];
+  /** Records beaten in the range, newest first */
+  readonly recentRecords: PersonalRecord[];
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * Training program settings
+ * @remarks
+ * - historyDays: how far back workout evidence is read for progression
+ * - deloadAfterVeryHardSessions: consecutive very_hard sessions of an exercise that trigger
+ *   a deload
+ * - deloadLoadFactor / deloadSetFactor: share of the weight and sets kept in a deload
+ * - warmupMinutes / minutesPerSet: used to estimate session length
+ *
+ * @public
+ */
+export const TRAINING_PROGRAM_SETTINGS = {
+  historyDays: 56,
+  deloadAfterVeryHardSessions: 2,
+  deloadLoadFactor: 0.9,
+  deloadSetFactor: 0.5,
+  warmupMinutes: 10,
+  minutesPerSet: 2.5,
+} as const;
+
+/**
+ * Strength analytics settings
+ * @remarks
+ * - defaultRangeDays / maxRangeDays: window of GET /v1/progress/strength
+ * - maxEstimateReps: sets with more reps don't get an estimated 1RM (the Epley formula
+ *   overestimates at high reps)
+ *
+ * @public
+ */
+export const STRENGTH_ANALYTICS_SETTINGS = {
+  defaultRangeDays: 90,
+  maxRangeDays: 365,
+  maxEstimateReps: 12,
+} as const;
@@ -90,6 +90,15 @@ export const isProgressPhotoTask = (
   return task.taskType === TaskType.ProgressPhoto;
 };
 
+/**
+ * Type guard for user-defined custom tasks
+ */
+export const isCustomTask = (
+  task: DailyTask
+): task is DailyTask & { taskType: TaskType.Custom } => {
+  return task.taskType === TaskType.Custom;
+};
+
 // ============================================================================
 // Metadata Type Guards
 // ============================================================================